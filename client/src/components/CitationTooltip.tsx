@@ -2,12 +2,15 @@ import React from 'react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { FileText, ExternalLink, CheckCircle, AlertTriangle } from "lucide-react";
+import { formatCitationSource } from "@shared/citation-source";
 
 export interface Citation {
   id: number;
   sourceDocumentId: number;
   documentTitle: string;
-  pageNumber?: number;
+  /** Pages of a PDF source, 1-based */
+  pageStart?: number | null;
+  pageEnd?: number | null;
   sectionTitle?: string;
   confidence: number;
   citationText?: string;
@@ -60,12 +63,11 @@ export function CitationTooltip({ children, citations, className = "" }: Citatio
                   <FileText className="h-3 w-3 text-slate-400 mt-0.5 flex-shrink-0" />
                   <div className="flex-1">
                     <p className="text-xs font-medium text-slate-700">
-                      {citation.documentTitle}
+                      {formatCitationSource(citation.documentTitle, citation)}
                     </p>
                     {citation.sectionTitle && (
                       <p className="text-xs text-slate-500">
                         {citation.sectionTitle}
-                        {citation.pageNumber && ` • Page ${citation.pageNumber}`}
                       </p>
                     )}
                   </div>
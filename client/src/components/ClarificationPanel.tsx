@@ -24,6 +24,8 @@ export interface ClarificationQuestion {
   isAnswered: boolean;
   answer?: string;
   followUpNeeded: boolean;
+  /** More specific guidance, once the writer asks for help */
+  followUp?: string | null;
 }
 
 interface ClarificationPanelProps {
@@ -196,6 +198,13 @@ export function ClarificationPanel({
                         </div>
                       )}
 
+                      {question.followUp && (
+                        <div className="p-3 bg-slate-50 rounded-lg">
+                          <p className="text-sm font-medium text-slate-700 mb-1">What to include:</p>
+                          <p className="text-sm text-slate-600">{question.followUp}</p>
+                        </div>
+                      )}
+
                       {/* Answer Input */}
                       <div className="space-y-3">
                         <Textarea
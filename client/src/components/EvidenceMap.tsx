@@ -3,26 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { CheckCircle, AlertTriangle, XCircle, FileText, Target, TrendingUp } from "lucide-react";
+import type { EvidenceMapData } from "@shared/evidence-map";
 
-export interface EvidenceMapData {
-  sectionName: string;
-  evidenceStrength: number; // 0-1 scale
-  sourceCount: number;
-  assumptionCount: number;
-  qualityIssues: Array<{
-    type: 'missing_citation' | 'weak_source' | 'assumption' | 'inconsistency';
-    message: string;
-    severity: 'low' | 'medium' | 'high';
-  }>;
-  recommendations: string[];
-  paragraphs: Array<{
-    id: string;
-    text: string;
-    citationCount: number;
-    assumptionCount: number;
-    evidenceScore: number;
-  }>;
-}
+export type { EvidenceMapData };
 
 interface EvidenceMapProps {
   data: EvidenceMapData[];
@@ -13,6 +13,7 @@ import { CurrencyInput } from "@/components/ui/currency-input";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { FunderProfileSelect } from "@/components/funder-profile-select";
 import { parseAmountToNumber } from "@/lib/currency";
 import { workspaceKeys } from "@/lib/workspace-query-keys";
 import {
@@ -44,6 +45,7 @@ export function EditProjectDialog({
   const [formData, setFormData] = useState({
     title: project.title || "",
     funder: project.funder || "",
+    funderId: project.funderId ?? null,
     amount: project.amount
       ? (parseAmountToNumber(project.amount) || "").toString()
       : "",
@@ -84,6 +86,7 @@ export function EditProjectDialog({
     const updates: Partial<Project> = {
       title: formData.title,
       funder: formData.funder,
+      funderId: formData.funderId,
       amount: formData.amount || undefined,
       deadline: formData.deadline || undefined,
       description: formData.description || undefined,
@@ -132,6 +135,18 @@ export function EditProjectDialog({
               />
             </div>
 
+            <FunderProfileSelect
+              organizationId={organizationId}
+              value={formData.funderId}
+              onChange={(funder) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  funderId: funder?.id ?? null,
+                  funder: funder?.name ?? prev.funder,
+                }))
+              }
+            />
+
             {/* Amount and Deadline (side by side) */}
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div className="grid gap-2">
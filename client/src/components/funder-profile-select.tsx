@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api, type Funder } from "@/lib/api";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+
+const NO_PROFILE = "none";
+
+interface FunderProfileSelectProps {
+  organizationId?: string | null;
+  value: string | null;
+  onChange: (funder: Funder | null) => void;
+}
+
+/**
+ * Links a project to one of the workspace's funder profiles. Renders nothing
+ * until the workspace has one; profiles are managed on the organization page.
+ */
+export function FunderProfileSelect({ organizationId, value, onChange }: FunderProfileSelectProps) {
+  const { data: funders = [] } = useQuery<Funder[]>({
+    queryKey: workspaceKeys.funders(organizationId),
+    queryFn: () => api.getFunders(organizationId!),
+    enabled: !!organizationId,
+  });
+  if (!funders.length) return null;
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="funderProfile">Funder Profile</Label>
+      <Select
+        value={value ?? NO_PROFILE}
+        onValueChange={(id) => onChange(funders.find((funder) => funder.id === id) ?? null)}
+      >
+        <SelectTrigger id="funderProfile">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+          {funders.map((funder) => (
+            <SelectItem key={funder.id} value={funder.id}>
+              {funder.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-slate-500">Answers are written to this funder's priorities and scoring criteria.</p>
+    </div>
+  );
+}
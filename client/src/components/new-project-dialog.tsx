@@ -13,6 +13,7 @@ import { CurrencyInput } from "@/components/ui/currency-input";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { FunderProfileSelect } from "@/components/funder-profile-select";
 import { api } from "@/lib/api";
 import { workspaceKeys } from "@/lib/workspace-query-keys";
 import { useToast } from "@/hooks/use-toast";
@@ -36,6 +37,7 @@ export function NewProjectDialog({
   const [formData, setFormData] = useState({
     title: "",
     funder: "",
+    funderId: null as string | null,
     amount: "",
     deadline: "",
     description: "",
@@ -63,6 +65,7 @@ export function NewProjectDialog({
       setFormData({
         title: "",
         funder: "",
+        funderId: null,
         amount: "",
         deadline: "",
         description: "",
@@ -123,6 +126,18 @@ export function NewProjectDialog({
               />
             </div>
 
+            <FunderProfileSelect
+              organizationId={organizationId}
+              value={formData.funderId}
+              onChange={(funder) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  funderId: funder?.id ?? null,
+                  funder: funder?.name ?? prev.funder,
+                }))
+              }
+            />
+
             {/* Amount and Deadline (side by side) */}
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div className="grid gap-2">
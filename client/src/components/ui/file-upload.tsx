@@ -25,12 +25,12 @@ const defaultDescription = (
 
 export function FileUpload({
   onUpload,
-  accept = ".pdf,.doc,.docx,.txt",
+  accept = ".pdf,.doc,.docx,.txt,.xlsx,.csv,.html,.htm,.md,.rtf,.odt,.pptx",
   multiple = false,
   category,
   title = "Drag & drop files here",
   description = defaultDescription,
-  fileTypesHint = "PDF · DOC · DOCX · TXT — up to 10 MB each",
+  fileTypesHint = "PDF · DOC · DOCX · TXT · XLSX · CSV · HTML · MD · RTF · ODT · PPTX — up to 10 MB each",
   showToast = true,
   disabled = false,
   className,
@@ -1,10 +1,54 @@
 import { apiRequest, API_BASE_URL } from "./queryClient";
+import type { ProjectEvidenceMap } from "@shared/evidence-map";
+import type { ApplicationReview, DraftReview } from "@shared/draft-review";
+import type { ConsistencyReport } from "@shared/consistency";
+import type { LibraryAnswer, LibraryMatch } from "@shared/answer-library";
+import type { SimilarAnswer } from "@shared/similar-questions";
+import type { AuditChunk, AuditSettings, GenerationOperation, GenerationRerun } from "@shared/generation-audit";
+import type { GenerationPreview } from "@shared/generation-preview";
+import type { DocumentSummary } from "@shared/document-summary";
+import type { AnswerLimitType } from "@shared/answer-limits";
+import type { EvaluationCriterion, ExtractedQuestion, RfpExtraction } from "@shared/rfp-extraction";
+import type { FunderContact } from "@shared/funders";
+
+export type {
+  ApplicationReview,
+  ConsistencyReport,
+  DraftReview,
+  EvaluationCriterion,
+  ExtractedQuestion,
+  FunderContact,
+  LibraryAnswer,
+  LibraryMatch,
+  ProjectEvidenceMap,
+  RfpExtraction,
+  SimilarAnswer,
+  GenerationRerun,
+  GenerationPreview,
+  DocumentSummary,
+};
+
+export interface GenerateOptions {
+  tone?: string;
+  emphasisAreas?: string[];
+  /** Answer library entries to model the answer on */
+  exemplarIds?: string[];
+}
+
+export interface ReviewOptions {
+  /** Rubric to score against; the project's funder's criteria when omitted */
+  criteria?: EvaluationCriterion[];
+  /** Score again even when a version was already reviewed against this rubric */
+  refresh?: boolean;
+}
 
 export interface Project {
   id: string;
   organizationId?: string;
   title: string;
   funder: string;
+  /** Funder profile whose priorities and criteria shape this project's answers */
+  funderId?: string | null;
   amount?: string;
   deadline?: string;
   status: string;
@@ -20,9 +64,15 @@ export interface Project {
 export interface Organization {
   id: string;
   name: string;
+  legalName?: string | null;
+  dba?: string | null;
   organizationType?: string | null;
   ein?: string | null;
+  uei?: string | null;
+  duns?: string | null;
   foundedYear?: number | null;
+  fiscalYearEnd?: string | null;
+  address?: string | null;
   primaryContact?: string | null;
   contactEmail?: string | null;
   mission?: string | null;
@@ -96,6 +146,170 @@ export interface OrganizationProfileSuggestion {
   updatedAt: string;
 }
 
+/**
+ * A confirmed organization fact. Facts with a `factKey` make up the fact
+ * sheet every draft is written with; the rest are answers to questions.
+ */
+export interface OrganizationFact {
+  id: string;
+  organizationId: string;
+  projectId: string | null;
+  factKey: string | null;
+  period: string | null;
+  label: string;
+  value: string;
+  source: "manual" | "clarification" | "assumption" | "document";
+  sourceDocumentId: string | null;
+  asOf: string | null;
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrganizationFactInput {
+  factKey: string;
+  period?: string | null;
+  value: string;
+  /** yyyy-mm-dd */
+  asOf?: string | null;
+  sourceDocumentId?: string | null;
+}
+
+/** A funder the organization applies to. Award amounts are in cents. */
+export interface Funder {
+  id: string;
+  organizationId: string;
+  name: string;
+  mission: string | null;
+  priorities: string[];
+  terminology: string[];
+  evaluationCriteria: EvaluationCriterion[];
+  awardMin: number | null;
+  awardMax: number | null;
+  contacts: FunderContact[];
+  notes: string | null;
+  sourceDocumentId: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FunderInput = Partial<
+  Pick<
+    Funder,
+    "mission" | "priorities" | "terminology" | "evaluationCriteria" | "awardMin" | "awardMax" | "contacts" | "notes"
+  >
+> & { name: string };
+
+/** Self-hosted OpenAI-compatible server used for a workspace's AI calls. The key is write-only. */
+export interface OrganizationAiEndpoint {
+  organizationId: string;
+  baseUrl: string;
+  chatModel: string;
+  embeddingModel: string | null;
+  hasApiKey: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrganizationAiEndpointInput {
+  baseUrl: string;
+  chatModel: string;
+  embeddingModel?: string | null;
+  /** Omit to keep the stored key; null clears it. */
+  apiKey?: string | null;
+}
+
+export type GenerationBatchItemStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+/** Progress of a "draft all unanswered" run, polled while `status` is "running". */
+export interface GenerationBatchProgress {
+  id: string;
+  projectId: string;
+  status: "running" | "completed" | "cancelled";
+  concurrency: number;
+  estimatedTokens: number;
+  counts: Record<GenerationBatchItemStatus, number>;
+  items: Array<{
+    questionId: string;
+    status: GenerationBatchItemStatus;
+    responseStatus: string | null;
+    error: string | null;
+    startedAt: string | null;
+    finishedAt: string | null;
+  }>;
+  createdAt: string | null;
+  finishedAt: string | null;
+}
+
+/** A condensed or expanded answer proposed by "Fit to limit"; saved only when accepted. */
+export interface ResponseVersion {
+  id: string;
+  questionId: string;
+  content: string;
+  tone: string;
+  wordCount: number;
+  version: number;
+  isCurrent: boolean | null;
+  createdAt: string;
+}
+
+/** What produced one model-written response version. */
+export interface GenerationAudit {
+  id: string;
+  projectId: string;
+  questionId: string;
+  responseVersionId: string;
+  operation: GenerationOperation;
+  provider: string;
+  model: string;
+  temperature: number | null;
+  settings: AuditSettings;
+  chunks: AuditChunk[];
+  tokensIn: number;
+  tokensOut: number;
+  latencyMs: number | null;
+  assumptions: string[];
+  /** The prompt input as sent to the model */
+  request: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type GenerationAuditExport = GenerationAudit & { question: string | null; version: number | null };
+
+export interface LengthFitProposal {
+  text: string;
+  unit: AnswerLimitType;
+  min: number;
+  max: number;
+  length: number;
+  withinLimit: boolean;
+  direction: "condense" | "expand" | null;
+  droppedClaims: Array<{ sentence: string; markers: number[] }>;
+  /** Set when the stored answer was rewritten and saved as this version */
+  versionId: string | null;
+}
+
+/** A question for the writer; answering it records an organization fact. */
+export interface ProjectClarification {
+  id: string;
+  projectId: string;
+  questionId: string | null;
+  origin: "assumption" | "retrieval_gap";
+  category: "budget" | "timeline" | "outcomes" | "methodology" | "team" | "sustainability" | "evidence" | "specificity";
+  priority: "critical" | "high" | "medium" | "low";
+  questionText: string;
+  contextExplanation: string;
+  exampleAnswer?: string;
+  status: "open" | "answered" | "skipped";
+  isAnswered: boolean;
+  answer?: string;
+  followUp: string | null;
+  followUpNeeded: boolean;
+  factId: string | null;
+}
+
 export type MetricType = "number" | "currency" | "percent" | "text" | "date";
 export type MetricCategory = "impact" | "financial" | "timeline" | "reporting" | "custom";
 export type MetricSource = "manual" | "ai_suggested" | "preset";
@@ -161,6 +375,7 @@ export interface ApplicationMetrics {
   questionsAnswered: number;
   citationsCount: number;
   unresolvedAssumptions: number;
+  closedAssumptions: number;
   daysToDeadline: number | null;
   wordLimitUtilization: number | null;
   lastActivityAt: string | null;
@@ -229,6 +444,7 @@ export interface Document {
   fileSize: number;
   category?: string;
   summary?: string;
+  structuredSummary?: DocumentSummary | null;
   processed: boolean;
   processingStatus: string;
   processingError?: string | null;
@@ -247,7 +463,9 @@ export interface GrantQuestion {
   projectId: string;
   question: string;
   content?: string;
+  /** Answer limit, counted in `limitType` units */
   wordLimit?: number;
+  limitType?: AnswerLimitType;
   priority: string;
   response?: string;
   responseStatus: string;
@@ -260,6 +478,9 @@ export interface GrantQuestion {
     documentId: string;
     chunkIndex: number;
     quote?: string;
+    /** Pages of a PDF source, 1-based */
+    pageStart?: number | null;
+    pageEnd?: number | null;
   }>;
   assumptions?: Array<{
     id: string;
@@ -268,6 +489,9 @@ export interface GrantQuestion {
     confidence: number;
     suggestedQuestion?: string;
     resolved?: boolean;
+    /** The writer's answer; set when the gap was closed rather than dismissed */
+    answer?: string | null;
+    factId?: string | null;
   }>;
   retrievedChunks?: Array<{
     documentName: string;
@@ -355,11 +579,88 @@ export const api = {
     organizationId: string,
     suggestionId: string,
     status: "pending" | "accepted" | "rejected" | "dismissed",
-  ): Promise<{ suggestion: OrganizationProfileSuggestion; organization: Organization | null }> {
+  ): Promise<{
+    suggestion: OrganizationProfileSuggestion;
+    organization: Organization | null;
+    /** Set when an accepted suggestion was a fact sheet entry */
+    fact: OrganizationFact | null;
+  }> {
     const res = await apiRequest("POST", `/api/organizations/${organizationId}/profile-suggestions/${suggestionId}/review`, { status });
     return res.json();
   },
 
+  async getOrganizationFacts(organizationId: string): Promise<OrganizationFact[]> {
+    const res = await apiRequest("GET", `/api/organizations/${organizationId}/facts`);
+    return res.json();
+  },
+
+  /** Adds a fact sheet entry, or updates the one with the same type and period. */
+  async saveOrganizationFact(organizationId: string, data: OrganizationFactInput): Promise<OrganizationFact> {
+    const res = await apiRequest("POST", `/api/organizations/${organizationId}/facts`, data);
+    return res.json();
+  },
+
+  async updateOrganizationFact(
+    id: string,
+    data: Partial<Omit<OrganizationFactInput, "factKey">>,
+  ): Promise<OrganizationFact> {
+    const res = await apiRequest("PATCH", `/api/organization-facts/${id}`, data);
+    return res.json();
+  },
+
+  async deleteOrganizationFact(id: string): Promise<void> {
+    await apiRequest("DELETE", `/api/organization-facts/${id}`);
+  },
+
+  async getFunders(organizationId: string): Promise<Funder[]> {
+    const res = await apiRequest("GET", `/api/organizations/${organizationId}/funders`);
+    return res.json();
+  },
+
+  async createFunder(organizationId: string, data: FunderInput): Promise<Funder> {
+    const res = await apiRequest("POST", `/api/organizations/${organizationId}/funders`, data);
+    return res.json();
+  },
+
+  /** Reads a profile from an uploaded RFP or guidelines: a new funder, or additions to `funderId`. */
+  async buildFunderFromDocument(
+    organizationId: string,
+    documentId: string,
+    funderId?: string | null,
+  ): Promise<Funder> {
+    const res = await apiRequest("POST", `/api/organizations/${organizationId}/funders/from-document`, {
+      documentId,
+      funderId: funderId ?? undefined,
+    });
+    return res.json();
+  },
+
+  async updateFunder(id: string, data: Partial<FunderInput>): Promise<Funder> {
+    const res = await apiRequest("PATCH", `/api/funders/${id}`, data);
+    return res.json();
+  },
+
+  async deleteFunder(id: string): Promise<void> {
+    await apiRequest("DELETE", `/api/funders/${id}`);
+  },
+
+  async getOrganizationAiEndpoint(organizationId: string): Promise<OrganizationAiEndpoint | null> {
+    const res = await apiRequest("GET", `/api/organizations/${organizationId}/ai-endpoint`);
+    return res.json();
+  },
+
+  async saveOrganizationAiEndpoint(
+    organizationId: string,
+    data: OrganizationAiEndpointInput,
+  ): Promise<OrganizationAiEndpoint> {
+    const res = await apiRequest("PUT", `/api/organizations/${organizationId}/ai-endpoint`, data);
+    return res.json();
+  },
+
+  async deleteOrganizationAiEndpoint(organizationId: string): Promise<void> {
+    await apiRequest("DELETE", `/api/organizations/${organizationId}/ai-endpoint`);
+  },
+
   // Projects
   async getProjects(): Promise<Project[]> {
     const res = await apiRequest("GET", "/api/projects");
@@ -391,8 +692,9 @@ export const api = {
     return res.json();
   },
 
-  async finalizeProject(id: string): Promise<Project> {
-    const res = await apiRequest("PUT", `/api/projects/${id}/finalize`);
+  /** Finalize refuses (409) while answers contradict each other, unless acknowledged. */
+  async finalizeProject(id: string, acknowledgeInconsistencies = false): Promise<Project> {
+    const res = await apiRequest("PUT", `/api/projects/${id}/finalize`, { acknowledgeInconsistencies });
     return res.json();
   },
 
@@ -468,11 +770,54 @@ export const api = {
     return res.json();
   },
 
+  async answerAssumption(
+    assumptionId: string,
+    answer: string,
+    scope?: "organization" | "project"
+  ): Promise<{ id: string; resolved: boolean; answer: string; factId: string }> {
+    const res = await apiRequest("PATCH", `/api/assumptions/${assumptionId}`, { answer, scope });
+    return res.json();
+  },
+
+  async applyAssumptionToDraft(assumptionId: string): Promise<GrantQuestion & { mode: "passage" | "answer" }> {
+    const res = await apiRequest("POST", `/api/assumptions/${assumptionId}/apply`);
+    return res.json();
+  },
+
+  async getClarifications(projectId: string): Promise<ProjectClarification[]> {
+    const res = await apiRequest("GET", `/api/projects/${projectId}/clarifications`);
+    return res.json();
+  },
+
+  async generateClarifications(projectId: string): Promise<ProjectClarification[]> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/clarifications/generate`);
+    return res.json();
+  },
+
+  async answerClarification(
+    clarificationId: string,
+    answer: string,
+    scope?: "organization" | "project"
+  ): Promise<ProjectClarification> {
+    const res = await apiRequest("POST", `/api/clarifications/${clarificationId}/answer`, { answer, scope });
+    return res.json();
+  },
+
+  async skipClarification(clarificationId: string): Promise<ProjectClarification> {
+    const res = await apiRequest("POST", `/api/clarifications/${clarificationId}/skip`);
+    return res.json();
+  },
+
+  async requestClarificationFollowUp(clarificationId: string): Promise<ProjectClarification> {
+    const res = await apiRequest("POST", `/api/clarifications/${clarificationId}/follow-up`);
+    return res.json();
+  },
+
   // Fire-and-forget: a failed tracking call must never break an export.
   recordExportEvent(
     projectId: string,
     format: "pdf" | "docx" | "clipboard",
-    details?: { questionCount?: number; unresolvedGapCount?: number }
+    details?: { questionCount?: number; unresolvedGapCount?: number; closedGapCount?: number }
   ): void {
     apiRequest("POST", `/api/projects/${projectId}/export-events`, { format, ...details }).catch(
       (error) => {
@@ -486,7 +831,15 @@ export const api = {
     return res.json();
   },
 
-  async generateResponse(questionId: string, options: { tone?: string; emphasisAreas?: string[] }): Promise<GrantQuestion> {
+  async bulkCreateQuestions(
+    projectId: string,
+    questions: Array<Pick<ExtractedQuestion, "question" | "wordLimit" | "limitType" | "required">>,
+  ): Promise<{ created: GrantQuestion[] }> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/questions/bulk`, { questions });
+    return res.json();
+  },
+
+  async generateResponse(questionId: string, options: GenerateOptions): Promise<GrantQuestion> {
     const { supabase } = await import("./supabase");
     const { data: { session } } = await supabase.auth.getSession();
     
@@ -535,6 +888,240 @@ export const api = {
     }
   },
 
+  /**
+   * Streams a grounded answer over SSE. `onDelta` receives partial answer text
+   * as it is written; the promise resolves with the same payload as
+   * generateResponse once the server's final `done` event arrives.
+   */
+  async generateResponseStream(
+    questionId: string,
+    options: GenerateOptions,
+    onDelta: (text: string) => void
+  ): Promise<GrantQuestion> {
+    const { supabase } = await import("./supabase");
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    };
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+
+    const path = `/api/questions/${questionId}/generate/stream`;
+    const url = API_BASE_URL ? `${API_BASE_URL}${path}` : path;
+
+    // Same 90s budget as generateResponse, but measured from the last event
+    // so a long answer that keeps streaming is not cut off.
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), 90000);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), 90000);
+    };
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(options),
+        credentials: "include",
+        signal: controller.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const errorData = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(errorData.error || errorData.message || `Failed to generate response: ${res.statusText}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        resetTimeout();
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary >= 0) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+
+          let eventName = "message";
+          const dataLines: string[] = [];
+          for (const line of rawEvent.split("\n")) {
+            if (line.startsWith("event:")) eventName = line.slice(6).trim();
+            else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+          }
+          if (!dataLines.length) continue;
+          const data = JSON.parse(dataLines.join("\n"));
+
+          if (eventName === "delta" && typeof data.text === "string") {
+            onDelta(data.text);
+          } else if (eventName === "done") {
+            return data;
+          } else if (eventName === "error") {
+            throw new Error(data.error || "Failed to generate response");
+          }
+        }
+      }
+
+      throw new Error("Generation stream ended before the response was complete. Please try again.");
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error('Request timeout: AI generation took too long. Please try again.');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  },
+
+  /** What generating this question would retrieve and cost; nothing is generated. */
+  async previewGeneration(questionId: string, options: GenerateOptions = {}): Promise<GenerationPreview> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/generate/dry-run`, options, 30_000);
+    return res.json();
+  },
+
+  /** The same preview for every question a "draft unanswered" batch would queue. */
+  async previewGenerationBatch(
+    projectId: string,
+    options: { tone?: string; emphasisAreas?: string[] } = {}
+  ): Promise<GenerationPreview> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/generation-batches/dry-run`, options, 60_000);
+    return res.json();
+  },
+
+  /** Queues every pending, failed or timed-out question; resolves with null when there is nothing to draft. */
+  async startGenerationBatch(
+    projectId: string,
+    options: { tone?: string; emphasisAreas?: string[]; concurrency?: number }
+  ): Promise<GenerationBatchProgress | null> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/generation-batches`, options);
+    const data = await res.json();
+    return data.batch;
+  },
+
+  async getLatestGenerationBatch(projectId: string): Promise<GenerationBatchProgress | null> {
+    const res = await apiRequest("GET", `/api/projects/${projectId}/generation-batches/latest`);
+    const data = await res.json();
+    return data.batch;
+  },
+
+  async cancelGenerationBatch(projectId: string, batchId: string): Promise<GenerationBatchProgress> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/generation-batches/${batchId}/cancel`);
+    const data = await res.json();
+    return data.batch;
+  },
+
+  /** Server-built Evidence Map; answers edited since their last check are re-verified first. */
+  async getEvidenceMap(projectId: string): Promise<ProjectEvidenceMap> {
+    const res = await apiRequest("GET", `/api/projects/${projectId}/evidence-map`);
+    return res.json();
+  },
+
+  /** Facts (counts, amounts, dates, names) the project's answers state differently. */
+  async getConsistencyReport(projectId: string): Promise<ConsistencyReport> {
+    const res = await apiRequest("GET", `/api/projects/${projectId}/consistency`);
+    return res.json();
+  },
+
+  /** Score every answered question against the rubric; each answer may take a model call. */
+  async reviewApplication(projectId: string, options: ReviewOptions = {}): Promise<ApplicationReview> {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/review`, options, 300_000);
+    return res.json();
+  },
+
+  async reviewAnswer(questionId: string, options: ReviewOptions = {}): Promise<DraftReview> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/review`, options, 120_000);
+    return res.json();
+  },
+
+  /** Newest first, one per review run, labelled with the version each scored. */
+  async getAnswerReviews(questionId: string): Promise<DraftReview[]> {
+    const res = await apiRequest("GET", `/api/questions/${questionId}/reviews`);
+    return res.json();
+  },
+
+  async getResponseVersions(questionId: string): Promise<ResponseVersion[]> {
+    const res = await apiRequest("GET", `/api/questions/${questionId}/versions`);
+    return res.json();
+  },
+
+  /** Newest first, one per model-written version. */
+  async getGenerationAudits(questionId: string): Promise<GenerationAudit[]> {
+    const res = await apiRequest("GET", `/api/questions/${questionId}/generation-audits`);
+    return res.json();
+  },
+
+  /** Every generation audit in the project, oldest first. */
+  async exportGenerationAudits(projectId: string): Promise<GenerationAuditExport[]> {
+    const res = await apiRequest("GET", `/api/projects/${projectId}/generation-audits`, undefined, 30_000);
+    return res.json();
+  },
+
+  /** Re-run a version's generation on its recorded inputs; the answer is not changed. */
+  async rerunGeneration(questionId: string, versionId: string, model?: string): Promise<GenerationRerun> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/versions/${versionId}/rerun`, { model }, 120_000);
+    return res.json();
+  },
+
+  async getAnswerLibrary(organizationId: string): Promise<LibraryAnswer[]> {
+    const res = await apiRequest("GET", `/api/organizations/${organizationId}/answer-library`);
+    return res.json();
+  },
+
+  /** Save the question's finished answer, with its citations, for reuse in other applications. */
+  async saveAnswerToLibrary(questionId: string, options: { title?: string; topics?: string[] } = {}): Promise<LibraryAnswer> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/library`, options, 30_000);
+    return res.json();
+  },
+
+  async updateLibraryAnswer(id: string, updates: { title?: string; topics?: string[] }): Promise<LibraryAnswer> {
+    const res = await apiRequest("PATCH", `/api/answer-library/${id}`, updates);
+    return res.json();
+  },
+
+  async deleteLibraryAnswer(id: string): Promise<void> {
+    await apiRequest("DELETE", `/api/answer-library/${id}`);
+  },
+
+  /** Library answers to similar questions, best first. */
+  async getLibraryMatches(questionId: string): Promise<LibraryMatch[]> {
+    const res = await apiRequest("GET", `/api/questions/${questionId}/library-matches`, undefined, 30_000);
+    return res.json();
+  },
+
+  async getSimilarAnswers(questionId: string): Promise<SimilarAnswer[]> {
+    const res = await apiRequest("GET", `/api/questions/${questionId}/similar-answers`, undefined, 30_000);
+    return res.json();
+  },
+
+  /** Rewrite an earlier answer to a similar question for this one; it becomes this question's answer. */
+  async adaptAnswer(questionId: string, sourceQuestionId: string): Promise<GrantQuestion> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/adapt`, { sourceQuestionId }, 120_000);
+    return res.json();
+  },
+
+  /** Replace the question's draft with a library answer and its citations. */
+  async insertLibraryAnswer(questionId: string, entryId: string): Promise<GrantQuestion> {
+    const res = await apiRequest("POST", `/api/questions/${questionId}/library/${entryId}/insert`);
+    return res.json();
+  },
+
+  async fitToLimit(
+    questionId: string,
+    options: { text?: string; unit?: AnswerLimitType; min?: number; max?: number } = {}
+  ): Promise<LengthFitProposal> {
+    // A model rewrite can take well past the default 10s request timeout.
+    const res = await apiRequest("POST", `/api/questions/${questionId}/fit-to-limit`, options, 120_000);
+    return res.json();
+  },
+
   async updateResponse(questionId: string, content: string, preserveVersion = false): Promise<{ id: string; content: string; lastModified: Date; status: string; wordCount: number }> {
     const res = await apiRequest("PUT", `/api/questions/${questionId}/response`, { content, preserveVersion });
     return res.json();
@@ -578,8 +1165,10 @@ export const api = {
   },
 
   // File extraction
-  async extractQuestions(file: File): Promise<{ questions: string[]; demo?: boolean }> {
+  /** `projectId` picks the workspace whose models (or self-hosted endpoint) read the file. */
+  async extractQuestions(file: File, projectId?: string): Promise<RfpExtraction> {
     const formData = new FormData();
+    if (projectId) formData.append('projectId', projectId);
     formData.append('file', file);
 
     const { supabase } = await import("./supabase");
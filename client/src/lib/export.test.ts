@@ -2,6 +2,7 @@
 
 import { beforeEach, describe, expect, it, vi, afterEach } from "vitest";
 import { Packer } from "docx";
+import JSZip from "jszip";
 import { GRANT_EXPORT_FIXTURE } from "../../../test/fixtures/export/grant-export-cases";
 import {
   buildClipboardText,
@@ -131,6 +132,17 @@ describe("export formatting (GRA-14)", () => {
     expect(text).toContain("Generated on:");
   });
 
+  it("labels each answer's length in its question's limit unit", () => {
+    const [first, second] = mockExportData.questions;
+    const text = buildClipboardText({
+      ...mockExportData,
+      questions: [first, { ...second, wordLimit: 1500, limitType: "characters" }],
+    });
+
+    expect(text).toContain("1. What is the main objective of your project? (12/500 words)");
+    expect(text).toContain(`2. How will you measure success? (${second.response!.length}/1,500 characters)`);
+  });
+
   it("copies formatted grant text via clipboard API", async () => {
     const writeText = vi.fn().mockResolvedValue(undefined);
     vi.stubGlobal("navigator", { clipboard: { writeText } });
@@ -157,6 +169,16 @@ describe("export formatting (GRA-14)", () => {
     );
   });
 
+  it("lists each answer's sources with the cited page", async () => {
+    const pdfText = decodePdfBytes(createPdfDocument(GRANT_EXPORT_FIXTURE).output("arraybuffer"));
+    expect(pdfText).toContain("[#1] Annual Report 2024, p. 14");
+
+    const docx = await JSZip.loadAsync(await Packer.toBuffer(createWordDocument(GRANT_EXPORT_FIXTURE)));
+    const documentXml = await docx.file("word/document.xml")!.async("string");
+    expect(documentXml).toContain("Sources");
+    expect(documentXml).toContain("[#1] Annual Report 2024, p. 14");
+  });
+
   it("produces a Word-compatible DOCX package", async () => {
     const doc = createWordDocument(GRANT_EXPORT_FIXTURE);
     const buffer = await Packer.toBuffer(doc);
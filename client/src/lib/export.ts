@@ -1,7 +1,9 @@
 import jsPDF from 'jspdf';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
 import { saveAs } from 'file-saver';
-import { Project, GrantQuestion } from './api';
+import { Project, GrantQuestion, type GenerationAuditExport } from './api';
+import { formatAnswerLength, normalizeLimitType } from '@shared/answer-limits';
+import { formatCitationSource } from '@shared/citation-source';
 
 export interface ExportData {
   project: Project;
@@ -49,6 +51,12 @@ function getCleanResponse(question: GrantQuestion): string {
   return stripMarkdown(question.response || '');
 }
 
+// " (1,850/2,000 characters)" after a question heading, measured in the
+// question's own limit unit.
+function getLengthLabel(question: GrantQuestion, cleanResponse: string): string {
+  return ` (${formatAnswerLength(cleanResponse, question.wordLimit, normalizeLimitType(question.limitType))})`;
+}
+
 // Unresolved "Needs your input" gaps for a question. These must stay visible
 // in exported documents — a gap the AI flagged is never silently dropped.
 function getUnresolvedGaps(question: GrantQuestion): string[] {
@@ -58,6 +66,14 @@ function getUnresolvedGaps(question: GrantQuestion): string[] {
     .filter(Boolean);
 }
 
+// "[#1] Annual Report 2024, p. 14" for each source the answer's [#N] markers
+// point at, in marker order.
+function getCitationSources(question: GrantQuestion): string[] {
+  return (question.citations || []).map(
+    (citation, index) => `[#${index + 1}] ${formatCitationSource(citation.documentName || 'Uploaded document', citation)}`,
+  );
+}
+
 /**
  * Build clipboard text with professional grant-application structure.
  */
@@ -88,15 +104,12 @@ export function buildClipboardText(data: ExportData): string {
   const responses = completedQuestions
     .map((q, index) => {
       const cleanResponse = getCleanResponse(q);
-      const wordCount = cleanResponse ? cleanResponse.trim().split(/\s+/).length : 0;
-      const wordLimitText = q.wordLimit
-        ? ` (${wordCount}/${q.wordLimit} words)`
-        : ` (${wordCount} words)`;
+      const lengthLabel = getLengthLabel(q, cleanResponse);
 
       const gaps = getUnresolvedGaps(q);
 
       return [
-        `${index + 1}. ${q.question}${wordLimitText}`,
+        `${index + 1}. ${q.question}${lengthLabel}`,
         "",
         cleanResponse || "No response provided",
         ...(gaps.length ? ["", ...gaps.map((gap) => `[NEEDS YOUR INPUT: ${gap}]`)] : []),
@@ -232,19 +245,27 @@ export function createPdfDocument(data: ExportData): jsPDF {
   // Each question and response
   completedQuestions.forEach((question, index) => {
     const cleanResponse = getCleanResponse(question);
-    const wordCount = cleanResponse ? cleanResponse.trim().split(/\s+/).length : 0;
-    const wordLimitText = question.wordLimit
-      ? ` (${wordCount}/${question.wordLimit} words)`
-      : ` (${wordCount} words)`;
+    const lengthLabel = getLengthLabel(question, cleanResponse);
 
     // Question header
-    addWrappedText(`${index + 1}. ${question.question}${wordLimitText}`, 11, true, [55, 65, 81]);
+    addWrappedText(`${index + 1}. ${question.question}${lengthLabel}`, 11, true, [55, 65, 81]);
     addSpace(4);
 
     // Response content
     const responseText = cleanResponse || 'No response provided';
     addWrappedText(responseText, 10, false);
 
+    const sources = getCitationSources(question);
+    if (sources.length > 0) {
+      addSpace(3);
+      addWrappedText('Sources', 9, true, [75, 85, 99]);
+      addSpace(1);
+      sources.forEach((source) => {
+        addWrappedText(source, 9, false, [75, 85, 99]);
+        addSpace(1);
+      });
+    }
+
     // Unresolved gaps stay visible in the exported document
     const gaps = getUnresolvedGaps(question);
     if (gaps.length > 0) {
@@ -389,23 +410,22 @@ export function createWordDocument(data: ExportData): Document {
   // Questions and Responses
   completedQuestions.forEach((question, index) => {
     const cleanResponse = getCleanResponse(question);
-    const wordCount = cleanResponse ? cleanResponse.trim().split(/\s+/).length : 0;
-    const wordLimitText = question.wordLimit
-      ? ` (${wordCount}/${question.wordLimit} words)`
-      : ` (${wordCount} words)`;
+    const lengthLabel = getLengthLabel(question, cleanResponse);
 
     const paragraphs = (cleanResponse || "No response provided")
       .split(/\n{2,}/)
       .map((chunk) => chunk.trim())
       .filter(Boolean);
 
+    const sources = getCitationSources(question);
     const gaps = getUnresolvedGaps(question);
+    const lastBlock = gaps.length > 0 ? "gaps" : sources.length > 0 ? "sources" : "response";
 
     children.push(
       new Paragraph({
         children: [
           new TextRun({
-            text: `${index + 1}. ${question.question}${wordLimitText}`,
+            text: `${index + 1}. ${question.question}${lengthLabel}`,
             bold: true,
             size: 22,
           }),
@@ -417,7 +437,22 @@ export function createWordDocument(data: ExportData): Document {
         (paragraph, pIndex) =>
           new Paragraph({
             children: [new TextRun({ text: paragraph })],
-            spacing: { after: pIndex === paragraphs.length - 1 && gaps.length === 0 ? 300 : 150 },
+            spacing: { after: pIndex === paragraphs.length - 1 && lastBlock === "response" ? 300 : 150 },
+          })
+      ),
+      ...(sources.length > 0
+        ? [
+            new Paragraph({
+              children: [new TextRun({ text: "Sources", bold: true, size: 18, color: "4B5563" })],
+              spacing: { after: 60 },
+            }),
+          ]
+        : []),
+      ...sources.map(
+        (source, sIndex) =>
+          new Paragraph({
+            children: [new TextRun({ text: source, size: 18, color: "4B5563" })],
+            spacing: { after: sIndex === sources.length - 1 && lastBlock === "sources" ? 300 : 60 },
           })
       ),
       ...gaps.map(
@@ -479,6 +514,16 @@ export async function exportToWord(data: ExportData): Promise<void> {
   }
 }
 
+/**
+ * Export the project's generation audits as JSON
+ */
+export function exportGenerationAudits(project: Project, audits: GenerationAuditExport[]): void {
+  const blob = new Blob([JSON.stringify({ project: project.title, exportedAt: new Date().toISOString(), audits }, null, 2)], {
+    type: 'application/json',
+  });
+  saveAs(blob, `${sanitizeFilename(project.title)}-Generation-Audit.json`);
+}
+
 /**
  * Sanitize filename for safe file saving
  */
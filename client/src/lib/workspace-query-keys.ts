@@ -8,6 +8,14 @@ export const workspaceKeys = {
     ["organizations", organizationId, "documents"] as const,
   profileSuggestions: (organizationId: string | null | undefined) =>
     ["organizations", organizationId, "profile-suggestions"] as const,
+  organizationFacts: (organizationId: string | null | undefined) =>
+    ["organizations", organizationId, "facts"] as const,
+  funders: (organizationId: string | null | undefined) =>
+    ["organizations", organizationId, "funders"] as const,
+  answerLibrary: (organizationId: string | null | undefined) =>
+    ["organizations", organizationId, "answer-library"] as const,
+  aiEndpoint: (organizationId: string | null | undefined) =>
+    ["organizations", organizationId, "ai-endpoint"] as const,
   stats: (organizationId: string | null | undefined) =>
     ["organizations", organizationId, "stats"] as const,
   billingUsage: (organizationId: string | null | undefined) =>
@@ -21,9 +29,26 @@ export const workspaceKeys = {
     organizationId: string | null | undefined,
     projectId: string | null | undefined,
   ) => ["organizations", organizationId, "projects", projectId, "questions"] as const,
+  generationBatch: (
+    organizationId: string | null | undefined,
+    projectId: string | null | undefined,
+  ) => ["organizations", organizationId, "projects", projectId, "generation-batch"] as const,
+  evidenceMap: (
+    organizationId: string | null | undefined,
+    projectId: string | null | undefined,
+  ) => ["organizations", organizationId, "projects", projectId, "evidence-map"] as const,
+  consistency: (
+    organizationId: string | null | undefined,
+    projectId: string | null | undefined,
+  ) => ["organizations", organizationId, "projects", projectId, "consistency"] as const,
   projectMetrics: (
     organizationId: string | null | undefined,
     projectId: string | null | undefined,
   ) => ["organizations", organizationId, "projects", projectId, "metrics"] as const,
   metricHistory: (metricId: string) => ["metric-history", metricId] as const,
+  answerReviews: (questionId: string) => ["answer-reviews", questionId] as const,
+  libraryMatches: (questionId: string) => ["library-matches", questionId] as const,
+  similarAnswers: (questionId: string) => ["similar-answers", questionId] as const,
+  responseVersions: (questionId: string) => ["response-versions", questionId] as const,
+  generationAudits: (questionId: string) => ["generation-audits", questionId] as const,
 };
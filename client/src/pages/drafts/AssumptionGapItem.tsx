@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AssumptionGapItemProps {
+  text: string;
+  /** null for legacy string assumptions, which can't be answered or resolved */
+  assumptionId: string | null;
+  resolved: boolean;
+  answer?: string | null;
+  busy: boolean;
+  onToggleResolved: (resolved: boolean) => void;
+  onAnswer: (answer: string) => Promise<unknown>;
+  onApply: () => void;
+}
+
+/**
+ * One "Needs your input" gap. Answering stores the answer as an organization
+ * fact; an answered gap can then be applied to the draft, which rewrites it
+ * citing that fact.
+ */
+export function AssumptionGapItem({
+  text,
+  assumptionId,
+  resolved,
+  answer,
+  busy,
+  onToggleResolved,
+  onAnswer,
+  onApply,
+}: AssumptionGapItemProps) {
+  const [answering, setAnswering] = useState(false);
+  const [draft, setDraft] = useState("");
+  const closed = resolved && !!answer;
+
+  const submit = async () => {
+    try {
+      await onAnswer(draft.trim());
+      setAnswering(false);
+      setDraft("");
+    } catch {
+      // The caller reports the failure; keep the text so it can be retried.
+    }
+  };
+
+  return (
+    <li className="space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <p className={`flex-1 ${resolved && !closed ? "text-amber-600/60 line-through" : ""}`}>{text}</p>
+        {assumptionId && (
+          <div className="flex shrink-0 gap-1">
+            {closed ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-amber-700 hover:text-amber-900"
+                disabled={busy}
+                onClick={onApply}
+              >
+                Apply to draft
+              </Button>
+            ) : (
+              <>
+                {!resolved && !answering && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-amber-700 hover:text-amber-900"
+                    disabled={busy}
+                    onClick={() => setAnswering(true)}
+                  >
+                    Answer
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-amber-700 hover:text-amber-900"
+                  disabled={busy}
+                  onClick={() => onToggleResolved(!resolved)}
+                >
+                  {resolved ? "Undo" : "Mark addressed"}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      {closed && (
+        <p className="rounded bg-white/70 px-2 py-1 text-xs text-amber-900">
+          <span className="font-medium">Your answer:</span> {answer}
+        </p>
+      )}
+      {answering && (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="What is accurate for your organization? Saved as a fact future drafts can cite."
+            className="min-h-[72px] bg-white text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setAnswering(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-7 text-xs" disabled={busy || !draft.trim()} onClick={submit}>
+              Save answer
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,64 @@
+import { AlertTriangle, FileText } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { ConsistencyReport } from "@/lib/api";
+
+const KIND_LABELS = {
+  count: "Number",
+  amount: "Amount",
+  date: "Date",
+  name: "Name",
+} as const;
+
+interface ConsistencyWarningsProps {
+  report: ConsistencyReport;
+}
+
+/**
+ * Facts stated differently across answers, each with the sentences that
+ * state it and the sources those sentences cite.
+ */
+export function ConsistencyWarnings({ report }: ConsistencyWarningsProps) {
+  if (!report.flags.length) return null;
+
+  return (
+    <Card className="border border-amber-200 bg-amber-50 mb-6">
+      <CardContent className="p-4 md:p-6 space-y-4">
+        <div className="flex items-center gap-2 font-medium text-slate-900">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          {report.flags.length} fact{report.flags.length === 1 ? " is" : "s are"} stated differently across answers
+        </div>
+        <ul className="space-y-4">
+          {report.flags.map((flag) => (
+            <li key={flag.id} className="text-sm">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge className="bg-amber-100 text-amber-800">{KIND_LABELS[flag.kind]}</Badge>
+                <span className="text-slate-800">{flag.message}</span>
+              </div>
+              <ul className="space-y-1 pl-4 border-l-2 border-amber-200">
+                {flag.statements.map((statement) => (
+                  <li key={`${statement.questionId}-${statement.value}`} className="text-slate-600">
+                    <a href={`#question-${statement.questionId}`} className="font-medium text-slate-800 hover:underline">
+                      Question {statement.questionNumber}
+                    </a>
+                    : {statement.sentence.replace(/\s*\[#\d+\]/g, "")}
+                    {statement.sources.map((source) => (
+                      <span
+                        key={`${source.documentId}-${source.chunkIndex}`}
+                        className="ml-2 inline-flex items-center gap-1 text-xs text-slate-500"
+                        title={source.quote}
+                      >
+                        <FileText className="h-3 w-3" />
+                        {source.documentName}, chunk {source.chunkIndex + 1}
+                      </span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
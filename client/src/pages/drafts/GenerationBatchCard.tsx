@@ -0,0 +1,110 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { api, type GenerationBatchItemStatus, type GrantQuestion, type Project } from "@/lib/api";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, X } from "lucide-react";
+
+const POLL_INTERVAL_MS = 2000;
+
+const ITEM_STATUS_STYLES: Record<GenerationBatchItemStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-gray-100 text-gray-800" },
+  running: { label: "Drafting", className: "bg-yellow-100 text-yellow-800" },
+  done: { label: "Done", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  cancelled: { label: "Cancelled", className: "bg-slate-100 text-slate-600" },
+};
+
+interface GenerationBatchCardProps {
+  projectId: string;
+  project: Project;
+  questions: GrantQuestion[];
+}
+
+/** Live progress for the project's latest "draft all unanswered" batch. */
+export function GenerationBatchCard({ projectId, project, questions }: GenerationBatchCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const batchKey = workspaceKeys.generationBatch(project.organizationId, projectId);
+  const questionsKey = workspaceKeys.projectQuestions(project.organizationId, projectId);
+
+  const { data: batch } = useQuery({
+    queryKey: batchKey,
+    queryFn: () => api.getLatestGenerationBatch(projectId),
+    refetchInterval: (query) => (query.state.data?.status === "running" ? POLL_INTERVAL_MS : false),
+  });
+
+  // Pull fresh answers into the draft list whenever another question finishes.
+  const finished = batch ? batch.counts.done + batch.counts.failed : 0;
+  const lastFinished = useRef(finished);
+  useEffect(() => {
+    if (finished !== lastFinished.current) {
+      lastFinished.current = finished;
+      queryClient.invalidateQueries({ queryKey: questionsKey });
+    }
+  }, [finished, queryClient, questionsKey]);
+
+  const cancelMutation = useMutation({
+    mutationFn: (batchId: string) => api.cancelGenerationBatch(projectId, batchId),
+    onSuccess: (cancelled) => {
+      queryClient.setQueryData(batchKey, cancelled);
+      toast({
+        title: "Batch cancelled",
+        description: "Answers that already finished have been kept.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't cancel",
+        description: error?.message || "Failed to cancel the batch. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!batch || batch.status !== "running") return null;
+
+  const total = batch.items.length;
+  const questionText = (questionId: string) =>
+    questions.find((q) => q.id === questionId)?.question ?? "Question";
+
+  return (
+    <Card className="border border-blue-200 bg-blue-50 mb-6">
+      <CardContent className="p-4 md:p-6">
+        <div className="flex flex-col gap-3 mb-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2 text-slate-900 font-medium">
+            <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+            Drafting {finished} of {total} unanswered question{total === 1 ? "" : "s"}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => cancelMutation.mutate(batch.id)}
+            disabled={cancelMutation.isPending}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        </div>
+        <Progress value={finished} max={total || 1} className="mb-4" />
+        <ul className="space-y-2">
+          {batch.items.map((item) => {
+            const style = ITEM_STATUS_STYLES[item.status];
+            return (
+              <li key={item.questionId} className="flex items-start justify-between gap-3 text-sm">
+                <span className="text-slate-700 line-clamp-1" title={item.error ?? undefined}>
+                  {questionText(item.questionId)}
+                </span>
+                <Badge className={style.className}>{style.label}</Badge>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api, type GenerationPreview } from "@/lib/api";
+import { formatCostCents } from "@shared/generation-preview";
+
+interface GenerationPreviewDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Settings the batch will run with, so the preview matches it */
+  options: { tone?: string; emphasisAreas?: string[] };
+  starting: boolean;
+  onConfirm: () => void;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+/**
+ * Before a "draft unanswered" batch: the sources each question would draw
+ * on, estimated tokens and cost per model, and whether the plan covers it.
+ */
+export function GenerationPreviewDialog({
+  projectId,
+  open,
+  onOpenChange,
+  options,
+  starting,
+  onConfirm,
+}: GenerationPreviewDialogProps) {
+  const { data: preview, isFetching, error } = useQuery<GenerationPreview>({
+    queryKey: ["generation-preview", projectId, options],
+    queryFn: () => api.previewGenerationBatch(projectId, options),
+    enabled: open,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const selected = preview?.models.find((model) => model.model === preview.selectedModel);
+  const count = preview?.questions.length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[calc(100dvh-2rem)] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Draft unanswered questions</DialogTitle>
+          <DialogDescription>
+            What this run would retrieve and cost. Output is counted at each answer's limit, so costs are an upper bound.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching && (
+          <div className="flex items-center justify-center p-8 space-x-3">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            <span className="text-slate-600">Estimating…</span>
+          </div>
+        )}
+        {error && !isFetching && (
+          <p className="text-sm text-red-600">{(error as Error).message || "Couldn't estimate this run."}</p>
+        )}
+
+        {preview && !isFetching && (
+          <div className="space-y-6 text-sm">
+            {count === 0 ? (
+              <p className="text-slate-600">Every question already has an answer.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-slate-500">Questions</p>
+                    <p className="text-lg font-semibold text-slate-900">{count}</p>
+                  </div>
+                  <div>
+                    <p className="text-slate-500">Tokens in → out</p>
+                    <p className="text-lg font-semibold text-slate-900">
+                      {formatTokens(preview.tokensIn)} → {formatTokens(preview.tokensOut)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-500">Cost on {selected?.label ?? preview.selectedModel}</p>
+                    <p className="text-lg font-semibold text-slate-900">{formatCostCents(selected?.costCents ?? null)}</p>
+                  </div>
+                </div>
+
+                {preview.allowance.covered ? (
+                  <p className="text-slate-600">
+                    Uses about {formatTokens(preview.allowance.required)} of the{" "}
+                    {formatTokens(preview.allowance.remaining)} tokens left on the {preview.allowance.plan} plan this period.
+                  </p>
+                ) : (
+                  <p className="flex items-start gap-2 text-amber-700">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    Needs about {formatTokens(preview.allowance.required)} tokens, but only{" "}
+                    {formatTokens(preview.allowance.remaining)} are left on the {preview.allowance.plan} plan this period.
+                  </p>
+                )}
+
+                <div>
+                  <p className="font-medium text-slate-900 mb-2">Cost by model</p>
+                  <ul className="grid grid-cols-2 gap-x-6 gap-y-1 text-slate-600">
+                    {preview.models.map((model) => (
+                      <li key={model.model} className="flex justify-between gap-2">
+                        <span className={model.model === preview.selectedModel ? "font-medium text-slate-900" : undefined}>
+                          {model.label}
+                        </span>
+                        <span>{formatCostCents(model.costCents)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div>
+                  <p className="font-medium text-slate-900 mb-2">Sources per question</p>
+                  <ul className="divide-y divide-slate-200 border-y border-slate-200">
+                    {preview.questions.map((question) => (
+                      <li key={question.questionId} className="py-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <span className="text-slate-700 line-clamp-1">{question.question}</span>
+                          <Badge
+                            className={
+                              question.chunks.length ? "bg-slate-100 text-slate-700" : "bg-amber-100 text-amber-800"
+                            }
+                          >
+                            {question.chunks.length} source{question.chunks.length === 1 ? "" : "s"}
+                          </Badge>
+                        </div>
+                        {question.chunks.length > 0 && (
+                          <p className="text-xs text-slate-500 line-clamp-1">
+                            {Array.from(new Set(question.chunks.map((chunk) => chunk.documentName))).join(", ")}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={starting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={!preview || isFetching || count === 0 || !preview.allowance.covered || starting}
+          >
+            {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Draft {count || ""} question{count === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
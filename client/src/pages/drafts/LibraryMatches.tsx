@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { BookOpen, FileInput, Loader2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api, type LibraryMatch } from "@/lib/api";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+
+const PREVIEW_CHARS = 280;
+
+interface LibraryMatchesProps {
+  questionId: string;
+  busy: boolean;
+  onInsert: (entryId: string) => void;
+  onUseAsExemplar: (entryId: string) => void;
+}
+
+/**
+ * Saved answers to similar questions from the organization's library, each
+ * usable as the starting draft or as a model for a generated one.
+ */
+export function LibraryMatches({ questionId, busy, onInsert, onUseAsExemplar }: LibraryMatchesProps) {
+  const { data: matches } = useQuery<LibraryMatch[]>({
+    queryKey: workspaceKeys.libraryMatches(questionId),
+    queryFn: () => api.getLibraryMatches(questionId),
+    staleTime: 60_000,
+  });
+  if (!matches?.length) return null;
+
+  return (
+    <div className="mt-6 text-left border border-slate-200 bg-slate-50 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3 text-sm font-semibold text-slate-800">
+        <BookOpen className="h-4 w-4 text-blue-600" />
+        From your answer library
+      </div>
+      <ul className="space-y-4">
+        {matches.map(({ entry, similarity }) => (
+          <li key={entry.id} className="text-sm">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="font-medium text-slate-900">{entry.title}</span>
+              <span className="text-xs text-slate-500">{Math.round(similarity * 100)}% match</span>
+              {entry.topics.map((topic) => (
+                <Badge key={topic} variant="secondary" className="text-xs">
+                  {topic}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-slate-600 whitespace-pre-wrap">
+              {entry.answer.length > PREVIEW_CHARS ? `${entry.answer.slice(0, PREVIEW_CHARS).trimEnd()}…` : entry.answer}
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => onInsert(entry.id)} disabled={busy}>
+                {busy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <FileInput className="mr-1 h-4 w-4" />}
+                Use as draft
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onUseAsExemplar(entry.id)} disabled={busy}>
+                <Wand2 className="mr-1 h-4 w-4" />
+                Generate from this
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ClipboardCheck, History, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { api, type ApplicationReview, type DraftReview, type Funder, type GrantQuestion, type Project } from "@/lib/api";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { useToast } from "@/hooks/use-toast";
+import { formatCriterion, parseCriterion } from "@shared/funders";
+
+function scoreClassName(score: number): string {
+  if (score >= 80) return "bg-green-100 text-green-800";
+  if (score >= 60) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+}
+
+function rubricLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** Scores per reviewed version, newest first: "v3 78 · v2 64". */
+function AnswerReviewHistory({ questionId }: { questionId: string }) {
+  const { data: reviews } = useQuery<DraftReview[]>({
+    queryKey: workspaceKeys.answerReviews(questionId),
+    queryFn: () => api.getAnswerReviews(questionId),
+  });
+  if (!reviews) return <Loader2 className="h-4 w-4 animate-spin text-slate-400" />;
+  return (
+    <p className="text-xs text-slate-600">
+      {reviews.map((review) => `v${review.version} ${review.overallScore}`).join(" · ")}
+    </p>
+  );
+}
+
+interface RubricReviewCardProps {
+  projectId: string;
+  project: Project;
+  questions: GrantQuestion[];
+}
+
+/**
+ * "AI reviewer": scores every answer, and the application as a whole,
+ * against the funder's evaluation rubric before submission.
+ */
+export function RubricReviewCard({ projectId, project, questions }: RubricReviewCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rubricText, setRubricText] = useState("");
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const { data: funders = [] } = useQuery<Funder[]>({
+    queryKey: workspaceKeys.funders(project.organizationId),
+    queryFn: () => api.getFunders(project.organizationId!),
+    enabled: !!project.organizationId && !!project.funderId,
+  });
+  const funder = funders.find((candidate) => candidate.id === project.funderId);
+  const funderRubric = (funder?.evaluationCriteria ?? []).map(formatCriterion).join("\n");
+
+  // Start from the linked funder's criteria; the writer can edit them for this run.
+  useEffect(() => {
+    if (funderRubric) setRubricText((current) => current || funderRubric);
+  }, [funderRubric]);
+
+  const reviewMutation = useMutation({
+    mutationFn: (refresh: boolean) => {
+      const lines = rubricLines(rubricText);
+      const usesFunderRubric = !!funderRubric && lines.join("\n") === funderRubric;
+      return api.reviewApplication(projectId, {
+        criteria: usesFunderRubric ? undefined : lines.map(parseCriterion),
+        refresh,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["answer-reviews"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Review failed",
+        description: error?.message || "Failed to review the application. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+  const review: ApplicationReview | undefined = reviewMutation.data;
+
+  const questionLabel = (questionId: string | null) => {
+    const index = questions.findIndex((question) => question.id === questionId);
+    return index >= 0 ? `Question ${index + 1}` : "Question";
+  };
+
+  return (
+    <Card className="border-slate-200">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <ClipboardCheck className="h-5 w-5 text-blue-600" />
+            <span>Rubric Review</span>
+          </span>
+          {review && <Badge className={scoreClassName(review.overallScore)}>{review.overallScore}/100</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-2">
+          <Label htmlFor="reviewRubric">Evaluation rubric</Label>
+          <Textarea
+            id="reviewRubric"
+            rows={4}
+            value={rubricText}
+            onChange={(event) => setRubricText(event.target.value)}
+            placeholder={"One criterion per line, weight in parentheses:\nCommunity need (30 points)"}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => reviewMutation.mutate(false)}
+              disabled={reviewMutation.isPending || !rubricLines(rubricText).length}
+            >
+              {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Review application
+            </Button>
+            {review && (
+              <Button variant="outline" onClick={() => reviewMutation.mutate(true)} disabled={reviewMutation.isPending}>
+                Score again
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {review && (
+          <>
+            <div className="space-y-4">
+              {review.criteria.map((criterion) => (
+                <div key={criterion.criterion}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-slate-900">{formatCriterion({ text: criterion.criterion, weight: criterion.weight })}</span>
+                    <span>{criterion.score}/100</span>
+                  </div>
+                  <Progress value={criterion.score} className="h-2" />
+                  <p className="text-xs text-slate-600 mt-1">
+                    {criterion.questionId ? `${questionLabel(criterion.questionId)}: ` : ""}
+                    {criterion.reasoning}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <ul className="divide-y divide-slate-200 border-t border-slate-200">
+              {review.answers.map((answer) => (
+                <li key={answer.id} className="py-4 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium text-slate-900">
+                      {questionLabel(answer.questionId)} · v{answer.version}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryFor(historyFor === answer.questionId ? null : answer.questionId)}
+                      >
+                        <History className="mr-1 h-4 w-4" />
+                        History
+                      </Button>
+                      <Badge className={scoreClassName(answer.overallScore)}>{answer.overallScore}/100</Badge>
+                    </div>
+                  </div>
+                  {historyFor === answer.questionId && <AnswerReviewHistory questionId={answer.questionId} />}
+                  {answer.weakestSentences.length > 0 && (
+                    <div className="text-sm">
+                      <p className="text-slate-700 font-medium">Weakest sentences</p>
+                      <ul className="list-disc pl-5 text-slate-600">
+                        {answer.weakestSentences.map((weak) => (
+                          <li key={weak.sentence}>
+                            "{weak.sentence}" {weak.reason && <span className="text-slate-500">{weak.reason}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {answer.suggestions.length > 0 && (
+                    <div className="text-sm">
+                      <p className="text-slate-700 font-medium">Suggestions</p>
+                      <ul className="list-disc pl-5 text-slate-600">
+                        {answer.suggestions.map((suggestion) => (
+                          <li key={suggestion}>{suggestion}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
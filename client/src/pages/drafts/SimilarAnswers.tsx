@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api, type SimilarAnswer } from "@/lib/api";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { describeSimilarAnswer } from "@shared/similar-questions";
+
+const PREVIEW_CHARS = 280;
+
+interface SimilarAnswersProps {
+  questionId: string;
+  /** The source question being adapted, while a rewrite runs */
+  adaptingFrom: string | null;
+  onAdapt: (sourceQuestionId: string) => void;
+}
+
+/** Earlier answers to similar questions in the organization's other applications. */
+export function SimilarAnswers({ questionId, adaptingFrom, onAdapt }: SimilarAnswersProps) {
+  const { data: matches } = useQuery<SimilarAnswer[]>({
+    queryKey: workspaceKeys.similarAnswers(questionId),
+    queryFn: () => api.getSimilarAnswers(questionId),
+    staleTime: 60_000,
+  });
+  if (!matches?.length) return null;
+
+  return (
+    <div className="mt-6 text-left border border-slate-200 bg-slate-50 rounded-lg p-4">
+      <ul className="space-y-4">
+        {matches.map((match) => (
+          <li key={match.questionId} className="text-sm">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <History className="h-4 w-4 text-blue-600" />
+              <span className="font-medium text-slate-900">{describeSimilarAnswer(match)}</span>
+              {match.awarded && <Badge className="bg-green-100 text-green-800">Awarded</Badge>}
+            </div>
+            <p className="text-xs text-slate-500 mb-1">“{match.question}”</p>
+            <p className="text-slate-600 whitespace-pre-wrap">
+              {match.answer.length > PREVIEW_CHARS ? `${match.answer.slice(0, PREVIEW_CHARS).trimEnd()}…` : match.answer}
+            </p>
+            <Button
+              className="mt-2"
+              variant="outline"
+              size="sm"
+              onClick={() => onAdapt(match.questionId)}
+              disabled={adaptingFrom !== null}
+            >
+              {adaptingFrom === match.questionId ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <Wand2 className="mr-1 h-4 w-4" />
+              )}
+              Adapt this answer
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Eye, Loader2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  api,
+  type GenerationAudit,
+  type GenerationRerun,
+  type GrantQuestion,
+  type Project,
+  type ResponseVersion,
+} from "@/lib/api";
+import { exportGenerationAudits } from "@/lib/export";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { useToast } from "@/hooks/use-toast";
+import { CHAT_MODELS } from "@shared/ai-models";
+import { describeGenerationRun } from "@shared/generation-audit";
+
+const OPERATION_LABELS: Record<GenerationAudit["operation"], string> = {
+  generate: "Generated",
+  passage: "Passage rewritten",
+  adapt: "Adapted from an earlier answer",
+  fit: "Fitted to length",
+};
+
+/** Settings, chunks and assumptions behind one version, with a re-run to compare models. */
+function GenerationDetails({ audit, version }: { audit: GenerationAudit; version: ResponseVersion }) {
+  const { toast } = useToast();
+  const [model, setModel] = useState(audit.model);
+  const rerunMutation = useMutation<GenerationRerun, Error, string>({
+    mutationFn: (rerunModel) => api.rerunGeneration(version.questionId, version.id, rerunModel),
+    onError: (error) => {
+      toast({
+        title: "Re-run failed",
+        description: error?.message || "Failed to re-run this generation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+  const { settings } = audit;
+  const rerun = rerunMutation.data;
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-slate-600">
+        <dt>Tone</dt>
+        <dd className="text-slate-900">{settings.tone}</dd>
+        <dt>Length · structure</dt>
+        <dd className="text-slate-900">
+          {settings.lengthPreference} · {settings.answerStructure}
+        </dd>
+        <dt>Creativity · context usage</dt>
+        <dd className="text-slate-900">
+          {settings.creativity} · {settings.contextUsage}%
+        </dd>
+        <dt>Audience · claim confidence</dt>
+        <dd className="text-slate-900">
+          {settings.audience} · {settings.claimConfidence}
+        </dd>
+        {settings.emphasisAreas.length > 0 && (
+          <>
+            <dt>Emphasis</dt>
+            <dd className="text-slate-900">{settings.emphasisAreas.join(", ")}</dd>
+          </>
+        )}
+      </dl>
+
+      <div>
+        <p className="font-medium text-slate-900 mb-1">Sources shown to the model</p>
+        <ol className="list-decimal pl-5 text-slate-600 space-y-0.5">
+          {audit.chunks.map((chunk, index) => (
+            <li key={`${chunk.documentId}:${chunk.chunkIndex}:${index}`}>
+              {chunk.documentName} · chunk {chunk.chunkIndex + 1}
+              {chunk.similarity !== null && ` · ${Math.round(chunk.similarity * 100)}% match`}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {audit.assumptions.length > 0 && (
+        <div>
+          <p className="font-medium text-slate-900 mb-1">Assumptions the model reported</p>
+          <ul className="list-disc pl-5 text-slate-600">
+            {audit.assumptions.map((assumption) => (
+              <li key={assumption}>{assumption}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={model} onValueChange={setModel}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {!CHAT_MODELS.some((option) => option.id === audit.model) && (
+              <SelectItem value={audit.model}>{audit.model}</SelectItem>
+            )}
+            {CHAT_MODELS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => rerunMutation.mutate(model)}
+          disabled={rerunMutation.isPending}
+        >
+          {rerunMutation.isPending ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCcw className="mr-1 h-4 w-4" />
+          )}
+          Re-run with same inputs
+        </Button>
+      </div>
+
+      {rerun && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="text-xs text-slate-500 mb-1">v{rerun.original.version} · {describeGenerationRun(rerun.original)}</p>
+            <p className="whitespace-pre-wrap text-slate-700 bg-slate-50 rounded p-3">{rerun.original.text}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Re-run · {describeGenerationRun(rerun)}</p>
+            <p className="whitespace-pre-wrap text-slate-700 bg-blue-50 rounded p-3">{rerun.text}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface VersionHistoryCardProps {
+  project: Project;
+  questions: GrantQuestion[];
+}
+
+/**
+ * Every saved version of an answer, newest first. Versions a model wrote
+ * show what produced them and can be re-run on the same inputs.
+ */
+export function VersionHistoryCard({ project, questions }: VersionHistoryCardProps) {
+  const { toast } = useToast();
+  const [questionId, setQuestionId] = useState<string>(questions[0]?.id ?? "");
+  const [openVersion, setOpenVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!questions.some((question) => question.id === questionId)) setQuestionId(questions[0]?.id ?? "");
+  }, [questions, questionId]);
+
+  const selectQuestion = (id: string) => {
+    setQuestionId(id);
+    setOpenVersion(null);
+  };
+
+  const { data: versions, isLoading, refetch: refetchVersions } = useQuery<ResponseVersion[]>({
+    queryKey: workspaceKeys.responseVersions(questionId),
+    queryFn: () => api.getResponseVersions(questionId),
+    enabled: !!questionId,
+  });
+  const { data: audits = [], refetch: refetchAudits } = useQuery<GenerationAudit[]>({
+    queryKey: workspaceKeys.generationAudits(questionId),
+    queryFn: () => api.getGenerationAudits(questionId),
+    enabled: !!questionId,
+  });
+
+  // Each new answer text is a new version.
+  const response = questions.find((question) => question.id === questionId)?.response;
+  useEffect(() => {
+    if (!questionId) return;
+    refetchVersions();
+    refetchAudits();
+  }, [questionId, response, refetchVersions, refetchAudits]);
+
+  const auditFor = (versionId: string) => audits.find((audit) => audit.responseVersionId === versionId);
+
+  const exportMutation = useMutation({
+    mutationFn: () => api.exportGenerationAudits(project.id),
+    onSuccess: (rows) => exportGenerationAudits(project, rows),
+    onError: (error: any) => {
+      toast({
+        title: "Export failed",
+        description: error?.message || "Failed to export the generation audit. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const newestFirst = [...(versions ?? [])].sort((a, b) => b.version - a.version);
+
+  return (
+    <Card className="shadow-sm border border-slate-200">
+      <CardHeader className="p-6 border-b border-slate-200">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-semibold text-slate-900">Version History</CardTitle>
+            <p className="text-sm text-slate-600 mt-1">
+              Track changes and see what produced each generated version
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+            {exportMutation.isPending ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-1 h-4 w-4" />
+            )}
+            Export audit
+          </Button>
+        </div>
+        <Select value={questionId} onValueChange={selectQuestion}>
+          <SelectTrigger className="mt-4">
+            <SelectValue placeholder="Choose a question" />
+          </SelectTrigger>
+          <SelectContent>
+            {questions.map((question, index) => (
+              <SelectItem key={question.id} value={question.id}>
+                Question {index + 1}: {question.question.length > 80 ? `${question.question.slice(0, 80)}…` : question.question}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading && (
+          <div className="p-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        )}
+        {!isLoading && newestFirst.length === 0 && (
+          <p className="p-6 text-sm text-slate-500">No versions yet. Generate or edit this answer to start its history.</p>
+        )}
+        <div className="divide-y divide-slate-200">
+          {newestFirst.map((version) => {
+            const audit = auditFor(version.id);
+            return (
+              <div key={version.id} className="p-6 hover:bg-slate-50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
+                      <span className="text-primary font-medium text-sm">v{version.version}</span>
+                    </div>
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {audit ? OPERATION_LABELS[audit.operation] : version.tone === "library" ? "From the answer library" : "Edited"}
+                      </p>
+                      <p className="text-sm text-slate-600">
+                        {audit ? describeGenerationRun(audit) : `${version.wordCount} words`} •{" "}
+                        {new Date(version.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {version.isCurrent && <Badge className="bg-green-100 text-green-800">Current</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOpenVersion(openVersion === version.id ? null : version.id)}
+                    >
+                      <Eye className="mr-1 h-4 w-4" />
+                      View
+                    </Button>
+                  </div>
+                </div>
+                {openVersion === version.id && (
+                  <>
+                    <p className="mt-4 whitespace-pre-wrap text-sm text-slate-700">{version.content}</p>
+                    {audit && <GenerationDetails audit={audit} version={version} />}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import {
   getCitationDocumentName,
   getCitationQuote,
+  getCitationSource,
   getResponseTrustSummary,
   splitResponseWithCitationMarkers,
 } from "./citation-display";
@@ -29,6 +30,17 @@ describe("citation helpers", () => {
     );
   });
 
+  it("names the source as a title with the cited pages", () => {
+    expect(getCitationSource({ documentName: "Annual_Report_2024.pdf", pageStart: 14, pageEnd: 15 }, 1)).toBe(
+      "Annual Report 2024, pp. 14–15"
+    );
+    expect(
+      getCitationSource({ documentName: "Annual_Report_2024.pdf", chunkRefs: [{ chunkIndex: 3, pageStart: 14, pageEnd: 14 }] }, 1)
+    ).toBe("Annual Report 2024, p. 14");
+    expect(getCitationSource({ documentName: "Program Budget.xlsx" }, 1)).toBe("Program Budget");
+    expect(getCitationSource(undefined, 2)).toBe("Source 2");
+  });
+
   it("reads quote from chunkRefs fallback", () => {
     expect(
       getCitationQuote({
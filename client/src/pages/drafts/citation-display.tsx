@@ -1,6 +1,7 @@
 import React from "react";
+import { formatCitationSource, type CitationPages } from "@shared/citation-source";
 
-export type DraftCitation = {
+export type DraftCitation = CitationPages & {
   documentName?: string | null;
   originalName?: string | null;
   filename?: string | null;
@@ -8,7 +9,7 @@ export type DraftCitation = {
   sourceDocumentId?: string | null;
   chunkIndex?: number | null;
   quote?: string | null;
-  chunkRefs?: Array<{ chunkIndex?: number; quote?: string }>;
+  chunkRefs?: Array<{ chunkIndex?: number; quote?: string } & CitationPages>;
 };
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -27,6 +28,15 @@ export function getCitationDocumentName(
   );
 }
 
+/** "Annual Report 2024, p. 14": the document as a title, with the cited pages when known. */
+// eslint-disable-next-line react-refresh/only-export-components
+export function getCitationSource(citation: DraftCitation | undefined, fallbackIndex: number): string {
+  const name = getCitationDocumentName(citation, fallbackIndex);
+  if (!citation) return name;
+  const firstRef = Array.isArray(citation.chunkRefs) ? citation.chunkRefs[0] : undefined;
+  return formatCitationSource(name, citation.pageStart ? citation : (firstRef ?? {}));
+}
+
 // eslint-disable-next-line react-refresh/only-export-components
 export function getCitationQuote(citation: DraftCitation | undefined): string {
   if (!citation) return "";
@@ -69,12 +79,15 @@ type ResponseWithCitationMarkersProps = {
   text: string;
   citations?: DraftCitation[] | null;
   citationListId?: string;
+  /** While an answer is still streaming, markers render as plain placeholders until citations arrive. */
+  pending?: boolean;
 };
 
 export function ResponseWithCitationMarkers({
   text,
   citations = [],
   citationListId,
+  pending = false,
 }: ResponseWithCitationMarkersProps) {
   const citationItems = Array.isArray(citations) ? citations : [];
   const segments = splitResponseWithCitationMarkers(text);
@@ -92,10 +105,18 @@ export function ResponseWithCitationMarkers({
           return <React.Fragment key={`text-${index}`}>{segment.value}</React.Fragment>;
         }
 
+        if (pending) {
+          return (
+            <span key={`marker-${index}-${segment.markerIndex}`} className="mx-0.5 text-slate-400">
+              {segment.value}
+            </span>
+          );
+        }
+
         const citation = citationItems[segment.markerIndex - 1];
-        const docName = getCitationDocumentName(citation, segment.markerIndex);
+        const source = getCitationSource(citation, segment.markerIndex);
         const quote = getCitationQuote(citation);
-        const title = quote ? `${docName}: “${quote.slice(0, 160)}”` : docName;
+        const title = quote ? `${source}: “${quote.slice(0, 160)}”` : source;
 
         return (
           <button
@@ -1,6 +1,6 @@
 import { useEffect, useState, type ReactNode } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Building2, Check, Info, Plus, RotateCcw, Save, X } from "lucide-react";
+import { Building2, Check, Info, Plus, RotateCcw, Save, Server, Trash2, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,10 +8,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { api, type OrganizationProfileSuggestion } from "@/lib/api";
+import { api, type OrganizationAiEndpoint, type OrganizationProfileSuggestion } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useWorkspace } from "@/hooks/useWorkspace";
 import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { organizationFactLabel, parseFactSuggestionField } from "@shared/organization-facts";
+import { FactSheetCard } from "./organization/FactSheetCard";
+import { FundersCard } from "./organization/FundersCard";
 
 export default function Organization() {
   const { toast } = useToast();
@@ -37,11 +40,42 @@ export default function Organization() {
     (suggestion) => suggestion.status === "accepted",
   );
 
+  const { data: aiEndpoint = null } = useQuery<OrganizationAiEndpoint | null>({
+    queryKey: workspaceKeys.aiEndpoint(activeOrganizationId),
+    queryFn: () =>
+      activeOrganizationId ? api.getOrganizationAiEndpoint(activeOrganizationId) : Promise.resolve(null),
+    enabled: !!activeOrganizationId,
+  });
+
+  const [endpointForm, setEndpointForm] = useState({
+    baseUrl: "",
+    chatModel: "",
+    embeddingModel: "",
+    apiKey: "",
+    clearApiKey: false,
+  });
+
+  useEffect(() => {
+    setEndpointForm({
+      baseUrl: aiEndpoint?.baseUrl ?? "",
+      chatModel: aiEndpoint?.chatModel ?? "",
+      embeddingModel: aiEndpoint?.embeddingModel ?? "",
+      apiKey: "",
+      clearApiKey: false,
+    });
+  }, [aiEndpoint]);
+
   const [organizationForm, setOrganizationForm] = useState({
     organizationName: "",
+    legalName: "",
+    dba: "",
     organizationType: "501(c)(3) Nonprofit",
     ein: "",
+    uei: "",
+    duns: "",
     foundedYear: 2015,
+    fiscalYearEnd: "",
+    address: "",
     primaryContact: "",
     email: "",
     mission: "",
@@ -52,9 +86,15 @@ export default function Organization() {
     if (activeOrganization) {
       setOrganizationForm({
         organizationName: activeOrganization.name || "",
+        legalName: activeOrganization.legalName || "",
+        dba: activeOrganization.dba || "",
         organizationType: activeOrganization.organizationType || "501(c)(3) Nonprofit",
         ein: activeOrganization.ein || "",
+        uei: activeOrganization.uei || "",
+        duns: activeOrganization.duns || "",
         foundedYear: activeOrganization.foundedYear || 2015,
+        fiscalYearEnd: activeOrganization.fiscalYearEnd || "",
+        address: activeOrganization.address || "",
         primaryContact: activeOrganization.primaryContact || "",
         email: activeOrganization.contactEmail || "",
         mission: activeOrganization.mission || "",
@@ -68,9 +108,15 @@ export default function Organization() {
       if (!activeOrganizationId) throw new Error("No active workspace selected");
       return api.updateOrganization(activeOrganizationId, {
         name: organizationForm.organizationName,
+        legalName: organizationForm.legalName || null,
+        dba: organizationForm.dba || null,
         organizationType: organizationForm.organizationType,
         ein: organizationForm.ein || null,
+        uei: organizationForm.uei || null,
+        duns: organizationForm.duns || null,
         foundedYear: organizationForm.foundedYear || null,
+        fiscalYearEnd: organizationForm.fiscalYearEnd || null,
+        address: organizationForm.address || null,
         primaryContact: organizationForm.primaryContact || null,
         contactEmail: organizationForm.email || null,
         mission: organizationForm.mission || null,
@@ -93,6 +139,54 @@ export default function Organization() {
     },
   });
 
+  const saveEndpointMutation = useMutation({
+    mutationFn: () => {
+      if (!activeOrganizationId) throw new Error("No active workspace selected");
+      return api.saveOrganizationAiEndpoint(activeOrganizationId, {
+        baseUrl: endpointForm.baseUrl.trim(),
+        chatModel: endpointForm.chatModel.trim(),
+        embeddingModel: endpointForm.embeddingModel.trim() || null,
+        // A blank key field keeps whatever key is already stored, unless it was cleared.
+        ...(endpointForm.clearApiKey ? { apiKey: null } : endpointForm.apiKey && { apiKey: endpointForm.apiKey }),
+      });
+    },
+    onSuccess: (endpoint) => {
+      queryClient.setQueryData(workspaceKeys.aiEndpoint(activeOrganizationId), endpoint);
+      toast({
+        title: "AI endpoint saved",
+        description: "Drafting and document indexing for this workspace now use your server.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save AI endpoint",
+        description: error.message || "Check the URL and model name.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeEndpointMutation = useMutation({
+    mutationFn: () => {
+      if (!activeOrganizationId) throw new Error("No active workspace selected");
+      return api.deleteOrganizationAiEndpoint(activeOrganizationId);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(workspaceKeys.aiEndpoint(activeOrganizationId), null);
+      toast({
+        title: "AI endpoint removed",
+        description: "This workspace is back on the hosted models from your settings.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove AI endpoint",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const applySuggestionToForm = (suggestion: OrganizationProfileSuggestion) => {
     setOrganizationForm((current) => {
       switch (suggestion.field) {
@@ -100,8 +194,20 @@ export default function Organization() {
           return { ...current, organizationName: suggestion.suggestedValue };
         case "organizationType":
           return { ...current, organizationType: suggestion.suggestedValue };
+        case "legalName":
+          return { ...current, legalName: suggestion.suggestedValue };
+        case "dba":
+          return { ...current, dba: suggestion.suggestedValue };
         case "ein":
           return { ...current, ein: suggestion.suggestedValue };
+        case "uei":
+          return { ...current, uei: suggestion.suggestedValue };
+        case "duns":
+          return { ...current, duns: suggestion.suggestedValue };
+        case "fiscalYearEnd":
+          return { ...current, fiscalYearEnd: suggestion.suggestedValue };
+        case "address":
+          return { ...current, address: suggestion.suggestedValue };
         case "foundedYear": {
           const foundedYear = Number.parseInt(suggestion.suggestedValue, 10);
           return Number.isFinite(foundedYear) ? { ...current, foundedYear } : current;
@@ -154,17 +260,26 @@ export default function Organization() {
         queryClient.invalidateQueries({
           queryKey: workspaceKeys.profileSuggestions(activeOrganizationId),
         });
+        if (result.fact) {
+          queryClient.invalidateQueries({
+            queryKey: workspaceKeys.organizationFacts(activeOrganizationId),
+          });
+        }
       }
       toast({
         title:
           variables.status === "accepted"
-            ? "Profile updated"
+            ? result.fact
+              ? "Fact sheet updated"
+              : "Profile updated"
             : variables.status === "pending"
               ? "Suggestion restored"
               : "Suggestion dismissed",
         description:
           variables.status === "accepted"
-            ? "The suggestion has been added to this workspace profile."
+            ? result.fact
+              ? "New drafts will use and cite this fact."
+              : "The suggestion has been added to this workspace profile."
             : variables.status === "pending"
               ? "The suggestion is back in the review queue."
               : "The suggestion moved to dismissed suggestions.",
@@ -196,15 +311,29 @@ export default function Organization() {
   };
 
   const getSuggestionLabel = (field: string) => {
+    const fact = parseFactSuggestionField(field);
+    if (fact) return `Fact sheet: ${organizationFactLabel(fact.key, fact.period)}`;
     switch (field) {
       case "name":
         return "Organization Name";
       case "organizationType":
         return "Organization Type";
+      case "legalName":
+        return "Legal Name";
+      case "dba":
+        return "Doing Business As";
       case "ein":
         return "EIN";
+      case "uei":
+        return "UEI";
+      case "duns":
+        return "DUNS";
       case "foundedYear":
         return "Founded Year";
+      case "fiscalYearEnd":
+        return "Fiscal Year End";
+      case "address":
+        return "Address";
       case "primaryContact":
         return "Primary Contact";
       case "contactEmail":
@@ -346,8 +475,8 @@ export default function Organization() {
                     Review organization suggestions
                   </h4>
                   <p className="text-sm text-amber-900">
-                    Confirm suggestions from uploaded organization documents before they are added to
-                    this profile.
+                    Confirm suggestions from uploaded documents before they are added to this profile
+                    or the fact sheet.
                   </p>
                 </div>
                 <div className="hidden shrink-0 gap-2 text-xs text-amber-900 md:flex">
@@ -466,6 +595,72 @@ export default function Organization() {
                 }
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="legalName">Legal Name</Label>
+              <Input
+                id="legalName"
+                placeholder="As registered with the IRS"
+                value={organizationForm.legalName}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, legalName: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dba">Doing Business As</Label>
+              <Input
+                id="dba"
+                placeholder="Optional"
+                value={organizationForm.dba}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, dba: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="uei">UEI (SAM.gov)</Label>
+              <Input
+                id="uei"
+                placeholder="12 characters"
+                value={organizationForm.uei}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, uei: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duns">DUNS</Label>
+              <Input
+                id="duns"
+                placeholder="9 digits"
+                value={organizationForm.duns}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, duns: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fiscalYearEnd">Fiscal Year End</Label>
+              <Input
+                id="fiscalYearEnd"
+                placeholder="June 30"
+                value={organizationForm.fiscalYearEnd}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, fiscalYearEnd: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address">Address</Label>
+              <Input
+                id="address"
+                placeholder="123 Main St, City, ST 00000"
+                value={organizationForm.address}
+                onChange={(event) =>
+                  setOrganizationForm({ ...organizationForm, address: event.target.value })
+                }
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
@@ -559,6 +754,115 @@ export default function Organization() {
           {updateOrganizationMutation.isPending ? "Saving..." : "Save Organization"}
         </Button>
       </div>
+
+      <FactSheetCard organizationId={activeOrganizationId} />
+
+      <FundersCard organizationId={activeOrganizationId} />
+
+      <Card className="border border-slate-200 shadow-sm">
+        <CardHeader className="p-4 border-b border-slate-200 md:p-6">
+          <CardTitle className="flex items-center gap-2 text-lg font-semibold text-slate-900">
+            <Server className="h-5 w-5 text-primary" />
+            Self-hosted AI
+          </CardTitle>
+          <p className="text-sm text-slate-600">
+            Point this workspace at an OpenAI-compatible server (vLLM, Ollama, ...) so grant documents
+            are never sent to a hosted API. When set, it replaces the models chosen in Settings.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 md:p-6">
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="aiBaseUrl">Base URL</Label>
+              <Input
+                id="aiBaseUrl"
+                placeholder="http://localhost:11434/v1"
+                value={endpointForm.baseUrl}
+                onChange={(event) => setEndpointForm({ ...endpointForm, baseUrl: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="aiApiKey">API Key</Label>
+                {aiEndpoint?.hasApiKey && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() =>
+                      setEndpointForm({ ...endpointForm, apiKey: "", clearApiKey: !endpointForm.clearApiKey })
+                    }
+                  >
+                    {endpointForm.clearApiKey ? "Keep stored key" : "Clear stored key"}
+                  </Button>
+                )}
+              </div>
+              <Input
+                id="aiApiKey"
+                type="password"
+                placeholder={
+                  endpointForm.clearApiKey
+                    ? "Cleared when you save"
+                    : aiEndpoint?.hasApiKey
+                      ? "Stored — leave blank to keep"
+                      : "Optional"
+                }
+                value={endpointForm.apiKey}
+                disabled={endpointForm.clearApiKey}
+                onChange={(event) => setEndpointForm({ ...endpointForm, apiKey: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="aiChatModel">Chat Model</Label>
+              <Input
+                id="aiChatModel"
+                placeholder="llama3.1:8b"
+                value={endpointForm.chatModel}
+                onChange={(event) => setEndpointForm({ ...endpointForm, chatModel: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="aiEmbeddingModel">Embedding Model</Label>
+              <Input
+                id="aiEmbeddingModel"
+                placeholder="nomic-embed-text"
+                value={endpointForm.embeddingModel}
+                onChange={(event) => setEndpointForm({ ...endpointForm, embeddingModel: event.target.value })}
+              />
+              <p className="text-xs text-slate-500">
+                Up to 1536 dimensions. Leave blank to index documents offline with the built-in embedder.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            {aiEndpoint && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => removeEndpointMutation.mutate()}
+                disabled={removeEndpointMutation.isPending}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={() => saveEndpointMutation.mutate()}
+              disabled={
+                saveEndpointMutation.isPending ||
+                !endpointForm.baseUrl.trim() ||
+                !endpointForm.chatModel.trim()
+              }
+            >
+              <Save className="mr-2 h-4 w-4" />
+              {saveEndpointMutation.isPending ? "Saving..." : "Save Endpoint"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ClipboardList, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api, type OrganizationFact } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import {
+  getOrganizationFactType,
+  ORGANIZATION_FACT_TYPES,
+  type OrganizationFactKey,
+} from "@shared/organization-facts";
+
+const NO_SOURCE = "none";
+
+interface FactForm {
+  factKey: OrganizationFactKey;
+  period: string;
+  value: string;
+  asOf: string;
+  sourceDocumentId: string;
+}
+
+const emptyForm: FactForm = {
+  factKey: ORGANIZATION_FACT_TYPES[0].key,
+  period: "",
+  value: "",
+  asOf: "",
+  sourceDocumentId: NO_SOURCE,
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+/**
+ * The organization's fact sheet: typed figures (budget, staff, people
+ * served...) every draft is written with and can cite as "Fact: FY24 budget".
+ */
+export function FactSheetCard({ organizationId }: { organizationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FactForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const { data: facts = [] } = useQuery<OrganizationFact[]>({
+    queryKey: workspaceKeys.organizationFacts(organizationId),
+    queryFn: () => api.getOrganizationFacts(organizationId),
+  });
+  const { data: documents = [] } = useQuery({
+    queryKey: workspaceKeys.documents(organizationId),
+    queryFn: () => api.getOrganizationDocuments(organizationId),
+    staleTime: 30000,
+  });
+
+  const order = (fact: OrganizationFact) => ORGANIZATION_FACT_TYPES.findIndex((type) => type.key === fact.factKey);
+  const sheet = facts
+    .filter((fact) => order(fact) >= 0)
+    .sort((a, b) => order(a) - order(b) || (b.period ?? "").localeCompare(a.period ?? "", undefined, { numeric: true }));
+  const documentName = (id: string | null) =>
+    id ? (documents.find((document) => document.id === id)?.originalName ?? "Removed document") : "Entered manually";
+  const type = getOrganizationFactType(form.factKey)!;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        period: type.periodic ? form.period.trim() || null : null,
+        value: form.value.trim(),
+        asOf: form.asOf || null,
+        sourceDocumentId: form.sourceDocumentId === NO_SOURCE ? null : form.sourceDocumentId,
+      };
+      return editingId
+        ? api.updateOrganizationFact(editingId, data)
+        : api.saveOrganizationFact(organizationId, { factKey: form.factKey, ...data });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.organizationFacts(organizationId) });
+      toast({
+        title: editingId ? "Fact updated" : "Fact added",
+        description: "New drafts will use and cite this fact.",
+      });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save fact",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteOrganizationFact(id),
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.organizationFacts(organizationId) });
+      if (id === editingId) resetForm();
+      toast({
+        title: "Fact removed",
+        description: "Existing drafts keep their citation; new drafts won't use it.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove fact",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (fact: OrganizationFact) => {
+    setEditingId(fact.id);
+    setForm({
+      factKey: fact.factKey as OrganizationFactKey,
+      period: fact.period ?? "",
+      value: fact.value,
+      asOf: fact.asOf ? fact.asOf.slice(0, 10) : "",
+      sourceDocumentId: fact.sourceDocumentId ?? NO_SOURCE,
+    });
+  };
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="p-4 border-b border-slate-200 md:p-6">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold text-slate-900">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          Fact sheet
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Key figures every draft is written with. Answers cite them as "Fact: FY24 budget", so keep
+          them current and note where each came from.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6 p-4 md:p-6">
+        {sheet.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-wide text-slate-500">
+                  <th className="py-2 pr-3 font-medium">Fact</th>
+                  <th className="py-2 pr-3 font-medium">Value</th>
+                  <th className="py-2 pr-3 font-medium">As of</th>
+                  <th className="py-2 pr-3 font-medium">Source</th>
+                  <th className="py-2 pr-3 font-medium">Verified</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.map((fact) => (
+                  <tr key={fact.id} className="border-b border-slate-100 align-top" data-testid={`fact-row-${fact.id}`}>
+                    <td className="py-2 pr-3 font-medium text-slate-900">{fact.label}</td>
+                    <td className="py-2 pr-3 text-slate-900">{fact.value}</td>
+                    <td className="py-2 pr-3 text-slate-600">{formatDate(fact.asOf)}</td>
+                    <td className="py-2 pr-3 text-slate-600">{documentName(fact.sourceDocumentId)}</td>
+                    <td className="py-2 pr-3 text-slate-600">{formatDate(fact.verifiedAt)}</td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label={`Edit ${fact.label}`}
+                          onClick={() => startEditing(fact)}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label={`Remove ${fact.label}`}
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(fact.id)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            No facts yet. Add them below or accept suggestions from your uploaded documents.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-5">
+          <div className="space-y-2">
+            <Label htmlFor="factType">Fact</Label>
+            <Select
+              value={form.factKey}
+              disabled={!!editingId}
+              onValueChange={(value) => setForm({ ...form, factKey: value as OrganizationFactKey })}
+            >
+              <SelectTrigger id="factType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ORGANIZATION_FACT_TYPES.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="factPeriod">Year</Label>
+            <Input
+              id="factPeriod"
+              placeholder={type.periodic ? "FY24" : "Not needed"}
+              disabled={!type.periodic}
+              value={type.periodic ? form.period : ""}
+              onChange={(event) => setForm({ ...form, period: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="factValue">Value</Label>
+            <Input
+              id="factValue"
+              placeholder={type.kind === "currency" ? "$1.2M" : type.kind === "number" ? "24" : "Riverside County"}
+              value={form.value}
+              onChange={(event) => setForm({ ...form, value: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="factAsOf">As of</Label>
+            <Input
+              id="factAsOf"
+              type="date"
+              value={form.asOf}
+              onChange={(event) => setForm({ ...form, asOf: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="factSource">Source document</Label>
+            <Select
+              value={form.sourceDocumentId}
+              onValueChange={(value) => setForm({ ...form, sourceDocumentId: value })}
+            >
+              <SelectTrigger id="factSource">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SOURCE}>Entered manually</SelectItem>
+                {documents.map((document) => (
+                  <SelectItem key={document.id} value={document.id}>
+                    {document.originalName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.value.trim()}
+          >
+            {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+            {saveMutation.isPending ? "Saving..." : editingId ? "Save Fact" : "Add Fact"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
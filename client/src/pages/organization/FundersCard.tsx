@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileSearch, Landmark, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { api, type Funder, type FunderContact, type FunderInput } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { formatAwardRange, formatCriterion, parseCriterion } from "@shared/funders";
+
+const NO_DOCUMENT = "none";
+
+interface FunderForm {
+  name: string;
+  mission: string;
+  /** One per line */
+  priorities: string;
+  /** One per line, weight in trailing parentheses: "Community need (30 points)" */
+  criteria: string;
+  /** Comma separated */
+  terminology: string;
+  /** One per line: "Name, Role, email" */
+  contacts: string;
+  /** Dollars, as emitted by CurrencyInput */
+  awardMin: string;
+  awardMax: string;
+  notes: string;
+}
+
+const emptyForm: FunderForm = {
+  name: "",
+  mission: "",
+  priorities: "",
+  criteria: "",
+  terminology: "",
+  contacts: "",
+  awardMin: "",
+  awardMax: "",
+  notes: "",
+};
+
+function lines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toCents(dollars: string): number | null {
+  const value = Number.parseFloat(dollars);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 100) : null;
+}
+
+function toDollars(cents: number | null): string {
+  return cents == null ? "" : String(cents / 100);
+}
+
+function parseContact(line: string): FunderContact {
+  const parts = line.split(",").map((part) => part.trim());
+  const email = parts.find((part) => part.includes("@")) ?? null;
+  const [name, role] = parts.filter((part) => part !== email);
+  return { name: name || email || line, role: role || null, email };
+}
+
+function toForm(funder: Funder): FunderForm {
+  return {
+    name: funder.name,
+    mission: funder.mission ?? "",
+    priorities: funder.priorities.join("\n"),
+    criteria: funder.evaluationCriteria.map(formatCriterion).join("\n"),
+    terminology: funder.terminology.join(", "),
+    contacts: funder.contacts
+      .map((contact) => [contact.name, contact.role, contact.email].filter(Boolean).join(", "))
+      .join("\n"),
+    awardMin: toDollars(funder.awardMin),
+    awardMax: toDollars(funder.awardMax),
+    notes: funder.notes ?? "",
+  };
+}
+
+function toInput(form: FunderForm): FunderInput {
+  return {
+    name: form.name.trim(),
+    mission: form.mission.trim() || null,
+    priorities: lines(form.priorities),
+    evaluationCriteria: lines(form.criteria).map(parseCriterion),
+    terminology: form.terminology
+      .split(",")
+      .map((term) => term.trim())
+      .filter(Boolean),
+    contacts: lines(form.contacts).map(parseContact),
+    awardMin: toCents(form.awardMin),
+    awardMax: toCents(form.awardMax),
+    notes: form.notes.trim() || null,
+  };
+}
+
+/**
+ * Funders the organization applies to. A project linked to one is drafted
+ * against its priorities, evaluation criteria and preferred terms.
+ */
+export function FundersCard({ organizationId }: { organizationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FunderForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [documentId, setDocumentId] = useState(NO_DOCUMENT);
+
+  const { data: funders = [] } = useQuery<Funder[]>({
+    queryKey: workspaceKeys.funders(organizationId),
+    queryFn: () => api.getFunders(organizationId),
+  });
+  const { data: documents = [] } = useQuery({
+    queryKey: workspaceKeys.documents(organizationId),
+    queryFn: () => api.getOrganizationDocuments(organizationId),
+    staleTime: 30000,
+  });
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEditing = (funder: Funder) => {
+    setEditingId(funder.id);
+    setForm(toForm(funder));
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again later.", variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingId ? api.updateFunder(editingId, toInput(form)) : api.createFunder(organizationId, toInput(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.funders(organizationId) });
+      toast({
+        title: editingId ? "Funder updated" : "Funder added",
+        description: "Projects linked to this funder will be drafted to its priorities.",
+      });
+      resetForm();
+    },
+    onError: onError("Failed to save funder"),
+  });
+
+  const buildMutation = useMutation({
+    mutationFn: () => api.buildFunderFromDocument(organizationId, documentId, editingId),
+    onSuccess: (funder) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.funders(organizationId) });
+      startEditing(funder);
+      setDocumentId(NO_DOCUMENT);
+      toast({
+        title: editingId ? "Funder profile updated" : "Funder profile created",
+        description: "Review what was read from the document and save any corrections.",
+      });
+    },
+    onError: onError("Failed to read funder profile"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteFunder(id),
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.funders(organizationId) });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.projects(organizationId) });
+      if (id === editingId) resetForm();
+      toast({ title: "Funder removed", description: "Linked projects keep the funder's name." });
+    },
+    onError: onError("Failed to remove funder"),
+  });
+
+  const field = (key: keyof FunderForm) => ({
+    value: form[key],
+    onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm({ ...form, [key]: event.target.value }),
+  });
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="p-4 border-b border-slate-200 md:p-6">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold text-slate-900">
+          <Landmark className="h-5 w-5 text-primary" />
+          Funders
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Link a project to a funder and its answers are written to that funder's priorities, scoring
+          criteria and preferred terms.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6 p-4 md:p-6">
+        {funders.length > 0 ? (
+          <ul className="divide-y divide-slate-100 rounded-md border border-slate-200">
+            {funders.map((funder) => (
+              <li key={funder.id} className="flex items-start justify-between gap-3 p-3" data-testid={`funder-${funder.id}`}>
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium text-slate-900">{funder.name}</p>
+                  <p className="text-slate-600">
+                    {[
+                      formatAwardRange(funder.awardMin, funder.awardMax),
+                      `${funder.priorities.length} priorities`,
+                      `${funder.evaluationCriteria.length} criteria`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    aria-label={`Edit ${funder.name}`}
+                    onClick={() => startEditing(funder)}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    aria-label={`Remove ${funder.name}`}
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(funder.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500">
+            No funders yet. Add one below or read a profile from an uploaded RFP.
+          </p>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="funderDocument">
+              {editingId ? "Add to this profile from a document" : "Read a profile from an RFP or guidelines"}
+            </Label>
+            <Select value={documentId} onValueChange={setDocumentId}>
+              <SelectTrigger id="funderDocument">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_DOCUMENT}>Choose a document</SelectItem>
+                {documents.map((document) => (
+                  <SelectItem key={document.id} value={document.id}>
+                    {document.originalName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={documentId === NO_DOCUMENT || buildMutation.isPending}
+            onClick={() => buildMutation.mutate()}
+          >
+            <FileSearch className="mr-2 h-4 w-4" />
+            {buildMutation.isPending ? "Reading..." : "Read Document"}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="funderName">Name</Label>
+            <Input id="funderName" placeholder="Riverside Community Foundation" {...field("name")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="funderAwardMin">Typical award from</Label>
+            <CurrencyInput
+              id="funderAwardMin"
+              placeholder="$25,000"
+              value={form.awardMin}
+              onValueChange={(awardMin) => setForm({ ...form, awardMin })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="funderAwardMax">Typical award to</Label>
+            <CurrencyInput
+              id="funderAwardMax"
+              placeholder="$100,000"
+              value={form.awardMax}
+              onValueChange={(awardMax) => setForm({ ...form, awardMax })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="funderMission">Mission</Label>
+          <Textarea id="funderMission" rows={2} {...field("mission")} />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="funderPriorities">Priorities (one per line)</Label>
+            <Textarea id="funderPriorities" rows={4} placeholder="Food access in rural communities" {...field("priorities")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="funderCriteria">Evaluation criteria (one per line)</Label>
+            <Textarea id="funderCriteria" rows={4} placeholder="Community need (30 points)" {...field("criteria")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="funderTerminology">Preferred terms (comma separated)</Label>
+            <Input id="funderTerminology" placeholder="participants, BIPOC-led" {...field("terminology")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="funderContacts">Contacts (name, role, email per line)</Label>
+            <Textarea
+              id="funderContacts"
+              rows={2}
+              placeholder="Maria Lopez, Program Officer, mlopez@example.org"
+              {...field("contacts")}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="funderNotes">Past interactions</Label>
+          <Textarea
+            id="funderNotes"
+            rows={3}
+            placeholder="Calls, site visits, reviewer feedback, prior awards..."
+            {...field("notes")}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.name.trim()}
+          >
+            {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+            {saveMutation.isPending ? "Saving..." : editingId ? "Save Funder" : "Add Funder"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
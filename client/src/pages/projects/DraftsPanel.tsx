@@ -21,7 +21,6 @@ import {
   Edit,
   Clock,
   Lightbulb,
-  Eye,
   Save,
   X,
   AlertCircle,
@@ -30,19 +29,30 @@ import {
   CheckCircle2,
   ArrowRight,
   Target,
-  Wand2
+  Wand2,
+  ClipboardCheck,
+  BookmarkPlus
 } from "lucide-react";
-import EvidenceMap, { EvidenceMapData } from "@/components/EvidenceMap";
+import EvidenceMap from "@/components/EvidenceMap";
 import {
-  getCitationDocumentName,
   getCitationQuote,
+  getCitationSource,
   getResponseTrustSummary,
   ResponseWithCitationMarkers,
 } from "@/pages/drafts/citation-display";
 import { normalizeQuestion } from "@/pages/drafts/utils";
 import { DraftStatusBadge } from "@/pages/drafts/DraftStatusBadge";
+import { GenerationBatchCard } from "@/pages/drafts/GenerationBatchCard";
+import { RubricReviewCard } from "@/pages/drafts/RubricReviewCard";
+import { VersionHistoryCard } from "@/pages/drafts/VersionHistoryCard";
+import { GenerationPreviewDialog } from "@/pages/drafts/GenerationPreviewDialog";
+import { ConsistencyWarnings } from "@/pages/drafts/ConsistencyWarnings";
+import { LibraryMatches } from "@/pages/drafts/LibraryMatches";
+import { SimilarAnswers } from "@/pages/drafts/SimilarAnswers";
+import { AssumptionGapItem } from "@/pages/drafts/AssumptionGapItem";
 import { useDraftEditor } from "@/pages/drafts/use-draft-editor";
 import { isQuestionAnswered } from "@/lib/questions";
+import { formatAnswerLength, limitUnitLabel, measureAnswer, normalizeLimitType } from "@shared/answer-limits";
 
 interface DraftsPanelProps {
   projectId: string;
@@ -58,12 +68,15 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
   const [exportingClipboard, setExportingClipboard] = useState(false);
   const [finalizingProject, setFinalizingProject] = useState(false);
   const [showEvidenceMap, setShowEvidenceMap] = useState(false);
-  const [evidenceMapData, setEvidenceMapData] = useState<EvidenceMapData[]>([]);
+  const [showRubricReview, setShowRubricReview] = useState(false);
+  const [previewingBatch, setPreviewingBatch] = useState(false);
   const [generatingQuestionId, setGeneratingQuestionId] = useState<string | null>(null);
+  // Partial answer text per question while a streamed generation is in flight.
+  const [streamingText, setStreamingText] = useState<Record<string, string>>({});
 
   const questionsKey = workspaceKeys.projectQuestions(project.organizationId, projectId);
 
-  const { data: questions = [] } = useQuery({
+  const { data: questions = [], dataUpdatedAt: questionsUpdatedAt } = useQuery({
     queryKey: questionsKey,
     queryFn: () => api.getQuestions(projectId),
     refetchOnWindowFocus: false,
@@ -82,6 +95,20 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
     },
   });
 
+  // Keyed on the questions fetch so an edit or a new draft refetches the map.
+  const { data: evidenceMap } = useQuery({
+    queryKey: [...workspaceKeys.evidenceMap(project.organizationId, projectId), questionsUpdatedAt],
+    queryFn: () => api.getEvidenceMap(projectId),
+    enabled: showEvidenceMap,
+  });
+
+  // Cross-answer contradictions, re-checked whenever the answers change.
+  const { data: consistency } = useQuery({
+    queryKey: [...workspaceKeys.consistency(project.organizationId, projectId), questionsUpdatedAt],
+    queryFn: () => api.getConsistencyReport(projectId),
+    enabled: questions.length > 1,
+  });
+
   const { data: userSettings } = useQuery({
     queryKey: workspaceKeys.userSettings(),
     queryFn: api.getSettings,
@@ -98,9 +125,12 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
       });
     },
     onError: (error: any) => {
+      const overLimit = /exceeds (word|character) limit/i.test(error.message ?? "");
       toast({
         title: "Save failed",
-        description: error.message || "Failed to save your changes. Please try again.",
+        description: overLimit
+          ? "This answer is over its limit. Use Fit to limit to condense it, then save again."
+          : error.message || "Failed to save your changes. Please try again.",
         variant: "destructive",
       });
     },
@@ -112,15 +142,59 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
     },
   });
 
+  // Rewrites the open editor's text in place, or a saved answer as a new version (saved by the server).
+  const fitToLimitMutation = useMutation({
+    mutationFn: async ({ questionId, text }: { questionId: string; text?: string }) => {
+      const proposal = await api.fitToLimit(questionId, text === undefined ? {} : { text });
+      return { proposal, inEditor: text !== undefined };
+    },
+    onSuccess: ({ proposal, inEditor }) => {
+      if (inEditor) {
+        editor.handleContentChange(proposal.text);
+      } else {
+        queryClient.invalidateQueries({ queryKey: questionsKey });
+      }
+      const dropped = proposal.droppedClaims;
+      toast({
+        title: proposal.withinLimit
+          ? `Fitted to ${proposal.length} ${proposal.unit}`
+          : `Still ${proposal.length} ${proposal.unit} (target ${proposal.min}-${proposal.max})`,
+        description: dropped.length
+          ? `Dropped ${dropped.length} cited claim${dropped.length === 1 ? "" : "s"}: ${dropped
+              .map((claim) => claim.sentence)
+              .join(" ")}`
+          : "Every cited claim was kept.",
+        variant: proposal.withinLimit ? undefined : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Fit to limit failed",
+        description: error.message || "Failed to rewrite this answer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const generateResponseMutation = useMutation({
-    mutationFn: ({ questionId, tone, emphasisAreas }: {
+    mutationFn: ({ questionId, tone, emphasisAreas, exemplarIds }: {
       questionId: string;
       tone: string;
-      emphasisAreas: string[]
-    }) => api.generateResponse(questionId, { tone, emphasisAreas }),
+      emphasisAreas: string[];
+      exemplarIds?: string[];
+    }) =>
+      api.generateResponseStream(questionId, { tone, emphasisAreas, exemplarIds }, (delta) => {
+        setStreamingText((prev) => ({ ...prev, [questionId]: (prev[questionId] ?? "") + delta }));
+      }),
     onMutate: ({ questionId }) => {
       setGeneratingQuestionId(questionId);
     },
+    onSettled: (_data, _error, { questionId }) => {
+      setStreamingText((prev) => {
+        const { [questionId]: _done, ...rest } = prev;
+        return rest;
+      });
+    },
     onSuccess: async (data, variables) => {
       setGeneratingQuestionId(null);
 
@@ -210,7 +284,7 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
   });
 
   const finalizeProjectMutation = useMutation({
-    mutationFn: () => api.finalizeProject(projectId),
+    mutationFn: (acknowledgeInconsistencies: boolean) => api.finalizeProject(projectId, acknowledgeInconsistencies),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       if (project.organizationId) {
@@ -258,11 +332,155 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
     },
   });
 
-  const handleRegenerateResponse = (questionId: string) => {
+  const patchAssumption = (assumptionId: string, changes: Record<string, unknown>) =>
+    queryClient.setQueryData(
+      questionsKey,
+      (old: any) =>
+        Array.isArray(old)
+          ? old.map((q: any) => ({
+              ...q,
+              assumptions: Array.isArray(q.assumptions)
+                ? q.assumptions.map((a: any) => (a?.id === assumptionId ? { ...a, ...changes } : a))
+                : q.assumptions,
+            }))
+          : old
+    );
+
+  const answerAssumptionMutation = useMutation({
+    mutationFn: ({ assumptionId, answer }: { assumptionId: string; answer: string }) =>
+      api.answerAssumption(assumptionId, answer),
+    onSuccess: (label) => {
+      patchAssumption(label.id, { resolved: true, answer: label.answer, factId: label.factId });
+      toast({
+        title: "Answer saved",
+        description: "Stored as an organization fact. Apply it to rewrite this answer with a citation.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save answer",
+        description: error?.message || "Failed to save your answer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyAssumptionMutation = useMutation({
+    mutationFn: (assumptionId: string) => api.applyAssumptionToDraft(assumptionId),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: questionsKey });
+      toast({
+        title: "Draft updated",
+        description:
+          updated.mode === "passage"
+            ? "The affected passage was rewritten using your answer."
+            : "The answer was regenerated using your answer as a source.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't apply answer",
+        description: error?.message || "Failed to update the draft. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRegenerateResponse = (questionId: string, exemplarIds?: string[]) => {
     const tone = userSettings?.defaultTone || "professional";
     const emphasisAreas = userSettings?.emphasisAreas || ["Impact & Outcomes", "Innovation"];
-    generateResponseMutation.mutate({ questionId, tone, emphasisAreas });
+    generateResponseMutation.mutate({ questionId, tone, emphasisAreas, exemplarIds });
+  };
+
+  const saveToLibraryMutation = useMutation({
+    mutationFn: ({ questionId, topics }: { questionId: string; topics: string[] }) =>
+      api.saveAnswerToLibrary(questionId, { topics }),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.answerLibrary(project.organizationId) });
+      queryClient.invalidateQueries({ queryKey: ["library-matches"] });
+      toast({ title: "Saved to answer library", description: entry.title });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not save to library",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveToLibrary = (questionId: string) => {
+    const topics = window.prompt("Topics for this answer, comma-separated (e.g. history, mission)", "");
+    if (topics === null) return;
+    saveToLibraryMutation.mutate({
+      questionId,
+      topics: topics.split(",").map((topic) => topic.trim()).filter(Boolean),
+    });
+  };
+
+  const adaptAnswerMutation = useMutation({
+    mutationFn: ({ questionId, sourceQuestionId }: { questionId: string; sourceQuestionId: string }) =>
+      api.adaptAnswer(questionId, sourceQuestionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: questionsKey });
+      toast({ title: "Answer adapted", description: "Review it against this question before finalizing." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not adapt answer",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const insertLibraryAnswerMutation = useMutation({
+    mutationFn: ({ questionId, entryId }: { questionId: string; entryId: string }) =>
+      api.insertLibraryAnswer(questionId, entryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: questionsKey });
+      toast({ title: "Library answer inserted", description: "Edit it to fit this application." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not insert answer",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const batchKey = workspaceKeys.generationBatch(project.organizationId, projectId);
+  const { data: latestBatch } = useQuery({
+    queryKey: batchKey,
+    queryFn: () => api.getLatestGenerationBatch(projectId),
+  });
+  const batchRunning = latestBatch?.status === "running";
+
+  const batchOptions = {
+    tone: userSettings?.defaultTone || "professional",
+    emphasisAreas: userSettings?.emphasisAreas || ["Impact & Outcomes", "Innovation"],
   };
+  const draftUnansweredMutation = useMutation({
+    mutationFn: () => api.startGenerationBatch(projectId, batchOptions),
+    onSuccess: (batch) => {
+      setPreviewingBatch(false);
+      queryClient.setQueryData(batchKey, batch);
+      if (!batch) {
+        toast({
+          title: "Nothing to draft",
+          description: "Every question already has an answer.",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't start drafting",
+        description: error?.message || "Failed to queue unanswered questions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleFinalizeProject = async () => {
     if (editor.hasUnsavedChanges) return;
@@ -273,7 +491,20 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
 
     try {
       setFinalizingProject(true);
-      await finalizeProjectMutation.mutateAsync();
+      // Finalize runs the same check; confirm here so the writer sees the warnings first.
+      const report = await queryClient.fetchQuery({
+        queryKey: [...workspaceKeys.consistency(project.organizationId, projectId), questionsUpdatedAt],
+        queryFn: () => api.getConsistencyReport(projectId),
+      });
+      if (
+        report.flags.length &&
+        !window.confirm(
+          `${report.flags.length} fact${report.flags.length === 1 ? " is" : "s are"} stated differently across answers. Finalize anyway?`
+        )
+      ) {
+        return;
+      }
+      await finalizeProjectMutation.mutateAsync(report.flags.length > 0);
     } catch (_error) {
       // Error handling is done in the mutation
     } finally {
@@ -302,36 +533,6 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
   const totalQuestions = questions.length;
   const progressPercentage = totalQuestions > 0 ? (completedQuestions.length / totalQuestions) * 100 : 0;
 
-  const generateEvidenceMapData = (): EvidenceMapData[] => {
-    return completedQuestions.map((question: any, index: number) => ({
-      sectionName: `Question ${index + 1}`,
-      evidenceStrength: Math.random() * 0.3 + 0.7,
-      sourceCount: Math.floor(Math.random() * 4) + 1,
-      assumptionCount: Math.floor(Math.random() * 2),
-      qualityIssues: [],
-      recommendations: [
-        "Consider adding specific metrics to strengthen this claim",
-        "Include additional source documentation"
-      ].slice(0, Math.floor(Math.random() * 2) + 1),
-      paragraphs: [
-        {
-          id: `p-${question.id}-1`,
-          text: question.response?.substring(0, 200) + '...' || '',
-          citationCount: Math.floor(Math.random() * 3) + 1,
-          assumptionCount: Math.floor(Math.random() * 2),
-          evidenceScore: Math.random() * 0.3 + 0.7
-        }
-      ]
-    }));
-  };
-
-  const calculateOverallGroundingQuality = (): number => {
-    if (completedQuestions.length === 0) return 0;
-    return evidenceMapData.length > 0
-      ? evidenceMapData.reduce((sum, section) => sum + section.evidenceStrength, 0) / evidenceMapData.length
-      : 0.85;
-  };
-
   const prepareExportData = () => ({
     project,
     questions,
@@ -353,9 +554,16 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
         sum + ((q.assumptions || []).filter((a: any) => !a?.resolved).length || 0),
       0
     );
+    // Answered gaps are closed; resolved ones without an answer were only dismissed.
+    const closedGapCount = completed.reduce(
+      (sum: number, q: any) =>
+        sum + ((q.assumptions || []).filter((a: any) => a?.resolved && a?.factId).length || 0),
+      0
+    );
     api.recordExportEvent(projectId, format, {
       questionCount: completed.length,
       unresolvedGapCount,
+      closedGapCount,
     });
   };
 
@@ -438,20 +646,16 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
               <Button
                 variant="outline"
-                onClick={() => {
-                  questions.forEach((q: any) => {
-                    if (q.responseStatus === "pending") handleRegenerateResponse(q.id);
-                  });
-                }}
+                onClick={() => setPreviewingBatch(true)}
+                disabled={draftUnansweredMutation.isPending || batchRunning}
               >
                 <RotateCcw className="mr-2 h-4 w-4" />
-                Regenerate
+                Draft unanswered
               </Button>
               {completedQuestions.length > 0 && (
                 <Button
                   variant={showEvidenceMap ? "default" : "outline"}
                   onClick={() => {
-                    if (!showEvidenceMap) setEvidenceMapData(generateEvidenceMapData());
                     setShowEvidenceMap(!showEvidenceMap);
                   }}
                 >
@@ -459,9 +663,22 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                   Evidence Map
                 </Button>
               )}
+              {completedQuestions.length > 0 && (
+                <Button
+                  variant={showRubricReview ? "default" : "outline"}
+                  onClick={() => setShowRubricReview(!showRubricReview)}
+                >
+                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                  Rubric Review
+                </Button>
+              )}
             </div>
           </div>
 
+          <GenerationBatchCard projectId={projectId} project={project} questions={questions} />
+
+          {consistency && <ConsistencyWarnings report={consistency} />}
+
           <Card className="bg-slate-50 mb-6">
             <CardContent className="p-4 md:p-6">
               <div className="flex flex-col gap-3 mb-4 sm:flex-row sm:items-center sm:justify-between">
@@ -539,8 +756,13 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
               <div className="space-y-8">
                 {questions.map((question: any, index: number) => {
                   const normalizedQuestion = normalizeQuestion(question);
+                  const limitType = normalizeLimitType(normalizedQuestion.limitType);
+                  const isEditing = editor.editingQuestionId === normalizedQuestion.id;
+                  const shownText = isEditing ? editor.editedContent : normalizedQuestion.response;
+                  const overLimit =
+                    !!normalizedQuestion.wordLimit && measureAnswer(shownText, limitType) > normalizedQuestion.wordLimit;
                   return (
-                  <Card key={question.id} className="border border-slate-200">
+                  <Card key={question.id} id={`question-${question.id}`} className="border border-slate-200">
                     <CardHeader className="p-4 border-b border-slate-200 bg-slate-50 md:p-6">
                       <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
                         <div className="flex-1">
@@ -550,7 +772,9 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                           <p className="text-slate-700 text-sm leading-relaxed">
                             {normalizedQuestion.question}
                             {normalizedQuestion.wordLimit && (
-                              <span className="text-slate-500"> (Maximum {normalizedQuestion.wordLimit} words)</span>
+                              <span className="text-slate-500">
+                                {" "}(Maximum {normalizedQuestion.wordLimit.toLocaleString()} {limitUnitLabel(limitType)})
+                              </span>
                             )}
                           </p>
                         </div>
@@ -566,7 +790,22 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                       </div>
                     </CardHeader>
                     <CardContent className="p-4 md:p-6">
-                      {normalizedQuestion.response &&
+                      {streamingText[normalizedQuestion.id] !== undefined ? (
+                        <>
+                          <div className="flex items-center gap-2 mb-4 text-sm text-slate-600">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Writing response… citations are linked once the draft is complete
+                          </div>
+                          <div className="prose prose-sm max-w-none">
+                            <div className="text-slate-800 leading-relaxed whitespace-pre-wrap">
+                              <ResponseWithCitationMarkers
+                                text={streamingText[normalizedQuestion.id]}
+                                pending
+                              />
+                            </div>
+                          </div>
+                        </>
+                      ) : normalizedQuestion.response &&
                        (normalizedQuestion.responseStatus === "complete" ||
                         normalizedQuestion.responseStatus === "edited" ||
                         normalizedQuestion.responseStatus === "needs_context") ? (
@@ -577,17 +816,11 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                 {normalizedQuestion.responseStatus === "edited" ? "Edited Response" : "Generated Response"}
                               </span>
                               <span className="text-xs text-slate-500">
-                                {editor.editingQuestionId === normalizedQuestion.id ? editor.wordCount : normalizedQuestion.response.split(' ').length} words
+                                {formatAnswerLength(shownText, null, limitType)}
                               </span>
                               {normalizedQuestion.wordLimit && (
-                                <span className={`text-xs ${
-                                  (editor.editingQuestionId === normalizedQuestion.id ? editor.wordCount : normalizedQuestion.response.split(' ').length) <= normalizedQuestion.wordLimit
-                                    ? "text-green-600"
-                                    : "text-red-600"
-                                }`}>
-                                  {(editor.editingQuestionId === normalizedQuestion.id ? editor.wordCount : normalizedQuestion.response.split(' ').length) <= normalizedQuestion.wordLimit
-                                    ? "✓ Within limit"
-                                    : "⚠ Over limit"}
+                                <span className={`text-xs ${!overLimit ? "text-green-600" : "text-red-600"}`}>
+                                  {!overLimit ? "✓ Within limit" : "⚠ Over limit"}
                                 </span>
                               )}
                               {editor.editingQuestionId === normalizedQuestion.id && editor.hasUnsavedChanges && (
@@ -633,6 +866,21 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                     <Edit className="mr-1 h-4 w-4" />
                                     Edit
                                   </Button>
+                                  {overLimit && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => fitToLimitMutation.mutate({ questionId: normalizedQuestion.id })}
+                                      disabled={fitToLimitMutation.isPending}
+                                    >
+                                      {fitToLimitMutation.isPending && fitToLimitMutation.variables?.questionId === normalizedQuestion.id ? (
+                                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                                      ) : (
+                                        <Wand2 className="mr-1 h-4 w-4" />
+                                      )}
+                                      Fit to limit
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -651,6 +899,17 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                       </>
                                     )}
                                   </Button>
+                                  {isQuestionAnswered(normalizedQuestion.responseStatus) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleSaveToLibrary(normalizedQuestion.id)}
+                                      disabled={saveToLibraryMutation.isPending}
+                                    >
+                                      <BookmarkPlus className="mr-1 h-4 w-4" />
+                                      Save to library
+                                    </Button>
+                                  )}
                                 </>
                               )}
                             </div>
@@ -681,10 +940,31 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                   </div>
                                   <div className="flex items-center gap-2">
                                     {normalizedQuestion.wordLimit && (
-                                      <span className={editor.wordCount > normalizedQuestion.wordLimit ? "text-red-600" : "text-green-600"}>
-                                        {editor.wordCount}/{normalizedQuestion.wordLimit} words
+                                      <span className={overLimit ? "text-red-600" : "text-green-600"}>
+                                        {formatAnswerLength(editor.editedContent, normalizedQuestion.wordLimit, limitType)}
                                       </span>
                                     )}
+                                    {overLimit && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() =>
+                                          fitToLimitMutation.mutate({
+                                            questionId: normalizedQuestion.id,
+                                            text: editor.editedContent,
+                                          })
+                                        }
+                                        disabled={fitToLimitMutation.isPending}
+                                      >
+                                        {fitToLimitMutation.isPending ? (
+                                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                        ) : (
+                                          <Wand2 className="mr-1 h-3 w-3" />
+                                        )}
+                                        Fit to limit
+                                      </Button>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -733,7 +1013,7 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                               </div>
                               <ul className="space-y-2 text-sm text-slate-700">
                                 {question.citations.map((citation: any, citationIndex: number) => {
-                                  const docTitle = getCitationDocumentName(citation, citationIndex + 1);
+                                  const docTitle = getCitationSource(citation, citationIndex + 1);
                                   const quoteText = getCitationQuote(citation);
                                   const chunkIdx =
                                     typeof citation.chunkIndex === "number"
@@ -775,8 +1055,8 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                 <h5 className="text-sm font-semibold">Needs your input</h5>
                               </div>
                               <p className="text-xs text-amber-700">
-                                Your documents didn't cover these. Edit the answer to fill each gap,
-                                then mark it addressed — unaddressed gaps appear as placeholders in exports.
+                                Your documents didn't cover these. Answer a gap to save it as a fact drafts can
+                                cite, or edit the text and mark it addressed — open gaps appear as placeholders in exports.
                               </p>
                               <ul className="space-y-2 text-sm text-amber-800">
                                 {question.assumptions.map((assumption: any, assumptionIndex: number) => {
@@ -791,34 +1071,26 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                   const isResolved =
                                     typeof assumption === "object" && assumption?.resolved === true;
                                   return (
-                                    <li
+                                    <AssumptionGapItem
                                       key={`${question.id}-assumption-${assumptionIndex}`}
-                                      className="flex items-start justify-between gap-3"
-                                    >
-                                      <p
-                                        className={`flex-1 ${
-                                          isResolved ? "text-amber-600/60 line-through" : ""
-                                        }`}
-                                      >
-                                        {body}
-                                      </p>
-                                      {assumptionId && (
-                                        <Button
-                                          variant="ghost"
-                                          size="sm"
-                                          className="h-7 shrink-0 px-2 text-xs text-amber-700 hover:text-amber-900"
-                                          disabled={resolveAssumptionMutation.isPending}
-                                          onClick={() =>
-                                            resolveAssumptionMutation.mutate({
-                                              assumptionId,
-                                              resolved: !isResolved,
-                                            })
-                                          }
-                                        >
-                                          {isResolved ? "Undo" : "Mark addressed"}
-                                        </Button>
-                                      )}
-                                    </li>
+                                      text={body}
+                                      assumptionId={assumptionId}
+                                      resolved={isResolved}
+                                      answer={typeof assumption === "object" ? assumption?.answer : null}
+                                      busy={
+                                        resolveAssumptionMutation.isPending ||
+                                        answerAssumptionMutation.isPending ||
+                                        applyAssumptionMutation.isPending
+                                      }
+                                      onToggleResolved={(resolved) =>
+                                        assumptionId &&
+                                        resolveAssumptionMutation.mutate({ assumptionId, resolved })
+                                      }
+                                      onAnswer={(answer) =>
+                                        answerAssumptionMutation.mutateAsync({ assumptionId: assumptionId!, answer })
+                                      }
+                                      onApply={() => assumptionId && applyAssumptionMutation.mutate(assumptionId)}
+                                    />
                                   );
                                 })}
                               </ul>
@@ -902,6 +1174,26 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
                                     </>
                                   )}
                                 </Button>
+                                <SimilarAnswers
+                                  questionId={normalizedQuestion.id}
+                                  adaptingFrom={
+                                    adaptAnswerMutation.isPending &&
+                                    adaptAnswerMutation.variables?.questionId === normalizedQuestion.id
+                                      ? adaptAnswerMutation.variables.sourceQuestionId
+                                      : null
+                                  }
+                                  onAdapt={(sourceQuestionId) =>
+                                    adaptAnswerMutation.mutate({ questionId: normalizedQuestion.id, sourceQuestionId })
+                                  }
+                                />
+                                <LibraryMatches
+                                  questionId={normalizedQuestion.id}
+                                  busy={insertLibraryAnswerMutation.isPending || generateResponseMutation.isPending}
+                                  onInsert={(entryId) =>
+                                    insertLibraryAnswerMutation.mutate({ questionId: normalizedQuestion.id, entryId })
+                                  }
+                                  onUseAsExemplar={(entryId) => handleRegenerateResponse(normalizedQuestion.id, [entryId])}
+                                />
                               </>
                             )}
                           </div>
@@ -983,12 +1275,25 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
 
               {showEvidenceMap && completedQuestions.length > 0 && (
                 <div className="mt-8 pt-6 border-t border-slate-200">
-                  <EvidenceMap
-                    data={evidenceMapData}
-                    overallGroundingQuality={calculateOverallGroundingQuality()}
-                    onSectionClick={(_sectionName) => {
-                    }}
-                  />
+                  {evidenceMap ? (
+                    <EvidenceMap
+                      data={evidenceMap.sections}
+                      overallGroundingQuality={evidenceMap.overallGroundingQuality}
+                      onSectionClick={(_sectionName) => {
+                      }}
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2 text-sm text-slate-600">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Checking each cited sentence against its source...
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {showRubricReview && completedQuestions.length > 0 && (
+                <div className="mt-8 pt-6 border-t border-slate-200">
+                  <RubricReviewCard projectId={projectId} project={project} questions={questions} />
                 </div>
               )}
             </>
@@ -996,42 +1301,16 @@ export function DraftsPanel({ projectId, project }: DraftsPanelProps) {
         </CardContent>
       </Card>
 
-      {questions.length > 0 && (
-        <Card className="shadow-sm border border-slate-200">
-          <CardHeader className="p-6 border-b border-slate-200">
-            <CardTitle className="text-lg font-semibold text-slate-900">Version History</CardTitle>
-            <p className="text-sm text-slate-600 mt-1">
-              Track changes and compare different versions of your responses
-            </p>
-          </CardHeader>
-          <CardContent className="p-0">
-            <div className="divide-y divide-slate-200">
-              <div className="p-6 hover:bg-slate-50 transition-colors">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
-                      <span className="text-primary font-medium text-sm">v1</span>
-                    </div>
-                    <div>
-                      <p className="font-medium text-slate-900">Current Version</p>
-                      <p className="text-sm text-slate-600">
-                        Generated with Professional tone • {new Date().toLocaleDateString()}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <Badge className="bg-green-100 text-green-800">Current</Badge>
-                    <Button variant="ghost" size="sm">
-                      <Eye className="mr-1 h-4 w-4" />
-                      View
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {questions.length > 0 && <VersionHistoryCard project={project} questions={questions} />}
+
+      <GenerationPreviewDialog
+        projectId={projectId}
+        open={previewingBatch}
+        onOpenChange={setPreviewingBatch}
+        options={batchOptions}
+        starting={draftUnansweredMutation.isPending}
+        onConfirm={() => draftUnansweredMutation.mutate()}
+      />
     </div>
   );
 }
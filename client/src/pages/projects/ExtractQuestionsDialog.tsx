@@ -0,0 +1,229 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileUpload } from "@/components/ui/file-upload";
+import { Loader2 } from "lucide-react";
+import { api, type GrantQuestion, type RfpExtraction } from "@/lib/api";
+import { limitUnitLabel } from "@shared/answer-limits";
+import { useToast } from "@/hooks/use-toast";
+
+interface ExtractQuestionsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (created: GrantQuestion[]) => void;
+}
+
+/**
+ * Upload an RFP, review what was extracted (prompts with their sections,
+ * limits and required flags, plus attachments, eligibility and evaluation
+ * criteria), then bulk-create the selected prompts as questions.
+ */
+export function ExtractQuestionsDialog({ projectId, open, onOpenChange, onCreated }: ExtractQuestionsDialogProps) {
+  const { toast } = useToast();
+  const [extraction, setExtraction] = useState<RfpExtraction | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [processing, setProcessing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setExtraction(null);
+    setSelected(new Set());
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setProcessing(true);
+    try {
+      const result = await api.extractQuestions(file, projectId);
+      setExtraction(result);
+      setSelected(new Set(result.questions.map((q) => q.order)));
+      if (result.questions.length === 0) {
+        toast({
+          title: "No questions found",
+          description: "We couldn't identify application prompts in this document.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Extraction failed",
+        description: error instanceof Error ? error.message : "Could not process the document",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!extraction) return;
+    const picked = extraction.questions.filter((q) => selected.has(q.order));
+    if (picked.length === 0) return;
+    setSaving(true);
+    try {
+      const { created } = await api.bulkCreateQuestions(
+        projectId,
+        picked.map(({ question, wordLimit, limitType, required }) => ({ question, wordLimit, limitType, required })),
+      );
+      onCreated(created);
+      toast({
+        title: "Questions added",
+        description: `${created.length} question${created.length === 1 ? "" : "s"} added to this application.`,
+      });
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      toast({
+        title: "Failed to save",
+        description: error instanceof Error ? error.message : "Unable to add questions.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (order: number, next: boolean) => {
+    setSelected((prev) => {
+      const copy = new Set(prev);
+      if (next) copy.add(order);
+      else copy.delete(order);
+      return copy;
+    });
+  };
+
+  const lists = extraction
+    ? [
+        { title: "Required attachments", items: extraction.attachments },
+        { title: "Eligibility", items: extraction.eligibility },
+        {
+          title: "Evaluation criteria",
+          items: extraction.evaluationCriteria.map((c) => (c.weight ? `${c.text} (${c.weight})` : c.text)),
+        },
+      ].filter((list) => list.items.length > 0)
+    : [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogContent className="max-h-[calc(100dvh-2rem)] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Upload Grant Application Form</DialogTitle>
+          <DialogDescription>
+            Upload the RFP or application form. Review the prompts we find, then add the ones you want to answer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {processing && (
+          <div className="flex items-center justify-center p-8">
+            <div className="flex items-center space-x-3">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              <span className="text-slate-600">Processing document...</span>
+            </div>
+          </div>
+        )}
+
+        {!extraction && !processing && (
+          <FileUpload
+            onUpload={handleFile}
+            accept=".pdf,.doc,.docx"
+            multiple={false}
+            showToast={false}
+            description={
+              <>
+                Upload your grant application form — or{" "}
+                <span className="font-semibold text-[#2186EB]">browse files</span>
+              </>
+            }
+            fileTypesHint="PDF · DOC · DOCX — up to 10 MB each"
+          />
+        )}
+
+        {extraction && (
+          <div className="space-y-4">
+            {extraction.demo && (
+              <p className="rounded-md bg-amber-50 p-3 text-xs text-amber-800">
+                No prompts were found and AI extraction is not configured, so these are placeholder questions.
+              </p>
+            )}
+
+            {extraction.questions.length > 0 && (
+              <div className="max-h-[420px] overflow-y-auto space-y-2 py-1">
+                {extraction.questions.map((q) => {
+                  const isChecked = selected.has(q.order);
+                  return (
+                    <label
+                      key={q.order}
+                      className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer transition ${
+                        isChecked ? "border-primary/30 bg-[#EAF2FE]/40" : "border-slate-200"
+                      }`}
+                    >
+                      <Checkbox
+                        className="mt-0.5"
+                        checked={isChecked}
+                        onCheckedChange={(next) => toggle(q.order, next === true)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-slate-900">{q.question}</p>
+                        <div className="mt-1 flex flex-wrap items-center gap-2">
+                          {q.section && <span className="text-[10px] text-slate-500">{q.section}</span>}
+                          {q.wordLimit && (
+                            <Badge variant="outline" className="text-[10px]">
+                              {q.wordLimit.toLocaleString("en-US")} {limitUnitLabel(q.limitType)}
+                            </Badge>
+                          )}
+                          <Badge variant={q.required ? "secondary" : "outline"} className="text-[10px]">
+                            {q.required ? "Required" : "Optional"}
+                          </Badge>
+                        </div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {lists.map((list) => (
+              <div key={list.title}>
+                <h4 className="text-sm font-medium text-slate-900">{list.title}</h4>
+                <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs text-slate-600">
+                  {list.items.map((item) => (
+                    <li key={item}>{item}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {extraction && (
+            <Button variant="ghost" onClick={reset} disabled={saving}>
+              Try another file
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleAccept} disabled={!extraction || selected.size === 0 || saving}>
+            {saving ? "Saving…" : `Add ${selected.size || ""} question${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
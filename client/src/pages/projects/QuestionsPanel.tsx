@@ -7,11 +7,9 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { FileUpload } from "@/components/ui/file-upload";
-import { api, type Project } from "@/lib/api";
+import { api, type GrantQuestion, type Project } from "@/lib/api";
+import type { AnswerLimitType } from "@shared/answer-limits";
 import { workspaceKeys } from "@/lib/workspace-query-keys";
-import { getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Keyboard,
@@ -23,6 +21,7 @@ import {
   Loader2,
 } from "lucide-react";
 import ClarificationPanel, { ClarificationQuestion } from "@/components/ClarificationPanel";
+import { ExtractQuestionsDialog } from "./ExtractQuestionsDialog";
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -30,6 +29,7 @@ interface QuestionDraft {
   id: string;
   question: string;
   wordLimit: number | null;
+  limitType: AnswerLimitType;
   priority: string;
 }
 
@@ -48,7 +48,6 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
     focusAreas: ["Impact", "Innovation"] as string[],
   });
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [showClarifications, setShowClarifications] = useState(false);
   const [clarificationQuestions, setClarificationQuestions] = useState<ClarificationQuestion[]>([]);
   const [focusAreaInput, setFocusAreaInput] = useState("");
@@ -61,6 +60,7 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
           id: q.id,
           question: q.question,
           wordLimit: q.wordLimit ?? null,
+          limitType: q.limitType ?? "words",
           priority: q.priority || "medium",
         })),
       );
@@ -84,6 +84,7 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
         await api.createQuestion(projectId, {
           question: q.question,
           wordLimit: q.wordLimit || undefined,
+          limitType: q.limitType,
           priority: q.priority,
         });
       }
@@ -105,74 +106,70 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
     },
   });
 
+  const saveNewQuestions = async () => {
+    for (const q of questions) {
+      if (UUID_RE.test(q.id)) continue;
+      await api.createQuestion(projectId, {
+        question: q.question,
+        wordLimit: q.wordLimit || undefined,
+        limitType: q.limitType,
+        priority: q.priority,
+      });
+    }
+  };
+
+  const startBatch = async () => {
+    const batch = await api.startGenerationBatch(projectId, {
+      tone: generationSettings.tone,
+      emphasisAreas: generationSettings.focusAreas,
+    });
+    queryClient.setQueryData(workspaceKeys.generationBatch(project.organizationId, projectId), batch);
+  };
+
+  /**
+   * Saves any new questions, then hands every unanswered one to a server-side
+   * batch. Drafts shows its progress; answered questions are left alone.
+   */
+  const startDraftingBatch = async () => {
+    await saveNewQuestions();
+    await startBatch();
+  };
+
+  /**
+   * Saves the questions, then asks the server what context is missing
+   * (unresolved assumptions, questions no document covers). Drafting waits
+   * while there are open clarifications; returns whether it started.
+   */
   const generateResponsesMutation = useMutation({
     mutationFn: async () => {
+      await saveNewQuestions();
       try {
-        const authHeaders = await getAuthHeaders();
-        const clarificationResponse = await fetch('/api/clarifications/analyze', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...authHeaders
-          },
-          body: JSON.stringify({
-            projectId,
-            questions,
-            organizationContext: {
-              name: project.title,
-              description: project.description,
-            }
-          })
-        });
-
-        if (clarificationResponse.ok) {
-          const clarificationData = await clarificationResponse.json();
-          setClarificationQuestions(clarificationData.questions || []);
-
-          if (clarificationData.questions && clarificationData.questions.length > 0) {
-            setShowClarifications(true);
-            toast({
-              title: "Clarifications needed",
-              description: `${clarificationData.questions.length} questions will help improve your application quality.`,
-            });
-            return;
-          }
-        }
-      } catch (error) {
-        void error;
-      }
-
-      const questionIds = [];
-      for (const q of questions) {
-        if (UUID_RE.test(q.id)) {
-          questionIds.push(q.id);
-        } else {
-          const created = await api.createQuestion(projectId, {
-            question: q.question,
-            wordLimit: q.wordLimit || undefined,
-            priority: q.priority,
+        const clarifications = await api.generateClarifications(projectId);
+        const open = clarifications.filter((c) => c.status === "open");
+        if (open.length > 0) {
+          setClarificationQuestions(open);
+          setShowClarifications(true);
+          toast({
+            title: "Clarifications needed",
+            description: `${open.length} questions will help improve your application quality.`,
           });
-          questionIds.push(created.id);
+          return false;
         }
+      } catch (error) {
+        console.warn("Failed to check for clarifications:", error);
       }
 
-      const generatePromises = questionIds.map((qid) =>
-        api.generateResponse(qid, {
-          tone: generationSettings.tone,
-          emphasisAreas: generationSettings.focusAreas
-        })
-      );
-
-      // One bad question shouldn't block the rest from generating.
-      await Promise.allSettled(generatePromises);
+      await startBatch();
+      return true;
     },
-    onSuccess: () => {
+    onSuccess: (started) => {
       queryClient.invalidateQueries({ queryKey: workspaceKeys.projectQuestions(project.organizationId, projectId) });
+      loadProjectQuestions();
+      if (!started) return;
       toast({
         title: `Generating ${questions.length} response${questions.length === 1 ? "" : "s"}`,
         description: "Head to Drafts to review them as they complete — this usually takes under a minute.",
       });
-      loadProjectQuestions();
     },
     onError: (error) => {
       const msg = error instanceof Error ? error.message : "";
@@ -197,6 +194,7 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
         id: Math.random().toString(36).substr(2, 9),
         question: "",
         wordLimit: null,
+        limitType: "words",
         priority: "medium",
       },
     ]);
@@ -210,50 +208,54 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
     setQuestions(questions.filter((q) => q.id !== id));
   };
 
-  const handleClarificationAnswer = (questionId: string, answer: string) => {
-    setClarificationQuestions((prev) =>
-      prev.map((q) => (q.id === questionId ? { ...q, isAnswered: true, answer } : q)),
-    );
-    toast({
-      title: "Answer recorded",
-      description: "Your clarification answer has been saved.",
-    });
+  const replaceClarification = (updated: ClarificationQuestion) => {
+    setClarificationQuestions((prev) => prev.map((q) => (q.id === updated.id ? updated : q)));
   };
 
-  const handleSkipClarification = (questionId: string) => {
-    setClarificationQuestions((prev) => prev.filter((q) => q.id !== questionId));
+  const handleClarificationAnswer = async (questionId: string, answer: string) => {
+    try {
+      replaceClarification(await api.answerClarification(questionId, answer));
+      toast({
+        title: "Answer recorded",
+        description: "Saved as an organization fact; drafts will cite it.",
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save your answer",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleClarificationFollowUp = (_questionId: string) => {
-    toast({
-      title: "Follow-up requested",
-      description: "Additional guidance will be provided for this question.",
-    });
+  const handleSkipClarification = async (questionId: string) => {
+    try {
+      await api.skipClarification(questionId);
+      setClarificationQuestions((prev) => prev.filter((q) => q.id !== questionId));
+    } catch (error) {
+      toast({
+        title: "Skip failed",
+        description: error instanceof Error ? error.message : "Failed to skip this question",
+        variant: "destructive",
+      });
+    }
   };
 
-  const proceedWithGeneration = async () => {
+  const handleClarificationFollowUp = async (questionId: string) => {
     try {
-      const questionIds = [];
-      for (const q of questions) {
-        if (!UUID_RE.test(q.id)) {
-          const created = await api.createQuestion(projectId, {
-            question: q.question,
-            wordLimit: q.wordLimit || undefined,
-            priority: q.priority,
-          });
-          questionIds.push(created.id);
-        } else {
-          questionIds.push(q.id);
-        }
-      }
+      replaceClarification(await api.requestClarificationFollowUp(questionId));
+    } catch (error) {
+      toast({
+        title: "Follow-up failed",
+        description: error instanceof Error ? error.message : "Failed to load more guidance",
+        variant: "destructive",
+      });
+    }
+  };
 
-      const generatePromises = questionIds.map((qid) =>
-        api.generateResponse(qid, {
-          tone: generationSettings.tone,
-          emphasisAreas: generationSettings.focusAreas
-        })
-      );
-      await Promise.allSettled(generatePromises);
+  const proceedWithGeneration = async () => {
+    try {
+      await startDraftingBatch();
 
       setShowClarifications(false);
       queryClient.invalidateQueries({ queryKey: workspaceKeys.projectQuestions(project.organizationId, projectId) });
@@ -322,33 +324,19 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
     });
   };
 
-  const handleUploadDocument = async (file: File) => {
-    setIsProcessingFile(true);
-    try {
-      const result = await api.extractQuestions(file);
-      const extractedQuestions = result.questions.map((question: string) => ({
-        id: Math.random().toString(36).substr(2, 9),
-        question: question.trim(),
-        wordLimit: null,
-        priority: "medium",
-      }));
-      setQuestions([...questions, ...extractedQuestions]);
-      toast({
-        title: "Questions extracted",
-        description: result.demo
-          ? `Loaded ${result.questions.length} placeholder questions (demo — add OPENAI_API_KEY server-side for real extraction).`
-          : `Found ${result.questions.length} questions in the document.`,
-      });
-      setShowUploadModal(false);
-    } catch (error) {
-      toast({
-        title: "Extraction failed",
-        description: error instanceof Error ? error.message : "Could not process the document",
-        variant: "destructive",
-      });
-    } finally {
-      setIsProcessingFile(false);
-    }
+  // Created server-side already; append rather than reload so unsaved local drafts stay.
+  const handleExtractedQuestionsCreated = (created: GrantQuestion[]) => {
+    setQuestions((prev) => [
+      ...prev,
+      ...created.map((q) => ({
+        id: q.id,
+        question: q.question,
+        wordLimit: q.wordLimit ?? null,
+        limitType: q.limitType ?? "words",
+        priority: q.priority || "medium",
+      })),
+    ]);
+    queryClient.invalidateQueries({ queryKey: workspaceKeys.projectQuestions(project.organizationId, projectId) });
   };
 
   return (
@@ -444,7 +432,7 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
                   <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-4">
                     <div className="flex items-center gap-2">
                       <Label htmlFor={`wordLimit-${question.id}`} className="text-sm text-slate-600">
-                        Word Limit:
+                        Limit:
                       </Label>
                       <Input
                         id={`wordLimit-${question.id}`}
@@ -454,6 +442,19 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
                         onChange={(e) => updateQuestion(question.id, 'wordLimit', parseInt(e.target.value) || null)}
                         className="w-24"
                       />
+                      <Select
+                        value={question.limitType}
+                        onValueChange={(value) => updateQuestion(question.id, 'limitType', value)}
+                      >
+                        <SelectTrigger className="w-48" aria-label="Limit counts">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="words">Words</SelectItem>
+                          <SelectItem value="characters">Characters (with spaces)</SelectItem>
+                          <SelectItem value="characters_no_spaces">Characters (no spaces)</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                     <div className="flex items-center gap-2">
                       <Label htmlFor={`priority-${question.id}`} className="text-sm text-slate-600">
@@ -632,41 +633,12 @@ export function QuestionsPanel({ projectId, project }: QuestionsPanelProps) {
         </div>
       )}
 
-      <Dialog open={showUploadModal} onOpenChange={setShowUploadModal}>
-        <DialogContent className="max-h-[calc(100dvh-2rem)] overflow-y-auto sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Upload Grant Application Form</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <p className="text-sm text-slate-600">
-              Upload a PDF or Word document containing the grant application form.
-              We'll automatically extract the questions for you.
-            </p>
-            {isProcessingFile ? (
-              <div className="flex items-center justify-center p-8">
-                <div className="flex items-center space-x-3">
-                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
-                  <span className="text-slate-600">Processing document...</span>
-                </div>
-              </div>
-            ) : (
-              <FileUpload
-                onUpload={handleUploadDocument}
-                accept=".pdf,.doc,.docx"
-                multiple={false}
-                showToast={false}
-                description={
-                  <>
-                    Upload your grant application form — or{" "}
-                    <span className="font-semibold text-[#2186EB]">browse files</span>
-                  </>
-                }
-                fileTypesHint="PDF · DOC · DOCX — up to 10 MB each"
-              />
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      <ExtractQuestionsDialog
+        projectId={projectId}
+        open={showUploadModal}
+        onOpenChange={setShowUploadModal}
+        onCreated={handleExtractedQuestionsCreated}
+      />
     </div>
   );
 }
@@ -22,7 +22,9 @@ export function ApplicationMetricsCard({ data }: ApplicationMetricsCardProps) {
     },
     {
       label: "Open assumptions",
-      value: String(data.unresolvedAssumptions),
+      value: data.closedAssumptions
+        ? `${data.unresolvedAssumptions} (${data.closedAssumptions} closed)`
+        : String(data.unresolvedAssumptions),
       icon: <AlertTriangle className="h-4 w-4 text-amber-600" />,
       bg: "bg-amber-50",
     },
@@ -64,7 +66,7 @@ export function ApplicationMetricsCard({ data }: ApplicationMetricsCardProps) {
         {data.wordLimitUtilization !== null && (
           <div>
             <div className="flex items-baseline justify-between">
-              <span className="text-sm text-slate-600">Word-limit utilization</span>
+              <span className="text-sm text-slate-600">Length-limit utilization</span>
               <span className="text-sm font-semibold text-slate-900">
                 {Math.round(data.wordLimitUtilization * 100)}%
               </span>
@@ -13,6 +13,7 @@ import { Check, Loader2, LogOut } from "lucide-react";
 import PlanBilling from "@/components/settings/PlanBilling";
 import { SettingsRow, SettingsRowStacked, SettingsSection } from "@/components/settings/rows";
 import { useLogout } from "@/hooks/useLogout";
+import { CHAT_MODELS, DEFAULT_CHAT_MODEL, DEFAULT_FALLBACK_MODEL } from "@shared/ai-models";
 
 const EMPHASIS_OPTIONS = [
   "Impact & Outcomes",
@@ -29,8 +30,8 @@ const DEFAULT_AI_SETTINGS = {
   defaultTone: "professional",
   lengthPreference: "balanced",
   emphasisAreas: ["Impact & Outcomes", "Innovation", "Sustainability", "Community Engagement"],
-  aiModel: "gpt-4o",
-  fallbackModel: "gpt-3.5-turbo",
+  aiModel: DEFAULT_CHAT_MODEL,
+  fallbackModel: DEFAULT_FALLBACK_MODEL,
   creativity: 30,
   contextUsage: 80,
   autoDetection: true,
@@ -353,6 +354,48 @@ export default function Settings() {
                 </SettingsRow>
               </SettingsSection>
 
+              <div className="border-t border-slate-200" />
+
+              <SettingsSection
+                title="Model"
+                description="Which AI model drafts and analyzes documents for you. If it is unavailable, Granted retries with the fallback."
+              >
+                <SettingsRow title="Primary model" description="Used for every draft, summary, and extraction.">
+                  <Select
+                    value={aiSettings.aiModel}
+                    onValueChange={(value) => setAiSettings({ ...aiSettings, aiModel: value })}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHAT_MODELS.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </SettingsRow>
+                <SettingsRow title="Fallback model" description="Tried automatically when the primary model fails.">
+                  <Select
+                    value={aiSettings.fallbackModel}
+                    onValueChange={(value) => setAiSettings({ ...aiSettings, fallbackModel: value })}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHAT_MODELS.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </SettingsRow>
+              </SettingsSection>
+
               <button
                 type="button"
                 onClick={handleResetDefaults}
@@ -16,6 +16,7 @@ import { api, type Document } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useWorkspace } from "@/hooks/useWorkspace";
 import { workspaceKeys } from "@/lib/workspace-query-keys";
+import { DocumentSummaryDetails } from "@/pages/upload/DocumentSummaryDetails";
 import { 
   Building, 
   Trophy, 
@@ -68,8 +69,10 @@ const documentCategories = [
 
 const getFileIcon = (fileType: string) => {
   if (fileType.includes('pdf')) return 'fas fa-file-pdf text-red-600';
+  // Spreadsheet and presentation MIME types contain "officedocument" too.
+  if (fileType.includes('excel') || fileType.includes('spreadsheet') || fileType.includes('csv')) return 'fas fa-file-excel text-green-600';
+  if (fileType.includes('presentation') || fileType.includes('powerpoint')) return 'fas fa-file-powerpoint text-orange-600';
   if (fileType.includes('word') || fileType.includes('document')) return 'fas fa-file-word text-blue-600';
-  if (fileType.includes('excel') || fileType.includes('spreadsheet')) return 'fas fa-file-excel text-green-600';
   return 'fas fa-file-alt text-gray-600';
 };
 
@@ -333,7 +336,7 @@ export default function Upload() {
           <FileUpload
             onUpload={handleUpload}
             showToast={false}
-            fileTypesHint="PDF · DOC · DOCX · TXT — up to 10 MB each"
+            fileTypesHint="PDF · DOC · DOCX · TXT · XLSX · CSV · HTML · MD · RTF · ODT · PPTX — up to 10 MB each"
           />
 
           {/* Document Categories */}
@@ -405,10 +408,14 @@ export default function Upload() {
                       <p className="text-sm text-slate-600">
                         {document.fileType.split('/')[1].toUpperCase()} • {formatFileSize(document.fileSize)} • Uploaded {formatDate(document.uploadedAt)}
                       </p>
-                      {document.summary && (
-                        <p className="text-sm text-slate-500 mt-1 line-clamp-2">
-                          {document.summary}
-                        </p>
+                      {document.structuredSummary ? (
+                        <DocumentSummaryDetails summary={document.structuredSummary} />
+                      ) : (
+                        document.summary && (
+                          <p className="text-sm text-slate-500 mt-1 line-clamp-2">
+                            {document.summary}
+                          </p>
+                        )
                       )}
                       {getProcessingError(document) && (
                         <p className="text-sm text-red-600 mt-1">
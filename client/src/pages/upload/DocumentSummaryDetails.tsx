@@ -0,0 +1,60 @@
+import type { DocumentSummary } from "@/lib/api";
+
+/** The structured summary under a document: overview, then programs, figures and dates on demand. */
+export function DocumentSummaryDetails({ summary }: { summary: DocumentSummary }) {
+  const hasDetails = summary.programs.length > 0 || summary.keyNumbers.length > 0 || summary.dates.length > 0;
+
+  return (
+    <div className="mt-1 text-sm text-slate-500">
+      <p className="line-clamp-2">{summary.overview}</p>
+      {hasDetails && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-xs font-medium text-slate-600">
+            Summary details
+            {summary.sectionCount > 1 && ` · read in ${summary.sectionCount} sections`}
+          </summary>
+          <div className="mt-2 space-y-3">
+            {summary.programs.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Programs</p>
+                <ul className="mt-1 space-y-1">
+                  {summary.programs.map((program) => (
+                    <li key={program.name}>
+                      <span className="font-medium text-slate-700">{program.name}</span>
+                      {program.description && ` — ${program.description}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {summary.keyNumbers.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Key numbers</p>
+                <ul className="mt-1 space-y-1">
+                  {summary.keyNumbers.map((number) => (
+                    <li key={`${number.value}|${number.label}`} title={number.quote}>
+                      <span className="font-medium text-slate-700">{number.value}</span> {number.label}
+                      {number.section && <span className="text-xs text-slate-400"> · {number.section}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {summary.dates.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Dates</p>
+                <ul className="mt-1 space-y-1">
+                  {summary.dates.map((date) => (
+                    <li key={`${date.date}|${date.label}`}>
+                      <span className="font-medium text-slate-700">{date.date}</span> {date.label}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,12 @@ describe('upload/utils', () => {
 
     it('should return Excel icon for spreadsheets', () => {
       expect(getFileIcon('application/vnd.ms-excel')).toContain('fa-file-excel');
+      expect(getFileIcon('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')).toContain('fa-file-excel');
+      expect(getFileIcon('text/csv')).toContain('fa-file-excel');
+    });
+
+    it('should return PowerPoint icon for presentations', () => {
+      expect(getFileIcon('application/vnd.openxmlformats-officedocument.presentationml.presentation')).toContain('fa-file-powerpoint');
     });
 
     it('should return default icon for unknown file types', () => {
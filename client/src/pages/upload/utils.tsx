@@ -37,8 +37,10 @@ export const documentCategories = [
 
 export function getFileIcon(fileType: string) {
   if (fileType.includes('pdf')) return 'fas fa-file-pdf text-red-600';
+  // Spreadsheet and presentation MIME types contain "officedocument" too.
+  if (fileType.includes('excel') || fileType.includes('spreadsheet') || fileType.includes('csv')) return 'fas fa-file-excel text-green-600';
+  if (fileType.includes('presentation') || fileType.includes('powerpoint')) return 'fas fa-file-powerpoint text-orange-600';
   if (fileType.includes('word') || fileType.includes('document')) return 'fas fa-file-word text-blue-600';
-  if (fileType.includes('excel') || fileType.includes('spreadsheet')) return 'fas fa-file-excel text-green-600';
   return 'fas fa-file-alt text-gray-600';
 }
 
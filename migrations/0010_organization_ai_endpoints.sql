@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "organization_ai_endpoints" (
+  "organization_id" varchar PRIMARY KEY NOT NULL,
+  "base_url" text NOT NULL,
+  "api_key" text,
+  "chat_model" text NOT NULL,
+  "embedding_model" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'organization_ai_endpoints_organization_id_organizations_id_fk'
+  ) THEN
+    ALTER TABLE "organization_ai_endpoints"
+      ADD CONSTRAINT "organization_ai_endpoints_organization_id_organizations_id_fk"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,65 @@
+CREATE TABLE IF NOT EXISTS "generation_batches" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" varchar NOT NULL,
+  "organization_id" varchar NOT NULL,
+  "user_id" varchar NOT NULL,
+  "status" text NOT NULL DEFAULT 'running',
+  "concurrency" integer NOT NULL,
+  "estimated_tokens" integer NOT NULL DEFAULT 0,
+  "settings" jsonb DEFAULT '{}'::jsonb,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now(),
+  "finished_at" timestamp
+);
+
+CREATE TABLE IF NOT EXISTS "generation_batch_items" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "batch_id" varchar NOT NULL,
+  "question_id" varchar NOT NULL,
+  "position" integer NOT NULL,
+  "status" text NOT NULL DEFAULT 'queued',
+  "response_status" text,
+  "error" text,
+  "started_at" timestamp,
+  "finished_at" timestamp
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'generation_batches_project_id_projects_id_fk'
+  ) THEN
+    ALTER TABLE "generation_batches"
+      ADD CONSTRAINT "generation_batches_project_id_projects_id_fk"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'generation_batches_organization_id_organizations_id_fk'
+  ) THEN
+    ALTER TABLE "generation_batches"
+      ADD CONSTRAINT "generation_batches_organization_id_organizations_id_fk"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id");
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'generation_batch_items_batch_id_generation_batches_id_fk'
+  ) THEN
+    ALTER TABLE "generation_batch_items"
+      ADD CONSTRAINT "generation_batch_items_batch_id_generation_batches_id_fk"
+      FOREIGN KEY ("batch_id") REFERENCES "generation_batches"("id") ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'generation_batch_items_question_id_questions_id_fk'
+  ) THEN
+    ALTER TABLE "generation_batch_items"
+      ADD CONSTRAINT "generation_batch_items_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "generation_batches_project_id_created_at_idx"
+  ON "generation_batches" ("project_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "generation_batch_items_batch_id_idx"
+  ON "generation_batch_items" ("batch_id");
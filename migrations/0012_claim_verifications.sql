@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "claim_verifications" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "question_id" varchar NOT NULL,
+  "response_hash" text NOT NULL,
+  "position" integer NOT NULL,
+  "paragraph" integer NOT NULL,
+  "sentence" text NOT NULL,
+  "markers" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "source_document_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "verdict" text NOT NULL,
+  "score" integer NOT NULL DEFAULT 0,
+  "missing_terms" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "created_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'claim_verifications_question_id_questions_id_fk'
+  ) THEN
+    ALTER TABLE "claim_verifications"
+      ADD CONSTRAINT "claim_verifications_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "claim_verifications_question_id_position_idx"
+  ON "claim_verifications" ("question_id", "position");
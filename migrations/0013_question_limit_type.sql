@@ -0,0 +1,18 @@
+-- What a question's word_limit counts: words, characters, or characters without spaces.
+BEGIN;
+
+ALTER TABLE IF EXISTS questions
+  ADD COLUMN IF NOT EXISTS limit_type TEXT NOT NULL DEFAULT 'words';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'questions_limit_type_check'
+  ) THEN
+    ALTER TABLE "questions"
+      ADD CONSTRAINT "questions_limit_type_check"
+      CHECK ("limit_type" IN ('words', 'characters', 'characters_no_spaces'));
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,78 @@
+-- Organization facts (citable through a per-organization facts document) and
+-- the clarification questions whose answers produce them.
+CREATE TABLE IF NOT EXISTS "organization_facts" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL,
+  "project_id" varchar,
+  "label" text NOT NULL,
+  "value" text NOT NULL,
+  "source" text NOT NULL DEFAULT 'manual',
+  "document_id" varchar NOT NULL,
+  "chunk_index" integer NOT NULL,
+  "created_by" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "clarification_questions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" varchar NOT NULL,
+  "question_id" varchar,
+  "assumption_label_id" varchar,
+  "origin" text NOT NULL,
+  "category" text NOT NULL,
+  "priority" text NOT NULL,
+  "question_text" text NOT NULL,
+  "context_explanation" text NOT NULL,
+  "example_answer" text,
+  "follow_up" text,
+  "status" text NOT NULL DEFAULT 'open',
+  "answer" text,
+  "fact_id" varchar,
+  "answered_by" varchar,
+  "answered_at" timestamp,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'organization_facts_organization_id_organizations_id_fk') THEN
+    ALTER TABLE "organization_facts"
+      ADD CONSTRAINT "organization_facts_organization_id_organizations_id_fk"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'organization_facts_project_id_projects_id_fk') THEN
+    ALTER TABLE "organization_facts"
+      ADD CONSTRAINT "organization_facts_project_id_projects_id_fk"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'organization_facts_document_id_documents_id_fk') THEN
+    ALTER TABLE "organization_facts"
+      ADD CONSTRAINT "organization_facts_document_id_documents_id_fk"
+      FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'clarification_questions_project_id_projects_id_fk') THEN
+    ALTER TABLE "clarification_questions"
+      ADD CONSTRAINT "clarification_questions_project_id_projects_id_fk"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'clarification_questions_question_id_questions_id_fk') THEN
+    ALTER TABLE "clarification_questions"
+      ADD CONSTRAINT "clarification_questions_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'clarification_questions_assumption_label_id_assumption_labels_id_fk') THEN
+    ALTER TABLE "clarification_questions"
+      ADD CONSTRAINT "clarification_questions_assumption_label_id_assumption_labels_id_fk"
+      FOREIGN KEY ("assumption_label_id") REFERENCES "assumption_labels"("id") ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'clarification_questions_fact_id_organization_facts_id_fk') THEN
+    ALTER TABLE "clarification_questions"
+      ADD CONSTRAINT "clarification_questions_fact_id_organization_facts_id_fk"
+      FOREIGN KEY ("fact_id") REFERENCES "organization_facts"("id") ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "organization_facts_organization_id_idx" ON "organization_facts" ("organization_id");
+CREATE INDEX IF NOT EXISTS "clarification_questions_project_id_idx" ON "clarification_questions" ("project_id");
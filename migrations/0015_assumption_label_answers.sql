@@ -0,0 +1,18 @@
+-- Answers to "Needs your input" gaps: the text the writer gave and the
+-- organization fact it was stored as.
+BEGIN;
+
+ALTER TABLE IF EXISTS assumption_labels
+  ADD COLUMN IF NOT EXISTS answer TEXT,
+  ADD COLUMN IF NOT EXISTS fact_id VARCHAR;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'assumption_labels_fact_id_organization_facts_id_fk') THEN
+    ALTER TABLE "assumption_labels"
+      ADD CONSTRAINT "assumption_labels_fact_id_organization_facts_id_fk"
+      FOREIGN KEY ("fact_id") REFERENCES "organization_facts"("id") ON DELETE SET NULL;
+  END IF;
+END $$;
+
+COMMIT;
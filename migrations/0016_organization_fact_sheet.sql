@@ -0,0 +1,24 @@
+-- Fact sheet: typed organization facts (budget, staff, people served...)
+-- with the document they came from, an as-of date and who verified them.
+BEGIN;
+
+ALTER TABLE IF EXISTS organization_facts
+  ADD COLUMN IF NOT EXISTS fact_key TEXT,
+  ADD COLUMN IF NOT EXISTS period TEXT,
+  ADD COLUMN IF NOT EXISTS source_document_id VARCHAR,
+  ADD COLUMN IF NOT EXISTS as_of TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS verified_by VARCHAR,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'organization_facts_source_document_id_documents_id_fk') THEN
+    ALTER TABLE "organization_facts"
+      ADD CONSTRAINT "organization_facts_source_document_id_documents_id_fk"
+      FOREIGN KEY ("source_document_id") REFERENCES "documents"("id") ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "organization_facts_fact_key_idx" ON "organization_facts" ("organization_id", "fact_key");
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Profile fields proposed by document extraction: legal and DBA names,
+-- federal identifiers, fiscal year end and mailing address.
+BEGIN;
+
+ALTER TABLE IF EXISTS organizations
+  ADD COLUMN IF NOT EXISTS legal_name TEXT,
+  ADD COLUMN IF NOT EXISTS dba TEXT,
+  ADD COLUMN IF NOT EXISTS uei TEXT,
+  ADD COLUMN IF NOT EXISTS duns TEXT,
+  ADD COLUMN IF NOT EXISTS fiscal_year_end TEXT,
+  ADD COLUMN IF NOT EXISTS address TEXT;
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Funder profiles (priorities, terminology, evaluation criteria, award range,
+-- contacts) and the link from projects to the funder they apply to.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "funders" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL,
+  "name" text NOT NULL,
+  "mission" text,
+  "priorities" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "terminology" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "evaluation_criteria" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "award_min" integer,
+  "award_max" integer,
+  "contacts" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "notes" text,
+  "source_document_id" varchar,
+  "created_by" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+ALTER TABLE IF EXISTS projects
+  ADD COLUMN IF NOT EXISTS funder_id VARCHAR;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'funders_organization_id_organizations_id_fk') THEN
+    ALTER TABLE "funders"
+      ADD CONSTRAINT "funders_organization_id_organizations_id_fk"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'funders_source_document_id_documents_id_fk') THEN
+    ALTER TABLE "funders"
+      ADD CONSTRAINT "funders_source_document_id_documents_id_fk"
+      FOREIGN KEY ("source_document_id") REFERENCES "documents"("id") ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'projects_funder_id_funders_id_fk') THEN
+    ALTER TABLE "projects"
+      ADD CONSTRAINT "projects_funder_id_funders_id_fk"
+      FOREIGN KEY ("funder_id") REFERENCES "funders"("id") ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "funders_organization_id_idx" ON "funders" ("organization_id");
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Rubric reviews of answers, each tied to the response version it scored.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "draft_reviews" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" varchar NOT NULL,
+  "question_id" varchar NOT NULL,
+  "response_version_id" varchar NOT NULL,
+  "rubric" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "rubric_source" text NOT NULL,
+  "criteria" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "overall_score" integer NOT NULL,
+  "weakest_sentences" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "suggestions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "method" text NOT NULL,
+  "created_by" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'draft_reviews_project_id_projects_id_fk') THEN
+    ALTER TABLE "draft_reviews"
+      ADD CONSTRAINT "draft_reviews_project_id_projects_id_fk"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'draft_reviews_question_id_questions_id_fk') THEN
+    ALTER TABLE "draft_reviews"
+      ADD CONSTRAINT "draft_reviews_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'draft_reviews_response_version_id_response_versions_id_fk') THEN
+    ALTER TABLE "draft_reviews"
+      ADD CONSTRAINT "draft_reviews_response_version_id_response_versions_id_fk"
+      FOREIGN KEY ("response_version_id") REFERENCES "response_versions"("id") ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "draft_reviews_question_id_created_at_idx"
+  ON "draft_reviews" ("question_id", "created_at");
+
+COMMIT;
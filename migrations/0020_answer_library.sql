@@ -0,0 +1,58 @@
+-- Organization answer library, and question-text embeddings for matching new
+-- questions against it.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "question_embeddings" (
+  "question_id" varchar PRIMARY KEY NOT NULL,
+  "content_hash" text NOT NULL,
+  "embedding" vector(1536) NOT NULL,
+  "embedding_model" text NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "answer_library" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL,
+  "title" text NOT NULL,
+  "question" text NOT NULL,
+  "answer" text NOT NULL,
+  "citations" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "topics" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "source_project_id" varchar,
+  "source_question_id" varchar,
+  "question_embedding" vector(1536),
+  "answer_embedding" vector(1536),
+  "embedding_model" text,
+  "created_by" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'question_embeddings_question_id_questions_id_fk') THEN
+    ALTER TABLE "question_embeddings"
+      ADD CONSTRAINT "question_embeddings_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'answer_library_organization_id_organizations_id_fk') THEN
+    ALTER TABLE "answer_library"
+      ADD CONSTRAINT "answer_library_organization_id_organizations_id_fk"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'answer_library_source_project_id_projects_id_fk') THEN
+    ALTER TABLE "answer_library"
+      ADD CONSTRAINT "answer_library_source_project_id_projects_id_fk"
+      FOREIGN KEY ("source_project_id") REFERENCES "projects"("id") ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'answer_library_source_question_id_questions_id_fk') THEN
+    ALTER TABLE "answer_library"
+      ADD CONSTRAINT "answer_library_source_question_id_questions_id_fk"
+      FOREIGN KEY ("source_question_id") REFERENCES "questions"("id") ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "answer_library_organization_id_idx"
+  ON "answer_library" ("organization_id");
+
+COMMIT;
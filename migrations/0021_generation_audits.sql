@@ -0,0 +1,48 @@
+-- What went into each model-written response version, for review and re-runs.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "generation_audits" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" varchar NOT NULL,
+  "question_id" varchar NOT NULL,
+  "response_version_id" varchar NOT NULL,
+  "operation" text NOT NULL,
+  "provider" text NOT NULL,
+  "model" text NOT NULL,
+  "temperature" real,
+  "settings" jsonb NOT NULL DEFAULT '{}'::jsonb,
+  "chunks" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "tokens_in" integer NOT NULL DEFAULT 0,
+  "tokens_out" integer NOT NULL DEFAULT 0,
+  "latency_ms" integer,
+  "assumptions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "request" jsonb NOT NULL,
+  "created_by" varchar NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'generation_audits_project_id_projects_id_fk') THEN
+    ALTER TABLE "generation_audits"
+      ADD CONSTRAINT "generation_audits_project_id_projects_id_fk"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'generation_audits_question_id_questions_id_fk') THEN
+    ALTER TABLE "generation_audits"
+      ADD CONSTRAINT "generation_audits_question_id_questions_id_fk"
+      FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'generation_audits_response_version_id_response_versions_id_fk') THEN
+    ALTER TABLE "generation_audits"
+      ADD CONSTRAINT "generation_audits_response_version_id_response_versions_id_fk"
+      FOREIGN KEY ("response_version_id") REFERENCES "response_versions"("id") ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "generation_audits_response_version_id_idx"
+  ON "generation_audits" ("response_version_id");
+CREATE INDEX IF NOT EXISTS "generation_audits_project_id_idx"
+  ON "generation_audits" ("project_id");
+
+COMMIT;
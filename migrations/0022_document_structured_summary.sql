@@ -0,0 +1,8 @@
+-- Section-by-section document summaries: overview, programs, key numbers
+-- with the sentence they come from, and dates.
+BEGIN;
+
+ALTER TABLE IF EXISTS documents
+  ADD COLUMN IF NOT EXISTS structured_summary JSONB;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Character offsets of each chunk in its document's extracted raw text, so a
+-- cited chunk can be highlighted in the source. Chunks stored before this
+-- migration keep NULL offsets until their document is processed again.
+BEGIN;
+
+ALTER TABLE IF EXISTS doc_chunks
+  ADD COLUMN IF NOT EXISTS start_offset INTEGER,
+  ADD COLUMN IF NOT EXISTS end_offset INTEGER;
+
+COMMIT;
@@ -0,0 +1,8 @@
+-- Pages of a PDF each chunk spans, so citations can say "p. 14".
+BEGIN;
+
+ALTER TABLE IF EXISTS doc_chunks
+  ADD COLUMN IF NOT EXISTS page_start INTEGER,
+  ADD COLUMN IF NOT EXISTS page_end INTEGER;
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- At most one running batch per project, so two concurrent starts cannot
+-- both draft (and bill) the same questions.
+BEGIN;
+
+-- Older duplicates from before the index existed are cancelled, as
+-- cancelGenerationBatch would: queued items are cancelled with them.
+WITH cancelled AS (
+  UPDATE generation_batches AS older
+  SET status = 'cancelled', finished_at = COALESCE(older.finished_at, now()), updated_at = now()
+  WHERE older.status = 'running'
+    AND EXISTS (
+      SELECT 1 FROM generation_batches AS newer
+      WHERE newer.project_id = older.project_id
+        AND newer.status = 'running'
+        AND (newer.created_at, newer.id) > (older.created_at, older.id)
+    )
+  RETURNING older.id
+)
+UPDATE generation_batch_items
+SET status = 'cancelled', finished_at = now()
+WHERE status = 'queued' AND batch_id IN (SELECT id FROM cancelled);
+
+CREATE UNIQUE INDEX IF NOT EXISTS generation_batches_one_running
+  ON generation_batches (project_id)
+  WHERE status = 'running';
+
+COMMIT;
@@ -0,0 +1,8 @@
+-- Hash of each question's text when it was last checked for a retrieval gap,
+-- so clarification refreshes move on to unchecked questions.
+BEGIN;
+
+ALTER TABLE IF EXISTS questions
+  ADD COLUMN IF NOT EXISTS gap_checked_hash TEXT;
+
+COMMIT;
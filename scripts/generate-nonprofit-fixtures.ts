@@ -1,6 +1,7 @@
 import { mkdirSync, writeFileSync } from "fs";
 import { join } from "path";
 import { Document, Packer, Paragraph, TextRun } from "docx";
+import JSZip from "jszip";
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 
 const FIXTURE_DIR = join(process.cwd(), "test/fixtures/nonprofit");
@@ -11,6 +12,173 @@ const DOCX_BODY =
 
 const PDF_BODY = "Riverside Community Food Bank annual report excerpt";
 
+const TITLE = "Community Impact Brief";
+const PROGRAMS_HEADING = "Programs";
+const PROGRAMS_BODY =
+  "Riverside Community Food Bank provides meals to over 850 families each month across three counties.";
+const BUDGET_HEADING = "Budget";
+const BUDGET_BODY = "Our 2024 annual budget totals $1.2 million with 72% allocated to direct program services.";
+const SPEAKER_NOTES = "Mention the 2024 volunteer drive when presenting this slide.";
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function buildHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${TITLE}</title>
+  <style>body { font-family: sans-serif; }</style>
+  <script>window.analytics = "tracking-snippet";</script>
+</head>
+<body>
+  <nav><a href="/">Home</a></nav>
+  <h1>${TITLE}</h1>
+  <h2>${PROGRAMS_HEADING}</h2>
+  <p>${PROGRAMS_BODY.replace("850", "<strong>850</strong>")}</p>
+  <ul><li>Mobile pantry</li><li>Senior meal delivery</li></ul>
+  <h2>${BUDGET_HEADING}</h2>
+  <p>${BUDGET_BODY.replace("$1.2 million", "$1.2&nbsp;million")}</p>
+  <script>console.log("loaded");</script>
+</body>
+</html>
+`;
+}
+
+function buildMarkdown(): string {
+  return `---
+title: ${TITLE}
+---
+
+${TITLE}
+======================
+
+## ${PROGRAMS_HEADING}
+
+${PROGRAMS_BODY.replace("850 families", "**850 families**")}
+
+* Mobile pantry
+* Senior meal delivery
+
+## ${BUDGET_HEADING}
+
+${BUDGET_BODY} See the [annual report](https://example.org/report).
+`;
+}
+
+function buildRtf(): string {
+  const escape = (text: string) => text.replace(/[\\{}]/g, "\\$&");
+  return [
+    "{\\rtf1\\ansi\\deff0",
+    "{\\fonttbl{\\f0 Calibri;}}",
+    "{\\stylesheet{\\s0 Normal;}{\\s1 heading 1;}{\\s2 heading 2;}}",
+    "{\\info{\\title Fixture metadata}}",
+    `\\pard\\s1 ${escape(TITLE)}\\par`,
+    `\\pard\\s2 ${escape(PROGRAMS_HEADING)}\\par`,
+    `\\pard\\s0 ${escape(PROGRAMS_BODY)}\\par`,
+    `\\pard\\s2 ${escape(BUDGET_HEADING)}\\par`,
+    `\\pard\\s0 ${escape(BUDGET_BODY)} Caf\\'e9 partners\\emdash local.\\par`,
+    "}",
+  ].join("\n");
+}
+
+async function buildOdt(): Promise<Buffer> {
+  const zip = new JSZip();
+  // The mimetype entry comes first and uncompressed.
+  zip.file("mimetype", "application/vnd.oasis.opendocument.text", { compression: "STORE" });
+  zip.file(
+    "META-INF/manifest.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>
+`,
+  );
+  zip.file(
+    "content.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" office:version="1.2">
+  <office:body>
+    <office:text>
+      <text:h text:outline-level="1">${TITLE}</text:h>
+      <text:h text:outline-level="2">${PROGRAMS_HEADING}</text:h>
+      <text:p>${escapeXml(PROGRAMS_BODY)}<text:note text:note-class="footnote"><text:note-body><text:p>Footnote text.</text:p></text:note-body></text:note></text:p>
+      <text:list><text:list-item><text:p>Mobile pantry</text:p></text:list-item><text:list-item><text:p>Senior meal delivery</text:p></text:list-item></text:list>
+      <text:h text:outline-level="2">${BUDGET_HEADING}</text:h>
+      <text:p>${escapeXml(BUDGET_BODY)}</text:p>
+    </office:text>
+  </office:body>
+</office:document-content>
+`,
+  );
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/** Slide XML with a title placeholder, a body placeholder and a slide number. */
+function slideXml(title: string, body: string): string {
+  const shape = (placeholder: string, text: string) =>
+    `<p:sp><p:nvSpPr><p:cNvPr id="2" name="${placeholder}"/><p:cNvSpPr/><p:nvPr><p:ph type="${placeholder}"/></p:nvPr></p:nvSpPr><p:txBody><a:bodyPr/><a:p><a:r><a:t>${escapeXml(text)}</a:t></a:r></a:p></p:txBody></p:sp>`;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sld xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"><p:cSld><p:spTree>${shape("title", title)}${shape("body", body)}${shape("sldNum", "7")}</p:spTree></p:cSld></p:sld>
+`;
+}
+
+function notesXml(text: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:notes xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"><p:cSld><p:spTree><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:bodyPr/><a:p><a:r><a:t>${escapeXml(text)}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:notes>
+`;
+}
+
+function relationshipsXml(relationships: Array<[id: string, type: string, target: string]>): string {
+  const entries = relationships
+    .map(
+      ([id, type, target]) =>
+        `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`,
+    )
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries}</Relationships>
+`;
+}
+
+/**
+ * A minimal two-slide deck. Slide files are numbered against presentation
+ * order (slide2.xml is shown first) so readers have to follow the slide list.
+ */
+async function buildPptx(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/><Override PartName="/ppt/slides/slide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/><Override PartName="/ppt/slides/slide2.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/><Override PartName="/ppt/notesSlides/notesSlide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml"/></Types>
+`,
+  );
+  zip.file("_rels/.rels", relationshipsXml([["rId1", "officeDocument", "ppt/presentation.xml"]]));
+  zip.file(
+    "ppt/presentation.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:presentation xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst><p:sldSz cx="9144000" cy="6858000"/></p:presentation>
+`,
+  );
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    relationshipsXml([
+      ["rId2", "slide", "slides/slide1.xml"],
+      ["rId3", "slide", "slides/slide2.xml"],
+    ]),
+  );
+  zip.file("ppt/slides/slide2.xml", slideXml(PROGRAMS_HEADING, PROGRAMS_BODY));
+  zip.file("ppt/slides/slide1.xml", slideXml(BUDGET_HEADING, BUDGET_BODY));
+  zip.file(
+    "ppt/slides/_rels/slide1.xml.rels",
+    relationshipsXml([["rId1", "notesSlide", "../notesSlides/notesSlide1.xml"]]),
+  );
+  zip.file("ppt/notesSlides/notesSlide1.xml", notesXml(SPEAKER_NOTES));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
 async function buildPdf(text: string): Promise<Buffer> {
   const pdf = await PDFDocument.create();
   const page = pdf.addPage([612, 792]);
@@ -27,6 +195,11 @@ async function main() {
   });
   writeFileSync(join(FIXTURE_DIR, "community-impact-brief.docx"), await Packer.toBuffer(doc));
   writeFileSync(join(FIXTURE_DIR, "community-impact-brief.pdf"), await buildPdf(PDF_BODY));
+  writeFileSync(join(FIXTURE_DIR, "community-impact-brief.html"), buildHtml());
+  writeFileSync(join(FIXTURE_DIR, "community-impact-brief.md"), buildMarkdown());
+  writeFileSync(join(FIXTURE_DIR, "community-impact-brief.rtf"), buildRtf());
+  writeFileSync(join(FIXTURE_DIR, "community-impact-brief.odt"), await buildOdt());
+  writeFileSync(join(FIXTURE_DIR, "community-impact-brief.pptx"), await buildPptx());
   writeFileSync(
     join(FIXTURE_DIR, "README.md"),
     "# Nonprofit extraction fixtures\n\nRegenerate: `npm run fixtures:nonprofit`\n"
@@ -1,5 +1,11 @@
 const DEFAULT_PDF_PARSE_MS = 45_000;
 
+/**
+ * Ends every page of extracted PDF text (on a line of its own), so page
+ * numbers can be read back from character offsets.
+ */
+export const PAGE_BREAK = "\f";
+
 if (!(Promise as unknown as { try?: unknown }).try) {
   (Promise as unknown as { try: <T>(fn: () => T | PromiseLike<T>) => Promise<T> }).try = (fn) =>
     Promise.resolve().then(fn);
@@ -21,7 +27,8 @@ function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise
 }
 
 /**
- * Extract plain text from a PDF buffer using unpdf (PDF.js server build).
+ * Extract plain text from a PDF buffer using unpdf (PDF.js server build),
+ * each page followed by PAGE_BREAK.
  * Hard-timeout guards against malicious PDFs that hang the worker.
  */
 export async function extractPdfText(buffer: Buffer): Promise<string> {
@@ -29,9 +36,9 @@ export async function extractPdfText(buffer: Buffer): Promise<string> {
   const { extractText } = await import("unpdf");
   const data = new Uint8Array(buffer);
   const result = await withTimeout(
-    extractText(data, { mergePages: true }),
+    extractText(data, { mergePages: false }),
     ms,
     "PDF extraction",
   );
-  return result.text;
+  return result.text.map((page) => `${page.trim()}\n${PAGE_BREAK}\n`).join("");
 }
@@ -5,6 +5,7 @@ import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { registerRoutes } from "./routes.js";
 import { storage } from "./storage.js";
 import { billingService } from "./services/billing.js";
+import { LocalProvider } from "./services/llm.js";
 
 vi.mock("./middleware/supabaseAuth.js", () => ({
   requireSupabaseUser: (req: any, _res: any, next: any) => {
@@ -178,6 +179,85 @@ describe("billing route enforcement", () => {
     });
   });
 
+  it("blocks answer reviews with 402 when the token quota is used up", async () => {
+    const userId = "route-review-limit";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Review Project", funder: "Review Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe the project need." });
+    await storage.updateGrantQuestion(question.id, { response: "We serve 1,240 families.", responseStatus: "complete" });
+    await billingService.recordUsage({
+      organizationId: userId,
+      userId,
+      projectId: project.id,
+      type: "generation",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      tokensIn: 99_000,
+      tokensOut: 0,
+      costCents: 0,
+    });
+    const criteria = [{ text: "Community need", weight: null }];
+
+    for (const path of [`/api/questions/${question.id}/review`, `/api/projects/${project.id}/review`]) {
+      const response = await postJson(path, userId, { criteria, refresh: true });
+      expect(response.status).toBe(402);
+      expect(await response.json()).toMatchObject({ error: "plan_limit_exceeded", limitType: "ai_tokens" });
+    }
+    expect(await storage.getDraftReviews(question.id)).toEqual([]);
+  });
+
+  it("bills a funder profile read by the model, and blocks it with 402 past the token quota", async () => {
+    const userId = "route-funder-limit";
+    await billingService.ensureSubscription(userId);
+    await storage.createUserSettings(userId, { aiModel: "local-deterministic", fallbackModel: "local-deterministic" });
+    const document = await storage.createDocument(userId, {
+      organizationId: userId,
+      filename: "rfp.txt",
+      originalName: "RFP.txt",
+      fileType: "text/plain",
+      fileSize: 10,
+      category: "rfp",
+    });
+    const rfp = "Riverside Community Foundation\n\nFunding Priorities\n- Food access in rural communities";
+    await storage.setDocumentExtraction(document.id, { rawText: rfp, rawTextBytes: rfp.length, extractionStatus: "complete" });
+    const generateJSON = vi.spyOn(LocalProvider.prototype, "generateJSON").mockImplementation(async (request) => {
+      const json = { name: "Riverside Community Foundation", priorities: ["Food access in rural communities"] };
+      return { text: JSON.stringify(json), json, provider: "local", model: request.model, tokensIn: 120, tokensOut: 30 };
+    });
+    const build = () => postJson(`/api/organizations/${userId}/funders/from-document`, userId, { documentId: document.id });
+
+    try {
+      expect((await build()).status).toBe(201);
+      const events = await storage.getUsageEventsForPeriod(userId, new Date(0), new Date(Date.now() + 1000));
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: "funder_extraction",
+          tokensIn: 120,
+          tokensOut: 30,
+          metadata: { documentId: document.id },
+        }),
+      ]);
+
+      await billingService.recordUsage({
+        organizationId: userId,
+        userId,
+        projectId: null,
+        type: "generation",
+        provider: "openai",
+        model: "gpt-4o-mini",
+        tokensIn: 99_000,
+        tokensOut: 0,
+        costCents: 0,
+      });
+      const denied = await build();
+      expect(denied.status).toBe(402);
+      expect(await denied.json()).toMatchObject({ error: "plan_limit_exceeded", limitType: "ai_tokens" });
+      expect(generateJSON).toHaveBeenCalledTimes(1);
+    } finally {
+      generateJSON.mockRestore();
+    }
+  });
+
   it("returns authenticated user's real billing usage instead of hard-coded org data", async () => {
     const userId = "route-billing-usage";
     await billingService.ensureSubscription(userId);
@@ -0,0 +1,436 @@
+// @vitest-environment node
+
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes.js";
+import { storage } from "./storage.js";
+import { billingService } from "./services/billing.js";
+import { LocalProvider } from "./services/llm.js";
+import { aiService } from "./services/ai.js";
+
+vi.mock("./middleware/supabaseAuth.js", () => ({
+  requireSupabaseUser: (req: any, _res: any, next: any) => {
+    req.supabaseUser = {
+      id: req.headers["x-test-user"] || "generation-route-user",
+      email: `${req.headers["x-test-user"] || "generation-route-user"}@example.com`,
+    };
+    next();
+  },
+  supabaseAdminClient: {
+    storage: {
+      from: () => ({
+        upload: async () => ({ error: null }),
+        remove: async () => ({ error: null }),
+        createSignedUrl: async () => ({ data: { signedUrl: "https://example.com/doc" } }),
+      }),
+    },
+  },
+}));
+
+vi.mock("openai", () => ({
+  default: class MockOpenAI {
+    chat = {
+      completions: {
+        create: vi.fn(),
+      },
+    };
+    embeddings = {
+      create: vi.fn(),
+    };
+  },
+}));
+
+let server: ReturnType<typeof import("http").createServer>;
+let baseUrl = "";
+
+async function postJson(path: string, userId: string, body: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-test-user": userId,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function parseEvents(raw: string) {
+  return raw
+    .split("\n\n")
+    .filter((block) => block.trim())
+    .map((block) => {
+      const event = /^event: (.+)$/m.exec(block)?.[1];
+      const data = /^data: (.+)$/m.exec(block)?.[1];
+      return { event, data: data ? JSON.parse(data) : undefined };
+    });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => {
+    server.listen(0, () => {
+      const address = server.address();
+      if (address && typeof address === "object") {
+        baseUrl = `http://127.0.0.1:${address.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+  });
+});
+
+describe("streaming generation route", () => {
+  it("streams text deltas then a final event, and persists status and usage", async () => {
+    const userId = "stream-route-user";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, {
+      title: "Stream Project",
+      funder: "Stream Funder",
+    });
+    const question = await storage.createGrantQuestion(project.id, {
+      question: "Describe the project need.",
+      wordLimit: 300,
+    });
+
+    const response = await postJson(`/api/questions/${question.id}/generate/stream`, userId, {
+      tone: "professional",
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+    const events = parseEvents(await response.text());
+    const deltas = events.filter((e) => e.event === "delta");
+    const done = events.find((e) => e.event === "done");
+
+    expect(deltas.length).toBeGreaterThan(0);
+    expect(done?.data).toMatchObject({
+      id: question.id,
+      responseStatus: "needs_context",
+      citations: [],
+      canRetry: false,
+    });
+    expect(done?.data.response).toBe(deltas.map((e) => e.data.text).join("").trim());
+    expect(done?.data.assumptions.length).toBeGreaterThan(0);
+
+    const stored = await storage.getGrantQuestion(question.id);
+    expect(stored?.responseStatus).toBe("needs_context");
+    const versions = await storage.getResponseVersions(question.id);
+    expect(versions).toHaveLength(1);
+    const usage = await billingService.getUsageSummary(userId);
+    expect(usage.usage.eventsCount).toBe(1);
+    expect(usage.usage.aiTokens).toBeGreaterThan(0);
+  });
+
+  it("returns a JSON 402 before streaming when the token budget is exhausted", async () => {
+    const userId = "stream-route-limit";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, {
+      title: "Stream Limit",
+      funder: "Stream Funder",
+    });
+    const question = await storage.createGrantQuestion(project.id, {
+      question: "Describe the project need.",
+      wordLimit: 500,
+    });
+    await billingService.recordUsage({
+      organizationId: userId,
+      userId,
+      projectId: project.id,
+      type: "generation",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      tokensIn: 99_000,
+      tokensOut: 0,
+      costCents: 0,
+    });
+
+    const response = await postJson(`/api/questions/${question.id}/generate/stream`, userId, {});
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ limitType: "ai_tokens" });
+    const stored = await storage.getGrantQuestion(question.id);
+    expect(stored?.responseStatus).toBe("pending");
+  });
+
+  it("bills the text already streamed when the client disconnects", async () => {
+    const userId = "stream-route-disconnect";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Stream Disconnect", funder: "Stream Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe the project need." });
+    const partial = "We served 1,240 families across three counties in 2025, ";
+    const stream = vi.spyOn(aiService, "streamGroundedResponse").mockImplementation(async (options, onDelta) => {
+      onDelta(partial);
+      return new Promise((_, reject) => {
+        options.signal?.addEventListener("abort", () => reject(options.signal?.reason));
+      });
+    });
+
+    try {
+      const client = new AbortController();
+      const response = await fetch(`${baseUrl}/api/questions/${question.id}/generate/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-test-user": userId },
+        body: JSON.stringify({}),
+        signal: client.signal,
+      });
+      const reader = response.body!.getReader();
+      let received = "";
+      while (!received.includes("event: delta")) {
+        const { value } = await reader.read();
+        received += new TextDecoder().decode(value);
+      }
+      client.abort();
+
+      await vi.waitFor(async () => {
+        const events = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+        expect(events).toEqual([
+          expect.objectContaining({
+            type: "generation",
+            tokensOut: Math.ceil(partial.length / 4),
+            metadata: { questionId: question.id, responseStatus: "disconnected" },
+          }),
+        ]);
+      });
+      await vi.waitFor(async () => {
+        expect((await storage.getGrantQuestion(question.id))?.responseStatus).toBe("pending");
+      });
+    } finally {
+      stream.mockRestore();
+    }
+  });
+
+  it("bills the text already streamed when the stream fails", async () => {
+    const userId = "stream-route-failure";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Stream Failure", funder: "Stream Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe the project need." });
+    const partial = "We served 1,240 families ";
+    const stream = vi.spyOn(aiService, "streamGroundedResponse").mockImplementation(async (_options, onDelta) => {
+      onDelta(partial);
+      throw new Error("socket hang up");
+    });
+
+    try {
+      const response = await postJson(`/api/questions/${question.id}/generate/stream`, userId, {});
+      const events = parseEvents(await response.text());
+      const failure = events.find((e) => e.event === "error");
+      expect(failure?.data).toMatchObject({ canRetry: true });
+
+      const usage = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+      expect(usage).toEqual([
+        expect.objectContaining({
+          type: "generation",
+          tokensOut: Math.ceil(partial.length / 4),
+          metadata: { questionId: question.id, responseStatus: failure?.data.responseStatus },
+        }),
+      ]);
+    } finally {
+      stream.mockRestore();
+    }
+  });
+
+  it("hides questions in workspaces the user cannot access", async () => {
+    const project = await storage.createProject("stream-owner", {
+      title: "Private",
+      funder: "Funder",
+    });
+    const question = await storage.createGrantQuestion(project.id, { question: "Private question?" });
+
+    const response = await postJson(`/api/questions/${question.id}/generate/stream`, "stream-intruder", {});
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("answer limits", () => {
+  it("stores the limit type and enforces character limits on edits", async () => {
+    const userId = "limit-route-user";
+    const project = await storage.createProject(userId, { title: "Limits", funder: "Funder" });
+
+    const invalid = await postJson(`/api/projects/${project.id}/questions`, userId, {
+      question: "Describe your reach.",
+      wordLimit: 40,
+      limitType: "pages",
+    });
+    expect(invalid.status).toBe(400);
+
+    const created = await postJson(`/api/projects/${project.id}/questions`, userId, {
+      question: "Describe your reach.",
+      wordLimit: 40,
+      limitType: "characters_no_spaces",
+    });
+    const question = await created.json();
+    expect(question).toMatchObject({ wordLimit: 40, limitType: "characters_no_spaces" });
+
+    const put = (content: string) =>
+      fetch(`${baseUrl}/api/questions/${question.id}/response`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "x-test-user": userId },
+        body: JSON.stringify({ content }),
+      });
+
+    // Eight words, but 46 characters once spaces are left out.
+    const tooLong = await put("We served 1,240 families across three rural counties.");
+    expect(tooLong.status).toBe(400);
+    expect(await tooLong.json()).toMatchObject({
+      error: "Content exceeds character limit",
+      length: 46,
+      limitType: "characters_no_spaces",
+      limit: 40,
+    });
+
+    const fits = await put("We served 1,240 families in three counties.");
+    expect(fits.status).toBe(200);
+  });
+});
+
+describe("bulk question create", () => {
+  it("creates reviewed RFP questions with their limits, or none when an item is invalid", async () => {
+    const userId = "bulk-question-user";
+    const project = await storage.createProject(userId, { title: "Bulk", funder: "Funder" });
+
+    const invalid = await postJson(`/api/projects/${project.id}/questions/bulk`, userId, {
+      questions: [
+        { question: "Describe your program.", wordLimit: 500, limitType: "words", required: true },
+        { question: "Attach your budget.", wordLimit: 10, limitType: "pages" },
+      ],
+    });
+    expect(invalid.status).toBe(400);
+    expect(await storage.getGrantQuestions(project.id)).toHaveLength(0);
+
+    const res = await postJson(`/api/projects/${project.id}/questions/bulk`, userId, {
+      questions: [
+        { question: "Describe your program.", wordLimit: 500, limitType: "words", required: true },
+        { question: "Share anything else.", wordLimit: 2000, limitType: "characters", required: false },
+      ],
+    });
+    expect(res.status).toBe(200);
+    const { created } = await res.json();
+    expect(created).toEqual([
+      expect.objectContaining({ question: "Describe your program.", wordLimit: 500, limitType: "words", priority: "medium" }),
+      expect.objectContaining({ question: "Share anything else.", wordLimit: 2000, limitType: "characters", priority: "low" }),
+    ]);
+
+    const forbidden = await postJson(`/api/projects/${project.id}/questions/bulk`, "someone-else", {
+      questions: [{ question: "Describe your program." }],
+    });
+    expect(forbidden.status).toBe(403);
+  });
+});
+
+describe("answering assumptions", () => {
+  it("stores the answer as a fact and applies it to the draft as a cited source", async () => {
+    const userId = "assumption-answer-user";
+    await billingService.ensureSubscription(userId);
+    await storage.createUserSettings(userId, { aiModel: "local-deterministic", fallbackModel: "local-deterministic" });
+    const project = await storage.createProject(userId, { title: "Gaps", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "How many families do you serve?" });
+    await storage.updateGrantQuestion(question.id, {
+      response: "We serve many families each year.",
+      responseStatus: "complete",
+    });
+    const label = await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: question.id,
+      text: "Number of families served each year",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "How many families do you serve each year?",
+      position: { start: 0, end: 0 },
+    });
+    const patch = (body: unknown) =>
+      fetch(`${baseUrl}/api/assumptions/${label.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "x-test-user": userId },
+        body: JSON.stringify(body),
+      });
+
+    expect((await postJson(`/api/assumptions/${label.id}/apply`, userId, {})).status).toBe(409);
+    expect((await patch({ answer: "   " })).status).toBe(400);
+
+    const answered = await patch({ answer: "We serve 1,240 families a year." });
+    expect(answered.status).toBe(200);
+    const stored = await answered.json();
+    expect(stored).toMatchObject({ resolved: true, answer: "We serve 1,240 families a year." });
+    expect(await storage.getOrganizationFact(stored.factId)).toMatchObject({
+      label: label.text,
+      value: "We serve 1,240 families a year.",
+      source: "assumption",
+    });
+
+    const applied = await postJson(`/api/assumptions/${label.id}/apply`, userId, {});
+    expect(applied.status).toBe(200);
+    const body = await applied.json();
+    expect(body.mode).toBe("answer");
+    expect(body.citations).toEqual(
+      expect.arrayContaining([expect.objectContaining({ documentName: "Organization facts" })]),
+    );
+    // The closed gap survives the regeneration.
+    expect(body.assumptions).toEqual([expect.objectContaining({ id: label.id, resolved: true, factId: stored.factId })]);
+
+    const metrics = await fetch(`${baseUrl}/api/projects/${project.id}/metrics`, {
+      headers: { "x-test-user": userId },
+    });
+    expect((await metrics.json()).application).toMatchObject({ unresolvedAssumptions: 0, closedAssumptions: 1 });
+  });
+
+  it("leaves the draft, its gaps and usage alone when the model fails", async () => {
+    const userId = "assumption-apply-failure-user";
+    await billingService.ensureSubscription(userId);
+    await storage.createUserSettings(userId, { aiModel: "local-deterministic", fallbackModel: "local-deterministic" });
+    const project = await storage.createProject(userId, { title: "Gaps", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "How many families do you serve?" });
+    await storage.updateGrantQuestion(question.id, {
+      response: "We serve many families each year.",
+      responseStatus: "complete",
+    });
+    const label = await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: question.id,
+      text: "Number of families served each year",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "How many families do you serve each year?",
+      position: { start: 0, end: 0 },
+    });
+    const openGap = await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: question.id,
+      text: "Year the program started",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "When did the program start?",
+      position: { start: 0, end: 0 },
+    });
+    const answered = await fetch(`${baseUrl}/api/assumptions/${label.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", "x-test-user": userId },
+      body: JSON.stringify({ answer: "We serve 1,240 families a year." }),
+    });
+    expect(answered.status).toBe(200);
+
+    const generate = vi.spyOn(LocalProvider.prototype, "generate").mockRejectedValue(new Error("model unavailable"));
+    try {
+      const applied = await postJson(`/api/assumptions/${label.id}/apply`, userId, {});
+      expect(applied.status).toBe(502);
+    } finally {
+      generate.mockRestore();
+    }
+
+    expect(await storage.getGrantQuestion(question.id)).toMatchObject({
+      response: "We serve many families each year.",
+      responseStatus: "complete",
+    });
+    expect((await storage.getAssumptionLabels(project.id, question.id)).map((gap) => gap.id).sort()).toEqual(
+      [label.id, openGap.id].sort(),
+    );
+    const events = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+    expect(events.filter((event) => event.type === "generation")).toEqual([]);
+  });
+});
@@ -0,0 +1,244 @@
+// @vitest-environment node
+
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes.js";
+import { storage } from "./storage.js";
+import { billingService } from "./services/billing.js";
+import { generateAnswerForQuestion } from "./services/generation.js";
+import { waitForGenerationBatch } from "./services/generationBatch.js";
+
+// Keep drafting on the no-provider path regardless of the host's keys.
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+vi.mock("./middleware/supabaseAuth.js", () => ({
+  requireSupabaseUser: (req: any, _res: any, next: any) => {
+    req.supabaseUser = {
+      id: req.headers["x-test-user"] || "batch-route-user",
+      email: `${req.headers["x-test-user"] || "batch-route-user"}@example.com`,
+    };
+    next();
+  },
+  supabaseAdminClient: {
+    storage: {
+      from: () => ({
+        upload: async () => ({ error: null }),
+        remove: async () => ({ error: null }),
+        createSignedUrl: async () => ({ data: { signedUrl: "https://example.com/doc" } }),
+      }),
+    },
+  },
+}));
+
+vi.mock("openai", () => ({
+  default: class MockOpenAI {
+    chat = {
+      completions: {
+        create: vi.fn(),
+      },
+    };
+    embeddings = {
+      create: vi.fn(),
+    };
+  },
+}));
+
+vi.mock("./services/generation.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./services/generation.js")>();
+  return { ...actual, generateAnswerForQuestion: vi.fn(actual.generateAnswerForQuestion) };
+});
+
+let server: ReturnType<typeof import("http").createServer>;
+let baseUrl = "";
+
+async function request(path: string, userId: string, init: RequestInit = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      "x-test-user": userId,
+    },
+  });
+}
+
+async function postJson(path: string, userId: string, body: unknown) {
+  return request(path, userId, { method: "POST", body: JSON.stringify(body) });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => {
+    server.listen(0, () => {
+      const address = server.address();
+      if (address && typeof address === "object") {
+        baseUrl = `http://127.0.0.1:${address.port}`;
+      }
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+  });
+});
+
+describe("generation batch routes", () => {
+  it("drafts only pending, failed and timeout questions and reports per-question progress", async () => {
+    const userId = "batch-route-drafts";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Batch Project", funder: "Batch Funder" });
+    const pending = await storage.createGrantQuestion(project.id, { question: "Describe the need." });
+    const failed = await storage.createGrantQuestion(project.id, { question: "Describe the budget." });
+    const timedOut = await storage.createGrantQuestion(project.id, { question: "Describe the team." });
+    const complete = await storage.createGrantQuestion(project.id, { question: "Describe outcomes." });
+    await storage.updateGrantQuestion(failed.id, { responseStatus: "failed" });
+    await storage.updateGrantQuestion(timedOut.id, { responseStatus: "timeout" });
+    await storage.updateGrantQuestion(complete.id, { responseStatus: "complete", response: "Kept as is." });
+
+    const started = await postJson(`/api/projects/${project.id}/generation-batches`, userId, { concurrency: 2 });
+    expect(started.status).toBe(202);
+    const { batch } = await started.json();
+    expect(batch.items.map((item: any) => item.questionId)).toEqual([pending.id, failed.id, timedOut.id]);
+    expect(batch.concurrency).toBe(2);
+
+    await waitForGenerationBatch(batch.id);
+    const progress = await (await request(`/api/projects/${project.id}/generation-batches/${batch.id}`, userId)).json();
+    expect(progress.batch.status).toBe("completed");
+    expect(progress.batch.counts).toMatchObject({ queued: 0, running: 0, done: 3, failed: 0 });
+    expect(progress.batch.items.every((item: any) => item.responseStatus === "needs_context")).toBe(true);
+
+    expect((await storage.getGrantQuestion(complete.id))?.response).toBe("Kept as is.");
+    const latest = await (await request(`/api/projects/${project.id}/generation-batches/latest`, userId)).json();
+    expect(latest.batch.id).toBe(batch.id);
+    expect((await request(`/api/projects/${project.id}/generation-batches/latest`, "batch-route-intruder")).status).toBe(403);
+  });
+
+  it("checks the token budget for the whole batch before queueing anything", async () => {
+    const userId = "batch-route-limit";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Batch Limit", funder: "Batch Funder" });
+    for (const question of ["One?", "Two?", "Three?", "Four?"]) {
+      await storage.createGrantQuestion(project.id, { question, wordLimit: 500 });
+    }
+    await billingService.recordUsage({
+      organizationId: userId,
+      userId,
+      projectId: project.id,
+      type: "generation",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      tokensIn: 80_000,
+      tokensOut: 0,
+      costCents: 0,
+    });
+
+    const response = await postJson(`/api/projects/${project.id}/generation-batches`, userId, {});
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ limitType: "ai_tokens" });
+    expect(await storage.getLatestGenerationBatch(project.id)).toBeUndefined();
+  });
+
+  it("starts one batch when two requests race for the same project", async () => {
+    const userId = "batch-route-race";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Batch Race", funder: "Batch Funder" });
+    await storage.createGrantQuestion(project.id, { question: "Only question?" });
+
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const actual = await vi.importActual<typeof import("./services/generation.js")>("./services/generation.js");
+    vi.mocked(generateAnswerForQuestion).mockImplementationOnce(async (params) => {
+      await gate;
+      return actual.generateAnswerForQuestion(params);
+    });
+
+    const responses = await Promise.all([
+      postJson(`/api/projects/${project.id}/generation-batches`, userId, {}),
+      postJson(`/api/projects/${project.id}/generation-batches`, userId, {}),
+    ]);
+    expect(responses.map((response) => response.status).sort()).toEqual([202, 409]);
+    const [started, conflict] = await Promise.all(
+      [...responses].sort((a, b) => a.status - b.status).map((response) => response.json()),
+    );
+    expect(conflict.batch.id).toBe(started.batch.id);
+    // Storage refuses a second running batch even past the route's check.
+    const batch = { projectId: project.id, organizationId: project.organizationId, userId, concurrency: 1 };
+    expect(await storage.createGenerationBatch(batch, [])).toBeUndefined();
+
+    release();
+    await waitForGenerationBatch(started.batch.id);
+    expect(await storage.createGenerationBatch(batch, [])).toBeDefined();
+  });
+
+  it("fails a question that throws and still finishes the batch", async () => {
+    const userId = "batch-route-throw";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Batch Throw", funder: "Batch Funder" });
+    const broken = await storage.createGrantQuestion(project.id, { question: "Broken question?" });
+    const fine = await storage.createGrantQuestion(project.id, { question: "Fine question?" });
+
+    vi.mocked(generateAnswerForQuestion).mockImplementationOnce(async ({ question }) => {
+      await storage.updateGrantQuestion(question.id, { responseStatus: "generating" });
+      throw new Error("connection reset");
+    });
+
+    const started = await postJson(`/api/projects/${project.id}/generation-batches`, userId, { concurrency: 1 });
+    const { batch } = await started.json();
+    await waitForGenerationBatch(batch.id);
+
+    const progress = await (await request(`/api/projects/${project.id}/generation-batches/${batch.id}`, userId)).json();
+    expect(progress.batch.status).toBe("completed");
+    expect(progress.batch.counts).toMatchObject({ running: 0, done: 1, failed: 1 });
+    expect(progress.batch.items.find((item: any) => item.questionId === broken.id)).toMatchObject({
+      status: "failed",
+      error: "connection reset",
+    });
+    expect((await storage.getGrantQuestion(broken.id))?.responseStatus).toBe("failed");
+    expect((await storage.getGrantQuestion(fine.id))?.responseStatus).toBe("needs_context");
+
+    const again = await postJson(`/api/projects/${project.id}/generation-batches`, userId, {});
+    expect(again.status).toBe(202);
+    await waitForGenerationBatch((await again.json()).batch.id);
+  });
+
+  it("cancels queued questions and keeps answers that already finished", async () => {
+    const userId = "batch-route-cancel";
+    await billingService.ensureSubscription(userId);
+    const project = await storage.createProject(userId, { title: "Batch Cancel", funder: "Batch Funder" });
+    const first = await storage.createGrantQuestion(project.id, { question: "First question?" });
+    await storage.createGrantQuestion(project.id, { question: "Second question?" });
+    await storage.createGrantQuestion(project.id, { question: "Third question?" });
+
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const actual = await vi.importActual<typeof import("./services/generation.js")>("./services/generation.js");
+    vi.mocked(generateAnswerForQuestion).mockImplementationOnce(async (params) => {
+      await gate;
+      return actual.generateAnswerForQuestion(params);
+    });
+
+    const started = await postJson(`/api/projects/${project.id}/generation-batches`, userId, { concurrency: 1 });
+    const { batch } = await started.json();
+
+    const conflict = await postJson(`/api/projects/${project.id}/generation-batches`, userId, {});
+    expect(conflict.status).toBe(409);
+
+    const cancelled = await postJson(`/api/projects/${project.id}/generation-batches/${batch.id}/cancel`, userId, {});
+    expect((await cancelled.json()).batch.counts).toMatchObject({ running: 1, cancelled: 2 });
+
+    release();
+    await waitForGenerationBatch(batch.id);
+    const progress = await (await request(`/api/projects/${project.id}/generation-batches/${batch.id}`, userId)).json();
+    expect(progress.batch.status).toBe("cancelled");
+    expect(progress.batch.counts).toMatchObject({ done: 1, cancelled: 2 });
+    expect((await storage.getGrantQuestion(first.id))?.response).toBeTruthy();
+  });
+});
@@ -3,7 +3,72 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
 import { aiService } from "./services/ai.js";
 import { fileProcessor } from "./services/fileProcessor.js";
-import { retrieveRelevantChunks } from "./services/retrieval.js";
+import {
+  classifyGenerationFailure,
+  estimateGenerationTokens,
+  persistGroundedGeneration,
+  prepareGroundedGeneration,
+  recordStreamedUsage,
+  requestedExemplarIds,
+  resolveGenerationSettings,
+} from "./services/generation.js";
+import { configuredProviderNames, getCompatibleProvider, type ModelPreference } from "./services/llm.js";
+import { embeddingFit } from "./services/embedding.js";
+import { CHAT_MODELS } from "../shared/ai-models.js";
+import { countWords, measureAnswer, normalizeLimitType } from "../shared/answer-limits.js";
+import { normalizeTopics } from "../shared/answer-library.js";
+import { citationPages, type CitationPages } from "../shared/citation-source.js";
+import {
+  getOrganizationFactType,
+  isOrganizationFactsDocument,
+  ORGANIZATION_FACT_TYPES,
+  parseFactSuggestionField,
+} from "../shared/organization-facts.js";
+import {
+  clampBatchConcurrency,
+  closeStaleBatch,
+  estimateBatchTokens,
+  getGenerationBatchProgress,
+  isBatchActive,
+  selectUnansweredQuestions,
+  startGenerationBatch,
+} from "./services/generationBatch.js";
+import { previewGeneration } from "./services/generationPreview.js";
+import { ANSWERED_STATUSES, ensureClaimVerifications, getProjectEvidenceMap } from "./services/claimVerification.js";
+import { checkProjectConsistency } from "./services/consistencyCheck.js";
+import {
+  insertLibraryAnswer,
+  matchLibraryAnswers,
+  saveAnswerToLibrary,
+  toLibraryAnswer,
+} from "./services/answerLibrary.js";
+import { adaptSimilarAnswer, findSimilarAnswers, prepareSimilarQuestions } from "./services/similarQuestions.js";
+import {
+  estimateReviewTokens,
+  getReviewHistory,
+  resolveReviewRubric,
+  reviewApplication,
+  reviewQuestion,
+  type ReviewRubric,
+} from "./services/draftReview.js";
+import { regeneratePassage } from "./services/passageRegeneration.js";
+import { rerunGeneration } from "./services/generationAudit.js";
+import { fitAnswerToLimit, resolveFitTarget } from "./services/lengthFit.js";
+import {
+  answerClarification,
+  refreshProjectClarifications,
+  requestClarificationFollowUp,
+  skipClarification,
+  toClarificationView,
+} from "./services/clarifications.js";
+import { answerAssumptionLabel, applyAssumptionAnswer } from "./services/assumptionAnswers.js";
+import {
+  saveFactSheetEntry,
+  updateOrganizationFact,
+  type OrganizationFactChanges,
+} from "./services/organizationFacts.js";
+import { extractProfileHeuristically, isProfileField, PROFILE_SOURCE_CHARS } from "./services/profileExtraction.js";
+import { FUNDER_MAX_TOKENS, FUNDER_MODEL_CHARS, mergeFunderProfile } from "./services/funderProfiles.js";
 import { processDocumentJobs } from "./workers/documentProcessor.js";
 import {
   billingService,
@@ -24,11 +89,18 @@ import crypto from "crypto";
 // Test: Use relative import instead of path alias to see if that's the issue
 import {
   insertOrganizationSchema,
+  insertOrganizationAiEndpointSchema,
   insertProjectSchema,
   insertGrantQuestionSchema,
   insertUserSettingsSchema,
   type Document,
+  type Funder,
+  type GenerationBatch,
+  type OrganizationAiEndpoint,
+  type OrganizationFact,
+  type Project,
 } from "../shared/schema.js";
+import type { EvaluationCriterion, FunderContact } from "../shared/funders.js";
 import { requireSupabaseUser, supabaseAdminClient, type AuthenticatedRequest } from "./middleware/supabaseAuth.js";
 import { uploadRateLimiter, workerRateLimiter } from "./middleware/rateLimiter.js";
 import { mergeDevDetails, mergeDevErrorDetails } from "./httpExtras.js";
@@ -99,6 +171,9 @@ function sendLimitDenial(res: any, denial: LimitDenial) {
 
 const WORKER_BATCH_MAX = Number(process.env.DOCUMENT_WORKER_BATCH_MAX || "50");
 
+/** Largest reviewed RFP extraction accepted by the bulk question create. */
+const MAX_BULK_QUESTIONS = 200;
+
 /** Caps attacker-controlled `?batchSize=` on worker/cron endpoints (default cap 50). */
 function clampWorkerBatchSize(raw: unknown): number {
   const fallback = Number(process.env.DOCUMENT_WORKER_BATCH_SIZE || "5");
@@ -108,67 +183,27 @@ function clampWorkerBatchSize(raw: unknown): number {
   return Math.min(Math.max(requested, 1), max);
 }
 
-async function getDefaultOrganizationId(userId: string): Promise<string> {
-  const organization = await storage.ensureDefaultOrganizationForUser(userId);
-  return organization.id;
-}
-
-function clampInt(n: number, min: number, max: number): number {
-  return Math.min(Math.max(Math.round(n), min), max);
-}
-
-function computeMaxOutputTokens(wordLimit?: number | null, lengthPreference?: string | null): number {
-  if (wordLimit) {
-    return Math.min(Math.max(wordLimit, 1) * 3, 2500);
-  }
-  switch (lengthPreference) {
-    case "concise":
-      return 900;
-    case "comprehensive":
-      return 2400;
-    default:
-      return 1500;
-  }
-}
-
-function retrievalLimitsFromContextUsage(contextUsage: number | undefined | null): {
-  limit: number;
-  semanticLimit: number;
-  keywordLimit: number;
-} {
-  const ctx = typeof contextUsage === "number" && Number.isFinite(contextUsage) ? contextUsage : 80;
-  const t = Math.min(Math.max(ctx, 0), 100) / 100;
-  const scale = 0.55 + t * 0.65;
-  const limit = clampInt(8 * scale, 4, 14);
-  const semanticLimit = limit;
-  const keywordLimit = clampInt(4 * scale, 2, 8);
-  return { limit, semanticLimit, keywordLimit };
+/**
+ * The user's saved aiModel/fallbackModel, applied to every AI call made on
+ * their behalf, plus the organization's self-hosted endpoint when it has one.
+ */
+async function getModelPreference(userId: string, organizationId: string): Promise<ModelPreference> {
+  const [settings, endpoint] = await Promise.all([
+    storage.getUserSettings(userId).catch(() => undefined),
+    storage.getOrganizationAiEndpoint(organizationId),
+  ]);
+  return { model: settings?.aiModel, fallbackModel: settings?.fallbackModel, endpoint };
 }
 
-function estimateContextCharsForBilling(contextUsage: number | undefined | null): number {
-  const { limit } = retrievalLimitsFromContextUsage(contextUsage);
-  return Math.round(2500 * limit);
+/** Endpoint config as returned to clients: the API key is write-only. */
+function serializeAiEndpoint(endpoint: OrganizationAiEndpoint) {
+  const { apiKey, ...rest } = endpoint;
+  return { ...rest, hasApiKey: !!apiKey };
 }
 
-function estimateGenerationTokens(input: {
-  question: string;
-  tone: string;
-  wordLimit?: number | null;
-  emphasisAreas?: string[];
-  contextUsage?: number | null;
-  lengthPreference?: string | null;
-}) {
-  const maxTokens = computeMaxOutputTokens(input.wordLimit, input.lengthPreference);
-  const contextChars = estimateContextCharsForBilling(input.contextUsage);
-  const estimatedPrompt = [
-    input.question,
-    input.tone,
-    input.wordLimit ? String(input.wordLimit) : "",
-    input.emphasisAreas?.join(", ") ?? "",
-    input.lengthPreference ?? "",
-    "x".repeat(contextChars),
-  ].join("\n");
-  return estimateTokensFromText(estimatedPrompt) + maxTokens;
+async function getDefaultOrganizationId(userId: string): Promise<string> {
+  const organization = await storage.ensureDefaultOrganizationForUser(userId);
+  return organization.id;
 }
 
 /**
@@ -194,7 +229,7 @@ async function enrichCitationsFromDraftRows(
         documentName = doc?.originalName || doc?.filename || "";
       }
       const refs = Array.isArray(c.chunkRefs) ? c.chunkRefs : [];
-      const first = refs[0] as { chunkIndex?: number; quote?: string } | undefined;
+      const first = refs[0] as ({ chunkIndex?: number; quote?: string } & CitationPages) | undefined;
       const chunkIndex = typeof first?.chunkIndex === "number" ? first.chunkIndex : 0;
       const quote = typeof first?.quote === "string" ? first.quote : "";
       return {
@@ -204,6 +239,7 @@ async function enrichCitationsFromDraftRows(
         documentName: documentName || sourceId || "Uploaded document",
         chunkIndex,
         quote,
+        ...citationPages(first),
       };
     })
   );
@@ -223,6 +259,7 @@ const PROJECT_UPDATABLE_FIELDS = new Set([
   "amountAwarded",
   "awardedAt",
   "reportingDueAt",
+  "funderId",
 ]);
 
 const PROJECT_DATE_FIELDS = new Set([
@@ -267,9 +304,15 @@ function sanitizeProjectUpdate(body: Record<string, unknown>): Record<string, un
 // and tampering with `plan` would let any member self-upgrade their tier.
 const ORG_UPDATABLE_FIELDS = new Set([
   "name",
+  "legalName",
+  "dba",
   "organizationType",
   "ein",
+  "uei",
+  "duns",
   "foundedYear",
+  "fiscalYearEnd",
+  "address",
   "primaryContact",
   "contactEmail",
   "mission",
@@ -286,39 +329,10 @@ function sanitizeOrganizationUpdate(body: Record<string, unknown>): Record<strin
   return updates;
 }
 
-const PROFILE_SUGGESTION_FIELDS = new Set([
-  "name",
-  "organizationType",
-  "ein",
-  "foundedYear",
-  "primaryContact",
-  "contactEmail",
-  "mission",
-  "focusAreas",
-]);
-
 function normalizeWhitespace(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
-function firstRegexMatch(text: string, patterns: RegExp[]): string | null {
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match?.[1]) return normalizeWhitespace(match[1]);
-  }
-  return null;
-}
-
-function firstSentenceContaining(text: string, terms: string[]): string | null {
-  const sentences = text
-    .split(/(?<=[.!?])\s+/)
-    .map(normalizeWhitespace)
-    .filter(Boolean);
-  return sentences.find((sentence) =>
-    terms.some((term) => sentence.toLowerCase().includes(term))
-  ) ?? null;
-}
-
 function organizationHasExactFieldValue(organization: any, field: string, suggestedValue: string): boolean {
   const current = organization?.[field];
   const normalizedSuggestion = normalizeWhitespace(suggestedValue).toLowerCase();
@@ -335,79 +349,244 @@ function organizationHasExactFieldValue(organization: any, field: string, sugges
   return false;
 }
 
-function buildOrganizationProfileSuggestions(params: {
+/** Suggestions kept per document. */
+const MAX_PROFILE_SUGGESTIONS = 20;
+
+/**
+ * Suggestions from one uploaded document, skipping values the organization
+ * already has. Organization-info documents are read for the whole profile (by
+ * the model when one is configured, billed to the uploader); other uploads
+ * only for fact sheet figures.
+ */
+async function buildOrganizationProfileSuggestions(params: {
   organization: any;
-  documentId: string;
+  facts: OrganizationFact[];
+  document: Document;
   rawText: string;
-  summary: string;
+  preference: ModelPreference;
 }) {
-  const source = normalizeWhitespace(`${params.rawText}\n\n${params.summary}`).slice(0, 50_000);
-  const suggestions: Array<{
-    field: string;
-    suggestedValue: string;
-    confidence?: number | null;
-    sourceQuote?: string | null;
-  }> = [];
-  const addSuggestion = (field: string, value: string | number | string[] | null, sourceQuote?: string | null, confidence = 70) => {
-    if (!value || !PROFILE_SUGGESTION_FIELDS.has(field)) return;
-    const suggestedValue = Array.isArray(value) ? value.join(", ") : String(value);
-    if (!suggestedValue.trim()) return;
-    if (organizationHasExactFieldValue(params.organization, field, suggestedValue)) return;
-    suggestions.push({
-      field,
-      suggestedValue: suggestedValue.trim(),
-      confidence,
-      sourceQuote: sourceQuote ? sourceQuote.slice(0, 500) : null,
-    });
-  };
-
-  const ein = firstRegexMatch(source, [
-    /\bEIN(?:\s|\u00a0|:|-)*(?:number|#)?(?:\s|\u00a0|:|-)*(\d{2}-\d{7})\b/i,
-    /\bFederal Tax ID(?:\s|\u00a0|:|-)*(\d{2}-\d{7})\b/i,
-  ]);
-  addSuggestion("ein", ein, ein ? firstSentenceContaining(source, [ein]) : null, 90);
-
-  const year = firstRegexMatch(source, [
-    /\b(?:founded|established|incorporated)(?:\s|\u00a0|in|:|-)*(19\d{2}|20\d{2})\b/i,
-  ]);
-  addSuggestion("foundedYear", year ? Number(year) : null, year ? firstSentenceContaining(source, [year, "founded", "established"]) : null, 75);
+  const { document } = params;
+  const source = params.rawText.trim().slice(0, PROFILE_SOURCE_CHARS);
+  const proposals =
+    document.category === "organization-info"
+      ? await aiService.extractOrganizationProfile(source, params.preference, async (usage) => {
+          try {
+            await billingService.recordUsage({
+              organizationId: document.organizationId,
+              userId: document.userId,
+              projectId: document.projectId ?? null,
+              type: "profile_extraction",
+              provider: usage.provider,
+              model: usage.model,
+              tokensIn: usage.tokensIn,
+              tokensOut: usage.tokensOut,
+              costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
+              metadata: { documentId: document.id },
+            });
+          } catch (usageError) {
+            console.warn(`[upload] Failed to record profile extraction usage for ${document.id}:`, usageError);
+          }
+        })
+      : extractProfileHeuristically(source).filter((proposal) => parseFactSuggestionField(proposal.field));
+
+  return proposals
+    .filter((proposal) => {
+      const fact = parseFactSuggestionField(proposal.field);
+      if (!fact) return !organizationHasExactFieldValue(params.organization, proposal.field, proposal.value);
+      return !params.facts.some(
+        (existing) =>
+          existing.factKey === fact.key &&
+          (existing.period ?? null) === fact.period &&
+          normalizeWhitespace(existing.value).toLowerCase() === normalizeWhitespace(proposal.value).toLowerCase(),
+      );
+    })
+    .slice(0, MAX_PROFILE_SUGGESTIONS)
+    .map((proposal) => ({
+      field: proposal.field,
+      suggestedValue: proposal.value,
+      confidence: proposal.confidence,
+      sourceQuote: proposal.sourceQuote,
+    }));
+}
 
-  const email = firstRegexMatch(source, [
-    /\b([A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,})\b/i,
-  ]);
-  addSuggestion("contactEmail", email, email ? firstSentenceContaining(source, [email]) : null, 80);
+/**
+ * Validate the editable fields of a fact request body. Absent fields are left
+ * undefined; a source document must belong to the organization.
+ */
+async function parseOrganizationFactChanges(
+  body: any,
+  organizationId: string,
+): Promise<{ ok: true; changes: OrganizationFactChanges } | { ok: false; status: number; error: string }> {
+  const changes: OrganizationFactChanges = {};
+  if (body?.value !== undefined) {
+    if (typeof body.value !== "string" || !body.value.trim()) {
+      return { ok: false, status: 400, error: "value must be a non-empty string" };
+    }
+    changes.value = body.value.trim();
+  }
+  if (body?.period !== undefined) {
+    if (body.period !== null && typeof body.period !== "string") {
+      return { ok: false, status: 400, error: "period must be a string or null" };
+    }
+    changes.period = body.period?.trim() || null;
+  }
+  if (body?.asOf !== undefined) {
+    const asOf = body.asOf === null || body.asOf === "" ? null : new Date(body.asOf);
+    if (asOf && Number.isNaN(asOf.getTime())) {
+      return { ok: false, status: 400, error: "asOf must be a date" };
+    }
+    changes.asOf = asOf;
+  }
+  if (body?.sourceDocumentId !== undefined) {
+    if (body.sourceDocumentId) {
+      const document = await storage.getDocument(String(body.sourceDocumentId));
+      if (!document || document.organizationId !== organizationId || isOrganizationFactsDocument(document)) {
+        return { ok: false, status: 400, error: "sourceDocumentId must be a document of this organization" };
+      }
+    }
+    changes.sourceDocumentId = body.sourceDocumentId || null;
+  }
+  return { ok: true, changes };
+}
 
-  const mission = firstRegexMatch(source, [
-    /\bmission(?:\s|\u00a0|statement)?(?:\s|\u00a0|:|-)+(.{40,500}?)(?:\n|\. [A-Z]|$)/i,
-  ]);
-  addSuggestion("mission", mission, mission, 70);
+/** `[{ text, weight }]` with blank criteria dropped; null when malformed. */
+function parseEvaluationCriteria(value: unknown): EvaluationCriterion[] | null {
+  if (!Array.isArray(value) || value.some((item: any) => typeof item?.text !== "string")) return null;
+  return value
+    .map((item: any): EvaluationCriterion => ({
+      text: item.text.trim(),
+      weight: typeof item.weight === "string" && item.weight.trim() ? item.weight.trim() : null,
+    }))
+    .filter((item) => item.text);
+}
 
-  const type = firstRegexMatch(source, [
-    /\b(501\(c\)\(3\)\s+nonprofit|501\(c\)3\s+nonprofit|nonprofit organization|educational institution|government agency|research institution)\b/i,
-  ]);
-  addSuggestion("organizationType", type, type ? firstSentenceContaining(source, [type]) : null, 65);
+type FunderFields = Partial<
+  Pick<
+    Funder,
+    "name" | "mission" | "priorities" | "terminology" | "evaluationCriteria" | "awardMin" | "awardMax" | "contacts" | "notes"
+  >
+>;
+
+/** Validate the editable fields of a funder request body. Absent fields are left undefined. */
+function parseFunderFields(body: any): { ok: true; fields: FunderFields } | { ok: false; status: number; error: string } {
+  const fields: FunderFields = {};
+  const invalid = (error: string) => ({ ok: false as const, status: 400, error });
+  const optionalText = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+  if (body?.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) return invalid("name must be a non-empty string");
+    fields.name = body.name.trim();
+  }
+  for (const key of ["mission", "notes"] as const) {
+    if (body?.[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== "string") return invalid(`${key} must be a string or null`);
+    fields[key] = optionalText(body[key]);
+  }
+  for (const key of ["priorities", "terminology"] as const) {
+    if (body?.[key] === undefined) continue;
+    if (!Array.isArray(body[key]) || body[key].some((item: unknown) => typeof item !== "string")) {
+      return invalid(`${key} must be an array of strings`);
+    }
+    fields[key] = body[key].map((item: string) => item.trim()).filter(Boolean);
+  }
+  if (body?.evaluationCriteria !== undefined) {
+    const criteria = parseEvaluationCriteria(body.evaluationCriteria);
+    if (!criteria) return invalid("evaluationCriteria must be an array of { text, weight }");
+    fields.evaluationCriteria = criteria;
+  }
+  for (const key of ["awardMin", "awardMax"] as const) {
+    if (body?.[key] === undefined) continue;
+    if (body[key] !== null && !(Number.isInteger(body[key]) && body[key] >= 0)) {
+      return invalid(`${key} must be a whole number of cents or null`);
+    }
+    fields[key] = body[key];
+  }
+  if (fields.awardMin != null && fields.awardMax != null && fields.awardMin > fields.awardMax) {
+    return invalid("awardMin must not exceed awardMax");
+  }
+  if (body?.contacts !== undefined) {
+    if (!Array.isArray(body.contacts) || body.contacts.some((item: any) => typeof item?.name !== "string")) {
+      return invalid("contacts must be an array of { name, role, email }");
+    }
+    fields.contacts = body.contacts
+      .map((item: any): FunderContact => ({
+        name: item.name.trim(),
+        role: optionalText(item.role),
+        email: optionalText(item.email),
+      }))
+      .filter((item: FunderContact) => item.name);
+  }
+  return { ok: true, fields };
+}
 
-  const focusLine = firstRegexMatch(source, [
-    /\b(?:focus areas|program areas|service areas|priority areas)(?:\s|\u00a0|:|-)+(.{10,180}?)(?:\n|\.|$)/i,
-  ]);
-  if (focusLine) {
-    const focusAreas = focusLine
-      .split(/,|;|\band\b/i)
-      .map(normalizeWhitespace)
-      .filter((area) => area.length >= 3)
-      .slice(0, 8);
-    addSuggestion("focusAreas", focusAreas, focusLine, 60);
+/**
+ * Check a project's `funderId` against the project's organization. The
+ * funder is returned so a new project without a funder name can take its name.
+ */
+async function resolveProjectFunder(
+  funderId: unknown,
+  organizationId: string,
+): Promise<{ ok: true; funder: Funder | null } | { ok: false; status: number; error: string }> {
+  if (funderId === null || funderId === "") return { ok: true, funder: null };
+  const funder = typeof funderId === "string" ? await storage.getFunder(funderId) : undefined;
+  if (!funder || funder.organizationId !== organizationId) {
+    return { ok: false, status: 400, error: "funderId must be a funder of this organization" };
   }
+  return { ok: true, funder };
+}
 
-  return suggestions.slice(0, 8);
+/**
+ * The rubric a review scores against: `body.criteria` when sent, else the
+ * project's funder's evaluation criteria.
+ */
+async function resolveRequestRubric(
+  project: Project,
+  body: any,
+): Promise<{ ok: true; rubric: ReviewRubric } | { ok: false; status: number; error: string }> {
+  let requested: EvaluationCriterion[] | null = null;
+  if (body?.criteria !== undefined) {
+    requested = parseEvaluationCriteria(body.criteria);
+    if (!requested) return { ok: false, status: 400, error: "criteria must be an array of { text, weight }" };
+  }
+  const rubric = await resolveReviewRubric(project, requested);
+  if (!rubric) {
+    return {
+      ok: false,
+      status: 409,
+      error: "No evaluation rubric: link a funder profile with evaluation criteria, or send criteria with the request",
+    };
+  }
+  return { ok: true, rubric };
 }
 
-const ALLOWED_UPLOAD_EXT = new Set([".pdf", ".txt", ".doc", ".docx"]);
+const ALLOWED_UPLOAD_EXT = new Set([
+  ".pdf",
+  ".txt",
+  ".doc",
+  ".docx",
+  ".xlsx",
+  ".csv",
+  ".html",
+  ".htm",
+  ".md",
+  ".markdown",
+  ".rtf",
+  ".odt",
+  ".pptx",
+]);
 const ALLOWED_UPLOAD_MIME = new Set([
   "application/pdf",
   "text/plain",
   "application/msword",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/csv",
+  "text/html",
+  "text/markdown",
+  "application/rtf",
+  "text/rtf",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
 ]);
 
 function uploadFileFilter(_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) {
@@ -417,7 +596,7 @@ function uploadFileFilter(_req: Request, file: Express.Multer.File, cb: multer.F
   if (mimeOk || extOk) return cb(null, true);
   cb(
     new Error(
-      "Unsupported file type. Allowed uploads: PDF, plain text (.txt), Word (.doc, .docx).",
+      "Unsupported file type. Allowed uploads: PDF, plain text (.txt), Word (.doc, .docx), spreadsheets (.xlsx, .csv), web pages (.html), Markdown (.md), RTF, OpenDocument text (.odt) and PowerPoint (.pptx).",
     ),
   );
 }
@@ -443,6 +622,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserId(req);
       const projects = await storage.getProjects(userId);
+      const requestedOrganizationId =
+        typeof req.query.organizationId === "string" ? req.query.organizationId : undefined;
+      const organizationId =
+        requestedOrganizationId && (await storage.userHasOrganizationAccess(userId, requestedOrganizationId))
+          ? requestedOrganizationId
+          : await getDefaultOrganizationId(userId);
+      const endpoint = await storage.getOrganizationAiEndpoint(organizationId);
+      const endpointHealth = endpoint ? await getCompatibleProvider(endpoint).probe() : null;
 
       res.json({
         status: "ok",
@@ -454,6 +641,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         projects: {
           count: projects.length,
         },
+        ai: {
+          organizationId,
+          providers: configuredProviderNames(),
+          endpoint: endpointHealth && {
+            ...endpointHealth,
+            embeddingFit:
+              endpointHealth.embeddingDimensions !== null ? embeddingFit(endpointHealth.embeddingDimensions) : null,
+          },
+        },
       });
     } catch (error) {
       console.error("Debug status error:", error);
@@ -658,6 +854,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/organizations/:organizationId/ai-endpoint", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      const endpoint = await storage.getOrganizationAiEndpoint(organizationId);
+      res.json(endpoint ? serializeAiEndpoint(endpoint) : null);
+    } catch (error) {
+      console.error("Failed to fetch AI endpoint:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch AI endpoint" }, error));
+    }
+  });
+
+  // Omitting `apiKey` keeps the stored key; sending null or "" clears it.
+  app.put("/api/organizations/:organizationId/ai-endpoint", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      const parsed = insertOrganizationAiEndpointSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json(mergeDevDetails({ error: "Invalid AI endpoint" }, parsed.error.issues));
+      }
+      if (!/^https?:\/\//i.test(parsed.data.baseUrl)) {
+        return res.status(400).json({ error: "AI endpoint baseUrl must be an http(s) URL" });
+      }
+      const existing = await storage.getOrganizationAiEndpoint(organizationId);
+      const endpoint = await storage.upsertOrganizationAiEndpoint(organizationId, {
+        baseUrl: parsed.data.baseUrl.replace(/\/+$/, ""),
+        apiKey: parsed.data.apiKey === undefined ? existing?.apiKey ?? null : parsed.data.apiKey || null,
+        chatModel: parsed.data.chatModel.trim(),
+        embeddingModel: parsed.data.embeddingModel?.trim() || null,
+      });
+      res.json(serializeAiEndpoint(endpoint));
+    } catch (error) {
+      console.error("Failed to save AI endpoint:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to save AI endpoint" }, error));
+    }
+  });
+
+  app.delete("/api/organizations/:organizationId/ai-endpoint", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      await storage.deleteOrganizationAiEndpoint(organizationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Failed to delete AI endpoint:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to delete AI endpoint" }, error));
+    }
+  });
+
   app.delete("/api/organizations/:organizationId", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
@@ -719,34 +974,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
         return res.status(404).json({ error: "Organization not found" });
       }
-      let suggestions = await storage.getOrganizationProfileSuggestions(userId, organizationId);
-      if (suggestions.length === 0) {
-        const [organization, documents] = await Promise.all([
-          storage.getOrganization(organizationId),
-          storage.getDocumentsForOrganization(userId, organizationId),
-        ]);
-        const organizationDocuments = documents.filter(
-          (document) => document.category === "organization-info" && document.summary,
-        );
-        for (const document of organizationDocuments) {
-          const generatedSuggestions = buildOrganizationProfileSuggestions({
-            organization,
-            documentId: document.id,
-            rawText: "",
-            summary: document.summary ?? "",
-          });
-          if (generatedSuggestions.length) {
-            await storage.createOrganizationProfileSuggestions(
-              userId,
-              organizationId,
-              document.id,
-              generatedSuggestions,
-            );
-          }
-        }
-        suggestions = await storage.getOrganizationProfileSuggestions(userId, organizationId);
-      }
-      res.json(suggestions);
+      // Read-only: suggestions are built when a document is uploaded.
+      res.json(await storage.getOrganizationProfileSuggestions(userId, organizationId));
     } catch (error) {
       console.error("Failed to fetch profile suggestions:", error);
       res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch profile suggestions" }, error));
@@ -787,7 +1016,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       let organization = await storage.getOrganization(organizationId);
-      if (status === "accepted" && organization) {
+      const factField = parseFactSuggestionField(suggestion.field);
+      let fact: OrganizationFact | null = null;
+      if (status === "accepted" && factField) {
+        fact = await saveFactSheetEntry({
+          userId,
+          organizationId,
+          factKey: factField.key,
+          period: factField.period,
+          value: suggestion.suggestedValue,
+          sourceDocumentId: suggestion.documentId,
+          source: "document",
+        });
+      } else if (status === "accepted" && organization) {
         const updates: Record<string, unknown> = {};
         if (suggestion.field === "focusAreas") {
           updates.focusAreas = suggestion.suggestedValue
@@ -797,7 +1038,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else if (suggestion.field === "foundedYear") {
           const foundedYear = Number.parseInt(suggestion.suggestedValue, 10);
           if (Number.isFinite(foundedYear)) updates.foundedYear = foundedYear;
-        } else if (PROFILE_SUGGESTION_FIELDS.has(suggestion.field)) {
+        } else if (isProfileField(suggestion.field)) {
           updates[suggestion.field] = suggestion.suggestedValue;
         }
         if (Object.keys(updates).length) {
@@ -810,158 +1051,480 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reviewedBy: status === "pending" ? null : userId,
         reviewedAt: status === "pending" ? null : new Date(),
       } as any);
-      res.json({ suggestion: reviewed, organization });
+      res.json({ suggestion: reviewed, organization, fact });
     } catch (error) {
       console.error("Failed to review profile suggestion:", error);
       res.status(500).json(mergeDevErrorDetails({ error: "Failed to review profile suggestion" }, error));
     }
   });
 
-  // Projects routes
-  app.get("/api/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  // Organization fact sheet: typed, citable facts every prompt receives.
+  // Free-form facts (clarification and assumption answers) are listed too.
+  app.get("/api/organizations/:organizationId/facts", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
-      const organizationId = await getDefaultOrganizationId(userId);
-      if (verboseHttpLogs()) {
-        console.log(`[GET /api/projects] Fetching projects for default org: ${organizationId}`);
-      }
-      const projects = await storage.getProjectsForOrganization(userId, organizationId);
-      if (verboseHttpLogs()) {
-        console.log(`[GET /api/projects] Found ${projects.length} projects for org ${organizationId}`);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
       }
-      res.json(projects);
+      res.json(await storage.getOrganizationFacts(organizationId));
     } catch (error) {
-      console.error("Failed to fetch projects:", error);
-      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch projects" }, error));
+      console.error("Failed to fetch organization facts:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch organization facts" }, error));
     }
   });
 
-  app.get("/api/organizations/:organizationId/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/organizations/:organizationId/facts", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
       const { organizationId } = req.params;
       if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
         return res.status(404).json({ error: "Organization not found" });
       }
-      const projects = await storage.getProjectsForOrganization(userId, organizationId);
-      res.json(projects);
+      const type = getOrganizationFactType(req.body?.factKey);
+      if (!type) {
+        return res.status(400).json({
+          error: `factKey must be one of ${ORGANIZATION_FACT_TYPES.map((t) => t.key).join(", ")}`,
+        });
+      }
+      const parsed = await parseOrganizationFactChanges(req.body, organizationId);
+      if (!parsed.ok) return res.status(parsed.status).json({ error: parsed.error });
+      if (!parsed.changes.value) {
+        return res.status(400).json({ error: "value must be a non-empty string" });
+      }
+      const fact = await saveFactSheetEntry({
+        userId,
+        organizationId,
+        factKey: type.key,
+        period: parsed.changes.period,
+        value: parsed.changes.value,
+        asOf: parsed.changes.asOf,
+        sourceDocumentId: parsed.changes.sourceDocumentId,
+        source: "manual",
+      });
+      res.status(201).json(fact);
     } catch (error) {
-      console.error("Failed to fetch organization projects:", error);
-      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch projects" }, error));
+      console.error("Failed to save organization fact:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to save organization fact" }, error));
     }
   });
 
-  app.post("/api/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  app.patch("/api/organization-facts/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
-      if (verboseHttpLogs()) {
-        console.log("Received project data:", redactForLog(JSON.stringify(req.body)));
-      }
-
-      // Convert deadline string to Date object if it's a string
-      if (typeof req.body.deadline === 'string') {
-        req.body.deadline = req.body.deadline ? new Date(req.body.deadline) : undefined;
+      const fact = await storage.getOrganizationFact(req.params.id);
+      if (!fact || !(await storage.userHasOrganizationAccess(userId, fact.organizationId))) {
+        return res.status(404).json({ error: "Fact not found" });
       }
+      const parsed = await parseOrganizationFactChanges(req.body, fact.organizationId);
+      if (!parsed.ok) return res.status(parsed.status).json({ error: parsed.error });
+      res.json(await updateOrganizationFact({ userId, fact, changes: parsed.changes }));
+    } catch (error) {
+      console.error("Failed to update organization fact:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to update organization fact" }, error));
+    }
+  });
 
-      const validatedData = insertProjectSchema.parse(req.body);
-      if (verboseHttpLogs()) {
-        console.log("Validated data:", redactForLog(JSON.stringify(validatedData)));
-      }
-      const organizationId = await getDefaultOrganizationId(userId);
-      const limitCheck = await billingService.checkLimit(userId, "projects", 1, organizationId);
-      if (!limitCheck.allowed) {
-        return sendLimitDenial(res, limitCheck.denial);
+  app.delete("/api/organization-facts/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const fact = await storage.getOrganizationFact(req.params.id);
+      if (!fact || !(await storage.userHasOrganizationAccess(userId, fact.organizationId))) {
+        return res.status(404).json({ error: "Fact not found" });
       }
-      const project = await storage.createProjectForOrganization(userId, organizationId, validatedData);
-      await billingService.recordUsage({
-        organizationId,
-        userId,
-        projectId: project.id,
-        type: "project_created",
-        provider: "internal",
-        metadata: {
-          title: project.title,
-          funder: project.funder,
-        },
-      });
-      res.json(project);
+      // The fact's chunk stays so answers that cited it keep their quote.
+      await storage.deleteOrganizationFact(fact.id);
+      res.status(204).end();
     } catch (error) {
-      console.error("Project creation error:", error);
-      res.status(400).json(mergeDevErrorDetails({ error: "Invalid project data" }, error));
+      console.error("Failed to delete organization fact:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to delete organization fact" }, error));
     }
   });
 
-  app.post("/api/organizations/:organizationId/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  // Funder profiles
+  app.get("/api/organizations/:organizationId/funders", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
       const { organizationId } = req.params;
       if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
         return res.status(404).json({ error: "Organization not found" });
       }
-
-      if (typeof req.body.deadline === 'string') {
-        req.body.deadline = req.body.deadline ? new Date(req.body.deadline) : undefined;
-      }
-
-      const validatedData = insertProjectSchema.parse(req.body);
-      const limitCheck = await billingService.checkLimit(userId, "projects", 1, organizationId);
-      if (!limitCheck.allowed) {
-        return sendLimitDenial(res, limitCheck.denial);
-      }
-      const project = await storage.createProjectForOrganization(userId, organizationId, validatedData);
-      await billingService.recordUsage({
-        organizationId,
-        userId,
-        projectId: project.id,
-        type: "project_created",
-        provider: "internal",
-        metadata: {
-          title: project.title,
-          funder: project.funder,
-        },
-      });
-      res.json(project);
-    } catch (error: any) {
-      console.error("Organization project creation error:", error);
-      res.status(400).json(mergeDevErrorDetails({ error: "Invalid project data" }, error));
+      res.json(await storage.getFunders(organizationId));
+    } catch (error) {
+      console.error("Failed to fetch funders:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch funders" }, error));
     }
   });
 
-  app.get("/api/projects/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/organizations/:organizationId/funders", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = getUserId(req);
-      const projectId = req.params.id;
-      console.log(`[GET /api/projects/${projectId}] Fetching project for user: ${userId}`);
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        console.log(`[GET /api/projects/${projectId}] Project not found in database`);
-        return res.status(404).json({ error: "Project not found" });
-      }
-      if (!(await storage.userHasOrganizationAccess(userId, project.organizationId))) {
-        return res.status(403).json({ error: "Forbidden" });
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
       }
-      console.log(`[GET /api/projects/${projectId}] Found project owned by: ${project.userId}`);
-      res.json(project);
+      const parsed = parseFunderFields(req.body);
+      if (!parsed.ok) return res.status(parsed.status).json({ error: parsed.error });
+      if (!parsed.fields.name) return res.status(400).json({ error: "name must be a non-empty string" });
+      const funder = await storage.createFunder({
+        ...parsed.fields,
+        name: parsed.fields.name,
+        organizationId,
+        createdBy: userId,
+      });
+      res.status(201).json(funder);
     } catch (error) {
-      console.error(`[GET /api/projects/${req.params.id}] Error:`, error);
-      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch project" }, error));
+      console.error("Failed to create funder:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to create funder" }, error));
     }
   });
 
-  app.put("/api/projects/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
-    try {
-      const userId = getUserId(req);
-      const projectId = req.params.id;
-
-      const existing = await storage.getProject(projectId);
-      if (!existing) {
-        return res.status(404).json({ error: "Project not found" });
-      }
-      if (existing.userId !== userId) {
-        return res.status(403).json({ error: "Unauthorized to update this project" });
-      }
+  // Build a profile from an uploaded RFP or guidelines document: a new funder,
+  // or with `funderId`, additions to an existing one.
+  app.post(
+    "/api/organizations/:organizationId/funders/from-document",
+    requireSupabaseUser,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const userId = getUserId(req);
+        const { organizationId } = req.params;
+        if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+        const document =
+          typeof req.body?.documentId === "string" ? await storage.getDocument(req.body.documentId) : undefined;
+        if (!document || document.organizationId !== organizationId) {
+          return res.status(400).json({ error: "documentId must be a document of this organization" });
+        }
+        let existing: Funder | undefined;
+        if (req.body?.funderId) {
+          existing = await storage.getFunder(String(req.body.funderId));
+          if (!existing || existing.organizationId !== organizationId) {
+            return res.status(404).json({ error: "Funder not found" });
+          }
+        }
+
+        const extraction = await storage.getDocumentExtraction(document.id);
+        const text = [extraction?.rawText, document.summary].filter(Boolean).join("\n\n").trim();
+        if (!text) {
+          return res.status(409).json({ error: "This document has no extracted text yet; try again once it is processed" });
+        }
+        const estimatedTokens = estimateTokensFromText(text.slice(0, FUNDER_MODEL_CHARS)) + FUNDER_MAX_TOKENS;
+        const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, organizationId);
+        if (!limitCheck.allowed) {
+          return sendLimitDenial(res, limitCheck.denial);
+        }
+        const draft = await aiService.extractFunderProfile(
+          text,
+          await getModelPreference(userId, organizationId),
+          async (usage) => {
+            try {
+              await billingService.recordUsage({
+                organizationId,
+                userId,
+                projectId: null,
+                type: "funder_extraction",
+                provider: usage.provider,
+                model: usage.model,
+                tokensIn: usage.tokensIn,
+                tokensOut: usage.tokensOut,
+                costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
+                metadata: { documentId: document.id },
+              });
+            } catch (usageError) {
+              console.warn(`[funders] Failed to record funder extraction usage for ${document.id}:`, usageError);
+            }
+          },
+        );
+
+        if (existing) {
+          const funder = await storage.updateFunder(existing.id, {
+            ...mergeFunderProfile(existing, draft),
+            sourceDocumentId: existing.sourceDocumentId ?? document.id,
+          });
+          return res.json(funder);
+        }
+        const funder = await storage.createFunder({
+          organizationId,
+          name: draft.name ?? path.parse(document.originalName).name,
+          mission: draft.mission,
+          priorities: draft.priorities,
+          terminology: draft.terminology,
+          evaluationCriteria: draft.evaluationCriteria,
+          awardMin: draft.awardMin,
+          awardMax: draft.awardMax,
+          contacts: draft.contacts,
+          sourceDocumentId: document.id,
+          createdBy: userId,
+        });
+        res.status(201).json(funder);
+      } catch (error) {
+        console.error("Failed to build funder profile:", error);
+        res.status(500).json(mergeDevErrorDetails({ error: "Failed to build funder profile" }, error));
+      }
+    },
+  );
+
+  app.patch("/api/funders/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const funder = await storage.getFunder(req.params.id);
+      if (!funder || !(await storage.userHasOrganizationAccess(userId, funder.organizationId))) {
+        return res.status(404).json({ error: "Funder not found" });
+      }
+      const parsed = parseFunderFields(req.body);
+      if (!parsed.ok) return res.status(parsed.status).json({ error: parsed.error });
+      const awardMin = parsed.fields.awardMin !== undefined ? parsed.fields.awardMin : funder.awardMin;
+      const awardMax = parsed.fields.awardMax !== undefined ? parsed.fields.awardMax : funder.awardMax;
+      if (awardMin != null && awardMax != null && awardMin > awardMax) {
+        return res.status(400).json({ error: "awardMin must not exceed awardMax" });
+      }
+      res.json(await storage.updateFunder(funder.id, parsed.fields));
+    } catch (error) {
+      console.error("Failed to update funder:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to update funder" }, error));
+    }
+  });
+
+  app.delete("/api/funders/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const funder = await storage.getFunder(req.params.id);
+      if (!funder || !(await storage.userHasOrganizationAccess(userId, funder.organizationId))) {
+        return res.status(404).json({ error: "Funder not found" });
+      }
+      await storage.deleteFunder(funder.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Failed to delete funder:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to delete funder" }, error));
+    }
+  });
+
+  // Answer library: answers saved for reuse across the organization's applications
+  app.get(
+    "/api/organizations/:organizationId/answer-library",
+    requireSupabaseUser,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const userId = getUserId(req);
+        const { organizationId } = req.params;
+        if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+        const entries = await storage.getAnswerLibrary(organizationId);
+        res.json(entries.map(toLibraryAnswer));
+      } catch (error) {
+        console.error("Failed to fetch answer library:", error);
+        res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch answer library" }, error));
+      }
+    },
+  );
+
+  app.patch("/api/answer-library/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const entry = await storage.getAnswerLibraryEntry(req.params.id);
+      if (!entry || !(await storage.userHasOrganizationAccess(userId, entry.organizationId))) {
+        return res.status(404).json({ error: "Library answer not found" });
+      }
+      const updates: { title?: string; topics?: string[] } = {};
+      if (req.body?.title !== undefined) {
+        if (typeof req.body.title !== "string" || !req.body.title.trim()) {
+          return res.status(400).json({ error: "title must be a non-empty string" });
+        }
+        updates.title = req.body.title.trim();
+      }
+      if (req.body?.topics !== undefined) {
+        if (!Array.isArray(req.body.topics)) return res.status(400).json({ error: "topics must be an array" });
+        updates.topics = normalizeTopics(req.body.topics);
+      }
+      const updated = await storage.updateAnswerLibraryEntry(entry.id, updates);
+      res.json(toLibraryAnswer(updated!));
+    } catch (error) {
+      console.error("Failed to update library answer:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to update library answer" }, error));
+    }
+  });
+
+  app.delete("/api/answer-library/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const entry = await storage.getAnswerLibraryEntry(req.params.id);
+      if (!entry || !(await storage.userHasOrganizationAccess(userId, entry.organizationId))) {
+        return res.status(404).json({ error: "Library answer not found" });
+      }
+      await storage.deleteAnswerLibraryEntry(entry.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Failed to delete library answer:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to delete library answer" }, error));
+    }
+  });
+
+  // Projects routes
+  app.get("/api/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const organizationId = await getDefaultOrganizationId(userId);
+      if (verboseHttpLogs()) {
+        console.log(`[GET /api/projects] Fetching projects for default org: ${organizationId}`);
+      }
+      const projects = await storage.getProjectsForOrganization(userId, organizationId);
+      if (verboseHttpLogs()) {
+        console.log(`[GET /api/projects] Found ${projects.length} projects for org ${organizationId}`);
+      }
+      res.json(projects);
+    } catch (error) {
+      console.error("Failed to fetch projects:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch projects" }, error));
+    }
+  });
+
+  app.get("/api/organizations/:organizationId/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      const projects = await storage.getProjectsForOrganization(userId, organizationId);
+      res.json(projects);
+    } catch (error) {
+      console.error("Failed to fetch organization projects:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch projects" }, error));
+    }
+  });
+
+  app.post("/api/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (verboseHttpLogs()) {
+        console.log("Received project data:", redactForLog(JSON.stringify(req.body)));
+      }
+
+      // Convert deadline string to Date object if it's a string
+      if (typeof req.body.deadline === 'string') {
+        req.body.deadline = req.body.deadline ? new Date(req.body.deadline) : undefined;
+      }
+
+      const organizationId = await getDefaultOrganizationId(userId);
+      if (req.body.funderId !== undefined) {
+        const linked = await resolveProjectFunder(req.body.funderId, organizationId);
+        if (!linked.ok) return res.status(linked.status).json({ error: linked.error });
+        req.body.funderId = linked.funder?.id ?? null;
+        req.body.funder ||= linked.funder?.name;
+      }
+
+      const validatedData = insertProjectSchema.parse(req.body);
+      if (verboseHttpLogs()) {
+        console.log("Validated data:", redactForLog(JSON.stringify(validatedData)));
+      }
+      const limitCheck = await billingService.checkLimit(userId, "projects", 1, organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+      const project = await storage.createProjectForOrganization(userId, organizationId, validatedData);
+      await billingService.recordUsage({
+        organizationId,
+        userId,
+        projectId: project.id,
+        type: "project_created",
+        provider: "internal",
+        metadata: {
+          title: project.title,
+          funder: project.funder,
+        },
+      });
+      res.json(project);
+    } catch (error) {
+      console.error("Project creation error:", error);
+      res.status(400).json(mergeDevErrorDetails({ error: "Invalid project data" }, error));
+    }
+  });
+
+  app.post("/api/organizations/:organizationId/projects", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const { organizationId } = req.params;
+      if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+
+      if (typeof req.body.deadline === 'string') {
+        req.body.deadline = req.body.deadline ? new Date(req.body.deadline) : undefined;
+      }
+      if (req.body.funderId !== undefined) {
+        const linked = await resolveProjectFunder(req.body.funderId, organizationId);
+        if (!linked.ok) return res.status(linked.status).json({ error: linked.error });
+        req.body.funderId = linked.funder?.id ?? null;
+        req.body.funder ||= linked.funder?.name;
+      }
+
+      const validatedData = insertProjectSchema.parse(req.body);
+      const limitCheck = await billingService.checkLimit(userId, "projects", 1, organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+      const project = await storage.createProjectForOrganization(userId, organizationId, validatedData);
+      await billingService.recordUsage({
+        organizationId,
+        userId,
+        projectId: project.id,
+        type: "project_created",
+        provider: "internal",
+        metadata: {
+          title: project.title,
+          funder: project.funder,
+        },
+      });
+      res.json(project);
+    } catch (error: any) {
+      console.error("Organization project creation error:", error);
+      res.status(400).json(mergeDevErrorDetails({ error: "Invalid project data" }, error));
+    }
+  });
+
+  app.get("/api/projects/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const projectId = req.params.id;
+      console.log(`[GET /api/projects/${projectId}] Fetching project for user: ${userId}`);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        console.log(`[GET /api/projects/${projectId}] Project not found in database`);
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (!(await storage.userHasOrganizationAccess(userId, project.organizationId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      console.log(`[GET /api/projects/${projectId}] Found project owned by: ${project.userId}`);
+      res.json(project);
+    } catch (error) {
+      console.error(`[GET /api/projects/${req.params.id}] Error:`, error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch project" }, error));
+    }
+  });
+
+  app.put("/api/projects/:id", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const projectId = req.params.id;
+
+      const existing = await storage.getProject(projectId);
+      if (!existing) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized to update this project" });
+      }
 
       const updates = sanitizeProjectUpdate(req.body);
+      if (updates.funderId !== undefined) {
+        const linked = await resolveProjectFunder(updates.funderId, existing.organizationId);
+        if (!linked.ok) return res.status(linked.status).json({ error: linked.error });
+        updates.funderId = linked.funder?.id ?? null;
+      }
       const project = await storage.updateProject(projectId, updates);
       if (!project) {
         return res.status(404).json({ error: "Project not found" });
@@ -993,6 +1556,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Unauthorized to finalize this project" });
       }
 
+      // Answers that contradict each other hold up finalizing until the
+      // writer has seen the warnings and confirms.
+      if (req.body?.acknowledgeInconsistencies !== true) {
+        const consistency = await checkProjectConsistency(project.id);
+        if (consistency.flags.length) {
+          return res.status(409).json({
+            error: `${consistency.flags.length} fact${consistency.flags.length === 1 ? " is" : "s are"} stated differently across answers`,
+            consistency,
+          });
+        }
+      }
+
       // Update project status to 'final'
       const finalizedProject = await storage.updateProject(req.params.id, { 
         status: 'final', 
@@ -1063,7 +1638,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!(await storage.userHasOrganizationAccess(userId, organizationId))) {
         return res.status(404).json({ error: "Organization not found" });
       }
-      const documents = await storage.getDocumentsForOrganization(userId, organizationId, projectId);
+      const documents = (await storage.getDocumentsForOrganization(userId, organizationId, projectId)).filter(
+        (document) => !isOrganizationFactsDocument(document),
+      );
 
       const enriched = await Promise.all(
         documents.map(async (doc) => {
@@ -1152,20 +1729,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         processed: false,
       });
 
-      // Process the file
-      const processed = await fileProcessor.processFile(
-        buffer,
-        originalname,
-        mimetype,
-        documentRecord
-      );
+      // Extract the text; the summary is left to the document worker.
+      const extracted = await fileProcessor.extractFile(buffer, originalname, mimetype, documentRecord);
 
-      // Update with processing results
       const updatedDocument = await storage.updateDocument(documentRecord.id, {
-        summary: processed.summary,
         processed: true,
         processingStatus: "complete",
-        summaryExtractedAt: new Date(),
         processedAt: new Date(),
         embeddingStatus: "pending",
       });
@@ -1174,41 +1743,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw new Error("Failed to persist document metadata");
       }
 
-      if (category === "organization-info") {
-        try {
-          const organization = await storage.getOrganization(organizationId);
-          const suggestions = buildOrganizationProfileSuggestions({
-            organization,
-            documentId: documentRecord.id,
-            rawText: processed.extractedText,
-            summary: processed.summary,
-          });
-          if (suggestions.length) {
-            await storage.createOrganizationProfileSuggestions(
-              userId,
-              organizationId,
-              documentRecord.id,
-              suggestions,
-            );
-          }
-        } catch (suggestionErr) {
-          console.warn(`[upload] profile suggestion extraction failed for ${documentRecord.id}:`, suggestionErr);
+      // Profile fields come from organization-info uploads; fact sheet figures from any.
+      try {
+        const organization = await storage.getOrganization(organizationId);
+        const suggestions = await buildOrganizationProfileSuggestions({
+          organization,
+          facts: await storage.getOrganizationFacts(organizationId, null),
+          document: updatedDocument,
+          rawText: extracted.extractedText,
+          preference: await getModelPreference(userId, organizationId),
+        });
+        if (suggestions.length) {
+          await storage.createOrganizationProfileSuggestions(
+            userId,
+            organizationId,
+            documentRecord.id,
+            suggestions,
+          );
         }
+      } catch (suggestionErr) {
+        console.warn(`[upload] profile suggestion extraction failed for ${documentRecord.id}:`, suggestionErr);
       }
 
       await storage.createProcessingJob(documentRecord.id, "embedding", "queued");
+      await storage.createProcessingJob(documentRecord.id, "summary", "queued");
 
-      // Run the embedding worker inline so newly uploaded documents are
-      // immediately searchable. The job + cron pipeline still exists for
-      // retries and backfills, but we don't rely on it for happy-path
-      // latency (which matters more on Vercel Hobby where sub-daily crons
-      // aren't available).
+      // Run the worker inline on this document's jobs so newly uploaded
+      // documents are immediately searchable and summarized. The job + cron
+      // pipeline still exists for retries and backfills, but we don't rely on
+      // it for happy-path latency (which matters more on Vercel Hobby where
+      // sub-daily crons aren't available).
       try {
-        const summary = await processDocumentJobs({ batchSize: 1 });
-        console.log(`[upload] inline embedding for ${documentRecord.id}:`, summary);
+        const summary = await processDocumentJobs({ documentId: documentRecord.id });
+        console.log(`[upload] inline processing for ${documentRecord.id}:`, summary);
       } catch (workerErr) {
         console.warn(
-          `[upload] inline embedding failed for ${documentRecord.id}, relying on queue:`,
+          `[upload] inline processing failed for ${documentRecord.id}, relying on queue:`,
           workerErr
         );
       }
@@ -1231,7 +1801,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         ...(freshDocument ?? updatedDocument),
-        summary: processed.summary,
         processed: true,
       });
     } catch (error) {
@@ -1307,7 +1876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         await storage.createProcessingJob(document.id, "embedding", "queued");
         try {
-          const summary = await processDocumentJobs({ batchSize: 1 });
+          const summary = await processDocumentJobs({ documentId: document.id, jobTypes: ["embedding"] });
           console.log(`[reprocess] embedding for ${document.id}:`, summary);
         } catch (workerErr) {
           console.warn(`[reprocess] inline embedding failed for ${document.id}:`, workerErr);
@@ -1340,10 +1909,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(500).json({ error: "Failed to retrieve file from storage" });
         }
 
-        let processed;
         try {
           const buffer = Buffer.from(await blob.arrayBuffer());
-          processed = await fileProcessor.processFile(buffer, document.originalName, document.fileType, document);
+          await fileProcessor.extractFile(buffer, document.originalName, document.fileType, document);
         } catch (extractErr) {
           await storage.updateDocument(document.id, {
             processingStatus: "failed",
@@ -1353,24 +1921,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         await storage.updateDocument(document.id, {
-          summary: processed.summary,
           processed: true,
           processingStatus: "complete",
-          summaryExtractedAt: new Date(),
           processedAt: new Date(),
           embeddingStatus: "pending",
         });
 
-        await storage.setDocumentExtraction(document.id, {
-          rawText: processed.extractedText,
-          rawTextBytes: processed.rawTextBytes,
-          extractionStatus: "complete",
-          extractionError: null,
-        });
-
         await storage.createProcessingJob(document.id, "embedding", "queued");
+        await storage.createProcessingJob(document.id, "summary", "queued");
         try {
-          const summary = await processDocumentJobs({ batchSize: 1 });
+          const summary = await processDocumentJobs({ documentId: document.id });
           console.log(`[reprocess] full pipeline for ${document.id}:`, summary);
         } catch (workerErr) {
           console.warn(`[reprocess] inline embedding failed for ${document.id}:`, workerErr);
@@ -1480,34 +2040,333 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:projectId/questions", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+  // Evidence Map built from persisted per-sentence verdicts; answers edited
+  // since their last verification are re-checked on the way out.
+  app.get("/api/projects/:projectId/evidence-map", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = getUserId(req);
-      const project = await storage.getProject(req.params.projectId);
-      if (!project) return res.status(404).json({ error: "Project not found" });
-      if (!(await storage.userHasOrganizationAccess(userId, project.organizationId))) {
-        return res.status(403).json({ error: "Forbidden" });
-      }
-      const validatedData = insertGrantQuestionSchema.parse(req.body);
-      const question = await storage.createGrantQuestion(req.params.projectId, validatedData);
-      res.json(question);
-    } catch (error: any) {
-      console.error("Failed to create question:", error);
-      
-      // Check for specific error types
-      if (error.name === 'ZodError') {
-        return res.status(400).json(mergeDevDetails({ error: "Invalid question data" }, error.errors));
-      }
-      
-      // Database constraint errors (e.g., foreign key violation)
-      if (error.code === '23503') {
-        return res.status(400).json({ error: "Invalid project ID - project does not exist" });
-      }
-      
-      // Return 500 for unexpected server errors
-      res.status(500).json(mergeDevErrorDetails({ error: "Failed to create question" }, error));
-    }
-  });
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      res.json(await getProjectEvidenceMap(access.project.id));
+    } catch (error) {
+      console.error("Failed to build evidence map:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to build evidence map" }, error));
+    }
+  });
+
+  // Numbers, dates and names the answers state differently. Also run by finalize.
+  app.get("/api/projects/:projectId/consistency", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      res.json(await checkProjectConsistency(access.project.id));
+    } catch (error) {
+      console.error("Failed to check answer consistency:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to check answer consistency" }, error));
+    }
+  });
+
+  app.get("/api/questions/:id/claims", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      res.json({ claims: await ensureClaimVerifications(access.question) });
+    } catch (error) {
+      console.error("Failed to fetch claim verdicts:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch claim verdicts" }, error));
+    }
+  });
+
+  // Rubric review ("AI reviewer"): scores against the funder's evaluation
+  // criteria, stored per response version.
+  app.post("/api/projects/:projectId/review", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const resolved = await resolveRequestRubric(access.project, req.body);
+      if (!resolved.ok) return res.status(resolved.status).json({ error: resolved.error });
+      const estimatedTokens = estimateReviewTokens(await storage.getGrantQuestions(access.project.id));
+      const limitCheck = await billingService.checkLimit(
+        access.userId,
+        "ai_tokens",
+        estimatedTokens,
+        access.project.organizationId,
+      );
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+      const review = await reviewApplication({
+        userId: access.userId,
+        project: access.project,
+        rubric: resolved.rubric,
+        preference: await getModelPreference(access.userId, access.project.organizationId),
+        refresh: req.body?.refresh === true,
+      });
+      res.json(review);
+    } catch (error) {
+      console.error("Failed to review application:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to review application" }, error));
+    }
+  });
+
+  app.post("/api/questions/:id/review", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      const { question, project, userId } = access;
+      if (!question.response?.trim()) {
+        return res.status(409).json({ error: "Question has no answer to review" });
+      }
+      const resolved = await resolveRequestRubric(project, req.body);
+      if (!resolved.ok) return res.status(resolved.status).json({ error: resolved.error });
+      const limitCheck = await billingService.checkLimit(
+        userId,
+        "ai_tokens",
+        estimateReviewTokens([question]),
+        project.organizationId,
+      );
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+      const review = await reviewQuestion({
+        userId,
+        project,
+        question,
+        rubric: resolved.rubric,
+        preference: await getModelPreference(userId, project.organizationId),
+        refresh: req.body?.refresh === true,
+      });
+      res.json(review);
+    } catch (error) {
+      console.error("Failed to review answer:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to review answer" }, error));
+    }
+  });
+
+  app.get("/api/questions/:id/reviews", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      res.json(await getReviewHistory(access.question));
+    } catch (error) {
+      console.error("Failed to fetch reviews:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch reviews" }, error));
+    }
+  });
+
+  // Save the current answer, with its citations, to the organization's library.
+  app.post("/api/questions/:id/library", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      const { question, project, userId } = access;
+      if (!question.response?.trim() || !ANSWERED_STATUSES.has(question.responseStatus ?? "")) {
+        return res.status(409).json({ error: "Only a finished answer can be saved to the library" });
+      }
+      if (req.body?.topics !== undefined && !Array.isArray(req.body.topics)) {
+        return res.status(400).json({ error: "topics must be an array" });
+      }
+      const entry = await saveAnswerToLibrary({
+        project,
+        question,
+        userId,
+        title: typeof req.body?.title === "string" ? req.body.title : null,
+        topics: req.body?.topics,
+      });
+      res.status(201).json(toLibraryAnswer(entry));
+    } catch (error) {
+      console.error("Failed to save answer to library:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to save answer to library" }, error));
+    }
+  });
+
+  app.get("/api/questions/:id/library-matches", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      res.json(await matchLibraryAnswers(access.question, access.project.organizationId));
+    } catch (error) {
+      console.error("Failed to match library answers:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to match library answers" }, error));
+    }
+  });
+
+  // Answers to similar questions from the organization's other applications.
+  app.get("/api/questions/:id/similar-answers", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      res.json(await findSimilarAnswers(access.userId, access.project, access.question));
+    } catch (error) {
+      console.error("Failed to match similar questions:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to match similar questions" }, error));
+    }
+  });
+
+  // Rewrite an earlier answer to a similar question for this one, keeping its citations.
+  app.post("/api/questions/:id/adapt", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    const questionId = req.params.id;
+    try {
+      const access = await assertQuestionAccess(req, res, questionId);
+      if (!access) return;
+      const { question, project, userId } = access;
+      if (typeof req.body?.sourceQuestionId !== "string") {
+        return res.status(400).json({ error: "sourceQuestionId is required" });
+      }
+      const source = await storage.getGrantQuestion(req.body.sourceQuestionId);
+      const sourceProject = source ? await storage.getProject(source.projectId) : undefined;
+      if (!source || !sourceProject || sourceProject.organizationId !== project.organizationId) {
+        return res.status(404).json({ error: "Earlier question not found" });
+      }
+
+      const settings = await resolveGenerationSettings(userId, req.body);
+      const estimatedTokens = estimateGenerationTokens({
+        question: [question.question, source.question, source.response ?? ""].join("\n"),
+        tone: settings.tone,
+        wordLimit: question.wordLimit,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      });
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+
+      let result: Awaited<ReturnType<typeof adaptSimilarAnswer>>;
+      try {
+        result = await adaptSimilarAnswer({ userId, project, question, source, settings, estimatedTokens });
+      } catch (aiError) {
+        console.error(`Adapting an answer failed for question ${questionId}:`, aiError);
+        const { errorMessage } = classifyGenerationFailure(aiError);
+        return res.status(502).json({ error: errorMessage, canRetry: true });
+      }
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+      res.json({ ...result.question, assumptions: result.assumptions });
+    } catch (error) {
+      console.error("Failed to adapt answer:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to adapt answer" }, error));
+    }
+  });
+
+  // Use a library answer as the question's starting draft.
+  app.post(
+    "/api/questions/:id/library/:entryId/insert",
+    requireSupabaseUser,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const access = await assertQuestionAccess(req, res, req.params.id);
+        if (!access) return;
+        const entry = await storage.getAnswerLibraryEntry(req.params.entryId);
+        if (!entry || entry.organizationId !== access.project.organizationId) {
+          return res.status(404).json({ error: "Library answer not found" });
+        }
+        const result = await insertLibraryAnswer(access.question, entry);
+        if (!result.ok) return res.status(result.status).json({ error: result.error });
+        res.json(result.question);
+      } catch (error) {
+        console.error("Failed to insert library answer:", error);
+        res.status(500).json(mergeDevErrorDetails({ error: "Failed to insert library answer" }, error));
+      }
+    },
+  );
+
+  app.post("/api/projects/:projectId/questions", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) return res.status(404).json({ error: "Project not found" });
+      if (!(await storage.userHasOrganizationAccess(userId, project.organizationId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const validatedData = insertGrantQuestionSchema.parse(req.body);
+      const question = await storage.createGrantQuestion(req.params.projectId, validatedData);
+      res.json(question);
+      // Matches are served by GET /api/questions/:id/similar-answers.
+      void prepareSimilarQuestions(userId, project, [question]).catch((err) => {
+        console.warn("[questions] Similar-question embedding failed:", err);
+      });
+    } catch (error: any) {
+      console.error("Failed to create question:", error);
+      
+      // Check for specific error types
+      if (error.name === 'ZodError') {
+        return res.status(400).json(mergeDevDetails({ error: "Invalid question data" }, error.errors));
+      }
+      
+      // Database constraint errors (e.g., foreign key violation)
+      if (error.code === '23503') {
+        return res.status(400).json({ error: "Invalid project ID - project does not exist" });
+      }
+      
+      // Return 500 for unexpected server errors
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to create question" }, error));
+    }
+  });
+
+  // Bulk create reviewed questions from an RFP extraction. Every item is
+  // validated before any is created, so a bad item doesn't leave half a batch.
+  app.post("/api/projects/:projectId/questions/bulk", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    const access = await assertProjectAccess(req, req.params.projectId);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const items = Array.isArray(req.body?.questions) ? req.body.questions : null;
+    if (!items || items.length === 0) {
+      return res.status(400).json({ error: "questions must be a non-empty array" });
+    }
+    if (items.length > MAX_BULK_QUESTIONS) {
+      return res.status(400).json({ error: `At most ${MAX_BULK_QUESTIONS} questions can be added at once` });
+    }
+
+    try {
+      const rows = items.map((item: any) =>
+        insertGrantQuestionSchema.parse({
+          question: typeof item?.question === "string" ? item.question.trim() : item?.question,
+          wordLimit: item?.wordLimit ?? undefined,
+          limitType: item?.limitType ?? undefined,
+          priority: item?.priority ?? (item?.required === false ? "low" : "medium"),
+        }),
+      );
+      const created = [];
+      for (const row of rows) {
+        created.push(await storage.createGrantQuestion(req.params.projectId, row));
+      }
+      res.json({ created });
+      void prepareSimilarQuestions(access.userId, access.project, created).catch((err) => {
+        console.warn("[questions] Similar-question embedding failed:", err);
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json(mergeDevDetails({ error: "Invalid question data" }, error.errors));
+      }
+      console.error("Bulk question create failed:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to create questions" }, error));
+    }
+  });
+
+  // Dry run of POST /generate: the chunks retrieval would return, estimated
+  // tokens and cost per model, and whether the plan allowance covers it.
+  // Takes the same body as /generate; nothing is generated or billed.
+  app.post("/api/questions/:id/generate/dry-run", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.id);
+      if (!access) return;
+      const { question, project, userId } = access;
+      const settings = await resolveGenerationSettings(userId, req.body);
+      res.json(
+        await previewGeneration({
+          userId,
+          project,
+          questions: [question],
+          settings,
+          exemplarIds: requestedExemplarIds(req.body),
+        }),
+      );
+    } catch (error) {
+      console.error("Failed to preview generation:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to preview generation" }, error));
+    }
+  });
 
   app.post("/api/questions/:id/generate", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     const questionId = req.params.id;
@@ -1528,309 +2387,522 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Forbidden" });
       }
 
-      const savedSettings = await storage.getUserSettings(userId);
-      const bodyTone = typeof req.body?.tone === "string" ? req.body.tone : undefined;
-      const bodyEmphasis = Array.isArray(req.body?.emphasisAreas) ? req.body.emphasisAreas : undefined;
-      const tone = bodyTone ?? savedSettings?.defaultTone ?? "professional";
-      const emphasisAreas =
-        bodyEmphasis && bodyEmphasis.length > 0
-          ? bodyEmphasis.filter((a: unknown) => typeof a === "string")
-          : savedSettings?.emphasisAreas ?? [];
-      const lengthPreference = savedSettings?.lengthPreference ?? "balanced";
-      const creativity = savedSettings?.creativity ?? 30;
-      const contextUsage = savedSettings?.contextUsage ?? 80;
-      const audience = savedSettings?.audience ?? "program_officer";
-      const answerStructure = savedSettings?.answerStructure ?? "prose";
-      const claimConfidence = savedSettings?.claimConfidence ?? "balanced";
+      const settings = await resolveGenerationSettings(userId, req.body);
+
+      const estimatedTokens = estimateGenerationTokens({
+        question: question.question,
+        tone: settings.tone,
+        wordLimit: question.wordLimit,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      });
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+
+      // Update status to generating
+      console.log(`Starting AI generation for question ${questionId}: ${question.question.substring(0, 100)}...`);
+      try {
+        await storage.updateGrantQuestion(questionId, { responseStatus: "generating" });
+      } catch (statusErr) {
+        console.warn(`[generate] Could not mark question ${questionId} as generating:`, statusErr);
+      }
+
+      const { options, retrievalResult } = await prepareGroundedGeneration({
+        userId,
+        project,
+        question,
+        settings,
+        exemplarIds: requestedExemplarIds(req.body),
+      });
+
+      try {
+        const startTime = Date.now();
+        const grounded = await aiService.generateGroundedResponse(options);
+
+        const { updatedQuestion, responseStatus, errorMessage } = await persistGroundedGeneration({
+          userId,
+          project,
+          question,
+          settings,
+          options,
+          grounded,
+          retrievalResult,
+          estimatedTokens,
+        });
+
+        const duration = Date.now() - startTime;
+        console.log(`AI generation completed in ${duration}ms for question ${questionId}`);
+
+        // Return appropriate status code based on result
+        const payload = {
+          ...updatedQuestion,
+          citations: grounded.citations,
+          assumptions: grounded.assumptions,
+          retrievedChunks: retrievalResult.chunks,
+        };
+
+        if (responseStatus === "complete") {
+          res.json(payload);
+        } else {
+          res.status(206).json({ // 206 Partial Content - request completed but with limitations
+            ...payload,
+            warning: errorMessage,
+            canRetry: responseStatus === "timeout" || responseStatus === "failed"
+          });
+        }
+
+      } catch (aiError: any) {
+        console.error(`AI generation failed for question ${questionId}:`, aiError);
+        
+        // Determine failure type and set appropriate status
+        const { failureStatus, errorMessage } = classifyGenerationFailure(aiError);
+
+        console.log(`Setting failure status to: ${failureStatus} for question ${questionId}`);
+        
+        // Update status to reflect the specific failure type
+        await storage.updateGrantQuestion(questionId, { 
+          responseStatus: failureStatus,
+          errorMessage 
+        });
+        
+        // This shouldn't happen with our new fallback system, but just in case
+        throw new Error(`AI generation failed: ${errorMessage}`, { cause: aiError });
+      }
+    } catch (error: any) {
+      console.error(`Generation endpoint error for question ${questionId}:`, error);
+      
+      try {
+        // Ensure status is updated even if other errors occur
+        await storage.updateGrantQuestion(questionId, { 
+          responseStatus: "failed",
+          errorMessage: "Unexpected server error during generation"
+        });
+      } catch (updateError) {
+        console.error("Failed to update question status after error:", updateError);
+      }
+      
+      res.status(500).json(
+        mergeDevErrorDetails(
+          {
+            error: "Failed to generate response",
+            canRetry: true,
+          },
+          error,
+        ),
+      );
+    }
+  });
+
+  // Streaming generation over Server-Sent Events. Access, billing and
+  // status handling match POST /generate; once headers are flushed every
+  // outcome is reported as an event rather than an HTTP status:
+  //   event: delta  data: { text }            — partial answer text
+  //   event: done   data: { ...question, citations, assumptions, retrievedChunks, warning?, canRetry? }
+  //   event: error  data: { error, responseStatus, canRetry }
+  app.post("/api/questions/:id/generate/stream", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    const questionId = req.params.id;
+    let streaming = false;
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const access = await assertQuestionAccess(req, res, questionId);
+      if (!access) return;
+      const { question, project, userId } = access;
+
+      const settings = await resolveGenerationSettings(userId, req.body);
+
+      const estimatedTokens = estimateGenerationTokens({
+        question: question.question,
+        tone: settings.tone,
+        wordLimit: question.wordLimit,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      });
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+
+      try {
+        await storage.updateGrantQuestion(questionId, { responseStatus: "generating" });
+      } catch (statusErr) {
+        console.warn(`[generate] Could not mark question ${questionId} as generating:`, statusErr);
+      }
+
+      res.status(200);
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      res.flushHeaders();
+      streaming = true;
+
+      // A client that goes away stops the model call rather than leaving it
+      // to run (and bill) to the end.
+      const disconnect = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) disconnect.abort();
+      });
+
+      const { options, retrievalResult } = await prepareGroundedGeneration({
+        userId,
+        project,
+        question,
+        settings,
+        exemplarIds: requestedExemplarIds(req.body),
+      });
+
+      // Text already sent is billed even when the stream ends without a result.
+      let streamedText = "";
+      let streamFinished = false;
+      const billStreamedText = async (responseStatus: string) => {
+        if (streamFinished) return;
+        try {
+          await recordStreamedUsage({
+            userId,
+            project,
+            questionId,
+            settings,
+            estimatedTokens,
+            streamedText,
+            responseStatus,
+          });
+        } catch (usageErr) {
+          console.warn(`[generate] Failed to record streamed usage for ${questionId}:`, usageErr);
+        }
+      };
+
+      try {
+        const startTime = Date.now();
+        const grounded = await aiService.streamGroundedResponse({ ...options, signal: disconnect.signal }, (delta) => {
+          streamedText += delta;
+          sendEvent("delta", { text: delta });
+        });
+        // From here persistGroundedGeneration bills the result.
+        streamFinished = true;
+
+        const { updatedQuestion, responseStatus, errorMessage } = await persistGroundedGeneration({
+          userId,
+          project,
+          question,
+          settings,
+          options,
+          grounded,
+          retrievalResult,
+          estimatedTokens,
+        });
+
+        console.log(`AI streaming generation completed in ${Date.now() - startTime}ms for question ${questionId}`);
+
+        sendEvent("done", {
+          ...updatedQuestion,
+          citations: grounded.citations,
+          assumptions: grounded.assumptions,
+          retrievedChunks: retrievalResult.chunks,
+          ...(responseStatus !== "complete" && {
+            warning: errorMessage,
+            canRetry: responseStatus === "timeout" || responseStatus === "failed",
+          }),
+        });
+      } catch (aiError: any) {
+        if (disconnect.signal.aborted) {
+          console.log(`AI streaming generation stopped for question ${questionId}: client disconnected`);
+          await billStreamedText("disconnected");
+          await storage.updateGrantQuestion(questionId, {
+            responseStatus: question.responseStatus,
+            errorMessage: question.errorMessage,
+          });
+          return;
+        }
+        console.error(`AI streaming generation failed for question ${questionId}:`, aiError);
+        const { failureStatus, errorMessage } = classifyGenerationFailure(aiError);
+        await billStreamedText(failureStatus);
+        await storage.updateGrantQuestion(questionId, {
+          responseStatus: failureStatus,
+          errorMessage,
+        });
+        sendEvent("error", { error: errorMessage, responseStatus: failureStatus, canRetry: true });
+      }
+      res.end();
+    } catch (error: any) {
+      console.error(`Streaming generation endpoint error for question ${questionId}:`, error);
+
+      try {
+        await storage.updateGrantQuestion(questionId, {
+          responseStatus: "failed",
+          errorMessage: "Unexpected server error during generation"
+        });
+      } catch (updateError) {
+        console.error("Failed to update question status after error:", updateError);
+      }
+
+      if (streaming) {
+        sendEvent("error", {
+          error: "Failed to generate response",
+          responseStatus: "failed",
+          canRetry: true,
+        });
+        res.end();
+      } else {
+        res.status(500).json(
+          mergeDevErrorDetails(
+            {
+              error: "Failed to generate response",
+              canRetry: true,
+            },
+            error,
+          ),
+        );
+      }
+    }
+  });
+
+  // Dry run of a "Draft all unanswered" batch over the same questions.
+  app.post("/api/projects/:projectId/generation-batches/dry-run", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const { project, userId } = access;
+      const questions = selectUnansweredQuestions(await storage.getGrantQuestions(project.id));
+      const settings = await resolveGenerationSettings(userId, req.body);
+      res.json(await previewGeneration({ userId, project, questions, settings }));
+    } catch (error) {
+      console.error("Failed to preview batch generation:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to preview batch generation" }, error));
+    }
+  });
+
+  // "Draft all unanswered": queue every pending/failed/timeout question in
+  // the project. The whole batch is checked against the ai_tokens budget up
+  // front; progress is polled from the batch resource.
+  app.post("/api/projects/:projectId/generation-batches", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const { project, userId } = access;
+      const sendConflict = async (active: GenerationBatch | undefined) =>
+        res.status(409).json({
+          error: "A batch is already drafting this project's questions",
+          batch: active ? await getGenerationBatchProgress(active) : null,
+        });
+
+      const latest = await storage.getLatestGenerationBatch(project.id);
+      if (latest && isBatchActive(latest)) {
+        return sendConflict(latest);
+      }
+      if (latest?.status === "running") {
+        await closeStaleBatch(latest);
+      }
+
+      const questions = selectUnansweredQuestions(await storage.getGrantQuestions(project.id));
+      if (questions.length === 0) {
+        return res.json({ batch: null });
+      }
+
+      const settings = await resolveGenerationSettings(userId, req.body);
+      const estimatedTokens = estimateBatchTokens(questions, settings);
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+
+      const batch = await startGenerationBatch({
+        userId,
+        project,
+        questions,
+        settings,
+        estimatedTokens,
+        concurrency: clampBatchConcurrency(req.body?.concurrency),
+      });
+      if (!batch) {
+        // Another request started one since the check above.
+        return sendConflict(await storage.getLatestGenerationBatch(project.id));
+      }
+      res.status(202).json({ batch: await getGenerationBatchProgress(batch) });
+    } catch (error) {
+      console.error("Failed to start generation batch:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to start batch generation" }, error));
+    }
+  });
+
+  app.get("/api/projects/:projectId/generation-batches/latest", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const batch = await storage.getLatestGenerationBatch(access.project.id);
+      res.json({ batch: batch ? await getGenerationBatchProgress(batch) : null });
+    } catch (error) {
+      console.error("Failed to fetch generation batch:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch batch progress" }, error));
+    }
+  });
+
+  app.get("/api/projects/:projectId/generation-batches/:batchId", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const batch = await storage.getGenerationBatch(req.params.batchId);
+      if (!batch || batch.projectId !== access.project.id) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      res.json({ batch: await getGenerationBatchProgress(batch) });
+    } catch (error) {
+      console.error("Failed to fetch generation batch:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch batch progress" }, error));
+    }
+  });
+
+  // Cancelling stops queued questions only; answers already drafted, and
+  // those in flight, are kept.
+  app.post("/api/projects/:projectId/generation-batches/:batchId/cancel", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const batch = await storage.getGenerationBatch(req.params.batchId);
+      if (!batch || batch.projectId !== access.project.id) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      const cancelled = batch.status === "running" ? await storage.cancelGenerationBatch(batch.id) : batch;
+      res.json({ batch: await getGenerationBatchProgress(cancelled ?? batch) });
+    } catch (error) {
+      console.error("Failed to cancel generation batch:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to cancel batch" }, error));
+    }
+  });
+
+  // Regenerate one span of an answer ({ start, end } character offsets into
+  // the stored response, optional instruction) and splice it back in. The
+  // rest of the answer, its citations and assumption labels are kept.
+  app.post("/api/questions/:id/regenerate-passage", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    const questionId = req.params.id;
+    try {
+      const access = await assertQuestionAccess(req, res, questionId);
+      if (!access) return;
+      const { question, project, userId } = access;
 
-      const retrievalLimits = retrievalLimitsFromContextUsage(contextUsage);
+      const { start, end, instruction } = req.body ?? {};
+      if (!Number.isInteger(start) || !Number.isInteger(end)) {
+        return res.status(400).json({ error: "start and end must be integer character offsets" });
+      }
+      if (instruction !== undefined && instruction !== null && typeof instruction !== "string") {
+        return res.status(400).json({ error: "instruction must be a string" });
+      }
 
+      const settings = await resolveGenerationSettings(userId, req.body);
       const estimatedTokens = estimateGenerationTokens({
-        question: question.question,
-        tone,
+        question: [question.question, instruction ?? "", (question.response ?? "").slice(start, end)].join("\n"),
+        tone: settings.tone,
         wordLimit: question.wordLimit,
-        emphasisAreas,
-        contextUsage,
-        lengthPreference,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
       });
       const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
       if (!limitCheck.allowed) {
         return sendLimitDenial(res, limitCheck.denial);
       }
 
-      // Update status to generating
-      console.log(`Starting AI generation for question ${questionId}: ${question.question.substring(0, 100)}...`);
-      try {
-        await storage.updateGrantQuestion(questionId, { responseStatus: "generating" });
-      } catch (statusErr) {
-        console.warn(`[generate] Could not mark question ${questionId} as generating:`, statusErr);
-      }
-
-      // Get user context from documents
-      const documents = await storage.getDocumentsForOrganization(userId, project.organizationId, project.id).catch((err) => {
-        console.warn(`[generate] getDocuments failed:`, err);
-        return [] as Awaited<ReturnType<typeof storage.getDocumentsForOrganization>>;
-      });
-
-      const processedDocs = documents.filter((doc) => doc.processed && doc.summary);
-      const organizationContext = processedDocs
-        .map((doc) => `${doc.originalName}: ${doc.summary}`)
-        .join('\n');
-
-      // Retrieval requires the document pipeline tables (doc_chunks, etc.).
-      // If that migration hasn't been applied to the connected DB, we don't
-      // want to fail the whole generation — fall back to no chunks.
-      let retrievalResult: Awaited<ReturnType<typeof retrieveRelevantChunks>> = {
-        query: question.question,
-        chunks: [],
-        embeddingGenerated: false,
-      };
-      try {
-        retrievalResult = await retrieveRelevantChunks({
-          userId,
-          organizationId: project.organizationId,
-          projectId: project.id,
-          query: question.question,
-          limit: retrievalLimits.limit,
-          semanticLimit: retrievalLimits.semanticLimit,
-          keywordLimit: retrievalLimits.keywordLimit,
-        });
-      } catch (retrievalErr) {
-        console.warn(`[generate] retrieveRelevantChunks failed, continuing without context:`, retrievalErr);
-      }
-
-      const topSimilarity = retrievalResult.chunks[0]?.similarity;
-      const semanticCount = retrievalResult.chunks.filter((c) => c.source === "semantic").length;
-      const keywordCount = retrievalResult.chunks.filter((c) => c.source === "keyword").length;
-      console.log(
-        `[generate q=${questionId}] retrieved ${retrievalResult.chunks.length} chunks ` +
-          `(semantic=${semanticCount}, keyword=${keywordCount}, ` +
-          `topSim=${typeof topSimilarity === "number" ? topSimilarity.toFixed(2) : "n/a"}, ` +
-          `embeddingGenerated=${retrievalResult.embeddingGenerated})`
-      );
-
-      const user = await storage.getUser(userId).catch(() => undefined);
-      const organization = await storage.getOrganization(project.organizationId).catch(() => undefined);
-
+      let result: Awaited<ReturnType<typeof regeneratePassage>>;
       try {
-        const startTime = Date.now();
-        
-        // Explicit allowlist of fields handed to the LLM. The previous
-        // `...user` spread leaked the entire user row (including
-        // password hash columns, supabase auth metadata, and
-        // unrelated profile fields) into the prompt JSON. Keep this
-        // narrow — anything else the prompt needs should be added
-        // here intentionally.
-        const grounded = await aiService.generateGroundedResponse({
-          question: question.question,
-          tone,
-          wordLimit: question.wordLimit || undefined,
-          emphasisAreas,
-          lengthPreference,
-          creativity,
-          audience,
-          answerStructure,
-          claimConfidence,
-          organizationInfo: {
-            organizationName: organization?.name ?? user?.organizationName ?? null,
-            organizationType: organization?.organizationType ?? user?.organizationType ?? null,
-            mission: organization?.mission ?? user?.mission ?? null,
-            focusAreas: organization?.focusAreas ?? user?.focusAreas ?? null,
-            primaryContact: organization?.primaryContact ?? user?.primaryContact ?? null,
-            email: organization?.contactEmail ?? user?.email ?? null,
-            contextSummary: organizationContext,
-          },
-          retrievedChunks: retrievalResult.chunks.map((chunk) => ({
-            documentName: chunk.documentName,
-            documentId: chunk.documentId,
-            content: chunk.content,
-            chunkIndex: chunk.chunkIndex,
-            similarity: chunk.similarity,
-          })),
-        });
-
-        const usage = grounded.usage ?? {
-          provider: "openai" as const,
-          model: process.env.GRANTED_DEFAULT_MODEL || "gpt-4o-mini",
-          tokensIn: estimatedTokens,
-          tokensOut: 0,
-        };
-
-        // Persist citations/assumptions best-effort. These tables are not
-        // strictly required for the user to see a generated response; a
-        // missing-table / schema-drift error here should not 500 the request.
-        try {
-          await storage.deleteDraftCitations(question.id);
-          for (const citation of grounded.citations || []) {
-            if (!citation.documentId) continue;
-            await storage.createDraftCitation({
-              draftId: question.id,
-              section: "response",
-              sourceDocumentId: citation.documentId,
-              chunkRefs: [
-                {
-                  chunkIndex: citation.chunkIndex ?? 0,
-                  quote: citation.quote ?? "",
-                },
-              ],
-            });
-          }
-        } catch (citationErr) {
-          console.warn(`[generate] Failed to persist draft citations:`, citationErr);
-        }
-
-        if (projectId) {
-          try {
-            await storage.deleteAssumptionLabels(projectId, question.id);
-            for (const raw of grounded.assumptions || []) {
-              const assumptionText =
-                typeof raw === "string"
-                  ? raw.trim()
-                  : typeof (raw as any)?.text === "string"
-                    ? (raw as any).text.trim()
-                    : "";
-              if (!assumptionText) continue;
-              await storage.createAssumptionLabel({
-                projectId,
-                draftId: question.id,
-                text: assumptionText,
-                category: "context_gap",
-                confidence: 50,
-                suggestedQuestion: assumptionText,
-                position: { start: 0, end: 0 },
-              });
-            }
-          } catch (assumptionErr) {
-            console.warn(`[generate] Failed to persist assumption labels:`, assumptionErr);
-          }
-        }
-
-        const responseText = (grounded.text || '').trim();
-        await billingService.recordUsage({
-          organizationId: project.organizationId,
+        result = await regeneratePassage({
           userId,
-          projectId,
-          type: "generation",
-          provider: usage.provider,
-          model: usage.model,
-          tokensIn: usage.tokensIn,
-          tokensOut: usage.tokensOut,
-          costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
-          metadata: {
-            questionId,
-            responseStatus: "attempted",
-          },
-        });
-        
-        const duration = Date.now() - startTime;
-        console.log(`AI generation completed in ${duration}ms for question ${questionId}`);
-
-        // Determine the status based on the response type
-        let responseStatus: string;
-        let errorMessage: string | null = null;
-        if (!retrievalResult.chunks.length) {
-          responseStatus = "needs_context";
-          errorMessage = "No relevant document context found. Upload more documents or refine the question.";
-        } else if (grounded.text?.includes("Unable to complete a grounded draft")) {
-          responseStatus = "failed";
-          errorMessage = "AI service unavailable; provided excerpts instead.";
-        } else if (grounded.text?.includes("Using available snippets")) {
-          responseStatus = "needs_context";
-          errorMessage = "Limited context available; refine uploads for a stronger draft.";
-        } else {
-          responseStatus = "complete";
-        }
-
-        console.log(`Setting response status to: ${responseStatus} for question ${questionId}`);
-
-        // Create response version (best-effort)
-        try {
-          const versions = await storage.getResponseVersions(question.id);
-          const nextVersion = versions.length + 1;
-          await storage.createResponseVersion(question.id, responseText, tone, nextVersion);
-        } catch (versionErr) {
-          console.warn(`[generate] Failed to persist response version:`, versionErr);
-        }
-
-        // Update question with response and status
-        const updatedQuestion = await storage.updateGrantQuestion(questionId, {
-          response: responseText,
-          responseStatus,
-          ...(errorMessage && { errorMessage })
+          project,
+          question,
+          settings,
+          start,
+          end,
+          instruction: instruction?.trim() || null,
+          estimatedTokens,
         });
+      } catch (aiError) {
+        // The draft is untouched; report the failure without changing the question's status.
+        console.error(`Passage regeneration failed for question ${questionId}:`, aiError);
+        const { errorMessage } = classifyGenerationFailure(aiError);
+        return res.status(502).json({ error: errorMessage, canRetry: true });
+      }
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
 
-        // Return appropriate status code based on result
-        const payload = {
-          ...updatedQuestion,
-          citations: grounded.citations,
-          assumptions: grounded.assumptions,
-          retrievedChunks: retrievalResult.chunks,
-        };
+      res.json({
+        ...result.question,
+        passage: result.passage,
+        citations: await enrichCitationsFromDraftRows(result.citations),
+        assumptions: result.assumptions,
+      });
+    } catch (error) {
+      console.error(`Passage regeneration error for question ${questionId}:`, error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to regenerate passage" }, error));
+    }
+  });
 
-        if (responseStatus === "complete") {
-          res.json(payload);
-        } else {
-          res.status(206).json({ // 206 Partial Content - request completed but with limitations
-            ...payload,
-            warning: errorMessage,
-            canRetry: responseStatus === "timeout" || responseStatus === "failed"
-          });
-        }
+  // Condense or expand an answer into a word or character range ({ text?,
+  // unit?, min?, max? }; defaults to the stored answer and the question's
+  // word limit). Returns a proposal and the cited claims it dropped; nothing
+  // is saved until the writer accepts it through PUT /response.
+  app.post("/api/questions/:id/fit-to-limit", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    const questionId = req.params.id;
+    try {
+      const access = await assertQuestionAccess(req, res, questionId);
+      if (!access) return;
+      const { question, project, userId } = access;
 
-      } catch (aiError: any) {
-        console.error(`AI generation failed for question ${questionId}:`, aiError);
-        
-        // Determine failure type and set appropriate status
-        let failureStatus: string;
-        let errorMessage: string;
-        
-        if (aiError.message?.includes('timeout') || aiError.name === 'AbortError') {
-          failureStatus = "timeout";
-          errorMessage = "Request timed out - the AI service took too long to respond";
-        } else if (aiError.code === 'insufficient_quota' || aiError.code === 'rate_limit_exceeded') {
-          failureStatus = "failed";
-          errorMessage = "AI service rate limit reached - please try again later";
-        } else if (aiError.code === 'invalid_api_key' || aiError.status === 401) {
-          failureStatus = "failed";
-          errorMessage = "AI service authentication error";
-        } else {
-          failureStatus = "failed";
-          errorMessage = "AI generation failed due to service error";
-        }
+      const { text } = req.body ?? {};
+      if (text !== undefined && text !== null && typeof text !== "string") {
+        return res.status(400).json({ error: "text must be a string" });
+      }
+      const target = resolveFitTarget(question, req.body ?? {});
+      if (!target.ok) return res.status(target.status).json({ error: target.error });
 
-        console.log(`Setting failure status to: ${failureStatus} for question ${questionId}`);
-        
-        // Update status to reflect the specific failure type
-        await storage.updateGrantQuestion(questionId, { 
-          responseStatus: failureStatus,
-          errorMessage 
-        });
-        
-        // This shouldn't happen with our new fallback system, but just in case
-        throw new Error(`AI generation failed: ${errorMessage}`, { cause: aiError });
+      const settings = await resolveGenerationSettings(userId, req.body);
+      const estimatedTokens = estimateGenerationTokens({
+        question: [question.question, text ?? question.response ?? ""].join("\n"),
+        tone: settings.tone,
+        wordLimit: target.max,
+        limitType: target.unit,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      });
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
       }
-    } catch (error: any) {
-      console.error(`Generation endpoint error for question ${questionId}:`, error);
-      
+
+      let result: Awaited<ReturnType<typeof fitAnswerToLimit>>;
       try {
-        // Ensure status is updated even if other errors occur
-        await storage.updateGrantQuestion(questionId, { 
-          responseStatus: "failed",
-          errorMessage: "Unexpected server error during generation"
+        result = await fitAnswerToLimit({
+          userId,
+          project,
+          question,
+          settings,
+          text,
+          unit: target.unit,
+          min: target.min,
+          max: target.max,
+          estimatedTokens,
         });
-      } catch (updateError) {
-        console.error("Failed to update question status after error:", updateError);
+      } catch (aiError) {
+        console.error(`Fit to limit failed for question ${questionId}:`, aiError);
+        const { errorMessage } = classifyGenerationFailure(aiError);
+        return res.status(502).json({ error: errorMessage, canRetry: true });
       }
-      
-      res.status(500).json(
-        mergeDevErrorDetails(
-          {
-            error: "Failed to generate response",
-            canRetry: true,
-          },
-          error,
-        ),
-      );
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+      const { ok: _ok, ...fit } = result;
+      res.json(fit);
+    } catch (error) {
+      console.error(`Fit to limit error for question ${questionId}:`, error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fit answer to limit" }, error));
     }
   });
 
@@ -1894,13 +2966,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { question } = access;
 
       // Calculate word count
-      const wordCount = content.trim().split(/\s+/).filter(word => word.length > 0).length;
+      const wordCount = countWords(content);
       
-      // Check word limit if specified
-      if (question.wordLimit && wordCount > question.wordLimit) {
+      // Check the limit in the question's own unit; the client offers fit-to-limit on this error
+      const limitType = normalizeLimitType(question.limitType);
+      const length = measureAnswer(content, limitType);
+      if (question.wordLimit && length > question.wordLimit) {
         return res.status(400).json({ 
-          error: "Content exceeds word limit",
+          error: limitType === "words" ? "Content exceeds word limit" : "Content exceeds character limit",
           wordCount,
+          length,
+          limitType,
           limit: question.wordLimit
         });
       }
@@ -1958,6 +3034,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What produced each model-written version of the answer.
+  app.get("/api/questions/:questionId/generation-audits", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertQuestionAccess(req, res, req.params.questionId);
+      if (!access) return;
+      res.json(await storage.getGenerationAudits(access.question.id));
+    } catch (error) {
+      console.error("Failed to fetch generation audits:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch generation audits" }, error));
+    }
+  });
+
+  // Every generation audit in the project, oldest first, for export.
+  app.get("/api/projects/:projectId/generation-audits", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) return res.status(access.status).json({ error: access.error });
+      const questions = new Map((await storage.getGrantQuestions(access.project.id)).map((q) => [q.id, q]));
+      const audits = (await storage.getProjectGenerationAudits(access.project.id)).reverse();
+      const versions = new Map<string, number>();
+      for (const questionId of new Set(audits.map((audit) => audit.questionId))) {
+        for (const version of await storage.getResponseVersions(questionId)) versions.set(version.id, version.version);
+      }
+      res.json(
+        audits.map((audit) => ({
+          ...audit,
+          question: questions.get(audit.questionId)?.question ?? null,
+          version: versions.get(audit.responseVersionId) ?? null,
+        })),
+      );
+    } catch (error) {
+      console.error("Failed to export generation audits:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to export generation audits" }, error));
+    }
+  });
+
+  // Re-run a version's generation on its recorded inputs, optionally with
+  // another model. The answer is not changed.
+  app.post(
+    "/api/questions/:questionId/versions/:versionId/rerun",
+    requireSupabaseUser,
+    async (req: AuthenticatedRequest, res) => {
+      const { questionId, versionId } = req.params;
+      try {
+        const access = await assertQuestionAccess(req, res, questionId);
+        if (!access) return;
+        const { project, userId } = access;
+        const version = (await storage.getResponseVersions(questionId)).find((row) => row.id === versionId);
+        const audit = version ? await storage.getGenerationAuditForVersion(version.id) : undefined;
+        if (!version || !audit) {
+          return res.status(404).json({ error: "No generation record for this version" });
+        }
+        if (req.body?.model !== undefined && typeof req.body.model !== "string") {
+          return res.status(400).json({ error: "model must be a string" });
+        }
+
+        const estimatedTokens = Math.max(audit.tokensIn + audit.tokensOut, 1);
+        const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+        if (!limitCheck.allowed) {
+          return sendLimitDenial(res, limitCheck.denial);
+        }
+
+        let result: Awaited<ReturnType<typeof rerunGeneration>>;
+        try {
+          result = await rerunGeneration({ userId, project, audit, version, model: req.body?.model, estimatedTokens });
+        } catch (aiError) {
+          console.error(`Re-running generation failed for version ${versionId}:`, aiError);
+          const { errorMessage } = classifyGenerationFailure(aiError);
+          return res.status(502).json({ error: errorMessage, canRetry: true });
+        }
+        if (!result.ok) return res.status(result.status).json({ error: result.error });
+        res.json(result.rerun);
+      } catch (error) {
+        console.error("Failed to re-run generation:", error);
+        res.status(500).json(mergeDevErrorDetails({ error: "Failed to re-run generation" }, error));
+      }
+    },
+  );
+
   // User settings routes
   app.get("/api/settings", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
     try {
@@ -1993,6 +3148,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserId(req);
       const validatedData = insertUserSettingsSchema.parse(req.body);
+      const unsupportedModel = [validatedData.aiModel, validatedData.fallbackModel].find(
+        (model) => model && !CHAT_MODELS.some((option) => option.id === model),
+      );
+      if (unsupportedModel) {
+        return res.status(400).json({ error: `Unsupported model: ${unsupportedModel}` });
+      }
       const settings = await storage.updateUserSettings(userId, validatedData);
       
       if (!settings) {
@@ -2065,9 +3226,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!access.ok) {
         return res.status(access.status).json({ error: access.error });
       }
-      const resolved = req.body?.resolved;
+      // { resolved: boolean } dismisses or reopens the gap; { answer, scope? }
+      // closes it by storing the answer as an organization fact.
+      const { resolved, answer, scope } = req.body ?? {};
+      if (answer !== undefined) {
+        if (typeof answer !== "string") {
+          return res.status(400).json({ error: "answer must be a string" });
+        }
+        if (resolved === false) {
+          return res.status(400).json({ error: "An answer always resolves the assumption" });
+        }
+        if (scope !== undefined && scope !== "organization" && scope !== "project") {
+          return res.status(400).json({ error: 'scope must be "organization" or "project"' });
+        }
+        const result = await answerAssumptionLabel({
+          userId: access.userId,
+          project: access.project,
+          label,
+          answer,
+          scope,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json({ error: result.error });
+        }
+        return res.json(result.label);
+      }
       if (typeof resolved !== "boolean") {
-        return res.status(400).json({ error: "Body must include { resolved: boolean }" });
+        return res.status(400).json({ error: "Body must include { resolved: boolean } or { answer: string }" });
       }
       const updated = await storage.setAssumptionLabelResolved(label.id, resolved, access.userId);
       res.json(updated);
@@ -2077,6 +3262,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rewrite the affected draft with an answered assumption's fact as a source.
+  app.post("/api/assumptions/:id/apply", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const label = await storage.getAssumptionLabel(req.params.id);
+      if (!label) {
+        return res.status(404).json({ error: "Assumption not found" });
+      }
+      const access = await assertProjectAccess(req, label.projectId);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const question = label.draftId ? await storage.getGrantQuestion(label.draftId) : undefined;
+      if (!question || question.projectId !== label.projectId) {
+        return res.status(404).json({ error: "Question not found" });
+      }
+      const { userId, project } = access;
+
+      const settings = await resolveGenerationSettings(userId, req.body);
+      const estimatedTokens = estimateGenerationTokens({
+        question: question.question,
+        tone: settings.tone,
+        wordLimit: question.wordLimit,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      });
+      const limitCheck = await billingService.checkLimit(userId, "ai_tokens", estimatedTokens, project.organizationId);
+      if (!limitCheck.allowed) {
+        return sendLimitDenial(res, limitCheck.denial);
+      }
+
+      let result: Awaited<ReturnType<typeof applyAssumptionAnswer>>;
+      try {
+        result = await applyAssumptionAnswer({ userId, project, question, label, settings, estimatedTokens });
+      } catch (aiError) {
+        // Nothing is persisted before the model answers, so the draft is untouched.
+        console.error(`Applying assumption ${label.id} failed:`, aiError);
+        const { errorMessage } = classifyGenerationFailure(aiError);
+        return res.status(502).json({ error: errorMessage, canRetry: true });
+      }
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+      res.json({
+        ...result.question,
+        mode: result.mode,
+        citations: await enrichCitationsFromDraftRows(await storage.getDraftCitations(question.id)),
+        assumptions: await storage.getAssumptionLabels(project.id, question.id),
+      });
+    } catch (error) {
+      console.error("Failed to apply assumption answer:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to apply answer to draft" }, error));
+    }
+  });
+
+  // ----- Clarification questions (answers become organization facts) -----
+  async function assertClarificationAccess(req: AuthenticatedRequest, clarificationId: string) {
+    const clarification = await storage.getClarificationQuestion(clarificationId);
+    if (!clarification) return { ok: false as const, status: 404, error: "Clarification not found" };
+    const access = await assertProjectAccess(req, clarification.projectId);
+    if (!access.ok) return access;
+    return { ok: true as const, clarification, project: access.project, userId: access.userId };
+  }
+
+  app.get("/api/projects/:projectId/clarifications", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const clarifications = await storage.getClarificationQuestions(access.project.id);
+      res.json(clarifications.map(toClarificationView));
+    } catch (error) {
+      console.error("Failed to fetch clarifications:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to fetch clarifications" }, error));
+    }
+  });
+
+  app.post("/api/projects/:projectId/clarifications/generate", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertProjectAccess(req, req.params.projectId);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const clarifications = await refreshProjectClarifications({
+        userId: access.userId,
+        project: access.project,
+      });
+      res.json(clarifications.map(toClarificationView));
+    } catch (error) {
+      console.error("Failed to generate clarifications:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to generate clarifications" }, error));
+    }
+  });
+
+  app.post("/api/clarifications/:id/answer", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertClarificationAccess(req, req.params.id);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const answer = req.body?.answer;
+      const scope = req.body?.scope;
+      if (typeof answer !== "string") {
+        return res.status(400).json({ error: "Body must include { answer: string }" });
+      }
+      if (scope !== undefined && scope !== "organization" && scope !== "project") {
+        return res.status(400).json({ error: 'scope must be "organization" or "project"' });
+      }
+      const result = await answerClarification({
+        userId: access.userId,
+        project: access.project,
+        clarification: access.clarification,
+        answer,
+        scope,
+      });
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(toClarificationView(result.clarification));
+    } catch (error) {
+      console.error("Failed to answer clarification:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to answer clarification" }, error));
+    }
+  });
+
+  app.post("/api/clarifications/:id/skip", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertClarificationAccess(req, req.params.id);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const result = await skipClarification(access.clarification);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(toClarificationView(result.clarification));
+    } catch (error) {
+      console.error("Failed to skip clarification:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to skip clarification" }, error));
+    }
+  });
+
+  app.post("/api/clarifications/:id/follow-up", requireSupabaseUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const access = await assertClarificationAccess(req, req.params.id);
+      if (!access.ok) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      const result = await requestClarificationFollowUp(access.clarification);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(toClarificationView(result.clarification));
+    } catch (error) {
+      console.error("Failed to request clarification follow-up:", error);
+      res.status(500).json(mergeDevErrorDetails({ error: "Failed to request follow-up" }, error));
+    }
+  });
+
   // ----- Export events -----
   // Exports happen client-side; this endpoint records them so
   // "drafts exported per active user" can be measured.
@@ -2091,13 +3436,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         typeof req.body?.questionCount === "number" ? req.body.questionCount : undefined;
       const unresolvedGapCount =
         typeof req.body?.unresolvedGapCount === "number" ? req.body.unresolvedGapCount : undefined;
+      const closedGapCount =
+        typeof req.body?.closedGapCount === "number" ? req.body.closedGapCount : undefined;
       await billingService.recordUsage({
         organizationId: access.project.organizationId,
         userId: access.userId,
         projectId: access.project.id,
         type: "export",
         provider: "internal",
-        metadata: { format, questionCount, unresolvedGapCount },
+        metadata: { format, questionCount, unresolvedGapCount, closedGapCount },
       });
       res.json({ ok: true });
     } catch (error) {
@@ -2585,6 +3932,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           req.file.buffer,
           req.file.originalname,
           req.file.mimetype,
+          null,
+          await getModelPreference(access.userId, access.project.organizationId),
         );
         res.json({ suggestions });
       } catch (error: any) {
@@ -2631,20 +3980,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  // File extraction route
+  // File extraction route. The RFP is read with the model preference of the
+  // workspace it is for (`projectId` or `organizationId` in the form), so it
+  // goes to that workspace's self-hosted endpoint when it has one.
   app.post("/api/extract-questions", uploadRateLimiter, requireSupabaseUser, upload.single('file'), async (req: AuthenticatedRequest, res) => {
     try {
+      const userId = getUserId(req);
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const { questions, demo } = await fileProcessor.extractQuestionsFromFile(
+      let organizationId: string;
+      if (typeof req.body?.projectId === "string" && req.body.projectId) {
+        const access = await assertProjectAccess(req, req.body.projectId);
+        if (!access.ok) return res.status(access.status).json({ error: access.error });
+        organizationId = access.project.organizationId;
+      } else if (typeof req.body?.organizationId === "string" && req.body.organizationId) {
+        if (!(await storage.userHasOrganizationAccess(userId, req.body.organizationId))) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+        organizationId = req.body.organizationId;
+      } else {
+        organizationId = await getDefaultOrganizationId(userId);
+      }
+
+      const extraction = await fileProcessor.extractQuestionsFromFile(
         req.file.buffer,
         req.file.originalname,
         req.file.mimetype,
+        null,
+        await getModelPreference(userId, organizationId),
       );
 
-      res.json({ questions, demo });
+      res.json(extraction);
     } catch (error) {
       console.error("Question extraction error:", error);
       res.status(500).json(mergeDevErrorDetails({ error: "Failed to extract questions" }, error));
@@ -4,6 +4,8 @@ import express from "express";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { registerRoutes } from "./routes.js";
 import { MemStorage, storage } from "./storage.js";
+import { aiService } from "./services/ai.js";
+import { LocalProvider } from "./services/llm.js";
 
 vi.mock("./middleware/supabaseAuth.js", () => ({
   requireSupabaseUser: (req: any, _res: any, next: any) => {
@@ -58,6 +60,17 @@ async function postJson(path: string, userId: string, body: unknown) {
   });
 }
 
+async function uploadText(organizationId: string, userId: string, category: string, name: string, text: string) {
+  const form = new FormData();
+  form.set("category", category);
+  form.set("file", new Blob([text], { type: "text/plain" }), name);
+  return fetch(`${baseUrl}/api/organizations/${organizationId}/documents/upload`, {
+    method: "POST",
+    headers: { "x-test-user": userId },
+    body: form,
+  });
+}
+
 beforeAll(async () => {
   const app = express();
   app.use(express.json());
@@ -143,6 +156,29 @@ describe("workspace route isolation", () => {
     expect(body.error).toBe("Project not found for this workspace");
   });
 
+  it("summarizes and embeds an upload before responding", async () => {
+    const userId = "workspace-upload-summary";
+    const org = await (await postJson("/api/organizations", userId, { name: "Upload Summary Client" })).json();
+
+    const response = await uploadText(
+      org.id,
+      userId,
+      "organization-info",
+      "impact.txt",
+      "Riverside Food Bank served 1,240 families in 2025 through its mobile market.",
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.summary).toContain("1,240");
+    expect(body.summaryExtractedAt).toBeTruthy();
+    for (const jobType of ["embedding", "summary"]) {
+      expect(await storage.getProcessingJobs({ jobType, documentId: body.id })).toEqual([
+        expect.objectContaining({ status: "succeeded" }),
+      ]);
+    }
+  });
+
   it("does not allow another user to read a workspace they are not a member of", async () => {
     const ownerId = "workspace-owner-user";
     const outsiderId = "workspace-outsider-user";
@@ -406,13 +442,15 @@ describe("workspace route isolation", () => {
     expect(updatedOrg?.primaryContact).toBe("Avery Stone");
   });
 
-  it("backfills profile suggestions from existing organization documents", async () => {
-    const userId = "workspace-profile-backfill";
-    const org = await (await postJson("/api/organizations", userId, { name: "Backfill Client" })).json();
+  it("builds profile suggestions on upload, bills the model call, and only reads them on GET", async () => {
+    const userId = "workspace-profile-upload";
+    await storage.createUserSettings(userId, { aiModel: "local-deterministic", fallbackModel: "local-deterministic" });
+    const org = await (await postJson("/api/organizations", userId, { name: "Profile Upload Client" })).json();
+    // Documents already on file are not read again when suggestions are listed.
     await storage.createDocumentForOrganization(userId, org.id, {
       organizationId: org.id,
-      filename: "backfill-profile.txt",
-      originalName: "Backfill Profile.txt",
+      filename: "older-profile.txt",
+      originalName: "Older Profile.txt",
       fileType: "text/plain",
       fileSize: 10,
       category: "organization-info",
@@ -420,13 +458,482 @@ describe("workspace route isolation", () => {
       processed: true,
       processingStatus: "complete",
     });
+    const generateJSON = vi.spyOn(LocalProvider.prototype, "generateJSON");
+    expect(await (await requestJson(`/api/organizations/${org.id}/profile-suggestions`, userId)).json()).toEqual([]);
+    expect(generateJSON).not.toHaveBeenCalled();
 
-    const response = await requestJson(`/api/organizations/${org.id}/profile-suggestions`, userId);
-    const suggestions = await response.json();
+    const mission = "Improve community health through accessible education and care.";
+    generateJSON.mockImplementation(async (request) => {
+      const json = { fields: [{ field: "mission", value: mission, quote: mission, confidence: 90 }] };
+      return { text: JSON.stringify(json), json, provider: "local", model: request.model, tokensIn: 200, tokensOut: 40 };
+    });
+    try {
+      const uploaded = await uploadText(org.id, userId, "organization-info", "profile.txt", `Mission: ${mission}`);
+      expect(uploaded.status).toBe(200);
+      const document = await uploaded.json();
+
+      const suggestions = await (await requestJson(`/api/organizations/${org.id}/profile-suggestions`, userId)).json();
+      expect(suggestions).toEqual([expect.objectContaining({ field: "mission", suggestedValue: mission })]);
+      const events = await storage.getUsageEventsForPeriod(org.id, new Date(0), new Date(Date.now() + 1000));
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: "profile_extraction",
+          tokensIn: 200,
+          tokensOut: 40,
+          metadata: { documentId: document.id },
+        }),
+      );
+    } finally {
+      generateJSON.mockRestore();
+    }
+  });
+});
 
+describe("organization fact sheet", () => {
+  it("turns an accepted document suggestion into a sourced, verified fact", async () => {
+    const userId = "workspace-fact-suggestion";
+    const org = await (await postJson("/api/organizations", userId, { name: "Fact Client" })).json();
+    const document = await (
+      await uploadText(
+        org.id,
+        userId,
+        "past-successes",
+        "annual-report.txt",
+        "Our FY24 operating budget was $1.2 million. In 2023 we served 1,240 families.",
+      )
+    ).json();
+
+    const suggestions = await (await requestJson(`/api/organizations/${org.id}/profile-suggestions`, userId)).json();
+    expect(suggestions.map((suggestion: any) => [suggestion.field, suggestion.suggestedValue])).toEqual([
+      ["fact:annual_budget:FY24", "$1.2 million"],
+      ["fact:people_served:2023", "1,240 families"],
+    ]);
+
+    const response = await postJson(
+      `/api/organizations/${org.id}/profile-suggestions/${suggestions[0].id}/review`,
+      userId,
+      { status: "accepted" },
+    );
+    const body = await response.json();
     expect(response.status).toBe(200);
-    expect(suggestions.some((suggestion: any) => suggestion.field === "mission")).toBe(true);
-    expect(suggestions.some((suggestion: any) => suggestion.field === "ein")).toBe(true);
+    expect(body.fact).toMatchObject({
+      factKey: "annual_budget",
+      period: "FY24",
+      label: "FY24 budget",
+      value: "$1.2 million",
+      source: "document",
+      sourceDocumentId: document.id,
+      verifiedBy: userId,
+    });
+
+    const facts = await (await requestJson(`/api/organizations/${org.id}/facts`, userId)).json();
+    expect(facts.map((fact: any) => fact.id)).toEqual([body.fact.id]);
+  });
+
+  it("adds, edits and removes facts only inside the requested workspace", async () => {
+    const ownerId = "workspace-fact-owner";
+    const outsiderId = "workspace-fact-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Fact Owner Client" })).json();
+
+    expect((await postJson(`/api/organizations/${org.id}/facts`, ownerId, { factKey: "income", value: "1" })).status).toBe(
+      400,
+    );
+    expect(
+      (await postJson(`/api/organizations/${org.id}/facts`, outsiderId, { factKey: "staff_count", value: "12" })).status,
+    ).toBe(404);
+
+    const created = await postJson(`/api/organizations/${org.id}/facts`, ownerId, {
+      factKey: "staff_count",
+      period: "FY24",
+      value: "12",
+      asOf: "2024-06-30",
+    });
+    const fact = await created.json();
+    expect(created.status).toBe(201);
+    expect(fact).toMatchObject({ label: "FY24 staff", value: "12", verifiedBy: ownerId });
+
+    // Saving the same type and period again updates the entry.
+    const again = await (
+      await postJson(`/api/organizations/${org.id}/facts`, ownerId, { factKey: "staff_count", period: "FY24", value: "14" })
+    ).json();
+    expect(again).toMatchObject({ id: fact.id, value: "14" });
+
+    const patch = (userId: string, body: unknown) =>
+      requestJson(`/api/organization-facts/${fact.id}`, userId, { method: "PATCH", body: JSON.stringify(body) });
+    expect((await patch(outsiderId, { value: "99" })).status).toBe(404);
+    expect((await patch(ownerId, { asOf: "not a date" })).status).toBe(400);
+    const edited = await patch(ownerId, { value: "15", period: "FY25" });
+    expect(await edited.json()).toMatchObject({ label: "FY25 staff", value: "15", period: "FY25" });
+
+    const remove = (userId: string) => requestJson(`/api/organization-facts/${fact.id}`, userId, { method: "DELETE" });
+    expect((await remove(outsiderId)).status).toBe(404);
+    expect((await remove(ownerId)).status).toBe(204);
+    expect(await (await requestJson(`/api/organizations/${org.id}/facts`, ownerId)).json()).toEqual([]);
+  });
+});
+
+describe("funder profiles", () => {
+  it("builds a profile from an uploaded RFP and links projects to it", async () => {
+    const userId = "workspace-funder-owner";
+    const org = await (await postJson("/api/organizations", userId, { name: "Funder Client" })).json();
+    const document = await storage.createDocumentForOrganization(userId, org.id, {
+      organizationId: org.id,
+      filename: "rfp.txt",
+      originalName: "2025 RFP.txt",
+      fileType: "text/plain",
+      fileSize: 10,
+      category: "rfp",
+      processed: true,
+      processingStatus: "complete",
+    });
+    const rfp = `Riverside Community Foundation\n\nFunding Priorities\n- Food access in rural communities\n\nAwards range from $25,000 to $100,000.\n\nEvaluation Criteria\n- Community need (30 points)`;
+    await storage.setDocumentExtraction(document.id, {
+      rawText: rfp,
+      rawTextBytes: rfp.length,
+      extractionStatus: "complete",
+    });
+
+    const built = await postJson(`/api/organizations/${org.id}/funders/from-document`, userId, { documentId: document.id });
+    const funder = await built.json();
+    expect(built.status).toBe(201);
+    expect(funder).toMatchObject({
+      name: "Riverside Community Foundation",
+      priorities: ["Food access in rural communities"],
+      evaluationCriteria: [{ text: "Community need", weight: "30 points" }],
+      awardMin: 2_500_000,
+      awardMax: 10_000_000,
+      sourceDocumentId: document.id,
+    });
+
+    // Without a funder name, the project takes the profile's.
+    const project = await (await postJson(`/api/organizations/${org.id}/projects`, userId, { title: "Pantry", funderId: funder.id })).json();
+    expect(project).toMatchObject({ funder: "Riverside Community Foundation", funderId: funder.id });
+
+    const other = await (await postJson("/api/organizations", userId, { name: "Other Client" })).json();
+    const otherFunder = await (await postJson(`/api/organizations/${other.id}/funders`, userId, { name: "Elsewhere Fund" })).json();
+    const relink = (funderId: string | null) =>
+      requestJson(`/api/projects/${project.id}`, userId, { method: "PUT", body: JSON.stringify({ funderId }) });
+    expect((await relink(otherFunder.id)).status).toBe(400);
+    expect(await (await relink(null)).json()).toMatchObject({ funderId: null });
+  });
+
+  it("adds, edits and removes funders only inside the requested workspace", async () => {
+    const ownerId = "workspace-funder-editor";
+    const outsiderId = "workspace-funder-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Funder Editor Client" })).json();
+
+    expect((await postJson(`/api/organizations/${org.id}/funders`, ownerId, { name: " " })).status).toBe(400);
+    expect((await postJson(`/api/organizations/${org.id}/funders`, outsiderId, { name: "Ford" })).status).toBe(404);
+
+    const created = await postJson(`/api/organizations/${org.id}/funders`, ownerId, {
+      name: "Ford Foundation",
+      terminology: ["participants"],
+      contacts: [{ name: "Ana Ruiz", role: "Program Officer", email: "ana@example.org" }],
+    });
+    const funder = await created.json();
+    expect(created.status).toBe(201);
+    expect(funder).toMatchObject({ name: "Ford Foundation", terminology: ["participants"], createdBy: ownerId });
+
+    const patch = (userId: string, body: unknown) =>
+      requestJson(`/api/funders/${funder.id}`, userId, { method: "PATCH", body: JSON.stringify(body) });
+    expect((await patch(outsiderId, { notes: "x" })).status).toBe(404);
+    expect((await patch(ownerId, { awardMin: 500_000, awardMax: 100_000 })).status).toBe(400);
+    expect((await patch(ownerId, { priorities: "food" })).status).toBe(400);
+    const edited = await patch(ownerId, { notes: "Met at the spring convening.", awardMax: 5_000_000 });
+    expect(await edited.json()).toMatchObject({ notes: "Met at the spring convening.", awardMax: 5_000_000 });
+
+    const remove = (userId: string) => requestJson(`/api/funders/${funder.id}`, userId, { method: "DELETE" });
+    expect((await remove(outsiderId)).status).toBe(404);
+    expect((await remove(ownerId)).status).toBe(204);
+    expect(await (await requestJson(`/api/organizations/${org.id}/funders`, ownerId)).json()).toEqual([]);
+  });
+});
+
+describe("rubric review", () => {
+  it("scores answers against request criteria and keeps each version's review", async () => {
+    const ownerId = "workspace-review-owner";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Review Client" })).json();
+    const project = await (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title: "Pantry", funder: "Fund" })).json();
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe the community need." });
+
+    const criteria = [{ text: "Community need", weight: "30 points" }];
+    expect((await postJson(`/api/questions/${question.id}/review`, ownerId, { criteria })).status).toBe(409);
+    await storage.updateGrantQuestion(question.id, { response: "Community need is high in our county.", responseStatus: "complete" });
+
+    expect((await postJson(`/api/questions/${question.id}/review`, ownerId, {})).status).toBe(409);
+    expect((await postJson(`/api/questions/${question.id}/review`, ownerId, { criteria: "need" })).status).toBe(400);
+    expect((await postJson(`/api/questions/${question.id}/review`, "workspace-review-outsider", { criteria })).status).toBe(404);
+
+    const reviewed = await postJson(`/api/questions/${question.id}/review`, ownerId, { criteria });
+    const review = await reviewed.json();
+    expect(reviewed.status).toBe(200);
+    expect(review).toMatchObject({ questionId: question.id, version: 1, rubricSource: "request", method: "heuristic" });
+
+    const application = await (await postJson(`/api/projects/${project.id}/review`, ownerId, { criteria })).json();
+    expect(application).toMatchObject({ projectId: project.id, answers: [review] });
+    expect(application.criteria[0]).toMatchObject({ criterion: "Community need", questionId: question.id });
+
+    const history = await (await requestJson(`/api/questions/${question.id}/reviews`, ownerId)).json();
+    expect(history).toEqual([review]);
+  });
+});
+
+describe("answer consistency", () => {
+  it("reports conflicting facts and holds finalize until they are acknowledged", async () => {
+    const ownerId = "workspace-consistency-owner";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Consistency Client" })).json();
+    const project = await (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title: "Pantry", funder: "Fund" })).json();
+    for (const response of ["The total project budget is $185,000.", "Our project budget is $210,000."]) {
+      const question = await storage.createGrantQuestion(project.id, { question: "Budget" });
+      await storage.updateGrantQuestion(question.id, { response, responseStatus: "complete" });
+    }
+
+    expect((await requestJson(`/api/projects/${project.id}/consistency`, "workspace-consistency-outsider")).status).toBe(403);
+    const report = await (await requestJson(`/api/projects/${project.id}/consistency`, ownerId)).json();
+    expect(report.flags).toMatchObject([{ id: "amount:budget:-", label: "Project budget" }]);
+
+    const finalize = (body: unknown) =>
+      requestJson(`/api/projects/${project.id}/finalize`, ownerId, { method: "PUT", body: JSON.stringify(body) });
+    const held = await finalize({});
+    expect(held.status).toBe(409);
+    expect(await held.json()).toMatchObject({ consistency: { flags: [{ id: "amount:budget:-" }] } });
+    expect(await (await finalize({ acknowledgeInconsistencies: true })).json()).toMatchObject({ status: "final" });
+  });
+});
+
+describe("answer library", () => {
+  it("saves finished answers, matches them to new questions and inserts them as drafts", async () => {
+    const ownerId = "workspace-library-owner";
+    const outsiderId = "workspace-library-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Library Client" })).json();
+    const create = async (title: string) =>
+      (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title, funder: "Fund" })).json();
+    const first = await create("Pantry 2025");
+    const source = await storage.createGrantQuestion(first.id, { question: "Describe your organization's history." });
+
+    expect((await postJson(`/api/questions/${source.id}/library`, ownerId, {})).status).toBe(409);
+    await storage.updateGrantQuestion(source.id, { response: "We were founded in 1998.", responseStatus: "complete" });
+    expect((await postJson(`/api/questions/${source.id}/library`, ownerId, { topics: "history" })).status).toBe(400);
+    const saved = await postJson(`/api/questions/${source.id}/library`, ownerId, { topics: ["History"] });
+    expect(saved.status).toBe(201);
+    const entry = await saved.json();
+    expect(entry).toMatchObject({ answer: "We were founded in 1998.", topics: ["history"], sourceProjectId: first.id });
+    expect(entry).not.toHaveProperty("questionEmbedding");
+
+    const second = await create("Pantry 2026");
+    const target = await storage.createGrantQuestion(second.id, { question: "Summarize the history of your organization." });
+    const matches = await (await requestJson(`/api/questions/${target.id}/library-matches`, ownerId)).json();
+    expect(matches).toMatchObject([{ entry: { id: entry.id } }]);
+
+    const patch = (id: string, userId: string, body: unknown) =>
+      requestJson(`/api/answer-library/${id}`, userId, { method: "PATCH", body: JSON.stringify(body) });
+    expect((await patch(entry.id, outsiderId, { title: "Ours" })).status).toBe(404);
+    expect(await (await patch(entry.id, ownerId, { title: "Organization history" })).json()).toMatchObject({
+      title: "Organization history",
+    });
+    expect(
+      (await postJson(`/api/questions/${target.id}/library/${entry.id}/insert`, outsiderId, {})).status,
+    ).toBe(404);
+    const inserted = await (await postJson(`/api/questions/${target.id}/library/${entry.id}/insert`, ownerId, {})).json();
+    expect(inserted).toMatchObject({ response: "We were founded in 1998.", responseStatus: "edited" });
+
+    expect((await requestJson(`/api/organizations/${org.id}/answer-library`, outsiderId)).status).toBe(404);
+    expect(await (await requestJson(`/api/organizations/${org.id}/answer-library`, ownerId)).json()).toMatchObject([
+      { id: entry.id },
+    ]);
+    expect((await requestJson(`/api/answer-library/${entry.id}`, ownerId, { method: "DELETE" })).status).toBe(204);
+    expect(await (await requestJson(`/api/organizations/${org.id}/answer-library`, ownerId)).json()).toEqual([]);
+  });
+});
+
+describe("similar questions", () => {
+  it("offers earlier answers when a question is added and guards the adapt flow", async () => {
+    const ownerId = "workspace-similar-owner";
+    const outsiderId = "workspace-similar-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Similar Client" })).json();
+    const create = async (title: string) =>
+      (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title, funder: "Fund" })).json();
+    const first = await create("Pantry 2025");
+    const source = await storage.createGrantQuestion(first.id, { question: "Describe the families your program serves." });
+    await storage.updateGrantQuestion(source.id, { response: "We served 1,240 families.", responseStatus: "complete" });
+
+    // Creating a question does not wait for matching; the draft asks for matches.
+    const second = await create("Pantry 2026");
+    const added = await (
+      await postJson(`/api/projects/${second.id}/questions`, ownerId, { question: "Describe the families served by your program." })
+    ).json();
+    expect(added).not.toHaveProperty("similarAnswers");
+
+    const bulk = await (
+      await postJson(`/api/projects/${second.id}/questions/bulk`, ownerId, {
+        questions: [{ question: "What is your annual budget?" }],
+      })
+    ).json();
+    expect(Object.keys(bulk)).toEqual(["created"]);
+
+    expect((await requestJson(`/api/questions/${added.id}/similar-answers`, outsiderId)).status).toBe(404);
+    expect(await (await requestJson(`/api/questions/${added.id}/similar-answers`, ownerId)).json()).toMatchObject([
+      { questionId: source.id, projectTitle: "Pantry 2025", answer: "We served 1,240 families." },
+    ]);
+    expect(await (await requestJson(`/api/questions/${bulk.created[0].id}/similar-answers`, ownerId)).json()).toEqual([]);
+
+    const adapt = (sourceQuestionId?: string) => postJson(`/api/questions/${added.id}/adapt`, ownerId, { sourceQuestionId });
+    expect((await adapt()).status).toBe(400);
+    expect((await adapt("missing")).status).toBe(404);
+    const elsewhere = await storage.createProject(outsiderId, { title: "Theirs", funder: "Fund" });
+    const foreign = await storage.createGrantQuestion(elsewhere.id, { question: "Describe the families you serve." });
+    expect((await adapt(foreign.id)).status).toBe(404);
+  });
+});
+
+describe("generation audits", () => {
+  it("lists and exports audits per version and guards re-runs", async () => {
+    const ownerId = "workspace-audit-owner";
+    const outsiderId = "workspace-audit-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Audit Client" })).json();
+    const project = await (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title: "Audited", funder: "Fund" })).json();
+    const question = await storage.createGrantQuestion(project.id, { question: "Who do you serve?" });
+    const generated = await storage.createResponseVersion(question.id, "We serve families.", "professional", 1);
+    const edited = await storage.createResponseVersion(question.id, "We serve 1,240 families.", "edited", 2);
+    const audit = await storage.createGenerationAudit({
+      projectId: project.id,
+      questionId: question.id,
+      responseVersionId: generated.id,
+      operation: "generate",
+      provider: "local",
+      model: "local-deterministic",
+      request: { question: question.question, tone: "professional", retrievedChunks: [] },
+      createdBy: ownerId,
+    });
+
+    expect((await requestJson(`/api/questions/${question.id}/generation-audits`, outsiderId)).status).toBe(404);
+    expect(await (await requestJson(`/api/questions/${question.id}/generation-audits`, ownerId)).json()).toMatchObject([
+      { id: audit.id, responseVersionId: generated.id },
+    ]);
+    expect((await requestJson(`/api/projects/${project.id}/generation-audits`, outsiderId)).status).toBe(403);
+    expect(await (await requestJson(`/api/projects/${project.id}/generation-audits`, ownerId)).json()).toMatchObject([
+      { id: audit.id, question: "Who do you serve?", version: 1 },
+    ]);
+
+    const rerun = (versionId: string, body: unknown) =>
+      postJson(`/api/questions/${question.id}/versions/${versionId}/rerun`, ownerId, body);
+    expect((await rerun(edited.id, {})).status).toBe(404);
+    expect((await rerun(generated.id, { model: 42 })).status).toBe(400);
+    expect((await rerun(generated.id, { model: "not-a-model" })).status).toBe(400);
+  });
+});
+
+describe("generation dry-run", () => {
+  it("previews a question and a batch without generating or billing", async () => {
+    const ownerId = "workspace-dry-run-owner";
+    const outsiderId = "workspace-dry-run-outsider";
+    const org = await (await postJson("/api/organizations", ownerId, { name: "Dry Run Client" })).json();
+    const project = await (await postJson(`/api/organizations/${org.id}/projects`, ownerId, { title: "Previewed", funder: "Fund" })).json();
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe your program" });
+    await storage.createGrantQuestion(project.id, { question: "Describe your budget" });
+
+    expect((await postJson(`/api/questions/${question.id}/generate/dry-run`, outsiderId, {})).status).toBe(404);
+    const single = await postJson(`/api/questions/${question.id}/generate/dry-run`, ownerId, { tone: "data-driven" });
+    expect(single.status).toBe(200);
+    const preview = await single.json();
+    expect(preview.questions).toMatchObject([{ questionId: question.id }]);
+    expect(preview.tokensIn).toBeGreaterThan(0);
+    expect(preview.allowance).toMatchObject({ covered: true });
+
+    expect((await postJson(`/api/projects/${project.id}/generation-batches/dry-run`, outsiderId, {})).status).toBe(403);
+    const batch = await (await postJson(`/api/projects/${project.id}/generation-batches/dry-run`, ownerId, {})).json();
+    expect(batch.questions).toHaveLength(2);
+
+    expect(await storage.getResponseVersions(question.id)).toEqual([]);
+    expect((await storage.getGrantQuestion(question.id))?.response ?? null).toBeNull();
+  });
+});
+
+describe("organization AI endpoint", () => {
+  it("stores the endpoint per workspace and never returns the API key", async () => {
+    const userId = "workspace-ai-endpoint-user";
+    const org = await (await postJson("/api/organizations", userId, { name: "Self-hosted Client" })).json();
+    const path = `/api/organizations/${org.id}/ai-endpoint`;
+
+    const saved = await requestJson(path, userId, {
+      method: "PUT",
+      body: JSON.stringify({
+        baseUrl: "http://vllm.internal:8000/v1/",
+        apiKey: "secret-token",
+        chatModel: "llama3.1:8b",
+      }),
+    });
+    expect(saved.status).toBe(200);
+    const body = await saved.json();
+    expect(body).toMatchObject({ baseUrl: "http://vllm.internal:8000/v1", chatModel: "llama3.1:8b", hasApiKey: true });
+    expect(body).not.toHaveProperty("apiKey");
+
+    // Saving without a key keeps the stored one.
+    await requestJson(path, userId, {
+      method: "PUT",
+      body: JSON.stringify({ baseUrl: "http://vllm.internal:8000/v1", chatModel: "qwen2.5:14b" }),
+    });
+    expect(await storage.getOrganizationAiEndpoint(org.id)).toMatchObject({
+      apiKey: "secret-token",
+      chatModel: "qwen2.5:14b",
+    });
+
+    // "Clear stored key" sends null, which removes the key but keeps the endpoint.
+    const cleared = await requestJson(path, userId, {
+      method: "PUT",
+      body: JSON.stringify({ baseUrl: "http://vllm.internal:8000/v1", chatModel: "qwen2.5:14b", apiKey: null }),
+    });
+    expect(await cleared.json()).toMatchObject({ chatModel: "qwen2.5:14b", hasApiKey: false });
+    expect(await storage.getOrganizationAiEndpoint(org.id)).toMatchObject({ apiKey: null, chatModel: "qwen2.5:14b" });
+
+    expect((await requestJson(path, "workspace-ai-endpoint-intruder")).status).toBe(404);
+    const invalid = await requestJson(path, userId, {
+      method: "PUT",
+      body: JSON.stringify({ baseUrl: "ftp://vllm.internal", chatModel: "llama3.1:8b" }),
+    });
+    expect(invalid.status).toBe(400);
+
+    const status = await (await requestJson(`/api/debug/status?organizationId=${org.id}`, userId)).json();
+    expect(status.ai.organizationId).toBe(org.id);
+    expect(status.ai.endpoint).toMatchObject({ baseUrl: "http://vllm.internal:8000/v1", reachable: false });
+
+    expect((await requestJson(path, userId, { method: "DELETE" })).status).toBe(204);
+    expect(await (await requestJson(path, userId)).json()).toBeNull();
+  });
+});
+
+describe("RFP question extraction", () => {
+  it("reads the RFP with the model preference of the project's workspace", async () => {
+    const userId = "workspace-extract-user";
+    const org = await (await postJson("/api/organizations", userId, { name: "Residency Client" })).json();
+    await storage.upsertOrganizationAiEndpoint(org.id, {
+      baseUrl: "http://vllm.internal:8000/v1",
+      apiKey: null,
+      chatModel: "llama3.1:8b",
+    });
+    const project = await (
+      await postJson(`/api/organizations/${org.id}/projects`, userId, { title: "Residency Grant", funder: "Funder" })
+    ).json();
+    const extractQuestions = vi
+      .spyOn(aiService, "extractQuestions")
+      .mockResolvedValue({ questions: [], attachments: [], eligibility: [], evaluationCriteria: [], demo: false });
+
+    const extract = (user: string, fields: Record<string, string>) => {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(fields)) form.set(name, value);
+      form.set("file", new Blob(["1. Describe your program."], { type: "text/plain" }), "rfp.txt");
+      return fetch(`${baseUrl}/api/extract-questions`, { method: "POST", headers: { "x-test-user": user }, body: form });
+    };
+
+    expect((await extract(userId, { projectId: project.id })).status).toBe(200);
+    expect(extractQuestions.mock.calls[0][1]?.endpoint).toMatchObject({ baseUrl: "http://vllm.internal:8000/v1" });
+    expect((await extract(userId, { organizationId: org.id })).status).toBe(200);
+    expect(extractQuestions.mock.calls[1][1]?.endpoint).toMatchObject({ chatModel: "llama3.1:8b" });
+
+    expect((await extract("workspace-extract-intruder", { projectId: project.id })).status).toBe(403);
+    expect((await extract("workspace-extract-intruder", { organizationId: org.id })).status).toBe(404);
+    expect(extractQuestions).toHaveBeenCalledTimes(2);
+    extractQuestions.mockRestore();
   });
 });
 
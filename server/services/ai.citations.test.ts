@@ -8,6 +8,8 @@ const chunks: RetrievedContextChunk[] = [
     documentName: "Annual Report 2025.pdf",
     documentId: "doc-annual",
     chunkIndex: 4,
+    pageStart: 14,
+    pageEnd: 15,
     content: "In 2025 we served 1,240 families across three counties with a staff of 12.",
   },
   {
@@ -48,6 +50,12 @@ describe("normalizeGroundedCitations", () => {
     expect(result[0].chunkIndex).toBe(9);
   });
 
+  it("carries the matched chunk's pages, and none for chunks without them", () => {
+    const [annual, budget] = normalizeGroundedCitations([{ marker: "#1" }, { marker: "#2" }], chunks);
+    expect(annual).toMatchObject({ documentId: "doc-annual", pageStart: 14, pageEnd: 15 });
+    expect(budget).not.toHaveProperty("pageStart");
+  });
+
   it("prefers chunkIndex match over marker", () => {
     const result = normalizeGroundedCitations([{ chunkIndex: 4, marker: "#2" }], chunks);
     expect(result).toHaveLength(1);
@@ -0,0 +1,67 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { aiService, createJsonStringFieldReader, type GenerateGroundedResponseOptions } from "./ai.js";
+import { LocalProvider } from "./llm.js";
+
+function feed(pieces: string[]) {
+  const reader = createJsonStringFieldReader("text");
+  return pieces.map((piece) => reader.push(piece));
+}
+
+describe("createJsonStringFieldReader", () => {
+  it("emits the text field incrementally as the JSON payload streams in", () => {
+    const deltas = feed(['{"te', 'xt": "We served ', "1,240 families [#1]", '.", "citations": []}']);
+    expect(deltas).toEqual(["", "We served ", "1,240 families [#1]", "."]);
+  });
+
+  it("decodes escapes, including ones split across pushes", () => {
+    const deltas = feed(['{"text": "Line one\\', 'nLine \\"two\\" \\u00', "e9", '"}']);
+    expect(deltas.join("")).toBe('Line one\nLine "two" é');
+    expect(deltas[0]).toBe("Line one");
+    expect(deltas[1]).toBe('\nLine "two" ');
+  });
+
+  it("ignores other fields and anything after the closing quote", () => {
+    const deltas = feed(['{"assumptions": ["text?"], "text": "Short.", "quote": "more text"}']);
+    expect(deltas).toEqual(["Short."]);
+  });
+});
+
+describe("streamGroundedResponse", () => {
+  const options: GenerateGroundedResponseOptions = {
+    question: "How many families do you serve?",
+    tone: "professional",
+    model: "local-deterministic",
+    fallbackModel: "local-deterministic",
+    retrievedChunks: [
+      { documentName: "Annual Report.pdf", documentId: "doc-1", chunkIndex: 0, content: "We served 1,240 families in 2025." },
+    ],
+  };
+
+  it("stops the model call and skips the fallback when the caller aborts", async () => {
+    const disconnect = new AbortController();
+    const stream = vi.spyOn(LocalProvider.prototype, "stream").mockImplementation(async (request) => {
+      disconnect.abort();
+      expect(request.signal?.aborted).toBe(true);
+      throw request.signal?.reason;
+    });
+    const onDelta = vi.fn();
+
+    await expect(aiService.streamGroundedResponse({ ...options, signal: disconnect.signal }, onDelta)).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(onDelta).not.toHaveBeenCalled();
+    stream.mockRestore();
+  });
+
+  it("bounds every model call with a timeout", async () => {
+    const stream = vi.spyOn(LocalProvider.prototype, "stream");
+    const result = await aiService.streamGroundedResponse(options, () => {});
+    expect(result.text).toContain("1,240 families");
+    expect(stream.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+    expect(stream.mock.calls[0][0].signal?.aborted).toBe(false);
+    stream.mockRestore();
+  });
+});
@@ -5,7 +5,6 @@
  * 
  * 🔄 TIMEOUT & RETRY LOGIC:
  * - 60-second timeout for all AI requests
- * - Exponential backoff retry (max 2 retries)
  * - AbortController for proper request cancellation
  * 
  * 📊 STATUS MANAGEMENT:
@@ -24,54 +23,125 @@
 
 // Ensure environment variables are loaded first
 import "../config.js";
-import OpenAI from "openai";
+import type { AIProviderName } from "../../shared/ai-models.js";
+import {
+  limitInWords,
+  limitUnitLabel,
+  type AnswerLimitType,
+} from "../../shared/answer-limits.js";
+import type { EvaluationCriterion, RfpExtraction } from "../../shared/rfp-extraction.js";
+import type { WeakSentence } from "../../shared/draft-review.js";
+import { formatDocumentSummary, type DocumentSummary } from "../../shared/document-summary.js";
+import { citationPages, type CitationPages } from "../../shared/citation-source.js";
+import {
+  canServeModels,
+  runWithModelFallback,
+  type CompatibleEndpoint,
+  type ModelPreference,
+} from "./llm.js";
+import {
+  extractFunderProfileHeuristically,
+  formatFunderBrief,
+  FUNDER_MAX_TOKENS,
+  FUNDER_MODEL_CHARS,
+  FUNDER_PROFILE_INSTRUCTIONS,
+  normalizeModelFunderProfile,
+  type FunderBrief,
+  type FunderProfileDraft,
+} from "./funderProfiles.js";
+import {
+  extractProfileHeuristically,
+  normalizeModelProfile,
+  PROFILE_EXTRACTION_INSTRUCTIONS,
+  PROFILE_MODEL_CHARS,
+  type ProfileProposal,
+} from "./profileExtraction.js";
+import {
+  mergeSectionSummaries,
+  normalizeReducedSummary,
+  normalizeSectionSummary,
+  reduceGroups,
+  reduceInput,
+  splitIntoSections,
+  summarizeSectionHeuristically,
+  SUMMARY_MAP_INSTRUCTIONS,
+  SUMMARY_REDUCE_INSTRUCTIONS,
+  type SectionSummary,
+} from "./documentSummary.js";
+import {
+  extractPassHeuristically,
+  mergeRfpPasses,
+  normalizeModelPass,
+  RFP_EXTRACTION_INSTRUCTIONS,
+  RFP_MAX_PASSES,
+  splitIntoPasses,
+  type RfpPassResult,
+} from "./rfpExtraction.js";
 
 // Timeout and retry configuration
 const AI_TIMEOUT = 60000; // 60 seconds
-const MAX_RETRIES = 2;
-const RETRY_DELAY = 2000; // 2 seconds
+/** Response budget of one answer review */
+export const REVIEW_MAX_TOKENS = 2000;
 
-// Check for valid API key
-const apiKey = process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY;
-const hasValidApiKey = apiKey && apiKey !== "default_key" && apiKey.startsWith("sk-");
-
-console.log("OpenAI API key configured:", !!hasValidApiKey);
-
-const openai = new OpenAI({
-  apiKey: apiKey || "default_key", // Will trigger error for invalid key, handled in fallbacks
-});
+/** Aborts a model call after AI_TIMEOUT, or earlier when `signal` does. */
+function modelCallSignal(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(AI_TIMEOUT);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
 
-export interface RetrievedContextChunk {
+export interface RetrievedContextChunk extends CitationPages {
   documentName: string;
   documentId: string;
   content: string;
   chunkIndex: number;
   similarity?: number;
+  /** Not shown to the model; kept for the generation audit */
+  chunkId?: string;
 }
 
 export interface GeneratedGroundedResponse {
   text: string;
-  citations: Array<{
-    documentName: string;
-    documentId: string;
-    chunkIndex: number;
-    quote?: string;
-  }>;
+  citations: Array<
+    {
+      documentName: string;
+      documentId: string;
+      chunkIndex: number;
+      quote?: string;
+    } & CitationPages
+  >;
   assumptions: string[];
   usage?: {
-    provider: "openai";
+    provider: AIProviderName;
     model: string;
     tokensIn: number;
     tokensOut: number;
   };
+  /** Sampling temperature sent to the model; absent when no model answered */
+  temperature?: number;
+  /** Wall time of the model call, including a fallback to the second model */
+  latencyMs?: number;
 }
 
+export interface DocumentSummaryResult {
+  summary: DocumentSummary;
+  /** `formatDocumentSummary(summary)`, stored as the document's summary */
+  text: string;
+  usage: GeneratedGroundedResponse["usage"] | null;
+}
+
+/** Provider, model and tokens of one model call, as billed. */
+export type ModelCallUsage = NonNullable<GeneratedGroundedResponse["usage"]>;
+
 export interface GenerateGroundedResponseOptions {
   question: string;
   tone: string;
+  /** Answer limit, counted in `limitType` units (words when omitted) */
   wordLimit?: number;
+  limitType?: AnswerLimitType;
   emphasisAreas?: string[];
   organizationInfo?: any;
+  /** The project's funder; answers are written to its priorities and criteria */
+  funder?: FunderBrief | null;
   retrievedChunks: RetrievedContextChunk[];
   /** Saved user setting: concise | balanced | comprehensive */
   lengthPreference?: string | null;
@@ -83,6 +153,77 @@ export interface GenerateGroundedResponseOptions {
   answerStructure?: string | null;
   /** confident | balanced | cautious */
   claimConfidence?: string | null;
+  /** Saved user settings: preferred model, retried on fallbackModel */
+  model?: string | null;
+  fallbackModel?: string | null;
+  /** Organization's self-hosted server; replaces the models above when set */
+  endpoint?: CompatibleEndpoint | null;
+  /** Rewrite one span of an existing answer instead of drafting a new one */
+  passage?: PassageRewrite;
+  /** Condense or expand a whole existing answer into a length range */
+  fit?: LengthFit;
+  /** Saved answers the writer chose as models for this one */
+  exemplars?: LibraryExemplar[];
+  /** Rewrite an answer to another question for this one */
+  adapt?: AnswerAdaptation;
+  /** Cancels the model call, e.g. when the client streaming it disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * An answer written for an earlier, similar question. Its [#N] markers
+ * already use the numbering of `retrievedChunks`.
+ */
+export interface AnswerAdaptation {
+  question: string;
+  answer: string;
+}
+
+/**
+ * An answer from the organization's library. Its [#N] markers already use
+ * the numbering of `retrievedChunks`; markers whose chunk is not in the
+ * prompt have been removed.
+ */
+export interface LibraryExemplar {
+  title: string;
+  question: string;
+  answer: string;
+}
+
+/**
+ * One span of an existing answer to rewrite in place. `before` and `after`
+ * are context only and carry no citation markers; markers in `selected`
+ * already use the [#N] numbering of `retrievedChunks`.
+ */
+export interface PassageRewrite {
+  before: string;
+  selected: string;
+  after: string;
+  instruction?: string | null;
+}
+
+/**
+ * An existing answer to condense or expand into [min, max] words or
+ * characters. Its [#N] markers already use the numbering of `retrievedChunks`.
+ */
+export interface LengthFit {
+  text: string;
+  unit: AnswerLimitType;
+  min: number;
+  max: number;
+  direction: "condense" | "expand";
+}
+
+/**
+ * An answer to score against the funder's rubric. `flaggedSentences` are the
+ * ones the claim check found unsupported or uncited, given as hints.
+ */
+export interface AnswerReviewRequest {
+  question: string;
+  answer: string;
+  rubric: EvaluationCriterion[];
+  funder?: FunderBrief | null;
+  flaggedSentences: WeakSentence[];
 }
 
 /**
@@ -162,6 +303,7 @@ export function normalizeGroundedCitations(
       documentId: match.documentId,
       chunkIndex: match.chunkIndex,
       quote,
+      ...citationPages(match),
     });
   }
 
@@ -217,7 +359,7 @@ const PROPER_NOUN_STOPWORDS = new Set([
  * Extracts candidate proper-noun phrases (sequences of capitalized words,
  * 1-3 tokens) from a sentence, skipping common sentence-initial words.
  */
-function extractProperNounCandidates(sentence: string): string[] {
+export function extractProperNounCandidates(sentence: string): string[] {
   const matches = sentence.match(/\b([A-Z][a-zA-Z.'-]*(?:\s+[A-Z][a-zA-Z.'-]*){0,2})\b/g) ?? [];
   const candidates: string[] = [];
   for (const raw of matches) {
@@ -304,6 +446,61 @@ export function findUnsupportedSpecifics(
   return { text, flaggedAssumptions };
 }
 
+/**
+ * Incrementally decodes one top-level string field out of a JSON object that
+ * is still being streamed. Each `push` returns the newly decoded characters of
+ * that field (possibly ""), so a JSON-mode completion can be shown as prose
+ * while it is generated. Escapes split across pushes are held back until
+ * complete; anything after the closing quote is ignored.
+ */
+export function createJsonStringFieldReader(field: string) {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = "";
+  let valueStart = -1;
+  let cursor = 0;
+  let closed = false;
+
+  return {
+    push(piece: string): string {
+      buffer += piece;
+      if (closed) return "";
+      if (valueStart < 0) {
+        const match = opener.exec(buffer);
+        if (!match) return "";
+        valueStart = match.index + match[0].length;
+        cursor = valueStart;
+      }
+
+      let out = "";
+      while (cursor < buffer.length) {
+        const ch = buffer[cursor];
+        if (ch === '"') {
+          closed = true;
+          break;
+        }
+        if (ch !== "\\") {
+          out += ch;
+          cursor += 1;
+          continue;
+        }
+        const next = buffer[cursor + 1];
+        if (next === undefined) break;
+        if (next === "u") {
+          const hex = buffer.slice(cursor + 2, cursor + 6);
+          if (hex.length < 4) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          cursor += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+        out += escapes[next] ?? next;
+        cursor += 2;
+      }
+      return out;
+    },
+  };
+}
+
 export interface MetricSuggestion {
   key: string;
   label: string;
@@ -316,18 +513,6 @@ export interface MetricSuggestion {
 }
 
 export class AIService {
-  // Helper function to create timeout promise
-  private createTimeoutPromise(timeoutMs: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('REQUEST_TIMEOUT')), timeoutMs);
-    });
-  }
-
-  // Helper function to sleep for retry delay
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   // Strip markdown formatting from text to ensure plain text output
   private stripMarkdown(text: string): string {
     if (!text) return text;
@@ -367,9 +552,13 @@ export class AIService {
     return 0.15 + (c / 100) * 0.72;
   }
 
-  private maxOutputTokens(wordLimit?: number, lengthPreference?: string | null): number {
+  private maxOutputTokens(
+    wordLimit?: number,
+    lengthPreference?: string | null,
+    limitType: AnswerLimitType = "words"
+  ): number {
     if (wordLimit) {
-      return Math.min(Math.max(wordLimit, 1) * 3, 2500);
+      return Math.min(Math.max(limitInWords(wordLimit, limitType), 1) * 3, 2500);
     }
     switch (lengthPreference) {
       case "concise":
@@ -456,9 +645,40 @@ export class AIService {
     ].join("\n\n");
   }
 
-  async generateGroundedResponse(
+  /**
+   * Short-circuit result when generation cannot be grounded at all (no
+   * provider configured for the preferred/fallback models, or nothing
+   * retrieved). Returns null when the model should be called.
+   */
+  private groundedUnavailableResponse(
     options: GenerateGroundedResponseOptions
-  ): Promise<GeneratedGroundedResponse> {
+  ): GeneratedGroundedResponse | null {
+    const configured = canServeModels(this.modelPreference(options));
+    if (options.retrievedChunks.length && configured) return null;
+
+    const reason = !configured
+      ? "AI generation is not configured on this deployment (no valid API key)."
+      : "No supporting material was found in the uploaded documents for this question.";
+    const actionable = !configured
+      ? "Ask an administrator to configure OPENAI_API_KEY or ANTHROPIC_API_KEY."
+      : "Upload documents that cover the specific program, budget, outcomes, or organizational facts this question asks about, then regenerate.";
+
+    return {
+      text: `${reason} ${actionable}`,
+      citations: [],
+      assumptions: [reason],
+    };
+  }
+
+  /** The system and user prompt a grounded call would send, for cost previews. */
+  groundedPromptText(options: GenerateGroundedResponseOptions): string {
+    const { instructions, userPrompt } = this.buildGroundedPrompt(options);
+    return `${instructions}\n\n${userPrompt}`;
+  }
+
+  private buildGroundedPrompt(
+    options: GenerateGroundedResponseOptions
+  ): { instructions: string; userPrompt: string } {
     const {
       question,
       tone,
@@ -467,27 +687,11 @@ export class AIService {
       organizationInfo,
       retrievedChunks,
       lengthPreference = null,
-      creativity = null,
       audience = null,
       answerStructure = null,
       claimConfidence = null,
     } = options;
 
-    if (!retrievedChunks.length || !hasValidApiKey) {
-      const reason = !hasValidApiKey
-        ? "AI generation is not configured on this deployment (no valid API key)."
-        : "No supporting material was found in the uploaded documents for this question.";
-      const actionable = !hasValidApiKey
-        ? "Ask an administrator to configure OPENAI_API_KEY."
-        : "Upload documents that cover the specific program, budget, outcomes, or organizational facts this question asks about, then regenerate.";
-
-      return {
-        text: `${reason} ${actionable}`,
-        citations: [],
-        assumptions: [reason],
-      };
-    }
-
     const contextLines = retrievedChunks
       .map((chunk, index) => {
         const similarity =
@@ -505,6 +709,62 @@ export class AIService {
       lengthPreference,
     });
 
+    const passage = options.passage;
+    const passageInstructions = passage
+      ? `
+
+PASSAGE REWRITE
+- You are NOT drafting the whole answer. Rewrite only the passage marked "Passage to rewrite"; the text before and after it stays exactly as it is.
+- The rewritten passage must read naturally between that surrounding text: do not repeat what it already says, and keep paragraph breaks only where the original passage had them.
+- Follow the writer's instruction when one is given, within the grounding contract.
+- "text" must contain ONLY the replacement passage, with [#N] markers that refer to the context snippets below. "assumptions" covers gaps in this passage only.`
+      : "";
+
+    const funderInstructions = options.funder
+      ? `
+
+FUNDER ALIGNMENT
+- The funder under "Funder" scores this answer. Where the snippets support it, make explicit how the work serves the funder's priorities and meets the evaluation criteria that bear on this question, most heavily weighted first.
+- Use the funder's preferred terms in place of synonyms.
+- Alignment never overrides the grounding contract: do not claim a fit the snippets do not support. When a criterion asks for something the snippets lack, add it to "assumptions".`
+      : "";
+
+    const exemplars = options.exemplars ?? [];
+    const exemplarInstructions = exemplars.length
+      ? `
+
+EXEMPLAR ANSWERS
+- Under "Exemplar answers" are answers the organization approved for earlier applications. Treat them as the preferred starting point: reuse their structure, framing and wording wherever they answer this question.
+- Adapt them to this question's wording, emphasis and limit; drop what this question does not ask for.
+- Their claims are subject to the grounding contract like any other: keep a claim only with its [#N] marker, which already refers to the snippets below.`
+      : "";
+
+    const adapt = options.adapt;
+    const adaptInstructions = adapt
+      ? `
+
+ANSWER ADAPTATION
+- You are NOT drafting from scratch. Rewrite the answer marked "Earlier answer", written for "Earlier question", so it answers the Grant Question above.
+- Follow the Grant Question's wording: answer what it asks, in the order it asks, and drop material it does not ask for. Respect its word or character limit.
+- Keep each claim you keep with its [#N] marker exactly as written; do not renumber markers or invent new ones. Add detail only from the context snippets below, cited with their markers.
+- "text" must contain ONLY the adapted answer. "assumptions" covers what the Grant Question asks that the snippets do not support.`
+      : "";
+
+    const fit = options.fit;
+    const fitInstructions = fit
+      ? `
+
+LENGTH FIT
+- You are NOT drafting a new answer. ${fit.direction === "condense" ? "Condense" : "Expand"} the answer marked "Answer to fit" so it is between ${fit.min} and ${fit.max} ${limitUnitLabel(fit.unit)}. Every [#N] marker counts toward that length.
+- ${
+          fit.direction === "condense"
+            ? "Keep the claims that matter most to the question and drop lower-priority ones whole; never leave fragments of a dropped claim behind."
+            : "Add detail only from the context snippets below, cited with their markers. Keep every existing claim."
+        }
+- Keep each surviving claim's [#N] marker exactly as written; do not renumber markers or invent new ones.
+- "text" must contain ONLY the rewritten answer. "assumptions" covers gaps in the rewritten answer only.`
+      : "";
+
     const instructions = `You are a senior grant writer drafting one answer for a grant application. Follow EVERY rule below.
 
 VOICE
@@ -551,15 +811,31 @@ Return a single JSON object with EXACTLY these fields:
 - citations (array): one entry per unique marker used, shape { marker: "#N", documentName, documentId, chunkIndex, quote } where quote is a short verbatim phrase from the cited snippet.
 - assumptions (array of strings): ONLY for gaps where the snippets did not support something the funder likely needs. Each item MUST be one concise question ending in "?". Do not state opinions or thematic summaries (wrong: "Community engagement is crucial…"). Correct: "How many participants do you project annually, and over what geography?"
 
-Stay within the word limit if one is given. The review committee values specificity over polish.`;
+Stay within the word or character limit if one is given. The review committee values specificity over polish.${funderInstructions}${exemplarInstructions}${passageInstructions}${fitInstructions}${adaptInstructions}`;
 
     const userPrompt = [
       `Grant Question: ${question}`,
       `Tone: ${tone}`,
-      wordLimit ? `Target word count: ${wordLimit}` : "",
+      wordLimit
+        ? (options.limitType ?? "words") === "words"
+          ? `Target word count: ${wordLimit}`
+          : `Hard limit: ${wordLimit} ${limitUnitLabel(options.limitType!)}, [#N] markers included`
+        : "",
       !wordLimit && lengthPreference ? `Length preference: ${lengthPreference}` : "",
       emphasisAreas.length ? `Emphasis areas: ${emphasisAreas.join(', ')}` : "",
       `Organization info: ${organizationInfo ? JSON.stringify(organizationInfo) : 'N/A'}`,
+      options.funder ? `\n${formatFunderBrief(options.funder)}` : "",
+      exemplars.length
+        ? `\nExemplar answers:\n${exemplars
+            .map((exemplar, index) => `(${index + 1}) ${exemplar.title}\nQuestion: ${exemplar.question}\nAnswer: ${exemplar.answer}`)
+            .join("\n\n")}`
+        : "",
+      passage ? `\nAnswer before the passage:\n${passage.before.trim() || "(start of answer)"}` : "",
+      passage ? `\nPassage to rewrite:\n${passage.selected.trim()}` : "",
+      passage ? `\nAnswer after the passage:\n${passage.after.trim() || "(end of answer)"}` : "",
+      passage?.instruction ? `\nWriter's instruction: ${passage.instruction}` : "",
+      adapt ? `\nEarlier question: ${adapt.question.trim()}\n\nEarlier answer:\n${adapt.answer.trim()}` : "",
+      fit ? `\nAnswer to fit (${fit.min}-${fit.max} ${limitUnitLabel(fit.unit)}):\n${fit.text.trim()}` : "",
       ``,
       `Context Snippets (cite these by marker):`,
       contextLines,
@@ -567,243 +843,562 @@ Stay within the word limit if one is given. The review committee values specific
       .filter(Boolean)
       .join("\n");
 
-    try {
-      const model = process.env.GRANTED_DEFAULT_MODEL || 'gpt-4o-mini';
-      const temperature = this.creativityToTemperature(creativity);
-      const max_tokens = this.maxOutputTokens(wordLimit, lengthPreference);
-      const response = await openai.chat.completions.create({
-        model,
-        response_format: { type: 'json_object' },
-        temperature,
-        max_tokens,
-        messages: [
-          { role: 'system', content: instructions },
-          { role: 'user', content: userPrompt },
-        ],
-      });
+    return { instructions, userPrompt };
+  }
 
-      const content = response.choices[0]?.message?.content?.trim();
-      if (!content) {
-        throw new Error('Empty response from model');
-      }
+  /** Parses the model's JSON payload into a normalized, verified response. */
+  private parseGroundedContent(
+    content: string,
+    options: GenerateGroundedResponseOptions
+  ): Omit<GeneratedGroundedResponse, "usage"> {
+    const { retrievedChunks } = options;
+    const parsed = JSON.parse(content);
+    const normalizedCitations = normalizeGroundedCitations(parsed.citations, retrievedChunks);
+
+    const rawAssumptions = Array.isArray(parsed.assumptions) ? parsed.assumptions : [];
+    const assumptions = rawAssumptions
+      .map((a: any) =>
+        typeof a === "string" ? a.trim() : typeof a?.text === "string" ? a.text.trim() : ""
+      )
+      .filter((s: string) => s.length > 0);
+
+    const rawText = parsed.text || parsed.answer || "";
+    const text =
+      (options.answerStructure ?? "prose") === "bulleted"
+        ? rawText.trim()
+        : this.stripMarkdown(rawText);
+
+    // Verification pass: normalizeGroundedCitations only checks that each
+    // citation's *quote* is real. It says nothing about whether the
+    // generated sentence sitting next to that citation invented extra
+    // specifics (named entities, etc.) the source never stated. Scan for
+    // that here and surface any hit as an assumption rather than letting
+    // fabricated specifics ride as if they were sourced.
+    const { flaggedAssumptions } = findUnsupportedSpecifics(text, retrievedChunks);
+
+    return {
+      text,
+      citations: normalizedCitations,
+      assumptions: [...assumptions, ...flaggedAssumptions],
+    };
+  }
 
-      const parsed = JSON.parse(content);
-      const normalizedCitations = normalizeGroundedCitations(parsed.citations, retrievedChunks);
-
-      const rawAssumptions = Array.isArray(parsed.assumptions) ? parsed.assumptions : [];
-      const assumptions = rawAssumptions
-        .map((a: any) =>
-          typeof a === "string" ? a.trim() : typeof a?.text === "string" ? a.text.trim() : ""
-        )
-        .filter((s: string) => s.length > 0);
-
-      const rawText = parsed.text || parsed.answer || "";
-      const text =
-        (options.answerStructure ?? "prose") === "bulleted"
-          ? rawText.trim()
-          : this.stripMarkdown(rawText);
-
-      // Verification pass: normalizeGroundedCitations only checks that each
-      // citation's *quote* is real. It says nothing about whether the
-      // generated sentence sitting next to that citation invented extra
-      // specifics (named entities, etc.) the source never stated. Scan for
-      // that here and surface any hit as an assumption rather than letting
-      // fabricated specifics ride as if they were sourced.
-      const { flaggedAssumptions } = findUnsupportedSpecifics(text, retrievedChunks);
-      const allAssumptions = [...assumptions, ...flaggedAssumptions];
-
-      return {
-        text,
-        citations: normalizedCitations,
-        assumptions: allAssumptions,
-        usage: {
-          provider: "openai",
-          model,
-          tokensIn: response.usage?.prompt_tokens ?? Math.ceil((instructions.length + userPrompt.length) / 4),
-          tokensOut: response.usage?.completion_tokens ?? 0,
+  /** Raw-excerpt fallback used when the model call itself fails. */
+  private groundedExcerptFallback(
+    retrievedChunks: RetrievedContextChunk[]
+  ): GeneratedGroundedResponse {
+    const fallbackChunks = retrievedChunks.slice(0, 3);
+    return {
+      text:
+        `Unable to complete a grounded draft. Here are key excerpts to guide manual drafting:\n\n${fallbackChunks
+          .map((chunk) => `- ${chunk.documentName}: ${chunk.content}`)
+          .join('\n')}`,
+      citations: fallbackChunks.map((chunk) => ({
+        documentName: chunk.documentName,
+        documentId: chunk.documentId,
+        chunkIndex: chunk.chunkIndex,
+        quote: chunk.content.slice(0, 160),
+        ...citationPages(chunk),
+      })),
+      assumptions: ['Model output unavailable; provided raw excerpts instead.'],
+    };
+  }
+
+  private modelPreference(options: ModelPreference): ModelPreference {
+    return { model: options.model, fallbackModel: options.fallbackModel, endpoint: options.endpoint };
+  }
+
+  async generateGroundedResponse(
+    options: GenerateGroundedResponseOptions
+  ): Promise<GeneratedGroundedResponse> {
+    const { wordLimit, retrievedChunks, lengthPreference = null, creativity = null } = options;
+
+    const unavailable = this.groundedUnavailableResponse(options);
+    if (unavailable) return unavailable;
+
+    const { instructions, userPrompt } = this.buildGroundedPrompt(options);
+    const temperature = this.creativityToTemperature(creativity);
+    const startedAt = Date.now();
+
+    try {
+      return await runWithModelFallback(
+        this.modelPreference(options),
+        "generateGroundedResponse",
+        async (provider, model) => {
+          const result = await provider.generate({
+            model,
+            system: instructions,
+            messages: [{ role: "user", content: userPrompt }],
+            json: true,
+            temperature,
+            maxTokens: this.maxOutputTokens(wordLimit, lengthPreference, options.limitType),
+          });
+
+          const content = result.text.trim();
+          if (!content) {
+            throw new Error('Empty response from model');
+          }
+
+          return {
+            ...this.parseGroundedContent(content, options),
+            usage: {
+              provider: result.provider,
+              model: result.model,
+              tokensIn: result.tokensIn,
+              tokensOut: result.tokensOut,
+            },
+            temperature,
+            latencyMs: Date.now() - startedAt,
+          };
         },
-      };
+      );
     } catch (error) {
       console.error('generateGroundedResponse failed:', error);
-      const fallbackChunks = retrievedChunks.slice(0, 3);
-      return {
-        text:
-          `Unable to complete a grounded draft. Here are key excerpts to guide manual drafting:\n\n${fallbackChunks
-            .map((chunk) => `- ${chunk.documentName}: ${chunk.content}`)
-            .join('\n')}`,
-        citations: fallbackChunks.map((chunk) => ({
-          documentName: chunk.documentName,
-          documentId: chunk.documentId,
-          chunkIndex: chunk.chunkIndex,
-          quote: chunk.content.slice(0, 160),
-        })),
-        assumptions: ['Model output unavailable; provided raw excerpts instead.'],
-      };
+      return this.groundedExcerptFallback(retrievedChunks);
     }
   }
 
-  async summarizeDocument(content: string, filename: string): Promise<string> {
-    if (!hasValidApiKey) {
-      console.log("No valid API key found, using mock summary for development...");
-      return this.getMockSummary(filename, content);
+  /**
+   * Rewrite one passage of an answer (`options.passage`). Unlike
+   * generateGroundedResponse there is no excerpt fallback: the caller splices
+   * the result into a draft the writer already likes, so a failure throws and
+   * leaves the draft untouched.
+   */
+  async regeneratePassage(
+    options: GenerateGroundedResponseOptions & { passage: PassageRewrite }
+  ): Promise<GeneratedGroundedResponse> {
+    return this.runGroundedRewrite(options, "regeneratePassage");
+  }
+
+  /**
+   * Condense or expand a whole answer into a length range (`options.fit`).
+   * Like regeneratePassage, a failure throws rather than falling back.
+   */
+  async fitToLength(
+    options: GenerateGroundedResponseOptions & { fit: LengthFit }
+  ): Promise<GeneratedGroundedResponse> {
+    return this.runGroundedRewrite(options, "fitToLength");
+  }
+
+  /**
+   * Rewrite an answer to a similar earlier question for this one
+   * (`options.adapt`). Like regeneratePassage, a failure throws rather than
+   * falling back.
+   */
+  async adaptAnswer(
+    options: GenerateGroundedResponseOptions & { adapt: AnswerAdaptation }
+  ): Promise<GeneratedGroundedResponse> {
+    return this.runGroundedRewrite(options, "adaptAnswer");
+  }
+
+  private runGroundedRewrite(
+    options: GenerateGroundedResponseOptions,
+    operation: string
+  ): Promise<GeneratedGroundedResponse> {
+    const { wordLimit, lengthPreference = null, creativity = null } = options;
+    const { instructions, userPrompt } = this.buildGroundedPrompt(options);
+    const temperature = this.creativityToTemperature(creativity);
+    const startedAt = Date.now();
+
+    return runWithModelFallback(
+      this.modelPreference(options),
+      operation,
+      async (provider, model) => {
+        const result = await provider.generate({
+          model,
+          system: instructions,
+          messages: [{ role: "user", content: userPrompt }],
+          json: true,
+          temperature,
+          maxTokens: this.maxOutputTokens(wordLimit, lengthPreference, options.limitType),
+        });
+
+        const content = result.text.trim();
+        if (!content) {
+          throw new Error('Empty response from model');
+        }
+
+        return {
+          ...this.parseGroundedContent(content, options),
+          usage: {
+            provider: result.provider,
+            model: result.model,
+            tokensIn: result.tokensIn,
+            tokensOut: result.tokensOut,
+          },
+          temperature,
+          latencyMs: Date.now() - startedAt,
+        };
+      },
+    );
+  }
+
+  /**
+   * Streaming variant of generateGroundedResponse. `onDelta` receives the
+   * answer text as the model writes it (decoded out of the partial JSON
+   * payload); the resolved value is the same normalized response the
+   * non-streaming call returns, so callers persist it identically.
+   *
+   * Streamed text is raw model output — markdown stripping and citation
+   * normalization only apply to the resolved value. The fallback model is
+   * only tried if the primary failed before any text reached the client.
+   * Each model call is aborted after AI_TIMEOUT; when `options.signal`
+   * aborts, the call is stopped and the abort error thrown, with no fallback.
+   */
+  async streamGroundedResponse(
+    options: GenerateGroundedResponseOptions,
+    onDelta: (delta: string) => void
+  ): Promise<GeneratedGroundedResponse> {
+    const { wordLimit, retrievedChunks, lengthPreference = null, creativity = null, signal } = options;
+
+    const unavailable = this.groundedUnavailableResponse(options);
+    if (unavailable) {
+      onDelta(unavailable.text);
+      return unavailable;
     }
 
-    let _lastError: Error | null = null;
-    
-    // Retry logic with exponential backoff  
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-      let timeoutId: NodeJS.Timeout | undefined;
-      try {
-        console.log(`Document summarization attempt ${attempt + 1}/${MAX_RETRIES + 1} for: ${filename}`);
-        
-        const controller = new AbortController();
-        timeoutId = setTimeout(() => controller.abort(), AI_TIMEOUT);
-
-        const aiPromise = openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
+    const { instructions, userPrompt } = this.buildGroundedPrompt(options);
+    const temperature = this.creativityToTemperature(creativity);
+    const startedAt = Date.now();
+    let streamedAnyText = false;
+
+    try {
+      return await runWithModelFallback(
+        this.modelPreference(options),
+        "streamGroundedResponse",
+        async (provider, model) => {
+          const textField = createJsonStringFieldReader("text");
+          const result = await provider.stream(
             {
-              role: "system",
-              content: "You are a document analysis expert. Create a concise summary of the uploaded document that focuses on key information relevant to grant writing, including mission statements, achievements, capabilities, and impact metrics."
+              model,
+              system: instructions,
+              messages: [{ role: "user", content: userPrompt }],
+              json: true,
+              temperature,
+              maxTokens: this.maxOutputTokens(wordLimit, lengthPreference, options.limitType),
+              signal: modelCallSignal(signal),
             },
-            {
-              role: "user",
-              content: `Please summarize this document: ${filename}\n\nContent:\n${content.substring(0, 8000)}`
-            }
-          ],
-          max_tokens: 500,
-          temperature: 0.3,
-        }, {
-          signal: controller.signal
-        });
+            (piece) => {
+              const delta = textField.push(piece);
+              if (delta) {
+                streamedAnyText = true;
+                onDelta(delta);
+              }
+            },
+          );
 
-        const timeoutPromise = this.createTimeoutPromise(AI_TIMEOUT);
-        
-        const response = await Promise.race([aiPromise, timeoutPromise]);
-        
-        if (timeoutId) clearTimeout(timeoutId);
-        
-        const summary = response.choices[0].message.content;
-        if (!summary || summary.trim().length === 0) {
-          throw new Error("Empty summary from AI service");
-        }
+          const content = result.text.trim();
+          if (!content) {
+            throw new Error('Empty response from model');
+          }
 
-        console.log(`Document summarization successful on attempt ${attempt + 1}`);
-        return summary;
-
-      } catch (error: any) {
-        if (timeoutId) clearTimeout(timeoutId);
-        _lastError = error;
-        
-        console.error(`Document summarization attempt ${attempt + 1} failed:`, error.message || error);
-
-        // Handle specific error types
-        if (error.message === 'REQUEST_TIMEOUT' || error.name === 'AbortError') {
-          console.log(`Document summarization timed out after ${AI_TIMEOUT}ms on attempt ${attempt + 1}`);
-        } else if (error.code === 'insufficient_quota' || error.code === 'rate_limit_exceeded') {
-          console.log('API quota/rate limit error during document summarization');
-        } else if (error.code === 'invalid_api_key' || error.status === 401) {
-          console.log('API authentication error during document summarization');
-        }
+          return {
+            ...this.parseGroundedContent(content, options),
+            usage: {
+              provider: result.provider,
+              model: result.model,
+              tokensIn: result.tokensIn,
+              tokensOut: result.tokensOut,
+            },
+            temperature,
+            latencyMs: Date.now() - startedAt,
+          };
+        },
+        { shouldRetry: () => !streamedAnyText && !signal?.aborted },
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('streamGroundedResponse failed:', error);
+      const fallback = this.groundedExcerptFallback(retrievedChunks);
+      // Only push the fallback as a delta when nothing was shown yet; otherwise
+      // the final event replaces the partial text wholesale.
+      if (!streamedAnyText) onDelta(fallback.text);
+      return fallback;
+    }
+  }
+
+  /**
+   * Summarizes a document of any length: each section is summarized, then
+   * the section summaries are combined (see documentSummary.ts). Without a
+   * configured model, or for a section the model cannot read, the summary is
+   * pattern-based. `onUsage` sees each model call as it completes, so a long
+   * document is billed as it goes; `usage` totals them, null when none was made.
+   */
+  async summarizeDocument(
+    content: string,
+    filename: string,
+    preference: ModelPreference = {},
+    onUsage?: (usage: NonNullable<DocumentSummaryResult["usage"]>) => Promise<void> | void
+  ): Promise<DocumentSummaryResult> {
+    const sections = splitIntoSections(content);
+    const useModel = canServeModels(preference);
+    if (!useModel) {
+      console.log(`No valid API key found, summarizing ${filename} heuristically...`);
+    }
 
-        // On final attempt or certain errors, fall back to mock summary
-        if (attempt === MAX_RETRIES) {
-          console.log("Maximum retries reached, falling back to mock summary for development...");
-          return this.getMockSummary(filename, content);
+    let usage: DocumentSummaryResult["usage"] = null;
+    const runJSON = async (label: string, system: string, userContent: string, maxTokens: number) => {
+      const result = await runWithModelFallback(preference, label, (provider, model) =>
+        provider.generateJSON({
+          model,
+          system,
+          messages: [{ role: "user", content: userContent }],
+          maxTokens,
+          temperature: 0.2,
+          signal: AbortSignal.timeout(AI_TIMEOUT),
+        })
+      );
+      usage = {
+        provider: result.provider,
+        model: result.model,
+        tokensIn: (usage?.tokensIn ?? 0) + result.tokensIn,
+        tokensOut: (usage?.tokensOut ?? 0) + result.tokensOut,
+      };
+      await onUsage?.({
+        provider: result.provider,
+        model: result.model,
+        tokensIn: result.tokensIn,
+        tokensOut: result.tokensOut,
+      });
+      return result.json;
+    };
+
+    // Map: one summary per section.
+    const partials: SectionSummary[] = [];
+    for (const [index, section] of sections.entries()) {
+      let partial: SectionSummary | null = null;
+      if (useModel) {
+        try {
+          const json = await runJSON(
+            "summarizeDocument",
+            SUMMARY_MAP_INSTRUCTIONS,
+            `Document: ${filename}\nSection ${index + 1} of ${sections.length}${section.heading ? ` (under "${section.heading}")` : ""}\n\n${section.text}`,
+            1200,
+          );
+          partial = normalizeSectionSummary(json, section);
+        } catch (error) {
+          console.error(`Summarization of ${filename} section ${index + 1} failed:`, error);
         }
+      }
+      partials.push(partial ?? summarizeSectionHeuristically(section));
+    }
 
-        // Wait before retrying (exponential backoff)
-        if (attempt < MAX_RETRIES) {
-          const delay = RETRY_DELAY * Math.pow(2, attempt);
-          console.log(`Waiting ${delay}ms before document summarization retry...`);
-          await this.sleep(delay);
+    // Reduce: overviews and programs are combined in groups until one remains.
+    let level = partials;
+    while (useModel && level.length > 1) {
+      const next: SectionSummary[] = [];
+      for (const group of reduceGroups(level)) {
+        let reduced: Pick<SectionSummary, "overview" | "programs"> | null = null;
+        if (group.length > 1) {
+          try {
+            reduced = normalizeReducedSummary(
+              await runJSON("summarizeDocument.reduce", SUMMARY_REDUCE_INSTRUCTIONS, reduceInput(group), 1200),
+            );
+          } catch (error) {
+            console.error(`Combining section summaries of ${filename} failed:`, error);
+          }
         }
+        next.push({ ...mergeSectionSummaries(group), ...reduced });
       }
+      level = next;
     }
 
-    // This shouldn't be reached, but just in case
-    console.error("Unexpected error in summarizeDocument retry loop");
-    return this.getMockSummary(filename, content);
+    const summary: DocumentSummary = {
+      ...mergeSectionSummaries(level),
+      // Figures and dates always come from the sections, with their quotes.
+      keyNumbers: mergeSectionSummaries(partials).keyNumbers,
+      dates: mergeSectionSummaries(partials).dates,
+      sectionCount: sections.length,
+    };
+    if (!summary.overview) summary.overview = `${filename} has no readable text.`;
+    return { summary, text: formatDocumentSummary(summary), usage };
   }
 
-  private getMockSummary(filename: string, content: string): string {
-    const docType = this.getDocumentType(filename, content);
-    
-    const mockSummaries: Record<string, string> = {
-      organizationProfile: `Organization profile document containing mission statement, organizational structure, and key capabilities. The organization focuses on community development and has experience in program implementation with measurable outcomes.`,
-      
-      budget: `Budget document outlining project costs, personnel expenses, and resource allocation. Contains detailed financial projections and cost-effectiveness analysis for grant implementation.`,
-      
-      program: `Program description document detailing service delivery methods, target populations, and expected outcomes. Includes logic models and evaluation frameworks.`,
-      
-      assessment: `Needs assessment document identifying community gaps, stakeholder input, and data-driven justification for proposed interventions.`,
-      
-      rfp: `Request for Proposals (RFP) document containing grant application questions, requirements, and evaluation criteria. Includes funding priorities and submission guidelines.`,
-      
-      default: `Document summary: ${filename} - Contains key organizational information relevant to grant writing including capabilities, experience, and program details. Content has been processed and is available for context in grant responses.`
-    };
+  /**
+   * Reads an RFP into prompts (with section, answer limit and required flag),
+   * required attachments, eligibility rules and evaluation criteria. Long
+   * documents are read in passes; a pass the model cannot read (or any pass
+   * when no model is configured) falls back to line heuristics. Placeholder
+   * questions are only returned when nothing at all is found without a model.
+   */
+  async extractQuestions(content: string, preference: ModelPreference = {}): Promise<RfpExtraction> {
+    const passes = splitIntoPasses(content).slice(0, RFP_MAX_PASSES);
+    const useModel = canServeModels(preference);
+    if (!useModel) {
+      console.log("No valid API key found, extracting RFP questions heuristically...");
+    }
 
-    return mockSummaries[docType] || mockSummaries.default;
-  }
+    const results: RfpPassResult[] = [];
+    for (const pass of passes) {
+      let result: RfpPassResult | null = null;
+      if (useModel) {
+        try {
+          const { json } = await runWithModelFallback(preference, "extractQuestions", (provider, model) =>
+            provider.generateJSON({
+              model,
+              system: RFP_EXTRACTION_INSTRUCTIONS,
+              messages: [
+                {
+                  role: "user",
+                  content: `Section in effect at the start of this excerpt: ${pass.section ?? "(none)"}\n\n${pass.text}`,
+                },
+              ],
+              maxTokens: 2500,
+              temperature: 0.1,
+            })
+          );
+          result = normalizeModelPass(json, pass);
+        } catch (error) {
+          console.error("Question extraction error:", error);
+        }
+      }
+      results.push(result ?? extractPassHeuristically(pass));
+    }
 
-  private getDocumentType(filename: string, content: string): string {
-    const lower = filename.toLowerCase();
-    const contentLower = content.toLowerCase();
-    
-    if (lower.includes('budget') || contentLower.includes('budget')) return 'budget';
-    if (lower.includes('org') || lower.includes('profile') || contentLower.includes('mission')) return 'organizationProfile';
-    if (lower.includes('program') || contentLower.includes('program')) return 'program';
-    if (lower.includes('assessment') || contentLower.includes('needs')) return 'assessment';
-    if (lower.includes('rfp') || lower.includes('request') || contentLower.includes('questions')) return 'rfp';
-    
-    return 'default';
+    const extraction = mergeRfpPasses(results);
+    if (extraction.questions.length === 0 && !useModel) {
+      return mergeRfpPasses(
+        [{ questions: this.getMockQuestions(), attachments: [], eligibility: [], evaluationCriteria: [] }],
+        true,
+      );
+    }
+    return extraction;
   }
 
-  async extractQuestions(content: string): Promise<{ questions: string[]; demo: boolean }> {
-    if (!hasValidApiKey) {
-      console.log("No valid API key found, using mock questions for development...");
-      return { questions: this.getMockQuestions(), demo: true };
+  /**
+   * Proposes profile fields and fact sheet entries stated in one of the
+   * organization's own documents, each with a quote validated against the
+   * text. Falls back to pattern matching when no model is configured or its
+   * answer is unusable. `onUsage` sees the model call, for billing.
+   */
+  async extractOrganizationProfile(
+    content: string,
+    preference: ModelPreference = {},
+    onUsage?: (usage: ModelCallUsage) => Promise<void> | void
+  ): Promise<ProfileProposal[]> {
+    if (!canServeModels(preference)) {
+      console.log("No valid API key found, extracting organization profile heuristically...");
+      return extractProfileHeuristically(content);
     }
 
+    const excerpt = content.slice(0, PROFILE_MODEL_CHARS);
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "Extract all questions from the provided grant application document. Return only the questions, one per line, without numbering or additional formatting."
-          },
-          {
-            role: "user",
-            content: content.substring(0, 8000)
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.1,
+      const result = await runWithModelFallback(preference, "extractOrganizationProfile", (provider, model) =>
+        provider.generateJSON({
+          model,
+          system: PROFILE_EXTRACTION_INSTRUCTIONS,
+          messages: [{ role: "user", content: excerpt }],
+          maxTokens: 2000,
+          temperature: 0.1,
+        })
+      );
+      await onUsage?.({
+        provider: result.provider,
+        model: result.model,
+        tokensIn: result.tokensIn,
+        tokensOut: result.tokensOut,
       });
+      const proposals = normalizeModelProfile(result.json, excerpt);
+      if (proposals) return proposals;
+    } catch (error) {
+      console.error("Profile extraction error:", error);
+    }
+    return extractProfileHeuristically(content);
+  }
 
-      const questions = response.choices[0].message.content?.split('\n')
-        .filter(line => line.trim().length > 0 && line.includes('?'))
-        .map(q => q.trim()) || [];
+  /**
+   * Reads a funder profile (name, mission, priorities, terminology, evaluation
+   * criteria, award range, contacts) from an RFP or funder guidelines. Falls
+   * back to pattern matching when no model is configured or its answer is
+   * unusable. `onUsage` sees the model call, for billing.
+   */
+  async extractFunderProfile(
+    content: string,
+    preference: ModelPreference = {},
+    onUsage?: (usage: ModelCallUsage) => Promise<void> | void
+  ): Promise<FunderProfileDraft> {
+    if (!canServeModels(preference)) {
+      console.log("No valid API key found, extracting funder profile heuristically...");
+      return extractFunderProfileHeuristically(content);
+    }
 
-      if (questions.length > 0) {
-        return { questions, demo: false };
-      }
-      return { questions: this.getMockQuestions(), demo: true };
+    try {
+      const result = await runWithModelFallback(preference, "extractFunderProfile", (provider, model) =>
+        provider.generateJSON({
+          model,
+          system: FUNDER_PROFILE_INSTRUCTIONS,
+          messages: [{ role: "user", content: content.slice(0, FUNDER_MODEL_CHARS) }],
+          maxTokens: FUNDER_MAX_TOKENS,
+          temperature: 0.1,
+        })
+      );
+      await onUsage?.({
+        provider: result.provider,
+        model: result.model,
+        tokensIn: result.tokensIn,
+        tokensOut: result.tokensOut,
+      });
+      const draft = normalizeModelFunderProfile(result.json);
+      if (draft) return draft;
     } catch (error) {
-      console.error("Question extraction error:", error);
-      console.log("Falling back to mock questions for development...");
-      return { questions: this.getMockQuestions(), demo: true };
+      console.error("Funder profile extraction error:", error);
     }
+    return extractFunderProfileHeuristically(content);
+  }
+
+  /**
+   * Scores one answer against a rubric, as a funder's reviewer would. Returns
+   * the model's JSON as-is with the call's usage; callers normalize it, bill
+   * it and check `canServeModels` first, keeping their own fallback.
+   */
+  async reviewAnswer(
+    request: AnswerReviewRequest,
+    preference: ModelPreference = {}
+  ): Promise<{ json: unknown; usage: ModelCallUsage }> {
+    const systemPrompt = `You are an experienced grant reviewer scoring one answer of an application against the funder's evaluation rubric. Be strict and specific: score what the answer shows, not what the applicant might mean.
+
+Return ONLY a JSON object with:
+- criteria: one item per rubric criterion, in rubric order, shape { criterion, score, reasoning }. "criterion" repeats the rubric text exactly; "score" is an integer 0-100 for how well this answer meets it (0 when it does not address it at all); "reasoning" is one or two sentences citing what the answer does or lacks.
+- weakestSentences: up to 3 sentences copied verbatim from the answer that most hurt the score, shape { sentence, reason }.
+- suggestions: up to 5 specific, actionable edits that would raise the score, each naming the criterion it serves.
+
+Judge evidence too: sentences listed as flagged state figures or names their cited sources do not back up.`;
+
+    const rubric = request.rubric
+      .map((criterion, i) => `${i + 1}. ${criterion.text}${criterion.weight ? ` (${criterion.weight})` : ""}`)
+      .join("\n");
+    const flagged = request.flaggedSentences.map((s) => `- "${s.sentence}": ${s.reason}`).join("\n");
+    const userPrompt = [
+      request.funder ? formatFunderBrief(request.funder) : "",
+      `Rubric:\n${rubric}`,
+      `Question: ${request.question}`,
+      `Answer:\n${request.answer}`,
+      flagged ? `Flagged sentences:\n${flagged}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const result = await runWithModelFallback(preference, "reviewAnswer", (provider, model) =>
+      provider.generateJSON({
+        model,
+        system: systemPrompt,
+        messages: [{ role: "user", content: userPrompt }],
+        maxTokens: REVIEW_MAX_TOKENS,
+        temperature: 0.1,
+      })
+    );
+    return {
+      json: result.json,
+      usage: { provider: result.provider, model: result.model, tokensIn: result.tokensIn, tokensOut: result.tokensOut },
+    };
   }
 
   /**
    * Extracts metric suggestions from a grant application / RFP document.
-   * Falls back to mock suggestions when no API key is configured, mirroring
-   * the extractQuestions pattern.
+   * Falls back to mock suggestions when no API key is configured.
    */
-  async extractMetrics(content: string): Promise<MetricSuggestion[]> {
-    if (!hasValidApiKey) {
+  async extractMetrics(content: string, preference: ModelPreference = {}): Promise<MetricSuggestion[]> {
+    if (!canServeModels(preference)) {
       console.log("No valid API key found, using mock metric suggestions for development...");
       return this.getMockMetricSuggestions();
     }
@@ -823,19 +1418,15 @@ Return ONLY a JSON object with a "metrics" array. Each item must have:
 Return at most 12 metrics. If the document doesn't contain metrics, return an empty array.`;
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: content.substring(0, 12_000) },
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1500,
-        temperature: 0.1,
-      });
-
-      const raw = response.choices[0].message.content ?? "{}";
-      const parsed = JSON.parse(raw);
+      const { json: parsed } = await runWithModelFallback(preference, "extractMetrics", (provider, model) =>
+        provider.generateJSON({
+          model,
+          system: systemPrompt,
+          messages: [{ role: "user", content: content.substring(0, 12_000) }],
+          maxTokens: 1500,
+          temperature: 0.1,
+        })
+      );
       const metrics = Array.isArray(parsed.metrics) ? parsed.metrics : [];
       return metrics
         .filter((m: any) => m && m.key && m.label && m.type && m.category)
@@ -905,7 +1496,7 @@ Return at most 12 metrics. If the document doesn't contain metrics, return an em
     ];
   }
 
-  private getMockQuestions(): string[] {
+  private getMockQuestions(): RfpPassResult["questions"] {
     return [
       "What is your organization's mission statement?",
       "Describe the specific need or problem your project addresses.",
@@ -927,7 +1518,7 @@ Return at most 12 metrics. If the document doesn't contain metrics, return an em
       "What innovative approaches or best practices will you implement?",
       "How will you ensure cultural competency and accessibility?",
       "What is your plan for disseminating results and lessons learned?"
-    ];
+    ].map((question) => ({ question, section: null, wordLimit: null, limitType: "words", required: true }));
   }
 }
 
@@ -0,0 +1,159 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import {
+  exemplarsForPrompt,
+  insertLibraryAnswer,
+  loadLibraryExemplars,
+  matchLibraryAnswers,
+  renumberMarkers,
+  saveAnswerToLibrary,
+} from "./answerLibrary.js";
+import { hashResponse } from "./claimVerification.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+function unitVector(...values: number[]): number[] {
+  const norm = Math.hypot(...values);
+  return values.map((value) => value / norm);
+}
+
+async function answeredWithCitations(userId: string) {
+  const project = await storage.createProject(userId, { title: "Pantry 2025", funder: "Funder" });
+  const document = await storage.createDocument(userId, {
+    organizationId: project.organizationId,
+    filename: "history.txt",
+    originalName: "History.txt",
+    fileType: "text/plain",
+    fileSize: 80,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, { chunkIndex: 0, content: "Founded in 1998 by parents.", tokenCount: 5 });
+  await storage.insertDocChunk(document.id, { chunkIndex: 1, content: "Serves 1,240 families a year.", tokenCount: 5 });
+  const question = await storage.createGrantQuestion(project.id, { question: "Describe your organization's history." });
+  for (const chunkIndex of [0, 1]) {
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: document.id,
+      chunkRefs: [{ chunkIndex, quote: `chunk ${chunkIndex}` }],
+    });
+  }
+  const answered = await storage.updateGrantQuestion(question.id, {
+    response: "We were founded in 1998. [#1] Today we serve 1,240 families. [#2]",
+    responseStatus: "complete",
+  });
+  return { project, document, question: answered! };
+}
+
+describe("renumberMarkers", () => {
+  it("maps markers and drops those without a target", () => {
+    expect(renumberMarkers("Founded in 1998. [#1] Serves families.[#2] Grew. [#3]", new Map([[1, 4], [2, 1]]))).toBe(
+      "Founded in 1998. [#4] Serves families.[#1] Grew.",
+    );
+  });
+});
+
+describe("answer library", () => {
+  it("saves an answer with its citations and inserts it into another project's question", async () => {
+    const userId = "library-save";
+    const { project, document, question } = await answeredWithCitations(userId);
+    const entry = await saveAnswerToLibrary({ project, question, userId, topics: [" History ", "history", "Mission"] });
+
+    expect(entry).toMatchObject({
+      title: "Describe your organization's history.",
+      topics: ["history", "mission"],
+      sourceQuestionId: question.id,
+      questionEmbedding: null,
+      citations: [
+        { documentId: document.id, documentName: "History.txt", chunkIndex: 0, quote: "chunk 0" },
+        { documentId: document.id, documentName: "History.txt", chunkIndex: 1, quote: "chunk 1" },
+      ],
+    });
+
+    const next = await storage.createProject(userId, { title: "Pantry 2026", funder: "Other" });
+    const target = await storage.createGrantQuestion(next.id, { question: "Tell us about your history as an organization." });
+    // No embedding model here, so the match is on shared terms.
+    expect(await matchLibraryAnswers(target, project.organizationId)).toMatchObject([
+      { entry: { id: entry.id }, matchedOn: "keyword" },
+    ]);
+    expect(await matchLibraryAnswers(question, project.organizationId)).toEqual([]);
+
+    expect(await insertLibraryAnswer({ ...target, responseStatus: "generating" }, entry)).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+    expect(await storage.getResponseVersions(target.id)).toEqual([]);
+
+    // The older draft's open gap points at text the library answer replaces.
+    await storage.createAssumptionLabel({
+      projectId: next.id,
+      draftId: target.id,
+      text: "We assumed the founding year",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "We assumed the founding year",
+      position: { start: 0, end: 5 },
+    });
+    const inserted = await insertLibraryAnswer(target, entry);
+    expect(inserted).toMatchObject({ ok: true, question: { response: entry.answer, responseStatus: "edited" } });
+    expect(await storage.getAssumptionLabels(next.id, target.id)).toEqual([]);
+    expect((await storage.getDraftCitations(target.id)).map((c) => (c.chunkRefs as any)[0].chunkIndex)).toEqual([0, 1]);
+    expect(await storage.getResponseVersions(target.id)).toMatchObject([{ tone: "library", content: entry.answer }]);
+  });
+
+  it("ranks embedded entries by the closer of their question and answer", async () => {
+    const userId = "library-semantic";
+    const project = await storage.createProject(userId, { title: "Embedded", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "What is your history?" });
+    await storage.saveQuestionEmbedding({
+      questionId: question.id,
+      contentHash: hashResponse(question.question),
+      embedding: unitVector(1, 0, 0),
+      embeddingModel: "test-embedding",
+    });
+    const entry = (title: string, questionEmbedding: number[], answerEmbedding: number[], embeddingModel = "test-embedding") =>
+      storage.createAnswerLibraryEntry({
+        organizationId: project.organizationId,
+        title,
+        question: title,
+        answer: `${title} answer`,
+        questionEmbedding,
+        answerEmbedding,
+        embeddingModel,
+        createdBy: userId,
+      });
+    const byAnswer = await entry("Founding story", unitVector(0, 1, 0), unitVector(0.9, 0.1, 0));
+    const byQuestion = await entry("Organizational history", unitVector(1, 0.05, 0), unitVector(0, 0, 1));
+    await entry("Budget", unitVector(0, 0, 1), unitVector(0, 1, 0));
+    await entry("Other model", unitVector(1, 0, 0), unitVector(1, 0, 0), "other-embedding");
+
+    expect(await matchLibraryAnswers(question, project.organizationId)).toMatchObject([
+      { entry: { id: byQuestion.id }, matchedOn: "question" },
+      { entry: { id: byAnswer.id }, matchedOn: "answer" },
+    ]);
+  });
+
+  it("pins an exemplar's cited chunks and renumbers its markers to the prompt", async () => {
+    const userId = "library-exemplar";
+    const { project, document, question } = await answeredWithCitations(userId);
+    const entry = await saveAnswerToLibrary({ project, question, userId });
+
+    const { entries, chunks } = await loadLibraryExemplars([entry.id, "missing"], project.organizationId);
+    expect(chunks.map((chunk) => [chunk.chunkIndex, chunk.source])).toEqual([[0, "library"], [1, "library"]]);
+    expect(await loadLibraryExemplars([entry.id], "another-organization")).toEqual({ entries: [], chunks: [] });
+
+    const promptChunks = [{ documentId: "retrieved", chunkIndex: 4 }, { documentId: document.id, chunkIndex: 1 }];
+    expect(exemplarsForPrompt(entries, promptChunks)).toEqual([
+      {
+        title: entry.title,
+        question: entry.question,
+        answer: "We were founded in 1998. Today we serve 1,240 families. [#2]",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Organization answer library: finished answers saved for reuse in later
+ * applications.
+ *
+ * An entry keeps the answer text with its [#N] markers and the chunks they
+ * cite, in marker order, so it stays citable wherever it is reused. Entries
+ * are matched against a new question by embedding, comparing the question
+ * with both the saved question and the saved answer; entries without a
+ * usable embedding are matched by shared terms instead. A match can be
+ * inserted as the question's starting draft or handed to the generator as an
+ * exemplar, in which case its cited chunks are pinned into the prompt.
+ */
+
+import { storage } from "../storage.js";
+import { generateEmbedding } from "./embedding.js";
+import { contentTerms, hashResponse } from "./claimVerification.js";
+import { replaceAssumptionLabels } from "./generation.js";
+import type { RetrievedChunk } from "./retrieval.js";
+import type { LibraryExemplar } from "./ai.js";
+import type { AnswerLibraryEntry, GrantQuestion, Project } from "../../shared/schema.js";
+import { citationPages, type CitationPages } from "../../shared/citation-source.js";
+import {
+  normalizeTopics,
+  type LibraryAnswer,
+  type LibraryCitation,
+  type LibraryMatch,
+} from "../../shared/answer-library.js";
+
+/** Cosine similarity below which an embedded entry is not offered as a match. */
+const SEMANTIC_MATCH_MIN = 0.5;
+/** Share of the question's terms an unembedded entry must share to match. */
+const KEYWORD_MATCH_MIN = 0.3;
+const TITLE_MAX_CHARS = 120;
+
+/** The entry as the API returns it, without its embeddings. */
+export function toLibraryAnswer(entry: AnswerLibraryEntry): LibraryAnswer {
+  return {
+    id: entry.id,
+    organizationId: entry.organizationId,
+    title: entry.title,
+    question: entry.question,
+    answer: entry.answer,
+    citations: (entry.citations as LibraryCitation[]) ?? [],
+    topics: (entry.topics as string[]) ?? [],
+    sourceProjectId: entry.sourceProjectId,
+    sourceQuestionId: entry.sourceQuestionId,
+    createdBy: entry.createdBy,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+function defaultTitle(question: string): string {
+  const text = question.trim().replace(/\s+/g, " ");
+  return text.length > TITLE_MAX_CHARS ? `${text.slice(0, TITLE_MAX_CHARS - 1).trimEnd()}…` : text;
+}
+
+/** Rewrite [#N] markers through `mapping`; markers it does not map are dropped. */
+export function renumberMarkers(text: string, mapping: Map<number, number>): string {
+  return text
+    .replace(/(\s*)\[#(\d+)\]/g, (_marker, space: string, n: string) => {
+      const to = mapping.get(Number(n));
+      return to ? `${space}[#${to}]` : "";
+    })
+    .trim();
+}
+
+async function embed(text: string, organizationId: string): Promise<{ embedding: number[] | null; model: string }> {
+  const endpoint = await storage.getOrganizationAiEndpoint(organizationId);
+  try {
+    return await generateEmbedding(text, endpoint);
+  } catch (error) {
+    console.warn("[answer-library] Embedding failed; matching falls back to shared terms:", error);
+    return { embedding: null, model: "" };
+  }
+}
+
+/**
+ * The question text's embedding, computed once per wording and kept in
+ * `question_embeddings`. Null when no embedding model is available.
+ */
+export async function questionEmbeddingFor(
+  question: GrantQuestion,
+  organizationId: string,
+): Promise<{ embedding: number[]; model: string } | null> {
+  const contentHash = hashResponse(question.question);
+  const stored = await storage.getQuestionEmbedding(question.id);
+  if (stored?.contentHash === contentHash) return { embedding: stored.embedding, model: stored.embeddingModel };
+
+  const { embedding, model } = await embed(question.question, organizationId);
+  if (!embedding) return null;
+  await storage.saveQuestionEmbedding({ questionId: question.id, contentHash, embedding, embeddingModel: model });
+  return { embedding, model };
+}
+
+/** The answer's citations in marker order, with document names, as the library stores them. */
+export async function libraryCitationsFor(questionId: string): Promise<LibraryCitation[]> {
+  const citations: LibraryCitation[] = [];
+  const names = new Map<string, string>();
+  for (const citation of await storage.getDraftCitations(questionId)) {
+    if (!names.has(citation.sourceDocumentId)) {
+      const document = await storage.getDocument(citation.sourceDocumentId);
+      names.set(citation.sourceDocumentId, document?.originalName ?? document?.filename ?? "Document");
+    }
+    const [ref] = (citation.chunkRefs as Array<{ chunkIndex?: number; quote?: string } & CitationPages> | null) ?? [];
+    citations.push({
+      documentId: citation.sourceDocumentId,
+      documentName: names.get(citation.sourceDocumentId)!,
+      chunkIndex: ref?.chunkIndex ?? 0,
+      quote: ref?.quote ?? "",
+      ...citationPages(ref),
+    });
+  }
+  return citations;
+}
+
+/** Save a question's current answer, with its citations, to the organization's library. */
+export async function saveAnswerToLibrary(params: {
+  project: Project;
+  question: GrantQuestion;
+  userId: string;
+  title?: string | null;
+  topics?: unknown;
+}): Promise<AnswerLibraryEntry> {
+  const { project, question, userId } = params;
+  const answer = (question.response ?? "").trim();
+  const citations = await libraryCitationsFor(question.id);
+
+  const questionVector = await questionEmbeddingFor(question, project.organizationId);
+  const answerVector = await embed(answer, project.organizationId);
+  // Both vectors must come from the same model to be searched together.
+  const sameModel = !questionVector || !answerVector.embedding || questionVector.model === answerVector.model;
+
+  return storage.createAnswerLibraryEntry({
+    organizationId: project.organizationId,
+    title: params.title?.trim() || defaultTitle(question.question),
+    question: question.question,
+    answer,
+    citations,
+    topics: normalizeTopics(params.topics),
+    sourceProjectId: project.id,
+    sourceQuestionId: question.id,
+    questionEmbedding: questionVector?.embedding ?? null,
+    answerEmbedding: sameModel ? answerVector.embedding : null,
+    embeddingModel: questionVector?.model ?? (answerVector.embedding ? answerVector.model : null),
+    createdBy: userId,
+  });
+}
+
+function keywordSimilarity(query: string, entry: AnswerLibraryEntry): number {
+  const queryTerms = Array.from(new Set(contentTerms(query)));
+  if (!queryTerms.length) return 0;
+  const entryTerms = new Set(
+    contentTerms(`${entry.title} ${entry.question} ${((entry.topics as string[]) ?? []).join(" ")}`),
+  );
+  const shared = queryTerms.filter((term) => entryTerms.has(term)).length;
+  return shared >= 2 ? shared / queryTerms.length : 0;
+}
+
+/**
+ * Library answers for `question`, best first. Entries saved from the question
+ * itself are skipped.
+ */
+export async function matchLibraryAnswers(
+  question: GrantQuestion,
+  organizationId: string,
+  limit = 3,
+): Promise<LibraryMatch[]> {
+  const matches = new Map<string, LibraryMatch>();
+  const vector = await questionEmbeddingFor(question, organizationId);
+
+  if (vector) {
+    const ranked = await storage.searchAnswerLibraryByEmbedding(organizationId, vector.embedding, limit + 1, vector.model);
+    for (const { entry, questionSimilarity, answerSimilarity } of ranked) {
+      const similarity = Math.max(questionSimilarity, answerSimilarity);
+      if (similarity < SEMANTIC_MATCH_MIN) continue;
+      matches.set(entry.id, {
+        entry: toLibraryAnswer(entry),
+        similarity,
+        matchedOn: questionSimilarity >= answerSimilarity ? "question" : "answer",
+      });
+    }
+  }
+
+  // Entries that cannot be compared by embedding are matched on shared terms.
+  for (const entry of await storage.getAnswerLibrary(organizationId)) {
+    const comparable =
+      vector &&
+      (entry.questionEmbedding || entry.answerEmbedding) &&
+      (!entry.embeddingModel || entry.embeddingModel === vector.model);
+    if (comparable || matches.has(entry.id)) continue;
+    const similarity = keywordSimilarity(question.question, entry);
+    if (similarity >= KEYWORD_MATCH_MIN) {
+      matches.set(entry.id, { entry: toLibraryAnswer(entry), similarity, matchedOn: "keyword" });
+    }
+  }
+
+  return Array.from(matches.values())
+    .filter((match) => match.entry.sourceQuestionId !== question.id)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+export type LibraryInsertResult =
+  | { ok: true; question: GrantQuestion }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Make a library answer the question's draft: its text becomes the response
+ * and a new version, and its citations replace the question's. Citations of
+ * documents deleted since the entry was saved are dropped with their markers,
+ * and the old answer's open gaps go with its text.
+ */
+export async function insertLibraryAnswer(question: GrantQuestion, entry: AnswerLibraryEntry): Promise<LibraryInsertResult> {
+  if (question.responseStatus === "generating") {
+    return { ok: false, status: 409, error: "Wait for the answer to finish generating" };
+  }
+
+  const citations = (entry.citations as LibraryCitation[]) ?? [];
+  const mapping = new Map<number, number>();
+  await storage.deleteDraftCitations(question.id);
+  for (const [index, citation] of citations.entries()) {
+    if (!(await storage.getDocument(citation.documentId))) continue;
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: citation.documentId,
+      chunkRefs: [{ chunkIndex: citation.chunkIndex, quote: citation.quote, ...citationPages(citation) }],
+    });
+    mapping.set(index + 1, mapping.size + 1);
+  }
+  await replaceAssumptionLabels(question.projectId, question.id, []);
+
+  const response = renumberMarkers(entry.answer, mapping);
+  const versions = await storage.getResponseVersions(question.id);
+  await storage.createResponseVersion(question.id, response, "library", versions.length + 1);
+  const updated = await storage.updateGrantQuestion(question.id, { response, responseStatus: "edited", errorMessage: null });
+  if (!updated) return { ok: false, status: 404, error: "Question not found" };
+  return { ok: true, question: updated };
+}
+
+/**
+ * Library entries chosen as exemplars, with the chunks they cite. The
+ * caller pins the chunks into the prompt and renumbers each exemplar's
+ * markers to the final snippet list with `exemplarsForPrompt`.
+ */
+export async function loadLibraryExemplars(
+  entryIds: string[],
+  organizationId: string,
+): Promise<{ entries: AnswerLibraryEntry[]; chunks: RetrievedChunk[] }> {
+  const entries: AnswerLibraryEntry[] = [];
+  const chunks: RetrievedChunk[] = [];
+  for (const id of Array.from(new Set(entryIds))) {
+    const entry = await storage.getAnswerLibraryEntry(id);
+    if (!entry || entry.organizationId !== organizationId) continue;
+    entries.push(entry);
+    for (const citation of (entry.citations as LibraryCitation[]) ?? []) {
+      if (chunks.some((chunk) => chunk.documentId === citation.documentId && chunk.chunkIndex === citation.chunkIndex)) {
+        continue;
+      }
+      const chunk = await storage.getDocChunk(citation.documentId, citation.chunkIndex);
+      if (!chunk) continue;
+      chunks.push({
+        documentId: citation.documentId,
+        documentName: citation.documentName,
+        chunkId: chunk.id,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        tokenCount: chunk.tokenCount ?? chunk.content.split(/\s+/).length,
+        ...citationPages(chunk),
+        similarity: 1,
+        source: "library",
+      });
+    }
+  }
+  return { entries, chunks };
+}
+
+/** Exemplar answers with their markers pointing at the same chunks in `promptChunks`. */
+export function exemplarsForPrompt(
+  entries: AnswerLibraryEntry[],
+  promptChunks: Array<Pick<RetrievedChunk, "documentId" | "chunkIndex">>,
+): LibraryExemplar[] {
+  return entries.map((entry) => {
+    const mapping = new Map<number, number>();
+    ((entry.citations as LibraryCitation[]) ?? []).forEach((citation, index) => {
+      const position = promptChunks.findIndex(
+        (chunk) => chunk.documentId === citation.documentId && chunk.chunkIndex === citation.chunkIndex,
+      );
+      if (position >= 0) mapping.set(index + 1, position + 1);
+    });
+    return { title: entry.title, question: entry.question, answer: renumberMarkers(entry.answer, mapping) };
+  });
+}
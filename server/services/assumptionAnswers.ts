@@ -0,0 +1,134 @@
+/**
+ * Answers to "Needs your input" gaps (assumption labels).
+ *
+ * Answering stores the text as an organization fact and links it to the
+ * label, so a resolved label either closed its gap (it has a fact) or was
+ * only dismissed (it has none). Applying the answer rewrites the draft with
+ * that fact pinned into the context, so the new text cites it.
+ */
+
+import { storage } from "../storage.js";
+import { aiService } from "./ai.js";
+import { canServeModels } from "./llm.js";
+import { factAsRetrievedChunk, recordOrganizationFact } from "./organizationFacts.js";
+import { isPositioned, regeneratePassage } from "./passageRegeneration.js";
+import { persistGroundedGeneration, prepareGroundedGeneration, type GenerationSettings } from "./generation.js";
+import type { AssumptionLabel, GrantQuestion, OrganizationFact, Project } from "../../shared/schema.js";
+
+export type AnswerAssumptionResult =
+  | { ok: true; label: AssumptionLabel; fact: OrganizationFact }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Resolve a label with the writer's answer. An open clarification asking
+ * about the same label is answered with the same fact.
+ */
+export async function answerAssumptionLabel(params: {
+  userId: string;
+  project: Project;
+  label: AssumptionLabel;
+  answer: string;
+  /** "organization" (default) makes the fact available to every project */
+  scope?: "organization" | "project";
+  source?: "assumption" | "clarification";
+}): Promise<AnswerAssumptionResult> {
+  const { userId, project, label } = params;
+  const answer = params.answer.trim();
+  if (!answer) return { ok: false, status: 400, error: "answer must be a non-empty string" };
+
+  const fact = await recordOrganizationFact({
+    userId,
+    organizationId: project.organizationId,
+    projectId: params.scope === "project" ? project.id : null,
+    label: label.text,
+    value: answer,
+    source: params.source ?? "assumption",
+  });
+  await storage.setAssumptionLabelResolved(label.id, true, userId);
+  const updated = await storage.updateAssumptionLabel(label.id, { answer, factId: fact.id });
+
+  const clarifications = await storage.getClarificationQuestions(project.id);
+  for (const clarification of clarifications) {
+    if (clarification.assumptionLabelId !== label.id || clarification.status !== "open") continue;
+    await storage.updateClarificationQuestion(clarification.id, {
+      status: "answered",
+      answer,
+      factId: fact.id,
+      answeredBy: userId,
+      answeredAt: new Date(),
+    });
+  }
+
+  return { ok: true, label: updated!, fact };
+}
+
+export type ApplyAssumptionResult =
+  | { ok: true; question: GrantQuestion; mode: "passage" | "answer" }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Rewrite the draft a label belongs to with its answer as a citable source:
+ * only the label's passage when it has a position, the whole answer
+ * otherwise. The label stays resolved and linked to its fact.
+ */
+export async function applyAssumptionAnswer(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  label: AssumptionLabel;
+  settings: GenerationSettings;
+  estimatedTokens: number;
+}): Promise<ApplyAssumptionResult> {
+  const { userId, project, question, label, settings, estimatedTokens } = params;
+  const fact = label.factId ? await storage.getOrganizationFact(label.factId) : undefined;
+  if (!fact) {
+    return { ok: false, status: 409, error: "Answer this gap before applying it to the draft" };
+  }
+  if (!question.response?.trim() || question.responseStatus === "generating") {
+    return { ok: false, status: 409, error: "This question has no finished answer to edit" };
+  }
+  const pinnedChunks = [factAsRetrievedChunk(fact)];
+
+  if (isPositioned(label)) {
+    const result = await regeneratePassage({
+      userId,
+      project,
+      question,
+      settings,
+      start: label.position.start,
+      end: label.position.end,
+      instruction: `Replace the assumption "${label.text}" with the confirmed fact: ${fact.value}`,
+      estimatedTokens,
+      pinnedChunks,
+    });
+    return result.ok ? { ok: true, question: result.question, mode: "passage" } : result;
+  }
+
+  const { options, retrievalResult } = await prepareGroundedGeneration({
+    userId,
+    project,
+    question,
+    settings,
+    pinnedChunks,
+  });
+  if (!canServeModels(options)) {
+    return { ok: false, status: 503, error: "AI generation is not configured on this deployment" };
+  }
+  const grounded = await aiService.generateGroundedResponse(options);
+  // generateGroundedResponse answers with source excerpts when every model
+  // fails; that must not replace the writer's draft.
+  if (!grounded.usage) {
+    return { ok: false, status: 502, error: "The model did not return an answer" };
+  }
+  const { updatedQuestion } = await persistGroundedGeneration({
+    userId,
+    project,
+    question,
+    settings,
+    options,
+    grounded,
+    retrievalResult,
+    estimatedTokens,
+  });
+  return { ok: true, question: updatedQuestion ?? question, mode: "answer" };
+}
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { BillingService, PLAN_LIMITS, checkUsageAgainstLimit } from "./billing.js";
+import {
+  BillingService,
+  MODEL_TOKEN_PRICING_USD,
+  PLAN_LIMITS,
+  calculateCostCents,
+  checkUsageAgainstLimit,
+} from "./billing.js";
+import { CHAT_MODELS, EMBEDDING_MODELS } from "../../shared/ai-models.js";
 import { MemStorage } from "../storage.js";
 
 async function createProjects(store: MemStorage, userId: string, count: number) {
@@ -95,3 +102,17 @@ describe("BillingService", () => {
     expect(result.summary.limits.projects).toBe(PLAN_LIMITS.pro.projects);
   });
 });
+
+describe("model pricing", () => {
+  it("has a price for every selectable chat and embedding model", () => {
+    const unpriced = [...CHAT_MODELS, ...EMBEDDING_MODELS]
+      .map((model) => model.id)
+      .filter((id) => !(id in MODEL_TOKEN_PRICING_USD));
+    expect(unpriced).toEqual([]);
+  });
+
+  it("prices Anthropic usage and keeps the local model free", () => {
+    expect(calculateCostCents("claude-3-5-sonnet-20241022", 100_000, 10_000)).toBe(45);
+    expect(calculateCostCents("local-deterministic", 100_000, 10_000)).toBe(0);
+  });
+});
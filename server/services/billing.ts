@@ -1,5 +1,6 @@
 import type { Project, Document, InsertUsageEvent, Subscription, UsageEvent } from "../../shared/schema.js";
 import { storage, type IStorage } from "../storage.js";
+import { isOrganizationFactsDocument } from "../../shared/organization-facts.js";
 
 export type PlanName = "starter" | "pro" | "team" | "enterprise";
 export type LimitType = "projects" | "documents" | "ai_tokens";
@@ -75,12 +76,24 @@ export const PLAN_LIMITS: Record<PlanName, PlanLimits> = {
   },
 };
 
-const MODEL_TOKEN_PRICING_USD: Record<string, { input: number; output: number }> = {
+/**
+ * USD per token. Must have an entry for every model in shared/ai-models.ts
+ * (enforced by billing.test.ts) — unknown models are billed at zero.
+ */
+export const MODEL_TOKEN_PRICING_USD: Record<string, { input: number; output: number }> = {
   "gpt-4": { input: 0.00003, output: 0.00006 },
   "gpt-4o": { input: 0.00001, output: 0.00003 },
   "gpt-4o-mini": { input: 0.00000015, output: 0.0000006 },
+  "gpt-4.1": { input: 0.000002, output: 0.000008 },
+  "gpt-4.1-mini": { input: 0.0000004, output: 0.0000016 },
   "gpt-3.5-turbo": { input: 0.0000005, output: 0.0000015 },
+  "claude-3-7-sonnet-20250219": { input: 0.000003, output: 0.000015 },
+  "claude-3-5-sonnet-20241022": { input: 0.000003, output: 0.000015 },
+  "claude-3-5-haiku-20241022": { input: 0.0000008, output: 0.000004 },
+  "local-deterministic": { input: 0, output: 0 },
   "text-embedding-3-small": { input: 0.00000002, output: 0 },
+  "text-embedding-3-large": { input: 0.00000013, output: 0 },
+  "local-embedding": { input: 0, output: 0 },
 };
 
 function normalizePlan(plan: string | null | undefined): PlanName {
@@ -121,6 +134,17 @@ export function calculateCostCents(model: string | null | undefined, tokensIn =
   return Math.max(0, Math.round(dollars * 100));
 }
 
+/**
+ * Cost of a prospective call in cents, kept to two decimals so previews of
+ * cheap models don't all read 0. Null for models without a price (e.g. an
+ * organization's self-hosted endpoint).
+ */
+export function estimateCostCents(model: string, tokensIn: number, tokensOut: number): number | null {
+  const pricing = MODEL_TOKEN_PRICING_USD[model];
+  if (!pricing) return null;
+  return Math.round((tokensIn * pricing.input + tokensOut * pricing.output) * 10_000) / 100;
+}
+
 export function createLimitDenial(
   limitType: LimitType,
   plan: PlanName,
@@ -208,8 +232,8 @@ export class BillingService {
     const projectsUsed = (projects as Project[]).filter((project) =>
       isWithinPeriod(project.createdAt, start, end)
     ).length;
-    const documentsUsed = (documents as Document[]).filter((document) =>
-      isWithinPeriod(document.uploadedAt, start, end)
+    const documentsUsed = (documents as Document[]).filter(
+      (document) => !isOrganizationFactsDocument(document) && isWithinPeriod(document.uploadedAt, start, end)
     ).length;
     const aiTokensUsed = sumTokens(events);
     const costCents = events.reduce((sum, event) => sum + (event.costCents ?? 0), 0);
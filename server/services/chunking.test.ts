@@ -0,0 +1,111 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { extractPdfText, PAGE_BREAK } from "../pdfExtract.js";
+import { chunkText } from "./chunking.js";
+
+vi.mock("unpdf", () => ({
+  extractText: vi.fn(async () => ({
+    totalPages: 2,
+    text: ["Intake opens every Monday.\n", "Outreach reaches three counties. "],
+  })),
+}));
+
+function paragraph(subject: string, sentences: number): string {
+  return Array.from({ length: sentences }, (_, i) => `${subject} sentence ${i + 1} states a fact about the program.`).join(" ");
+}
+
+const REPORT = `ANNUAL REPORT 2024
+
+# Programs
+
+## Youth
+
+${paragraph("Youth", 6)}
+
+${paragraph("Mentors", 6)}
+
+## Seniors
+
+${paragraph("Seniors", 3)}
+
+Closing Remarks
+
+Thanks to our 2024 donors. We raised $1.2 million.`;
+
+describe("chunkText", () => {
+  it("returns no chunks for blank text", () => {
+    expect(chunkText(" \n\n ", 1200, 200)).toEqual([]);
+  });
+
+  it("labels chunks with their heading path and never spans two sections", () => {
+    const chunks = chunkText(REPORT, 400, 120);
+    expect(chunks.map((chunk) => chunk.sectionLabel)).toEqual([
+      "Programs > Youth",
+      "Programs > Youth",
+      "Programs > Youth",
+      "Programs > Seniors",
+      "Closing Remarks",
+    ]);
+    // Headings with no body of their own open the chunk of the section under them.
+    expect(chunks[0].content.startsWith("ANNUAL REPORT 2024\n\n# Programs\n\n## Youth\n\nYouth sentence 1")).toBe(true);
+    expect(chunks[3].content.startsWith("## Seniors\n\n")).toBe(true);
+    expect(chunks[4].content).toBe("Closing Remarks\n\nThanks to our 2024 donors. We raised $1.2 million.");
+  });
+
+  it("stores each chunk as the slice of the text between its offsets", () => {
+    for (const chunk of chunkText(REPORT, 400, 120)) {
+      expect(REPORT.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+      expect(chunk.content.length).toBeLessThanOrEqual(400);
+      expect(chunk.tokenCount).toBe(chunk.content.split(/\s+/).length);
+    }
+  });
+
+  it("ends chunks at paragraphs and sentences and overlaps by whole sentences", () => {
+    const [first, second, third] = chunkText(REPORT, 400, 120);
+    expect(first.content.endsWith("Youth sentence 6 states a fact about the program.")).toBe(true);
+    // The previous chunk's last two sentences fit in 120 characters of overlap.
+    expect(second.content.startsWith("Youth sentence 5 states")).toBe(true);
+    expect(second.startOffset).toBeLessThan(first.endOffset);
+    expect(second.content.endsWith(".")).toBe(true);
+    expect(third.content.startsWith("Mentors sentence")).toBe(true);
+  });
+
+  it("cuts a run without sentence ends at whitespace", () => {
+    const words = Array.from({ length: 120 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(words, 200, 0);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(200);
+      expect(chunk.content).toMatch(/^word\d+(?: word\d+)*$/);
+    }
+    expect(chunks.map((chunk) => chunk.content).join(" ")).toBe(words);
+  });
+
+  it("does not read sentences and list items as headings", () => {
+    const chunks = chunkText("Our mission is simple.\n\n- Mobile Pantry Sites\n\n2.1 Staffing Plan\n\nTwo coordinators run intake.", 1200, 200);
+    expect(chunks.map((chunk) => chunk.sectionLabel)).toEqual([null, "2.1 Staffing Plan"]);
+    expect(chunks[0].content).toBe("Our mission is simple.\n\n- Mobile Pantry Sites");
+  });
+
+  it("records the pages a chunk spans in text with page breaks", () => {
+    const text = [paragraph("Intake", 3), paragraph("Outreach", 3), paragraph("Delivery", 3)]
+      .map((page) => `${page}\n${PAGE_BREAK}\n`)
+      .join("");
+    const chunks = chunkText(text, 400, 0);
+    expect(chunks.map((chunk) => [chunk.pageStart, chunk.pageEnd])).toEqual([
+      [1, 2],
+      [3, 3],
+    ]);
+    expect(chunkText(REPORT, 400, 120).every((chunk) => chunk.pageStart === null && chunk.pageEnd === null)).toBe(true);
+  });
+
+  it("reads page numbers from extracted PDF text", async () => {
+    const text = await extractPdfText(Buffer.from("%PDF-1.7"));
+    expect(text).toBe(`Intake opens every Monday.\n${PAGE_BREAK}\nOutreach reaches three counties.\n${PAGE_BREAK}\n`);
+
+    const chunks = chunkText(text, 1200, 0);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ pageStart: 1, pageEnd: 2 });
+  });
+});
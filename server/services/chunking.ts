@@ -0,0 +1,218 @@
+/**
+ * Structure-aware chunking of extracted text for retrieval
+ * (`processDocumentJobs`).
+ *
+ * Text is read as paragraphs (blank-line separated) under headings: Markdown
+ * "#" lines, which the HTML, Markdown, RTF, ODT and PPTX extractors write, or
+ * short label-like lines on their own ("PROGRAM OUTCOMES", "2.1 Staffing").
+ * A chunk never spans two sections; its section label is the heading path
+ * ("Annual Report > Programs > Youth"). Inside a section, chunks are cut at
+ * paragraph ends where one falls late enough, otherwise at sentence ends, and
+ * open with the previous chunk's last sentences as overlap.
+ *
+ * Every chunk is a verbatim slice of the text, `text.slice(startOffset,
+ * endOffset)`, so a citation can be highlighted in the source. In PDF text,
+ * whose pages each end with PAGE_BREAK, chunks also record their pages.
+ */
+
+import { PAGE_BREAK } from "../pdfExtract.js";
+
+export interface TextChunk {
+  content: string;
+  tokenCount: number;
+  sectionLabel: string | null;
+  /** Character offsets into the chunked text */
+  startOffset: number;
+  endOffset: number;
+  /** Pages the chunk spans, 1-based; null for text without page breaks */
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+export const SECTION_PATH_SEPARATOR = " > ";
+
+/** A sentence (or a piece of an over-long one) with its place in the text. */
+interface Unit {
+  start: number;
+  end: number;
+  /** Last unit of its paragraph */
+  paragraphEnd: boolean;
+}
+
+interface Section {
+  path: string[];
+  /** Start of the section's heading lines, when it has any */
+  headingStart: number | null;
+  units: Unit[];
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+\S/;
+
+export function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * The heading level of a line, or null for body text. Lines without "#" only
+ * count when they stand alone as a paragraph and read like a label: all
+ * capitals, numbered ("2.1 Staffing Plan") or short Title Case.
+ */
+function headingOf(line: string, standsAlone: boolean): { level: number; title: string } | null {
+  const text = line.trim();
+  const markdown = MARKDOWN_HEADING.exec(text);
+  if (markdown) return { level: markdown[1].length, title: markdown[2] };
+  if (!standsAlone || text.length > 80 || /[.?!,;:]$/.test(text) || /^[-•*▪●◦]\s/.test(text)) return null;
+
+  const words = text.split(/\s+/);
+  if (words.length > 10) return null;
+  const numbered = NUMBERED_HEADING.exec(text);
+  if (numbered && /^[A-Z]/.test(text.slice(numbered[0].length - 1))) {
+    return { level: Math.min(numbered[1].split(".").length, 6), title: text };
+  }
+  if (/^[A-Z0-9][A-Z0-9 &/,:()'-]+$/.test(text) && /[A-Z]{3}/.test(text)) return { level: 1, title: text };
+  const titleCase = words.length <= 8 && words.every((word) => word.length <= 3 || /^[A-Z0-9(&]/.test(word));
+  return titleCase && /^[A-Z]/.test(text) ? { level: 1, title: text } : null;
+}
+
+/** The 1-based page of a character offset, or null when the text has no page breaks. */
+export function pageLocator(text: string): (offset: number) => number | null {
+  const breaks: number[] = [];
+  for (let at = text.indexOf(PAGE_BREAK); at !== -1; at = text.indexOf(PAGE_BREAK, at + 1)) breaks.push(at);
+  if (!breaks.length) return () => null;
+  return (offset) => {
+    let page = 1;
+    while (page <= breaks.length && breaks[page - 1] < offset) page++;
+    return page;
+  };
+}
+
+/** Sentence spans of `text[start, end)`; "$1.2 million" does not end a sentence. */
+function sentenceSpans(text: string, start: number, end: number): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  const pattern = /(?:[^.!?]|[.!?](?!\s|$))+(?:[.!?]+|$)/g;
+  const slice = text.slice(start, end);
+  for (const match of slice.matchAll(pattern)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (!trimmed) continue;
+    const from = start + match.index! + leading;
+    spans.push({ start: from, end: from + trimmed.length });
+  }
+  return spans;
+}
+
+/** Pieces of at most `maxChars`, cut at whitespace when there is any. */
+function hardSplit(text: string, start: number, end: number, maxChars: number): Array<{ start: number; end: number }> {
+  const pieces: Array<{ start: number; end: number }> = [];
+  let from = start;
+  while (end - from > maxChars) {
+    const window = text.slice(from, from + maxChars + 1);
+    const cut = window.search(/\s\S*$/);
+    const to = cut > 0 ? from + cut : from + maxChars;
+    pieces.push({ start: from, end: to });
+    from = to;
+    while (from < end && /\s/.test(text[from])) from++;
+  }
+  if (from < end) pieces.push({ start: from, end });
+  return pieces;
+}
+
+/** Sections of the text, each with its heading path and body units. */
+function readSections(text: string, maxChars: number): Section[] {
+  const sections: Section[] = [{ path: [], headingStart: null, units: [] }];
+  const stack: Array<{ level: number; title: string }> = [];
+
+  for (const block of text.matchAll(/[^\n]*\S[^\n]*(?:\n[^\n]*\S[^\n]*)*/g)) {
+    const blockStart = block.index!;
+    const lines = block[0].split("\n");
+    let lineStart = blockStart;
+    let bodyStart: number | null = null;
+
+    for (const line of lines) {
+      const heading = bodyStart === null ? headingOf(line, lines.length === 1) : null;
+      if (heading) {
+        while (stack.length && stack[stack.length - 1].level >= heading.level) stack.pop();
+        stack.push(heading);
+        const current = sections[sections.length - 1];
+        const path = stack.map((entry) => entry.title);
+        // Headings with no body in between share one section, under the deepest path.
+        if (current.units.length) sections.push({ path, headingStart: lineStart, units: [] });
+        else Object.assign(current, { path, headingStart: current.headingStart ?? lineStart });
+      } else if (bodyStart === null) {
+        bodyStart = lineStart;
+      }
+      lineStart += line.length + 1;
+    }
+
+    if (bodyStart === null) continue;
+    const blockEnd = blockStart + block[0].length;
+    const units = sentenceSpans(text, bodyStart, blockEnd).flatMap((span) =>
+      hardSplit(text, span.start, span.end, maxChars).map((piece) => ({ ...piece, paragraphEnd: false })),
+    );
+    if (!units.length) continue;
+    units[units.length - 1].paragraphEnd = true;
+    sections[sections.length - 1].units.push(...units);
+  }
+  return sections.filter((section) => section.units.length);
+}
+
+/**
+ * Chunks of about `chunkSize` characters that keep to paragraph and sentence
+ * boundaries, each opening with up to `overlap` characters of whole sentences
+ * from the end of the previous chunk in its section.
+ */
+export function chunkText(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const pageAt = pageLocator(text);
+  for (const section of readSections(text, chunkSize)) {
+    const { units } = section;
+    const sectionLabel = section.path.length ? section.path.join(SECTION_PATH_SEPARATOR) : null;
+    let first = 0;
+    // Every chunk reaches at least this unit, past what the previous one covered.
+    let fresh = 0;
+    let includeHeading = section.headingStart !== null;
+
+    while (fresh < units.length) {
+      const start = includeHeading ? section.headingStart! : units[first].start;
+      let last = fresh;
+      while (last + 1 < units.length && units[last + 1].end - start <= chunkSize) last++;
+      if (last + 1 < units.length) {
+        // Prefer ending at a paragraph when that keeps at least half the chunk.
+        for (let candidate = last; candidate > fresh; candidate--) {
+          if (units[candidate].paragraphEnd && units[candidate].end - start >= chunkSize / 2) {
+            last = candidate;
+            break;
+          }
+        }
+      }
+
+      const end = units[last].end;
+      const content = text.slice(start, end);
+      chunks.push({
+        content,
+        tokenCount: countTokens(content),
+        sectionLabel,
+        startOffset: start,
+        endOffset: end,
+        pageStart: pageAt(start),
+        pageEnd: pageAt(end - 1),
+      });
+
+      const chunkFirst = first;
+      fresh = last + 1;
+      if (fresh >= units.length) break;
+      // Overlap: the trailing sentences within `overlap`, as long as the next one still fits after them.
+      first = fresh;
+      while (
+        first - 1 > chunkFirst &&
+        end - units[first - 1].start <= overlap &&
+        units[fresh].end - units[first - 1].start <= chunkSize
+      ) {
+        first--;
+      }
+      includeHeading = false;
+    }
+  }
+  return chunks;
+}
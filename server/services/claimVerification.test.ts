@@ -0,0 +1,113 @@
+// @vitest-environment node
+
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage.js";
+import {
+  ensureClaimVerifications,
+  getProjectEvidenceMap,
+  judgeClaim,
+  splitAnswerIntoClaims,
+} from "./claimVerification.js";
+
+const annualReport =
+  "In 2025 the food bank served 1,240 families across three counties. Most households were first-time clients referred by schools.";
+
+describe("splitAnswerIntoClaims", () => {
+  it("keeps markers that follow the full stop with their own sentence", () => {
+    const claims = splitAnswerIntoClaims("We served 1,240 families. [#1] Demand keeps rising.\n\nOur budget is $185,000. [#2]");
+    expect(claims).toEqual([
+      { position: 0, paragraph: 0, sentence: "We served 1,240 families. [#1]", markers: [1] },
+      { position: 1, paragraph: 0, sentence: "Demand keeps rising.", markers: [] },
+      { position: 2, paragraph: 1, sentence: "Our budget is $185,000. [#2]", markers: [2] },
+    ]);
+  });
+});
+
+describe("judgeClaim", () => {
+  it("grades cited sentences by how much of them their source backs", () => {
+    expect(judgeClaim("In 2025 we served 1,240 families across three counties. [#1]", [1], [annualReport]).verdict).toBe(
+      "supported",
+    );
+    expect(
+      judgeClaim("In 2025 we served 1,240 families in Riverside County. [#1]", [1], [annualReport]),
+    ).toMatchObject({ verdict: "partially", missingTerms: ["Riverside County"] });
+    expect(judgeClaim("Our staff hold nursing licenses and clinical degrees. [#1]", [1], [annualReport]).verdict).toBe(
+      "unsupported",
+    );
+  });
+
+  it("reports uncited sentences and citations that resolve to nothing", () => {
+    expect(judgeClaim("We are proud of this work.", [], [annualReport]).verdict).toBe("uncited");
+    expect(judgeClaim("We served 1,240 families. [#4]", [4], []).verdict).toBe("unsupported");
+  });
+});
+
+describe("claim verification persistence", () => {
+  async function draftedQuestion(userId: string, response: string) {
+    const project = await storage.createProject(userId, { title: "Evidence", funder: "Funder" });
+    const document = await storage.createDocument(userId, {
+      organizationId: userId,
+      filename: "annual-report.txt",
+      originalName: "Annual Report.txt",
+      fileType: "text/plain",
+      fileSize: annualReport.length,
+      category: "organization-info",
+    });
+    await storage.insertDocChunk(document.id, { chunkIndex: 0, content: annualReport, tokenCount: 20 });
+    const question = await storage.createGrantQuestion(project.id, { question: "Who do you serve?" });
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: document.id,
+      chunkRefs: [{ chunkIndex: 0, quote: annualReport.slice(0, 40) }],
+    });
+    const drafted = await storage.updateGrantQuestion(question.id, { response, responseStatus: "complete" });
+    return { project, question: drafted! };
+  }
+
+  it("persists verdicts per answer text and re-verifies after an edit", async () => {
+    const { question } = await draftedQuestion(
+      "claims-persist",
+      "In 2025 we served 1,240 families across three counties. [#1] We are grateful for your support.",
+    );
+
+    const first = await ensureClaimVerifications(question);
+    expect(first.map((c) => c.verdict)).toEqual(["supported", "uncited"]);
+    expect(await storage.getClaimVerifications(question.id)).toEqual(first);
+    expect(await ensureClaimVerifications(question)).toEqual(first);
+
+    const edited = await storage.updateGrantQuestion(question.id, {
+      response: "In 2025 we served 5,000 families in Orange County. [#1]",
+      responseStatus: "edited",
+    });
+    const second = await ensureClaimVerifications(edited!);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({ verdict: "partially", missingTerms: ["5000", "Orange County"] });
+  });
+
+  it("builds Evidence Map sections from the stored verdicts", async () => {
+    const { project, question } = await draftedQuestion(
+      "claims-map",
+      "In 2025 we served 1,240 families across three counties. [#1]\n\nWe employ 40 licensed nurses.",
+    );
+    await storage.createGrantQuestion(project.id, { question: "Unanswered question" });
+
+    const map = await getProjectEvidenceMap(project.id);
+    expect(map.sections).toHaveLength(1);
+    const [section] = map.sections;
+    expect(section).toMatchObject({
+      questionId: question.id,
+      sectionName: "Question 1",
+      evidenceStrength: 0.5,
+      sourceCount: 1,
+    });
+    expect(section.paragraphs.map((p) => [p.citationCount, p.evidenceScore])).toEqual([
+      [1, 1],
+      [0, 0],
+    ]);
+    expect(section.qualityIssues).toEqual([
+      expect.objectContaining({ type: "missing_citation", severity: "medium" }),
+    ]);
+    expect(map.overallGroundingQuality).toBe(0.5);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Claim verification behind the Evidence Map.
+ *
+ * Each answer is split into sentences; every sentence that carries [#N]
+ * markers is compared with the full text of the chunk(s) those markers cite
+ * (the Nth `draft_citations` row, the same mapping the drafts UI uses). The
+ * verdicts are persisted with a hash of the answer text, so they are computed
+ * once per version of an answer and recomputed lazily after an edit.
+ *
+ * The check is lexical: how many of the sentence's content words appear in
+ * its sources, and whether every number and name it states does. It cannot
+ * judge paraphrase, but it is deterministic and needs no model call, so two
+ * people looking at the same draft always see the same map.
+ */
+
+import { createHash } from "crypto";
+import { storage } from "../storage.js";
+import { extractProperNounCandidates } from "./ai.js";
+import type { AssumptionLabel, ClaimVerification, GrantQuestion, InsertClaimVerification } from "../../shared/schema.js";
+import type { ClaimVerdict, EvidenceMapData, ProjectEvidenceMap } from "../../shared/evidence-map.js";
+
+/** Share of a sentence's content words that must appear in its sources to count as supported. */
+const SUPPORTED_MIN_SCORE = 60;
+/** Below this share a cited sentence is unsupported rather than partially supported. */
+const PARTIAL_MIN_SCORE = 30;
+
+const VERDICT_WEIGHT: Record<ClaimVerdict, number> = {
+  supported: 1,
+  partially: 0.5,
+  unsupported: 0,
+  uncited: 0,
+};
+
+/** Response statuses whose answers are shown and verified. */
+export const ANSWERED_STATUSES = new Set(["complete", "edited"]);
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one",
+  "our", "out", "has", "have", "his", "how", "its", "may", "new", "now", "own", "who", "did", "get",
+  "this", "that", "these", "those", "with", "from", "into", "than", "then", "they", "them", "their",
+  "there", "will", "would", "could", "should", "been", "being", "were", "which", "while", "what",
+  "when", "where", "also", "each", "such", "more", "most", "other", "over", "some", "very", "about",
+  "after", "before", "through", "during", "both", "only", "same", "just", "because", "within",
+]);
+
+export interface AnswerClaim {
+  position: number;
+  paragraph: number;
+  sentence: string;
+  markers: number[];
+}
+
+export interface ClaimJudgement {
+  verdict: ClaimVerdict;
+  score: number;
+  missingTerms: string[];
+}
+
+export function hashResponse(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Split an answer into sentences, numbering paragraphs (blank-line separated)
+ * along the way. Markers that follow a sentence's closing punctuation
+ * ("... in 2025. [#1] Next ...") stay with that sentence.
+ */
+export function splitAnswerIntoClaims(text: string): AnswerClaim[] {
+  const claims: AnswerClaim[] = [];
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    for (const line of paragraph.split(/\n+/)) {
+      const sentences = line.trim().split(/(?<=[.!?]["”')]?(?:\s*\[#\d+\])*)\s+(?=["“(]?[A-Z0-9])/);
+      for (const raw of sentences) {
+        const sentence = raw.trim();
+        if (!/[a-z0-9]/i.test(sentence.replace(/\[#\d+\]/g, ""))) continue;
+        const markers = Array.from(new Set(Array.from(sentence.matchAll(/\[#(\d+)\]/g), (m) => parseInt(m[1], 10))));
+        claims.push({ position: claims.length, paragraph: paragraphIndex, sentence, markers });
+      }
+    }
+  });
+
+  return claims;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\[#\d+\]/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function stem(word: string): string {
+  return word.length > 5 ? word.replace(/(ing|ed|es|s)$/, "") : word;
+}
+
+/** Lower-cased, lightly stemmed words of three or more letters, stopwords removed. */
+export function contentTerms(text: string): string[] {
+  const words = normalize(text).match(/[a-z0-9][a-z0-9'-]*/g) ?? [];
+  return words.filter((w) => w.length >= 3 && !STOPWORDS.has(w)).map(stem);
+}
+
+/** Numbers as written ("1,240", "$185,000", "40%") compared without separators. */
+function numbersIn(text: string): string[] {
+  return (text.replace(/\[#\d+\]/g, " ").match(/\d[\d,.]*\d|\d/g) ?? []).map((n) => n.replace(/,/g, ""));
+}
+
+/**
+ * Judge one sentence against the text of the chunks it cites. Uncited
+ * sentences and citations that resolve to nothing are reported as such rather
+ * than scored.
+ */
+export function judgeClaim(sentence: string, markers: number[], sources: string[]): ClaimJudgement {
+  if (!markers.length) return { verdict: "uncited", score: 0, missingTerms: [] };
+  if (!sources.length) return { verdict: "unsupported", score: 0, missingTerms: [] };
+
+  const source = normalize(sources.join("\n"));
+  const sourceTerms = new Set(contentTerms(source));
+  const sourceNumbers = new Set(numbersIn(source));
+
+  const terms = contentTerms(sentence);
+  const matched = terms.filter((term) => sourceTerms.has(term)).length;
+  const score = terms.length ? Math.round((matched / terms.length) * 100) : 100;
+
+  const missingTerms = [
+    ...numbersIn(sentence).filter((n) => !sourceNumbers.has(n)),
+    ...extractProperNounCandidates(sentence.replace(/\[#\d+\]/g, "")).filter(
+      (name) => !source.includes(name.toLowerCase()),
+    ),
+  ];
+
+  let verdict: ClaimVerdict;
+  if (score >= SUPPORTED_MIN_SCORE && !missingTerms.length) verdict = "supported";
+  else if (score >= PARTIAL_MIN_SCORE) verdict = "partially";
+  else verdict = "unsupported";
+
+  return { verdict, score, missingTerms: Array.from(new Set(missingTerms)) };
+}
+
+/** Verify the question's current answer and persist the verdicts, replacing older ones. */
+export async function verifyQuestionClaims(question: GrantQuestion): Promise<ClaimVerification[]> {
+  const text = question.response ?? "";
+  const responseHash = hashResponse(text);
+  const citations = await storage.getDraftCitations(question.id);
+  const sourceCache = new Map<number, { documentId: string; content: string } | null>();
+
+  const resolveMarker = async (marker: number) => {
+    if (sourceCache.has(marker)) return sourceCache.get(marker)!;
+    const citation = citations[marker - 1];
+    let resolved: { documentId: string; content: string } | null = null;
+    if (citation?.sourceDocumentId) {
+      const refs = Array.isArray(citation.chunkRefs) ? (citation.chunkRefs as Array<{ chunkIndex?: number; quote?: string }>) : [];
+      const chunkIndex = typeof refs[0]?.chunkIndex === "number" ? refs[0].chunkIndex : 0;
+      const chunk = await storage.getDocChunk(citation.sourceDocumentId, chunkIndex);
+      // A reprocessed document may no longer have the chunk; the stored quote is the best remaining evidence.
+      const content = chunk?.content ?? refs[0]?.quote ?? "";
+      if (content) resolved = { documentId: citation.sourceDocumentId, content };
+    }
+    sourceCache.set(marker, resolved);
+    return resolved;
+  };
+
+  const rows: InsertClaimVerification[] = [];
+  for (const claim of splitAnswerIntoClaims(text)) {
+    const sources = (await Promise.all(claim.markers.map(resolveMarker))).filter(
+      (s): s is { documentId: string; content: string } => !!s,
+    );
+    const judgement = judgeClaim(
+      claim.sentence,
+      claim.markers,
+      sources.map((s) => s.content),
+    );
+    rows.push({
+      questionId: question.id,
+      responseHash,
+      position: claim.position,
+      paragraph: claim.paragraph,
+      sentence: claim.sentence,
+      markers: claim.markers,
+      sourceDocumentIds: Array.from(new Set(sources.map((s) => s.documentId))),
+      ...judgement,
+    });
+  }
+
+  return storage.replaceClaimVerifications(question.id, rows);
+}
+
+/** Stored verdicts for the current answer text, re-verifying when the answer changed since. */
+export async function ensureClaimVerifications(question: GrantQuestion): Promise<ClaimVerification[]> {
+  if (!question.response?.trim()) return [];
+  const stored = await storage.getClaimVerifications(question.id);
+  if (stored.length && stored[0].responseHash === hashResponse(question.response)) return stored;
+  return verifyQuestionClaims(question);
+}
+
+/** 0-1: supported sentences count fully, partially supported ones half. */
+export function claimStrength(claims: ClaimVerification[]): number {
+  if (!claims.length) return 0;
+  const total = claims.reduce((sum, claim) => sum + VERDICT_WEIGHT[claim.verdict as ClaimVerdict], 0);
+  return total / claims.length;
+}
+
+/** Whether an uncited sentence states figures or names that would need a source. */
+export function statesSpecifics(sentence: string): boolean {
+  return numbersIn(sentence).length > 0 || extractProperNounCandidates(sentence).length > 0;
+}
+
+function excerpt(sentence: string): string {
+  const plain = sentence.replace(/\s*\[#\d+\]/g, "").trim();
+  return plain.length > 120 ? `${plain.slice(0, 117)}...` : plain;
+}
+
+export function buildEvidenceMapSection(
+  question: GrantQuestion,
+  sectionName: string,
+  claims: ClaimVerification[],
+  assumptions: AssumptionLabel[],
+): EvidenceMapData {
+  const qualityIssues: EvidenceMapData["qualityIssues"] = [];
+  const recommendations = new Set<string>();
+
+  for (const claim of claims) {
+    const missing = (claim.missingTerms as string[]) ?? [];
+    const markers = (claim.markers as number[]).map((m) => `[#${m}]`).join(" ");
+    switch (claim.verdict as ClaimVerdict) {
+      case "unsupported":
+        qualityIssues.push({
+          type: "weak_source",
+          message: `"${excerpt(claim.sentence)}" cites ${markers}, but the cited source does not support it.`,
+          severity: "high",
+        });
+        recommendations.add("Rewrite or re-cite sentences their sources don't back up.");
+        break;
+      case "partially":
+        qualityIssues.push({
+          type: "weak_source",
+          message: missing.length
+            ? `"${excerpt(claim.sentence)}" states ${missing.map((t) => `"${t}"`).join(", ")}, which the cited source does not mention.`
+            : `"${excerpt(claim.sentence)}" is only partly backed by ${markers}.`,
+          severity: "medium",
+        });
+        recommendations.add("Check specific figures and names against the cited documents.");
+        break;
+      case "uncited":
+        // Transitional prose needs no source; only flag sentences that state specifics.
+        if (statesSpecifics(claim.sentence)) {
+          qualityIssues.push({
+            type: "missing_citation",
+            message: `"${excerpt(claim.sentence)}" states specifics without a citation.`,
+            severity: "medium",
+          });
+          recommendations.add("Add a citation for uncited figures, or upload a document that contains them.");
+        }
+        break;
+    }
+  }
+
+  const openAssumptions = assumptions.filter((a) => !a.resolved);
+  for (const assumption of openAssumptions) {
+    qualityIssues.push({ type: "assumption", message: assumption.text, severity: "medium" });
+  }
+  if (openAssumptions.length) recommendations.add("Resolve open assumptions before submitting.");
+
+  const byParagraph = new Map<number, ClaimVerification[]>();
+  for (const claim of claims) {
+    byParagraph.set(claim.paragraph, [...(byParagraph.get(claim.paragraph) ?? []), claim]);
+  }
+
+  return {
+    questionId: question.id,
+    sectionName,
+    evidenceStrength: claimStrength(claims),
+    sourceCount: new Set(claims.flatMap((c) => c.sourceDocumentIds as string[])).size,
+    assumptionCount: openAssumptions.length,
+    qualityIssues,
+    recommendations: Array.from(recommendations),
+    paragraphs: Array.from(byParagraph.entries()).map(([paragraph, paragraphClaims]) => ({
+      id: `p-${question.id}-${paragraph + 1}`,
+      text: paragraphClaims.map((c) => c.sentence).join(" "),
+      citationCount: paragraphClaims.reduce((sum, c) => sum + (c.markers as number[]).length, 0),
+      assumptionCount: 0,
+      evidenceScore: claimStrength(paragraphClaims),
+    })),
+  };
+}
+
+/**
+ * Evidence Map for every answered question in a project. Sections keep the
+ * question's position in the project ("Question 3"), matching the drafts list.
+ */
+export async function getProjectEvidenceMap(projectId: string): Promise<ProjectEvidenceMap> {
+  const questions = await storage.getGrantQuestions(projectId);
+  const sections: EvidenceMapData[] = [];
+  let weighted = 0;
+  let claimCount = 0;
+
+  for (const [index, question] of questions.entries()) {
+    if (!ANSWERED_STATUSES.has(question.responseStatus ?? "") || !question.response?.trim()) continue;
+    const claims = await ensureClaimVerifications(question);
+    const assumptions = await storage.getAssumptionLabels(projectId, question.id);
+    const section = buildEvidenceMapSection(question, `Question ${index + 1}`, claims, assumptions);
+    sections.push(section);
+    weighted += section.evidenceStrength * claims.length;
+    claimCount += claims.length;
+  }
+
+  return { sections, overallGroundingQuality: claimCount ? weighted / claimCount : 0 };
+}
@@ -0,0 +1,209 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { retrieveRelevantChunks } from "./retrieval.js";
+import {
+  answerClarification,
+  classifyClarificationCategory,
+  refreshProjectClarifications,
+  requestClarificationFollowUp,
+  skipClarification,
+} from "./clarifications.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+async function seedProject(userId: string) {
+  const project = await storage.createProject(userId, { title: "Clarify", funder: "Funder" });
+  const document = await storage.createDocument(userId, {
+    organizationId: userId,
+    filename: "mission.txt",
+    originalName: "Mission.txt",
+    fileType: "text/plain",
+    fileSize: 80,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, {
+    chunkIndex: 0,
+    content: "Describe your mission: we end hunger in Riverside County.",
+    tokenCount: 10,
+  });
+  const covered = await storage.createGrantQuestion(project.id, { question: "Describe your mission" });
+  const uncovered = await storage.createGrantQuestion(project.id, {
+    question: "What is your annual operating budget?",
+    priority: "high",
+  });
+  return { project, covered, uncovered };
+}
+
+describe("classifyClarificationCategory", () => {
+  it("prefers the narrower topic and falls back to specificity", () => {
+    expect(classifyClarificationCategory("Staff costs for the program")).toBe("budget");
+    expect(classifyClarificationCategory("How will you sustain the program after the grant?")).toBe("sustainability");
+    expect(classifyClarificationCategory("Name of the organization")).toBe("specificity");
+  });
+});
+
+describe("refreshProjectClarifications", () => {
+  it("asks about unresolved assumptions and questions no document covers", async () => {
+    const userId = "clarify-refresh";
+    const { project, covered, uncovered } = await seedProject(userId);
+    await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: covered.id,
+      text: "We assumed the program has two full-time staff",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "We assumed the program has two full-time staff",
+      position: { start: 0, end: 10 },
+    });
+
+    const clarifications = await refreshProjectClarifications({ userId, project });
+    expect(clarifications.map((c) => [c.origin, c.questionId, c.category, c.priority])).toEqual([
+      ["assumption", covered.id, "team", "high"],
+      ["retrieval_gap", uncovered.id, "budget", "critical"],
+    ]);
+
+    // Refreshing again does not re-ask.
+    expect(await refreshProjectClarifications({ userId, project })).toHaveLength(2);
+  });
+
+  it("follows an open question to the label that replaced its own on regeneration", async () => {
+    const userId = "clarify-relink";
+    const { project, covered } = await seedProject(userId);
+    const label = {
+      projectId: project.id,
+      draftId: covered.id,
+      text: "We assumed services began in 1998",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "We assumed services began in 1998",
+      position: { start: 0, end: 10 },
+    };
+    await storage.createAssumptionLabel(label);
+    const [first] = await refreshProjectClarifications({ userId, project });
+
+    await storage.deleteAssumptionLabels(project.id, covered.id);
+    const replacement = await storage.createAssumptionLabel(label);
+    const refreshed = await refreshProjectClarifications({ userId, project });
+    expect(refreshed.find((c) => c.id === first.id)).toMatchObject({
+      status: "open",
+      assumptionLabelId: replacement.id,
+    });
+
+    await storage.deleteAssumptionLabels(project.id, covered.id);
+    const retired = await refreshProjectClarifications({ userId, project });
+    expect(retired.find((c) => c.id === first.id)?.status).toBe("skipped");
+  });
+
+  it("moves past the gap-check cap and rechecks a question only when its wording changes", async () => {
+    const userId = "clarify-gap-cap";
+    const { project } = await seedProject(userId);
+    for (let i = 1; i <= 30; i++) {
+      await storage.createGrantQuestion(project.id, { question: `Describe your mission, part ${i}` });
+    }
+    const checked = async () =>
+      (await storage.getGrantQuestions(project.id)).filter((q) => q.gapCheckedHash).map((q) => q.id);
+
+    await refreshProjectClarifications({ userId, project });
+    expect(await checked()).toHaveLength(25);
+    // The next refresh checks the other 7 instead of the first 25 again.
+    await refreshProjectClarifications({ userId, project });
+    expect(await checked()).toHaveLength(32);
+
+    // A question with source material is checked again once its wording changes.
+    const gaps = new Set((await storage.getClarificationQuestions(project.id)).map((c) => c.questionId));
+    const reworded = (await storage.getGrantQuestions(project.id)).find((q) => !gaps.has(q.id))!;
+    await storage.updateGrantQuestion(reworded.id, { question: `${reworded.question}, in detail` });
+    await refreshProjectClarifications({ userId, project });
+    const rechecked = await storage.getGrantQuestion(reworded.id);
+    expect(rechecked?.gapCheckedHash).toBeTruthy();
+    expect(rechecked?.gapCheckedHash).not.toBe(reworded.gapCheckedHash);
+  });
+});
+
+describe("answering clarifications", () => {
+  it("stores the answer as a fact that retrieval returns as citable context", async () => {
+    const userId = "clarify-answer";
+    const { project, uncovered } = await seedProject(userId);
+    const [gap] = await refreshProjectClarifications({ userId, project });
+    expect(gap.questionId).toBe(uncovered.id);
+
+    const result = await answerClarification({
+      userId,
+      project,
+      clarification: gap,
+      answer: "Our FY2025 operating budget is $1.2M.",
+    });
+    expect(result.ok && result.clarification).toMatchObject({ status: "answered", answeredBy: userId });
+    if (!result.ok) return;
+
+    const { chunks } = await retrieveRelevantChunks({
+      userId,
+      organizationId: project.organizationId,
+      projectId: project.id,
+      query: uncovered.question,
+    });
+    expect(chunks).toEqual([
+      expect.objectContaining({
+        source: "fact",
+        documentName: "Organization facts",
+        content: "Fact: What is your annual operating budget?\nOur FY2025 operating budget is $1.2M.",
+      }),
+    ]);
+    const fact = await storage.getOrganizationFact(result.clarification.factId!);
+    expect(fact).toMatchObject({ projectId: null, source: "clarification", documentId: chunks[0].documentId });
+
+    // An answered clarification cannot be answered again.
+    const again = await answerClarification({ userId, project, clarification: result.clarification, answer: "x" });
+    expect(again).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it("resolves the assumption an answer came from", async () => {
+    const userId = "clarify-resolve";
+    const { project, covered } = await seedProject(userId);
+    const label = await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: covered.id,
+      text: "We assumed 300 families are served each year",
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: "How many families do you serve each year?",
+      position: { start: 0, end: 10 },
+    });
+    const clarification = (await refreshProjectClarifications({ userId, project })).find(
+      (c) => c.assumptionLabelId === label.id,
+    )!;
+    expect(clarification.questionText).toBe("How many families do you serve each year?");
+
+    const result = await answerClarification({
+      userId,
+      project,
+      clarification,
+      answer: "We serve 1,240 families a year.",
+      scope: "project",
+    });
+    expect(result.ok).toBe(true);
+    expect((await storage.getAssumptionLabel(label.id))?.resolved).toBe(true);
+    const facts = await storage.getOrganizationFacts(project.organizationId);
+    expect(facts).toEqual([expect.objectContaining({ projectId: project.id, label: label.text })]);
+  });
+
+  it("adds follow-up guidance and lets open questions be skipped", async () => {
+    const userId = "clarify-skip";
+    const { project } = await seedProject(userId);
+    const [gap] = await refreshProjectClarifications({ userId, project });
+
+    const followUp = await requestClarificationFollowUp(gap);
+    expect(followUp.ok && followUp.clarification.followUp).toMatch(/fiscal year/);
+    const skipped = await skipClarification(gap);
+    expect(skipped.ok && skipped.clarification.status).toBe("skipped");
+    expect(await requestClarificationFollowUp(skipped.ok ? skipped.clarification : gap)).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Clarification engine: turns a project's missing context into questions for
+ * the writer, and their answers into organization facts.
+ *
+ * Questions come from two places: unresolved assumption labels (the draft
+ * had to guess) and application questions retrieval finds no source material
+ * for (a draft would have to guess). Answers are stored with
+ * `recordOrganizationFact`, so the next generation retrieves and cites them.
+ */
+
+import { createHash } from "crypto";
+import { storage } from "../storage.js";
+import { retrieveRelevantChunks } from "./retrieval.js";
+import { recordOrganizationFact } from "./organizationFacts.js";
+import { answerAssumptionLabel } from "./assumptionAnswers.js";
+import type { AssumptionLabel, ClarificationQuestion, GrantQuestion, Project } from "../../shared/schema.js";
+
+export const CLARIFICATION_CATEGORIES = [
+  "budget",
+  "timeline",
+  "outcomes",
+  "methodology",
+  "team",
+  "sustainability",
+  "evidence",
+  "specificity",
+] as const;
+export type ClarificationCategory = (typeof CLARIFICATION_CATEGORIES)[number];
+
+/** Application questions checked for retrieval gaps per refresh. */
+const MAX_GAP_CHECKS = 25;
+
+// First match wins, so the narrower topics come before the broad ones.
+const CATEGORY_PATTERNS: Array<[ClarificationCategory, RegExp]> = [
+  ["budget", /\$|\bbudget|\bcost|\bfunding\b|\brevenue|\bexpense|\bdollars?\b|\bmatch(ing)? funds/i],
+  ["sustainability", /sustain|after the grant|long-term|continue the (program|project|work)/i],
+  ["team", /\bstaff|\bteam\b|\bdirector|\bpersonnel|\bboard\b|\bvolunteers?\b|\bhire|\bleadership/i],
+  ["timeline", /timeline|deadline|schedule|milestone|\bmonths?\b|\bquarters?\b|\bdates?\b|\bwhen\b/i],
+  ["outcomes", /outcome|impact|\bresults?\b|\bserved?\b|participants|\bgoals?\b|objective|\bmeasure/i],
+  ["methodology", /method|approach|\bmodel\b|curriculum|evaluat|\bhow will\b|activities/i],
+  ["evidence", /\bdata\b|evidence|research|\bstud(y|ies)\b|statistic|survey|percent|%/i],
+];
+
+const GUIDANCE: Record<ClarificationCategory, { why: string; example: string; followUp: string }> = {
+  budget: {
+    why: "Reviewers check that the numbers in the narrative match the budget.",
+    example: "Our FY2025 operating budget is $1.2M; this project costs $180,000, of which we request $120,000.",
+    followUp: "Give the figure, the period it covers (fiscal year or grant period), and where it comes from (audit, board-approved budget).",
+  },
+  timeline: {
+    why: "A concrete schedule shows the work is planned and feasible within the grant period.",
+    example: "Recruitment runs January–March 2026, classes April–November, and the final report is due December 15.",
+    followUp: "List the main phases with start and end months, and any fixed dates such as reporting deadlines.",
+  },
+  outcomes: {
+    why: "Funders score applications on measurable results, not activities.",
+    example: "In 2025 we served 1,240 families; 82% reported improved food security at six months.",
+    followUp: "State who was reached, how many, over what period, and how you measured the change.",
+  },
+  methodology: {
+    why: "Reviewers need to see how the work gets done and why that approach fits the need.",
+    example: "We use a cohort model: 12-week sessions of 15 participants, each paired with a trained peer mentor.",
+    followUp: "Describe the steps a participant goes through and what makes the approach effective.",
+  },
+  team: {
+    why: "Capacity questions are judged on who will do the work and their experience.",
+    example: "The program is led by our Director of Programs (12 years in workforce development) with two full-time coaches.",
+    followUp: "Name the roles (not necessarily people), their time on the project, and relevant experience.",
+  },
+  sustainability: {
+    why: "Funders want to know the work continues after their grant ends.",
+    example: "After year two, county contracts and our annual gala will cover 70% of program costs.",
+    followUp: "List the funding sources or partnerships that will carry the work forward, with rough shares if known.",
+  },
+  evidence: {
+    why: "Claims backed by data or research are more persuasive and easier to verify.",
+    example: "The 2024 county health assessment found 23% of households in our service area are food insecure.",
+    followUp: "Cite the source (report, survey, internal data), the year, and the specific figure.",
+  },
+  specificity: {
+    why: "Specific, verifiable details make the answer credible; without them the draft has to stay vague.",
+    example: "We operate three sites in Riverside County and have been serving the community since 1998.",
+    followUp: "Answer with the specific names, numbers or dates that apply to your organization.",
+  },
+};
+
+export function classifyClarificationCategory(text: string): ClarificationCategory {
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? "specificity";
+}
+
+function keyOf(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function gapCheckHash(question: GrantQuestion): string {
+  return createHash("sha256").update(keyOf(question.question)).digest("hex");
+}
+
+function assumptionClarification(project: Project, label: AssumptionLabel, question: GrantQuestion | undefined) {
+  const category = classifyClarificationCategory(`${label.text} ${question?.question ?? ""}`);
+  const asked = label.suggestedQuestion.trim();
+  return {
+    projectId: project.id,
+    questionId: question?.id ?? null,
+    assumptionLabelId: label.id,
+    origin: "assumption",
+    category,
+    priority: "high",
+    questionText: asked.endsWith("?")
+      ? asked
+      : `The draft assumed: "${label.text.replace(/[.\s]+$/, "")}". What is accurate for your organization?`,
+    contextExplanation: question
+      ? `${GUIDANCE[category].why} The draft for "${question.question}" relies on this assumption.`
+      : GUIDANCE[category].why,
+    exampleAnswer: GUIDANCE[category].example,
+  };
+}
+
+function gapClarification(project: Project, question: GrantQuestion) {
+  const category = classifyClarificationCategory(question.question);
+  return {
+    projectId: project.id,
+    questionId: question.id,
+    assumptionLabelId: null,
+    origin: "retrieval_gap",
+    category,
+    priority: question.priority === "high" ? "critical" : "high",
+    questionText: `None of your documents cover "${question.question}". What should reviewers know?`,
+    contextExplanation: `${GUIDANCE[category].why} Without source material a draft for this question would have to guess.`,
+    exampleAnswer: GUIDANCE[category].example,
+  };
+}
+
+/**
+ * Bring a project's clarification questions up to date: add one per new
+ * unresolved assumption and per application question retrieval finds nothing
+ * for, and retire open questions whose assumption was resolved elsewhere.
+ * Questions already answered or skipped are never re-asked.
+ */
+export async function refreshProjectClarifications(params: {
+  userId: string;
+  project: Project;
+}): Promise<ClarificationQuestion[]> {
+  const { userId, project } = params;
+  const [existing, labels, questions] = await Promise.all([
+    storage.getClarificationQuestions(project.id),
+    storage.getAssumptionLabels(project.id),
+    storage.getGrantQuestions(project.id),
+  ]);
+  const questionsById = new Map(questions.map((question) => [question.id, question]));
+  const unresolved = labels.filter((label) => !label.resolved);
+  const linkedLabelIds = new Set(existing.map((c) => c.assumptionLabelId).filter(Boolean));
+  const askedTexts = new Set(existing.map((c) => keyOf(c.questionText)));
+
+  // Regenerating a draft replaces its labels, so an open question may point
+  // at a label that no longer exists; relink it to a same-text successor.
+  for (const clarification of existing) {
+    if (clarification.origin !== "assumption" || clarification.status !== "open") continue;
+    if (unresolved.some((label) => label.id === clarification.assumptionLabelId)) continue;
+    const successor = unresolved.find(
+      (label) =>
+        !linkedLabelIds.has(label.id) &&
+        keyOf(assumptionClarification(project, label, undefined).questionText) === keyOf(clarification.questionText),
+    );
+    if (successor) {
+      linkedLabelIds.add(successor.id);
+      await storage.updateClarificationQuestion(clarification.id, { assumptionLabelId: successor.id });
+    } else {
+      await storage.updateClarificationQuestion(clarification.id, { status: "skipped" });
+    }
+  }
+
+  for (const label of unresolved) {
+    if (linkedLabelIds.has(label.id)) continue;
+    const draft = assumptionClarification(project, label, label.draftId ? questionsById.get(label.draftId) : undefined);
+    if (askedTexts.has(keyOf(draft.questionText))) continue;
+    askedTexts.add(keyOf(draft.questionText));
+    await storage.createClarificationQuestion(draft);
+  }
+
+  // A question is checked once per wording; the stored hash lets each
+  // refresh move past the cap instead of re-checking the same questions.
+  const gapFound = new Set(existing.filter((c) => c.origin === "retrieval_gap").map((c) => c.questionId));
+  const unchecked = questions.filter((q) => !gapFound.has(q.id) && q.gapCheckedHash !== gapCheckHash(q));
+  for (const question of unchecked.slice(0, MAX_GAP_CHECKS)) {
+    try {
+      const { chunks } = await retrieveRelevantChunks({
+        userId,
+        organizationId: project.organizationId,
+        projectId: project.id,
+        query: question.question,
+        limit: 3,
+      });
+      if (chunks.length === 0) {
+        await storage.createClarificationQuestion(gapClarification(project, question));
+      }
+      await storage.updateGrantQuestion(question.id, { gapCheckedHash: gapCheckHash(question) });
+    } catch (error) {
+      console.warn(`[clarifications] Retrieval check failed for question ${question.id}:`, error);
+    }
+  }
+
+  return storage.getClarificationQuestions(project.id);
+}
+
+export type ClarificationResult =
+  | { ok: true; clarification: ClarificationQuestion }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Record the writer's answer as an organization fact (org-wide unless
+ * `scope` is "project"); one about an assumption also resolves its label.
+ */
+export async function answerClarification(params: {
+  userId: string;
+  project: Project;
+  clarification: ClarificationQuestion;
+  answer: string;
+  scope?: "organization" | "project";
+}): Promise<ClarificationResult> {
+  const { userId, project, clarification } = params;
+  const answer = params.answer.trim();
+  if (!answer) return { ok: false, status: 400, error: "answer must be a non-empty string" };
+  if (clarification.status === "answered") {
+    return { ok: false, status: 409, error: "This clarification has already been answered" };
+  }
+
+  const label = clarification.assumptionLabelId
+    ? await storage.getAssumptionLabel(clarification.assumptionLabelId)
+    : undefined;
+  if (label) {
+    // Answered through the label, which also answers this clarification.
+    const result = await answerAssumptionLabel({
+      userId,
+      project,
+      label,
+      answer,
+      scope: params.scope,
+      source: "clarification",
+    });
+    if (!result.ok) return result;
+    return { ok: true, clarification: (await storage.getClarificationQuestion(clarification.id))! };
+  }
+
+  const question = clarification.questionId ? await storage.getGrantQuestion(clarification.questionId) : undefined;
+  const fact = await recordOrganizationFact({
+    userId,
+    organizationId: project.organizationId,
+    projectId: params.scope === "project" ? project.id : null,
+    // Label the fact with what it answers, so retrieval matches it next time.
+    label: clarification.origin === "retrieval_gap" && question ? question.question : clarification.questionText,
+    value: answer,
+    source: "clarification",
+  });
+  const updated = await storage.updateClarificationQuestion(clarification.id, {
+    status: "answered",
+    answer,
+    factId: fact.id,
+    answeredBy: userId,
+    answeredAt: new Date(),
+  });
+  return { ok: true, clarification: updated! };
+}
+
+export async function skipClarification(clarification: ClarificationQuestion): Promise<ClarificationResult> {
+  if (clarification.status === "answered") {
+    return { ok: false, status: 409, error: "This clarification has already been answered" };
+  }
+  const updated = await storage.updateClarificationQuestion(clarification.id, { status: "skipped" });
+  return { ok: true, clarification: updated! };
+}
+
+/** Add more specific guidance on what a good answer contains. */
+export async function requestClarificationFollowUp(
+  clarification: ClarificationQuestion,
+): Promise<ClarificationResult> {
+  if (clarification.status !== "open") {
+    return { ok: false, status: 409, error: "Only open clarifications can get follow-up guidance" };
+  }
+  const category = (CLARIFICATION_CATEGORIES as readonly string[]).includes(clarification.category)
+    ? (clarification.category as ClarificationCategory)
+    : "specificity";
+  const updated = await storage.updateClarificationQuestion(clarification.id, {
+    followUp: GUIDANCE[category].followUp,
+  });
+  return { ok: true, clarification: updated! };
+}
+
+/** Shape consumed by the client's ClarificationPanel. */
+export function toClarificationView(clarification: ClarificationQuestion) {
+  return {
+    id: clarification.id,
+    projectId: clarification.projectId,
+    questionId: clarification.questionId,
+    origin: clarification.origin,
+    category: clarification.category,
+    priority: clarification.priority,
+    questionText: clarification.questionText,
+    contextExplanation: clarification.contextExplanation,
+    exampleAnswer: clarification.exampleAnswer ?? undefined,
+    status: clarification.status,
+    isAnswered: clarification.status === "answered",
+    answer: clarification.answer ?? undefined,
+    followUp: clarification.followUp,
+    followUpNeeded: clarification.status === "open" && !clarification.followUp,
+    factId: clarification.factId,
+  };
+}
@@ -0,0 +1,96 @@
+// @vitest-environment node
+
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage.js";
+import { checkProjectConsistency, extractFacts, isNameVariant } from "./consistencyCheck.js";
+
+describe("extractFacts", () => {
+  it("keys counts by noun, tense and year", () => {
+    expect(extractFacts("In 2025 we served 1,240 low-income families. [#1]")).toMatchObject([
+      { key: "count:families:reported:2025", label: "Number of families in 2025", display: "1,240 low-income families", amount: 1240 },
+    ]);
+    expect(extractFacts("Next year we will serve 200 new families.")).toMatchObject([
+      { key: "count:new families:target:-", amount: 200 },
+    ]);
+    expect(extractFacts("We have served about 1.2 thousand students.")[0]).toMatchObject({ amount: 1200, approximate: true });
+  });
+
+  it("ties an amount or a date to its topic only when the sentence states one", () => {
+    expect(extractFacts("The total project budget is $1.2 million.")).toMatchObject([
+      { key: "amount:budget:-", label: "Project budget", amount: 1_200_000 },
+    ]);
+    expect(extractFacts("We request $50,000 toward the program budget.")).toMatchObject([{ key: "amount:request:-" }]);
+    expect(extractFacts("We request $50,000 of the $185,000 budget.")).toEqual([]);
+    expect(extractFacts("The program will start on July 1, 2025.")).toMatchObject([
+      { key: "date:start", display: "July 1, 2025", date: "2025-07-01" },
+    ]);
+    expect(extractFacts("The program runs from July 2025 to June 2026.")).toEqual([]);
+  });
+});
+
+describe("isNameVariant", () => {
+  it("matches respellings but not different names", () => {
+    expect(isNameVariant("Riverside Food Bank", "Riverside Foodbank")).toBe(true);
+    expect(isNameVariant("Boys & Girls Club", "Boys and Girls Club")).toBe(true);
+    expect(isNameVariant("Maria Lopez", "Maria Lopes")).toBe(true);
+    expect(isNameVariant("North Carolina", "South Carolina")).toBe(false);
+    expect(isNameVariant("Riverside Food Bank", "Riverside Food Bank")).toBe(false);
+  });
+});
+
+describe("checkProjectConsistency", () => {
+  it("flags facts the answers state differently and links each statement to its sources", async () => {
+    const userId = "consistency-project";
+    const project = await storage.createProject(userId, { title: "Pantry", funder: "Funder" });
+    const document = await storage.createDocument(userId, {
+      organizationId: userId,
+      filename: "annual-report.txt",
+      originalName: "Annual Report.txt",
+      fileType: "text/plain",
+      fileSize: 40,
+      category: "organization-info",
+    });
+    const answer = async (question: string, response: string, cited = false) => {
+      const created = await storage.createGrantQuestion(project.id, { question });
+      if (cited) {
+        await storage.createDraftCitation({
+          draftId: created.id,
+          section: "response",
+          sourceDocumentId: document.id,
+          chunkRefs: [{ chunkIndex: 2, quote: "served 1,240 families" }],
+        });
+      }
+      await storage.updateGrantQuestion(created.id, { response, responseStatus: "complete" });
+      return created;
+    };
+
+    const need = await answer(
+      "Need",
+      "In 2025 we served 1,240 families with Riverside Food Bank. [#1] The program will start on July 1, 2025.",
+      true,
+    );
+    const budget = await answer(
+      "Budget",
+      "In 2025 we served 1,500 families. Our partner Riverside Foodbank delivers meals. The program will start in July 2025.",
+    );
+    // Approximate figures within rounding agree.
+    await answer("Impact", "In 2025 we served about 1,250 families.");
+    await storage.createGrantQuestion(project.id, { question: "Unanswered" });
+
+    const report = await checkProjectConsistency(project.id);
+    expect(report.checkedAnswers).toBe(3);
+    expect(report.flags.map((flag) => flag.id)).toEqual(["count:families:reported:2025", "name:riversidefoodbank"]);
+
+    const [families, partner] = report.flags;
+    expect(families.message).toBe(
+      "Number of families in 2025 differs between answers: 1,240 families (Question 1), 1,500 families (Question 2), 1,250 families (Question 3).",
+    );
+    expect(families.statements[0]).toMatchObject({
+      questionId: need.id,
+      value: "1,240 families",
+      sources: [{ documentId: document.id, documentName: "Annual Report.txt", chunkIndex: 2, quote: "served 1,240 families" }],
+    });
+    expect(families.statements[1]).toMatchObject({ questionId: budget.id, sources: [] });
+    expect(partner.message).toBe('The same name is written differently: "Riverside Food Bank", "Riverside Foodbank".');
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Cross-answer consistency check.
+ *
+ * Long applications restate the same facts (people served, the budget
+ * total, the start date, partner names) in several answers, and answers
+ * drafted or edited at different times drift apart. Every sentence of every
+ * answer is scanned for counts ("1,240 families"), dollar amounts tied to a
+ * budget line, start and end dates, and multi-word names; statements of the
+ * same fact in different answers are then compared.
+ *
+ * Like the claim check it is lexical and deterministic. A count is the same
+ * fact only with the same noun, tense and year, so "served 1,240 families in
+ * 2025" and "will serve 1,500 families" are not compared, and a figure given
+ * as "about 1,200" may round.
+ */
+
+import { storage } from "../storage.js";
+import { extractProperNounCandidates } from "./ai.js";
+import { ANSWERED_STATUSES, splitAnswerIntoClaims } from "./claimVerification.js";
+import type {
+  ConsistencyFactKind,
+  ConsistencyFlag,
+  ConsistencyReport,
+  ConsistencySource,
+  ConsistencyStatement,
+} from "../../shared/consistency.js";
+import type { DraftCitation } from "../../shared/schema.js";
+
+/** Approximate figures ("about 1,200") agree with others within this share. */
+const APPROXIMATE_TOLERANCE = 0.1;
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?`;
+const COUNT_NOUNS = [
+  "people", "individuals", "families", "households", "students", "youth", "children", "participants",
+  "clients", "residents", "seniors", "veterans", "patients", "members", "volunteers", "staff",
+  "employees", "meals", "sites", "schools", "partners", "counties",
+];
+// Up to two words may sit between the number and its noun ("1,240 low-income families").
+const COUNT_PATTERN = new RegExp(
+  String.raw`(?<![$\d.,])(${NUMBER})(\s*(?:thousand|million))?\s+((?:[a-z][a-z-]*\s+){0,2}?)(${COUNT_NOUNS.join("|")})\b`,
+  "gi",
+);
+const MONEY_PATTERN = new RegExp(String.raw`\$\s?(${NUMBER})\s*(k|m|thousand|million|billion)?\b`, "gi");
+const APPROXIMATE = /\b(?:about|approximately|around|roughly|nearly|almost|over|more than|at least|up to|some)\s*$|~\s*$/i;
+const FUTURE = /\b(?:will|plans? to|aims? to|expects? to|goals?|targets?|projected|anticipated?)\b/i;
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+
+// First match wins, so a request "toward the program budget" is the request.
+const MONEY_TOPICS: Array<[string, string, RegExp]> = [
+  ["request", "Amount requested", /\b(?:request(?:s|ed|ing)?|asking|seeking)\b/i],
+  ["match", "Matching funds", /\bmatch(?:ing)?\b/i],
+  ["operating-budget", "Operating budget", /\b(?:operating|annual|organizational)\s+budget\b/i],
+  ["budget", "Project budget", /\bbudget\b/i],
+];
+
+const DATE_TOPICS: Array<[string, string, RegExp]> = [
+  ["start", "Start date", /\b(?:start(?:s|ed|ing)?|begin(?:s|ning)?|began|launch(?:es|ed)?|commenc(?:e|es|ed)|kicks? off)\b/i],
+  ["end", "End date", /\b(?:end(?:s|ed)?|conclud(?:e|es|ed)|complet(?:e|ed) by|wrap(?:s)? up)\b/i],
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_DATE =
+  /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(?:(\d{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})\b/g;
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b|\b(\d{4})-(\d{2})(?:-(\d{2}))?\b/g;
+
+interface ExtractedFact {
+  /** Statements with the same key state the same fact */
+  key: string;
+  kind: ConsistencyFactKind;
+  label: string;
+  display: string;
+  /** Counts and amounts */
+  amount: number | null;
+  /** Dates, "YYYY-MM" or "YYYY-MM-DD" */
+  date: string | null;
+  approximate: boolean;
+}
+
+interface FactStatement extends ExtractedFact {
+  questionId: string;
+  questionNumber: number;
+  sentence: string;
+  markers: number[];
+}
+
+type Conflict = Omit<ConsistencyFlag, "statements"> & { statements: FactStatement[] };
+
+const pad = (n: number | string) => String(n).padStart(2, "0");
+
+function parseNumber(raw: string, scale?: string): number {
+  const value = parseFloat(raw.replace(/,/g, ""));
+  switch (scale?.trim().toLowerCase()) {
+    case "k":
+    case "thousand":
+      return value * 1_000;
+    case "m":
+    case "million":
+      return value * 1_000_000;
+    case "billion":
+      return value * 1_000_000_000;
+    default:
+      return value;
+  }
+}
+
+/** Years the sentence mentions outside `exclude`, so "in 2025" scopes a figure. */
+function yearsIn(sentence: string, exclude: string): string {
+  const years = sentence.replace(exclude, " ").replace(MONTH_DATE, " ").match(YEAR) ?? [];
+  return Array.from(new Set(years)).sort().join("-");
+}
+
+function isApproximate(sentence: string, index: number): boolean {
+  return APPROXIMATE.test(sentence.slice(Math.max(0, index - 20), index));
+}
+
+function datesIn(sentence: string): Array<{ display: string; date: string }> {
+  const dates: Array<{ display: string; date: string }> = [];
+  for (const m of sentence.matchAll(MONTH_DATE)) {
+    const month = MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1;
+    dates.push({ display: m[0], date: `${m[3]}-${pad(month)}${m[2] ? `-${pad(m[2])}` : ""}` });
+  }
+  for (const m of sentence.matchAll(NUMERIC_DATE)) {
+    const date = m[3] ? `${m[3]}-${pad(m[1])}-${pad(m[2])}` : `${m[4]}-${m[5]}${m[6] ? `-${m[6]}` : ""}`;
+    dates.push({ display: m[0], date });
+  }
+  return dates;
+}
+
+/** Counts, budget amounts and start/end dates stated in one sentence. */
+export function extractFacts(sentence: string): ExtractedFact[] {
+  const text = sentence.replace(/\s*\[#\d+\]/g, "");
+  const facts: ExtractedFact[] = [];
+  const frame = FUTURE.test(text) ? "target" : "reported";
+
+  for (const m of text.matchAll(COUNT_PATTERN)) {
+    // A bare year followed by a noun ("In 2025 families ...") is not a count.
+    if (!m[2] && /^(?:19|20)\d{2}$/.test(m[1])) continue;
+    const noun = m[4].toLowerCase();
+    const qualifier = /\b(?:new|additional|more)\b/i.test(m[3]) ? "new " : "";
+    const years = yearsIn(text, m[0]);
+    facts.push({
+      key: `count:${qualifier}${noun}:${frame}:${years || "-"}`,
+      kind: "count",
+      label: `Number of ${qualifier}${noun}${frame === "target" ? " (target)" : ""}${years ? ` in ${years}` : ""}`,
+      display: m[0].trim(),
+      amount: parseNumber(m[1], m[2]),
+      date: null,
+      approximate: isApproximate(text, m.index!),
+    });
+  }
+
+  // Amounts and dates are only attributed when the sentence has one of them.
+  const amounts = Array.from(text.matchAll(MONEY_PATTERN));
+  const topic = MONEY_TOPICS.find(([, , pattern]) => pattern.test(text));
+  if (amounts.length === 1 && topic) {
+    const [m] = amounts;
+    const years = yearsIn(text, m[0]);
+    facts.push({
+      key: `amount:${topic[0]}:${years || "-"}`,
+      kind: "amount",
+      label: `${topic[1]}${years ? ` for ${years}` : ""}`,
+      display: m[0].trim(),
+      amount: parseNumber(m[1], m[2]),
+      date: null,
+      approximate: isApproximate(text, m.index!),
+    });
+  }
+
+  const dates = datesIn(text);
+  const dateTopics = DATE_TOPICS.filter(([, , pattern]) => pattern.test(text));
+  if (dates.length === 1 && dateTopics.length === 1) {
+    const [[key, label]] = dateTopics;
+    facts.push({
+      key: `date:${key}`,
+      kind: "date",
+      label,
+      display: dates[0].display,
+      amount: null,
+      date: dates[0].date,
+      approximate: false,
+    });
+  }
+
+  return facts;
+}
+
+function agree(a: ExtractedFact, b: ExtractedFact): boolean {
+  if (a.date !== null && b.date !== null) return a.date.startsWith(b.date) || b.date.startsWith(a.date);
+  if (a.amount === b.amount) return true;
+  if (!(a.approximate || b.approximate) || a.amount === null || b.amount === null) return false;
+  return Math.abs(a.amount - b.amount) <= APPROXIMATE_TOLERANCE * Math.max(a.amount, b.amount);
+}
+
+/** Names compared without case, punctuation, spacing, "the" or a corporate suffix. */
+function canonicalName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\b(?:the|inc|llc|corp)\b/g, " ")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Two spellings of one name: identical once canonical, or a letter or two
+ * apart in a long name ("Maria Lopez" / "Maria Lopes"). Short names must be
+ * identical, so "North Carolina" and "South Carolina" stay apart.
+ */
+export function isNameVariant(a: string, b: string): boolean {
+  if (a === b) return false;
+  const [x, y] = [canonicalName(a), canonicalName(b)];
+  if (x === y) return true;
+  const allowed = Math.min(x.length, y.length) >= 16 ? 2 : 1;
+  return Math.min(x.length, y.length) >= 8 && editDistance(x, y) <= allowed;
+}
+
+function questionsIn(statements: FactStatement[]): number {
+  return new Set(statements.map((s) => s.questionId)).size;
+}
+
+function uniqueStatements(statements: FactStatement[]): FactStatement[] {
+  const seen = new Set<string>();
+  return statements
+    .filter((s) => {
+      const key = `${s.questionId}\u0000${s.display}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+}
+
+/**
+ * Group statements of the same fact and keep the groups whose answers
+ * disagree. Only disagreements between different answers are flagged.
+ */
+function findConflicts(statements: FactStatement[]): Conflict[] {
+  const flags: Conflict[] = [];
+
+  const byKey = new Map<string, FactStatement[]>();
+  for (const statement of statements.filter((s) => s.kind !== "name")) {
+    byKey.set(statement.key, [...(byKey.get(statement.key) ?? []), statement]);
+  }
+  for (const [key, group] of Array.from(byKey.entries())) {
+    const conflicting = group.some((a) => group.some((b) => a.questionId !== b.questionId && !agree(a, b)));
+    if (!conflicting) continue;
+    const listed = uniqueStatements(group);
+    flags.push({
+      id: key,
+      kind: group[0].kind,
+      label: group[0].label,
+      message: `${group[0].label} differs between answers: ${listed
+        .map((s) => `${s.display} (Question ${s.questionNumber})`)
+        .join(", ")}.`,
+      statements: listed,
+    });
+  }
+
+  // Names: cluster spellings, then flag clusters written differently across answers.
+  const names = statements.filter((s) => s.kind === "name");
+  const spellings = Array.from(new Set(names.map((s) => s.display)));
+  const clusterOf = new Map<string, number>();
+  spellings.forEach((spelling, i) => {
+    const match = spellings.slice(0, i).find((other) => isNameVariant(spelling, other));
+    clusterOf.set(spelling, match === undefined ? i : clusterOf.get(match)!);
+  });
+  const clusters = new Map<number, FactStatement[]>();
+  for (const statement of names) {
+    const cluster = clusterOf.get(statement.display)!;
+    clusters.set(cluster, [...(clusters.get(cluster) ?? []), statement]);
+  }
+  for (const group of Array.from(clusters.values())) {
+    const written = Array.from(new Set(group.map((s) => s.display)));
+    if (written.length < 2 || questionsIn(group) < 2) continue;
+    const listed = uniqueStatements(group);
+    flags.push({
+      id: `name:${canonicalName(written[0])}`,
+      kind: "name",
+      label: `Name "${written[0]}"`,
+      message: `The same name is written differently: ${written.map((w) => `"${w}"`).join(", ")}.`,
+      statements: listed,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Check every answered question of a project. Each flagged statement carries
+ * the chunks its [#N] markers cite (the Nth `draft_citations` row).
+ */
+export async function checkProjectConsistency(projectId: string): Promise<ConsistencyReport> {
+  const questions = await storage.getGrantQuestions(projectId);
+  const statements: FactStatement[] = [];
+  let checkedAnswers = 0;
+
+  for (const [index, question] of questions.entries()) {
+    if (!ANSWERED_STATUSES.has(question.responseStatus ?? "") || !question.response?.trim()) continue;
+    checkedAnswers++;
+    for (const claim of splitAnswerIntoClaims(question.response)) {
+      const base = { questionId: question.id, questionNumber: index + 1, sentence: claim.sentence, markers: claim.markers };
+      for (const fact of extractFacts(claim.sentence)) statements.push({ ...base, ...fact });
+      const plain = claim.sentence.replace(/\s*\[#\d+\]/g, "");
+      for (const name of extractProperNounCandidates(plain)) {
+        if (name.split(/\s+/).length < 2) continue;
+        statements.push({
+          ...base,
+          key: "",
+          kind: "name",
+          label: "",
+          display: name,
+          amount: null,
+          date: null,
+          approximate: false,
+        });
+      }
+    }
+  }
+
+  const conflicts = findConflicts(statements);
+  const citationsByQuestion = new Map<string, DraftCitation[]>();
+  const documentNames = new Map<string, string>();
+
+  const sourcesFor = async (statement: FactStatement): Promise<ConsistencySource[]> => {
+    if (!citationsByQuestion.has(statement.questionId)) {
+      citationsByQuestion.set(statement.questionId, await storage.getDraftCitations(statement.questionId));
+    }
+    const citations = citationsByQuestion.get(statement.questionId)!;
+    const sources: ConsistencySource[] = [];
+    for (const marker of statement.markers) {
+      const citation = citations[marker - 1];
+      if (!citation?.sourceDocumentId) continue;
+      if (!documentNames.has(citation.sourceDocumentId)) {
+        const document = await storage.getDocument(citation.sourceDocumentId);
+        documentNames.set(citation.sourceDocumentId, document?.originalName || document?.filename || "Uploaded document");
+      }
+      const refs = Array.isArray(citation.chunkRefs) ? (citation.chunkRefs as Array<{ chunkIndex?: number; quote?: string }>) : [];
+      sources.push({
+        documentId: citation.sourceDocumentId,
+        documentName: documentNames.get(citation.sourceDocumentId)!,
+        chunkIndex: typeof refs[0]?.chunkIndex === "number" ? refs[0].chunkIndex : 0,
+        quote: typeof refs[0]?.quote === "string" ? refs[0].quote : "",
+      });
+    }
+    return sources;
+  };
+
+  const flags: ConsistencyFlag[] = [];
+  for (const conflict of conflicts) {
+    const withSources: ConsistencyStatement[] = [];
+    for (const statement of conflict.statements) {
+      withSources.push({
+        questionId: statement.questionId,
+        questionNumber: statement.questionNumber,
+        sentence: statement.sentence,
+        value: statement.display,
+        sources: await sourcesFor(statement),
+      });
+    }
+    flags.push({ ...conflict, statements: withSources });
+  }
+
+  return { projectId, checkedAnswers, flags };
+}
@@ -0,0 +1,123 @@
+// @vitest-environment node
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { processDocumentJobs } from "../workers/documentProcessor.js";
+import { documentFormat, extractHtmlText, extractMarkdownText, extractRtfText } from "./documentFormats.js";
+import { FileProcessor } from "./fileProcessor.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const FIXTURE_DIR = join(process.cwd(), "test/fixtures/nonprofit");
+const PPTX_MIME = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+const ODT_MIME = "application/vnd.oasis.opendocument.text";
+
+const PROGRAMS = "Riverside Community Food Bank provides meals to over 850 families each month across three counties.";
+const BUDGET = "Our 2024 annual budget totals $1.2 million with 72% allocated to direct program services.";
+
+function fixture(name: string): Buffer {
+  return readFileSync(join(FIXTURE_DIR, name));
+}
+
+async function extract(name: string, mimeType: string): Promise<string> {
+  const { extractedText } = await new FileProcessor().extractFile(fixture(name), name, mimeType);
+  return extractedText;
+}
+
+describe("documentFormat", () => {
+  it("goes by extension first, then MIME type", () => {
+    expect(documentFormat("application/octet-stream", "brief.MD")).toBe("markdown");
+    expect(documentFormat("text/plain", "page.htm")).toBe("html");
+    expect(documentFormat(PPTX_MIME, "deck")).toBe("pptx");
+    expect(documentFormat("text/plain", "notes.txt")).toBeNull();
+  });
+});
+
+describe("document format fixtures", () => {
+  it("reads an HTML page without its scripts, styles or navigation", async () => {
+    const text = await extract("community-impact-brief.html", "text/html");
+    expect(text.startsWith("# Community Impact Brief\n\n## Programs\n\n")).toBe(true);
+    expect(text).toContain(PROGRAMS);
+    expect(text).toContain("- Mobile pantry\n- Senior meal delivery");
+    expect(text).toContain(`## Budget\n\n${BUDGET}`);
+    expect(text).not.toMatch(/analytics|console\.log|font-family|Home/);
+  });
+
+  it("reads Markdown without its markup", async () => {
+    const text = await extract("community-impact-brief.md", "text/markdown");
+    expect(text).toBe(
+      `# Community Impact Brief\n\n## Programs\n\n${PROGRAMS}\n\n- Mobile pantry\n- Senior meal delivery\n\n## Budget\n\n${BUDGET} See the annual report.`,
+    );
+  });
+
+  it("reads RTF body text with stylesheet headings and skips the font table and metadata", async () => {
+    const text = await extract("community-impact-brief.rtf", "application/rtf");
+    expect(text).toBe(
+      `# Community Impact Brief\n\n## Programs\n\n${PROGRAMS}\n\n## Budget\n\n${BUDGET} Café partners—local.`,
+    );
+  });
+
+  it("reads ODT headings, paragraphs and lists and skips footnotes", async () => {
+    const text = await extract("community-impact-brief.odt", ODT_MIME);
+    expect(text).toBe(
+      `# Community Impact Brief\n\n## Programs\n\n${PROGRAMS}\n\n- Mobile pantry\n- Senior meal delivery\n\n## Budget\n\n${BUDGET}`,
+    );
+  });
+
+  it("reads PPTX slides in presentation order with their speaker notes", async () => {
+    const text = await extract("community-impact-brief.pptx", PPTX_MIME);
+    expect(text).toBe(
+      `# Slide 1: Programs\n${PROGRAMS}\n\n# Slide 2: Budget\n${BUDGET}\n\nSpeaker notes: Mention the 2024 volunteer drive when presenting this slide.`,
+    );
+  });
+
+  it("stores PPTX chunks slide by slide, labeled with the slide heading", async () => {
+    const userId = "presentation-upload-user";
+    const project = await storage.createProject(userId, { title: "Deck", funder: "Funder" });
+    const document = await storage.createDocument(userId, {
+      organizationId: project.organizationId,
+      filename: "community-impact-brief.pptx",
+      originalName: "community-impact-brief.pptx",
+      fileType: PPTX_MIME,
+      fileSize: 4000,
+      category: "organization-info",
+    });
+    await new FileProcessor().extractFile(fixture("community-impact-brief.pptx"), document.originalName, PPTX_MIME, document);
+    await storage.createProcessingJob(document.id, "embedding", "queued");
+
+    await processDocumentJobs({ batchSize: 10 });
+
+    const programs = await storage.getDocChunk(document.id, 0);
+    const budget = await storage.getDocChunk(document.id, 1);
+    expect(programs).toMatchObject({ sectionLabel: "Slide 1: Programs" });
+    expect(programs?.content).not.toContain("Budget");
+    expect(budget).toMatchObject({ sectionLabel: "Slide 2: Budget" });
+    expect(budget?.content).toContain("Speaker notes: Mention the 2024 volunteer drive");
+    const { rawText } = (await storage.getDocumentExtraction(document.id))!;
+    expect(rawText?.slice(budget!.startOffset!, budget!.endOffset!)).toBe(budget?.content);
+  });
+});
+
+describe("format edge cases", () => {
+  it("decodes HTML entities and keeps table rows on their own lines", () => {
+    expect(
+      extractHtmlText("<table><tr><td>Youth&nbsp;served</td><td>1,240</td></tr><tr><td>Sites</td><td>&#52;</td></tr></table>"),
+    ).toBe("Youth served 1,240\n\nSites 4");
+  });
+
+  it("drops fenced code markers and link targets in Markdown", () => {
+    expect(extractMarkdownText("Intro\n-----\n\n```\nconst x = 1;\n```\n\n![logo](logo.png) [site][1]\n\n[1]: https://example.org")).toBe(
+      "## Intro\n\nconst x = 1;\n\nlogo site",
+    );
+  });
+
+  it("reads RTF unicode escapes with their fallback characters skipped", () => {
+    expect(extractRtfText("{\\rtf1\\uc1 Na\\u239?ve \\outlinelevel0 ignored\\par}")).toBe("# Naïve ignored");
+    expect(extractRtfText("{\\rtf1{\\*\\generator Writer;}Body\\line next\\par}")).toBe("Body\nnext");
+  });
+});
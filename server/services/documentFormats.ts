@@ -0,0 +1,494 @@
+/**
+ * Text extraction for HTML, Markdown, RTF, ODT and PPTX uploads
+ * (`FileProcessor.extractFile`).
+ *
+ * Every extractor writes headings as Markdown "#" lines, one "#" per level,
+ * so they survive into the stored text and can label the chunks under them.
+ * Paragraphs are separated by a blank line. A PPTX deck becomes one
+ * "# Slide N: Title" block per slide, its speaker notes at the end.
+ */
+
+import path from "path";
+import JSZip from "jszip";
+
+export type DocumentFormat = "html" | "markdown" | "rtf" | "odt" | "pptx";
+
+const FORMAT_EXTENSIONS: Record<string, DocumentFormat> = {
+  ".html": "html",
+  ".htm": "html",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".rtf": "rtf",
+  ".odt": "odt",
+  ".pptx": "pptx",
+};
+
+const FORMAT_MIMES: Record<string, DocumentFormat> = {
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+};
+
+/** Which of these formats an upload is, by extension first (browsers often send "" or octet-stream). */
+export function documentFormat(mimeType: string, filename: string): DocumentFormat | null {
+  return FORMAT_EXTENSIONS[path.extname(filename).toLowerCase()] ?? FORMAT_MIMES[mimeType] ?? null;
+}
+
+export async function extractDocumentText(buffer: Buffer, format: DocumentFormat): Promise<string> {
+  switch (format) {
+    case "html":
+      return extractHtmlText(buffer.toString("utf-8"));
+    case "markdown":
+      return extractMarkdownText(buffer.toString("utf-8"));
+    case "rtf":
+      return extractRtfText(buffer.toString("latin1"));
+    case "odt":
+      return extractOdtText(buffer);
+    case "pptx":
+      return extractPptxText(buffer);
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Trim each line, collapse runs of spaces and of blank lines. */
+function tidy(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function heading(level: number, text: string): string {
+  return `${"#".repeat(Math.min(Math.max(level, 1), 6))} ${text}`;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const HTML_SKIPPED = /<(script|style|noscript|template|svg|head|iframe|object|canvas|nav)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const HTML_BLOCKS =
+  /<\/?(?:p|div|section|article|header|footer|main|aside|ul|ol|dl|dt|dd|table|thead|tbody|tfoot|tr|blockquote|pre|figure|figcaption|form|fieldset|address|hr)\b[^>]*>/gi;
+
+function inlineHtml(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/** Readable text of a page: scripts, styles and the document head are dropped, headings kept. */
+export function extractHtmlText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(HTML_SKIPPED, " ")
+    // Source line breaks are not line breaks on the page.
+    .replace(/\s+/g, " ")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) => {
+      const title = inlineHtml(inner);
+      return title ? `\n\n${heading(Number(level), title)}\n\n` : " ";
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, " ")
+    .replace(HTML_BLOCKS, "\n\n")
+    .replace(/<[^>]*>/g, "");
+  return tidy(decodeEntities(text));
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Markdown without its markup: links and images become their text, emphasis
+ * and code markers are dropped, setext headings become "#" headings.
+ */
+export function extractMarkdownText(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/^---\n[\s\S]*?\n---\n/, "").split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1] ?? "";
+    if (line.trim() && !/^\s*[-*_>#|]/.test(line) && /^\s*(=+|-+)\s*$/.test(next)) {
+      out.push(heading(next.trim().startsWith("=") ? 1 : 2, line.trim()));
+      i++;
+      continue;
+    }
+    if (/^\s*(```|~~~)/.test(line)) continue;
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) continue;
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue;
+    if (/^\s*\[[^\]]+\]:\s*\S+/.test(line)) continue;
+
+    const atx = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    out.push(atx ? heading(atx[1].length, atx[2]) : line.replace(/^\s*>\s?/, "").replace(/^(\s*)[*+]\s+/, "$1- "));
+  }
+
+  const text = out
+    .join("\n")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+    .replace(/~~(.*?)~~/g, "$1")
+    .replace(/<[^>\n]+>/g, "");
+  return tidy(decodeEntities(text));
+}
+
+// ---------------------------------------------------------------------------
+// RTF
+// ---------------------------------------------------------------------------
+
+/** Destinations whose text is not document body. */
+const RTF_SKIPPED = new Set([
+  "fonttbl",
+  "colortbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "footnote",
+  "fldinst",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "filetbl",
+  "revtbl",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  tab: "\t",
+  cell: " ",
+  line: "\n",
+};
+
+const cp1252 = new TextDecoder("windows-1252");
+
+interface RtfGroup {
+  skip: boolean;
+  stylesheet: boolean;
+  uc: number;
+}
+
+/**
+ * Body text of an RTF document. Paragraphs whose style is named "heading N"
+ * in the stylesheet, or that carry an outline level, become headings.
+ */
+export function extractRtfText(rtf: string): string {
+  const paragraphs: string[] = [];
+  const headingStyles = new Map<number, number>();
+  let group: RtfGroup = { skip: false, stylesheet: false, uc: 1 };
+  const stack: RtfGroup[] = [];
+  let paragraph = "";
+  let paragraphLevel: number | null = null;
+  let styleEntry: { number: number; name: string; level: number | null } | null = null;
+  let pendingSkip = 0;
+
+  const append = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip -= 1;
+      return;
+    }
+    if (group.stylesheet) {
+      if (styleEntry) styleEntry.name += text;
+    } else if (!group.skip) {
+      paragraph += text;
+    }
+  };
+  const endParagraph = () => {
+    const text = paragraph.replace(/[ \t]+/g, " ").trim();
+    if (text) paragraphs.push(paragraphLevel !== null ? heading(paragraphLevel, text) : text);
+    paragraph = "";
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+    if (char === "{") {
+      stack.push(group);
+      group = { ...group };
+      if (group.stylesheet && !group.skip) styleEntry = { number: 0, name: "", level: null };
+      continue;
+    }
+    if (char === "}") {
+      if (group.stylesheet && styleEntry && stack.at(-1)?.stylesheet) {
+        const named = /^heading\s*(\d)/i.exec(styleEntry.name.replace(/;$/, "").trim());
+        const level = named ? Number(named[1]) : styleEntry.level;
+        if (level !== null) headingStyles.set(styleEntry.number, level);
+        styleEntry = null;
+      }
+      group = stack.pop() ?? group;
+      continue;
+    }
+    if (char === "\r" || char === "\n") continue;
+    if (char !== "\\") {
+      append(char);
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "'") {
+      append(cp1252.decode(Uint8Array.of(parseInt(rtf.slice(i + 2, i + 4), 16))));
+      i += 3;
+      continue;
+    }
+    if (!/[a-z]/i.test(next ?? "")) {
+      i += 1;
+      if (next === "*") group.skip = true;
+      else if (next === "~") append(" ");
+      else if (next === "_") append("-");
+      else if (next === "\\" || next === "{" || next === "}") append(next);
+      else if (next === "\n" || next === "\r") endParagraph();
+      continue;
+    }
+
+    const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40))!;
+    i += match[0].length;
+    const word = match[1];
+    const param = match[2] === undefined ? null : Number(match[2]);
+
+    if (RTF_SKIPPED.has(word)) {
+      group.skip = true;
+    } else if (word === "stylesheet") {
+      group.stylesheet = true;
+    } else if (word === "uc" && param !== null) {
+      group.uc = param;
+    } else if (word === "u" && param !== null) {
+      append(String.fromCharCode(param < 0 ? param + 65536 : param));
+      pendingSkip = group.uc;
+    } else if (word === "par" || word === "sect" || word === "page" || word === "row") {
+      if (!group.skip && !group.stylesheet) endParagraph();
+    } else if (word === "pard") {
+      paragraphLevel = null;
+    } else if (word === "s" && param !== null) {
+      if (group.stylesheet && styleEntry) styleEntry.number = param;
+      else if (!group.skip) paragraphLevel = headingStyles.get(param) ?? paragraphLevel;
+    } else if (word === "outlinelevel" && param !== null && param < 9) {
+      if (group.stylesheet && styleEntry) styleEntry.level = param + 1;
+      else if (!group.skip) paragraphLevel = param + 1;
+    } else if (RTF_SYMBOLS[word]) {
+      append(RTF_SYMBOLS[word]);
+    }
+  }
+  endParagraph();
+  return tidy(paragraphs.join("\n\n"));
+}
+
+// ---------------------------------------------------------------------------
+// XML packages (ODT, PPTX)
+// ---------------------------------------------------------------------------
+
+const XML_TOKEN = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+function xmlAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\s${name.replace(/[.:]/g, "\\$&")}="([^"]*)"`).exec(attributes);
+  return match ? decodeEntities(match[1]) : null;
+}
+
+async function readZipText(zip: JSZip, name: string): Promise<string | null> {
+  const file = zip.file(name);
+  return file ? file.async("string") : null;
+}
+
+/** Elements of an ODT body whose text is not read: tracked deletions, notes, comments. */
+const ODT_SKIPPED = new Set(["text:tracked-changes", "text:note", "office:annotation", "text:sequence-decls"]);
+
+/** Text of an OpenDocument text file, from its content.xml. */
+export async function extractOdtText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await readZipText(zip, "content.xml");
+  if (!xml) throw new Error("Not an OpenDocument text file: content.xml is missing");
+  const body = xml.slice(Math.max(xml.indexOf("<office:body"), 0));
+
+  const paragraphs: string[] = [];
+  // Paragraphs nest (a caption inside a frame inside a paragraph).
+  const open: Array<{ text: string; level: number | null; listItem: boolean }> = [];
+  let skipDepth = 0;
+  let listDepth = 0;
+  let listItemPending = false;
+
+  for (const match of body.matchAll(XML_TOKEN)) {
+    const [, closing, name, attributes = "", selfClosing, text] = match;
+    if (text !== undefined) {
+      if (!skipDepth && open.length) open[open.length - 1].text += decodeEntities(text);
+      continue;
+    }
+    if (ODT_SKIPPED.has(name)) {
+      if (!selfClosing) skipDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (skipDepth) continue;
+
+    const current = open[open.length - 1];
+    if (name === "text:p" || name === "text:h") {
+      if (closing) {
+        const paragraph = open.pop()!;
+        const content = paragraph.text.replace(/[ \t]+/g, " ").trim();
+        if (!content) continue;
+        if (paragraph.level !== null) paragraphs.push(heading(paragraph.level, content));
+        else paragraphs.push(paragraph.listItem ? `- ${content}` : content);
+      } else if (!selfClosing) {
+        const level = name === "text:h" ? Number(xmlAttribute(attributes, "text:outline-level") ?? 1) : null;
+        open.push({ text: "", level, listItem: listItemPending });
+        listItemPending = false;
+      }
+    } else if (name === "text:list") {
+      listDepth += closing ? -1 : selfClosing ? 0 : 1;
+    } else if (name === "text:list-item" && !closing) {
+      listItemPending = listDepth > 0;
+    } else if (current && !closing) {
+      if (name === "text:s") current.text += " ".repeat(Number(xmlAttribute(attributes, "text:c") ?? 1));
+      else if (name === "text:tab") current.text += "\t";
+      else if (name === "text:line-break") current.text += "\n";
+    }
+  }
+  // Items of one list stay on consecutive lines.
+  const separated = paragraphs.map((text, i) =>
+    i && text.startsWith("- ") && paragraphs[i - 1].startsWith("- ") ? `\n${text}` : `\n\n${text}`,
+  );
+  return tidy(separated.join(""));
+}
+
+/** `target` of a relationship, as a path inside the package. */
+function resolvePart(fromPart: string, target: string): string {
+  return target.startsWith("/") ? target.slice(1) : path.posix.normalize(path.posix.join(path.posix.dirname(fromPart), target));
+}
+
+/** Relationship id → target part, optionally only those of one type ("slide", "notesSlide"). */
+async function readRelationships(zip: JSZip, part: string, type?: string): Promise<Map<string, string>> {
+  const relsPart = path.posix.join(path.posix.dirname(part), "_rels", `${path.posix.basename(part)}.rels`);
+  const xml = (await readZipText(zip, relsPart)) ?? "";
+  const relationships = new Map<string, string>();
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttribute(tag, "Id");
+    const target = xmlAttribute(tag, "Target");
+    const relType = xmlAttribute(tag, "Type") ?? "";
+    if (id && target && (!type || relType.endsWith(`/${type}`))) relationships.set(id, resolvePart(part, target));
+  }
+  return relationships;
+}
+
+/** DrawingML paragraphs (`<a:p>`) of a fragment of slide XML, one line each. */
+function drawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const [paragraph] of xml.matchAll(/<a:p\b[^>]*>[\s\S]*?<\/a:p>/g)) {
+    const text = [...paragraph.matchAll(/<a:t\b[^>]*>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g)]
+      .map((run) => (run[1] === undefined ? " " : decodeEntities(run[1])))
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (text) paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+/** Shapes of a slide with their placeholder type ("title", "body", "sldNum"...), null for plain shapes. */
+function slideShapes(xml: string): Array<{ placeholder: string | null; xml: string }> {
+  return [...xml.matchAll(/<p:(sp|graphicFrame)\b[\s\S]*?<\/p:\1>/g)].map(([shape]) => {
+    const placeholder = /<p:ph\b([^>]*)>/.exec(shape);
+    return { placeholder: placeholder ? (xmlAttribute(placeholder[1], "type") ?? "body") : null, xml: shape };
+  });
+}
+
+const SLIDE_TITLES = new Set(["title", "ctrTitle"]);
+/** Placeholders repeated from the master on every slide. */
+const SLIDE_CHROME = new Set(["sldNum", "dt", "ftr", "hdr", "sldImg"]);
+
+/** One "# Slide N: Title" block per slide, in presentation order, with its speaker notes. */
+export async function extractPptxText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentation = (await readZipText(zip, "ppt/presentation.xml")) ?? "";
+  const slideRels = await readRelationships(zip, "ppt/presentation.xml", "slide");
+  let slideParts = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => slideRels.get(xmlAttribute(tag, "r:id") ?? ""))
+    .filter((part): part is string => !!part);
+  if (!slideParts.length) {
+    const slideNumber = (name: string) => Number(/(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+    slideParts = Object.keys(zip.files)
+      .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+  if (!slideParts.length) throw new Error("Not a PowerPoint presentation: no slides found");
+
+  const slides: string[] = [];
+  for (const [index, part] of slideParts.entries()) {
+    const shapes = slideShapes((await readZipText(zip, part)) ?? "");
+    const title = shapes
+      .filter((shape) => shape.placeholder && SLIDE_TITLES.has(shape.placeholder))
+      .flatMap((shape) => drawingParagraphs(shape.xml))
+      .join(" ");
+    const body = shapes
+      .filter((shape) => !shape.placeholder || !(SLIDE_TITLES.has(shape.placeholder) || SLIDE_CHROME.has(shape.placeholder)))
+      .flatMap((shape) => drawingParagraphs(shape.xml));
+
+    const [notesPart] = (await readRelationships(zip, part, "notesSlide")).values();
+    const notesXml = notesPart ? await readZipText(zip, notesPart) : null;
+    const notes = notesXml
+      ? slideShapes(notesXml)
+          .filter((shape) => shape.placeholder === "body")
+          .flatMap((shape) => drawingParagraphs(shape.xml))
+      : [];
+
+    const lines = [heading(1, title ? `Slide ${index + 1}: ${title}` : `Slide ${index + 1}`), ...body];
+    if (notes.length) lines.push("", `Speaker notes: ${notes.join(" ")}`);
+    slides.push(lines.join("\n"));
+  }
+  return slides.join("\n\n");
+}
@@ -0,0 +1,238 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { aiService } from "./ai.js";
+import {
+  mergeSectionSummaries,
+  normalizeSectionSummary,
+  splitIntoSections,
+  summarizeSectionHeuristically,
+  SUMMARY_MAP_INSTRUCTIONS,
+} from "./documentSummary.js";
+import { LocalProvider } from "./llm.js";
+import { formatDocumentSummary, type DocumentSummary } from "../../shared/document-summary.js";
+import { MAX_JOB_ATTEMPTS, processDocumentJobs, STALE_JOB_MS } from "../workers/documentProcessor.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const local = { model: "local-deterministic", fallbackModel: null };
+
+const filler = (topic: string) =>
+  Array.from({ length: 130 }, (_, i) => `${topic} paragraph ${i + 1} describes routine operations in general terms.`).join("\n\n");
+
+/** About 30,000 characters: three sections, with the mobile market figure only at the end. */
+const annualReport = [
+  "OUR HISTORY",
+  "Riverside Food Bank was founded in 2009. The north pantry opened in March 2019.",
+  filler("History"),
+  "PROGRAMS",
+  filler("Programs"),
+  "RESULTS",
+  filler("Results"),
+  "The mobile market reached 3,400 households in 2025.",
+].join("\n\n");
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("splitIntoSections", () => {
+  it("keeps a short document whole and splits a long one under the limit", () => {
+    expect(splitIntoSections("Mission.\n\nPrograms.")).toEqual([{ text: "Mission.\n\nPrograms.", heading: null }]);
+
+    const sections = splitIntoSections(annualReport);
+    expect(sections.length).toBe(3);
+    expect(sections.every((section) => section.text.length <= 12_000)).toBe(true);
+    expect(sections.at(-1)!.heading).toBe("RESULTS");
+    expect(sections.at(-1)!.text).toContain("3,400 households");
+  });
+
+  it("cuts text without blank lines at sentence boundaries", () => {
+    const text = Array.from({ length: 400 }, (_, i) => `Sentence ${i} about the pantry.`).join(" ");
+    const sections = splitIntoSections(text, 3000);
+    expect(sections.length).toBeGreaterThan(1);
+    expect(sections.every((section) => section.text.length <= 3000)).toBe(true);
+    expect(sections.every((section) => section.text.endsWith("."))).toBe(true);
+    expect(sections.map((section) => section.text).join(" ")).toBe(text);
+  });
+});
+
+describe("section summaries", () => {
+  const section = {
+    text: "We served 1,240 families in 2025. Our budget was $1.2 million for FY24. Since 2015 we have partnered with schools.",
+    heading: "Impact",
+  };
+
+  it("reads figures and dates from a section without a model", () => {
+    const summary = summarizeSectionHeuristically(section);
+    expect(summary.keyNumbers).toEqual([
+      { value: "1,240", label: "families in 2025", quote: "We served 1,240 families in 2025.", section: "Impact" },
+      { value: "$1.2 million", label: "for FY24", quote: "Our budget was $1.2 million for FY24.", section: "Impact" },
+    ]);
+    expect(summary.dates.map((date) => date.date)).toEqual(["2025", "FY24", "2015"]);
+  });
+
+  it("drops model figures whose quote is not in the section", () => {
+    const summary = normalizeSectionSummary(
+      {
+        overview: "Impact results.",
+        keyNumbers: [
+          { value: "1,240", label: "families served", quote: "We served 1,240 families in 2025." },
+          { value: "2,000", label: "meals", quote: "We served 2,000 meals." },
+        ],
+        dates: [{ date: "2015", label: "school partnerships began" }],
+      },
+      section,
+    );
+    expect(summary?.keyNumbers).toEqual([
+      { value: "1,240", label: "families served", quote: "We served 1,240 families in 2025.", section: "Impact" },
+    ]);
+    expect(normalizeSectionSummary({ keyNumbers: [] }, section)).toBeNull();
+  });
+
+  it("takes figures from every section in turn when merging", () => {
+    const numbers = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ value: `${prefix}${i}`, label: "x", quote: "q", section: null }));
+    const merged = mergeSectionSummaries([
+      { overview: "First.", programs: [], keyNumbers: numbers("a", 20), dates: [] },
+      { overview: "Second.", programs: [], keyNumbers: numbers("b", 2), dates: [] },
+    ]);
+    expect(merged.overview).toBe("First. Second.");
+    expect(merged.keyNumbers).toHaveLength(15);
+    expect(merged.keyNumbers.map((number) => number.value)).toEqual(expect.arrayContaining(["b0", "b1"]));
+  });
+});
+
+describe("summarizeDocument", () => {
+  it("summarizes each section, then combines them", async () => {
+    const generateJSON = vi.spyOn(LocalProvider.prototype, "generateJSON").mockImplementation(async (request) => {
+      const content = request.messages[0].content;
+      const json =
+        request.system === SUMMARY_MAP_INSTRUCTIONS
+          ? {
+              overview: `Covers ${/Section (\d+) of/.exec(content)?.[1]}.`,
+              keyNumbers: content.includes("3,400")
+                ? [{ value: "3,400", label: "households reached", quote: "The mobile market reached 3,400 households in 2025." }]
+                : [],
+              dates: [],
+              programs: content.includes("RESULTS") ? [{ name: "Mobile market", description: "Fresh food by truck." }] : [],
+            }
+          : { overview: "Riverside Food Bank's year, start to finish.", programs: [{ name: "Mobile market", description: "Fresh food by truck." }] };
+      return { text: JSON.stringify(json), json, provider: "local", model: request.model, tokensIn: 100, tokensOut: 20 };
+    });
+
+    const { summary, text, usage } = await aiService.summarizeDocument(annualReport, "annual-report.pdf", local);
+
+    // Three sections mapped, one reduce.
+    expect(generateJSON).toHaveBeenCalledTimes(4);
+    expect(summary).toMatchObject({
+      overview: "Riverside Food Bank's year, start to finish.",
+      programs: [{ name: "Mobile market" }],
+      keyNumbers: [{ value: "3,400", section: "RESULTS" }],
+      sectionCount: 3,
+    });
+    expect(text).toBe(formatDocumentSummary(summary));
+    expect(usage).toEqual({ provider: "local", model: "local-deterministic", tokensIn: 400, tokensOut: 80 });
+  });
+
+  it("falls back to the heuristics for a section the model cannot summarize", async () => {
+    const { summary, usage } = await aiService.summarizeDocument(annualReport, "annual-report.pdf", local);
+    expect(summary.sectionCount).toBe(3);
+    expect(summary.keyNumbers).toContainEqual(expect.objectContaining({ value: "3,400", section: "RESULTS" }));
+    expect(summary.dates.map((date) => date.date)).toContain("March 2019");
+    expect(usage?.tokensIn).toBeGreaterThan(0);
+  });
+});
+
+describe("document worker summary jobs", () => {
+  it("stores the structured summary's text and bills each model call as it completes", async () => {
+    const userId = "summary-billing-user";
+    await storage.createUserSettings(userId, { aiModel: "local-deterministic", fallbackModel: "local-deterministic" });
+    const project = await storage.createProject(userId, { title: "Summary", funder: "Funder" });
+    const document = await storage.createDocument(userId, {
+      organizationId: project.organizationId,
+      filename: "annual-report.txt",
+      originalName: "Annual report.txt",
+      fileType: "text/plain",
+      fileSize: annualReport.length,
+      category: "organization-info",
+    });
+    await storage.setDocumentExtraction(document.id, {
+      rawText: annualReport,
+      rawTextBytes: annualReport.length,
+      extractionStatus: "complete",
+      extractionError: null,
+    });
+    await storage.createProcessingJob(document.id, "summary", "queued");
+
+    const generateJSON = vi.spyOn(LocalProvider.prototype, "generateJSON").mockImplementation(async (request) => {
+      const json = { overview: "Riverside Food Bank's year.", keyNumbers: [], dates: [], programs: [] };
+      return { text: JSON.stringify(json), json, provider: "local", model: request.model, tokensIn: 100, tokensOut: 20 };
+    });
+
+    const result = await processDocumentJobs({ jobTypes: ["summary"] });
+    expect(result).toMatchObject({ requested: 1, succeeded: 1, failed: 0 });
+
+    const stored = await storage.getDocument(document.id);
+    expect(stored?.structuredSummary).toMatchObject({ overview: "Riverside Food Bank's year.", sectionCount: 3 });
+    expect(stored?.summary).toBe(formatDocumentSummary(stored?.structuredSummary as DocumentSummary));
+    expect(stored?.summaryExtractedAt).toBeTruthy();
+
+    // Three sections mapped, one reduce: one usage event per call.
+    expect(generateJSON).toHaveBeenCalledTimes(4);
+    const events = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+    const summarization = events.filter((event) => event.type === "summarization");
+    expect(summarization).toHaveLength(4);
+    for (const event of summarization) {
+      expect(event).toMatchObject({ model: "local-deterministic", tokensIn: 100, tokensOut: 20, metadata: { documentId: document.id } });
+    }
+  });
+
+  it("requeues a summary job cut off mid-run, and fails it once its attempts are used up", async () => {
+    const userId = "summary-stale-user";
+    const project = await storage.createProject(userId, { title: "Stale", funder: "Funder" });
+    const upload = async (name: string) => {
+      const document = await storage.createDocument(userId, {
+        organizationId: project.organizationId,
+        filename: name,
+        originalName: name,
+        fileType: "text/plain",
+        fileSize: annualReport.length,
+        category: "organization-info",
+      });
+      await storage.setDocumentExtraction(document.id, {
+        rawText: annualReport,
+        rawTextBytes: annualReport.length,
+        extractionStatus: "complete",
+        extractionError: null,
+      });
+      return document;
+    };
+    const startedAt = new Date(Date.now() - STALE_JOB_MS - 1000);
+    const retried = await upload("retried.txt");
+    const retriedJob = await storage.createProcessingJob(retried.id, "summary", "running");
+    await storage.updateProcessingJob(retriedJob.id, { attempts: 1, startedAt });
+    const exhausted = await upload("exhausted.txt");
+    const exhaustedJob = await storage.createProcessingJob(exhausted.id, "summary", "running");
+    await storage.updateProcessingJob(exhaustedJob.id, { attempts: MAX_JOB_ATTEMPTS, startedAt });
+    const live = await upload("live.txt");
+    const liveJob = await storage.createProcessingJob(live.id, "summary", "running");
+
+    for (const document of [retried, exhausted, live]) {
+      await processDocumentJobs({ jobTypes: ["summary"], documentId: document.id });
+    }
+
+    const [retriedAfter] = await storage.getProcessingJobs({ jobType: "summary", documentId: retried.id });
+    expect(retriedAfter).toMatchObject({ id: retriedJob.id, status: "succeeded", attempts: 2 });
+    expect((await storage.getDocument(retried.id))?.summary).toBeTruthy();
+    const [exhaustedAfter] = await storage.getProcessingJobs({ jobType: "summary", documentId: exhausted.id });
+    expect(exhaustedAfter).toMatchObject({ id: exhaustedJob.id, status: "failed" });
+    expect((await storage.getDocument(exhausted.id))?.summary).toBeFalsy();
+    const [liveAfter] = await storage.getProcessingJobs({ jobType: "summary", documentId: live.id });
+    expect(liveAfter).toMatchObject({ id: liveJob.id, status: "running" });
+  });
+});
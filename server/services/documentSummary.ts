@@ -0,0 +1,256 @@
+/**
+ * Document summarization (`AIService.summarizeDocument`), map-reduce style.
+ *
+ * The extracted text is split into sections at paragraph and heading
+ * boundaries. Each section is summarized on its own (map), by the model when
+ * one is configured or by the heuristics below when it is not or its answer
+ * is unusable. Section overviews and programs are then combined by the model
+ * in groups until one remains (reduce); key numbers and dates are merged here
+ * so each keeps the verbatim sentence and section it was read from.
+ */
+
+import type { DocumentSummary, SummaryDate, SummaryNumber, SummaryProgram } from "../../shared/document-summary.js";
+import { quoteAppearsIn } from "./profileExtraction.js";
+import { splitIntoPasses } from "./rfpExtraction.js";
+
+/** Characters of text per mapped section. */
+export const SUMMARY_SECTION_CHARS = 12_000;
+/** Sections grow past SUMMARY_SECTION_CHARS rather than exceed this many model calls. */
+export const SUMMARY_MAX_SECTIONS = 24;
+/** Characters of section summaries combined in one reduce call. */
+export const SUMMARY_REDUCE_CHARS = 12_000;
+
+const MAX_PROGRAMS = 10;
+const MAX_KEY_NUMBERS = 15;
+const MAX_DATES = 10;
+
+export interface SummarySection {
+  text: string;
+  /** Heading in effect at the start of the section */
+  heading: string | null;
+}
+
+/** One section's summary, before the reduce step. */
+export type SectionSummary = Omit<DocumentSummary, "sectionCount">;
+
+export const SUMMARY_MAP_INSTRUCTIONS = `You are a grants analyst reading one section of a longer document an organization uploaded. Summarize only what this section states that a grant writer could use: mission, programs, people served, outcomes, finances, partners and milestones.
+
+Return ONLY a JSON object with:
+- overview: 2-4 sentences on what this section covers.
+- programs: programs or services it describes, shape { name, description } (description one sentence).
+- keyNumbers: figures it states, shape { value, label, quote }. "value" as written ("1,240", "$2.3 million", "87%"); "label" says what it counts; "quote" is the sentence the figure appears in, copied verbatim.
+- dates: dates and periods it names with what happened, shape { date, label }.
+
+Use empty arrays when the section has none. Do not infer figures that are not written in the section.`;
+
+export const SUMMARY_REDUCE_INSTRUCTIONS = `You are a grants analyst combining summaries of consecutive sections of one document into a single summary of the whole document.
+
+Return ONLY a JSON object with:
+- overview: 3-6 sentences covering the whole document: who it is about, what it reports and its most important results.
+- programs: the distinct programs across the sections, shape { name, description }, merging duplicates that name the same program.
+
+Use only what the section summaries say.`;
+
+function clean(value: unknown, maxChars = 600): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, maxChars) : "";
+}
+
+/**
+ * Paragraph-aligned sections of at most `maxChars`. A paragraph longer than
+ * that (PDF text often has no blank lines) is cut at line, then sentence,
+ * boundaries.
+ */
+export function splitIntoSections(text: string, maxChars = SUMMARY_SECTION_CHARS): SummarySection[] {
+  const size = Math.max(maxChars, Math.ceil(text.length / SUMMARY_MAX_SECTIONS));
+  const sections: SummarySection[] = [];
+  for (const pass of splitIntoPasses(text, size)) {
+    if (pass.text.length <= size) {
+      sections.push({ text: pass.text, heading: pass.section });
+      continue;
+    }
+    let current = "";
+    for (const piece of pass.text.match(/[^\n.!?]*(?:[.!?]+|\n|$)/g) ?? []) {
+      if (current && current.length + piece.length > size) {
+        sections.push({ text: current.trim(), heading: pass.section });
+        current = "";
+      }
+      // A single run without any boundary is cut at the limit.
+      for (let start = 0; start < piece.length; start += size) {
+        const slice = piece.slice(start, start + size);
+        if (current.length + slice.length > size) {
+          sections.push({ text: current.trim(), heading: pass.section });
+          current = "";
+        }
+        current += slice;
+      }
+    }
+    if (current.trim()) sections.push({ text: current.trim(), heading: pass.section });
+  }
+  return sections.filter((section) => section.text);
+}
+
+function normalizePrograms(raw: unknown): SummaryProgram[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item) => ({ name: clean(item?.name, 120), description: clean(item?.description, 400) }))
+    .filter((program) => program.name);
+}
+
+/**
+ * Validate one section's model JSON against the section it read. A figure
+ * whose quote is not in the section is dropped. Returns null when nothing is
+ * usable, so the caller can fall back to the heuristics.
+ */
+export function normalizeSectionSummary(raw: any, section: SummarySection): SectionSummary | null {
+  const overview = clean(raw?.overview, 1200);
+  if (!overview) return null;
+
+  const keyNumbers: SummaryNumber[] = [];
+  for (const item of Array.isArray(raw?.keyNumbers) ? raw.keyNumbers : []) {
+    const value = clean(item?.value, 60);
+    const label = clean(item?.label, 200);
+    const quote = clean(item?.quote);
+    if (!value || !label) continue;
+    if (!quoteAppearsIn(quote, section.text)) {
+      console.warn("Dropping summary figure without a verbatim quote:", JSON.stringify(item).slice(0, 200));
+      continue;
+    }
+    keyNumbers.push({ value, label, quote, section: section.heading });
+  }
+
+  const dates: SummaryDate[] = (Array.isArray(raw?.dates) ? raw.dates : [])
+    .map((item: any) => ({ date: clean(item?.date, 60), label: clean(item?.label, 200) }))
+    .filter((date: SummaryDate) => date.date && date.label);
+
+  return { overview, programs: normalizePrograms(raw?.programs), keyNumbers, dates };
+}
+
+/** The combined overview and programs from one reduce call, or null when unusable. */
+export function normalizeReducedSummary(raw: any): Pick<SectionSummary, "overview" | "programs"> | null {
+  const overview = clean(raw?.overview, 2000);
+  return overview ? { overview, programs: normalizePrograms(raw?.programs) } : null;
+}
+
+const FIGURE = /(?:\$\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|billion|thousand|[MBK]))?|\b\d[\d,]*(?:\.\d+)?\s?%|\b\d{1,3}(?:,\d{3})+\b|\b\d+(?:\.\d+)?(?=\s(?:people|families|students|clients|participants|individuals|youth|children|volunteers|households|members|staff|meals|hours|sites|partners)\b))/i;
+const DATE =
+  /\b(?:(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+(?:\d{1,2},\s+)?(?:19|20)\d{2}|FY\s?'?\d{2}(?:\d{2})?|(?:in|since|by|through|founded in|established in)\s+(?:19|20)\d{2})\b/i;
+
+/** A few words around a figure saying what it counts: "families in 2025". */
+function figureLabel(sentence: string, figure: RegExpExecArray): string {
+  const words = (text: string) => text.split(/[,;:()]/)[0].trim().split(/\s+/).filter(Boolean);
+  const after = words(sentence.slice(figure.index + figure[0].length).replace(/[.!?]+$/, "")).slice(0, 8);
+  if (after.length) return after.join(" ");
+  const before = sentence.slice(0, figure.index).split(/[,;:()]/).at(-1)?.trim().split(/\s+/).filter(Boolean) ?? [];
+  return before.slice(-8).join(" ");
+}
+
+function sentencesOf(text: string): string[] {
+  // "$1.2 million" does not end a sentence: punctuation only does before a space.
+  const sentences = text.replace(/\s+/g, " ").match(/(?:[^.!?]|[.!?](?!\s|$))+(?:[.!?]+|$)/g) ?? [];
+  return sentences.map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Pattern-based reading of one section: its opening sentences as the
+ * overview, sentences stating a count, amount or percentage as key numbers,
+ * and named months, fiscal years and "since 2015"-style years as dates.
+ */
+export function summarizeSectionHeuristically(section: SummarySection): SectionSummary {
+  const sentences = sentencesOf(section.text);
+  const keyNumbers: SummaryNumber[] = [];
+  const dates: SummaryDate[] = [];
+  for (const sentence of sentences) {
+    if (sentence.length > 400) continue;
+    const figure = FIGURE.exec(sentence);
+    if (figure && keyNumbers.length < MAX_KEY_NUMBERS) {
+      keyNumbers.push({ value: figure[0].trim(), label: figureLabel(sentence, figure), quote: sentence, section: section.heading });
+    }
+    const date = DATE.exec(sentence);
+    if (date && dates.length < MAX_DATES) {
+      dates.push({ date: date[0].replace(/^(?:in|since|by|through|founded in|established in)\s+/i, ""), label: clean(sentence, 200) });
+    }
+  }
+  return {
+    overview: clean(sentences.slice(0, 2).join(" "), 600),
+    programs: [],
+    keyNumbers,
+    dates,
+  };
+}
+
+function dedupe<T>(items: T[], key: (item: T) => string, max: number): T[] {
+  const seen = new Set<string>();
+  const kept: T[] = [];
+  for (const item of items) {
+    const id = key(item).toLowerCase();
+    if (seen.has(id)) continue;
+    seen.add(id);
+    kept.push(item);
+    if (kept.length === max) break;
+  }
+  return kept;
+}
+
+/** The first item of every list, then the second of every list... so each section is represented. */
+function interleave<T>(lists: T[][]): T[] {
+  const items: T[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) if (i < list.length) items.push(list[i]);
+  }
+  return items;
+}
+
+/**
+ * Combine section summaries without a model: overviews joined in order,
+ * programs, numbers and dates deduplicated, numbers and dates taken from
+ * every section in turn. The reduce step's fallback, and how numbers and
+ * dates are always merged.
+ */
+export function mergeSectionSummaries(summaries: SectionSummary[]): SectionSummary {
+  return {
+    overview: clean(summaries.map((summary) => summary.overview).join(" "), 2000),
+    programs: dedupe(summaries.flatMap((summary) => summary.programs), (program) => program.name, MAX_PROGRAMS),
+    keyNumbers: dedupe(
+      interleave(summaries.map((summary) => summary.keyNumbers)),
+      (number) => `${number.value}|${number.label}`,
+      MAX_KEY_NUMBERS,
+    ),
+    dates: dedupe(
+      interleave(summaries.map((summary) => summary.dates)),
+      (date) => `${date.date}|${date.label}`,
+      MAX_DATES,
+    ),
+  };
+}
+
+/** Consecutive groups whose overviews and programs fit one reduce call. */
+export function reduceGroups(summaries: SectionSummary[], maxChars = SUMMARY_REDUCE_CHARS): SectionSummary[][] {
+  const groups: SectionSummary[][] = [];
+  let current: SectionSummary[] = [];
+  let used = 0;
+  for (const summary of summaries) {
+    const cost = reduceInput([summary]).length;
+    if (current.length > 1 && used + cost > maxChars) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(summary);
+    used += cost;
+  }
+  if (current.length) groups.push(current);
+  return groups;
+}
+
+/** What a reduce call is shown: each section's overview and programs, in order. */
+export function reduceInput(summaries: SectionSummary[]): string {
+  return summaries
+    .map((summary, index) =>
+      [
+        `Section ${index + 1}: ${summary.overview}`,
+        ...summary.programs.map((program) => `- Program: ${program.name}: ${program.description}`),
+      ].join("\n"),
+    )
+    .join("\n\n");
+}
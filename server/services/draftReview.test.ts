@@ -0,0 +1,219 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { ensureClaimVerifications } from "./claimVerification.js";
+import { LocalProvider } from "./llm.js";
+import {
+  getReviewHistory,
+  normalizeModelReview,
+  resolveReviewRubric,
+  reviewAnswerHeuristically,
+  reviewApplication,
+  reviewQuestion,
+} from "./draftReview.js";
+import { criterionWeights, weightedScore } from "../../shared/draft-review.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const annualReport =
+  "In 2025 the food bank served 1,240 families across three counties. Most households were first-time clients referred by schools.";
+
+const rubric = [
+  { text: "Community need", weight: "30 points" },
+  { text: "Organizational capacity", weight: "10 points" },
+];
+
+async function answeredQuestion(userId: string, response: string) {
+  const project = await storage.createProject(userId, { title: "Review", funder: "Funder" });
+  const document = await storage.createDocument(userId, {
+    organizationId: userId,
+    filename: "annual-report.txt",
+    originalName: "Annual Report.txt",
+    fileType: "text/plain",
+    fileSize: annualReport.length,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, { chunkIndex: 0, content: annualReport, tokenCount: 20 });
+  const question = await storage.createGrantQuestion(project.id, { question: "Describe the community need." });
+  await storage.createDraftCitation({
+    draftId: question.id,
+    section: "response",
+    sourceDocumentId: document.id,
+    chunkRefs: [{ chunkIndex: 0, quote: annualReport.slice(0, 40) }],
+  });
+  const answered = await storage.updateGrantQuestion(question.id, { response, responseStatus: "complete" });
+  return { project, question: answered! };
+}
+
+describe("rubric weights", () => {
+  it("reads points and percentages, giving unweighted criteria the average", () => {
+    expect(criterionWeights([...rubric, { text: "Budget", weight: null }])).toEqual([30, 10, 20]);
+    expect(weightedScore(rubric, [80, 40])).toBe(70);
+    expect(weightedScore([{ text: "A", weight: null }, { text: "B", weight: null }], [80, 40])).toBe(60);
+  });
+});
+
+describe("reviewAnswerHeuristically", () => {
+  it("scores each criterion by what the answer addresses and how well its claims are backed", async () => {
+    const { question } = await answeredQuestion(
+      "review-heuristic",
+      "The community need is growing: in 2025 we served 1,240 families across three counties. [#1] Riverside County has 40 pantries.",
+    );
+    const claims = await ensureClaimVerifications(question);
+    const review = reviewAnswerHeuristically(question.response!, rubric, claims);
+
+    expect(review.criteria.map((c) => c.score)).toEqual([80, 20]);
+    expect(review.criteria[1].reasoning).toBe(
+      'Uses 0 of 2 key words of the criterion; missing "Organizational", "capacity". 1 of 2 sentences are backed by their cited sources.',
+    );
+    expect(review.weakestSentences).toEqual([
+      { sentence: "Riverside County has 40 pantries.", reason: "States specifics without a citation." },
+    ]);
+    expect(review.suggestions[0]).toBe(
+      'Address "Organizational capacity" directly; the answer never mentions "Organizational", "capacity".',
+    );
+  });
+});
+
+describe("normalizeModelReview", () => {
+  const answer = "We served 1,240 families. [#1] Our staff is small.";
+
+  it("keeps the rubric's order and drops weak sentences the answer does not contain", () => {
+    expect(
+      normalizeModelReview(
+        {
+          criteria: [
+            { criterion: "organizational capacity", score: "35", reasoning: " Thin staffing detail. " },
+            { criterion: "Community need", score: 104.4, reasoning: "Clear figures." },
+          ],
+          weakestSentences: [
+            { sentence: "Our staff is small.", reason: "Vague." },
+            { sentence: "We have 40 volunteers.", reason: "Not in the answer." },
+          ],
+          suggestions: ["Name the program director.", 3],
+        },
+        rubric,
+        answer,
+      ),
+    ).toEqual({
+      criteria: [
+        { criterion: "Community need", weight: "30 points", score: 100, reasoning: "Clear figures." },
+        { criterion: "Organizational capacity", weight: "10 points", score: 35, reasoning: "Thin staffing detail." },
+      ],
+      weakestSentences: [{ sentence: "Our staff is small.", reason: "Vague." }],
+      suggestions: ["Name the program director."],
+    });
+  });
+
+  it("returns null when a criterion is left unscored, so the lexical review is used", () => {
+    expect(normalizeModelReview({ criteria: [{ criterion: "Community need", score: 70 }] }, rubric, answer)).toBeNull();
+    expect(normalizeModelReview({ text: "…", citations: [] }, rubric, answer)).toBeNull();
+  });
+});
+
+describe("rubric reviews", () => {
+  it("stores reviews per response version so revisions can be compared", async () => {
+    const userId = "review-versions";
+    const { project, question } = await answeredQuestion(userId, "We help people. Our staff is small.");
+    const params = { userId, project, rubric: { criteria: rubric, source: "request" as const, funder: null }, preference: {} };
+
+    const first = await reviewQuestion({ ...params, question });
+    expect(first).toMatchObject({ version: 1, method: "heuristic", rubricSource: "request" });
+    // The same version against the same rubric is not scored twice.
+    expect(await reviewQuestion({ ...params, question })).toEqual(first);
+
+    const revised = await storage.updateGrantQuestion(question.id, {
+      response: "The community need is urgent: in 2025 we served 1,240 families across three counties. [#1]",
+      responseStatus: "edited",
+    });
+    const second = await reviewQuestion({ ...params, question: revised! });
+    expect(second!.version).toBe(2);
+    expect(second!.overallScore).toBeGreaterThan(first!.overallScore);
+
+    const history = await getReviewHistory(revised!);
+    expect(history.map((review) => [review.version, review.overallScore])).toEqual([
+      [2, second!.overallScore],
+      [1, first!.overallScore],
+    ]);
+  });
+
+  it("uses the linked funder's criteria and credits each criterion to the strongest answer", async () => {
+    const userId = "review-application";
+    const funder = await storage.createFunder({
+      organizationId: userId,
+      name: "Riverside Community Foundation",
+      evaluationCriteria: rubric,
+      createdBy: userId,
+    });
+    const { project, question } = await answeredQuestion(
+      userId,
+      "The community need is urgent: in 2025 we served 1,240 families across three counties. [#1]",
+    );
+    const linked = (await storage.updateProject(project.id, { funderId: funder.id }))!;
+    const capacity = await storage.createGrantQuestion(project.id, { question: "Describe your capacity." });
+    await storage.updateGrantQuestion(capacity.id, {
+      response: "Our organizational capacity includes twelve staff.",
+      responseStatus: "complete",
+    });
+    await storage.createGrantQuestion(project.id, { question: "Unanswered" });
+
+    const resolved = await resolveReviewRubric(linked);
+    expect(resolved).toMatchObject({ source: "funder", criteria: rubric });
+    const review = await reviewApplication({ userId, project: linked, rubric: resolved!, preference: {} });
+
+    expect(review.answers).toHaveLength(2);
+    expect(review.criteria.map((c) => c.questionId)).toEqual([question.id, capacity.id]);
+    expect(review.overallScore).toBe(weightedScore(rubric, review.criteria.map((c) => c.score)));
+  });
+
+  it("bills every model review, including a refreshed one", async () => {
+    const userId = "review-billing";
+    const { project, question } = await answeredQuestion(userId, "We help people. Our staff is small.");
+    const generateJSON = vi.spyOn(LocalProvider.prototype, "generateJSON").mockImplementation(async (request) => {
+      const json = {
+        criteria: rubric.map((criterion) => ({ criterion: criterion.text, score: 60, reasoning: "Partly addressed." })),
+        weakestSentences: [],
+        suggestions: [],
+      };
+      return { text: JSON.stringify(json), json, provider: "local", model: request.model, tokensIn: 300, tokensOut: 50 };
+    });
+    const params = {
+      userId,
+      project,
+      question,
+      rubric: { criteria: rubric, source: "request" as const, funder: null },
+      preference: { model: "local-deterministic", fallbackModel: null },
+    };
+
+    try {
+      const first = await reviewQuestion(params);
+      expect(first).toMatchObject({ method: "model" });
+      await reviewQuestion(params);
+      await reviewQuestion({ ...params, refresh: true });
+      // The stored review is reused without a model call; the refresh is billed.
+      expect(generateJSON).toHaveBeenCalledTimes(2);
+    } finally {
+      generateJSON.mockRestore();
+    }
+
+    const events = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+    const reviews = events.filter((event) => event.type === "review");
+    expect(reviews).toHaveLength(2);
+    expect(reviews[0]).toMatchObject({
+      model: "local-deterministic",
+      tokensIn: 300,
+      tokensOut: 50,
+      metadata: expect.objectContaining({ questionId: question.id }),
+    });
+  });
+
+  it("has no rubric without request criteria or funder criteria", async () => {
+    const project = await storage.createProject("review-no-rubric", { title: "None", funder: "Funder" });
+    expect(await resolveReviewRubric(project)).toBeNull();
+    expect(await resolveReviewRubric(project, [{ text: "Impact", weight: null }])).toMatchObject({ source: "request" });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Rubric review: scores answers, and the application as a whole, against the
+ * funder's evaluation criteria before submission.
+ *
+ * Every review is stored against the response version it scored, so a
+ * question's history shows whether revisions raised the score. The model
+ * reviews each answer with the sentences the claim check flagged; without a
+ * model, or when its answer is unusable, each criterion is scored lexically
+ * from how much of it the answer addresses and how well the answer's claims
+ * are backed by their sources.
+ */
+
+import { storage } from "../storage.js";
+import { aiService, REVIEW_MAX_TOKENS } from "./ai.js";
+import { billingService, calculateCostCents, estimateTokensFromText } from "./billing.js";
+import { canServeModels, type ModelPreference } from "./llm.js";
+import {
+  ANSWERED_STATUSES,
+  claimStrength,
+  contentTerms,
+  ensureClaimVerifications,
+  statesSpecifics,
+} from "./claimVerification.js";
+import { funderBrief } from "./funderProfiles.js";
+import {
+  weightedScore,
+  type ApplicationReview,
+  type CriterionScore,
+  type DraftReview,
+  type ReviewRubricSource,
+  type WeakSentence,
+} from "../../shared/draft-review.js";
+import type { EvaluationCriterion } from "../../shared/rfp-extraction.js";
+import type { ClaimVerification, DraftReviewRow, Funder, GrantQuestion, Project, ResponseVersion } from "../../shared/schema.js";
+
+const MAX_WEAK_SENTENCES = 3;
+const MAX_SUGGESTIONS = 5;
+/** Share of a lexical criterion score that comes from addressing the criterion; the rest is evidence. */
+const COVERAGE_SHARE = 0.6;
+/** Criteria the answer addresses less than this share of get a suggestion. */
+const SUGGEST_BELOW_COVERAGE = 0.5;
+
+export interface ReviewRubric {
+  criteria: EvaluationCriterion[];
+  source: ReviewRubricSource;
+  funder: Funder | null;
+}
+
+/** Scores before they are weighted and stored. `criteria` follows rubric order. */
+export interface AnswerReviewScores {
+  criteria: CriterionScore[];
+  weakestSentences: WeakSentence[];
+  suggestions: string[];
+}
+
+/**
+ * The rubric to score against: criteria sent with the request (entered by
+ * hand or taken from an RFP extraction), else the linked funder's. Null when
+ * neither has any.
+ */
+export async function resolveReviewRubric(
+  project: Project,
+  requested?: EvaluationCriterion[] | null,
+): Promise<ReviewRubric | null> {
+  const funder = project.funderId ? ((await storage.getFunder(project.funderId)) ?? null) : null;
+  if (requested?.length) return { criteria: requested, source: "request", funder };
+  const criteria = (funder?.evaluationCriteria as EvaluationCriterion[] | undefined) ?? [];
+  return criteria.length ? { criteria, source: "funder", funder } : null;
+}
+
+/** Sentences the claim check flagged, least supported first. */
+export function weakSentencesFromClaims(claims: ClaimVerification[]): WeakSentence[] {
+  const rank = { unsupported: 0, partially: 1, uncited: 2 } as Record<string, number>;
+  return claims
+    .filter((claim) => claim.verdict !== "supported" && (claim.verdict !== "uncited" || statesSpecifics(claim.sentence)))
+    .sort((a, b) => rank[a.verdict] - rank[b.verdict] || a.score - b.score || a.position - b.position)
+    .map((claim) => {
+      const missing = (claim.missingTerms as string[]) ?? [];
+      let reason: string;
+      if (claim.verdict === "unsupported") reason = "Its cited source does not support it.";
+      else if (claim.verdict === "uncited") reason = "States specifics without a citation.";
+      else if (missing.length) reason = `The cited source does not mention ${missing.map((t) => `"${t}"`).join(", ")}.`;
+      else reason = "Only partly backed by its cited source.";
+      return { sentence: claim.sentence, reason };
+    });
+}
+
+/** Words of the criterion the answer does and does not use, as written in the criterion. */
+function criterionCoverage(criterion: string, answerTerms: Set<string>) {
+  const words = Array.from(new Set(criterion.match(/[A-Za-z0-9][A-Za-z0-9'-]*/g) ?? []));
+  const keyWords = words.filter((word) => contentTerms(word).length);
+  const missing = keyWords.filter((word) => !contentTerms(word).every((term) => answerTerms.has(term)));
+  return { total: keyWords.length, covered: keyWords.length - missing.length, missing };
+}
+
+/**
+ * Lexical review: each criterion scores by the share of its key words the
+ * answer uses, blended with how well the answer's claims are supported.
+ */
+export function reviewAnswerHeuristically(
+  answer: string,
+  rubric: EvaluationCriterion[],
+  claims: ClaimVerification[],
+): AnswerReviewScores {
+  const answerTerms = new Set(contentTerms(answer));
+  const evidence = claimStrength(claims);
+  const supported = claims.filter((claim) => claim.verdict === "supported").length;
+  const weakestSentences = weakSentencesFromClaims(claims).slice(0, MAX_WEAK_SENTENCES);
+
+  const coverage = rubric.map((criterion) => criterionCoverage(criterion.text, answerTerms));
+  const criteria = rubric.map((criterion, i): CriterionScore => {
+    const { total, covered, missing } = coverage[i];
+    const share = total ? covered / total : 0;
+    const addressed = missing.length
+      ? `Uses ${covered} of ${total} key words of the criterion; missing ${missing.map((w) => `"${w}"`).join(", ")}.`
+      : "Uses every key word of the criterion.";
+    return {
+      criterion: criterion.text,
+      weight: criterion.weight,
+      score: Math.round(100 * (COVERAGE_SHARE * share + (1 - COVERAGE_SHARE) * evidence)),
+      reasoning: `${addressed} ${supported} of ${claims.length} sentences are backed by their cited sources.`,
+    };
+  });
+
+  const suggestions: string[] = [];
+  rubric.forEach((criterion, i) => {
+    const { total, covered, missing } = coverage[i];
+    if (total && covered / total < SUGGEST_BELOW_COVERAGE) {
+      suggestions.push(
+        `Address "${criterion.text}" directly; the answer never mentions ${missing.slice(0, 3).map((w) => `"${w}"`).join(", ")}.`,
+      );
+    }
+  });
+  if (weakestSentences.length) {
+    suggestions.push("Back up or cut the weakest sentences: cite a source that states their figures and names, or remove them.");
+  }
+
+  return { criteria, weakestSentences, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+}
+
+function comparable(text: string): string {
+  return text.replace(/\[#\d+\]/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Validate the model's review. Every rubric criterion must be scored (matched
+ * by text, else by position); weak sentences the answer does not contain are
+ * dropped. Null sends the caller to the lexical review.
+ */
+export function normalizeModelReview(
+  raw: unknown,
+  rubric: EvaluationCriterion[],
+  answer: string,
+): AnswerReviewScores | null {
+  if (!raw || typeof raw !== "object") return null;
+  const json = raw as Record<string, unknown>;
+  const items = Array.isArray(json.criteria) ? json.criteria.filter((item) => item && typeof item === "object") : [];
+
+  const criteria: CriterionScore[] = [];
+  for (const [i, criterion] of rubric.entries()) {
+    const item =
+      items.find((candidate) => typeof candidate.criterion === "string" && comparable(candidate.criterion) === comparable(criterion.text)) ??
+      items[i];
+    const score = typeof item?.score === "number" ? item.score : parseFloat(item?.score);
+    if (!Number.isFinite(score)) return null;
+    criteria.push({
+      criterion: criterion.text,
+      weight: criterion.weight,
+      score: Math.max(0, Math.min(100, Math.round(score))),
+      reasoning: typeof item.reasoning === "string" ? item.reasoning.trim() : "",
+    });
+  }
+
+  const answerText = comparable(answer);
+  const weakestSentences = (Array.isArray(json.weakestSentences) ? json.weakestSentences : [])
+    .filter((item: any) => typeof item?.sentence === "string" && item.sentence.trim())
+    .filter((item: any) => answerText.includes(comparable(item.sentence)))
+    .map((item: any) => ({ sentence: item.sentence.trim(), reason: typeof item.reason === "string" ? item.reason.trim() : "" }))
+    .slice(0, MAX_WEAK_SENTENCES);
+
+  const suggestions = (Array.isArray(json.suggestions) ? json.suggestions : [])
+    .filter((item): item is string => typeof item === "string" && !!item.trim())
+    .map((item) => item.trim())
+    .slice(0, MAX_SUGGESTIONS);
+
+  return { criteria, weakestSentences, suggestions };
+}
+
+/**
+ * The response version holding the question's current text, created when
+ * the text was edited without saving a version.
+ */
+export async function ensureResponseVersion(question: GrantQuestion): Promise<ResponseVersion> {
+  const versions = await storage.getResponseVersions(question.id);
+  const matching = versions.filter((version) => version.content === question.response);
+  const existing = matching.find((version) => version.isCurrent) ?? matching.sort((a, b) => b.version - a.version)[0];
+  if (existing) return existing;
+  return storage.createResponseVersion(question.id, question.response!, "edited", versions.length + 1);
+}
+
+export function toDraftReview(row: DraftReviewRow, version: number): DraftReview {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    questionId: row.questionId,
+    responseVersionId: row.responseVersionId,
+    version,
+    rubric: row.rubric as EvaluationCriterion[],
+    rubricSource: row.rubricSource as ReviewRubricSource,
+    criteria: row.criteria as CriterionScore[],
+    overallScore: row.overallScore,
+    weakestSentences: row.weakestSentences as WeakSentence[],
+    suggestions: row.suggestions as string[],
+    method: row.method as DraftReview["method"],
+    createdAt: (row.createdAt ?? new Date()).toISOString(),
+  };
+}
+
+function sameRubric(a: unknown, b: EvaluationCriterion[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b.map(({ text, weight }) => ({ text, weight })));
+}
+
+/**
+ * Tokens a model review of these questions' answers may use: each answer's
+ * prompt plus the response budget. Stored reviews that would be reused are
+ * counted too, so the estimate errs high.
+ */
+export function estimateReviewTokens(questions: GrantQuestion[]): number {
+  return questions
+    .filter((question) => question.response?.trim())
+    .reduce(
+      (sum, question) => sum + estimateTokensFromText(`${question.question}\n${question.response}`) + REVIEW_MAX_TOKENS,
+      0,
+    );
+}
+
+export interface ReviewParams {
+  userId: string;
+  project: Project;
+  rubric: ReviewRubric;
+  preference: ModelPreference;
+  /** Score again even when this version was already reviewed against this rubric */
+  refresh?: boolean;
+}
+
+/**
+ * Review the question's current answer. A version already reviewed against
+ * the same rubric returns its stored review unless `refresh` is set. Null
+ * when the question has no answer.
+ */
+export async function reviewQuestion(params: ReviewParams & { question: GrantQuestion }): Promise<DraftReview | null> {
+  const { userId, project, question, rubric, preference, refresh = false } = params;
+  const answer = question.response?.trim() ? question.response : null;
+  if (!answer) return null;
+
+  const version = await ensureResponseVersion(question);
+  if (!refresh) {
+    const stored = (await storage.getDraftReviews(question.id)).find(
+      (review) => review.responseVersionId === version.id && sameRubric(review.rubric, rubric.criteria),
+    );
+    if (stored) return toDraftReview(stored, version.version);
+  }
+
+  const claims = await ensureClaimVerifications(question);
+  let scores: AnswerReviewScores | null = null;
+  if (canServeModels(preference)) {
+    try {
+      const { json, usage } = await aiService.reviewAnswer(
+        {
+          question: question.question,
+          answer,
+          rubric: rubric.criteria,
+          funder: rubric.funder ? funderBrief(rubric.funder) : null,
+          flaggedSentences: weakSentencesFromClaims(claims),
+        },
+        preference,
+      );
+      try {
+        await billingService.recordUsage({
+          organizationId: project.organizationId,
+          userId,
+          projectId: project.id,
+          type: "review",
+          provider: usage.provider,
+          model: usage.model,
+          tokensIn: usage.tokensIn,
+          tokensOut: usage.tokensOut,
+          costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
+          metadata: { questionId: question.id, responseVersionId: version.id },
+        });
+      } catch (usageError) {
+        console.warn(`[review] Failed to record review usage for ${question.id}:`, usageError);
+      }
+      scores = normalizeModelReview(json, rubric.criteria, answer);
+    } catch (error) {
+      console.error("Answer review error:", error);
+    }
+  }
+  const method = scores ? "model" : "heuristic";
+  scores ??= reviewAnswerHeuristically(answer, rubric.criteria, claims);
+
+  const row = await storage.createDraftReview({
+    projectId: project.id,
+    questionId: question.id,
+    responseVersionId: version.id,
+    rubric: rubric.criteria.map(({ text, weight }) => ({ text, weight })),
+    rubricSource: rubric.source,
+    criteria: scores.criteria,
+    overallScore: weightedScore(rubric.criteria, scores.criteria.map((c) => c.score)),
+    weakestSentences: scores.weakestSentences,
+    suggestions: scores.suggestions,
+    method,
+    createdBy: userId,
+  });
+  return toDraftReview(row, version.version);
+}
+
+/**
+ * Review every answered question, then score the application per criterion
+ * by its strongest answer: a reviewer reading the whole application credits
+ * a criterion wherever it is met.
+ */
+export async function reviewApplication(params: ReviewParams): Promise<ApplicationReview> {
+  const { project, rubric } = params;
+  const answers: DraftReview[] = [];
+  for (const question of await storage.getGrantQuestions(project.id)) {
+    if (!ANSWERED_STATUSES.has(question.responseStatus ?? "")) continue;
+    const review = await reviewQuestion({ ...params, question });
+    if (review) answers.push(review);
+  }
+
+  const criteria = rubric.criteria.map((criterion, i) => {
+    const best = answers.reduce<DraftReview | null>(
+      (top, review) => (!top || review.criteria[i].score > top.criteria[i].score ? review : top),
+      null,
+    );
+    return best
+      ? { ...best.criteria[i], questionId: best.questionId }
+      : { criterion: criterion.text, weight: criterion.weight, score: 0, reasoning: "No answered questions to review.", questionId: null };
+  });
+
+  return {
+    projectId: project.id,
+    rubric: rubric.criteria,
+    rubricSource: rubric.source,
+    criteria,
+    overallScore: weightedScore(rubric.criteria, criteria.map((c) => c.score)),
+    answers,
+  };
+}
+
+/** A question's reviews, newest first, each labelled with the version it scored. */
+export async function getReviewHistory(question: GrantQuestion): Promise<DraftReview[]> {
+  const [reviews, versions] = await Promise.all([
+    storage.getDraftReviews(question.id),
+    storage.getResponseVersions(question.id),
+  ]);
+  const versionNumbers = new Map(versions.map((version) => [version.id, version.version]));
+  return reviews.map((review) => toDraftReview(review, versionNumbers.get(review.responseVersionId) ?? 0));
+}
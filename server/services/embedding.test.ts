@@ -0,0 +1,40 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { EMBEDDING_COLUMN_DIMENSIONS, fitEmbeddingDimensions, generateEmbedding } from "./embedding.js";
+
+vi.hoisted(() => {
+  delete process.env.OPENAI_API_KEY;
+  delete process.env.ANTHROPIC_API_KEY;
+});
+
+vi.mock("openai", () => ({
+  default: class MockOpenAI {
+    chat = { completions: { create: vi.fn() } };
+    embeddings = { create: vi.fn() };
+  },
+}));
+
+describe("fitEmbeddingDimensions", () => {
+  it("zero-pads shorter vectors without changing their dot products", () => {
+    const a = fitEmbeddingDimensions([0.6, 0.8, 0])!;
+    const b = fitEmbeddingDimensions([0.8, 0.6, 0])!;
+    expect(a).toHaveLength(EMBEDDING_COLUMN_DIMENSIONS);
+    expect(a.reduce((sum, v, i) => sum + v * b[i], 0)).toBeCloseTo(0.96, 10);
+  });
+
+  it("rejects vectors wider than the column", () => {
+    expect(fitEmbeddingDimensions(new Array(3072).fill(0.01))).toBeNull();
+  });
+});
+
+describe("generateEmbedding", () => {
+  it("keeps embeddings local when the organization endpoint has no embedding model", async () => {
+    const result = await generateEmbedding("youth mentoring", {
+      baseUrl: "http://localhost:11434/v1",
+      chatModel: "llama3.1:8b",
+    });
+    expect(result.model).toBe("local-embedding");
+    expect(result.embedding).toHaveLength(EMBEDDING_COLUMN_DIMENSIONS);
+  });
+});
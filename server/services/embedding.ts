@@ -1,26 +1,71 @@
-import OpenAI from "openai";
+import { getCompatibleProvider, getProviderForModel, type CompatibleEndpoint, type LlmProvider } from "./llm.js";
+import { LOCAL_EMBEDDING_MODEL } from "../../shared/ai-models.js";
 
 const MODEL = process.env.DOCUMENT_EMBEDDING_MODEL || "text-embedding-3-small";
 
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null;
+/** Width of the pgvector columns (`doc_chunks.embedding`, `embedding_cache.embedding`). */
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536;
+
+export type EmbeddingFit = "exact" | "padded" | "too_large";
+
+export function embeddingFit(dimensions: number): EmbeddingFit {
+  if (dimensions === EMBEDDING_COLUMN_DIMENSIONS) return "exact";
+  return dimensions < EMBEDDING_COLUMN_DIMENSIONS ? "padded" : "too_large";
+}
+
+/**
+ * Store a vector from a model of any width in the 1536-dim column. Shorter
+ * vectors are zero-padded, which leaves dot products and norms (and so cosine
+ * similarity between two padded vectors) unchanged. Longer vectors cannot be
+ * shrunk without distorting similarity, so they are rejected with null and the
+ * document falls back to keyword retrieval.
+ */
+export function fitEmbeddingDimensions(embedding: number[]): number[] | null {
+  switch (embeddingFit(embedding.length)) {
+    case "exact":
+      return embedding;
+    case "padded":
+      return [...embedding, ...new Array<number>(EMBEDDING_COLUMN_DIMENSIONS - embedding.length).fill(0)];
+    case "too_large":
+      return null;
+  }
+}
+
+/**
+ * The provider and model that embed content for an organization. With a
+ * self-hosted endpoint but no embedding model configured, embeddings stay on
+ * the local provider so document text still never reaches a hosted API.
+ */
+function embeddingTarget(endpoint?: CompatibleEndpoint | null): { provider: LlmProvider; model: string } {
+  if (endpoint?.embeddingModel) {
+    return { provider: getCompatibleProvider(endpoint), model: endpoint.embeddingModel };
+  }
+  if (endpoint) {
+    return { provider: getProviderForModel(LOCAL_EMBEDDING_MODEL), model: LOCAL_EMBEDDING_MODEL };
+  }
+  return { provider: getProviderForModel(MODEL), model: MODEL };
+}
 
 export async function generateEmbedding(
-  input: string
+  input: string,
+  endpoint?: CompatibleEndpoint | null
 ): Promise<{ embedding: number[] | null; model: string }> {
-  if (!openai) {
-    console.warn("[embedding] OPENAI_API_KEY not set. Skipping embedding generation.");
-    return { embedding: null, model: MODEL };
+  const { provider, model } = embeddingTarget(endpoint);
+  if (!provider.isConfigured()) {
+    console.warn(`[embedding] No ${provider.name} credentials configured. Skipping embedding generation.`);
+    return { embedding: null, model };
   }
 
   try {
-    const response = await openai.embeddings.create({
-      model: MODEL,
-      input,
-    });
-    const embedding = response.data[0]?.embedding ?? null;
-    return { embedding, model: MODEL };
+    const { embedding } = await provider.embed(input, model);
+    const fitted = fitEmbeddingDimensions(embedding);
+    if (!fitted) {
+      console.warn(
+        `[embedding] ${model} returned ${embedding.length} dimensions; the vector column holds ` +
+          `${EMBEDDING_COLUMN_DIMENSIONS}. Skipping embedding; keyword retrieval still applies.`,
+      );
+    }
+    return { embedding: fitted, model };
   } catch (error) {
     console.error("[embedding] Failed to generate embedding:", error);
     throw error;
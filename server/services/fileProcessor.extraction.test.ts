@@ -6,8 +6,7 @@ import mammoth from "mammoth";
 import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 import * as pdfExtract from "../pdfExtract.js";
 import { FileProcessor } from "./fileProcessor.js";
-import { aiService } from "./ai.js";
-import { chunkText } from "../workers/documentProcessor.js";
+import { chunkText } from "./chunking.js";
 
 const FIXTURE_DIR = join(process.cwd(), "test/fixtures/nonprofit");
 
@@ -33,10 +32,9 @@ describe("nonprofit fixture extraction (GRA-9)", () => {
     vi.spyOn(pdfExtract, "extractPdfText").mockResolvedValue(
       "Riverside Community Food Bank annual report excerpt with program outcomes."
     );
-    vi.spyOn(aiService, "summarizeDocument").mockResolvedValue("Annual report summary.");
 
     const processor = new FileProcessor();
-    const result = await processor.processFile(
+    const result = await processor.extractFile(
       pdfBuffer,
       "community-impact-brief.pdf",
       "application/pdf"
@@ -44,7 +42,6 @@ describe("nonprofit fixture extraction (GRA-9)", () => {
 
     expect(pdfExtract.extractPdfText).toHaveBeenCalledWith(pdfBuffer);
     expect(result.extractedText.toLowerCase()).toContain("riverside community food bank");
-    expect(result.summary).toContain("Annual report");
   });
 
   it("extracts usable body text from the DOCX fixture", async () => {
@@ -54,19 +51,14 @@ describe("nonprofit fixture extraction (GRA-9)", () => {
     expect(result.value).toContain("$1.2 million");
   });
 
-  it("creates summary output and chunk records from extracted nonprofit text", async () => {
-    vi.spyOn(aiService, "summarizeDocument").mockResolvedValue(
-      "Summary of Riverside Community Food Bank program impact and budget."
-    );
-
+  it("creates chunk records from extracted nonprofit text", async () => {
     const processor = new FileProcessor();
-    const result = await processor.processFile(
+    const result = await processor.extractFile(
       docxBuffer,
       "community-impact-brief.docx",
       "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
     );
 
-    expect(result.summary).toContain("Riverside");
     expect(result.extractedText).toContain("850 families");
     expect(result.rawTextBytes).toBeGreaterThan(0);
 
@@ -78,11 +70,10 @@ describe("nonprofit fixture extraction (GRA-9)", () => {
 
   it("logs actionable errors when PDF extraction fails", async () => {
     const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
-    vi.spyOn(aiService, "summarizeDocument").mockResolvedValue("fallback summary");
     vi.spyOn(pdfExtract, "extractPdfText").mockRejectedValue(new Error("corrupt PDF structure"));
 
     const processor = new FileProcessor();
-    const result = await processor.processFile(
+    const result = await processor.extractFile(
       Buffer.from("not-a-pdf"),
       "broken-report.pdf",
       "application/pdf"
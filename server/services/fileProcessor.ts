@@ -1,26 +1,45 @@
 import mammoth from "mammoth";
+import type { RfpExtraction } from "../../shared/rfp-extraction.js";
 import type { Document } from "../../shared/schema.js";
+import { documentFormat, extractDocumentText } from "./documentFormats.js";
 import { extractPdfText } from "../pdfExtract.js";
 import { storage } from "../storage.js";
 import { aiService, type MetricSuggestion } from "./ai.js";
+import type { ModelPreference } from "./llm.js";
+import { formatSpreadsheetText, readSpreadsheet, spreadsheetKind } from "./spreadsheet.js";
 
-export interface ProcessedFile {
-  summary: string;
+export interface ExtractedFile {
   extractedText: string;
   rawTextBytes: number;
 }
 
 export class FileProcessor {
-  async processFile(
+  /**
+   * Extract the text of an upload. With a `document`, the text is stored as
+   * its extraction; the document worker summarizes and embeds it from there.
+   */
+  async extractFile(
     buffer: Buffer,
     filename: string,
     mimeType: string,
     document?: Document | null
-  ): Promise<ProcessedFile> {
+  ): Promise<ExtractedFile> {
     let extractedText: string;
 
     try {
-      if (mimeType.startsWith("text/")) {
+      const sheetKind = spreadsheetKind(mimeType, filename);
+      const format = documentFormat(mimeType, filename);
+      if (sheetKind) {
+        console.log(`Processing spreadsheet: ${filename}`);
+        const tables = await readSpreadsheet(buffer, sheetKind, filename);
+        extractedText = formatSpreadsheetText(tables);
+        console.log(`Extracted ${tables.length} sheet(s) from spreadsheet`);
+      } else if (format) {
+        // Before the text/ and Word branches: ODT and PPTX types contain "document".
+        console.log(`Processing ${format.toUpperCase()} document: ${filename}`);
+        extractedText = await extractDocumentText(buffer, format);
+        console.log(`Extracted ${extractedText.length} characters from ${format.toUpperCase()} document`);
+      } else if (mimeType.startsWith("text/")) {
         extractedText = buffer.toString("utf-8");
       } else if (mimeType === "application/pdf") {
         console.log(`Processing PDF: ${filename}`);
@@ -67,10 +86,7 @@ export class FileProcessor {
       });
     }
 
-    const summary = await aiService.summarizeDocument(rawText, filename);
-
     return {
-      summary,
       extractedText: rawText,
       rawTextBytes,
     };
@@ -80,30 +96,22 @@ export class FileProcessor {
     buffer: Buffer,
     filename: string,
     mimeType: string,
-    document?: Document | null
-  ): Promise<{ questions: string[]; demo: boolean }> {
-    const { extractedText } = await this.processFile(
-      buffer,
-      filename,
-      mimeType,
-      document
-    );
-    return aiService.extractQuestions(extractedText);
+    document?: Document | null,
+    preference: ModelPreference = {}
+  ): Promise<RfpExtraction> {
+    const { extractedText } = await this.extractFile(buffer, filename, mimeType, document);
+    return aiService.extractQuestions(extractedText, preference);
   }
 
   async extractMetricsFromFile(
     buffer: Buffer,
     filename: string,
     mimeType: string,
-    document?: Document | null
+    document?: Document | null,
+    preference: ModelPreference = {}
   ): Promise<MetricSuggestion[]> {
-    const { extractedText } = await this.processFile(
-      buffer,
-      filename,
-      mimeType,
-      document
-    );
-    return aiService.extractMetrics(extractedText);
+    const { extractedText } = await this.extractFile(buffer, filename, mimeType, document);
+    return aiService.extractMetrics(extractedText, preference);
   }
 }
 
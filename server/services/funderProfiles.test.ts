@@ -0,0 +1,146 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { aiService } from "./ai.js";
+import { prepareGroundedGeneration, resolveGenerationSettings } from "./generation.js";
+import {
+  extractFunderProfileHeuristically,
+  formatFunderBrief,
+  funderBrief,
+  mergeFunderProfile,
+  normalizeModelFunderProfile,
+} from "./funderProfiles.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const guidelines = `Riverside Community Foundation
+2025 Food Security Grants
+
+The Riverside Community Foundation's mission is to build a region where every family can thrive.
+
+Funding Priorities
+- Food access in rural communities
+- Nutrition education for families with young children
+
+Awards range from $25,000 to $100,000 for one year.
+
+Evaluation Criteria
+- Community need (30 points)
+- Organizational capacity (20 points)
+
+Contact
+Questions? Contact Maria Lopez, Program Officer, at mlopez@riversidecf.org.`;
+
+describe("extractFunderProfileHeuristically", () => {
+  it("reads the funder's name, mission, priorities, award range, criteria and contacts", () => {
+    expect(extractFunderProfileHeuristically(guidelines)).toEqual({
+      name: "Riverside Community Foundation",
+      mission: "The Riverside Community Foundation's mission is to build a region where every family can thrive.",
+      priorities: ["Food access in rural communities", "Nutrition education for families with young children"],
+      terminology: [],
+      evaluationCriteria: [
+        { text: "Community need", weight: "30 points" },
+        { text: "Organizational capacity", weight: "20 points" },
+      ],
+      awardMin: 2_500_000,
+      awardMax: 10_000_000,
+      contacts: [{ name: "Maria Lopez", role: "Program Officer", email: "mlopez@riversidecf.org" }],
+    });
+  });
+
+  it("reads priorities named in a sentence and an award ceiling", () => {
+    const draft = extractFunderProfileHeuristically(
+      "Our priorities include workforce training, housing stability and youth mentoring. Grants of up to $50K are available.",
+    );
+    expect(draft.priorities).toEqual(["workforce training", "housing stability", "youth mentoring"]);
+    expect([draft.awardMin, draft.awardMax]).toEqual([null, 5_000_000]);
+  });
+});
+
+describe("normalizeModelFunderProfile", () => {
+  it("keeps well-formed fields and converts the award range to cents", () => {
+    expect(
+      normalizeModelFunderProfile({
+        name: " Riverside Community Foundation ",
+        priorities: ["Food access", "food access", 7],
+        terminology: ["participants"],
+        evaluationCriteria: [{ text: "Community need", weight: "30 points" }, "Capacity", { weight: "5%" }],
+        awardRange: { min: 100000, max: 25000 },
+        contacts: [{ name: "Maria Lopez", role: "Program Officer", email: "not an email" }, { role: "Officer" }],
+      }),
+    ).toEqual({
+      name: "Riverside Community Foundation",
+      mission: null,
+      priorities: ["Food access"],
+      terminology: ["participants"],
+      evaluationCriteria: [
+        { text: "Community need", weight: "30 points" },
+        { text: "Capacity", weight: null },
+      ],
+      // A minimum above the maximum is dropped.
+      awardMin: null,
+      awardMax: 2_500_000,
+      contacts: [{ name: "Maria Lopez", role: "Program Officer", email: null }],
+    });
+  });
+
+  it("returns null when the answer describes no funder, so the heuristics are used", () => {
+    expect(normalizeModelFunderProfile({ text: "…", citations: [] })).toBeNull();
+    expect(normalizeModelFunderProfile({ terminology: ["participants"] })).toBeNull();
+  });
+});
+
+describe("funder profiles in generation", () => {
+  it("adds to a saved profile without overwriting what the writer entered", async () => {
+    const funder = await storage.createFunder({
+      organizationId: "funder-merge",
+      name: "Riverside CF",
+      mission: "Written by the writer.",
+      priorities: ["Food access in rural communities"],
+      createdBy: "funder-merge",
+    });
+    const merged = mergeFunderProfile(funder, extractFunderProfileHeuristically(guidelines));
+    expect(merged).toMatchObject({
+      mission: "Written by the writer.",
+      priorities: ["Food access in rural communities", "Nutrition education for families with young children"],
+      awardMin: 2_500_000,
+    });
+  });
+
+  it("puts the linked funder's priorities and criteria in the prompt", async () => {
+    const userId = "funder-prompt";
+    const funder = await storage.createFunder({
+      organizationId: userId,
+      name: "Riverside Community Foundation",
+      priorities: ["Food access in rural communities"],
+      terminology: ["participants"],
+      evaluationCriteria: [{ text: "Community need", weight: "30 points" }],
+      awardMax: 10_000_000,
+      createdBy: userId,
+    });
+    const project = await storage.createProject(userId, { title: "Pantry", funder: "Riverside", funderId: funder.id });
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe the need" });
+
+    const settings = await resolveGenerationSettings(userId, undefined);
+    const { options } = await prepareGroundedGeneration({ userId, project, question, settings });
+    expect(options.funder).toEqual(funderBrief(funder));
+    expect(formatFunderBrief(options.funder!)).toBe(
+      [
+        "Funder: Riverside Community Foundation",
+        "Funder priorities:\n- Food access in rural communities",
+        "Evaluation criteria the funder scores:\n- Community need (30 points)",
+        "Funder's preferred terms: participants",
+        "Typical award: Up to $100K",
+      ].join("\n"),
+    );
+  });
+
+  it("reads a profile without a model", async () => {
+    const draft = await aiService.extractFunderProfile(guidelines);
+    expect(draft.name).toBe("Riverside Community Foundation");
+  });
+});
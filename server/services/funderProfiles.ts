@@ -0,0 +1,283 @@
+/**
+ * Funder profiles: reading one from an RFP or funder guidelines document
+ * (`AIService.extractFunderProfile`), merging it into a saved profile, and the
+ * brief of it that generation prompts receive.
+ *
+ * The model reads the document when one is configured; otherwise, or when its
+ * answer is unusable, the heuristics below find the name, mission, listed
+ * priorities, award range, contacts and (via the RFP heuristics) evaluation
+ * criteria. Terminology is only ever proposed by the model.
+ */
+
+import { parseAmountToNumber } from "../../shared/currency.js";
+import { formatAwardRange, type EvaluationCriterion, type FunderContact } from "../../shared/funders.js";
+import { extractPassHeuristically, mergeRfpPasses, splitIntoPasses } from "./rfpExtraction.js";
+import type { Funder } from "../../shared/schema.js";
+
+/** Characters of the document handed to the model. */
+export const FUNDER_MODEL_CHARS = 24_000;
+/** Response budget of the model's profile. */
+export const FUNDER_MAX_TOKENS = 2000;
+
+/** What a document says about its funder, before it is saved. */
+export interface FunderProfileDraft {
+  name: string | null;
+  mission: string | null;
+  priorities: string[];
+  terminology: string[];
+  evaluationCriteria: EvaluationCriterion[];
+  /** cents */
+  awardMin: number | null;
+  awardMax: number | null;
+  contacts: FunderContact[];
+}
+
+/** The part of a funder profile every answer for its projects is written to. */
+export interface FunderBrief {
+  name: string;
+  mission: string | null;
+  priorities: string[];
+  terminology: string[];
+  evaluationCriteria: EvaluationCriterion[];
+  awardRange: string | null;
+}
+
+const LIST_ITEM = /^(?:[-•*▪●◦]|\(?[0-9]{1,2}[.)]|\(?[a-z][.)])\s+/i;
+const PRIORITY_HEADING = /priorit|focus areas?|funding areas?|areas of (?:interest|focus)|what we fund/i;
+const FUNDER_NAME =
+  /\b((?:[A-Z][A-Za-z&.'-]*\s+){1,5}(?:Foundation|Fund|Trust|Endowment|Philanthropies|Charitable Trust))\b/;
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const CONTACT_ROLE =
+  /\b((?:senior\s+)?(?:program|grants?|portfolio|community)\s+(?:officer|director|manager|associate|coordinator)|executive director)\b/i;
+const PERSON = /\b([A-Z][a-z]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-zA-Z'-]+)+)\b/;
+const DOLLARS = String.raw`\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k|m|thousand|million)?\b`;
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function keyOf(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(clean)
+    .filter(Boolean);
+}
+
+function dollarsToCents(amount: string, suffix: string | undefined): number | null {
+  const unit = suffix?.toLowerCase();
+  const multiplier = unit === "k" || unit === "thousand" ? "K" : unit === "m" || unit === "million" ? "M" : "";
+  const dollars = parseAmountToNumber(`${amount.replace(/,/g, "")}${multiplier}`);
+  return dollars > 0 ? Math.round(dollars * 100) : null;
+}
+
+function funderName(text: string): string | null {
+  const labelled = text.match(/^\s*(?:funder|funding organization|grantor)\s*:\s*(.+)$/im)?.[1];
+  if (labelled) return clean(labelled);
+  const named = text.match(FUNDER_NAME)?.[1];
+  return named ? clean(named).replace(/^The\s+/, "") : null;
+}
+
+function funderMission(text: string): string | null {
+  const sentence = sentences(text).find((s) => /\bmission\b/i.test(s) && /\bis to\b/i.test(s) && s.length <= 400);
+  return sentence ?? null;
+}
+
+/** Items listed under a priorities heading, or named in a "priorities include..." sentence. */
+function funderPriorities(text: string): string[] {
+  const priorities: string[] = [];
+  let listing = false;
+  for (const raw of text.split(/\n/)) {
+    const line = clean(raw);
+    if (!line) continue;
+    if (LIST_ITEM.test(line)) {
+      if (listing) priorities.push(clean(line.replace(LIST_ITEM, "").replace(/[.;]$/, "")));
+      continue;
+    }
+    listing = line.length <= 80 && !/[.?!]$/.test(line) && PRIORITY_HEADING.test(line);
+  }
+
+  for (const sentence of sentences(text)) {
+    const listed = sentence.match(/\bpriorit(?:y|ies)\s+(?:are|include)\s*:?\s+(.+?)\.?$/i)?.[1];
+    if (!listed) continue;
+    priorities.push(
+      ...listed
+        .split(/,\s*(?:and\s+|or\s+)?|\s+and\s+/)
+        .map((item) => clean(item))
+        .filter(Boolean),
+    );
+  }
+  return uniqueBy(priorities, keyOf);
+}
+
+function awardRange(text: string): { awardMin: number | null; awardMax: number | null } {
+  const range = new RegExp(`${DOLLARS}\\s*(?:to|-|–|—|and)\\s*${DOLLARS}`, "i");
+  const upTo = new RegExp(`\\bup to\\s+${DOLLARS}`, "i");
+  for (const sentence of sentences(text)) {
+    if (!/\b(?:awards?|grants?|requests?|range|funding)\b/i.test(sentence)) continue;
+    const between = sentence.match(range);
+    if (between) {
+      const min = dollarsToCents(between[1], between[2] ?? between[4]);
+      const max = dollarsToCents(between[3], between[4]);
+      if (min != null && max != null && min <= max) return { awardMin: min, awardMax: max };
+    }
+    const ceiling = sentence.match(upTo);
+    if (ceiling) return { awardMin: null, awardMax: dollarsToCents(ceiling[1], ceiling[2]) };
+  }
+  return { awardMin: null, awardMax: null };
+}
+
+function funderContacts(text: string): FunderContact[] {
+  const contacts: FunderContact[] = [];
+  for (const raw of text.split(/\n/)) {
+    const email = raw.match(EMAIL)?.[0];
+    if (!email) continue;
+    const role = raw.match(CONTACT_ROLE)?.[1] ?? null;
+    const rest = raw
+      .replace(EMAIL, " ")
+      .replace(CONTACT_ROLE, " ")
+      .replace(/\b(?:questions|contacts?|please|email|reach)\b\??/gi, " ");
+    const name = rest.match(PERSON)?.[1] ?? null;
+    contacts.push({ name: name ?? email, role: role ? clean(role) : null, email });
+  }
+  return uniqueBy(contacts, (contact) => (contact.email ?? contact.name).toLowerCase());
+}
+
+export function extractFunderProfileHeuristically(text: string): FunderProfileDraft {
+  const rfp = mergeRfpPasses(splitIntoPasses(text).map(extractPassHeuristically));
+  return {
+    name: funderName(text),
+    mission: funderMission(text),
+    priorities: funderPriorities(text),
+    terminology: [],
+    evaluationCriteria: rfp.evaluationCriteria,
+    ...awardRange(text),
+    contacts: funderContacts(text),
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? uniqueBy(
+        value.map((item) => (typeof item === "string" ? clean(item) : "")).filter(Boolean),
+        keyOf,
+      )
+    : [];
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? clean(value) : null;
+}
+
+function dollarAmountToCents(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value * 100) : null;
+}
+
+/**
+ * Validate the model's JSON. Returns null when it holds nothing usable, so
+ * the caller can fall back to the heuristics.
+ */
+export function normalizeModelFunderProfile(raw: any): FunderProfileDraft | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  const evaluationCriteria: EvaluationCriterion[] = [];
+  for (const item of Array.isArray(raw.evaluationCriteria) ? raw.evaluationCriteria : []) {
+    const text = typeof item === "string" ? clean(item) : optionalString(item?.text);
+    if (text) evaluationCriteria.push({ text, weight: optionalString(item?.weight) });
+  }
+
+  const contacts: FunderContact[] = [];
+  for (const item of Array.isArray(raw.contacts) ? raw.contacts : []) {
+    const email = optionalString(item?.email);
+    const validEmail = email && EMAIL.test(email) ? email : null;
+    const name = optionalString(item?.name) ?? validEmail;
+    if (name) contacts.push({ name, role: optionalString(item?.role), email: validEmail });
+  }
+
+  let awardMin = dollarAmountToCents(raw.awardRange?.min);
+  const awardMax = dollarAmountToCents(raw.awardRange?.max);
+  if (awardMin != null && awardMax != null && awardMin > awardMax) awardMin = null;
+
+  const draft: FunderProfileDraft = {
+    name: optionalString(raw.name),
+    mission: optionalString(raw.mission),
+    priorities: stringList(raw.priorities),
+    terminology: stringList(raw.terminology),
+    evaluationCriteria: uniqueBy(evaluationCriteria, (criterion) => keyOf(criterion.text)),
+    awardMin,
+    awardMax,
+    contacts: uniqueBy(contacts, (contact) => (contact.email ?? contact.name).toLowerCase()),
+  };
+  const found = draft.name || draft.mission || draft.priorities.length || draft.evaluationCriteria.length;
+  return found ? draft : null;
+}
+
+/**
+ * Fold a draft read from a document into a saved profile. Whatever the
+ * writer already entered is kept; lists gain the items they lack.
+ */
+export function mergeFunderProfile(funder: Funder, draft: FunderProfileDraft): Partial<Funder> {
+  const list = <T>(existing: unknown, added: T[], key: (item: T) => string) =>
+    uniqueBy([...((existing as T[] | null) ?? []), ...added], key);
+  return {
+    mission: funder.mission ?? draft.mission,
+    priorities: list(funder.priorities, draft.priorities, keyOf),
+    terminology: list(funder.terminology, draft.terminology, keyOf),
+    evaluationCriteria: list(funder.evaluationCriteria, draft.evaluationCriteria, (criterion) => keyOf(criterion.text)),
+    awardMin: funder.awardMin ?? draft.awardMin,
+    awardMax: funder.awardMax ?? draft.awardMax,
+    contacts: list(funder.contacts, draft.contacts, (contact) => (contact.email ?? contact.name).toLowerCase()),
+  };
+}
+
+export function funderBrief(funder: Funder): FunderBrief {
+  return {
+    name: funder.name,
+    mission: funder.mission,
+    priorities: (funder.priorities as string[] | null) ?? [],
+    terminology: (funder.terminology as string[] | null) ?? [],
+    evaluationCriteria: (funder.evaluationCriteria as EvaluationCriterion[] | null) ?? [],
+    awardRange: formatAwardRange(funder.awardMin, funder.awardMax),
+  };
+}
+
+/** The "Funder" block of the generation prompt. */
+export function formatFunderBrief(brief: FunderBrief): string {
+  const criteria = brief.evaluationCriteria.map(
+    (criterion) => `- ${criterion.text}${criterion.weight ? ` (${criterion.weight})` : ""}`,
+  );
+  return [
+    `Funder: ${brief.name}`,
+    brief.mission ? `Funder mission: ${brief.mission}` : "",
+    brief.priorities.length ? `Funder priorities:\n${brief.priorities.map((p) => `- ${p}`).join("\n")}` : "",
+    criteria.length ? `Evaluation criteria the funder scores:\n${criteria.join("\n")}` : "",
+    brief.terminology.length ? `Funder's preferred terms: ${brief.terminology.join("; ")}` : "",
+    brief.awardRange ? `Typical award: ${brief.awardRange}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export const FUNDER_PROFILE_INSTRUCTIONS = `You read a funder's RFP, request for proposals or grantmaking guidelines and describe the funder. Report only what the document states; leave a field empty rather than guess.
+
+Return ONLY a JSON object with these fields:
+- name (string or null): the funder's name, e.g. "Riverside Community Foundation"
+- mission (string or null): the funder's mission or purpose, one or two sentences
+- priorities (array of strings): what the funder wants to fund, each a short phrase in the funder's words (e.g. "Food access in rural communities")
+- terminology (array of strings): words or phrases the funder uses for its key concepts and would expect applicants to use (e.g. "participants" rather than "clients", "BIPOC-led organizations"); at most 12
+- evaluationCriteria (array): how applications are scored, each { text, weight } where weight is the points or percentage as stated ("25 points", "30%") or null
+- awardRange: { min, max } typical award in US dollars as plain numbers (e.g. { "min": 25000, "max": 100000 }); null for a bound the document does not state
+- contacts (array): staff applicants may contact, each { name, role, email }; null for anything not stated`;
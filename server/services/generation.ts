@@ -0,0 +1,556 @@
+/**
+ * Grounded answer generation pipeline shared by the JSON and streaming
+ * generate endpoints.
+ *
+ * The route owns request validation, access checks and the billing gate; this
+ * module owns everything between "the user may generate" and "the question row
+ * reflects the outcome": settings resolution, retrieval, prompt inputs, and
+ * persistence of citations, assumption labels, usage, versions and status.
+ */
+
+import { storage } from "../storage.js";
+import { retrieveRelevantChunks } from "./retrieval.js";
+import { factAsRetrievedChunk, factSheet } from "./organizationFacts.js";
+import { funderBrief } from "./funderProfiles.js";
+import { exemplarsForPrompt, loadLibraryExemplars } from "./answerLibrary.js";
+import { billingService, calculateCostCents, estimateTokensFromText } from "./billing.js";
+import { resolveModelChain } from "./llm.js";
+import { verifyQuestionClaims } from "./claimVerification.js";
+import { recordGenerationAudit } from "./generationAudit.js";
+import { aiService, type GeneratedGroundedResponse, type GenerateGroundedResponseOptions } from "./ai.js";
+import type { GrantQuestion, Project } from "../../shared/schema.js";
+import { providerForModel } from "../../shared/ai-models.js";
+import { limitInWords, normalizeLimitType } from "../../shared/answer-limits.js";
+import { citationPages } from "../../shared/citation-source.js";
+
+/** Budget for the per-document summaries sent with every prompt. */
+export const CONTEXT_SUMMARY_MAX_CHARS = 6000;
+
+export interface GenerationSettings {
+  tone: string;
+  emphasisAreas: string[];
+  lengthPreference: string;
+  creativity: number;
+  contextUsage: number;
+  audience: string;
+  answerStructure: string;
+  claimConfidence: string;
+  aiModel: string | null;
+  fallbackModel: string | null;
+}
+
+export type RetrievalResult = Awaited<ReturnType<typeof retrieveRelevantChunks>>;
+
+function clampInt(n: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(n), min), max);
+}
+
+export function computeMaxOutputTokens(
+  wordLimit?: number | null,
+  lengthPreference?: string | null,
+  limitType?: string | null
+): number {
+  if (wordLimit) {
+    return Math.min(Math.max(limitInWords(wordLimit, normalizeLimitType(limitType)), 1) * 3, 2500);
+  }
+  switch (lengthPreference) {
+    case "concise":
+      return 900;
+    case "comprehensive":
+      return 2400;
+    default:
+      return 1500;
+  }
+}
+
+export function retrievalLimitsFromContextUsage(contextUsage: number | undefined | null): {
+  limit: number;
+  semanticLimit: number;
+  keywordLimit: number;
+} {
+  const ctx = typeof contextUsage === "number" && Number.isFinite(contextUsage) ? contextUsage : 80;
+  const t = Math.min(Math.max(ctx, 0), 100) / 100;
+  const scale = 0.55 + t * 0.65;
+  const limit = clampInt(8 * scale, 4, 14);
+  const semanticLimit = limit;
+  const keywordLimit = clampInt(4 * scale, 2, 8);
+  return { limit, semanticLimit, keywordLimit };
+}
+
+function estimateContextCharsForBilling(contextUsage: number | undefined | null): number {
+  const { limit } = retrievalLimitsFromContextUsage(contextUsage);
+  return Math.round(2500 * limit);
+}
+
+export function estimateGenerationTokens(input: {
+  question: string;
+  tone: string;
+  wordLimit?: number | null;
+  limitType?: string | null;
+  emphasisAreas?: string[];
+  contextUsage?: number | null;
+  lengthPreference?: string | null;
+}) {
+  const maxTokens = computeMaxOutputTokens(input.wordLimit, input.lengthPreference, input.limitType);
+  const contextChars = estimateContextCharsForBilling(input.contextUsage);
+  const estimatedPrompt = [
+    input.question,
+    input.tone,
+    input.wordLimit ? String(input.wordLimit) : "",
+    input.emphasisAreas?.join(", ") ?? "",
+    input.lengthPreference ?? "",
+    "x".repeat(contextChars),
+  ].join("\n");
+  return estimateTokensFromText(estimatedPrompt) + maxTokens;
+}
+
+/**
+ * Merge saved user settings with per-request overrides (tone, emphasisAreas).
+ */
+export async function resolveGenerationSettings(
+  userId: string,
+  body: { tone?: unknown; emphasisAreas?: unknown } | undefined,
+): Promise<GenerationSettings> {
+  const savedSettings = await storage.getUserSettings(userId);
+  const bodyTone = typeof body?.tone === "string" ? body.tone : undefined;
+  const bodyEmphasis = Array.isArray(body?.emphasisAreas) ? body.emphasisAreas : undefined;
+  return {
+    tone: bodyTone ?? savedSettings?.defaultTone ?? "professional",
+    emphasisAreas:
+      bodyEmphasis && bodyEmphasis.length > 0
+        ? bodyEmphasis.filter((a: unknown): a is string => typeof a === "string")
+        : savedSettings?.emphasisAreas ?? [],
+    lengthPreference: savedSettings?.lengthPreference ?? "balanced",
+    creativity: savedSettings?.creativity ?? 30,
+    contextUsage: savedSettings?.contextUsage ?? 80,
+    audience: savedSettings?.audience ?? "program_officer",
+    answerStructure: savedSettings?.answerStructure ?? "prose",
+    claimConfidence: savedSettings?.claimConfidence ?? "balanced",
+    aiModel: savedSettings?.aiModel ?? null,
+    fallbackModel: savedSettings?.fallbackModel ?? null,
+  };
+}
+
+/** Answer library entries the request names as exemplars. */
+export function requestedExemplarIds(body: { exemplarIds?: unknown } | undefined): string[] {
+  if (!Array.isArray(body?.exemplarIds)) return [];
+  return body.exemplarIds.filter((id: unknown): id is string => typeof id === "string" && id.length > 0).slice(0, 3);
+}
+
+/**
+ * Document summaries for the prompt, whole summaries only, up to
+ * CONTEXT_SUMMARY_MAX_CHARS. Details belong in retrieved chunks.
+ */
+export function boundedContextSummary(lines: string[], maxChars = CONTEXT_SUMMARY_MAX_CHARS): string {
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = line.length + (kept.length ? 1 : 0);
+    if (used + cost > maxChars) {
+      // A first summary longer than the budget is cut rather than dropped.
+      if (!kept.length) kept.push(`${line.slice(0, maxChars - 1).trimEnd()}…`);
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  return kept.join("\n");
+}
+
+/**
+ * Retrieve context and assemble the options handed to the AI service.
+ * `query` overrides the retrieval query (default: the question itself).
+ */
+export async function prepareGroundedGeneration(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  settings: GenerationSettings;
+  query?: string;
+  /** false when the caller supplies its own context (e.g. the answer's cited chunks) */
+  retrieve?: boolean;
+  /** Context that must reach the prompt whatever retrieval finds (e.g. a fact being applied) */
+  pinnedChunks?: RetrievalResult["chunks"];
+  /** Answer library entries to model the answer on; their cited chunks are pinned too */
+  exemplarIds?: string[];
+}): Promise<{ options: GenerateGroundedResponseOptions; retrievalResult: RetrievalResult }> {
+  const { userId, project, question, settings } = params;
+  const questionId = question.id;
+  const query = params.query?.trim() || question.question;
+
+  // Get user context from documents
+  const documents = await storage.getDocumentsForOrganization(userId, project.organizationId, project.id).catch((err) => {
+    console.warn(`[generate] getDocuments failed:`, err);
+    return [] as Awaited<ReturnType<typeof storage.getDocumentsForOrganization>>;
+  });
+
+  const processedDocs = documents.filter((doc) => doc.processed && doc.summary);
+  const organizationContext = boundedContextSummary(
+    processedDocs.map((doc) => `${doc.originalName}: ${doc.summary}`),
+  );
+
+  // Retrieval requires the document pipeline tables (doc_chunks, etc.).
+  // If that migration hasn't been applied to the connected DB, we don't
+  // want to fail the whole generation — fall back to no chunks.
+  const retrievalLimits = retrievalLimitsFromContextUsage(settings.contextUsage);
+  let retrievalResult: RetrievalResult = {
+    query,
+    chunks: [],
+    embeddingGenerated: false,
+  };
+  if (params.retrieve !== false) {
+    try {
+      retrievalResult = await retrieveRelevantChunks({
+        userId,
+        organizationId: project.organizationId,
+        projectId: project.id,
+        query,
+        limit: retrievalLimits.limit,
+        semanticLimit: retrievalLimits.semanticLimit,
+        keywordLimit: retrievalLimits.keywordLimit,
+      });
+    } catch (retrievalErr) {
+      console.warn(`[generate] retrieveRelevantChunks failed, continuing without context:`, retrievalErr);
+    }
+
+    const topSimilarity = retrievalResult.chunks[0]?.similarity;
+    const semanticCount = retrievalResult.chunks.filter((c) => c.source === "semantic").length;
+    const keywordCount = retrievalResult.chunks.filter((c) => c.source === "keyword").length;
+    console.log(
+      `[generate q=${questionId}] retrieved ${retrievalResult.chunks.length} chunks ` +
+        `(semantic=${semanticCount}, keyword=${keywordCount}, ` +
+        `topSim=${typeof topSimilarity === "number" ? topSimilarity.toFixed(2) : "n/a"}, ` +
+        `embeddingGenerated=${retrievalResult.embeddingGenerated})`
+    );
+  }
+
+  const library = params.exemplarIds?.length
+    ? await loadLibraryExemplars(params.exemplarIds, project.organizationId)
+    : { entries: [], chunks: [] };
+  const pinned = [...(params.pinnedChunks ?? [])];
+  const isPinned = (chunk: RetrievalResult["chunks"][number]) =>
+    pinned.some((p) => p.documentId === chunk.documentId && p.chunkIndex === chunk.chunkIndex);
+  pinned.push(...library.chunks.filter((chunk) => !isPinned(chunk)));
+  if (pinned.length) {
+    retrievalResult = {
+      ...retrievalResult,
+      chunks: [...pinned, ...retrievalResult.chunks.filter((chunk) => !isPinned(chunk))],
+    };
+  }
+
+  // The fact sheet reaches every prompt, after whatever retrieval found.
+  const facts = await storage.getOrganizationFacts(project.organizationId, project.id).catch((err) => {
+    console.warn(`[generate] getOrganizationFacts failed:`, err);
+    return [];
+  });
+  const sheet = factSheet(facts)
+    .map((fact) => factAsRetrievedChunk(fact))
+    .filter(
+      (fact) =>
+        !retrievalResult.chunks.some((chunk) => chunk.documentId === fact.documentId && chunk.chunkIndex === fact.chunkIndex),
+    );
+
+  const user = await storage.getUser(userId).catch(() => undefined);
+  const organization = await storage.getOrganization(project.organizationId).catch(() => undefined);
+  const endpoint = await storage.getOrganizationAiEndpoint(project.organizationId);
+  const funder = project.funderId ? await storage.getFunder(project.funderId).catch(() => undefined) : undefined;
+  const promptChunks = [...retrievalResult.chunks, ...sheet];
+
+  // Explicit allowlist of fields handed to the LLM. The previous
+  // `...user` spread leaked the entire user row (including
+  // password hash columns, supabase auth metadata, and
+  // unrelated profile fields) into the prompt JSON. Keep this
+  // narrow — anything else the prompt needs should be added
+  // here intentionally.
+  const options: GenerateGroundedResponseOptions = {
+    question: question.question,
+    tone: settings.tone,
+    wordLimit: question.wordLimit || undefined,
+    limitType: normalizeLimitType(question.limitType),
+    emphasisAreas: settings.emphasisAreas,
+    lengthPreference: settings.lengthPreference,
+    creativity: settings.creativity,
+    audience: settings.audience,
+    answerStructure: settings.answerStructure,
+    claimConfidence: settings.claimConfidence,
+    model: settings.aiModel,
+    fallbackModel: settings.fallbackModel,
+    endpoint,
+    organizationInfo: {
+      organizationName: organization?.name ?? user?.organizationName ?? null,
+      organizationType: organization?.organizationType ?? user?.organizationType ?? null,
+      mission: organization?.mission ?? user?.mission ?? null,
+      focusAreas: organization?.focusAreas ?? user?.focusAreas ?? null,
+      primaryContact: organization?.primaryContact ?? user?.primaryContact ?? null,
+      email: organization?.contactEmail ?? user?.email ?? null,
+      contextSummary: organizationContext,
+    },
+    funder: funder ? funderBrief(funder) : null,
+    exemplars: exemplarsForPrompt(library.entries, promptChunks),
+    retrievedChunks: promptChunks.map((chunk) => ({
+      documentName: chunk.documentName,
+      documentId: chunk.documentId,
+      content: chunk.content,
+      chunkIndex: chunk.chunkIndex,
+      similarity: chunk.similarity,
+      chunkId: chunk.chunkId,
+      ...citationPages(chunk),
+    })),
+  };
+
+  return { options, retrievalResult };
+}
+
+/**
+ * Replace a question's open gaps with the `assumptions` of its new answer.
+ * Answered gaps stay: they record that the writer closed them.
+ */
+export async function replaceAssumptionLabels(
+  projectId: string,
+  questionId: string,
+  assumptions: GeneratedGroundedResponse["assumptions"] | undefined,
+): Promise<void> {
+  for (const label of await storage.getAssumptionLabels(projectId, questionId)) {
+    if (!label.factId) await storage.deleteAssumptionLabel(label.id);
+  }
+  for (const raw of assumptions || []) {
+    const assumptionText =
+      typeof raw === "string"
+        ? raw.trim()
+        : typeof (raw as any)?.text === "string"
+          ? (raw as any).text.trim()
+          : "";
+    if (!assumptionText) continue;
+    await storage.createAssumptionLabel({
+      projectId,
+      draftId: questionId,
+      text: assumptionText,
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: assumptionText,
+      position: { start: 0, end: 0 },
+    });
+  }
+}
+
+/**
+ * Persist a grounded result: citations, assumption labels, usage, a new
+ * response version with its generation audit, and the question's final
+ * response/status. `options` is the prompt input `grounded` was generated from.
+ */
+export async function persistGroundedGeneration(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  settings: GenerationSettings;
+  options: GenerateGroundedResponseOptions;
+  grounded: GeneratedGroundedResponse;
+  retrievalResult: RetrievalResult;
+  estimatedTokens: number;
+}) {
+  const { userId, project, question, settings, options, grounded, retrievalResult, estimatedTokens } = params;
+  const questionId = question.id;
+  const projectId = project.id;
+
+  const [preferredModel] = resolveModelChain({ model: settings.aiModel, fallbackModel: settings.fallbackModel });
+  const usage = grounded.usage ?? {
+    provider: providerForModel(preferredModel),
+    model: preferredModel,
+    tokensIn: estimatedTokens,
+    tokensOut: 0,
+  };
+
+  // Persist citations/assumptions best-effort. These tables are not
+  // strictly required for the user to see a generated response; a
+  // missing-table / schema-drift error here should not 500 the request.
+  try {
+    await storage.deleteDraftCitations(questionId);
+    for (const citation of grounded.citations || []) {
+      if (!citation.documentId) continue;
+      await storage.createDraftCitation({
+        draftId: questionId,
+        section: "response",
+        sourceDocumentId: citation.documentId,
+        chunkRefs: [
+          {
+            chunkIndex: citation.chunkIndex ?? 0,
+            quote: citation.quote ?? "",
+            ...citationPages(citation),
+          },
+        ],
+      });
+    }
+  } catch (citationErr) {
+    console.warn(`[generate] Failed to persist draft citations:`, citationErr);
+  }
+
+  try {
+    await replaceAssumptionLabels(projectId, questionId, grounded.assumptions);
+  } catch (assumptionErr) {
+    console.warn(`[generate] Failed to persist assumption labels:`, assumptionErr);
+  }
+
+  const responseText = (grounded.text || '').trim();
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId,
+    type: "generation",
+    provider: usage.provider,
+    model: usage.model,
+    tokensIn: usage.tokensIn,
+    tokensOut: usage.tokensOut,
+    costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
+    metadata: {
+      questionId,
+      responseStatus: "attempted",
+    },
+  });
+
+  // Determine the status based on the response type
+  let responseStatus: string;
+  let errorMessage: string | null = null;
+  if (!retrievalResult.chunks.length) {
+    responseStatus = "needs_context";
+    errorMessage = "No relevant document context found. Upload more documents or refine the question.";
+  } else if (grounded.text?.includes("Unable to complete a grounded draft")) {
+    responseStatus = "failed";
+    errorMessage = "AI service unavailable; provided excerpts instead.";
+  } else if (grounded.text?.includes("Using available snippets")) {
+    responseStatus = "needs_context";
+    errorMessage = "Limited context available; refine uploads for a stronger draft.";
+  } else {
+    responseStatus = "complete";
+  }
+
+  console.log(`Setting response status to: ${responseStatus} for question ${questionId}`);
+
+  // Create response version (best-effort)
+  try {
+    const versions = await storage.getResponseVersions(questionId);
+    const nextVersion = versions.length + 1;
+    const version = await storage.createResponseVersion(questionId, responseText, settings.tone, nextVersion);
+    await recordGenerationAudit({ userId, project, version, operation: "generate", settings, options, grounded, usage });
+  } catch (versionErr) {
+    console.warn(`[generate] Failed to persist response version:`, versionErr);
+  }
+
+  // Update question with response and status
+  const updatedQuestion = await storage.updateGrantQuestion(questionId, {
+    response: responseText,
+    responseStatus,
+    ...(errorMessage && { errorMessage })
+  });
+
+  // Verdicts are also computed lazily by the Evidence Map; doing it here just
+  // means the first map load after a draft doesn't pay for it.
+  if (updatedQuestion && responseStatus === "complete") {
+    try {
+      await verifyQuestionClaims(updatedQuestion);
+    } catch (verifyErr) {
+      console.warn(`[generate] Failed to verify claims:`, verifyErr);
+    }
+  }
+
+  return { updatedQuestion, responseStatus, errorMessage };
+}
+
+/**
+ * Bill a streamed generation that ended without a result (the client
+ * disconnected, or the stream failed): the prompt at its estimate, and the
+ * text already sent at its estimated token count.
+ */
+export async function recordStreamedUsage(params: {
+  userId: string;
+  project: Project;
+  questionId: string;
+  settings: GenerationSettings;
+  estimatedTokens: number;
+  streamedText: string;
+  responseStatus: string;
+}): Promise<void> {
+  const { userId, project, questionId, settings, estimatedTokens, streamedText, responseStatus } = params;
+  const [model] = resolveModelChain({ model: settings.aiModel, fallbackModel: settings.fallbackModel });
+  const tokensOut = estimateTokensFromText(streamedText);
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId: project.id,
+    type: "generation",
+    provider: providerForModel(model),
+    model,
+    tokensIn: estimatedTokens,
+    tokensOut,
+    costCents: calculateCostCents(model, estimatedTokens, tokensOut),
+    metadata: { questionId, responseStatus },
+  });
+}
+
+/**
+ * Map an AI-call failure onto the question status/message shown to the user.
+ */
+export function classifyGenerationFailure(aiError: any): { failureStatus: string; errorMessage: string } {
+  if (aiError?.message?.includes('timeout') || aiError?.name === 'AbortError') {
+    return {
+      failureStatus: "timeout",
+      errorMessage: "Request timed out - the AI service took too long to respond",
+    };
+  }
+  if (aiError?.code === 'insufficient_quota' || aiError?.code === 'rate_limit_exceeded') {
+    return {
+      failureStatus: "failed",
+      errorMessage: "AI service rate limit reached - please try again later",
+    };
+  }
+  if (aiError?.code === 'invalid_api_key' || aiError?.status === 401) {
+    return { failureStatus: "failed", errorMessage: "AI service authentication error" };
+  }
+  return { failureStatus: "failed", errorMessage: "AI generation failed due to service error" };
+}
+
+/**
+ * Generate and persist one answer end to end, for callers without an HTTP
+ * response to shape (batch drafting). Failures never throw: they are recorded
+ * on the question and reported as `responseStatus` / `errorMessage`.
+ */
+export async function generateAnswerForQuestion(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  settings: GenerationSettings;
+}): Promise<{ responseStatus: string; errorMessage: string | null }> {
+  const { userId, project, question, settings } = params;
+  const estimatedTokens = estimateGenerationTokens({
+    question: question.question,
+    tone: settings.tone,
+    wordLimit: question.wordLimit,
+    limitType: question.limitType,
+    emphasisAreas: settings.emphasisAreas,
+    contextUsage: settings.contextUsage,
+    lengthPreference: settings.lengthPreference,
+  });
+
+  try {
+    await storage.updateGrantQuestion(question.id, { responseStatus: "generating" });
+    const { options, retrievalResult } = await prepareGroundedGeneration({ userId, project, question, settings });
+    const grounded = await aiService.generateGroundedResponse(options);
+    const { responseStatus, errorMessage } = await persistGroundedGeneration({
+      userId,
+      project,
+      question,
+      settings,
+      options,
+      grounded,
+      retrievalResult,
+      estimatedTokens,
+    });
+    return { responseStatus, errorMessage };
+  } catch (error) {
+    console.error(`[generate] Generation failed for question ${question.id}:`, error);
+    const { failureStatus, errorMessage } = classifyGenerationFailure(error);
+    await storage
+      .updateGrantQuestion(question.id, { responseStatus: failureStatus, errorMessage })
+      .catch((updateErr) => console.warn(`[generate] Could not record failure for ${question.id}:`, updateErr));
+    return { responseStatus: failureStatus, errorMessage };
+  }
+}
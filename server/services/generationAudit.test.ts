@@ -0,0 +1,106 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { generateAnswerForQuestion, type GenerationSettings } from "./generation.js";
+import { rerunGeneration } from "./generationAudit.js";
+import { describeGenerationRun } from "../../shared/generation-audit.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const settings: GenerationSettings = {
+  tone: "data-driven",
+  emphasisAreas: ["Impact & Outcomes"],
+  lengthPreference: "concise",
+  creativity: 50,
+  contextUsage: 80,
+  audience: "program_officer",
+  answerStructure: "prose",
+  claimConfidence: "balanced",
+  aiModel: "local-deterministic",
+  fallbackModel: "local-deterministic",
+};
+
+async function generated(userId: string) {
+  const project = await storage.createProject(userId, { title: "Audit", funder: "Funder" });
+  const document = await storage.createDocument(userId, {
+    organizationId: project.organizationId,
+    filename: "annual-report.txt",
+    originalName: "Annual report.txt",
+    fileType: "text/plain",
+    fileSize: 120,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, {
+    chunkIndex: 0,
+    // Without an embedding model retrieval falls back to matching the question text.
+    content: "Families served. The food pantry served 1,240 families in 2025, most of them first-time clients.",
+    tokenCount: 16,
+  });
+  const question = await storage.createGrantQuestion(project.id, { question: "Families served" });
+  await generateAnswerForQuestion({ userId, project, question, settings });
+  const [version] = await storage.getResponseVersions(question.id);
+  return { project, document, question, version };
+}
+
+describe("describeGenerationRun", () => {
+  it("summarizes model, temperature, tokens and latency", () => {
+    expect(describeGenerationRun({ model: "gpt-4o", temperature: 0.366, tokensIn: 1204, tokensOut: 310, latencyMs: 2400 })).toBe(
+      "gpt-4o · temp 0.37 · 1,204 → 310 tokens · 2.4s",
+    );
+    expect(describeGenerationRun({ model: "gpt-4o", temperature: null, tokensIn: 0, tokensOut: 0, latencyMs: null })).toBe(
+      "gpt-4o · 0 → 0 tokens",
+    );
+  });
+});
+
+describe("generation audits", () => {
+  it("records the model, settings and chunks behind a generated version", async () => {
+    const { project, document, question, version } = await generated("audit-record");
+    expect(version).toBeDefined();
+
+    const audit = await storage.getGenerationAuditForVersion(version.id);
+    expect(audit).toMatchObject({
+      projectId: project.id,
+      questionId: question.id,
+      operation: "generate",
+      provider: "local",
+      model: "local-deterministic",
+      settings: { tone: "data-driven", creativity: 50, lengthPreference: "concise" },
+    });
+    expect(audit!.temperature).toBeCloseTo(0.51);
+    expect(audit!.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(audit!.chunks).toContainEqual(
+      expect.objectContaining({ documentId: document.id, chunkIndex: 0, chunkId: expect.any(String) }),
+    );
+    expect(audit!.request).toMatchObject({ question: question.question, tone: "data-driven" });
+    expect(audit!.request).not.toHaveProperty("endpoint");
+    expect(await storage.getGenerationAudits(question.id)).toHaveLength(1);
+  });
+
+  it("re-runs a version on its recorded inputs without changing the answer", async () => {
+    const userId = "audit-rerun";
+    const { project, question, version } = await generated(userId);
+    const audit = (await storage.getGenerationAuditForVersion(version.id))!;
+    const before = await storage.getGrantQuestion(question.id);
+
+    const result = await rerunGeneration({ userId, project, audit, version, estimatedTokens: 100 });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.rerun).toMatchObject({
+      model: "local-deterministic",
+      original: { versionId: version.id, version: 1, text: version.content, model: "local-deterministic" },
+    });
+    // Deterministic model, identical inputs: identical text.
+    expect(result.rerun.text).toBe(version.content);
+    expect(await storage.getGrantQuestion(question.id)).toEqual(before);
+    expect(await storage.getResponseVersions(question.id)).toHaveLength(1);
+
+    expect(await rerunGeneration({ userId, project, audit, version, model: "not-a-model", estimatedTokens: 100 })).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Generation audits: one row per response version a model wrote, recording
+ * the model, sampling temperature, the writer's tuning, the chunks the model
+ * was shown (with their retrieval scores), token counts, latency and the
+ * assumptions it returned.
+ *
+ * The prompt input is stored as sent, minus the organization's endpoint
+ * credentials, so a past generation can be re-run on identical inputs to
+ * compare models or prompt changes. A re-run is a comparison only: it never
+ * changes the answer.
+ */
+
+import { storage } from "../storage.js";
+import { aiService, type GeneratedGroundedResponse, type GenerateGroundedResponseOptions } from "./ai.js";
+import { billingService, calculateCostCents } from "./billing.js";
+import { canServeModels } from "./llm.js";
+import { CHAT_MODELS } from "../../shared/ai-models.js";
+import type { AuditChunk, AuditSettings, GenerationOperation, GenerationRerun } from "../../shared/generation-audit.js";
+import type { GenerationAudit, Project, ResponseVersion } from "../../shared/schema.js";
+
+/** The recorded prompt input. Models come from `settings`; the endpoint is looked up at re-run time. */
+export type RecordedRequest = Omit<GenerateGroundedResponseOptions, "endpoint" | "model" | "fallbackModel">;
+
+type Usage = NonNullable<GeneratedGroundedResponse["usage"]>;
+
+export function auditChunks(chunks: GenerateGroundedResponseOptions["retrievedChunks"]): AuditChunk[] {
+  return chunks.map((chunk) => ({
+    chunkId: chunk.chunkId ?? null,
+    documentId: chunk.documentId,
+    documentName: chunk.documentName,
+    chunkIndex: chunk.chunkIndex,
+    similarity: typeof chunk.similarity === "number" ? chunk.similarity : null,
+  }));
+}
+
+/**
+ * Record what produced `version`. Best-effort: a failure is logged and never
+ * undoes the generation it describes.
+ */
+export async function recordGenerationAudit(params: {
+  userId: string;
+  project: Project;
+  version: ResponseVersion;
+  operation: GenerationOperation;
+  settings: AuditSettings;
+  options: GenerateGroundedResponseOptions;
+  grounded: GeneratedGroundedResponse;
+  usage: Usage;
+}): Promise<GenerationAudit | undefined> {
+  const { userId, project, version, operation, settings, options, grounded, usage } = params;
+  const { endpoint: _endpoint, model: _model, fallbackModel: _fallbackModel, ...request } = options;
+  try {
+    return await storage.createGenerationAudit({
+      projectId: project.id,
+      questionId: version.questionId,
+      responseVersionId: version.id,
+      operation,
+      provider: usage.provider,
+      model: usage.model,
+      temperature: grounded.temperature ?? null,
+      settings,
+      chunks: auditChunks(options.retrievedChunks),
+      tokensIn: usage.tokensIn,
+      tokensOut: usage.tokensOut,
+      latencyMs: grounded.latencyMs ?? null,
+      assumptions: grounded.assumptions ?? [],
+      request: request satisfies RecordedRequest,
+      createdBy: userId,
+    });
+  } catch (err) {
+    console.warn(`[audit] Failed to record generation audit for version ${version.id}:`, err);
+    return undefined;
+  }
+}
+
+export type RerunResult = { ok: true; rerun: GenerationRerun } | { ok: false; status: number; error: string };
+
+/**
+ * Send `audit`'s recorded prompt input to a model again: the model it was
+ * generated with, or `model` to compare another. For a passage rewrite the
+ * result is the new passage only.
+ */
+export async function rerunGeneration(params: {
+  userId: string;
+  project: Project;
+  audit: GenerationAudit;
+  version: ResponseVersion;
+  model?: string | null;
+  estimatedTokens: number;
+}): Promise<RerunResult> {
+  const { userId, project, audit, version, model, estimatedTokens } = params;
+  if (model && !CHAT_MODELS.some((option) => option.id === model)) {
+    return { ok: false, status: 400, error: `Unknown model: ${model}` };
+  }
+
+  const settings = audit.settings as AuditSettings;
+  const request = audit.request as RecordedRequest;
+  const options: GenerateGroundedResponseOptions = {
+    ...request,
+    model: model || settings.aiModel,
+    // A named model is compared on its own, without falling back to another.
+    fallbackModel: model ? null : settings.fallbackModel,
+    endpoint: await storage.getOrganizationAiEndpoint(project.organizationId),
+  };
+  if (!canServeModels(options)) {
+    return { ok: false, status: 503, error: "AI generation is not configured on this deployment" };
+  }
+
+  const operation = audit.operation as GenerationOperation;
+  let grounded: GeneratedGroundedResponse;
+  if (operation === "passage" && options.passage) {
+    grounded = await aiService.regeneratePassage({ ...options, passage: options.passage });
+  } else if (operation === "adapt" && options.adapt) {
+    grounded = await aiService.adaptAnswer({ ...options, adapt: options.adapt });
+  } else if (operation === "fit" && options.fit) {
+    grounded = await aiService.fitToLength({ ...options, fit: options.fit });
+  } else {
+    grounded = await aiService.generateGroundedResponse(options);
+  }
+  // generateGroundedResponse answers with source excerpts when every model fails.
+  if (!grounded.usage) {
+    return { ok: false, status: 502, error: "The model did not return an answer" };
+  }
+
+  const usage = grounded.usage;
+  const tokensIn = usage.tokensIn || estimatedTokens;
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId: project.id,
+    type: "generation",
+    provider: usage.provider,
+    model: usage.model,
+    tokensIn,
+    tokensOut: usage.tokensOut,
+    costCents: calculateCostCents(usage.model, tokensIn, usage.tokensOut),
+    metadata: { questionId: version.questionId, rerunOf: version.id },
+  });
+
+  return {
+    ok: true,
+    rerun: {
+      text: grounded.text.trim(),
+      assumptions: grounded.assumptions ?? [],
+      provider: usage.provider,
+      model: usage.model,
+      temperature: grounded.temperature ?? null,
+      tokensIn: usage.tokensIn,
+      tokensOut: usage.tokensOut,
+      latencyMs: grounded.latencyMs ?? null,
+      original: {
+        versionId: version.id,
+        version: version.version,
+        text: version.content,
+        model: audit.model,
+        temperature: audit.temperature,
+        tokensIn: audit.tokensIn,
+        tokensOut: audit.tokensOut,
+        latencyMs: audit.latencyMs,
+      },
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * "Draft all unanswered" batches.
+ *
+ * A batch is a durable record (generation_batches + one generation_batch_items
+ * row per question) driven by an in-process runner with bounded concurrency.
+ * The rows are the progress resource the UI polls; the runner only claims
+ * queued items, so cancelling flips the batch and its queued items to
+ * "cancelled" while items already running finish and keep their answers.
+ *
+ * A runner lives as long as its process. If that process goes away (a
+ * serverless instance is recycled), the batch stops heartbeating and is
+ * treated as stale: the next batch request for the project closes it out and
+ * re-queues whatever is still unanswered.
+ */
+
+import { storage } from "../storage.js";
+import {
+  estimateGenerationTokens,
+  generateAnswerForQuestion,
+  type GenerationSettings,
+} from "./generation.js";
+import type { GenerationBatch, GenerationBatchItem, GrantQuestion, Project } from "../../shared/schema.js";
+
+/** Question statuses a batch drafts. */
+export const UNANSWERED_STATUSES: ReadonlySet<string> = new Set(["pending", "failed", "timeout"]);
+
+const DEFAULT_CONCURRENCY = Number(process.env.GENERATION_BATCH_CONCURRENCY || "3");
+const MAX_CONCURRENCY = 5;
+
+/** A running batch without a heartbeat for this long is assumed orphaned. */
+export const STALE_BATCH_MS = 15 * 60 * 1000;
+
+export type GenerationBatchItemStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface GenerationBatchProgress {
+  id: string;
+  projectId: string;
+  status: string;
+  concurrency: number;
+  estimatedTokens: number;
+  counts: Record<GenerationBatchItemStatus, number>;
+  items: Array<{
+    questionId: string;
+    status: string;
+    /** The question's status once drafted (complete, needs_context, failed, timeout). */
+    responseStatus: string | null;
+    error: string | null;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+  }>;
+  createdAt: Date | null;
+  finishedAt: Date | null;
+}
+
+const runners = new Map<string, Promise<void>>();
+
+export function selectUnansweredQuestions(questions: GrantQuestion[]): GrantQuestion[] {
+  return questions.filter((question) => UNANSWERED_STATUSES.has(question.responseStatus ?? "pending"));
+}
+
+/** Caps client-supplied concurrency to 1..MAX_CONCURRENCY (default from GENERATION_BATCH_CONCURRENCY). */
+export function clampBatchConcurrency(raw: unknown): number {
+  const n = typeof raw === "string" || typeof raw === "number" ? Number(raw) : NaN;
+  const requested = Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_CONCURRENCY;
+  return Math.min(Math.max(requested, 1), MAX_CONCURRENCY);
+}
+
+/** Sum of the per-question estimates the single generate route checks against the budget. */
+export function estimateBatchTokens(questions: GrantQuestion[], settings: GenerationSettings): number {
+  return questions.reduce(
+    (total, question) =>
+      total +
+      estimateGenerationTokens({
+        question: question.question,
+        tone: settings.tone,
+        wordLimit: question.wordLimit,
+        limitType: question.limitType,
+        emphasisAreas: settings.emphasisAreas,
+        contextUsage: settings.contextUsage,
+        lengthPreference: settings.lengthPreference,
+      }),
+    0,
+  );
+}
+
+export function isBatchActive(batch: GenerationBatch | undefined, now = Date.now()): boolean {
+  if (!batch || batch.status !== "running") return false;
+  const heartbeat = batch.updatedAt ?? batch.createdAt;
+  return !heartbeat || now - new Date(heartbeat).getTime() < STALE_BATCH_MS;
+}
+
+export async function getGenerationBatchProgress(batch: GenerationBatch): Promise<GenerationBatchProgress> {
+  const items = await storage.getGenerationBatchItems(batch.id);
+  const counts: GenerationBatchProgress["counts"] = { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+  for (const item of items) {
+    if (item.status in counts) counts[item.status as GenerationBatchItemStatus] += 1;
+  }
+  return {
+    id: batch.id,
+    projectId: batch.projectId,
+    status: batch.status,
+    concurrency: batch.concurrency,
+    estimatedTokens: batch.estimatedTokens,
+    counts,
+    items: items.map((item) => ({
+      questionId: item.questionId,
+      status: item.status,
+      responseStatus: item.responseStatus,
+      error: item.error,
+      startedAt: item.startedAt,
+      finishedAt: item.finishedAt,
+    })),
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt,
+  };
+}
+
+/**
+ * Close out a batch whose runner is gone: queued items are cancelled and
+ * items stuck "running" are failed, releasing their questions from
+ * "generating" so a new batch picks them up.
+ */
+export async function closeStaleBatch(batch: GenerationBatch): Promise<void> {
+  await storage.cancelGenerationBatch(batch.id);
+  const error = "Interrupted before the draft finished";
+  for (const item of await storage.getGenerationBatchItems(batch.id)) {
+    if (item.status !== "running") continue;
+    await storage.updateGenerationBatchItem(item.id, { status: "failed", error, finishedAt: new Date() });
+    const question = await storage.getGrantQuestion(item.questionId);
+    if (question?.responseStatus === "generating") {
+      await storage.updateGrantQuestion(item.questionId, { responseStatus: "failed", errorMessage: error });
+    }
+  }
+  await storage.updateGenerationBatch(batch.id, { finishedAt: new Date() });
+}
+
+/**
+ * Record a batch for `questions` and start drafting them in the background.
+ * The caller has already checked access and the ai_tokens budget. Undefined,
+ * with nothing started, when the project already has a running batch.
+ */
+export async function startGenerationBatch(params: {
+  userId: string;
+  project: Project;
+  questions: GrantQuestion[];
+  settings: GenerationSettings;
+  estimatedTokens: number;
+  concurrency: number;
+}): Promise<GenerationBatch | undefined> {
+  const { userId, project, questions, settings, estimatedTokens, concurrency } = params;
+  const batch = await storage.createGenerationBatch(
+    {
+      projectId: project.id,
+      organizationId: project.organizationId,
+      userId,
+      concurrency,
+      estimatedTokens,
+      settings,
+    },
+    questions.map((question) => question.id),
+  );
+  if (!batch) return undefined;
+
+  const runner = runGenerationBatch(batch, { userId, project, settings })
+    .catch((error) => console.error(`[batch ${batch.id}] Runner failed:`, error))
+    .finally(() => runners.delete(batch.id));
+  runners.set(batch.id, runner);
+  return batch;
+}
+
+/** Resolves once the in-process runner for `batchId` (if any) has stopped. */
+export async function waitForGenerationBatch(batchId: string): Promise<void> {
+  await runners.get(batchId);
+}
+
+async function runGenerationBatch(
+  batch: GenerationBatch,
+  context: { userId: string; project: Project; settings: GenerationSettings },
+): Promise<void> {
+  let items: GenerationBatchItem[] = [];
+  let next = 0;
+
+  const runItem = async (item: GenerationBatchItem) => {
+    const question = await storage.getGrantQuestion(item.questionId);
+    if (!question) {
+      await storage.updateGenerationBatchItem(item.id, {
+        status: "failed",
+        error: "Question was deleted",
+        finishedAt: new Date(),
+      });
+      return;
+    }
+    const { responseStatus, errorMessage } = await generateAnswerForQuestion({ ...context, question });
+    const failed = responseStatus === "failed" || responseStatus === "timeout";
+    await storage.updateGenerationBatchItem(item.id, {
+      status: failed ? "failed" : "done",
+      responseStatus,
+      error: errorMessage,
+      finishedAt: new Date(),
+    });
+  };
+
+  // An item that throws is failed on its own, and its question is no longer
+  // left "generating", so the other items and the batch still finish.
+  const failItem = async (item: GenerationBatchItem, error: unknown) => {
+    console.error(`[batch ${batch.id}] Item ${item.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    await storage
+      .updateGenerationBatchItem(item.id, { status: "failed", error: message, finishedAt: new Date() })
+      .catch((updateErr) => console.warn(`[batch ${batch.id}] Could not fail item ${item.id}:`, updateErr));
+    try {
+      const question = await storage.getGrantQuestion(item.questionId);
+      if (question?.responseStatus === "generating") {
+        await storage.updateGrantQuestion(question.id, { responseStatus: "failed", errorMessage: message });
+      }
+    } catch (releaseErr) {
+      console.warn(`[batch ${batch.id}] Could not release question ${item.questionId}:`, releaseErr);
+    }
+  };
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        const current = await storage.getGenerationBatch(batch.id);
+        if (current?.status !== "running") return;
+        if (!(await storage.claimGenerationBatchItem(item.id))) continue;
+        // Every claim and completion bumps updatedAt, which doubles as the heartbeat.
+        await storage.updateGenerationBatch(batch.id, {});
+        await runItem(item);
+        await storage.updateGenerationBatch(batch.id, {});
+      } catch (error) {
+        await failItem(item, error);
+      }
+    }
+  };
+
+  try {
+    items = await storage.getGenerationBatchItems(batch.id);
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, items.length) }, worker));
+  } finally {
+    const final = await storage.getGenerationBatch(batch.id).catch(() => undefined);
+    const status = final?.status === "cancelled" ? "cancelled" : "completed";
+    await storage.updateGenerationBatch(batch.id, { status, finishedAt: new Date() });
+    console.log(`[batch ${batch.id}] ${status} after ${items.length} question(s)`);
+  }
+}
@@ -0,0 +1,100 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { type GenerationSettings } from "./generation.js";
+import { estimateBatchTokens } from "./generationBatch.js";
+import { previewGeneration } from "./generationPreview.js";
+import { formatCostCents } from "../../shared/generation-preview.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const settings: GenerationSettings = {
+  tone: "professional",
+  emphasisAreas: ["Impact & Outcomes"],
+  lengthPreference: "balanced",
+  creativity: 50,
+  contextUsage: 80,
+  audience: "program_officer",
+  answerStructure: "prose",
+  claimConfidence: "balanced",
+  aiModel: "gpt-4o",
+  fallbackModel: "local-deterministic",
+};
+
+async function seeded(userId: string) {
+  const project = await storage.createProject(userId, { title: "Preview", funder: "Funder" });
+  const document = await storage.createDocument(userId, {
+    organizationId: project.organizationId,
+    filename: "annual-report.txt",
+    originalName: "Annual report.txt",
+    fileType: "text/plain",
+    fileSize: 120,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, {
+    chunkIndex: 0,
+    // Without an embedding model retrieval falls back to matching the question text.
+    content: "Families served. The food pantry served 1,240 families in 2025, most of them first-time clients.",
+    tokenCount: 16,
+  });
+  const served = await storage.createGrantQuestion(project.id, { question: "Families served", wordLimit: 200 });
+  const budget = await storage.createGrantQuestion(project.id, { question: "Annual operating budget" });
+  return { project, document, questions: [served, budget] };
+}
+
+describe("formatCostCents", () => {
+  it("formats cents as dollars", () => {
+    expect(formatCostCents(12)).toBe("$0.12");
+    expect(formatCostCents(1234.5)).toBe("$12.35");
+    expect(formatCostCents(0.004)).toBe("<$0.01");
+    expect(formatCostCents(0)).toBe("$0.00");
+    expect(formatCostCents(null)).toBe("—");
+  });
+});
+
+describe("previewGeneration", () => {
+  it("lists retrieved chunks and estimates tokens and cost without generating", async () => {
+    const userId = "preview-user";
+    const { project, document, questions } = await seeded(userId);
+    const preview = await previewGeneration({ userId, project, questions, settings });
+
+    expect(preview.questions).toHaveLength(2);
+    expect(preview.questions[0].chunks).toContainEqual(
+      expect.objectContaining({ documentId: document.id, documentName: "Annual report.txt", chunkIndex: 0 }),
+    );
+    expect(preview.questions[0].chunks[0].excerpt).toMatch(/^Families served/);
+    expect(preview.questions[1].chunks).toEqual([]);
+    for (const question of preview.questions) {
+      expect(question.tokensIn).toBeGreaterThan(0);
+      expect(question.tokensOut).toBeGreaterThan(0);
+    }
+    expect(preview.tokensIn).toBe(preview.questions[0].tokensIn + preview.questions[1].tokensIn);
+
+    expect(preview.selectedModel).toBe("gpt-4o");
+    const gpt4o = preview.models.find((model) => model.model === "gpt-4o");
+    expect(gpt4o?.costCents).toBeGreaterThan(0);
+
+    expect(preview.allowance.required).toBe(estimateBatchTokens(questions, settings));
+    expect(preview.allowance.covered).toBe(true);
+
+    expect(await storage.getResponseVersions(questions[0].id)).toEqual([]);
+  });
+
+  it("uses the organization's endpoint model when one is configured", async () => {
+    const userId = "preview-endpoint-user";
+    const { project, questions } = await seeded(userId);
+    await storage.upsertOrganizationAiEndpoint(project.organizationId, {
+      baseUrl: "http://vllm.internal:8000/v1",
+      apiKey: null,
+      chatModel: "llama3.1:8b",
+    });
+    const preview = await previewGeneration({ userId, project, questions: questions.slice(0, 1), settings });
+
+    expect(preview.selectedModel).toBe("llama3.1:8b");
+    expect(preview.models[0]).toEqual({ model: "llama3.1:8b", label: "llama3.1:8b (your endpoint)", costCents: null });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Dry-run generation for one question or a batch: runs the same retrieval
+ * and prompt assembly as a real generation, then stops before the model call.
+ * Input tokens are estimated from the assembled prompt and output tokens at
+ * the ceiling the model would be given, so costs are an upper bound. The plan
+ * check uses the same estimate the generate routes gate on.
+ */
+
+import { aiService } from "./ai.js";
+import {
+  billingService,
+  checkUsageAgainstLimit,
+  estimateCostCents,
+  estimateTokensFromText,
+} from "./billing.js";
+import { resolveModelChain } from "./llm.js";
+import { estimateBatchTokens } from "./generationBatch.js";
+import { computeMaxOutputTokens, prepareGroundedGeneration, type GenerationSettings } from "./generation.js";
+import { CHAT_MODELS } from "../../shared/ai-models.js";
+import type { GenerationPreview, QuestionGenerationPreview } from "../../shared/generation-preview.js";
+import type { GrantQuestion, Project } from "../../shared/schema.js";
+
+const EXCERPT_CHARS = 160;
+
+export async function previewGeneration(params: {
+  userId: string;
+  project: Project;
+  questions: GrantQuestion[];
+  settings: GenerationSettings;
+  exemplarIds?: string[];
+}): Promise<GenerationPreview> {
+  const { userId, project, questions, settings, exemplarIds } = params;
+
+  const previews: QuestionGenerationPreview[] = [];
+  let endpointModel: string | null = null;
+  for (const question of questions) {
+    const { options, retrievalResult } = await prepareGroundedGeneration({
+      userId,
+      project,
+      question,
+      settings,
+      exemplarIds,
+    });
+    if (options.endpoint) endpointModel = options.endpoint.chatModel;
+    previews.push({
+      questionId: question.id,
+      question: question.question,
+      chunks: retrievalResult.chunks.map((chunk) => ({
+        documentId: chunk.documentId,
+        documentName: chunk.documentName,
+        chunkIndex: chunk.chunkIndex,
+        similarity: typeof chunk.similarity === "number" ? chunk.similarity : null,
+        source: chunk.source,
+        excerpt: chunk.content.slice(0, EXCERPT_CHARS),
+      })),
+      tokensIn: estimateTokensFromText(aiService.groundedPromptText(options)),
+      tokensOut: computeMaxOutputTokens(question.wordLimit, settings.lengthPreference, question.limitType),
+    });
+  }
+
+  const tokensIn = previews.reduce((sum, preview) => sum + preview.tokensIn, 0);
+  const tokensOut = previews.reduce((sum, preview) => sum + preview.tokensOut, 0);
+  const [selectedModel] = endpointModel
+    ? [endpointModel]
+    : resolveModelChain({ model: settings.aiModel, fallbackModel: settings.fallbackModel });
+
+  const summary = await billingService.getUsageSummary(userId, project.organizationId);
+  const used = summary.usage.aiTokens;
+  const limit = summary.limits.aiTokens;
+  const required = estimateBatchTokens(questions, settings);
+
+  return {
+    questions: previews,
+    tokensIn,
+    tokensOut,
+    selectedModel,
+    models: [
+      ...(endpointModel ? [{ model: endpointModel, label: `${endpointModel} (your endpoint)`, costCents: null }] : []),
+      ...CHAT_MODELS.map((option) => ({
+        model: option.id,
+        label: option.label,
+        costCents: estimateCostCents(option.id, tokensIn, tokensOut),
+      })),
+    ],
+    allowance: {
+      plan: summary.plan,
+      used,
+      limit,
+      remaining: Math.max(limit - used, 0),
+      required,
+      covered: checkUsageAgainstLimit("ai_tokens", summary.plan, used, limit, required).allowed,
+    },
+  };
+}
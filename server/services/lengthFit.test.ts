@@ -0,0 +1,177 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { countWords } from "../../shared/answer-limits.js";
+import {
+  findDroppedClaims,
+  fitAnswerToLimit,
+  resolveFitTarget,
+  trimToLength,
+} from "./lengthFit.js";
+import type { GenerationSettings } from "./generation.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const settings: GenerationSettings = {
+  tone: "professional",
+  emphasisAreas: [],
+  lengthPreference: "balanced",
+  creativity: 30,
+  contextUsage: 80,
+  audience: "program_officer",
+  answerStructure: "prose",
+  claimConfidence: "balanced",
+  aiModel: "local-deterministic",
+  fallbackModel: "local-deterministic",
+};
+
+const sources = [
+  "We served 1,240 families in 2025. Most were first-time clients.",
+  "Our after-school program enrolled 85 students. It runs four days a week.",
+  "Families travel from three counties to reach the pantry. Transport is a barrier.",
+  "Volunteers logged 6,000 hours last year. Many are retirees.",
+];
+
+const answer =
+  "We served 1,240 families in 2025, most of them first-time clients who had never asked for help before. [#1] " +
+  "Our after-school program enrolled 85 students and now runs four days a week. [#2]\n\n" +
+  "Families travel from three counties to reach the pantry, and transport remains a barrier for many of them. [#3] " +
+  "Volunteers logged 6,000 hours last year, many of them retirees from the neighborhood. [#4] " +
+  "We are grateful for the community that makes this work possible.";
+
+async function draftedQuestion(userId: string, wordLimit: number) {
+  const project = await storage.createProject(userId, { title: "Fit", funder: "Funder" });
+  const question = await storage.createGrantQuestion(project.id, { question: "Who do you serve?", wordLimit });
+  for (const [index, content] of sources.entries()) {
+    const doc = await storage.createDocument(userId, {
+      organizationId: userId,
+      filename: `source-${index}.txt`,
+      originalName: `source-${index}.txt`,
+      fileType: "text/plain",
+      fileSize: content.length,
+      category: "organization-info",
+    });
+    await storage.insertDocChunk(doc.id, { chunkIndex: 0, content, tokenCount: 12 });
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: doc.id,
+      chunkRefs: [{ chunkIndex: 0, quote: "" }],
+    });
+  }
+  const drafted = await storage.updateGrantQuestion(question.id, { response: answer, responseStatus: "complete" });
+  return { project, question: drafted! };
+}
+
+describe("trimToLength", () => {
+  it("drops whole trailing sentences until the text fits", () => {
+    const text = "One two three. [#1] Four five six.\n\nSeven eight nine ten.";
+    expect(trimToLength(text, "words", 7)).toBe("One two three. [#1] Four five six.");
+    expect(trimToLength(text, "words", 2)).toBe("One two three. [#1]");
+  });
+});
+
+describe("findDroppedClaims", () => {
+  it("reports cited sentences whose markers are gone", () => {
+    expect(findDroppedClaims("Fact one. [#1] Fact two. [#2] Thanks.", "Fact one, briefly. [#1]")).toEqual([
+      { sentence: "Fact two. [#2]", markers: [2] },
+    ]);
+  });
+});
+
+describe("resolveFitTarget", () => {
+  it("defaults to the question's word limit and validates explicit ranges", () => {
+    expect(resolveFitTarget({ wordLimit: 100 }, {})).toEqual({ ok: true, unit: "words", min: 85, max: 100 });
+    expect(resolveFitTarget({ wordLimit: null }, { unit: "characters", min: 400, max: 500 })).toEqual({
+      ok: true,
+      unit: "characters",
+      min: 400,
+      max: 500,
+    });
+    expect(resolveFitTarget({ wordLimit: null }, {})).toMatchObject({ ok: false, status: 400 });
+    expect(resolveFitTarget({ wordLimit: 100 }, { min: 120 })).toMatchObject({ ok: false, status: 400 });
+  });
+});
+
+describe("fitAnswerToLimit", () => {
+  it("condenses an over-limit answer, keeping surviving markers and reporting dropped claims", async () => {
+    const userId = "fit-condense";
+    const { project, question } = await draftedQuestion(userId, 40);
+    expect(countWords(answer)).toBeGreaterThan(40);
+
+    const result = await fitAnswerToLimit({
+      userId,
+      project,
+      question,
+      settings,
+      unit: "words",
+      min: 20,
+      max: 40,
+      estimatedTokens: 1000,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result).toMatchObject({ direction: "condense", withinLimit: true });
+    expect(result.length).toBe(countWords(result.text));
+    expect(result.text).toContain("[#1]");
+    expect(result.droppedClaims).toEqual([
+      {
+        sentence: "Volunteers logged 6,000 hours last year, many of them retirees from the neighborhood. [#4]",
+        markers: [4],
+      },
+    ]);
+    // The stored answer is rewritten as a new version, audited like any model-written one.
+    expect((await storage.getGrantQuestion(question.id))?.response).toBe(result.text);
+    const [version] = await storage.getResponseVersions(question.id);
+    expect(result.versionId).toBe(version.id);
+    expect(await storage.getGenerationAuditForVersion(version.id)).toMatchObject({
+      operation: "fit",
+      request: { fit: { text: answer, unit: "words", min: 20, max: 40, direction: "condense" } },
+    });
+  });
+
+  it("only proposes a rewrite of unsaved editor text", async () => {
+    const userId = "fit-editor";
+    const { project, question } = await draftedQuestion(userId, 40);
+
+    const result = await fitAnswerToLimit({
+      userId,
+      project,
+      question,
+      settings,
+      text: `${answer} One more unsaved sentence about our pantry.`,
+      unit: "words",
+      min: 20,
+      max: 40,
+      estimatedTokens: 1000,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result).toMatchObject({ direction: "condense", versionId: null });
+    expect((await storage.getGrantQuestion(question.id))?.response).toBe(answer);
+    expect(await storage.getResponseVersions(question.id)).toEqual([]);
+  });
+
+  it("returns an answer that already fits without calling a model", async () => {
+    const userId = "fit-noop";
+    const { project, question } = await draftedQuestion(userId, 500);
+
+    const result = await fitAnswerToLimit({
+      userId,
+      project,
+      question,
+      settings,
+      unit: "characters",
+      min: 0,
+      max: 1000,
+      estimatedTokens: 1000,
+    });
+    expect(result).toMatchObject({ ok: true, text: answer, direction: null, withinLimit: true, droppedClaims: [] });
+    const usage = await storage.getUsageEventsForPeriod(project.organizationId, new Date(0), new Date(Date.now() + 1000));
+    expect(usage).toHaveLength(0);
+  });
+});
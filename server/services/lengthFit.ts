@@ -0,0 +1,238 @@
+/**
+ * "Fit to limit": condense or expand an answer into a word or character range.
+ *
+ * The rewrite only sees the sources the answer already cites, numbered as the
+ * answer numbers them ([#N] is the Nth `draft_citations` row), so surviving
+ * markers keep pointing at the same rows and nothing is renumbered. A rewrite
+ * of the stored answer is saved as a new version with its generation audit; a
+ * rewrite of unsaved editor text is a proposal the writer saves, and may edit,
+ * through the normal response update.
+ */
+
+import { storage } from "../storage.js";
+import { aiService, type LengthFit, type RetrievedContextChunk } from "./ai.js";
+import { billingService, calculateCostCents } from "./billing.js";
+import { canServeModels } from "./llm.js";
+import { splitAnswerIntoClaims, verifyQuestionClaims } from "./claimVerification.js";
+import { prepareGroundedGeneration, type GenerationSettings } from "./generation.js";
+import { recordGenerationAudit } from "./generationAudit.js";
+import {
+  isAnswerLimitType,
+  measureAnswer,
+  normalizeLimitType,
+  type AnswerLimitType,
+} from "../../shared/answer-limits.js";
+import type { DraftCitation, GrantQuestion, Project } from "../../shared/schema.js";
+import { citationPages } from "../../shared/citation-source.js";
+
+const MARKER = /\[#(\d+)\]/g;
+
+export interface DroppedClaim {
+  sentence: string;
+  markers: number[];
+}
+
+export type LengthFitResult =
+  | {
+      ok: true;
+      text: string;
+      unit: AnswerLimitType;
+      min: number;
+      max: number;
+      length: number;
+      withinLimit: boolean;
+      /** null when the answer already fit and was returned unchanged */
+      direction: "condense" | "expand" | null;
+      /** Cited sentences none of whose [#N] markers survive the rewrite */
+      droppedClaims: DroppedClaim[];
+      /** The version the rewrite was saved as; null for editor text or an answer that already fit */
+      versionId: string | null;
+    }
+  | { ok: false; status: number; error: string };
+
+function markersIn(text: string): Set<number> {
+  return new Set(Array.from(text.matchAll(MARKER), (m) => parseInt(m[1], 10)));
+}
+
+/**
+ * Drop whole sentences from the end until the text is at most `max` long.
+ * Always keeps the first sentence, so the result can still be over.
+ */
+export function trimToLength(text: string, unit: AnswerLimitType, max: number): string {
+  const claims = splitAnswerIntoClaims(text);
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const claim of claims) {
+    const index = text.indexOf(claim.sentence, cursor);
+    offsets.push(index);
+    cursor = index + claim.sentence.length;
+  }
+
+  let trimmed = text.trim();
+  for (let keep = claims.length - 1; keep >= 1 && measureAnswer(trimmed, unit) > max; keep--) {
+    trimmed = text.slice(0, offsets[keep]).trim();
+  }
+  return trimmed;
+}
+
+/** Cited sentences of `original` whose markers no longer appear in `rewritten`. */
+export function findDroppedClaims(original: string, rewritten: string): DroppedClaim[] {
+  const surviving = markersIn(rewritten);
+  return splitAnswerIntoClaims(original)
+    .filter((claim) => claim.markers.length && !claim.markers.some((marker) => surviving.has(marker)))
+    .map(({ sentence, markers }) => ({ sentence, markers }));
+}
+
+/** One context snippet per citation row, so the prompt's [#N] is the answer's [#N]. */
+export async function citationContext(citations: DraftCitation[]): Promise<RetrievedContextChunk[]> {
+  const context: RetrievedContextChunk[] = [];
+  for (const citation of citations) {
+    const refs = Array.isArray(citation.chunkRefs)
+      ? (citation.chunkRefs as Array<{ chunkIndex?: number; quote?: string }>)
+      : [];
+    const chunkIndex = typeof refs[0]?.chunkIndex === "number" ? refs[0].chunkIndex : 0;
+    const documentId = citation.sourceDocumentId ?? "";
+    const chunk = documentId ? await storage.getDocChunk(documentId, chunkIndex) : undefined;
+    const document = documentId ? await storage.getDocument(documentId) : undefined;
+    context.push({
+      documentId,
+      documentName: document?.originalName || document?.filename || "Uploaded document",
+      content: chunk?.content ?? refs[0]?.quote ?? "(source text unavailable)",
+      chunkIndex,
+      chunkId: chunk?.id,
+      ...citationPages(chunk),
+    });
+  }
+  return context;
+}
+
+/** The range to fit into; defaults to the question's own limit and unit. */
+export function resolveFitTarget(
+  question: { wordLimit: number | null; limitType?: string | null },
+  input: { unit?: unknown; min?: unknown; max?: unknown },
+): { ok: true; unit: AnswerLimitType; min: number; max: number } | { ok: false; status: number; error: string } {
+  const questionUnit = normalizeLimitType(question.limitType);
+  const unit = input.unit ?? questionUnit;
+  if (!isAnswerLimitType(unit)) {
+    return { ok: false, status: 400, error: 'unit must be "words", "characters" or "characters_no_spaces"' };
+  }
+  const max = input.max ?? (unit === questionUnit ? question.wordLimit : undefined);
+  if (!Number.isInteger(max) || (max as number) < 1) {
+    return {
+      ok: false,
+      status: 400,
+      error: unit === questionUnit ? "Set an answer limit or pass max" : "max must be a positive integer",
+    };
+  }
+  const min = input.min ?? Math.floor((max as number) * 0.85);
+  if (!Number.isInteger(min) || (min as number) < 0 || (min as number) > (max as number)) {
+    return { ok: false, status: 400, error: "min must be an integer between 0 and max" };
+  }
+  return { ok: true, unit, min: min as number, max: max as number };
+}
+
+export async function fitAnswerToLimit(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  settings: GenerationSettings;
+  /** Unsaved editor text; defaults to the stored answer */
+  text?: string | null;
+  unit: AnswerLimitType;
+  min: number;
+  max: number;
+  estimatedTokens: number;
+}): Promise<LengthFitResult> {
+  const { userId, project, question, settings, unit, min, max, estimatedTokens } = params;
+  const original = (params.text ?? question.response ?? "").trim();
+  if (!original) {
+    return { ok: false, status: 409, error: "This question has no answer to fit" };
+  }
+  if (question.responseStatus === "generating") {
+    return { ok: false, status: 409, error: "Wait for the answer to finish generating" };
+  }
+
+  const originalLength = measureAnswer(original, unit);
+  if (originalLength >= min && originalLength <= max) {
+    return {
+      ok: true,
+      text: original,
+      unit,
+      min,
+      max,
+      length: originalLength,
+      withinLimit: true,
+      direction: null,
+      droppedClaims: [],
+      versionId: null,
+    };
+  }
+  const direction: LengthFit["direction"] = originalLength > max ? "condense" : "expand";
+
+  const { options } = await prepareGroundedGeneration({ userId, project, question, settings, retrieve: false });
+  if (!canServeModels(options)) {
+    return { ok: false, status: 503, error: "AI generation is not configured on this deployment" };
+  }
+
+  const citations = await storage.getDraftCitations(question.id);
+  const fitOptions = {
+    ...options,
+    wordLimit: max,
+    limitType: unit,
+    retrievedChunks: await citationContext(citations),
+    fit: { text: original, unit, min, max, direction },
+  };
+  const grounded = await aiService.fitToLength(fitOptions);
+
+  // Only markers that resolve to an existing citation row may survive.
+  let text = grounded.text
+    .trim()
+    .replace(MARKER, (marker, n: string) => (parseInt(n, 10) <= citations.length ? marker : ""))
+    .replace(/ +(?=[.,;:!?])/g, "")
+    .trim();
+  if (measureAnswer(text, unit) > max) {
+    text = trimToLength(text, unit, max);
+  }
+  const length = measureAnswer(text, unit);
+
+  const usage = grounded.usage!;
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId: project.id,
+    type: "generation",
+    provider: usage.provider,
+    model: usage.model,
+    tokensIn: usage.tokensIn || estimatedTokens,
+    tokensOut: usage.tokensOut,
+    costCents: calculateCostCents(usage.model, usage.tokensIn || estimatedTokens, usage.tokensOut),
+    metadata: { questionId: question.id, fit: { unit, min, max, direction } },
+  });
+
+  let versionId: string | null = null;
+  if (params.text == null) {
+    const versions = await storage.getResponseVersions(question.id);
+    const version = await storage.createResponseVersion(question.id, text, settings.tone, versions.length + 1);
+    await recordGenerationAudit({ userId, project, version, operation: "fit", settings, options: fitOptions, grounded, usage });
+    const updated = (await storage.updateGrantQuestion(question.id, { response: text }))!;
+    try {
+      await verifyQuestionClaims(updated);
+    } catch (verifyErr) {
+      console.warn(`[fit] Failed to verify claims:`, verifyErr);
+    }
+    versionId = version.id;
+  }
+
+  return {
+    ok: true,
+    text,
+    unit,
+    min,
+    max,
+    length,
+    withinLimit: length >= min && length <= max,
+    direction,
+    droppedClaims: findDroppedClaims(original, text),
+    versionId,
+  };
+}
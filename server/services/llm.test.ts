@@ -0,0 +1,139 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  LocalProvider,
+  canServeModels,
+  parseJsonObject,
+  resolveModelChain,
+  runWithModelFallback,
+} from "./llm.js";
+
+// Provider credentials are read at import time; keep the suite independent of
+// whatever keys the host environment happens to export.
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+  delete process.env.GRANTED_DEFAULT_MODEL;
+  delete process.env.GRANTED_FALLBACK_MODEL;
+});
+
+vi.mock("openai", () => ({
+  default: class MockOpenAI {
+    chat = { completions: { create: vi.fn() } };
+    embeddings = { create: vi.fn() };
+  },
+}));
+
+describe("resolveModelChain", () => {
+  it("orders the saved model before its fallback and de-duplicates", () => {
+    expect(resolveModelChain({ model: "gpt-4o", fallbackModel: "gpt-3.5-turbo" })).toEqual([
+      "gpt-4o",
+      "gpt-3.5-turbo",
+    ]);
+    expect(resolveModelChain({ model: "gpt-4o", fallbackModel: "gpt-4o" })).toEqual(["gpt-4o"]);
+  });
+
+  it("reports whether any model in the chain has credentials", () => {
+    expect(canServeModels({ model: "gpt-4o", fallbackModel: "claude-3-5-haiku-20241022" })).toBe(false);
+    expect(canServeModels({ model: "gpt-4o", fallbackModel: "local-deterministic" })).toBe(true);
+  });
+});
+
+describe("runWithModelFallback", () => {
+  it("skips an unconfigured primary and uses the fallback model", async () => {
+    const seen: string[] = [];
+    const result = await runWithModelFallback(
+      { model: "claude-3-5-haiku-20241022", fallbackModel: "local-deterministic" },
+      "test",
+      async (provider, model) => {
+        seen.push(`${provider.name}:${model}`);
+        return model;
+      },
+    );
+    expect(result).toBe("local-deterministic");
+    expect(seen).toEqual(["local:local-deterministic"]);
+  });
+
+  it("retries on the fallback when the primary call throws", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const seen: string[] = [];
+    const result = await runWithModelFallback(
+      { model: "local-deterministic", fallbackModel: "local-backup" },
+      "test",
+      async (_provider, model) => {
+        seen.push(model);
+        if (model === "local-deterministic") throw new Error("overloaded");
+        return "ok";
+      },
+    );
+    expect(result).toBe("ok");
+    expect(seen).toEqual(["local-deterministic", "local-backup"]);
+  });
+
+  it("routes only to the organization endpoint when one is configured", async () => {
+    const seen: string[] = [];
+    await runWithModelFallback(
+      {
+        model: "gpt-4o",
+        fallbackModel: "local-deterministic",
+        endpoint: { baseUrl: "http://localhost:11434/v1", chatModel: "llama3.1:8b" },
+      },
+      "test",
+      async (provider, model) => {
+        seen.push(`${provider.name}:${model}`);
+        throw new Error("connection refused");
+      },
+    ).catch(() => undefined);
+    expect(seen).toEqual(["openai-compatible:llama3.1:8b"]);
+  });
+
+  it("does not retry when shouldRetry vetoes it", async () => {
+    const call = vi.fn(async () => {
+      throw new Error("mid-stream failure");
+    });
+    await expect(
+      runWithModelFallback({ model: "local-deterministic", fallbackModel: "local-backup" }, "test", call, {
+        shouldRetry: () => false,
+      }),
+    ).rejects.toThrow("mid-stream failure");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("LocalProvider", () => {
+  const provider = new LocalProvider();
+
+  it("answers grounded prompts extractively with marker citations", async () => {
+    const prompt = [
+      "Grant Question: Who do you serve?",
+      "",
+      "Context Snippets (cite these by marker):",
+      "[#1] Annual Report.pdf\nWe served 1,240 families in 2025. Most were first-time clients.",
+      "",
+      "[#2] Budget.xlsx\nTotal program cost is $185,000.",
+    ].join("\n");
+    const { json } = await provider.generateJSON<{ text: string; citations: Array<{ marker: string }> }>({
+      model: "local-deterministic",
+      messages: [{ role: "user", content: prompt }],
+    });
+    expect(json.text).toBe("We served 1,240 families in 2025. [#1] Total program cost is $185,000. [#2]");
+    expect(json.citations.map((c) => c.marker)).toEqual(["#1", "#2"]);
+  });
+
+  it("produces stable, normalized embeddings", async () => {
+    const a = await provider.embed("youth mentoring program", "local-embedding");
+    const b = await provider.embed("youth mentoring program", "local-embedding");
+    expect(a.embedding).toHaveLength(1536);
+    expect(a.embedding).toEqual(b.embedding);
+    const norm = Math.sqrt(a.embedding.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 6);
+  });
+});
+
+describe("parseJsonObject", () => {
+  it("tolerates code fences and surrounding prose", () => {
+    expect(parseJsonObject('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonObject('Here you go: {"a":2} thanks')).toEqual({ a: 2 });
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * LLM provider layer.
+ *
+ * Every model call in the app goes through an `LlmProvider` (generate,
+ * generate-JSON, streaming generate, embed) selected by model id:
+ *
+ * - OpenAI     — chat completions + embeddings (OPENAI_API_KEY)
+ * - Anthropic  — messages API (ANTHROPIC_API_KEY); no embeddings
+ * - Local      — deterministic, offline; extractive text and hashed
+ *                embeddings so development and tests run without keys
+ * - OpenAI-compatible — an organization's self-hosted server (vLLM, Ollama,
+ *                ...) configured in `organization_ai_endpoints`
+ *
+ * `runWithModelFallback` applies the user's `aiModel` / `fallbackModel`
+ * preference: the primary model is tried first and, if its provider is not
+ * configured or the call throws, the same request is retried on the fallback.
+ * When the preference carries an organization endpoint, that endpoint's chat
+ * model is the only one tried: self-hosting exists so grant documents never
+ * reach a hosted API, so there is no hosted fallback.
+ */
+
+import "../config.js";
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  DEFAULT_CHAT_MODEL,
+  DEFAULT_FALLBACK_MODEL,
+  providerForModel,
+  type AIProviderName,
+  type CatalogProviderName,
+} from "../../shared/ai-models.js";
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  system?: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a single JSON object (OpenAI json_object mode, prefill elsewhere). */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LlmResult {
+  text: string;
+  provider: AIProviderName;
+  model: string;
+  tokensIn: number;
+  tokensOut: number;
+}
+
+export interface LlmEmbedding {
+  embedding: number[];
+  model: string;
+  tokensIn: number;
+}
+
+export interface LlmProvider {
+  readonly name: AIProviderName;
+  isConfigured(): boolean;
+  generate(request: LlmRequest): Promise<LlmResult>;
+  generateJSON<T = any>(request: Omit<LlmRequest, "json">): Promise<LlmResult & { json: T }>;
+  stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResult>;
+  embed(input: string, model: string): Promise<LlmEmbedding>;
+}
+
+/** An organization's OpenAI-compatible server (structurally an `OrganizationAiEndpoint` row). */
+export interface CompatibleEndpoint {
+  baseUrl: string;
+  apiKey?: string | null;
+  chatModel: string;
+  /** Null keeps embeddings on the local provider rather than a hosted one. */
+  embeddingModel?: string | null;
+}
+
+export interface ModelPreference {
+  model?: string | null;
+  fallbackModel?: string | null;
+  endpoint?: CompatibleEndpoint | null;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function promptText(request: LlmRequest): string {
+  return [request.system ?? "", ...request.messages.map((m) => m.content)].join("\n");
+}
+
+/**
+ * Parse a model reply that should be a JSON object, tolerating code fences
+ * or stray prose around it.
+ */
+export function parseJsonObject(text: string): any {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start >= 0 && end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+    throw new Error("Model did not return a JSON object");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI
+// ---------------------------------------------------------------------------
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name: AIProviderName = "openai";
+  protected readonly client: OpenAI;
+  private readonly configured: boolean;
+
+  constructor(
+    apiKey = process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
+    baseURL?: string,
+  ) {
+    this.configured = !!apiKey && apiKey !== "default_key" && apiKey.startsWith("sk-");
+    this.client = new OpenAI({
+      apiKey: apiKey || "default_key", // Will trigger error for invalid key, handled in fallbacks
+      ...(baseURL && { baseURL }),
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  private messages(request: LlmRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+      ...request.messages,
+    ];
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        ...(request.json && { response_format: { type: "json_object" as const } }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      },
+      { signal: request.signal },
+    );
+    const text = response.choices[0]?.message?.content ?? "";
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      tokensIn: response.usage?.prompt_tokens ?? estimateTokens(promptText(request)),
+      tokensOut: response.usage?.completion_tokens ?? estimateTokens(text),
+    };
+  }
+
+  async generateJSON<T = any>(request: Omit<LlmRequest, "json">): Promise<LlmResult & { json: T }> {
+    const result = await this.generate({ ...request, json: true });
+    return { ...result, json: parseJsonObject(result.text) as T };
+  }
+
+  async stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResult> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(request.json && { response_format: { type: "json_object" as const } }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      },
+      { signal: request.signal },
+    );
+
+    let text = "";
+    let tokensIn: number | undefined;
+    let tokensOut: number | undefined;
+    for await (const chunk of stream) {
+      const piece = chunk.choices[0]?.delta?.content ?? "";
+      if (piece) {
+        text += piece;
+        onDelta(piece);
+      }
+      if (chunk.usage) {
+        tokensIn = chunk.usage.prompt_tokens;
+        tokensOut = chunk.usage.completion_tokens;
+      }
+    }
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      tokensIn: tokensIn ?? estimateTokens(promptText(request)),
+      tokensOut: tokensOut ?? estimateTokens(text),
+    };
+  }
+
+  async embed(input: string, model: string): Promise<LlmEmbedding> {
+    const response = await this.client.embeddings.create({ model, input });
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) throw new Error("Empty embedding from OpenAI");
+    return {
+      embedding,
+      model,
+      tokensIn: response.usage?.prompt_tokens ?? estimateTokens(input),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (self-hosted)
+// ---------------------------------------------------------------------------
+
+export interface EndpointHealth {
+  baseUrl: string;
+  reachable: boolean;
+  latencyMs: number;
+  chatModel: string;
+  /** Null when the server does not list its models. */
+  chatModelAvailable: boolean | null;
+  embeddingModel: string | null;
+  /** Vector length returned by the embedding model, when one is configured and answered. */
+  embeddingDimensions: number | null;
+  error?: string;
+}
+
+/**
+ * OpenAI wire protocol against an organization's own server. Local servers
+ * usually ignore the API key, but the SDK requires one, so a placeholder is
+ * sent when none is configured.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  override readonly name: AIProviderName = "openai-compatible";
+
+  constructor(private readonly endpoint: CompatibleEndpoint) {
+    super(endpoint.apiKey || "not-needed", endpoint.baseUrl);
+  }
+
+  override isConfigured(): boolean {
+    return true;
+  }
+
+  /** List models and, if configured, embed a probe string to learn the vector size. */
+  async probe(timeoutMs = 5000): Promise<EndpointHealth> {
+    const started = Date.now();
+    const health: EndpointHealth = {
+      baseUrl: this.endpoint.baseUrl,
+      reachable: false,
+      latencyMs: 0,
+      chatModel: this.endpoint.chatModel,
+      chatModelAvailable: null,
+      embeddingModel: this.endpoint.embeddingModel ?? null,
+      embeddingDimensions: null,
+    };
+    const requestOptions = { timeout: timeoutMs, maxRetries: 0 };
+    try {
+      const models = await this.client.models.list(requestOptions);
+      const ids = models.data.map((model) => model.id);
+      health.reachable = true;
+      health.chatModelAvailable = ids.length ? ids.includes(this.endpoint.chatModel) : null;
+      if (this.endpoint.embeddingModel) {
+        const response = await this.client.embeddings.create(
+          { model: this.endpoint.embeddingModel, input: "health check" },
+          requestOptions,
+        );
+        health.embeddingDimensions = response.data[0]?.embedding?.length ?? null;
+      }
+    } catch (error: any) {
+      health.error = error?.message || String(error);
+    }
+    health.latencyMs = Date.now() - started;
+    return health;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+// ---------------------------------------------------------------------------
+
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 2048;
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic" as const;
+  private readonly client: Anthropic | null;
+
+  constructor(apiKey = process.env.ANTHROPIC_API_KEY) {
+    this.client = apiKey ? new Anthropic({ apiKey }) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  private requireClient(): Anthropic {
+    if (!this.client) throw new Error("ANTHROPIC_API_KEY is not configured");
+    return this.client;
+  }
+
+  /**
+   * Anthropic has no JSON mode; for JSON requests we add an explicit
+   * instruction and prefill the assistant turn with "{" so the reply starts
+   * inside the object. The prefill is re-attached to the returned text.
+   */
+  private params(request: LlmRequest) {
+    const system = request.json
+      ? `${request.system ?? ""}\n\nRespond with a single JSON object and nothing else.`.trim()
+      : request.system;
+    const messages: LlmMessage[] = request.json
+      ? [...request.messages, { role: "assistant", content: "{" }]
+      : request.messages;
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      ...(system && { system }),
+      ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+      messages,
+    };
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response = await this.requireClient().messages.create(this.params(request), {
+      signal: request.signal,
+    });
+    const body = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const text = request.json ? `{${body}` : body;
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      tokensIn: response.usage?.input_tokens ?? estimateTokens(promptText(request)),
+      tokensOut: response.usage?.output_tokens ?? estimateTokens(text),
+    };
+  }
+
+  async generateJSON<T = any>(request: Omit<LlmRequest, "json">): Promise<LlmResult & { json: T }> {
+    const result = await this.generate({ ...request, json: true });
+    return { ...result, json: parseJsonObject(result.text) as T };
+  }
+
+  async stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResult> {
+    const events = await this.requireClient().messages.create(
+      { ...this.params(request), stream: true },
+      { signal: request.signal },
+    );
+
+    let text = "";
+    if (request.json) {
+      text = "{";
+      onDelta("{");
+    }
+    let tokensIn: number | undefined;
+    let tokensOut: number | undefined;
+    for await (const event of events) {
+      if (event.type === "message_start") {
+        tokensIn = event.message.usage?.input_tokens;
+      } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        text += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === "message_delta") {
+        tokensOut = event.usage?.output_tokens;
+      }
+    }
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      tokensIn: tokensIn ?? estimateTokens(promptText(request)),
+      tokensOut: tokensOut ?? estimateTokens(text),
+    };
+  }
+
+  async embed(): Promise<LlmEmbedding> {
+    throw new Error("Anthropic does not provide an embeddings API; use an OpenAI or local embedding model");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Local (deterministic)
+// ---------------------------------------------------------------------------
+
+const LOCAL_EMBEDDING_DIMENSIONS = 1536;
+
+function firstSentence(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  const match = clean.match(/^.+?[.!?](?=\s|$)/);
+  return (match ? match[0] : clean).slice(0, 300);
+}
+
+function hashToken(token: string): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline provider with stable output for identical input. Generation is
+ * extractive: when the prompt contains `[#N] Document` context snippets (the
+ * grounded drafting format) it returns the first sentence of each of the
+ * first three snippets with its marker and a matching citation; otherwise it
+ * returns the opening sentences of the last user message. Embeddings are
+ * hashed bag-of-words vectors, so identical wording scores as similar.
+ */
+export class LocalProvider implements LlmProvider {
+  readonly name = "local" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private compose(request: LlmRequest): { text: string; citations: Array<{ marker: string; quote: string }> } {
+    const prompt = request.messages.filter((m) => m.role === "user").at(-1)?.content ?? "";
+    const snippets: Array<{ marker: string; content: string }> = [];
+    const snippetPattern = /^\[#(\d+)\][^\n]*\n([\s\S]*?)(?=\n\n\[#\d+\]|\s*$)/gm;
+    let match: RegExpExecArray | null;
+    while ((match = snippetPattern.exec(prompt)) !== null && snippets.length < 3) {
+      snippets.push({ marker: `#${match[1]}`, content: match[2] });
+    }
+
+    if (snippets.length) {
+      const citations = snippets.map((s) => ({ marker: s.marker, quote: firstSentence(s.content) }));
+      const text = citations.map((c) => `${c.quote} [${c.marker}]`).join(" ");
+      return { text, citations };
+    }
+
+    const sentences = prompt.replace(/\s+/g, " ").match(/[^.!?]+[.!?]+/g) ?? [prompt];
+    return { text: sentences.slice(0, 3).join(" ").trim(), citations: [] };
+  }
+
+  private result(request: LlmRequest, text: string): LlmResult {
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      tokensIn: estimateTokens(promptText(request)),
+      tokensOut: estimateTokens(text),
+    };
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const { text, citations } = this.compose(request);
+    return this.result(request, request.json ? JSON.stringify({ text, citations, assumptions: [] }) : text);
+  }
+
+  async generateJSON<T = any>(request: Omit<LlmRequest, "json">): Promise<LlmResult & { json: T }> {
+    const result = await this.generate({ ...request, json: true });
+    return { ...result, json: JSON.parse(result.text) as T };
+  }
+
+  async stream(request: LlmRequest, onDelta: (delta: string) => void): Promise<LlmResult> {
+    const result = await this.generate(request);
+    for (const piece of result.text.match(/[\s\S]{1,24}/g) ?? []) {
+      onDelta(piece);
+    }
+    return result;
+  }
+
+  async embed(input: string, model: string): Promise<LlmEmbedding> {
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    for (const token of input.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+      const hash = hashToken(token);
+      vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += hash & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return {
+      embedding: vector.map((v) => v / norm),
+      model,
+      tokensIn: estimateTokens(input),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+const providers: Record<CatalogProviderName, LlmProvider> = {
+  openai: new OpenAIProvider(),
+  anthropic: new AnthropicProvider(),
+  local: new LocalProvider(),
+};
+
+/** Hosted providers that have credentials (the local provider is always available). */
+export function configuredProviderNames(): AIProviderName[] {
+  return (Object.values(providers) as LlmProvider[])
+    .filter((p) => p.name !== "local" && p.isConfigured())
+    .map((p) => p.name);
+}
+
+console.log("LLM providers configured:", configuredProviderNames().join(", ") || "none (local only)");
+
+export function getProviderForModel(model: string): LlmProvider {
+  return providers[providerForModel(model)];
+}
+
+const compatibleProviders = new Map<string, OpenAICompatibleProvider>();
+
+/** Provider for an organization endpoint, cached per base URL and key. */
+export function getCompatibleProvider(endpoint: CompatibleEndpoint): OpenAICompatibleProvider {
+  const key = `${endpoint.baseUrl}\n${endpoint.apiKey ?? ""}\n${endpoint.chatModel}\n${endpoint.embeddingModel ?? ""}`;
+  let provider = compatibleProviders.get(key);
+  if (!provider) {
+    provider = new OpenAICompatibleProvider(endpoint);
+    compatibleProviders.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Ordered, de-duplicated list of models to try for a preference. Falls back
+ * to GRANTED_DEFAULT_MODEL / the catalog defaults when nothing is saved.
+ */
+export function resolveModelChain(preference: ModelPreference = {}): string[] {
+  if (preference.endpoint) return [preference.endpoint.chatModel];
+  const primary = preference.model || process.env.GRANTED_DEFAULT_MODEL || DEFAULT_CHAT_MODEL;
+  const fallback = preference.fallbackModel || process.env.GRANTED_FALLBACK_MODEL || DEFAULT_FALLBACK_MODEL;
+  return primary === fallback ? [primary] : [primary, fallback];
+}
+
+function providerForPreference(preference: ModelPreference, model: string): LlmProvider {
+  return preference.endpoint ? getCompatibleProvider(preference.endpoint) : getProviderForModel(model);
+}
+
+/** True when at least one model in the preference chain has a configured provider. */
+export function canServeModels(preference: ModelPreference = {}): boolean {
+  return resolveModelChain(preference).some((model) => providerForPreference(preference, model).isConfigured());
+}
+
+/**
+ * Run `call` on the preferred model, retrying once on the fallback model if
+ * the primary's provider is unconfigured or the call throws. The last error
+ * is rethrown when every model fails, or immediately when `shouldRetry`
+ * vetoes the retry (e.g. a stream already delivered partial output).
+ */
+export async function runWithModelFallback<T>(
+  preference: ModelPreference,
+  label: string,
+  call: (provider: LlmProvider, model: string) => Promise<T>,
+  options: { shouldRetry?: (error: unknown) => boolean } = {},
+): Promise<T> {
+  const chain = resolveModelChain(preference).filter((model) =>
+    providerForPreference(preference, model).isConfigured(),
+  );
+  if (!chain.length) {
+    throw new Error(`No configured provider for models: ${resolveModelChain(preference).join(", ")}`);
+  }
+
+  let lastError: unknown;
+  for (const [index, model] of chain.entries()) {
+    try {
+      return await call(providerForPreference(preference, model), model);
+    } catch (error: any) {
+      lastError = error;
+      if (options.shouldRetry && !options.shouldRetry(error)) break;
+      if (index < chain.length - 1) {
+        console.warn(
+          `[llm] ${label} failed on ${model} (${error?.message || error}); retrying with fallback ${chain[index + 1]}`,
+        );
+      }
+    }
+  }
+  throw lastError;
+}
@@ -1,5 +1,6 @@
 import { storage } from "../storage.js";
 import type { GrantMetric } from "../../shared/schema.js";
+import { measureAnswer, normalizeLimitType } from "../../shared/answer-limits.js";
 
 export type MetricType = "number" | "currency" | "percent" | "text" | "date";
 export type MetricCategory =
@@ -56,8 +57,9 @@ export interface ApplicationMetrics {
   questionsAnswered: number;
   citationsCount: number;
   unresolvedAssumptions: number;
+  closedAssumptions: number; // resolved with an answer, not just dismissed
   daysToDeadline: number | null;
-  wordLimitUtilization: number | null; // 0-1 across questions with limits
+  wordLimitUtilization: number | null; // 0-1 across questions with limits, in each limit's own unit
   lastActivityAt: string | null;
 }
 
@@ -84,6 +86,7 @@ export async function computeApplicationMetrics(
 
   const assumptions = await storage.getAssumptionLabels(projectId);
   const unresolvedAssumptions = assumptions.filter(a => !a.resolved).length;
+  const closedAssumptions = assumptions.filter(a => a.resolved && a.factId).length;
 
   const daysToDeadline = project?.deadline
     ? Math.ceil(
@@ -92,14 +95,15 @@ export async function computeApplicationMetrics(
       )
     : null;
 
+  // Each answer is measured in its question's own limit unit (words or characters).
   const withLimits = questions.filter(q => q.wordLimit && q.response);
   const wordLimitUtilization =
     withLimits.length === 0
       ? null
       : withLimits.reduce((sum, q) => {
-          const words = (q.response ?? "").trim().split(/\s+/).filter(Boolean).length;
+          const length = measureAnswer(q.response, normalizeLimitType(q.limitType));
           const limit = q.wordLimit ?? 1;
-          return sum + Math.min(1, words / limit);
+          return sum + Math.min(1, length / limit);
         }, 0) / withLimits.length;
 
   // Use most recent question createdAt as a proxy for activity.
@@ -114,6 +118,7 @@ export async function computeApplicationMetrics(
     questionsAnswered,
     citationsCount,
     unresolvedAssumptions,
+    closedAssumptions,
     daysToDeadline,
     wordLimitUtilization,
     lastActivityAt,
@@ -0,0 +1,85 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { retrieveRelevantChunks } from "./retrieval.js";
+import { boundedContextSummary, prepareGroundedGeneration, resolveGenerationSettings } from "./generation.js";
+import { saveFactSheetEntry, updateOrganizationFact } from "./organizationFacts.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+describe("fact sheet entries", () => {
+  it("rewrites an edited fact as a new chunk and retrieves only the current one", async () => {
+    const userId = "facts-edit";
+    const fact = await saveFactSheetEntry({
+      userId,
+      organizationId: userId,
+      factKey: "annual_budget",
+      period: "FY24",
+      value: "$1.2M",
+      source: "manual",
+    });
+    expect(fact).toMatchObject({ label: "FY24 budget", projectId: null, verifiedBy: userId });
+
+    const updated = await updateOrganizationFact({
+      userId,
+      fact,
+      changes: { value: "$1.3M", asOf: new Date("2024-06-30") },
+    });
+    expect(updated.chunkIndex).not.toBe(fact.chunkIndex);
+    // The old chunk is kept for answers that already cite it.
+    expect((await storage.getDocChunk(fact.documentId, fact.chunkIndex))?.content).toBe("Fact: FY24 budget\n$1.2M");
+
+    const { chunks } = await retrieveRelevantChunks({
+      userId,
+      organizationId: userId,
+      query: "FY24 budget",
+    });
+    expect(chunks.map((chunk) => chunk.content)).toEqual(["Fact: FY24 budget\n$1.3M\nAs of 2024-06-30."]);
+
+    // The same type and period updates the entry rather than adding another.
+    const again = await saveFactSheetEntry({
+      userId,
+      organizationId: userId,
+      factKey: "annual_budget",
+      period: "FY24",
+      value: "$1.4M",
+      source: "manual",
+    });
+    expect(again.id).toBe(fact.id);
+    expect(await storage.getOrganizationFacts(userId)).toHaveLength(1);
+  });
+
+  it("reaches every prompt as citable context, whatever retrieval finds", async () => {
+    const userId = "facts-prompt";
+    const project = await storage.createProject(userId, { title: "Facts", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Describe your evaluation plan" });
+    await saveFactSheetEntry({ userId, organizationId: userId, factKey: "board_size", value: "9", source: "manual" });
+    await saveFactSheetEntry({
+      userId,
+      organizationId: userId,
+      factKey: "staff_count",
+      period: "FY24",
+      value: "18",
+      source: "manual",
+    });
+
+    const settings = await resolveGenerationSettings(userId, undefined);
+    const { options, retrievalResult } = await prepareGroundedGeneration({ userId, project, question, settings });
+    expect(retrievalResult.chunks).toEqual([]);
+    expect(options.retrievedChunks.map((chunk) => [chunk.documentName, chunk.content])).toEqual([
+      ["Organization facts", "Fact: FY24 staff\n18"],
+      ["Organization facts", "Fact: Board size\n9"],
+    ]);
+  });
+});
+
+describe("boundedContextSummary", () => {
+  it("keeps whole summaries up to the budget", () => {
+    expect(boundedContextSummary(["a: one", "b: two", "c: three"], 14)).toBe("a: one\nb: two");
+    expect(boundedContextSummary(["a: a long first summary"], 10)).toBe("a: a long…");
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Organization facts: short, confirmed statements ("Annual budget: $1.2M")
+ * the organization has given us, e.g. by answering a clarification question.
+ *
+ * Each fact is also written as one chunk of a per-organization "Organization
+ * facts" document, so it can be cited, verified and shown in the Evidence
+ * Map exactly like an uploaded source. Retrieval matches facts by term
+ * overlap as well, since a short fact rarely wins a keyword or embedding
+ * search against whole document chunks.
+ *
+ * Typed facts (`factKey`) form the organization's fact sheet, which every
+ * generation prompt receives whatever retrieval finds.
+ */
+
+import { storage } from "../storage.js";
+import { generateEmbedding } from "./embedding.js";
+import { contentTerms } from "./claimVerification.js";
+import {
+  factChunkContent,
+  getOrganizationFactType,
+  isOrganizationFactsDocument,
+  organizationFactLabel,
+  ORGANIZATION_FACT_TYPES,
+  ORGANIZATION_FACTS_CATEGORY,
+  type OrganizationFactKey,
+} from "../../shared/organization-facts.js";
+import type { Document, OrganizationFact } from "../../shared/schema.js";
+import type { RetrievedChunk } from "./retrieval.js";
+
+/** Share of a query's terms a fact must contain to be retrieved (or two shared terms). */
+const FACT_MATCH_MIN = 0.25;
+/** Fact sheet entries handed to every generation prompt. */
+export const FACT_SHEET_PROMPT_LIMIT = 12;
+
+async function ensureFactsDocument(userId: string, organizationId: string): Promise<Document> {
+  const documents = await storage.getDocumentsForOrganization(userId, organizationId);
+  const existing = documents.find(isOrganizationFactsDocument);
+  if (existing) return existing;
+  // Not `processed`: the generation context summary only lists uploaded documents.
+  return storage.createDocumentForOrganization(userId, organizationId, {
+    organizationId,
+    projectId: null,
+    filename: "organization-facts.txt",
+    originalName: "Organization facts",
+    fileType: "text/plain",
+    fileSize: 0,
+    category: ORGANIZATION_FACTS_CATEGORY,
+    processingStatus: "complete",
+    embeddingStatus: "skipped",
+  });
+}
+
+/** Append a fact's text to the facts document as a new chunk; returns where it went. */
+async function appendFactChunk(params: {
+  userId: string;
+  organizationId: string;
+  label: string;
+  value: string;
+  asOf?: Date | null;
+}): Promise<{ documentId: string; chunkIndex: number }> {
+  const { userId, organizationId, label } = params;
+  const document = await ensureFactsDocument(userId, organizationId);
+  // Superseded chunks stay in place for old citations, so count chunks, not facts.
+  const existing = await storage.getOrganizationFacts(organizationId);
+  const chunkIndex = existing.reduce(
+    (next, fact) => Math.max(next, fact.chunkIndex + 1),
+    document.chunkCount ?? 0,
+  );
+
+  const content = factChunkContent({ label, value: params.value, asOf: params.asOf });
+  const endpoint = await storage.getOrganizationAiEndpoint(organizationId);
+  const { embedding, model } = await generateEmbedding(content, endpoint).catch(() => ({
+    embedding: null,
+    model: null,
+  }));
+  await storage.insertDocChunk(document.id, {
+    chunkIndex,
+    content,
+    tokenCount: content.split(/\s+/).length,
+    sectionLabel: label,
+    embedding,
+  });
+  await storage.updateDocument(document.id, {
+    chunkCount: chunkIndex + 1,
+    fileSize: (document.fileSize ?? 0) + content.length,
+    ...(embedding ? { embeddingModel: model, embeddingStatus: "complete", embeddingGeneratedAt: new Date() } : {}),
+  });
+  return { documentId: document.id, chunkIndex };
+}
+
+/** Store a fact and append it to the organization's citable facts document. */
+export async function recordOrganizationFact(params: {
+  userId: string;
+  organizationId: string;
+  /** null for facts about the organization as a whole */
+  projectId: string | null;
+  label: string;
+  value: string;
+  source: "manual" | "clarification" | "assumption" | "document";
+  factKey?: OrganizationFactKey | null;
+  period?: string | null;
+  sourceDocumentId?: string | null;
+  asOf?: Date | null;
+}): Promise<OrganizationFact> {
+  const { userId, organizationId } = params;
+  const label = params.label.trim();
+  const value = params.value.trim();
+  const { documentId, chunkIndex } = await appendFactChunk({ userId, organizationId, label, value, asOf: params.asOf });
+
+  return storage.createOrganizationFact({
+    organizationId,
+    projectId: params.projectId,
+    factKey: params.factKey ?? null,
+    period: params.period?.trim() || null,
+    label,
+    value,
+    source: params.source,
+    sourceDocumentId: params.sourceDocumentId ?? null,
+    asOf: params.asOf ?? null,
+    // Every path here is a person confirming the value.
+    verifiedBy: userId,
+    verifiedAt: new Date(),
+    documentId,
+    chunkIndex,
+    createdBy: userId,
+  });
+}
+
+export interface OrganizationFactChanges {
+  value?: string;
+  period?: string | null;
+  asOf?: Date | null;
+  sourceDocumentId?: string | null;
+}
+
+/**
+ * Edit a fact. A changed label, value or date is written as a new chunk and
+ * the fact repointed at it; answers citing the old chunk keep their quote.
+ */
+export async function updateOrganizationFact(params: {
+  userId: string;
+  fact: OrganizationFact;
+  changes: OrganizationFactChanges;
+}): Promise<OrganizationFact> {
+  const { userId, fact, changes } = params;
+  const value = changes.value?.trim() || fact.value;
+  const period = changes.period === undefined ? fact.period : changes.period?.trim() || null;
+  const asOf = changes.asOf === undefined ? fact.asOf : changes.asOf;
+  const type = getOrganizationFactType(fact.factKey);
+  const label = type ? organizationFactLabel(type.key, period) : fact.label;
+
+  const rewritten =
+    factChunkContent({ label, value, asOf }) !== factChunkContent({ label: fact.label, value: fact.value, asOf: fact.asOf });
+  const chunk = rewritten
+    ? await appendFactChunk({ userId, organizationId: fact.organizationId, label, value, asOf })
+    : { documentId: fact.documentId, chunkIndex: fact.chunkIndex };
+
+  const updated = await storage.updateOrganizationFact(fact.id, {
+    label,
+    value,
+    period: type?.periodic ? period : null,
+    asOf: asOf ?? null,
+    ...(changes.sourceDocumentId !== undefined ? { sourceDocumentId: changes.sourceDocumentId } : {}),
+    ...chunk,
+    verifiedBy: userId,
+    verifiedAt: new Date(),
+  });
+  return updated!;
+}
+
+/**
+ * Add a fact sheet entry, or update the organization-wide entry with the same
+ * type and period (there is one "FY24 budget").
+ */
+export async function saveFactSheetEntry(params: {
+  userId: string;
+  organizationId: string;
+  factKey: OrganizationFactKey;
+  period?: string | null;
+  value: string;
+  asOf?: Date | null;
+  sourceDocumentId?: string | null;
+  source: "manual" | "document";
+}): Promise<OrganizationFact> {
+  const type = getOrganizationFactType(params.factKey)!;
+  const period = type.periodic ? params.period?.trim() || null : null;
+  const facts = await storage.getOrganizationFacts(params.organizationId, null);
+  const existing = facts.find((fact) => fact.factKey === type.key && (fact.period ?? null) === period);
+  if (existing) {
+    return updateOrganizationFact({
+      userId: params.userId,
+      fact: existing,
+      changes: {
+        value: params.value,
+        asOf: params.asOf === undefined ? existing.asOf : params.asOf,
+        ...(params.sourceDocumentId !== undefined ? { sourceDocumentId: params.sourceDocumentId } : {}),
+      },
+    });
+  }
+  return recordOrganizationFact({
+    userId: params.userId,
+    organizationId: params.organizationId,
+    projectId: null,
+    factKey: type.key,
+    period,
+    label: organizationFactLabel(type.key, period),
+    value: params.value,
+    asOf: params.asOf ?? null,
+    sourceDocumentId: params.sourceDocumentId ?? null,
+    source: params.source,
+  });
+}
+
+/**
+ * The fact sheet entries among `facts`, in catalog order with the most recent
+ * period first, capped at `limit`.
+ */
+export function factSheet(facts: OrganizationFact[], limit = FACT_SHEET_PROMPT_LIMIT): OrganizationFact[] {
+  const order = (fact: OrganizationFact) => ORGANIZATION_FACT_TYPES.findIndex((type) => type.key === fact.factKey);
+  return facts
+    .filter((fact) => order(fact) >= 0)
+    .sort((a, b) => order(a) - order(b) || (b.period ?? "").localeCompare(a.period ?? "", undefined, { numeric: true }))
+    .slice(0, limit);
+}
+
+/** A fact as retrieved context, cited through its chunk of the facts document. */
+export function factAsRetrievedChunk(fact: OrganizationFact, similarity = 1): RetrievedChunk {
+  const content = factChunkContent(fact);
+  return {
+    documentId: fact.documentId,
+    documentName: "Organization facts",
+    chunkId: `fact:${fact.id}`,
+    chunkIndex: fact.chunkIndex,
+    content,
+    tokenCount: content.split(/\s+/).length,
+    similarity,
+    source: "fact",
+    category: ORGANIZATION_FACTS_CATEGORY,
+    uploadedAt: fact.createdAt ?? undefined,
+  };
+}
+
+/**
+ * Facts sharing enough terms with `query`, best first. Scored as the share
+ * of the query's terms found in the fact, so a long application question
+ * still matches a short fact that answers it.
+ */
+export function matchOrganizationFacts(
+  query: string,
+  facts: OrganizationFact[],
+  limit = 3,
+): Array<{ fact: OrganizationFact; similarity: number }> {
+  const queryTerms = Array.from(new Set(contentTerms(query)));
+  if (!queryTerms.length) return [];
+
+  return facts
+    .map((fact) => {
+      const factTerms = new Set(contentTerms(`${fact.label} ${fact.value}`));
+      const shared = queryTerms.filter((term) => factTerms.has(term)).length;
+      return { fact, shared, similarity: shared / queryTerms.length };
+    })
+    .filter(({ shared, similarity }) => shared >= 2 || (shared > 0 && similarity >= FACT_MATCH_MIN))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ fact, similarity }) => ({ fact, similarity }));
+}
@@ -0,0 +1,153 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { retrieveRelevantChunks } from "./retrieval.js";
+import { regeneratePassage, snapRangeToMarkers } from "./passageRegeneration.js";
+import type { GenerationSettings } from "./generation.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+vi.mock("./retrieval.js", () => ({ retrieveRelevantChunks: vi.fn() }));
+
+const settings: GenerationSettings = {
+  tone: "professional",
+  emphasisAreas: [],
+  lengthPreference: "balanced",
+  creativity: 30,
+  contextUsage: 80,
+  audience: "program_officer",
+  answerStructure: "prose",
+  claimConfidence: "balanced",
+  aiModel: "local-deterministic",
+  fallbackModel: "local-deterministic",
+};
+
+const sources = {
+  served: "We served 1,240 families in 2025. Most were first-time clients.",
+  afterSchool: "Our after-school program enrolled 85 students. It runs four days a week.",
+  counties: "Families travel from three counties to reach the pantry. Transport is a barrier.",
+};
+
+async function setup(userId: string) {
+  const project = await storage.createProject(userId, { title: "Passage", funder: "Funder" });
+  const docs: Record<keyof typeof sources, string> = { served: "", afterSchool: "", counties: "" };
+  for (const key of Object.keys(sources) as Array<keyof typeof sources>) {
+    const doc = await storage.createDocument(userId, {
+      organizationId: userId,
+      filename: `${key}.txt`,
+      originalName: `${key}.txt`,
+      fileType: "text/plain",
+      fileSize: sources[key].length,
+      category: "organization-info",
+    });
+    await storage.insertDocChunk(doc.id, { chunkIndex: 0, content: sources[key], tokenCount: 12 });
+    docs[key] = doc.id;
+  }
+
+  const response =
+    "We served 1,240 families in 2025. [#1] Families come from nearby areas.\n\n" +
+    "Our after-school program grew quickly. [#2] We thank our funders.";
+  const question = await storage.createGrantQuestion(project.id, { question: "Who do you serve?" });
+  for (const documentId of [docs.served, docs.afterSchool]) {
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: documentId,
+      chunkRefs: [{ chunkIndex: 0, quote: "" }],
+    });
+  }
+  const thanksStart = response.indexOf("We thank");
+  const labelFields = { projectId: project.id, draftId: question.id, category: "context_gap", confidence: 50 };
+  await storage.createAssumptionLabel({
+    ...labelFields,
+    text: "How many volunteers?",
+    suggestedQuestion: "How many volunteers?",
+    position: { start: 0, end: 0 },
+  });
+  await storage.createAssumptionLabel({
+    ...labelFields,
+    text: "Which funders?",
+    suggestedQuestion: "Which funders?",
+    position: { start: thanksStart, end: response.length },
+  });
+  const drafted = await storage.updateGrantQuestion(question.id, { response, responseStatus: "complete" });
+  return { project, question: drafted!, docs, response };
+}
+
+describe("snapRangeToMarkers", () => {
+  it("widens a range that would cut a citation marker in half", () => {
+    const text = "Fact one. [#12] Fact two.";
+    expect(snapRangeToMarkers(text, 12, 13)).toEqual({ start: 10, end: 15 });
+    expect(snapRangeToMarkers(text, 0, 9)).toEqual({ start: 0, end: 9 });
+  });
+});
+
+describe("regeneratePassage", () => {
+  it("splices the new passage in and keeps the rest of the answer, its citations and labels", async () => {
+    const userId = "passage-splice";
+    const { project, question, docs, response } = await setup(userId);
+    const chunk = (documentId: string, content: string) => ({
+      documentId,
+      documentName: "doc",
+      chunkId: `${documentId}-0`,
+      chunkIndex: 0,
+      content,
+      tokenCount: 12,
+      source: "keyword" as const,
+    });
+    vi.mocked(retrieveRelevantChunks).mockResolvedValueOnce({
+      query: "",
+      chunks: [chunk(docs.served, sources.served), chunk(docs.counties, sources.counties)],
+      embeddingGenerated: false,
+    });
+
+    const selected = "Families come from nearby areas.";
+    const start = response.indexOf(selected);
+    const result = await regeneratePassage({
+      userId,
+      project,
+      question,
+      settings,
+      start,
+      end: start + selected.length,
+      instruction: "Say where families come from",
+      estimatedTokens: 1000,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    const passage =
+      "We served 1,240 families in 2025. [#1] Families travel from three counties to reach the pantry. [#3]";
+    const after = response.slice(start + selected.length);
+    expect(result.question.response).toBe(`${response.slice(0, start)}${passage}${after}`);
+    expect(result.passage).toEqual({ start, end: start + passage.length, text: passage });
+
+    const citations = await storage.getDraftCitations(question.id);
+    expect(citations.map((c) => c.sourceDocumentId)).toEqual([docs.served, docs.afterSchool, docs.counties]);
+
+    const labels = await storage.getAssumptionLabels(project.id, question.id);
+    expect(labels.map((l) => l.text)).toEqual(["How many volunteers?", "Which funders?"]);
+    const delta = passage.length - selected.length;
+    expect(labels[1].position).toEqual({ start: response.indexOf("We thank") + delta, end: response.length + delta });
+
+    expect(await storage.getResponseVersions(question.id)).toHaveLength(1);
+  });
+
+  it("rejects ranges outside the answer and questions without one", async () => {
+    const userId = "passage-invalid";
+    const { project, question, response } = await setup(userId);
+    const base = { userId, project, settings, estimatedTokens: 1000 };
+
+    const outside = await regeneratePassage({ ...base, question, start: 5, end: response.length + 1 });
+    expect(outside).toMatchObject({ ok: false, status: 400 });
+
+    const empty = await storage.createGrantQuestion(project.id, { question: "Unanswered?" });
+    expect(await regeneratePassage({ ...base, question: empty, start: 0, end: 1 })).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Regenerate one span of an answer and splice it back in.
+ *
+ * Citation numbering is positional: [#N] in an answer is the Nth
+ * `draft_citations` row. The text outside the span is never rewritten, so
+ * existing rows and markers stay as they are; sources the new passage cites
+ * reuse a matching row or are appended after the existing ones. Rows only
+ * the old passage cited are left in place rather than renumbering the rest of
+ * the answer.
+ */
+
+import { storage } from "../storage.js";
+import { aiService, type RetrievedContextChunk } from "./ai.js";
+import { billingService, calculateCostCents } from "./billing.js";
+import { canServeModels } from "./llm.js";
+import { verifyQuestionClaims } from "./claimVerification.js";
+import { recordGenerationAudit } from "./generationAudit.js";
+import { prepareGroundedGeneration, type GenerationSettings, type RetrievalResult } from "./generation.js";
+import type { AssumptionLabel, DraftCitation, GrantQuestion, Project } from "../../shared/schema.js";
+import { citationPages } from "../../shared/citation-source.js";
+
+const MARKER = /\[#(\d+)\]/g;
+
+export type PassageRegenerationResult =
+  | {
+      ok: true;
+      question: GrantQuestion;
+      /** Where the new passage sits in the updated answer. */
+      passage: { start: number; end: number; text: string };
+      citations: DraftCitation[];
+      assumptions: AssumptionLabel[];
+    }
+  | { ok: false; status: number; error: string };
+
+function stripMarkers(text: string): string {
+  return text.replace(/\s*\[#\d+\]/g, "");
+}
+
+/** Widen [start, end) so it never cuts through a [#N] marker. */
+export function snapRangeToMarkers(text: string, start: number, end: number): { start: number; end: number } {
+  for (const match of text.matchAll(MARKER)) {
+    const markerStart = match.index!;
+    const markerEnd = markerStart + match[0].length;
+    if (start > markerStart && start < markerEnd) start = markerStart;
+    if (end > markerStart && end < markerEnd) end = markerEnd;
+  }
+  return { start, end };
+}
+
+/**
+ * Labels that carry a real position move with the splice; unanswered ones
+ * inside the span are dropped.
+ */
+export function isPositioned(label: AssumptionLabel): label is AssumptionLabel & { position: { start: number; end: number } } {
+  const position = label.position as { start?: unknown; end?: unknown } | null;
+  return typeof position?.start === "number" && typeof position?.end === "number" && position.end > position.start;
+}
+
+function citationKey(documentId: string, chunkIndex: number): string {
+  return `${documentId}:${chunkIndex}`;
+}
+
+function citationChunkIndex(citation: DraftCitation): number {
+  const refs = Array.isArray(citation.chunkRefs) ? (citation.chunkRefs as Array<{ chunkIndex?: number }>) : [];
+  return typeof refs[0]?.chunkIndex === "number" ? refs[0].chunkIndex : 0;
+}
+
+/** The chunks the selected span already cites, so the rewrite can keep those facts. */
+async function resolveCitedChunks(selected: string, citations: DraftCitation[]) {
+  const byMarker = new Map<number, RetrievedContextChunk>();
+  for (const match of selected.matchAll(MARKER)) {
+    const marker = parseInt(match[1], 10);
+    const citation = citations[marker - 1];
+    if (byMarker.has(marker) || !citation?.sourceDocumentId) continue;
+    const chunkIndex = citationChunkIndex(citation);
+    const chunk = await storage.getDocChunk(citation.sourceDocumentId, chunkIndex);
+    if (!chunk) continue;
+    const document = await storage.getDocument(citation.sourceDocumentId);
+    byMarker.set(marker, {
+      documentId: citation.sourceDocumentId,
+      documentName: document?.originalName || document?.filename || "Uploaded document",
+      content: chunk.content,
+      chunkIndex,
+      chunkId: chunk.id,
+      ...citationPages(chunk),
+    });
+  }
+  return byMarker;
+}
+
+export async function regeneratePassage(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  settings: GenerationSettings;
+  start: number;
+  end: number;
+  instruction?: string | null;
+  estimatedTokens: number;
+  pinnedChunks?: RetrievalResult["chunks"];
+}): Promise<PassageRegenerationResult> {
+  const { userId, project, question, settings, instruction, estimatedTokens } = params;
+  const response = question.response ?? "";
+  if (!response.trim() || question.responseStatus === "generating") {
+    return { ok: false, status: 409, error: "This question has no finished answer to edit" };
+  }
+  if (params.start < 0 || params.end > response.length || params.start >= params.end) {
+    return { ok: false, status: 400, error: `Range must fall within the answer (0-${response.length})` };
+  }
+
+  const { start, end } = snapRangeToMarkers(response, params.start, params.end);
+  const before = response.slice(0, start);
+  const selected = response.slice(start, end);
+  const after = response.slice(end);
+  if (!stripMarkers(selected).trim()) {
+    return { ok: false, status: 400, error: "Select some text to regenerate" };
+  }
+
+  const citations = [...(await storage.getDraftCitations(question.id))];
+  const citedChunks = await resolveCitedChunks(selected, citations);
+
+  const { options } = await prepareGroundedGeneration({
+    userId,
+    project,
+    question,
+    settings,
+    query: [question.question, instruction ?? "", stripMarkers(selected)].join("\n"),
+    pinnedChunks: params.pinnedChunks,
+  });
+  if (!canServeModels(options)) {
+    return { ok: false, status: 503, error: "AI generation is not configured on this deployment" };
+  }
+
+  // Context = chunks the passage already cites, then fresh retrieval, de-duplicated.
+  const context: RetrievedContextChunk[] = [];
+  const contextIndex = new Map<string, number>();
+  for (const chunk of [...citedChunks.values(), ...options.retrievedChunks]) {
+    const key = citationKey(chunk.documentId, chunk.chunkIndex);
+    if (contextIndex.has(key)) continue;
+    contextIndex.set(key, context.length);
+    context.push(chunk);
+  }
+  if (!context.length) {
+    return {
+      ok: false,
+      status: 422,
+      error: "No supporting material was found for this passage. Upload documents that cover it, then try again.",
+    };
+  }
+
+  const selectedForPrompt = selected.replace(MARKER, (_marker, n: string) => {
+    const chunk = citedChunks.get(parseInt(n, 10));
+    return chunk ? `[#${contextIndex.get(citationKey(chunk.documentId, chunk.chunkIndex))! + 1}]` : "";
+  });
+
+  const passageOptions = {
+    ...options,
+    retrievedChunks: context,
+    passage: {
+      before: stripMarkers(before),
+      selected: selectedForPrompt,
+      after: stripMarkers(after),
+      instruction: instruction || null,
+    },
+  };
+  const grounded = await aiService.regeneratePassage(passageOptions);
+
+  // Map the model's context markers onto draft citation rows, appending new sources.
+  const rowIndex = new Map<string, number>();
+  citations.forEach((citation, index) => {
+    const key = citation.sourceDocumentId ? citationKey(citation.sourceDocumentId, citationChunkIndex(citation)) : "";
+    if (key && !rowIndex.has(key)) rowIndex.set(key, index);
+  });
+  const appended: DraftCitation[] = [];
+  const markerFor = async (contextMarker: number): Promise<string> => {
+    const chunk = context[contextMarker - 1];
+    if (!chunk) return "";
+    const key = citationKey(chunk.documentId, chunk.chunkIndex);
+    if (!rowIndex.has(key)) {
+      const quote =
+        grounded.citations.find((c) => c.documentId === chunk.documentId && c.chunkIndex === chunk.chunkIndex)?.quote ??
+        chunk.content.slice(0, 160);
+      const row = await storage.createDraftCitation({
+        draftId: question.id,
+        section: "response",
+        sourceDocumentId: chunk.documentId,
+        chunkRefs: [{ chunkIndex: chunk.chunkIndex, quote, ...citationPages(chunk) }],
+      });
+      appended.push(row);
+      rowIndex.set(key, citations.length + appended.length - 1);
+    }
+    return `[#${rowIndex.get(key)! + 1}]`;
+  };
+
+  let passageText = "";
+  let cursor = 0;
+  const generated = grounded.text.trim();
+  for (const match of generated.matchAll(MARKER)) {
+    passageText += generated.slice(cursor, match.index) + (await markerFor(parseInt(match[1], 10)));
+    cursor = match.index! + match[0].length;
+  }
+  passageText += generated.slice(cursor);
+  passageText = passageText.replace(/ +(?=[.,;:!?])/g, "").trim();
+
+  // Keep the whitespace that separated the span from its neighbours.
+  const leading = selected.match(/^\s*/)![0];
+  const trailing = selected.match(/\s*$/)![0];
+  const newSpan = `${leading}${passageText}${trailing}`;
+  const updatedResponse = `${before}${newSpan}${after}`;
+  const delta = newSpan.length - selected.length;
+
+  const passageStart = start + leading.length;
+  const passageEnd = passageStart + passageText.length;
+  const labels = await storage.getAssumptionLabels(project.id, question.id);
+  for (const label of labels) {
+    if (!isPositioned(label)) continue;
+    if (label.position.end > start && label.position.start < end) {
+      // An answered gap is a record that it was closed, so it stays with the new passage.
+      if (label.factId) {
+        await storage.updateAssumptionLabel(label.id, { position: { start: passageStart, end: passageEnd } });
+      } else {
+        await storage.deleteAssumptionLabel(label.id);
+      }
+    } else if (label.position.start >= end) {
+      await storage.updateAssumptionLabel(label.id, {
+        position: { start: label.position.start + delta, end: label.position.end + delta },
+      });
+    }
+  }
+  for (const assumptionText of grounded.assumptions) {
+    await storage.createAssumptionLabel({
+      projectId: project.id,
+      draftId: question.id,
+      text: assumptionText,
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: assumptionText,
+      position: { start: passageStart, end: passageEnd },
+    });
+  }
+
+  const usage = grounded.usage!;
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId: project.id,
+    type: "generation",
+    provider: usage.provider,
+    model: usage.model,
+    tokensIn: usage.tokensIn || estimatedTokens,
+    tokensOut: usage.tokensOut,
+    costCents: calculateCostCents(usage.model, usage.tokensIn || estimatedTokens, usage.tokensOut),
+    metadata: { questionId: question.id, passage: { start, end } },
+  });
+
+  const versions = await storage.getResponseVersions(question.id);
+  const version = await storage.createResponseVersion(question.id, updatedResponse, settings.tone, versions.length + 1);
+  await recordGenerationAudit({
+    userId,
+    project,
+    version,
+    operation: "passage",
+    settings,
+    options: passageOptions,
+    grounded,
+    usage,
+  });
+  const updatedQuestion = (await storage.updateGrantQuestion(question.id, { response: updatedResponse }))!;
+
+  try {
+    await verifyQuestionClaims(updatedQuestion);
+  } catch (verifyErr) {
+    console.warn(`[passage] Failed to verify claims:`, verifyErr);
+  }
+
+  return {
+    ok: true,
+    question: updatedQuestion,
+    passage: { start: passageStart, end: passageEnd, text: passageText },
+    citations: [...citations, ...appended],
+    assumptions: await storage.getAssumptionLabels(project.id, question.id),
+  };
+}
@@ -0,0 +1,113 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { aiService } from "./ai.js";
+import {
+  extractProfileHeuristically,
+  normalizeModelProfile,
+  suggestFactSheetEntries,
+} from "./profileExtraction.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const profile = `Harbor Lights Community Services
+Legal name: Harbor Lights Community Services, Inc. We operate as Harbor Lights (doing business as Harbor Lights Kitchen).
+EIN: 12-3456789. UEI: AB12CD34EF56. DUNS: 12-345-6789.
+Founded in 1998, our fiscal year ends June 30.
+Mailing address: 410 Market Street, Suite 200, Riverside, CA 92501.
+Our mission is to end hunger in Riverside County through food access and nutrition education.
+In FY24 our operating budget was $1.2 million.`;
+
+describe("suggestFactSheetEntries", () => {
+  it("reads typed figures and the year they are for", () => {
+    const text = [
+      "Our FY2024 operating budget was $1.2 million.",
+      "In 2023 we served more than 1,240 families across the region.",
+      "We employ 18 full-time staff and 240 volunteers.",
+      "A 9-member board governs the organization.",
+      "Our service area includes Riverside and San Bernardino counties.",
+      "The annual budget for FY23 was $950,000.",
+    ].join(" ");
+
+    expect(suggestFactSheetEntries(text).map(({ factKey, period, value }) => [factKey, period, value])).toEqual([
+      ["annual_budget", "FY24", "$1.2 million"],
+      ["people_served", "2023", "1,240 families"],
+      ["staff_count", null, "18"],
+      ["volunteer_count", null, "240"],
+      ["board_size", null, "9"],
+      ["service_area", null, "Riverside and San Bernardino counties"],
+      ["annual_budget", "FY23", "$950,000"],
+    ]);
+  });
+
+  it("ignores numbers the sentence does not say are a fact sheet figure", () => {
+    expect(suggestFactSheetEntries("In 2024 staff visited 40 schools. The grant is $50,000.")).toEqual([]);
+  });
+});
+
+describe("extractProfileHeuristically", () => {
+  it("reads identifiers, labelled lines and fact sheet figures", () => {
+    const fields = Object.fromEntries(extractProfileHeuristically(profile).map((p) => [p.field, p.value]));
+    expect(fields).toMatchObject({
+      legalName: "Harbor Lights Community Services",
+      dba: "Harbor Lights Kitchen",
+      ein: "12-3456789",
+      uei: "AB12CD34EF56",
+      duns: "123456789",
+      foundedYear: "1998",
+      fiscalYearEnd: "June 30",
+      address: "410 Market Street, Suite 200, Riverside, CA 92501",
+      "fact:annual_budget:FY24": "$1.2 million",
+    });
+  });
+});
+
+describe("normalizeModelProfile", () => {
+  it("keeps fields whose quote is in the document and drops the rest", () => {
+    const proposals = normalizeModelProfile(
+      {
+        fields: [
+          { field: "legalName", value: "Harbor Lights Community Services, Inc.", quote: "Legal name: Harbor Lights Community Services, Inc.", confidence: 95 },
+          { field: "ein", value: "12 3456789", quote: "EIN: 12-3456789.", confidence: 90 },
+          { field: "annual_budget", value: "$1.2 million", quote: "In FY24 our operating budget   was $1.2 million.", period: "FY2024" },
+          // Not in the document.
+          { field: "uei", value: "ZZ12CD34EF56", quote: "UEI: ZZ12CD34EF56" },
+          // Valid quote, invalid value.
+          { field: "foundedYear", value: "the late nineties", quote: "Founded in 1998" },
+          { field: "favoriteColor", value: "blue", quote: "Harbor Lights" },
+        ],
+      },
+      profile,
+    );
+    expect(proposals).toEqual([
+      {
+        field: "legalName",
+        value: "Harbor Lights Community Services, Inc.",
+        sourceQuote: "Legal name: Harbor Lights Community Services, Inc.",
+        confidence: 95,
+      },
+      { field: "ein", value: "12-3456789", sourceQuote: "EIN: 12-3456789.", confidence: 90 },
+      {
+        field: "fact:annual_budget:FY24",
+        value: "$1.2 million",
+        sourceQuote: "In FY24 our operating budget was $1.2 million.",
+        confidence: 70,
+      },
+    ]);
+  });
+
+  it("returns null when nothing survives, so the heuristics are used", () => {
+    expect(normalizeModelProfile({ text: "…", citations: [] }, profile)).toBeNull();
+    expect(normalizeModelProfile({ fields: [{ field: "ein", value: "12-3456789", quote: "made up" }] }, profile)).toBeNull();
+  });
+});
+
+describe("aiService.extractOrganizationProfile", () => {
+  it("uses the heuristics when no model is configured", async () => {
+    const proposals = await aiService.extractOrganizationProfile(profile);
+    expect(proposals.find((p) => p.field === "ein")).toMatchObject({ value: "12-3456789", sourceQuote: expect.stringContaining("EIN") });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Organization profile extraction (`AIService.extractOrganizationProfile`).
+ *
+ * One of the organization's own documents is read by the model when one is
+ * configured, or by the heuristics below when it is not (or the model's answer
+ * is unusable). Every proposal carries a quote from the document; a model
+ * proposal whose quote does not appear verbatim in the text is dropped, the
+ * same check `normalizeGroundedCitations` applies to answer citations.
+ *
+ * A proposal's field is an organization column ("ein", "legalName"...) or a
+ * fact sheet entry ("fact:annual_budget:FY24").
+ */
+
+import {
+  factSuggestionField,
+  getOrganizationFactType,
+  ORGANIZATION_FACT_TYPES,
+  type OrganizationFactKey,
+} from "../../shared/organization-facts.js";
+
+/** Characters of a document the heuristics read. */
+export const PROFILE_SOURCE_CHARS = 50_000;
+/** Characters of a document the model reads; identifying details come early. */
+export const PROFILE_MODEL_CHARS = 24_000;
+
+export interface ProfileProposal {
+  field: string;
+  value: string;
+  sourceQuote: string;
+  confidence: number;
+}
+
+/** Organization columns extraction may propose, with the hint the model gets. */
+export const PROFILE_FIELDS = {
+  name: "name the organization commonly uses",
+  legalName: "legal name as registered (e.g. on an IRS determination letter or 990)",
+  dba: '"doing business as" name, only when it differs from the legal name',
+  organizationType: 'e.g. "501(c)(3) nonprofit", "government agency"',
+  ein: "federal Employer Identification Number, format 12-3456789",
+  uei: "SAM.gov Unique Entity ID, 12 letters and digits",
+  duns: "DUNS number, 9 digits",
+  foundedYear: "four-digit year the organization was founded or incorporated",
+  fiscalYearEnd: 'month and day the fiscal year ends, e.g. "June 30"',
+  address: "mailing or street address",
+  primaryContact: "name of the primary contact person",
+  contactEmail: "contact email address",
+  mission: "mission statement",
+  focusAreas: "program or focus areas, comma-separated",
+} as const;
+
+export type ProfileField = keyof typeof PROFILE_FIELDS;
+
+export function isProfileField(field: string): field is ProfileField {
+  return Object.prototype.hasOwnProperty.call(PROFILE_FIELDS, field);
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Whether `quote` appears in `text`, ignoring differences in whitespace. */
+export function quoteAppearsIn(quote: string, text: string): boolean {
+  const normalized = normalizeWhitespace(quote);
+  return !!normalized && normalizeWhitespace(text).includes(normalized);
+}
+
+/** The value as stored, or null when it is not a valid value for the field. */
+function normalizeFieldValue(field: ProfileField, raw: string): string | null {
+  const value = normalizeWhitespace(raw);
+  if (!value) return null;
+  switch (field) {
+    case "ein": {
+      const digits = value.replace(/\D/g, "");
+      return /^\d{2}[-\s]?\d{7}$/.test(value) && digits.length === 9 ? `${digits.slice(0, 2)}-${digits.slice(2)}` : null;
+    }
+    case "uei": {
+      const uei = value.replace(/\s/g, "").toUpperCase();
+      return /^[A-Z0-9]{12}$/.test(uei) ? uei : null;
+    }
+    case "duns": {
+      const digits = value.replace(/[\s-]/g, "");
+      return /^\d{9}$/.test(digits) ? digits : null;
+    }
+    case "foundedYear":
+      return /^(?:1[89]\d{2}|20\d{2})$/.test(value) ? value : null;
+    case "contactEmail":
+      return /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i.test(value) ? value : null;
+    default:
+      return value.slice(0, 1000);
+  }
+}
+
+/** "FY24" for fiscal years, "2024" for calendar years, as the fact sheet labels them. */
+function normalizePeriod(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const fiscal = /^FY\s?'?(\d{2}(?:\d{2})?)$/i.exec(raw.trim());
+  if (fiscal) return `FY${fiscal[1].slice(-2)}`;
+  return /^(?:19|20)\d{2}$/.test(raw.trim()) ? raw.trim() : null;
+}
+
+function clampConfidence(raw: unknown, fallback = 70): number {
+  return typeof raw === "number" && Number.isFinite(raw) ? Math.max(0, Math.min(100, Math.round(raw))) : fallback;
+}
+
+/**
+ * Validate model JSON against the document it read. Returns null when it
+ * holds nothing usable, so the caller can fall back to the heuristics.
+ */
+export function normalizeModelProfile(raw: any, text: string): ProfileProposal[] | null {
+  const items = Array.isArray(raw?.fields) ? raw.fields : [];
+  const proposals: ProfileProposal[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object" || typeof item.field !== "string" || typeof item.value !== "string") continue;
+    const quote = typeof item.quote === "string" ? normalizeWhitespace(item.quote) : "";
+    if (!quoteAppearsIn(quote, text)) {
+      console.warn("Dropping profile field without a verbatim quote:", JSON.stringify(item).slice(0, 200));
+      continue;
+    }
+
+    let field: string;
+    let value: string | null;
+    const factType = getOrganizationFactType(item.field.replace(/^fact:/, ""));
+    if (isProfileField(item.field)) {
+      field = item.field;
+      value = normalizeFieldValue(item.field, item.value);
+    } else if (factType) {
+      field = factSuggestionField(factType.key, factType.periodic ? normalizePeriod(item.period) : null);
+      value = normalizeWhitespace(item.value).slice(0, 500) || null;
+    } else {
+      continue;
+    }
+    if (!value || proposals.some((proposal) => proposal.field === field)) continue;
+    proposals.push({ field, value, sourceQuote: quote.slice(0, 500), confidence: clampConfidence(item.confidence) });
+  }
+  return proposals.length ? proposals : null;
+}
+
+function firstRegexMatch(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) return normalizeWhitespace(match[1]);
+  }
+  return null;
+}
+
+function firstSentenceContaining(text: string, terms: string[]): string | null {
+  const sentences = text
+    .split(/(?<=[.!?])\s+/)
+    .map(normalizeWhitespace)
+    .filter(Boolean);
+  return sentences.find((sentence) =>
+    terms.some((term) => sentence.toLowerCase().includes(term.toLowerCase()))
+  ) ?? null;
+}
+
+export interface FactSheetSuggestion {
+  factKey: OrganizationFactKey;
+  period: string | null;
+  value: string;
+  sourceQuote: string;
+  confidence: number;
+}
+
+const FACT_SHEET_PATTERNS: Array<{ factKey: OrganizationFactKey; pattern: RegExp; confidence: number }> = [
+  {
+    factKey: "annual_budget",
+    pattern:
+      /\b(?:annual|operating|organizational|total)\s+(?:operating\s+)?budget\b[^.$]{0,40}?(\$\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|thousand|M|K)\b)?)/i,
+    confidence: 80,
+  },
+  {
+    factKey: "staff_count",
+    pattern: /\b(\d{1,4})\s+(?:full-time\s+|part-time\s+|paid\s+)?(?:staff(?:\s+members)?|employees|FTEs?)\b/i,
+    confidence: 70,
+  },
+  {
+    factKey: "volunteer_count",
+    pattern: /\b(\d[\d,]*)\s+(?:active\s+|regular\s+)?volunteers\b/i,
+    confidence: 70,
+  },
+  {
+    factKey: "people_served",
+    pattern:
+      /\bserv(?:ed|es|e)\s+(?:more than\s+|over\s+|approximately\s+|nearly\s+|about\s+)?(\d[\d,]*\s+(?:people|individuals|families|clients|students|youth|children|participants|households|residents|patients|seniors|veterans))\b/i,
+    confidence: 75,
+  },
+  {
+    factKey: "service_area",
+    pattern: /\bservice area\s*(?:is|includes|covers|spans|:|-)\s*(.{4,120}?)(?:[.;]\s|[.;]?$)/i,
+    confidence: 65,
+  },
+  {
+    factKey: "board_size",
+    pattern: /\b(\d{1,3})[- ](?:member|person)\s+board\b/i,
+    confidence: 70,
+  },
+];
+
+/** "FY24" or "2024" when a sentence says which year its figure is for. */
+function sentencePeriod(sentence: string): string | null {
+  const fiscal = /\bFY\s?'?(\d{2}(?:\d{2})?)\b/i.exec(sentence);
+  if (fiscal) return `FY${fiscal[1].slice(-2)}`;
+  return /\b((?:19|20)\d{2})\b/.exec(sentence)?.[1] ?? null;
+}
+
+/**
+ * Fact sheet entries stated in a document's text, one per type and period
+ * (the first mention wins). Figures only count when the sentence names what
+ * they measure, so a stray number never becomes a budget.
+ */
+export function suggestFactSheetEntries(text: string, limit = 8): FactSheetSuggestion[] {
+  const sentences = text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const suggestions: FactSheetSuggestion[] = [];
+  for (const sentence of sentences) {
+    for (const { factKey, pattern, confidence } of FACT_SHEET_PATTERNS) {
+      const value = pattern.exec(sentence)?.[1]?.trim();
+      // A bare year ("in 2024 staff...") is not a head count.
+      if (!value || /^(?:19|20)\d{2}$/.test(value)) continue;
+      const period = getOrganizationFactType(factKey)!.periodic ? sentencePeriod(sentence) : null;
+      if (suggestions.some((s) => s.factKey === factKey && s.period === period)) continue;
+      suggestions.push({ factKey, period, value, sourceQuote: sentence.slice(0, 500), confidence });
+    }
+  }
+  return suggestions.slice(0, limit);
+}
+
+const MONTH = "January|February|March|April|May|June|July|August|September|October|November|December";
+
+/**
+ * Pattern-based reading used without a model: identifiers, a few labelled
+ * lines ("Mission:", "Legal name:") and the fact sheet figures.
+ */
+export function extractProfileHeuristically(text: string): ProfileProposal[] {
+  const source = normalizeWhitespace(text).slice(0, PROFILE_SOURCE_CHARS);
+  const proposals: ProfileProposal[] = [];
+  const add = (field: ProfileField, raw: string | null, sourceQuote: string | null, confidence: number) => {
+    const value = raw ? normalizeFieldValue(field, raw) : null;
+    if (!value) return;
+    proposals.push({
+      field,
+      value,
+      sourceQuote: (sourceQuote ?? firstSentenceContaining(source, [raw!]) ?? raw!).slice(0, 500),
+      confidence,
+    });
+  };
+
+  const legalName = firstRegexMatch(source, [/\b[Ll]egal name(?:\s|:|-|is)+([A-Z][^.;,]{2,100}?)(?=[.;,]|$)/]);
+  add("legalName", legalName, null, 70);
+
+  const dba = firstRegexMatch(source, [/\b(?:d\/b\/a|doing business as)\s*:?\s+([A-Z][^.;,)]{2,80}?)(?=[.;,)]|$)/i]);
+  add("dba", dba, null, 70);
+
+  const ein = firstRegexMatch(source, [
+    /\bEIN(?:\s|\u00a0|:|-)*(?:number|#)?(?:\s|\u00a0|:|-)*(\d{2}-\d{7})\b/i,
+    /\bFederal Tax ID(?:\s|\u00a0|:|-)*(\d{2}-\d{7})\b/i,
+  ]);
+  add("ein", ein, null, 90);
+
+  const uei = firstRegexMatch(source, [/\bUEI(?:\s|:|#|-|number)*([A-Z0-9]{12})\b/i]);
+  add("uei", uei, null, 85);
+
+  const duns = firstRegexMatch(source, [/\bDUNS(?:\s|:|#|-|number)*(\d{2}-?\d{3}-?\d{4})\b/i]);
+  add("duns", duns, null, 85);
+
+  const year = firstRegexMatch(source, [
+    /\b(?:founded|established|incorporated)(?:\s|\u00a0|in|:|-)*(19\d{2}|20\d{2})\b/i,
+  ]);
+  add("foundedYear", year, year ? firstSentenceContaining(source, [year]) : null, 75);
+
+  const fiscalYearEnd = firstRegexMatch(source, [
+    new RegExp(`\\bfiscal year (?:ends?|ending)(?: on)?\\s+((?:${MONTH})\\s+\\d{1,2})\\b`, "i"),
+  ]);
+  add("fiscalYearEnd", fiscalYearEnd, null, 75);
+
+  const address = firstRegexMatch(source, [
+    /\b(\d{1,6}\s+[A-Z][A-Za-z0-9.' ]{1,40}\s(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way)\.?,?\s+(?:(?:Suite|Ste\.?)\s*\w+,?\s+)?[A-Z][A-Za-z .]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?)/,
+  ]);
+  add("address", address, null, 65);
+
+  const email = firstRegexMatch(source, [/\b([A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,})\b/i]);
+  add("contactEmail", email, null, 80);
+
+  const mission = firstRegexMatch(source, [
+    /\bmission(?:\s|\u00a0|statement)?(?:\s|\u00a0|:|-)+(.{40,500}?)(?:\n|\. [A-Z]|$)/i,
+  ]);
+  add("mission", mission, mission, 70);
+
+  const type = firstRegexMatch(source, [
+    /\b(501\(c\)\(3\)\s+nonprofit|501\(c\)3\s+nonprofit|nonprofit organization|educational institution|government agency|research institution)\b/i,
+  ]);
+  add("organizationType", type, null, 65);
+
+  const focusLine = firstRegexMatch(source, [
+    /\b(?:focus areas|program areas|service areas|priority areas)(?:\s|\u00a0|:|-)+(.{10,180}?)(?:\n|\.|$)/i,
+  ]);
+  if (focusLine) {
+    const focusAreas = focusLine
+      .split(/,|;|\band\b/i)
+      .map(normalizeWhitespace)
+      .filter((area) => area.length >= 3)
+      .slice(0, 8);
+    add("focusAreas", focusAreas.join(", "), focusLine, 60);
+  }
+
+  for (const entry of suggestFactSheetEntries(source)) {
+    proposals.push({
+      field: factSuggestionField(entry.factKey, entry.period),
+      value: entry.value,
+      sourceQuote: entry.sourceQuote,
+      confidence: entry.confidence,
+    });
+  }
+  return proposals;
+}
+
+const FIELD_LINES = [
+  ...Object.entries(PROFILE_FIELDS).map(([field, hint]) => `  - ${field}: ${hint}`),
+  ...ORGANIZATION_FACT_TYPES.map(
+    (type) =>
+      `  - ${type.key}: ${type.label.toLowerCase()} (${type.kind === "text" ? "text" : type.kind}${type.periodic ? ", per year" : ""})`,
+  ),
+].join("\n");
+
+export const PROFILE_EXTRACTION_INSTRUCTIONS = `You read one of an organization's own documents (annual report, Form 990, website text, board minutes...) and extract facts about that organization for its grant profile.
+
+Return a single JSON object with a "fields" array. Each item has EXACTLY these keys: { field, value, quote, period, confidence }
+- field: one of
+${FIELD_LINES}
+- value: the value as it should be stored, written as in the document (keep currency symbols and units, e.g. "$1.2 million", "1,240 families").
+- quote: the sentence or phrase that states the value, copied character for character from the document.
+- period: for items marked "per year", the fiscal or calendar year the figure is for as written ("FY24", "2023"), otherwise null.
+- confidence: integer 0-100.
+
+Only include fields the document states about this organization (not funders, partners or peers). Never guess or compute a value. Use an empty array when the document states none.`;
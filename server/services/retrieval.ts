@@ -1,5 +1,8 @@
 import { storage } from "../storage.js";
 import { generateEmbedding } from "./embedding.js";
+import { factAsRetrievedChunk, matchOrganizationFacts } from "./organizationFacts.js";
+import { ORGANIZATION_FACTS_CATEGORY } from "../../shared/organization-facts.js";
+import type { CitationPages } from "../../shared/citation-source.js";
 
 interface RetrieveOptions {
   userId: string;
@@ -19,7 +22,7 @@ interface RetrieveOptions {
   minSimilarity?: number;
 }
 
-export interface RetrievedChunk {
+export interface RetrievedChunk extends CitationPages {
   documentId: string;
   documentName: string;
   chunkId: string;
@@ -27,7 +30,7 @@ export interface RetrievedChunk {
   content: string;
   tokenCount: number;
   similarity?: number;
-  source: "semantic" | "keyword";
+  source: "semantic" | "keyword" | "fact" | "library";
   category?: string | null;
   uploadedAt?: Date;
 }
@@ -56,7 +59,8 @@ export async function retrieveRelevantChunks(options: RetrieveOptions): Promise<
 
   const chunksMap = new Map<string, RetrievedChunk>();
 
-  const embeddingResult = await generateEmbedding(query);
+  const endpoint = organizationId ? await storage.getOrganizationAiEndpoint(organizationId) : undefined;
+  const embeddingResult = await generateEmbedding(query, endpoint);
   const embeddingGenerated = !!embeddingResult.embedding;
 
   if (embeddingResult.embedding) {
@@ -66,7 +70,8 @@ export async function retrieveRelevantChunks(options: RetrieveOptions): Promise<
           organizationId,
           embeddingResult.embedding,
           semanticLimit,
-          projectId
+          projectId,
+          embeddingResult.model
         )
       : await storage.searchDocChunksByEmbedding(
           userId,
@@ -85,6 +90,8 @@ export async function retrieveRelevantChunks(options: RetrieveOptions): Promise<
         chunkIndex: record.chunk.chunkIndex,
         content: record.chunk.content,
         tokenCount: record.chunk.tokenCount ?? record.chunk.content.split(/\s+/).length,
+        pageStart: record.chunk.pageStart,
+        pageEnd: record.chunk.pageEnd,
         similarity,
         source: "semantic",
         category: record.document.category,
@@ -117,6 +124,8 @@ export async function retrieveRelevantChunks(options: RetrieveOptions): Promise<
         chunkIndex: record.chunk.chunkIndex,
         content: record.chunk.content,
         tokenCount: record.chunk.tokenCount ?? record.chunk.content.split(/\s+/).length,
+        pageStart: record.chunk.pageStart,
+        pageEnd: record.chunk.pageEnd,
         similarity: existing?.similarity ?? record.similarity ?? 0.25,
         // Keyword evidence upgrades retention even when the same chunk was
         // already seen via semantic search with low similarity.
@@ -129,14 +138,35 @@ export async function retrieveRelevantChunks(options: RetrieveOptions): Promise<
     }
   }
 
+  // Organization facts are matched on their own: a one-line fact rarely
+  // outranks whole document chunks, but it is exactly what the answer needs.
+  if (organizationId) {
+    const facts = await storage.getOrganizationFacts(organizationId, projectId);
+    // Chunks of edited or deleted facts stay for old citations but are no longer true.
+    const current = new Set(facts.map((fact) => `${fact.documentId}:${fact.chunkIndex}`));
+    for (const [key, chunk] of chunksMap) {
+      if (chunk.category === ORGANIZATION_FACTS_CATEGORY && !current.has(`${chunk.documentId}:${chunk.chunkIndex}`)) {
+        chunksMap.delete(key);
+      }
+    }
+    for (const { fact, similarity } of matchOrganizationFacts(query, facts)) {
+      const found = Array.from(chunksMap.entries()).find(
+        ([, chunk]) => chunk.documentId === fact.documentId && chunk.chunkIndex === fact.chunkIndex,
+      );
+      const chunk = factAsRetrievedChunk(fact, Math.max(similarity, found?.[1].similarity ?? 0));
+      chunksMap.set(found?.[0] ?? chunk.chunkId, found ? { ...chunk, chunkId: found[1].chunkId } : chunk);
+    }
+  }
+
   const merged = Array.from(chunksMap.values())
     .filter((chunk) => {
       // Keyword matches are retained regardless of embedding similarity —
       // the query literally appears in the chunk text, which is itself a
       // strong signal. We only apply the similarity floor to purely
       // semantic hits, which are where the noisy "low relevance" chunks
-      // that pad prompts with unrelated context tend to come from.
-      if (chunk.source === "keyword") return true;
+      // that pad prompts with unrelated context tend to come from. Facts
+      // were term-matched above, which is the same kind of evidence.
+      if (chunk.source === "keyword" || chunk.source === "fact") return true;
       return (chunk.similarity ?? 0) >= minSimilarity;
     })
     .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
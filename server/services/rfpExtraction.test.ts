@@ -0,0 +1,159 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { aiService } from "./ai.js";
+import {
+  extractPassHeuristically,
+  mergeRfpPasses,
+  normalizeModelPass,
+  splitIntoPasses,
+} from "./rfpExtraction.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const rfp = `COMMUNITY HEALTH FUND 2026 REQUEST FOR PROPOSALS
+
+The Fund supports programs that improve access to care.
+
+Eligibility
+- Applicants must be 501(c)(3) organizations.
+- Annual budget under $5 million.
+
+SECTION 2: PROGRAM NARRATIVE
+1. Describe your program. (500 words)
+2. Who is your target population and how many people will you serve?
+3. Share any partnerships that strengthen the work (optional) (1,500 characters max)
+
+Evaluation Criteria
+- Community need (30 points)
+- Program design – 40%
+
+Required Attachments
+- IRS Determination Letter
+- Board-approved budget`;
+
+describe("extractPassHeuristically", () => {
+  it("finds instruction prompts, limits, sections and the separate lists", () => {
+    const result = extractPassHeuristically({ text: rfp, section: null });
+
+    expect(result.questions).toEqual([
+      {
+        question: "Describe your program.",
+        section: "PROGRAM NARRATIVE",
+        wordLimit: 500,
+        limitType: "words",
+        required: true,
+      },
+      {
+        question: "Who is your target population and how many people will you serve?",
+        section: "PROGRAM NARRATIVE",
+        wordLimit: null,
+        limitType: "words",
+        required: true,
+      },
+      {
+        question: "Share any partnerships that strengthen the work",
+        section: "PROGRAM NARRATIVE",
+        wordLimit: 1500,
+        limitType: "characters",
+        required: false,
+      },
+    ]);
+    expect(result.eligibility).toEqual([
+      "Applicants must be 501(c)(3) organizations.",
+      "Annual budget under $5 million.",
+    ]);
+    expect(result.evaluationCriteria).toEqual([
+      { text: "Community need", weight: "30 points" },
+      { text: "Program design", weight: "40%" },
+    ]);
+    expect(result.attachments).toEqual(["IRS Determination Letter", "Board-approved budget"]);
+  });
+});
+
+describe("splitIntoPasses", () => {
+  it("splits at paragraphs and carries the heading in effect into the next pass", () => {
+    const passes = splitIntoPasses(rfp, 200);
+    expect(passes.map((p) => p.text).join("\n\n")).toBe(rfp);
+
+    expect(passes.map((p) => p.section)).toEqual([null, "Eligibility", "PROGRAM NARRATIVE"]);
+  });
+});
+
+describe("normalizeModelPass", () => {
+  it("keeps valid items, applies explicit limits and rejects empty output", () => {
+    const pass = { text: "", section: "Narrative" };
+    expect(
+      normalizeModelPass(
+        {
+          questions: [
+            { prompt: "Describe your program.", limit: { value: 2000, unit: "characters" }, required: true },
+            { prompt: "" },
+            { prompt: "Explain your budget notes (300 words)", section: "Budget", limit: null, required: false },
+          ],
+          attachments: ["Audit", 4],
+          evaluationCriteria: [{ text: "Impact", weight: "25 points" }],
+        },
+        pass,
+      ),
+    ).toEqual({
+      questions: [
+        { question: "Describe your program.", section: "Narrative", wordLimit: 2000, limitType: "characters", required: true },
+        { question: "Explain your budget notes", section: "Budget", wordLimit: 300, limitType: "words", required: false },
+      ],
+      attachments: ["Audit"],
+      eligibility: [],
+      evaluationCriteria: [{ text: "Impact", weight: "25 points" }],
+    });
+    expect(normalizeModelPass({ text: "a draft answer", citations: [] }, pass)).toBeNull();
+  });
+});
+
+describe("mergeRfpPasses", () => {
+  it("orders questions across passes and drops repeats", () => {
+    const question = (text: string) => ({
+      question: text,
+      section: null,
+      wordLimit: null,
+      limitType: "words" as const,
+      required: true,
+    });
+    const merged = mergeRfpPasses([
+      { questions: [question("Describe your program.")], attachments: ["Audit"], eligibility: [], evaluationCriteria: [] },
+      {
+        questions: [question("Describe your program"), question("What is your budget?")],
+        attachments: ["audit"],
+        eligibility: [],
+        evaluationCriteria: [],
+      },
+    ]);
+    expect(merged.questions.map((q) => [q.order, q.question])).toEqual([
+      [0, "Describe your program."],
+      [1, "What is your budget?"],
+    ]);
+    expect(merged.attachments).toEqual(["Audit"]);
+    expect(merged.demo).toBe(false);
+  });
+});
+
+describe("AIService.extractQuestions", () => {
+  it("reads the whole document heuristically when no model is configured", async () => {
+    const filler = Array.from({ length: 400 }, (_, i) => `Background paragraph ${i} about the fund's history.`).join("\n\n");
+    const document = `${filler}\n\n${rfp}`;
+    expect(splitIntoPasses(document).length).toBeGreaterThan(1);
+
+    const extraction = await aiService.extractQuestions(document);
+    expect(extraction.demo).toBe(false);
+    expect(extraction.questions.map((q) => q.question)).toContain("Describe your program.");
+    expect(extraction.attachments).toContain("IRS Determination Letter");
+  });
+
+  it("returns placeholder questions only when nothing is found", async () => {
+    const extraction = await aiService.extractQuestions("Thank you for your interest.");
+    expect(extraction.demo).toBe(true);
+    expect(extraction.questions.length).toBeGreaterThan(0);
+  });
+});
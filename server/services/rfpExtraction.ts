@@ -0,0 +1,249 @@
+/**
+ * Helpers for structured RFP extraction (`AIService.extractQuestions`).
+ *
+ * Long RFPs are read in passes of whole paragraphs; each pass knows the
+ * section heading it starts under so prompts keep their section even when a
+ * pass boundary falls inside one. Each pass is read by the model when one is
+ * configured, or by the heuristics below when it is not (or the model's
+ * answer is unusable), and the passes are merged in document order.
+ */
+
+import {
+  isAnswerLimitType,
+  parseAnswerLimit,
+  type AnswerLimitType,
+} from "../../shared/answer-limits.js";
+import type { EvaluationCriterion, ExtractedQuestion, RfpExtraction } from "../../shared/rfp-extraction.js";
+
+/** Characters per extraction pass. */
+export const RFP_PASS_CHARS = 12_000;
+/** Passes beyond this are not read (about 240k characters of RFP). */
+export const RFP_MAX_PASSES = 20;
+
+export interface RfpPass {
+  text: string;
+  /** Heading in effect where the pass starts */
+  section: string | null;
+}
+
+/** One pass's findings before merging; `order` is assigned at merge time. */
+export interface RfpPassResult {
+  questions: Array<Omit<ExtractedQuestion, "order">>;
+  attachments: string[];
+  eligibility: string[];
+  evaluationCriteria: EvaluationCriterion[];
+}
+
+type ListKind = "attachments" | "eligibility" | "evaluationCriteria";
+
+const LIST_SECTIONS: Array<[ListKind, RegExp]> = [
+  ["attachments", /attachment|required documents|supporting documents|appendi|enclosure|checklist/i],
+  ["eligibility", /eligib/i],
+  ["evaluationCriteria", /evaluation|scoring|review criteria|selection criteria|rubric/i],
+];
+
+/** Headings that end a list section even when written in Title Case. */
+const SECTION_NAME = /\b(narrative|overview|instructions|questions|application|submission|timeline|deadlines?|contacts?|background)\b/i;
+const LIST_PREFIX = /^(?:[-•*▪●◦]|\(?[0-9]{1,2}[.)]|\(?[a-z][.)]|q[0-9]{1,2}[.:)]?)\s+/i;
+const PROMPT_START =
+  /^(?:please\s+)?(describe|explain|provide|outline|discuss|identify|summarize|share|tell us|detail|what|how|why|who|when|where|which|list)\b/i;
+const OPTIONAL_FLAG = /\((?:optional)\)|\[(?:optional)\]|^optional\s*[:–-]\s*/i;
+const REQUIRED_FLAG = /\((?:required)\)|\[(?:required)\]|^required\s*[:–-]\s*|\s*\*$/i;
+const WEIGHT = /\(?\b(\d{1,3}\s*(?:points?|pts?\.?|%))\)?/i;
+
+function clean(line: string): string {
+  return line.replace(/\s+/g, " ").trim();
+}
+
+function stripListPrefix(line: string): string {
+  return line.replace(LIST_PREFIX, "").trim();
+}
+
+function keyOf(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function listKindFor(section: string | null): ListKind | null {
+  if (!section) return null;
+  return LIST_SECTIONS.find(([, pattern]) => pattern.test(section))?.[0] ?? null;
+}
+
+/**
+ * Short label-like lines: "SECTION 3: PROGRAM DESIGN", "Eligibility:",
+ * "## Budget", or a Title Case line such as "2. Project Narrative". Inside an
+ * attachment or eligibility list most Title Case lines are list items
+ * ("IRS Determination Letter"), so there one only counts when it names
+ * another section ("Evaluation Criteria", "Application Questions").
+ */
+function isHeading(line: string, section: string | null): boolean {
+  const text = clean(line);
+  if (!text || text.length > 80 || /[.?!]$/.test(text) || /^[-•*▪●◦]\s/.test(text)) return false;
+  if (parseAnswerLimit(text).wordLimit !== null) return false;
+  if (/^#{1,6}\s/.test(text) || /^(section|part|article)\s+[0-9ivx]+\b/i.test(text)) return true;
+  if (/^[A-Z0-9][A-Z0-9 &/,:()'-]+$/.test(text) && /[A-Z]{3}/.test(text)) return true;
+  if (text.endsWith(":") && text.split(" ").length <= 6) return true;
+  const body = stripListPrefix(text);
+  const words = body.split(" ");
+  const titleCase =
+    words.length <= 8 && !PROMPT_START.test(body) && words.every((w) => w.length <= 3 || /^[A-Z0-9(&]/.test(w));
+  return titleCase && (!listKindFor(section) || listKindFor(body) !== null || SECTION_NAME.test(body));
+}
+
+function headingText(line: string): string {
+  const text = clean(line).replace(/^#{1,6}\s+/, "").replace(/:$/, "");
+  const named = text.replace(/^(section|part|article)\s+[0-9ivx]+\s*[:.–-]?\s*/i, "");
+  return stripListPrefix(named || text) || text;
+}
+
+/** Group whole paragraphs into passes of at most `maxChars` (a longer paragraph is its own pass). */
+export function splitIntoPasses(text: string, maxChars = RFP_PASS_CHARS): RfpPass[] {
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  const passes: RfpPass[] = [];
+  let current: string[] = [];
+  let currentSection: string | null = null;
+  let section: string | null = null;
+
+  for (const paragraph of paragraphs) {
+    if (current.length && current.join("\n\n").length + paragraph.length + 2 > maxChars) {
+      passes.push({ text: current.join("\n\n"), section: currentSection });
+      current = [];
+    }
+    if (!current.length) currentSection = section;
+    current.push(paragraph);
+    for (const line of paragraph.split(/\n/)) {
+      if (isHeading(line, section)) section = headingText(line);
+    }
+  }
+  if (current.length) passes.push({ text: current.join("\n\n"), section: currentSection });
+  return passes;
+}
+
+function toQuestion(prompt: string, section: string | null): Omit<ExtractedQuestion, "order"> | null {
+  const required = !OPTIONAL_FLAG.test(prompt);
+  const withoutFlag = clean(prompt.replace(REQUIRED_FLAG, "").replace(OPTIONAL_FLAG, ""));
+  const parsed = parseAnswerLimit(withoutFlag);
+  if (parsed.question.split(" ").length < 3) return null;
+  return { question: parsed.question, section, wordLimit: parsed.wordLimit, limitType: parsed.limitType, required };
+}
+
+/**
+ * Line-based reading of one pass: prompts are lines that ask something or
+ * state an answer limit; lines under attachment, eligibility and evaluation
+ * headings become list items instead.
+ */
+export function extractPassHeuristically(pass: RfpPass): RfpPassResult {
+  const result: RfpPassResult = { questions: [], attachments: [], eligibility: [], evaluationCriteria: [] };
+  let section = pass.section;
+
+  for (const raw of pass.text.split(/\n/)) {
+    const line = clean(raw);
+    if (!line) continue;
+    if (isHeading(line, section)) {
+      section = headingText(line);
+      continue;
+    }
+
+    const body = stripListPrefix(line);
+    const listKind = listKindFor(section);
+    if (listKind === "evaluationCriteria") {
+      const weight = body.match(WEIGHT)?.[1] ?? null;
+      const text = clean(body.replace(WEIGHT, "").replace(/[\s:–-]+$/, ""));
+      if (text) result.evaluationCriteria.push({ text, weight });
+      continue;
+    }
+    if (listKind) {
+      result[listKind].push(body);
+      continue;
+    }
+
+    const asks = /\?(\s*[([][^()[\]]*[)\]])?$/.test(body) || PROMPT_START.test(body);
+    if (asks || parseAnswerLimit(body).wordLimit !== null) {
+      const question = toQuestion(body, section);
+      if (question) result.questions.push(question);
+    }
+  }
+  return result;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map((item) => (typeof item === "string" ? clean(item) : "")).filter(Boolean)
+    : [];
+}
+
+/**
+ * Validate one pass of model JSON. Returns null when it holds nothing usable,
+ * so the caller can fall back to the heuristics for that pass.
+ */
+export function normalizeModelPass(raw: any, pass: RfpPass): RfpPassResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const questions: RfpPassResult["questions"] = [];
+  for (const item of Array.isArray(raw.questions) ? raw.questions : []) {
+    const prompt = typeof item === "string" ? item : typeof item?.prompt === "string" ? item.prompt : item?.question;
+    if (typeof prompt !== "string" || !prompt.trim()) continue;
+    const question = toQuestion(prompt, typeof item?.section === "string" && item.section.trim() ? clean(item.section) : pass.section);
+    if (!question) continue;
+
+    const limit = item?.limit;
+    const value = typeof limit?.value === "number" ? Math.round(limit.value) : NaN;
+    if (value > 0 && isAnswerLimitType(limit?.unit)) {
+      question.wordLimit = value;
+      question.limitType = limit.unit as AnswerLimitType;
+    }
+    if (typeof item?.required === "boolean") question.required = item.required;
+    questions.push(question);
+  }
+
+  const evaluationCriteria: EvaluationCriterion[] = [];
+  for (const item of Array.isArray(raw.evaluationCriteria) ? raw.evaluationCriteria : []) {
+    const text = typeof item === "string" ? clean(item) : typeof item?.text === "string" ? clean(item.text) : "";
+    if (!text) continue;
+    const weight = typeof item?.weight === "string" && item.weight.trim() ? clean(item.weight) : null;
+    evaluationCriteria.push({ text, weight });
+  }
+
+  const result = {
+    questions,
+    attachments: stringList(raw.attachments),
+    eligibility: stringList(raw.eligibility),
+    evaluationCriteria,
+  };
+  const found =
+    result.questions.length + result.attachments.length + result.eligibility.length + evaluationCriteria.length;
+  return found ? result : null;
+}
+
+/** Concatenate passes in order, dropping repeats (e.g. a prompt restated in a checklist). */
+export function mergeRfpPasses(passes: RfpPassResult[], demo = false): RfpExtraction {
+  const seen = new Set<string>();
+  const unique = <T>(items: T[], key: (item: T) => string) =>
+    items.filter((item) => {
+      const k = key(item);
+      if (!k || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+
+  const questions = unique(
+    passes.flatMap((p) => p.questions),
+    (q) => `q:${keyOf(q.question)}`,
+  ).map((question, order) => ({ ...question, order }));
+
+  return {
+    questions,
+    attachments: unique(passes.flatMap((p) => p.attachments), (a) => `a:${keyOf(a)}`),
+    eligibility: unique(passes.flatMap((p) => p.eligibility), (e) => `e:${keyOf(e)}`),
+    evaluationCriteria: unique(passes.flatMap((p) => p.evaluationCriteria), (c) => `c:${keyOf(c.text)}`),
+    demo,
+  };
+}
+
+export const RFP_EXTRACTION_INSTRUCTIONS = `You extract the structure of a grant RFP or application form. You are given one excerpt of a longer document, plus the section heading in effect where the excerpt starts.
+
+Return a single JSON object with EXACTLY these fields:
+- questions (array): every prompt the applicant must answer, in document order. Include instructions that are not phrased as questions ("Describe your program."). Shape: { prompt, section, limit, required } where prompt is the applicant-facing text without numbering, section is the nearest heading above it (or null), limit is { value, unit } with unit one of "words", "characters", "characters_no_spaces" (use "characters" unless the RFP says spaces are excluded) or null when no limit is stated, and required is false only when the RFP marks the prompt optional.
+- attachments (array of strings): documents the applicant must attach or upload.
+- eligibility (array of strings): rules an applicant must meet to apply.
+- evaluationCriteria (array): how applications are scored, shape { text, weight } where weight is the stated points or percentage as written, or null.
+
+Copy wording from the document; do not invent items. Use empty arrays when the excerpt has none.`;
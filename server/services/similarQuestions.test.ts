@@ -0,0 +1,227 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { aiService } from "./ai.js";
+import { hashResponse } from "./claimVerification.js";
+import * as embedding from "./embedding.js";
+import {
+  adaptSimilarAnswer,
+  findSimilarAnswers,
+  findSimilarAnswersForQuestions,
+  prepareSimilarQuestions,
+  questionOverlap,
+} from "./similarQuestions.js";
+import type { GenerationSettings } from "./generation.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const settings: GenerationSettings = {
+  tone: "professional",
+  emphasisAreas: [],
+  lengthPreference: "balanced",
+  creativity: 30,
+  contextUsage: 80,
+  audience: "program_officer",
+  answerStructure: "prose",
+  claimConfidence: "balanced",
+  aiModel: "local-deterministic",
+  fallbackModel: "local-deterministic",
+};
+
+function unitVector(...values: number[]): number[] {
+  const norm = Math.hypot(...values);
+  return values.map((value) => value / norm);
+}
+
+async function embed(questionId: string, text: string, embedding: number[]) {
+  await storage.saveQuestionEmbedding({
+    questionId,
+    contentHash: hashResponse(text),
+    embedding,
+    embeddingModel: "test-embedding",
+  });
+}
+
+async function answeredProject(userId: string, title: string, status = "draft") {
+  const project = await storage.createProject(userId, { title, funder: `${title} Foundation` });
+  await storage.updateProject(project.id, { status });
+  const document = await storage.createDocument(userId, {
+    organizationId: project.organizationId,
+    filename: "annual-report.txt",
+    originalName: "Annual report.txt",
+    fileType: "text/plain",
+    fileSize: 120,
+    category: "organization-info",
+  });
+  await storage.insertDocChunk(document.id, { chunkIndex: 0, content: "We served 1,240 families in 2025.", tokenCount: 8 });
+  await storage.insertDocChunk(document.id, { chunkIndex: 1, content: "Volunteers logged 6,000 hours.", tokenCount: 6 });
+  const question = await storage.createGrantQuestion(project.id, { question: "Describe the families your program serves." });
+  for (const chunkIndex of [0, 1]) {
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: "response",
+      sourceDocumentId: document.id,
+      chunkRefs: [{ chunkIndex, quote: "" }],
+    });
+  }
+  const answered = await storage.updateGrantQuestion(question.id, {
+    response: "We served 1,240 families in 2025. [#1] Volunteers logged 6,000 hours. [#2]",
+    responseStatus: "complete",
+  });
+  return { project: (await storage.getProject(project.id))!, document, question: answered! };
+}
+
+describe("questionOverlap", () => {
+  it("scores shared terms over the larger term set", () => {
+    expect(questionOverlap("Describe the families you serve", "Describe the families you serve")).toBe(1);
+    expect(questionOverlap("Annual operating budget", "Board member names")).toBe(0);
+    expect(questionOverlap("", "Describe your budget")).toBe(0);
+  });
+});
+
+describe("findSimilarAnswers", () => {
+  it("matches answered questions from other projects on shared terms without an embedding model", async () => {
+    const userId = "similar-keyword";
+    const earlier = await answeredProject(userId, "Pantry 2024", "awarded");
+    const project = await storage.createProject(userId, { title: "Pantry 2026", funder: "New Funder" });
+    const [similar, unrelated] = await Promise.all([
+      storage.createGrantQuestion(project.id, { question: "Describe the families served by your program." }),
+      storage.createGrantQuestion(project.id, { question: "What is your annual budget?" }),
+    ]);
+
+    const results = await findSimilarAnswersForQuestions(userId, project, [similar, unrelated]);
+    expect(results.get(similar.id)).toMatchObject([
+      {
+        questionId: earlier.question.id,
+        projectTitle: "Pantry 2024",
+        funder: "Pantry 2024 Foundation",
+        awarded: true,
+        matchedOn: "keyword",
+      },
+    ]);
+    expect(results.get(unrelated.id)).toEqual([]);
+    // The earlier question's own project is never offered to itself.
+    expect(await findSimilarAnswers(userId, earlier.project, earlier.question)).toEqual([]);
+  });
+
+  it("ranks by question embedding when both sides have one", async () => {
+    const userId = "similar-embedding";
+    const close = await answeredProject(userId, "Close");
+    const far = await answeredProject(userId, "Far");
+    await embed(close.question.id, close.question.question, unitVector(1, 0.1, 0));
+    await embed(far.question.id, far.question.question, unitVector(0, 1, 0));
+
+    const project = await storage.createProject(userId, { title: "New", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Who benefits from your work?" });
+    await embed(question.id, question.question, unitVector(1, 0, 0));
+
+    expect(await findSimilarAnswers(userId, project, question)).toMatchObject([
+      { questionId: close.question.id, matchedOn: "embedding", awarded: false },
+    ]);
+  });
+
+  it("embeds earlier questions only when new ones are prepared, so matching just searches", async () => {
+    const userId = "similar-prepare";
+    const earlier = await answeredProject(userId, "Earlier");
+    const project = await storage.createProject(userId, { title: "New", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Who benefits from your work?" });
+    const generate = vi
+      .spyOn(embedding, "generateEmbedding")
+      .mockResolvedValue({ embedding: unitVector(1, 0, 0), model: "test-embedding" });
+    try {
+      await prepareSimilarQuestions(userId, project, [question]);
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(await storage.getQuestionEmbedding(earlier.question.id)).toMatchObject({ embeddingModel: "test-embedding" });
+
+      expect(await findSimilarAnswers(userId, project, question)).toMatchObject([
+        { questionId: earlier.question.id, matchedOn: "embedding" },
+      ]);
+      expect(generate).toHaveBeenCalledTimes(2);
+    } finally {
+      generate.mockRestore();
+    }
+  });
+});
+
+describe("adaptSimilarAnswer", () => {
+  it("rewrites the earlier answer into the question, copying its citations in order", async () => {
+    const userId = "similar-adapt";
+    const earlier = await answeredProject(userId, "Earlier");
+    const project = await storage.createProject(userId, { title: "Target", funder: "Funder" });
+    const question = await storage.createGrantQuestion(project.id, { question: "Who does your program serve?" });
+
+    const result = await adaptSimilarAnswer({
+      userId,
+      project,
+      question,
+      source: earlier.question,
+      settings,
+      estimatedTokens: 500,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.question).toMatchObject({ responseStatus: "complete" });
+    expect(result.question.response?.trim()).toBeTruthy();
+    const copied = await storage.getDraftCitations(question.id);
+    expect(copied.map((c) => [c.sourceDocumentId, (c.chunkRefs as any)[0].chunkIndex])).toEqual([
+      [earlier.document.id, 0],
+      [earlier.document.id, 1],
+    ]);
+    for (const [, n] of Array.from(result.question.response!.matchAll(/\[#(\d+)\]/g))) {
+      expect(parseInt(n, 10)).toBeLessThanOrEqual(copied.length);
+    }
+    expect(await storage.getResponseVersions(question.id)).toHaveLength(1);
+  });
+
+  it("replaces the open gaps of the answer it overwrites with the adapted answer's", async () => {
+    const userId = "similar-adapt-gaps";
+    const earlier = await answeredProject(userId, "Earlier");
+    const project = await storage.createProject(userId, { title: "Target", funder: "Funder" });
+    const created = await storage.createGrantQuestion(project.id, { question: "Who does your program serve?" });
+    const question = (await storage.updateGrantQuestion(created.id, {
+      response: "Our old answer mentions a waitlist of about 300 families.",
+      responseStatus: "complete",
+    }))!;
+    const gap = (text: string, position: { start: number; end: number }) => ({
+      projectId: project.id,
+      draftId: question.id,
+      text,
+      category: "context_gap",
+      confidence: 50,
+      suggestedQuestion: text,
+      position,
+    });
+    await storage.createAssumptionLabel(gap("Confirm the waitlist size", { start: 36, end: 47 }));
+    const answered = await storage.createAssumptionLabel(gap("Confirm the service area", { start: 0, end: 0 }));
+    await storage.updateAssumptionLabel(answered.id, { resolved: true, answer: "Three counties", factId: "fact-service-area" });
+    const adaptAnswer = vi.spyOn(aiService, "adaptAnswer").mockResolvedValue({
+      text: "We served 1,240 families in 2025. [#1]",
+      citations: [],
+      assumptions: ["Confirm the 2026 family count"],
+      usage: { provider: "local", model: "local-deterministic", tokensIn: 100, tokensOut: 20 },
+    });
+
+    const result = await adaptSimilarAnswer({ userId, project, question, source: earlier.question, settings, estimatedTokens: 500 });
+    if (!result.ok) throw new Error(result.error);
+
+    const labels = await storage.getAssumptionLabels(project.id, question.id);
+    expect(labels.map((label) => label.text).sort()).toEqual(["Confirm the 2026 family count", "Confirm the service area"]);
+    expect(labels.find((label) => label.text === "Confirm the 2026 family count")?.position).toEqual({ start: 0, end: 0 });
+    adaptAnswer.mockRestore();
+  });
+
+  it("refuses a source without a finished answer", async () => {
+    const userId = "similar-adapt-unanswered";
+    const project = await storage.createProject(userId, { title: "Target", funder: "Funder" });
+    const source = await storage.createGrantQuestion(project.id, { question: "Unanswered" });
+    const question = await storage.createGrantQuestion(project.id, { question: "New" });
+
+    expect(
+      await adaptSimilarAnswer({ userId, project, question, source, settings, estimatedTokens: 500 }),
+    ).toMatchObject({ ok: false, status: 409 });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Similar-question detection: a project's questions are compared with the
+ * questions the organization has already answered in its other
+ * applications, by embedding of the question text (or, with no embedding
+ * model, by shared terms). Adding questions only schedules the embedding
+ * work; matches are served when a question's draft asks for them.
+ *
+ * A match can be adapted: the earlier answer is rewritten for the new
+ * question's wording and limit using only the sources it already cites,
+ * whose citation rows are copied in order so every [#N] it keeps still
+ * points at the same chunk.
+ */
+
+import { storage } from "../storage.js";
+import { aiService } from "./ai.js";
+import { billingService, calculateCostCents } from "./billing.js";
+import { canServeModels } from "./llm.js";
+import { ANSWERED_STATUSES, contentTerms, hashResponse, verifyQuestionClaims } from "./claimVerification.js";
+import { questionEmbeddingFor } from "./answerLibrary.js";
+import { recordGenerationAudit } from "./generationAudit.js";
+import { citationContext, trimToLength } from "./lengthFit.js";
+import { prepareGroundedGeneration, replaceAssumptionLabels, type GenerationSettings } from "./generation.js";
+import { measureAnswer, normalizeLimitType } from "../../shared/answer-limits.js";
+import type { SimilarAnswer } from "../../shared/similar-questions.js";
+import type { GrantQuestion, Project } from "../../shared/schema.js";
+
+/** Cosine similarity of question texts below which a question is not offered as similar. */
+const EMBEDDING_MATCH_MIN = 0.75;
+/** Share of terms two questions must share to match without embeddings. */
+const KEYWORD_MATCH_MIN = 0.5;
+/** Earlier questions embedded per call when they have no embedding yet. */
+const BACKFILL_LIMIT = 20;
+const DEFAULT_LIMIT = 3;
+
+const MARKER = /\[#(\d+)\]/g;
+
+type Candidate = { question: GrantQuestion; project: Project };
+
+function toSimilarAnswer({ question, project }: Candidate, similarity: number, matchedOn: SimilarAnswer["matchedOn"]): SimilarAnswer {
+  return {
+    questionId: question.id,
+    question: question.question,
+    answer: question.response ?? "",
+    projectId: project.id,
+    projectTitle: project.title,
+    funder: project.funder,
+    awarded: project.status === "awarded" || !!project.awardedAt,
+    similarity,
+    matchedOn,
+  };
+}
+
+/** Share of the two questions' distinct terms they have in common, over the longer one. */
+export function questionOverlap(a: string, b: string): number {
+  const termsA = new Set(contentTerms(a));
+  const termsB = new Set(contentTerms(b));
+  if (!termsA.size || !termsB.size) return 0;
+  const shared = Array.from(termsA).filter((term) => termsB.has(term)).length;
+  return shared / Math.max(termsA.size, termsB.size);
+}
+
+/** Answered questions of the organization's other projects. */
+async function answeredElsewhere(userId: string, project: Project): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  for (const other of await storage.getProjectsForOrganization(userId, project.organizationId)) {
+    if (other.id === project.id) continue;
+    for (const question of await storage.getGrantQuestions(other.id)) {
+      if (ANSWERED_STATUSES.has(question.responseStatus ?? "") && question.response?.trim()) {
+        candidates.push({ question, project: other });
+      }
+    }
+  }
+  return candidates;
+}
+
+/** Embed earlier questions that have no embedding for their current wording, a few per call. */
+async function backfillEmbeddings(candidates: Candidate[], organizationId: string): Promise<void> {
+  let budget = BACKFILL_LIMIT;
+  for (const { question } of candidates) {
+    if (budget <= 0) return;
+    const stored = await storage.getQuestionEmbedding(question.id);
+    if (stored?.contentHash === hashResponse(question.question)) continue;
+    budget--;
+    if (!(await questionEmbeddingFor(question, organizationId))) return;
+  }
+}
+
+/**
+ * For each of `questions` (all of `project`), earlier answers to similar
+ * questions from the organization's other projects, best first.
+ */
+export async function findSimilarAnswersForQuestions(
+  userId: string,
+  project: Project,
+  questions: GrantQuestion[],
+  limit = DEFAULT_LIMIT,
+): Promise<Map<string, SimilarAnswer[]>> {
+  const results = new Map<string, SimilarAnswer[]>();
+  const candidates = await answeredElsewhere(userId, project);
+  if (!candidates.length) {
+    for (const question of questions) results.set(question.id, []);
+    return results;
+  }
+
+  for (const question of questions) {
+    const vector = await questionEmbeddingFor(question, project.organizationId);
+    if (!vector) {
+      results.set(
+        question.id,
+        candidates
+          .map((candidate) => ({ candidate, similarity: questionOverlap(question.question, candidate.question.question) }))
+          .filter(({ similarity }) => similarity >= KEYWORD_MATCH_MIN)
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, limit)
+          .map(({ candidate, similarity }) => toSimilarAnswer(candidate, similarity, "keyword")),
+      );
+      continue;
+    }
+
+    // The search also sees this project's answered questions; ask for enough to skip them.
+    const ranked = await storage.searchQuestionsByEmbedding(
+      project.organizationId,
+      vector.embedding,
+      limit * 3,
+      vector.model,
+      Array.from(ANSWERED_STATUSES),
+    );
+    results.set(
+      question.id,
+      ranked
+        .filter((match) => match.project.id !== project.id && match.similarity >= EMBEDDING_MATCH_MIN)
+        .filter((match) => match.question.response?.trim())
+        .slice(0, limit)
+        .map((match) => toSimilarAnswer(match, match.similarity, "embedding")),
+    );
+  }
+  return results;
+}
+
+/**
+ * Embed newly added questions and the earlier answered questions they will
+ * be compared with, so later match requests only search. Run after the
+ * response that created the questions.
+ */
+export async function prepareSimilarQuestions(userId: string, project: Project, questions: GrantQuestion[]): Promise<void> {
+  for (const question of questions) {
+    if (!(await questionEmbeddingFor(question, project.organizationId))) return;
+  }
+  await backfillEmbeddings(await answeredElsewhere(userId, project), project.organizationId);
+}
+
+export async function findSimilarAnswers(userId: string, project: Project, question: GrantQuestion): Promise<SimilarAnswer[]> {
+  return (await findSimilarAnswersForQuestions(userId, project, [question])).get(question.id) ?? [];
+}
+
+export type AdaptAnswerResult =
+  | { ok: true; question: GrantQuestion; assumptions: string[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Rewrite `source`'s answer for `question` and make it the question's
+ * answer. The rewrite sees only the chunks `source` cites, numbered as its
+ * answer numbers them, and those citation rows are copied to `question`.
+ */
+export async function adaptSimilarAnswer(params: {
+  userId: string;
+  project: Project;
+  question: GrantQuestion;
+  source: GrantQuestion;
+  settings: GenerationSettings;
+  estimatedTokens: number;
+}): Promise<AdaptAnswerResult> {
+  const { userId, project, question, source, settings, estimatedTokens } = params;
+  const original = (source.response ?? "").trim();
+  if (!original || !ANSWERED_STATUSES.has(source.responseStatus ?? "")) {
+    return { ok: false, status: 409, error: "The earlier question has no finished answer to adapt" };
+  }
+  if (question.responseStatus === "generating") {
+    return { ok: false, status: 409, error: "Wait for the answer to finish generating" };
+  }
+
+  const { options } = await prepareGroundedGeneration({ userId, project, question, settings, retrieve: false });
+  if (!canServeModels(options)) {
+    return { ok: false, status: 503, error: "AI generation is not configured on this deployment" };
+  }
+
+  const citations = await storage.getDraftCitations(source.id);
+  const adaptOptions = {
+    ...options,
+    retrievedChunks: await citationContext(citations),
+    adapt: { question: source.question, answer: original },
+  };
+  const grounded = await aiService.adaptAnswer(adaptOptions);
+
+  // Only markers that resolve to a copied citation row may survive.
+  let text = grounded.text
+    .trim()
+    .replace(MARKER, (marker, n: string) => (parseInt(n, 10) <= citations.length ? marker : ""))
+    .replace(/ +(?=[.,;:!?])/g, "")
+    .trim();
+  const unit = normalizeLimitType(question.limitType);
+  if (question.wordLimit && measureAnswer(text, unit) > question.wordLimit) {
+    text = trimToLength(text, unit, question.wordLimit);
+  }
+
+  const usage = grounded.usage!;
+  await billingService.recordUsage({
+    organizationId: project.organizationId,
+    userId,
+    projectId: project.id,
+    type: "generation",
+    provider: usage.provider,
+    model: usage.model,
+    tokensIn: usage.tokensIn || estimatedTokens,
+    tokensOut: usage.tokensOut,
+    costCents: calculateCostCents(usage.model, usage.tokensIn || estimatedTokens, usage.tokensOut),
+    metadata: { questionId: question.id, adaptedFrom: source.id },
+  });
+
+  await storage.deleteDraftCitations(question.id);
+  for (const citation of citations) {
+    await storage.createDraftCitation({
+      draftId: question.id,
+      section: citation.section,
+      sourceDocumentId: citation.sourceDocumentId,
+      chunkRefs: citation.chunkRefs,
+    });
+  }
+  try {
+    // The old answer's gaps (and their positions) went with its text.
+    await replaceAssumptionLabels(project.id, question.id, grounded.assumptions);
+  } catch (assumptionErr) {
+    console.warn(`[adapt] Failed to persist assumption labels:`, assumptionErr);
+  }
+  const versions = await storage.getResponseVersions(question.id);
+  const version = await storage.createResponseVersion(question.id, text, settings.tone, versions.length + 1);
+  await recordGenerationAudit({ userId, project, version, operation: "adapt", settings, options: adaptOptions, grounded, usage });
+  const updated = await storage.updateGrantQuestion(question.id, {
+    response: text,
+    responseStatus: "complete",
+    errorMessage: null,
+  });
+  try {
+    await verifyQuestionClaims(updated!);
+  } catch (verifyErr) {
+    console.warn(`[adapt] Failed to verify claims:`, verifyErr);
+  }
+
+  return { ok: true, question: updated!, assumptions: grounded.assumptions ?? [] };
+}
@@ -0,0 +1,149 @@
+// @vitest-environment node
+
+import ExcelJS from "exceljs";
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage.js";
+import { processDocumentJobs } from "../workers/documentProcessor.js";
+import { FileProcessor } from "./fileProcessor.js";
+import {
+  chunkSpreadsheetText,
+  formatSpreadsheetText,
+  parseCsv,
+  readSpreadsheet,
+  spreadsheetKind,
+} from "./spreadsheet.js";
+
+vi.hoisted(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+});
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+async function workbookBuffer(): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const outcomes = workbook.addWorksheet("Outcomes");
+  outcomes.addRow(["Year", "Measure", "Value"]);
+  outcomes.addRow(["FY24", "Youth served", "1,240"]);
+  outcomes.addRow([]);
+  outcomes.addRow(["FY25", "Youth served", { formula: "C2*2", result: 2480 }]);
+  const budget = workbook.addWorksheet("Budget");
+  budget.addRow(["Line item", "Amount", "Approved"]);
+  budget.addRow(["Staff", 182000, new Date(Date.UTC(2025, 5, 30))]);
+  workbook.addWorksheet("Notes");
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+describe("spreadsheetKind", () => {
+  it("goes by extension first, then MIME type", () => {
+    expect(spreadsheetKind("application/vnd.ms-excel", "outcomes.csv")).toBe("csv");
+    expect(spreadsheetKind(XLSX_MIME, "budget")).toBe("xlsx");
+    expect(spreadsheetKind("text/plain", "notes.txt")).toBeNull();
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields with delimiters, newlines and doubled quotes", () => {
+    expect(parseCsv('Year,Measure,Value\r\nFY24,"Youth served, ages 12-18","1,240"\nFY25,"Said ""thanks""\non exit",9\n')).toEqual([
+      ["Year", "Measure", "Value"],
+      ["FY24", "Youth served, ages 12-18", "1,240"],
+      ["FY25", 'Said "thanks"\non exit', "9"],
+    ]);
+  });
+
+  it("detects semicolon-delimited exports", () => {
+    expect(parseCsv("Year;Value\nFY24;1.240,50")).toEqual([
+      ["Year", "Value"],
+      ["FY24", "1.240,50"],
+    ]);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("reads each sheet with its header, skipping blank rows and empty sheets", async () => {
+    const tables = await readSpreadsheet(await workbookBuffer(), "xlsx", "tracker.xlsx");
+    expect(tables).toEqual([
+      {
+        name: "Outcomes",
+        header: ["Year", "Measure", "Value"],
+        rows: [
+          ["FY24", "Youth served", "1,240"],
+          ["FY25", "Youth served", "2480"],
+        ],
+      },
+      { name: "Budget", header: ["Line item", "Amount", "Approved"], rows: [["Staff", "182000", "2025-06-30"]] },
+    ]);
+  });
+});
+
+describe("chunkSpreadsheetText", () => {
+  it("repeats the sheet's header in every chunk and labels chunks by sheet", () => {
+    const text = formatSpreadsheetText([
+      {
+        name: "Outcomes",
+        header: ["Year", "Measure", "Value"],
+        rows: Array.from({ length: 30 }, (_, i) => [`FY${10 + i}`, "Youth served", String(1000 + i)]),
+      },
+      { name: "Budget", header: ["Line item", "Amount"], rows: [["Staff", "182000"]] },
+    ]);
+    const chunks = chunkSpreadsheetText(text, 300);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.sectionLabel).toBe("Outcomes");
+      expect(chunk.content).toMatch(/^Sheet: Outcomes\nColumns: Year \| Measure \| Value\nRow: /);
+      expect(chunk.content.length).toBeLessThanOrEqual(300);
+    }
+    expect(chunks[0].content).toContain("Row: FY10 | Youth served | 1000");
+    expect(chunks.at(-1)).toEqual({
+      content: "Sheet: Budget\nColumns: Line item | Amount\nRow: Staff | 182000",
+      tokenCount: 11,
+      sectionLabel: "Budget",
+      startOffset: text.length - "Row: Staff | 182000".length,
+      endOffset: text.length,
+    });
+    // Offsets span each chunk's rows in the stored text.
+    for (const chunk of chunks) {
+      expect(chunk.content.endsWith(text.slice(chunk.startOffset, chunk.endOffset))).toBe(true);
+    }
+    // Every row lands in exactly one chunk.
+    expect(chunks.flatMap((chunk) => chunk.content.split("\n").filter((line) => line.startsWith("Row: ")))).toHaveLength(31);
+  });
+});
+
+describe("spreadsheet uploads", () => {
+  it("extracts a CSV upload as rows under its header", async () => {
+    const { extractedText } = await new FileProcessor().extractFile(
+      Buffer.from('Year,Measure,Value\nFY24,Youth served,"1,240"\n'),
+      "outcomes.csv",
+      "text/csv",
+    );
+    expect(extractedText).toBe("Sheet: outcomes\nColumns: Year | Measure | Value\nRow: FY24 | Youth served | 1,240");
+  });
+
+  it("stores workbook chunks with the sheet name as their section label", async () => {
+    const userId = "spreadsheet-upload-user";
+    const project = await storage.createProject(userId, { title: "Tracker", funder: "Funder" });
+    const document = await storage.createDocument(userId, {
+      organizationId: project.organizationId,
+      filename: "tracker.xlsx",
+      originalName: "tracker.xlsx",
+      fileType: XLSX_MIME,
+      fileSize: 5000,
+      category: "past-successes",
+    });
+    await new FileProcessor().extractFile(await workbookBuffer(), "tracker.xlsx", XLSX_MIME, document);
+    await storage.createProcessingJob(document.id, "embedding", "queued");
+
+    await processDocumentJobs({ batchSize: 10 });
+
+    const outcomes = await storage.getDocChunk(document.id, 0);
+    const budget = await storage.getDocChunk(document.id, 1);
+    expect(outcomes).toMatchObject({
+      sectionLabel: "Outcomes",
+      content: "Sheet: Outcomes\nColumns: Year | Measure | Value\nRow: FY24 | Youth served | 1,240\nRow: FY25 | Youth served | 2480",
+    });
+    expect(budget).toMatchObject({ sectionLabel: "Budget" });
+    expect(budget?.content).toContain("Row: Staff | 182000 | 2025-06-30");
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Spreadsheet uploads (XLSX and CSV), read sheet by sheet.
+ *
+ * A sheet is stored as text in a line format the chunker reads back:
+ *
+ *   Sheet: Outcomes
+ *   Columns: Year | Measure | Value
+ *   Row: FY24 | Youth served | 1240
+ *
+ * Every chunk repeats its sheet's "Columns:" line, so a retrieved chunk says
+ * what each value means and can be cited on its own. The sheet name becomes
+ * the chunk's section label.
+ */
+
+import ExcelJS from "exceljs";
+
+export type SpreadsheetKind = "xlsx" | "csv";
+
+export interface SheetTable {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+export interface SpreadsheetChunk {
+  content: string;
+  tokenCount: number;
+  sectionLabel: string | null;
+  /** Character offsets of the chunk's rows in the stored text */
+  startOffset: number;
+  endOffset: number;
+}
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const CSV_MIMES = new Set(["text/csv", "application/csv", "text/comma-separated-values"]);
+
+const SHEET_PREFIX = "Sheet: ";
+const COLUMNS_PREFIX = "Columns: ";
+const ROW_PREFIX = "Row: ";
+const CELL_SEPARATOR = " | ";
+
+/**
+ * Which spreadsheet format an upload is, by extension first: browsers on
+ * Windows send .csv files as application/vnd.ms-excel.
+ */
+export function spreadsheetKind(mimeType: string, filename: string): SpreadsheetKind | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".xlsx")) return "xlsx";
+  if (lower.endsWith(".csv")) return "csv";
+  if (mimeType === XLSX_MIME) return "xlsx";
+  if (CSV_MIMES.has(mimeType)) return "csv";
+  return null;
+}
+
+/** RFC 4180 fields: quoted values may hold the delimiter, newlines and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  // Semicolons and tabs are common in exports from European locales.
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** A cell as it reads: formula results, rich text and hyperlinks as their text, dates as YYYY-MM-DD. */
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("formula" in value || "sharedFormula" in value) {
+    const result = (value as ExcelJS.CellFormulaValue).result;
+    return result === undefined ? "" : cellText(result as ExcelJS.CellValue);
+  }
+  if ("hyperlink" in value) return cellText(value.text as ExcelJS.CellValue);
+  if ("error" in value) return value.error;
+  return "";
+}
+
+/**
+ * Rows trimmed of empty cells at the end and blank rows dropped; the first
+ * remaining row is the header. Returns null for a sheet with no data rows.
+ */
+export function toSheetTable(name: string, cells: string[][]): SheetTable | null {
+  const rows = cells
+    .map((row) => row.map((cell) => cell.replace(/\s+/g, " ").trim()))
+    .map((row) => {
+      let end = row.length;
+      while (end > 0 && !row[end - 1]) end--;
+      return row.slice(0, end);
+    })
+    .filter((row) => row.length > 0);
+  if (rows.length < 2) return null;
+  const [header, ...body] = rows;
+  return { name, header, rows: body };
+}
+
+/** Each non-empty sheet of an XLSX workbook or the single table of a CSV file. */
+export async function readSpreadsheet(buffer: Buffer, kind: SpreadsheetKind, filename: string): Promise<SheetTable[]> {
+  if (kind === "csv") {
+    const table = toSheetTable(filename.replace(/\.csv$/i, ""), parseCsv(buffer.toString("utf-8")));
+    return table ? [table] : [];
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  const tables: SheetTable[] = [];
+  workbook.eachSheet((worksheet) => {
+    const cells: string[][] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row) => {
+      const values: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, column) => {
+        values[column - 1] = cellText(cell.value);
+      });
+      cells.push(Array.from(values, (value) => value ?? ""));
+    });
+    const table = toSheetTable(worksheet.name, cells);
+    if (table) tables.push(table);
+  });
+  return tables;
+}
+
+/** The stored text of a spreadsheet, one block per sheet. */
+export function formatSpreadsheetText(tables: SheetTable[]): string {
+  return tables
+    .map((table) =>
+      [
+        `${SHEET_PREFIX}${table.name}`,
+        `${COLUMNS_PREFIX}${table.header.join(CELL_SEPARATOR)}`,
+        ...table.rows.map((row) => `${ROW_PREFIX}${row.join(CELL_SEPARATOR)}`),
+      ].join("\n"),
+    )
+    .join("\n\n");
+}
+
+/**
+ * Chunks of whole rows, each opening with its sheet's name and header line,
+ * of about `chunkSize` characters (a row longer than that is its own chunk).
+ * Reads the text `formatSpreadsheetText` writes; a chunk's offsets span its
+ * rows, as the repeated header lines are not where the rows are.
+ */
+export function chunkSpreadsheetText(text: string, chunkSize: number): SpreadsheetChunk[] {
+  const chunks: SpreadsheetChunk[] = [];
+  let sheet: string | null = null;
+  let columns = "";
+  let rows: string[] = [];
+  let rowsStart = 0;
+  let rowsEnd = 0;
+  let offset = 0;
+
+  const contentOf = (lines: string[]) =>
+    [sheet ? `${SHEET_PREFIX}${sheet}` : "", columns, ...lines].filter(Boolean).join("\n");
+  const flush = () => {
+    if (!rows.length) return;
+    const content = contentOf(rows);
+    chunks.push({
+      content,
+      tokenCount: content.split(/\s+/).length,
+      sectionLabel: sheet,
+      startOffset: rowsStart,
+      endOffset: rowsEnd,
+    });
+    rows = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (line.startsWith(SHEET_PREFIX)) {
+      flush();
+      sheet = line.slice(SHEET_PREFIX.length).trim();
+      columns = "";
+    } else if (line.startsWith(COLUMNS_PREFIX)) {
+      flush();
+      columns = line;
+    } else if (line.trim()) {
+      if (rows.length && contentOf([...rows, line]).length > chunkSize) flush();
+      if (!rows.length) rowsStart = lineStart;
+      rows.push(line);
+      rowsEnd = lineStart + line.length;
+    }
+  }
+  flush();
+  return chunks;
+}
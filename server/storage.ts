@@ -27,10 +27,30 @@ import {
   type Organization,
   type InsertOrganization,
   type OrganizationProfileSuggestion,
+  type OrganizationAiEndpoint,
+  type InsertOrganizationAiEndpoint,
+  type GenerationBatch,
+  type GenerationBatchItem,
+  type InsertGenerationBatch,
+  type ClaimVerification,
+  type InsertClaimVerification,
+  type DraftReviewRow,
+  type InsertDraftReview,
+  type GenerationAudit,
+  type InsertGenerationAudit,
+  type QuestionEmbedding,
+  type AnswerLibraryEntry,
+  type InsertAnswerLibraryEntry,
+  type OrganizationFact,
+  type InsertOrganizationFact,
+  type Funder,
+  type InsertFunder,
+  type ClarificationQuestion,
+  type InsertClarificationQuestion,
 } from "../shared/schema.js";
 import { randomUUID } from "crypto";
 import { db, schema, sql as rawSql } from "./db.js";
-import { eq, and, asc, desc, inArray, ne, gte, lt, sql as drizzleSql, type SQL } from "drizzle-orm";
+import { eq, and, or, asc, desc, inArray, isNull, ne, gte, lt, sql as drizzleSql, type SQL } from "drizzle-orm";
 import { parseAmountToNumber, formatCurrencyCompact } from "../shared/currency.js";
 
 /** Escape `%`, `_`, and `\` for use inside a PostgreSQL LIKE pattern literal. */
@@ -114,6 +134,12 @@ export interface IStorage {
     suggestionId: string,
     updates: Partial<OrganizationProfileSuggestion>
   ): Promise<OrganizationProfileSuggestion | undefined>;
+  getOrganizationAiEndpoint(organizationId: string): Promise<OrganizationAiEndpoint | undefined>;
+  upsertOrganizationAiEndpoint(
+    organizationId: string,
+    endpoint: InsertOrganizationAiEndpoint
+  ): Promise<OrganizationAiEndpoint>;
+  deleteOrganizationAiEndpoint(organizationId: string): Promise<boolean>;
 
   // Project methods
   getProjects(userId: string): Promise<Project[]>;
@@ -168,6 +194,7 @@ export interface IStorage {
   getProcessingJobs(options: {
     jobType: string;
     status?: string;
+    documentId?: string;
     limit?: number;
   }): Promise<DocumentProcessingJob[]>;
   deleteChunksForDocument(documentId: string): Promise<void>;
@@ -178,20 +205,31 @@ export interface IStorage {
       content: string;
       tokenCount: number;
       sectionLabel?: string | null;
+      startOffset?: number | null;
+      endOffset?: number | null;
+      pageStart?: number | null;
+      pageEnd?: number | null;
       embedding?: number[] | null;
     }
   ): Promise<void>;
+  getDocChunk(documentId: string, chunkIndex: number): Promise<DocChunk | undefined>;
   searchDocChunksByEmbedding(
     userId: string,
     embedding: number[],
     limit: number
   ): Promise<Array<{ chunk: DocChunk; document: Document; similarity?: number }>>;
+  /**
+   * When `embeddingModel` is given, only documents embedded with that model
+   * (or with no recorded model) are compared; vectors from different models
+   * live in unrelated spaces even when their dimensions match.
+   */
   searchDocChunksByEmbeddingForOrganization(
     userId: string,
     organizationId: string,
     embedding: number[],
     limit: number,
-    projectId?: string | null
+    projectId?: string | null,
+    embeddingModel?: string | null
   ): Promise<Array<{ chunk: DocChunk; document: Document; similarity?: number }>>;
   searchDocChunksByKeyword(
     userId: string,
@@ -212,10 +250,13 @@ export interface IStorage {
   getAssumptionLabels(projectId: string, draftId?: string): Promise<AssumptionLabel[]>;
   getAssumptionLabel(id: string): Promise<AssumptionLabel | undefined>;
   setAssumptionLabelResolved(id: string, resolved: boolean, resolvedBy: string): Promise<AssumptionLabel | undefined>;
+  updateAssumptionLabel(id: string, updates: Partial<AssumptionLabel>): Promise<AssumptionLabel | undefined>;
+  deleteAssumptionLabel(id: string): Promise<boolean>;
   deleteAssumptionLabels(projectId: string, draftId?: string): Promise<void>;
   getProcessingJobs(options: {
     jobType: string;
     status?: string;
+    documentId?: string;
     limit?: number;
   }): Promise<DocumentProcessingJob[]>;
   deleteChunksForDocument(documentId: string): Promise<void>;
@@ -226,6 +267,10 @@ export interface IStorage {
       content: string;
       tokenCount: number;
       sectionLabel?: string | null;
+      startOffset?: number | null;
+      endOffset?: number | null;
+      pageStart?: number | null;
+      pageEnd?: number | null;
       embedding?: number[] | null;
     }
   ): Promise<void>;
@@ -237,6 +282,93 @@ export interface IStorage {
   updateGrantQuestion(id: string, updates: Partial<GrantQuestion>): Promise<GrantQuestion | undefined>;
   deleteGrantQuestion(id: string): Promise<boolean>;
 
+  // "Draft all unanswered" batches
+  /** Undefined when the project already has a running batch. */
+  createGenerationBatch(batch: InsertGenerationBatch, questionIds: string[]): Promise<GenerationBatch | undefined>;
+  getGenerationBatch(id: string): Promise<GenerationBatch | undefined>;
+  getLatestGenerationBatch(projectId: string): Promise<GenerationBatch | undefined>;
+  updateGenerationBatch(id: string, updates: Partial<GenerationBatch>): Promise<GenerationBatch | undefined>;
+  getGenerationBatchItems(batchId: string): Promise<GenerationBatchItem[]>;
+  /** Move a queued item to running; false when it was already claimed or cancelled. */
+  claimGenerationBatchItem(itemId: string): Promise<boolean>;
+  updateGenerationBatchItem(itemId: string, updates: Partial<GenerationBatchItem>): Promise<GenerationBatchItem | undefined>;
+  /** Mark the batch cancelled and its still-queued items cancelled; running items are left to finish. */
+  cancelGenerationBatch(id: string): Promise<GenerationBatch | undefined>;
+
+  // Per-sentence claim verification
+  getClaimVerifications(questionId: string): Promise<ClaimVerification[]>;
+  /** Replace a question's verdicts with `claims` (all computed for the same response text). */
+  replaceClaimVerifications(questionId: string, claims: InsertClaimVerification[]): Promise<ClaimVerification[]>;
+
+  // Rubric reviews
+  /** Newest first. */
+  getDraftReviews(questionId: string): Promise<DraftReviewRow[]>;
+  createDraftReview(review: InsertDraftReview): Promise<DraftReviewRow>;
+
+  // Generation audits
+  /** Newest first. */
+  getGenerationAudits(questionId: string): Promise<GenerationAudit[]>;
+  /** Newest first. */
+  getProjectGenerationAudits(projectId: string): Promise<GenerationAudit[]>;
+  getGenerationAuditForVersion(responseVersionId: string): Promise<GenerationAudit | undefined>;
+  createGenerationAudit(audit: InsertGenerationAudit): Promise<GenerationAudit>;
+
+  // Answer library
+  getQuestionEmbedding(questionId: string): Promise<QuestionEmbedding | undefined>;
+  saveQuestionEmbedding(row: Omit<QuestionEmbedding, "createdAt">): Promise<QuestionEmbedding>;
+  /**
+   * The organization's questions with a `responseStatuses` status, closest
+   * question text first. Only embeddings from `embeddingModel` are compared.
+   */
+  searchQuestionsByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel: string,
+    responseStatuses: string[]
+  ): Promise<Array<{ question: GrantQuestion; project: Project; similarity: number }>>;
+  /** Newest first. */
+  getAnswerLibrary(organizationId: string): Promise<AnswerLibraryEntry[]>;
+  getAnswerLibraryEntry(id: string): Promise<AnswerLibraryEntry | undefined>;
+  createAnswerLibraryEntry(entry: InsertAnswerLibraryEntry): Promise<AnswerLibraryEntry>;
+  updateAnswerLibraryEntry(id: string, updates: Partial<AnswerLibraryEntry>): Promise<AnswerLibraryEntry | undefined>;
+  deleteAnswerLibraryEntry(id: string): Promise<boolean>;
+  /**
+   * Entries ranked by the closer of their question and answer embeddings.
+   * Like the document search, `embeddingModel` skips entries embedded by
+   * another model.
+   */
+  searchAnswerLibraryByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel?: string | null
+  ): Promise<Array<{ entry: AnswerLibraryEntry; questionSimilarity: number; answerSimilarity: number }>>;
+
+  // Funder profiles
+  getFunders(organizationId: string): Promise<Funder[]>;
+  getFunder(id: string): Promise<Funder | undefined>;
+  createFunder(funder: InsertFunder): Promise<Funder>;
+  updateFunder(id: string, updates: Partial<Funder>): Promise<Funder | undefined>;
+  /** Projects linked to the funder keep their free-text `funder` name. */
+  deleteFunder(id: string): Promise<boolean>;
+
+  // Organization facts (answers the organization has confirmed) and the
+  // clarification questions that collect them
+  /** Facts for the organization; with `projectId`, org-wide facts plus that project's. */
+  getOrganizationFacts(organizationId: string, projectId?: string | null): Promise<OrganizationFact[]>;
+  getOrganizationFact(id: string): Promise<OrganizationFact | undefined>;
+  createOrganizationFact(fact: InsertOrganizationFact): Promise<OrganizationFact>;
+  updateOrganizationFact(id: string, updates: Partial<OrganizationFact>): Promise<OrganizationFact | undefined>;
+  deleteOrganizationFact(id: string): Promise<boolean>;
+  getClarificationQuestions(projectId: string): Promise<ClarificationQuestion[]>;
+  getClarificationQuestion(id: string): Promise<ClarificationQuestion | undefined>;
+  createClarificationQuestion(question: InsertClarificationQuestion): Promise<ClarificationQuestion>;
+  updateClarificationQuestion(
+    id: string,
+    updates: Partial<ClarificationQuestion>,
+  ): Promise<ClarificationQuestion | undefined>;
+
   // Response Version methods
   getResponseVersions(questionId: string): Promise<ResponseVersion[]>;
   createResponseVersion(questionId: string, content: string, tone: string, version: number): Promise<ResponseVersion>;
@@ -292,6 +424,17 @@ export class MemStorage implements IStorage {
   private grantMetrics: Map<string, GrantMetric> = new Map();
   private grantMetricEvents: Map<string, GrantMetricEvent> = new Map();
   private organizationProfileSuggestions: Map<string, OrganizationProfileSuggestion> = new Map();
+  private organizationAiEndpoints: Map<string, OrganizationAiEndpoint> = new Map();
+  private generationBatches: Map<string, GenerationBatch> = new Map();
+  private generationBatchItems: Map<string, GenerationBatchItem> = new Map();
+  private claimVerifications: Map<string, ClaimVerification[]> = new Map();
+  private draftReviews: Map<string, DraftReviewRow> = new Map();
+  private generationAudits: Map<string, GenerationAudit> = new Map();
+  private questionEmbeddings: Map<string, QuestionEmbedding> = new Map();
+  private answerLibrary: Map<string, AnswerLibraryEntry> = new Map();
+  private organizationFacts: Map<string, OrganizationFact> = new Map();
+  private funders: Map<string, Funder> = new Map();
+  private clarificationQuestions: Map<string, ClarificationQuestion> = new Map();
 
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -359,9 +502,15 @@ export class MemStorage implements IStorage {
       organization = {
         id: userId,
         name: displayName || user?.organizationName || "My Organization",
+        legalName: null,
+        dba: null,
         organizationType: user?.organizationType ?? null,
         ein: user?.ein ?? null,
+        uei: null,
+        duns: null,
         foundedYear: user?.foundedYear ?? null,
+        fiscalYearEnd: null,
+        address: null,
         primaryContact: user?.primaryContact ?? null,
         contactEmail: user?.email ?? null,
         mission: user?.mission ?? null,
@@ -396,9 +545,15 @@ export class MemStorage implements IStorage {
     const organization: Organization = {
       id,
       name: insertOrganization.name,
+      legalName: insertOrganization.legalName ?? null,
+      dba: insertOrganization.dba ?? null,
       organizationType: insertOrganization.organizationType ?? null,
       ein: insertOrganization.ein ?? null,
+      uei: insertOrganization.uei ?? null,
+      duns: insertOrganization.duns ?? null,
       foundedYear: insertOrganization.foundedYear ?? null,
+      fiscalYearEnd: insertOrganization.fiscalYearEnd ?? null,
+      address: insertOrganization.address ?? null,
       primaryContact: insertOrganization.primaryContact ?? null,
       contactEmail: insertOrganization.contactEmail ?? null,
       mission: insertOrganization.mission ?? null,
@@ -450,6 +605,7 @@ export class MemStorage implements IStorage {
         this.organizationProfileSuggestions.delete(suggestion.id);
       }
     }
+    this.organizationAiEndpoints.delete(organizationId);
 
     for (const subscription of Array.from(this.subscriptions.values())) {
       if (subscription.organizationId === organizationId) {
@@ -537,6 +693,33 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getOrganizationAiEndpoint(organizationId: string): Promise<OrganizationAiEndpoint | undefined> {
+    return this.organizationAiEndpoints.get(organizationId);
+  }
+
+  async upsertOrganizationAiEndpoint(
+    organizationId: string,
+    endpoint: InsertOrganizationAiEndpoint
+  ): Promise<OrganizationAiEndpoint> {
+    const now = new Date();
+    const existing = this.organizationAiEndpoints.get(organizationId);
+    const row: OrganizationAiEndpoint = {
+      organizationId,
+      baseUrl: endpoint.baseUrl,
+      apiKey: endpoint.apiKey ?? null,
+      chatModel: endpoint.chatModel,
+      embeddingModel: endpoint.embeddingModel ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.organizationAiEndpoints.set(organizationId, row);
+    return row;
+  }
+
+  async deleteOrganizationAiEndpoint(organizationId: string): Promise<boolean> {
+    return this.organizationAiEndpoints.delete(organizationId);
+  }
+
   async getProjects(userId: string): Promise<Project[]> {
     return Array.from(this.projects.values()).filter(p => p.userId === userId);
   }
@@ -566,6 +749,7 @@ export class MemStorage implements IStorage {
       organizationId,
       title: insertProject.title,
       funder: insertProject.funder,
+      funderId: insertProject.funderId ?? null,
       amount: insertProject.amount ?? null,
       deadline: insertProject.deadline ?? null,
       description: insertProject.description ?? null,
@@ -710,6 +894,7 @@ export class MemStorage implements IStorage {
       fileSize: insertDocument.fileSize,
       category: insertDocument.category ?? null,
       summary: insertDocument.summary ?? null,
+      structuredSummary: insertDocument.structuredSummary ?? null,
       processed: insertDocument.processed ?? false,
       processingStatus: insertDocument.processingStatus || "pending",
       processingError: insertDocument.processingError ?? null,
@@ -812,12 +997,14 @@ export class MemStorage implements IStorage {
   async getProcessingJobs(options: {
     jobType: string;
     status?: string;
+    documentId?: string;
     limit?: number;
   }): Promise<DocumentProcessingJob[]> {
-    const { jobType, status, limit } = options;
+    const { jobType, status, documentId, limit } = options;
     const jobs = Array.from(this.documentProcessingJobs.values()).filter((job) => {
       if (job.jobType !== jobType) return false;
       if (status && job.status !== status) return false;
+      if (documentId && job.documentId !== documentId) return false;
       return true;
     });
     return typeof limit === "number" ? jobs.slice(0, limit) : jobs;
@@ -834,6 +1021,10 @@ export class MemStorage implements IStorage {
       content: string;
       tokenCount: number;
       sectionLabel?: string | null;
+      startOffset?: number | null;
+      endOffset?: number | null;
+      pageStart?: number | null;
+      pageEnd?: number | null;
       embedding?: number[] | null;
     }
   ): Promise<void> {
@@ -845,6 +1036,10 @@ export class MemStorage implements IStorage {
       content: data.content,
       tokenCount: data.tokenCount,
       sectionLabel: data.sectionLabel ?? null,
+      startOffset: data.startOffset ?? null,
+      endOffset: data.endOffset ?? null,
+      pageStart: data.pageStart ?? null,
+      pageEnd: data.pageEnd ?? null,
       embedding: data.embedding ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -853,6 +1048,10 @@ export class MemStorage implements IStorage {
     this.documentChunks.set(documentId, chunks);
   }
 
+  async getDocChunk(documentId: string, chunkIndex: number): Promise<DocChunk | undefined> {
+    return (this.documentChunks.get(documentId) || []).find((chunk) => chunk.chunkIndex === chunkIndex);
+  }
+
   async createDraftCitation(citation: InsertDraftCitation): Promise<DraftCitation> {
     const id = randomUUID();
     const entry: DraftCitation = {
@@ -881,6 +1080,8 @@ export class MemStorage implements IStorage {
       ...(label as AssumptionLabel),
       id,
       resolved: label.resolved ?? false,
+      answer: label.answer ?? null,
+      factId: label.factId ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -917,6 +1118,24 @@ export class MemStorage implements IStorage {
     return match;
   }
 
+  async updateAssumptionLabel(id: string, updates: Partial<AssumptionLabel>): Promise<AssumptionLabel | undefined> {
+    const match = await this.getAssumptionLabel(id);
+    if (!match) return undefined;
+    Object.assign(match, updates, { id, updatedAt: new Date() });
+    return match;
+  }
+
+  async deleteAssumptionLabel(id: string): Promise<boolean> {
+    for (const [projectId, entries] of this.assumptionLabels.entries()) {
+      const remaining = entries.filter((assumption) => assumption.id !== id);
+      if (remaining.length !== entries.length) {
+        this.assumptionLabels.set(projectId, remaining);
+        return true;
+      }
+    }
+    return false;
+  }
+
   async deleteAssumptionLabels(projectId: string, draftId?: string): Promise<void> {
     if (!draftId) {
       this.assumptionLabels.delete(projectId);
@@ -942,11 +1161,13 @@ export class MemStorage implements IStorage {
     organizationId: string,
     embedding: number[],
     limit: number,
-    projectId?: string | null
+    projectId?: string | null,
+    embeddingModel?: string | null
   ): Promise<Array<{ chunk: DocChunk; document: Document; similarity?: number }>> {
     if (!(await this.userHasOrganizationAccess(userId, organizationId))) return [];
     const docMap = Array.from(this.documents.values()).filter((d) => {
       if (d.organizationId !== organizationId) return false;
+      if (embeddingModel && d.embeddingModel && d.embeddingModel !== embeddingModel) return false;
       return projectId === undefined || d.projectId === null || d.projectId === projectId;
     });
     const allChunks: Array<{ chunk: DocChunk; document: Document; similarity?: number }> = [];
@@ -1025,10 +1246,12 @@ export class MemStorage implements IStorage {
       projectId,
       question: insertQuestion.question,
       wordLimit: insertQuestion.wordLimit ?? null,
+      limitType: insertQuestion.limitType ?? "words",
       priority: insertQuestion.priority ?? "medium",
       errorMessage: insertQuestion.errorMessage ?? null,
       response: null,
       responseStatus: "pending",
+      gapCheckedHash: null,
       createdAt: new Date(),
     };
     this.grantQuestions.set(id, question);
@@ -1048,6 +1271,428 @@ export class MemStorage implements IStorage {
     return this.grantQuestions.delete(id);
   }
 
+  async createGenerationBatch(batch: InsertGenerationBatch, questionIds: string[]): Promise<GenerationBatch | undefined> {
+    const running = Array.from(this.generationBatches.values()).some(
+      (existing) => existing.projectId === batch.projectId && existing.status === "running"
+    );
+    if (running) return undefined;
+    const now = new Date();
+    const row: GenerationBatch = {
+      id: randomUUID(),
+      projectId: batch.projectId,
+      organizationId: batch.organizationId,
+      userId: batch.userId,
+      status: "running",
+      concurrency: batch.concurrency,
+      estimatedTokens: batch.estimatedTokens ?? 0,
+      settings: batch.settings ?? {},
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null,
+    };
+    this.generationBatches.set(row.id, row);
+    questionIds.forEach((questionId, position) => {
+      const item: GenerationBatchItem = {
+        id: randomUUID(),
+        batchId: row.id,
+        questionId,
+        position,
+        status: "queued",
+        responseStatus: null,
+        error: null,
+        startedAt: null,
+        finishedAt: null,
+      };
+      this.generationBatchItems.set(item.id, item);
+    });
+    return row;
+  }
+
+  async getGenerationBatch(id: string): Promise<GenerationBatch | undefined> {
+    return this.generationBatches.get(id);
+  }
+
+  async getLatestGenerationBatch(projectId: string): Promise<GenerationBatch | undefined> {
+    return Array.from(this.generationBatches.values())
+      .filter((batch) => batch.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+  }
+
+  async updateGenerationBatch(id: string, updates: Partial<GenerationBatch>): Promise<GenerationBatch | undefined> {
+    const batch = this.generationBatches.get(id);
+    if (!batch) return undefined;
+    const updated = { ...batch, ...updates, updatedAt: new Date() };
+    this.generationBatches.set(id, updated);
+    return updated;
+  }
+
+  async getGenerationBatchItems(batchId: string): Promise<GenerationBatchItem[]> {
+    return Array.from(this.generationBatchItems.values())
+      .filter((item) => item.batchId === batchId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async claimGenerationBatchItem(itemId: string): Promise<boolean> {
+    const item = this.generationBatchItems.get(itemId);
+    if (!item || item.status !== "queued") return false;
+    this.generationBatchItems.set(itemId, { ...item, status: "running", startedAt: new Date() });
+    return true;
+  }
+
+  async updateGenerationBatchItem(
+    itemId: string,
+    updates: Partial<GenerationBatchItem>
+  ): Promise<GenerationBatchItem | undefined> {
+    const item = this.generationBatchItems.get(itemId);
+    if (!item) return undefined;
+    const updated = { ...item, ...updates };
+    this.generationBatchItems.set(itemId, updated);
+    return updated;
+  }
+
+  async cancelGenerationBatch(id: string): Promise<GenerationBatch | undefined> {
+    const batch = this.generationBatches.get(id);
+    if (!batch) return undefined;
+    const now = new Date();
+    for (const item of Array.from(this.generationBatchItems.values())) {
+      if (item.batchId === id && item.status === "queued") {
+        this.generationBatchItems.set(item.id, { ...item, status: "cancelled", finishedAt: now });
+      }
+    }
+    return this.updateGenerationBatch(id, { status: "cancelled" });
+  }
+
+  async getClaimVerifications(questionId: string): Promise<ClaimVerification[]> {
+    return [...(this.claimVerifications.get(questionId) || [])].sort((a, b) => a.position - b.position);
+  }
+
+  async replaceClaimVerifications(
+    questionId: string,
+    claims: InsertClaimVerification[]
+  ): Promise<ClaimVerification[]> {
+    const now = new Date();
+    const rows: ClaimVerification[] = claims.map((claim) => ({
+      id: randomUUID(),
+      markers: [],
+      sourceDocumentIds: [],
+      score: 0,
+      missingTerms: [],
+      ...claim,
+      questionId,
+      createdAt: now,
+    }));
+    this.claimVerifications.set(questionId, rows);
+    return this.getClaimVerifications(questionId);
+  }
+
+  async getDraftReviews(questionId: string): Promise<DraftReviewRow[]> {
+    return Array.from(this.draftReviews.values())
+      .filter((review) => review.questionId === questionId)
+      .reverse()
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async createDraftReview(review: InsertDraftReview): Promise<DraftReviewRow> {
+    const row: DraftReviewRow = {
+      id: randomUUID(),
+      rubric: [],
+      criteria: [],
+      weakestSentences: [],
+      suggestions: [],
+      ...review,
+      createdAt: new Date(),
+    };
+    this.draftReviews.set(row.id, row);
+    return row;
+  }
+
+  private newestGenerationAudits(filter: (audit: GenerationAudit) => boolean): GenerationAudit[] {
+    return Array.from(this.generationAudits.values())
+      .filter(filter)
+      .reverse()
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getGenerationAudits(questionId: string): Promise<GenerationAudit[]> {
+    return this.newestGenerationAudits((audit) => audit.questionId === questionId);
+  }
+
+  async getProjectGenerationAudits(projectId: string): Promise<GenerationAudit[]> {
+    return this.newestGenerationAudits((audit) => audit.projectId === projectId);
+  }
+
+  async getGenerationAuditForVersion(responseVersionId: string): Promise<GenerationAudit | undefined> {
+    return Array.from(this.generationAudits.values()).find((audit) => audit.responseVersionId === responseVersionId);
+  }
+
+  async createGenerationAudit(audit: InsertGenerationAudit): Promise<GenerationAudit> {
+    const row: GenerationAudit = {
+      id: randomUUID(),
+      temperature: null,
+      settings: {},
+      chunks: [],
+      tokensIn: 0,
+      tokensOut: 0,
+      latencyMs: null,
+      assumptions: [],
+      ...audit,
+      createdAt: new Date(),
+    };
+    this.generationAudits.set(row.id, row);
+    return row;
+  }
+
+  async getQuestionEmbedding(questionId: string): Promise<QuestionEmbedding | undefined> {
+    return this.questionEmbeddings.get(questionId);
+  }
+
+  async saveQuestionEmbedding(row: Omit<QuestionEmbedding, "createdAt">): Promise<QuestionEmbedding> {
+    const saved: QuestionEmbedding = { ...row, createdAt: new Date() };
+    this.questionEmbeddings.set(row.questionId, saved);
+    return saved;
+  }
+
+  async searchQuestionsByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel: string,
+    responseStatuses: string[]
+  ): Promise<Array<{ question: GrantQuestion; project: Project; similarity: number }>> {
+    const results: Array<{ question: GrantQuestion; project: Project; similarity: number }> = [];
+    for (const row of this.questionEmbeddings.values()) {
+      if (row.embeddingModel !== embeddingModel) continue;
+      const question = this.grantQuestions.get(row.questionId);
+      const project = question ? this.projects.get(question.projectId) : undefined;
+      if (!question || !project || project.organizationId !== organizationId) continue;
+      if (!responseStatuses.includes(question.responseStatus ?? "")) continue;
+      const similarity = row.embedding.reduce((sum, value, index) => sum + value * (embedding[index] ?? 0), 0) || 0;
+      results.push({ question, project, similarity });
+    }
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  async getAnswerLibrary(organizationId: string): Promise<AnswerLibraryEntry[]> {
+    return Array.from(this.answerLibrary.values())
+      .filter((entry) => entry.organizationId === organizationId)
+      .reverse()
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getAnswerLibraryEntry(id: string): Promise<AnswerLibraryEntry | undefined> {
+    return this.answerLibrary.get(id);
+  }
+
+  async createAnswerLibraryEntry(entry: InsertAnswerLibraryEntry): Promise<AnswerLibraryEntry> {
+    const now = new Date();
+    const row: AnswerLibraryEntry = {
+      id: randomUUID(),
+      organizationId: entry.organizationId,
+      title: entry.title,
+      question: entry.question,
+      answer: entry.answer,
+      citations: entry.citations ?? [],
+      topics: entry.topics ?? [],
+      sourceProjectId: entry.sourceProjectId ?? null,
+      sourceQuestionId: entry.sourceQuestionId ?? null,
+      questionEmbedding: entry.questionEmbedding ?? null,
+      answerEmbedding: entry.answerEmbedding ?? null,
+      embeddingModel: entry.embeddingModel ?? null,
+      createdBy: entry.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.answerLibrary.set(row.id, row);
+    return row;
+  }
+
+  async updateAnswerLibraryEntry(id: string, updates: Partial<AnswerLibraryEntry>): Promise<AnswerLibraryEntry | undefined> {
+    const entry = this.answerLibrary.get(id);
+    if (!entry) return undefined;
+    const updated = { ...entry, ...updates, id, updatedAt: new Date() };
+    this.answerLibrary.set(id, updated);
+    return updated;
+  }
+
+  async deleteAnswerLibraryEntry(id: string): Promise<boolean> {
+    return this.answerLibrary.delete(id);
+  }
+
+  async searchAnswerLibraryByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel?: string | null
+  ): Promise<Array<{ entry: AnswerLibraryEntry; questionSimilarity: number; answerSimilarity: number }>> {
+    const dot = (vector: number[] | null) =>
+      vector ? vector.reduce((sum, value, index) => sum + value * (embedding[index] ?? 0), 0) || 0 : 0;
+    return Array.from(this.answerLibrary.values())
+      .filter((entry) => entry.organizationId === organizationId)
+      .filter((entry) => entry.questionEmbedding || entry.answerEmbedding)
+      .filter((entry) => !embeddingModel || !entry.embeddingModel || entry.embeddingModel === embeddingModel)
+      .map((entry) => ({
+        entry,
+        questionSimilarity: dot(entry.questionEmbedding),
+        answerSimilarity: dot(entry.answerEmbedding),
+      }))
+      .sort(
+        (a, b) =>
+          Math.max(b.questionSimilarity, b.answerSimilarity) - Math.max(a.questionSimilarity, a.answerSimilarity),
+      )
+      .slice(0, limit);
+  }
+
+  async getFunders(organizationId: string): Promise<Funder[]> {
+    return Array.from(this.funders.values())
+      .filter((funder) => funder.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getFunder(id: string): Promise<Funder | undefined> {
+    return this.funders.get(id);
+  }
+
+  async createFunder(funder: InsertFunder): Promise<Funder> {
+    const now = new Date();
+    const row: Funder = {
+      id: randomUUID(),
+      organizationId: funder.organizationId,
+      name: funder.name,
+      mission: funder.mission ?? null,
+      priorities: funder.priorities ?? [],
+      terminology: funder.terminology ?? [],
+      evaluationCriteria: funder.evaluationCriteria ?? [],
+      awardMin: funder.awardMin ?? null,
+      awardMax: funder.awardMax ?? null,
+      contacts: funder.contacts ?? [],
+      notes: funder.notes ?? null,
+      sourceDocumentId: funder.sourceDocumentId ?? null,
+      createdBy: funder.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.funders.set(row.id, row);
+    return row;
+  }
+
+  async updateFunder(id: string, updates: Partial<Funder>): Promise<Funder | undefined> {
+    const funder = this.funders.get(id);
+    if (!funder) return undefined;
+    const updated = { ...funder, ...updates, id, updatedAt: new Date() };
+    this.funders.set(id, updated);
+    return updated;
+  }
+
+  async deleteFunder(id: string): Promise<boolean> {
+    if (!this.funders.delete(id)) return false;
+    for (const project of this.projects.values()) {
+      if (project.funderId === id) project.funderId = null;
+    }
+    return true;
+  }
+
+  async getOrganizationFacts(organizationId: string, projectId?: string | null): Promise<OrganizationFact[]> {
+    return Array.from(this.organizationFacts.values())
+      .filter((fact) => fact.organizationId === organizationId)
+      .filter((fact) => projectId === undefined || fact.projectId === null || fact.projectId === projectId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async getOrganizationFact(id: string): Promise<OrganizationFact | undefined> {
+    return this.organizationFacts.get(id);
+  }
+
+  async createOrganizationFact(fact: InsertOrganizationFact): Promise<OrganizationFact> {
+    const now = new Date();
+    const row: OrganizationFact = {
+      id: randomUUID(),
+      organizationId: fact.organizationId,
+      projectId: fact.projectId ?? null,
+      factKey: fact.factKey ?? null,
+      period: fact.period ?? null,
+      label: fact.label,
+      value: fact.value,
+      source: fact.source ?? "manual",
+      sourceDocumentId: fact.sourceDocumentId ?? null,
+      asOf: fact.asOf ?? null,
+      verifiedBy: fact.verifiedBy ?? null,
+      verifiedAt: fact.verifiedAt ?? null,
+      documentId: fact.documentId,
+      chunkIndex: fact.chunkIndex,
+      createdBy: fact.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.organizationFacts.set(row.id, row);
+    return row;
+  }
+
+  async updateOrganizationFact(id: string, updates: Partial<OrganizationFact>): Promise<OrganizationFact | undefined> {
+    const fact = this.organizationFacts.get(id);
+    if (!fact) return undefined;
+    const updated = { ...fact, ...updates, id, updatedAt: new Date() };
+    this.organizationFacts.set(id, updated);
+    return updated;
+  }
+
+  async deleteOrganizationFact(id: string): Promise<boolean> {
+    if (!this.organizationFacts.delete(id)) return false;
+    for (const labels of this.assumptionLabels.values()) {
+      for (const label of labels) if (label.factId === id) label.factId = null;
+    }
+    for (const question of this.clarificationQuestions.values()) {
+      if (question.factId === id) question.factId = null;
+    }
+    return true;
+  }
+
+  async getClarificationQuestions(projectId: string): Promise<ClarificationQuestion[]> {
+    return Array.from(this.clarificationQuestions.values())
+      .filter((question) => question.projectId === projectId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getClarificationQuestion(id: string): Promise<ClarificationQuestion | undefined> {
+    return this.clarificationQuestions.get(id);
+  }
+
+  async createClarificationQuestion(question: InsertClarificationQuestion): Promise<ClarificationQuestion> {
+    const now = new Date();
+    const row: ClarificationQuestion = {
+      id: randomUUID(),
+      projectId: question.projectId,
+      questionId: question.questionId ?? null,
+      assumptionLabelId: question.assumptionLabelId ?? null,
+      origin: question.origin,
+      category: question.category,
+      priority: question.priority,
+      questionText: question.questionText,
+      contextExplanation: question.contextExplanation,
+      exampleAnswer: question.exampleAnswer ?? null,
+      followUp: null,
+      status: "open",
+      answer: null,
+      factId: null,
+      answeredBy: null,
+      answeredAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.clarificationQuestions.set(row.id, row);
+    return row;
+  }
+
+  async updateClarificationQuestion(
+    id: string,
+    updates: Partial<ClarificationQuestion>,
+  ): Promise<ClarificationQuestion | undefined> {
+    const question = this.clarificationQuestions.get(id);
+    if (!question) return undefined;
+    const updated = { ...question, ...updates, updatedAt: new Date() };
+    this.clarificationQuestions.set(id, updated);
+    return updated;
+  }
+
   async getResponseVersions(questionId: string): Promise<ResponseVersion[]> {
     return Array.from(this.responseVersions.values()).filter(v => v.questionId === questionId);
   }
@@ -1450,6 +2095,9 @@ export class DbStorage implements IStorage {
       await tx
         .delete(schema.organizationProfileSuggestions)
         .where(eq(schema.organizationProfileSuggestions.organizationId, organizationId));
+      await tx
+        .delete(schema.organizationAiEndpoints)
+        .where(eq(schema.organizationAiEndpoints.organizationId, organizationId));
       await tx
         .delete(schema.usageEvents)
         .where(eq(schema.usageEvents.organizationId, organizationId));
@@ -1538,6 +2186,42 @@ export class DbStorage implements IStorage {
     return rows?.[0];
   }
 
+  async getOrganizationAiEndpoint(organizationId: string): Promise<OrganizationAiEndpoint | undefined> {
+    const rows = await db
+      ?.select()
+      .from(schema.organizationAiEndpoints)
+      .where(eq(schema.organizationAiEndpoints.organizationId, organizationId));
+    return rows?.[0];
+  }
+
+  async upsertOrganizationAiEndpoint(
+    organizationId: string,
+    endpoint: InsertOrganizationAiEndpoint
+  ): Promise<OrganizationAiEndpoint> {
+    const values = {
+      baseUrl: endpoint.baseUrl,
+      apiKey: endpoint.apiKey ?? null,
+      chatModel: endpoint.chatModel,
+      embeddingModel: endpoint.embeddingModel ?? null,
+      updatedAt: new Date(),
+    };
+    const rows = await db
+      ?.insert(schema.organizationAiEndpoints)
+      .values({ organizationId, ...values })
+      .onConflictDoUpdate({ target: schema.organizationAiEndpoints.organizationId, set: values })
+      .returning();
+    if (!rows?.[0]) throw new Error("Failed to save AI endpoint");
+    return rows[0];
+  }
+
+  async deleteOrganizationAiEndpoint(organizationId: string): Promise<boolean> {
+    const rows = await db
+      ?.delete(schema.organizationAiEndpoints)
+      .where(eq(schema.organizationAiEndpoints.organizationId, organizationId))
+      .returning();
+    return (rows?.length ?? 0) > 0;
+  }
+
   async getProjects(userId: string): Promise<Project[]> {
     const rows = await db?.select().from(schema.projects).where(eq(schema.projects.userId, userId));
     return rows || [];
@@ -1821,14 +2505,18 @@ export class DbStorage implements IStorage {
   async getProcessingJobs(options: {
     jobType: string;
     status?: string;
+    documentId?: string;
     limit?: number;
   }): Promise<DocumentProcessingJob[]> {
     if (!db) return [];
-    const { jobType, status, limit = 10 } = options;
+    const { jobType, status, documentId, limit = 10 } = options;
     let whereClause: SQL = eq(schema.documentProcessingJobs.jobType, jobType);
     if (status) {
       whereClause = and(whereClause, eq(schema.documentProcessingJobs.status, status)) ?? whereClause;
     }
+    if (documentId) {
+      whereClause = and(whereClause, eq(schema.documentProcessingJobs.documentId, documentId)) ?? whereClause;
+    }
     const rows = await db
       .select()
       .from(schema.documentProcessingJobs)
@@ -1849,6 +2537,10 @@ export class DbStorage implements IStorage {
       content: string;
       tokenCount: number;
       sectionLabel?: string | null;
+      startOffset?: number | null;
+      endOffset?: number | null;
+      pageStart?: number | null;
+      pageEnd?: number | null;
       embedding?: number[] | null;
     }
   ): Promise<void> {
@@ -1859,10 +2551,23 @@ export class DbStorage implements IStorage {
       content: data.content,
       tokenCount: data.tokenCount,
       sectionLabel: data.sectionLabel ?? null,
+      startOffset: data.startOffset ?? null,
+      endOffset: data.endOffset ?? null,
+      pageStart: data.pageStart ?? null,
+      pageEnd: data.pageEnd ?? null,
       embedding: data.embedding ?? null,
     } as any);
   }
 
+  async getDocChunk(documentId: string, chunkIndex: number): Promise<DocChunk | undefined> {
+    const rows = await db
+      ?.select()
+      .from(schema.docChunks)
+      .where(and(eq(schema.docChunks.documentId, documentId), eq(schema.docChunks.chunkIndex, chunkIndex)))
+      .limit(1);
+    return rows?.[0];
+  }
+
   async createDraftCitation(citation: InsertDraftCitation): Promise<DraftCitation> {
     const rows = await db
       ?.insert(schema.draftCitations)
@@ -1875,7 +2580,9 @@ export class DbStorage implements IStorage {
     const rows = await db
       ?.select()
       .from(schema.draftCitations)
-      .where(eq(schema.draftCitations.draftId, draftId));
+      .where(eq(schema.draftCitations.draftId, draftId))
+      // Insertion order is marker order: [#N] in the answer is the Nth row.
+      .orderBy(asc(schema.draftCitations.createdAt));
     return rows || [];
   }
 
@@ -1934,6 +2641,23 @@ export class DbStorage implements IStorage {
     return rows?.[0];
   }
 
+  async updateAssumptionLabel(id: string, updates: Partial<AssumptionLabel>): Promise<AssumptionLabel | undefined> {
+    if (!db) return undefined;
+    const { id: _id, ...rest } = updates;
+    const rows = await db
+      .update(schema.assumptionLabels)
+      .set({ ...rest, updatedAt: new Date() } as any)
+      .where(eq(schema.assumptionLabels.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
+  async deleteAssumptionLabel(id: string): Promise<boolean> {
+    if (!db) return false;
+    const rows = await db.delete(schema.assumptionLabels).where(eq(schema.assumptionLabels.id, id)).returning();
+    return !!rows?.length;
+  }
+
   async deleteAssumptionLabels(projectId: string, draftId?: string): Promise<void> {
     if (!db) return;
     let condition: SQL = eq(schema.assumptionLabels.projectId, projectId);
@@ -1958,7 +2682,8 @@ export class DbStorage implements IStorage {
     organizationId: string,
     embedding: number[],
     limit: number,
-    projectId?: string | null
+    projectId?: string | null,
+    embeddingModel?: string | null
   ): Promise<Array<{ chunk: DocChunk; document: Document; similarity?: number }>> {
     if (!rawSql) return [];
     if (!(await this.userHasOrganizationAccess(userId, organizationId))) return [];
@@ -1971,6 +2696,10 @@ export class DbStorage implements IStorage {
         dc.content,
         dc.token_count,
         dc.section_label,
+        dc.start_offset,
+        dc.end_offset,
+        dc.page_start,
+        dc.page_end,
         dc.created_at AS chunk_created_at,
         dc.updated_at AS chunk_updated_at,
         d.id AS document_id,
@@ -1981,6 +2710,7 @@ export class DbStorage implements IStorage {
         d.filename,
         d.filename,
         d.summary,
+        d.structured_summary,
         d.file_type,
         d.file_size,
         d.category,
@@ -2002,6 +2732,7 @@ export class DbStorage implements IStorage {
       INNER JOIN documents d ON d.id = dc.document_id
       WHERE d.organization_id = $1
         AND ($3::varchar IS NULL OR d.project_id IS NULL OR d.project_id = $3::varchar)
+        AND ($5::text IS NULL OR d.embedding_model IS NULL OR d.embedding_model = $5::text)
       ORDER BY dc.embedding <=> $4::vector
       LIMIT $2;
     `;
@@ -2010,6 +2741,7 @@ export class DbStorage implements IStorage {
       limit,
       projectId ?? null,
       vectorLiteral,
+      embeddingModel ?? null,
     ])) as any[];
     return (rows || []).map((row: any) => ({
       chunk: {
@@ -2019,6 +2751,10 @@ export class DbStorage implements IStorage {
         content: row.content,
         tokenCount: row.token_count,
         sectionLabel: row.section_label,
+        startOffset: row.start_offset,
+        endOffset: row.end_offset,
+        pageStart: row.page_start,
+        pageEnd: row.page_end,
         embedding: null,
         createdAt: row.chunk_created_at,
         updatedAt: row.chunk_updated_at,
@@ -2031,6 +2767,7 @@ export class DbStorage implements IStorage {
         filename: row.filename,
         originalName: row.original_name,
         summary: row.summary,
+        structuredSummary: row.structured_summary,
         fileType: row.file_type,
         fileSize: row.file_size,
         category: row.category,
@@ -2080,6 +2817,10 @@ export class DbStorage implements IStorage {
         dc.content,
         dc.token_count,
         dc.section_label,
+        dc.start_offset,
+        dc.end_offset,
+        dc.page_start,
+        dc.page_end,
         dc.created_at AS chunk_created_at,
         dc.updated_at AS chunk_updated_at,
         d.id AS document_id,
@@ -2089,6 +2830,7 @@ export class DbStorage implements IStorage {
         d.original_name,
         d.filename,
         d.summary,
+        d.structured_summary,
         d.file_type,
         d.file_size,
         d.category,
@@ -2124,6 +2866,10 @@ export class DbStorage implements IStorage {
         content: row.content,
         tokenCount: row.token_count,
         sectionLabel: row.section_label,
+        startOffset: row.start_offset,
+        endOffset: row.end_offset,
+        pageStart: row.page_start,
+        pageEnd: row.page_end,
         embedding: null,
         createdAt: row.chunk_created_at,
         updatedAt: row.chunk_updated_at,
@@ -2136,6 +2882,7 @@ export class DbStorage implements IStorage {
         filename: row.filename,
         originalName: row.original_name,
         summary: row.summary,
+        structuredSummary: row.structured_summary,
         fileType: row.file_type,
         fileSize: row.file_size,
         category: row.category,
@@ -2182,6 +2929,392 @@ export class DbStorage implements IStorage {
     return !!rows?.length;
   }
 
+  async createGenerationBatch(batch: InsertGenerationBatch, questionIds: string[]): Promise<GenerationBatch | undefined> {
+    return await db.transaction(async (tx: any) => {
+      // generation_batches_one_running turns a second running batch into a no-op.
+      const [row] = await tx
+        .insert(schema.generationBatches)
+        .values({ ...batch, status: "running" })
+        .onConflictDoNothing()
+        .returning();
+      if (!row) return undefined;
+      if (questionIds.length > 0) {
+        await tx.insert(schema.generationBatchItems).values(
+          questionIds.map((questionId, position) => ({ batchId: row.id, questionId, position, status: "queued" }))
+        );
+      }
+      return row;
+    });
+  }
+
+  async getGenerationBatch(id: string): Promise<GenerationBatch | undefined> {
+    const rows = await db?.select().from(schema.generationBatches).where(eq(schema.generationBatches.id, id));
+    return rows?.[0];
+  }
+
+  async getLatestGenerationBatch(projectId: string): Promise<GenerationBatch | undefined> {
+    const rows = await db
+      ?.select()
+      .from(schema.generationBatches)
+      .where(eq(schema.generationBatches.projectId, projectId))
+      .orderBy(desc(schema.generationBatches.createdAt))
+      .limit(1);
+    return rows?.[0];
+  }
+
+  async updateGenerationBatch(id: string, updates: Partial<GenerationBatch>): Promise<GenerationBatch | undefined> {
+    const rows = await db
+      ?.update(schema.generationBatches)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(schema.generationBatches.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
+  async getGenerationBatchItems(batchId: string): Promise<GenerationBatchItem[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.generationBatchItems)
+      .where(eq(schema.generationBatchItems.batchId, batchId))
+      .orderBy(asc(schema.generationBatchItems.position));
+    return rows ?? [];
+  }
+
+  async claimGenerationBatchItem(itemId: string): Promise<boolean> {
+    const rows = await db
+      ?.update(schema.generationBatchItems)
+      .set({ status: "running", startedAt: new Date() })
+      .where(and(eq(schema.generationBatchItems.id, itemId), eq(schema.generationBatchItems.status, "queued")))
+      .returning({ id: schema.generationBatchItems.id });
+    return (rows?.length ?? 0) > 0;
+  }
+
+  async updateGenerationBatchItem(
+    itemId: string,
+    updates: Partial<GenerationBatchItem>
+  ): Promise<GenerationBatchItem | undefined> {
+    const rows = await db
+      ?.update(schema.generationBatchItems)
+      .set(updates as any)
+      .where(eq(schema.generationBatchItems.id, itemId))
+      .returning();
+    return rows?.[0];
+  }
+
+  async cancelGenerationBatch(id: string): Promise<GenerationBatch | undefined> {
+    await db
+      ?.update(schema.generationBatchItems)
+      .set({ status: "cancelled", finishedAt: new Date() })
+      .where(and(eq(schema.generationBatchItems.batchId, id), eq(schema.generationBatchItems.status, "queued")));
+    return this.updateGenerationBatch(id, { status: "cancelled" });
+  }
+
+  async getClaimVerifications(questionId: string): Promise<ClaimVerification[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.claimVerifications)
+      .where(eq(schema.claimVerifications.questionId, questionId))
+      .orderBy(asc(schema.claimVerifications.position));
+    return rows || [];
+  }
+
+  async replaceClaimVerifications(
+    questionId: string,
+    claims: InsertClaimVerification[]
+  ): Promise<ClaimVerification[]> {
+    return await db.transaction(async (tx: any) => {
+      await tx.delete(schema.claimVerifications).where(eq(schema.claimVerifications.questionId, questionId));
+      if (!claims.length) return [];
+      const rows = await tx
+        .insert(schema.claimVerifications)
+        .values(claims.map((claim) => ({ ...claim, questionId })))
+        .returning();
+      return [...rows].sort((a: ClaimVerification, b: ClaimVerification) => a.position - b.position);
+    });
+  }
+
+  async getDraftReviews(questionId: string): Promise<DraftReviewRow[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.draftReviews)
+      .where(eq(schema.draftReviews.questionId, questionId))
+      .orderBy(desc(schema.draftReviews.createdAt));
+    return rows || [];
+  }
+
+  async createDraftReview(review: InsertDraftReview): Promise<DraftReviewRow> {
+    const rows = await db?.insert(schema.draftReviews).values(review).returning();
+    return rows![0];
+  }
+
+  async getGenerationAudits(questionId: string): Promise<GenerationAudit[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.generationAudits)
+      .where(eq(schema.generationAudits.questionId, questionId))
+      .orderBy(desc(schema.generationAudits.createdAt));
+    return rows || [];
+  }
+
+  async getProjectGenerationAudits(projectId: string): Promise<GenerationAudit[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.generationAudits)
+      .where(eq(schema.generationAudits.projectId, projectId))
+      .orderBy(desc(schema.generationAudits.createdAt));
+    return rows || [];
+  }
+
+  async getGenerationAuditForVersion(responseVersionId: string): Promise<GenerationAudit | undefined> {
+    const rows = await db
+      ?.select()
+      .from(schema.generationAudits)
+      .where(eq(schema.generationAudits.responseVersionId, responseVersionId));
+    return rows?.[0];
+  }
+
+  async createGenerationAudit(audit: InsertGenerationAudit): Promise<GenerationAudit> {
+    const rows = await db?.insert(schema.generationAudits).values(audit).returning();
+    return rows![0];
+  }
+
+  async getQuestionEmbedding(questionId: string): Promise<QuestionEmbedding | undefined> {
+    const rows = await db
+      ?.select()
+      .from(schema.questionEmbeddings)
+      .where(eq(schema.questionEmbeddings.questionId, questionId));
+    return rows?.[0];
+  }
+
+  async saveQuestionEmbedding(row: Omit<QuestionEmbedding, "createdAt">): Promise<QuestionEmbedding> {
+    const rows = await db
+      ?.insert(schema.questionEmbeddings)
+      .values(row)
+      .onConflictDoUpdate({
+        target: schema.questionEmbeddings.questionId,
+        set: {
+          contentHash: row.contentHash,
+          embedding: row.embedding,
+          embeddingModel: row.embeddingModel,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return rows![0];
+  }
+
+  async searchQuestionsByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel: string,
+    responseStatuses: string[]
+  ): Promise<Array<{ question: GrantQuestion; project: Project; similarity: number }>> {
+    if (!rawSql || !responseStatuses.length) return [];
+    const query = `
+      SELECT qe.question_id, 1 - (qe.embedding <=> $3::vector) AS similarity
+      FROM question_embeddings qe
+      INNER JOIN questions q ON q.id = qe.question_id
+      INNER JOIN projects p ON p.id = q.project_id
+      WHERE p.organization_id = $1
+        AND qe.embedding_model = $4
+        AND q.response_status = ANY($5::text[])
+      ORDER BY qe.embedding <=> $3::vector
+      LIMIT $2;
+    `;
+    const rows = (await rawSql.unsafe(query, [
+      organizationId,
+      limit,
+      `[${embedding.join(",")}]`,
+      embeddingModel,
+      responseStatuses,
+    ])) as any[];
+    const results: Array<{ question: GrantQuestion; project: Project; similarity: number }> = [];
+    for (const row of rows || []) {
+      const question = await this.getGrantQuestion(row.question_id);
+      const project = question ? await this.getProject(question.projectId) : undefined;
+      if (question && project) results.push({ question, project, similarity: Number(row.similarity) });
+    }
+    return results;
+  }
+
+  async getAnswerLibrary(organizationId: string): Promise<AnswerLibraryEntry[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.answerLibrary)
+      .where(eq(schema.answerLibrary.organizationId, organizationId))
+      .orderBy(desc(schema.answerLibrary.createdAt));
+    return rows || [];
+  }
+
+  async getAnswerLibraryEntry(id: string): Promise<AnswerLibraryEntry | undefined> {
+    const rows = await db?.select().from(schema.answerLibrary).where(eq(schema.answerLibrary.id, id));
+    return rows?.[0];
+  }
+
+  async createAnswerLibraryEntry(entry: InsertAnswerLibraryEntry): Promise<AnswerLibraryEntry> {
+    const rows = await db?.insert(schema.answerLibrary).values(entry).returning();
+    return rows![0];
+  }
+
+  async updateAnswerLibraryEntry(id: string, updates: Partial<AnswerLibraryEntry>): Promise<AnswerLibraryEntry | undefined> {
+    const rows = await db
+      ?.update(schema.answerLibrary)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(schema.answerLibrary.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
+  async deleteAnswerLibraryEntry(id: string): Promise<boolean> {
+    if (!db) return false;
+    const rows = await db.delete(schema.answerLibrary).where(eq(schema.answerLibrary.id, id)).returning();
+    return !!rows?.length;
+  }
+
+  async searchAnswerLibraryByEmbedding(
+    organizationId: string,
+    embedding: number[],
+    limit: number,
+    embeddingModel?: string | null
+  ): Promise<Array<{ entry: AnswerLibraryEntry; questionSimilarity: number; answerSimilarity: number }>> {
+    if (!rawSql) return [];
+    const query = `
+      SELECT id,
+        COALESCE(1 - (question_embedding <=> $3::vector), 0) AS question_similarity,
+        COALESCE(1 - (answer_embedding <=> $3::vector), 0) AS answer_similarity
+      FROM answer_library
+      WHERE organization_id = $1
+        AND (question_embedding IS NOT NULL OR answer_embedding IS NOT NULL)
+        AND ($4::text IS NULL OR embedding_model IS NULL OR embedding_model = $4::text)
+      ORDER BY LEAST(
+        COALESCE(question_embedding <=> $3::vector, 2),
+        COALESCE(answer_embedding <=> $3::vector, 2)
+      )
+      LIMIT $2;
+    `;
+    const rows = (await rawSql.unsafe(query, [
+      organizationId,
+      limit,
+      `[${embedding.join(",")}]`,
+      embeddingModel ?? null,
+    ])) as any[];
+    if (!rows?.length) return [];
+    const entries = await db
+      ?.select()
+      .from(schema.answerLibrary)
+      .where(inArray(schema.answerLibrary.id, rows.map((row: any) => row.id)));
+    const byId = new Map<string, AnswerLibraryEntry>((entries || []).map((entry: AnswerLibraryEntry) => [entry.id, entry]));
+    return rows.flatMap((row: any) => {
+      const entry = byId.get(row.id);
+      if (!entry) return [];
+      return [{ entry, questionSimilarity: Number(row.question_similarity), answerSimilarity: Number(row.answer_similarity) }];
+    });
+  }
+
+  async getFunders(organizationId: string): Promise<Funder[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.funders)
+      .where(eq(schema.funders.organizationId, organizationId))
+      .orderBy(asc(schema.funders.name));
+    return rows || [];
+  }
+
+  async getFunder(id: string): Promise<Funder | undefined> {
+    const rows = await db?.select().from(schema.funders).where(eq(schema.funders.id, id));
+    return rows?.[0];
+  }
+
+  async createFunder(funder: InsertFunder): Promise<Funder> {
+    const rows = await db?.insert(schema.funders).values(funder).returning();
+    return rows![0];
+  }
+
+  async updateFunder(id: string, updates: Partial<Funder>): Promise<Funder | undefined> {
+    const rows = await db
+      ?.update(schema.funders)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(schema.funders.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
+  async deleteFunder(id: string): Promise<boolean> {
+    if (!db) return false;
+    const rows = await db.delete(schema.funders).where(eq(schema.funders.id, id)).returning();
+    return !!rows?.length;
+  }
+
+  async getOrganizationFacts(organizationId: string, projectId?: string | null): Promise<OrganizationFact[]> {
+    const facts = schema.organizationFacts;
+    const scope =
+      projectId === undefined
+        ? eq(facts.organizationId, organizationId)
+        : and(
+            eq(facts.organizationId, organizationId),
+            projectId === null ? isNull(facts.projectId) : or(isNull(facts.projectId), eq(facts.projectId, projectId)),
+          );
+    const rows = await db?.select().from(facts).where(scope).orderBy(asc(facts.chunkIndex));
+    return rows || [];
+  }
+
+  async getOrganizationFact(id: string): Promise<OrganizationFact | undefined> {
+    const rows = await db?.select().from(schema.organizationFacts).where(eq(schema.organizationFacts.id, id));
+    return rows?.[0];
+  }
+
+  async createOrganizationFact(fact: InsertOrganizationFact): Promise<OrganizationFact> {
+    const rows = await db?.insert(schema.organizationFacts).values(fact).returning();
+    return rows![0];
+  }
+
+  async updateOrganizationFact(id: string, updates: Partial<OrganizationFact>): Promise<OrganizationFact | undefined> {
+    const rows = await db
+      ?.update(schema.organizationFacts)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(schema.organizationFacts.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
+  async deleteOrganizationFact(id: string): Promise<boolean> {
+    if (!db) return false;
+    const rows = await db.delete(schema.organizationFacts).where(eq(schema.organizationFacts.id, id)).returning();
+    return !!rows?.length;
+  }
+
+  async getClarificationQuestions(projectId: string): Promise<ClarificationQuestion[]> {
+    const rows = await db
+      ?.select()
+      .from(schema.clarificationQuestions)
+      .where(eq(schema.clarificationQuestions.projectId, projectId))
+      .orderBy(asc(schema.clarificationQuestions.createdAt));
+    return rows || [];
+  }
+
+  async getClarificationQuestion(id: string): Promise<ClarificationQuestion | undefined> {
+    const rows = await db?.select().from(schema.clarificationQuestions).where(eq(schema.clarificationQuestions.id, id));
+    return rows?.[0];
+  }
+
+  async createClarificationQuestion(question: InsertClarificationQuestion): Promise<ClarificationQuestion> {
+    const rows = await db?.insert(schema.clarificationQuestions).values(question).returning();
+    return rows![0];
+  }
+
+  async updateClarificationQuestion(
+    id: string,
+    updates: Partial<ClarificationQuestion>,
+  ): Promise<ClarificationQuestion | undefined> {
+    const rows = await db
+      ?.update(schema.clarificationQuestions)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(schema.clarificationQuestions.id, id))
+      .returning();
+    return rows?.[0];
+  }
+
   async getResponseVersions(questionId: string): Promise<ResponseVersion[]> {
     const rows = await db?.select().from(schema.responseVersions).where(eq(schema.responseVersions.questionId, questionId));
     return rows || [];
@@ -1,11 +1,24 @@
 import { storage } from "../storage.js";
+import { aiService } from "../services/ai.js";
 import { generateEmbedding } from "../services/embedding.js";
 import { billingService, calculateCostCents } from "../services/billing.js";
+import type { ModelPreference } from "../services/llm.js";
+import { chunkSpreadsheetText, spreadsheetKind, type SpreadsheetChunk } from "../services/spreadsheet.js";
+import { chunkText, type TextChunk } from "../services/chunking.js";
+import { providerForModel } from "../../shared/ai-models.js";
+import type { Document, DocumentProcessingJob } from "../../shared/schema.js";
+
+/** `embedding` chunks and embeds a document; `summary` summarizes it. */
+export type DocumentJobType = "embedding" | "summary";
 
 interface ProcessOptions {
   batchSize?: number;
   chunkSize?: number;
   chunkOverlap?: number;
+  /** Job types to run, in this order (default: all) */
+  jobTypes?: DocumentJobType[];
+  /** Only this document's jobs, e.g. right after its upload */
+  documentId?: string;
 }
 
 export interface ProcessDocumentJobsResult {
@@ -17,63 +30,37 @@ export interface ProcessDocumentJobsResult {
   details: Array<{ jobId: string; documentId: string; status: "succeeded" | "failed" | "skipped" }>;
 }
 
-interface TextChunk {
-  content: string;
-  tokenCount: number;
-  sectionLabel?: string | null;
-}
-
 const DEFAULT_CHUNK_SIZE = 1200; // approx characters
 const DEFAULT_CHUNK_OVERLAP = 200;
 
-export function chunkText(
-  text: string,
-  chunkSize: number,
-  overlap: number
-): TextChunk[] {
-  const chunks: TextChunk[] = [];
-  const normalized = text.replace(/\s+/g, " ").trim();
-
-  if (!normalized) {
-    return [];
-  }
-
-  let index = 0;
-  while (index < normalized.length) {
-    const end = Math.min(index + chunkSize, normalized.length);
-    const slice = normalized.slice(index, end).trim();
-    const tokenCount = slice.split(/\s+/).length;
-
-    if (slice.length > 0) {
-      chunks.push({
-        content: slice,
-        tokenCount,
-      });
-    }
-
-    if (end === normalized.length) {
-      break;
-    }
-
-    index = end - overlap;
-    if (index < 0) index = 0;
-  }
-
-  return chunks;
-}
+/** A job still running after this long was cut off (e.g. by a function timeout). */
+export const STALE_JOB_MS = 15 * 60 * 1000;
+/** A stale job is queued again until it has been started this many times. */
+export const MAX_JOB_ATTEMPTS = 3;
 
 export async function processDocumentJobs(options: ProcessOptions = {}): Promise<ProcessDocumentJobsResult> {
   const {
     batchSize = 5,
     chunkSize = DEFAULT_CHUNK_SIZE,
     chunkOverlap = DEFAULT_CHUNK_OVERLAP,
+    jobTypes = ["embedding", "summary"],
+    documentId,
   } = options;
 
-  const jobs = await storage.getProcessingJobs({
-    jobType: "embedding",
-    status: "queued",
-    limit: batchSize,
-  });
+  await recoverStaleJobs(jobTypes, documentId);
+
+  const jobs: DocumentProcessingJob[] = [];
+  for (const jobType of jobTypes) {
+    if (jobs.length >= batchSize) break;
+    jobs.push(
+      ...(await storage.getProcessingJobs({
+        jobType,
+        status: "queued",
+        documentId,
+        limit: batchSize - jobs.length,
+      }))
+    );
+  }
 
   const summary: ProcessDocumentJobsResult = {
     requested: jobs.length,
@@ -90,6 +77,7 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
   }
 
   for (const job of jobs) {
+    const isSummary = job.jobType === "summary";
     try {
       await storage.updateProcessingJob(job.id, {
         status: "running",
@@ -97,10 +85,12 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
         startedAt: new Date(),
       });
 
-      await storage.updateDocument(job.documentId, {
-        embeddingStatus: "processing",
-        processingError: null,
-      });
+      if (!isSummary) {
+        await storage.updateDocument(job.documentId, {
+          embeddingStatus: "processing",
+          processingError: null,
+        });
+      }
 
       const document = await storage.getDocument(job.documentId);
       if (!document) {
@@ -112,7 +102,26 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
         throw new Error(`Extraction not ready for document ${job.documentId}`);
       }
 
-      const chunks = chunkText(extraction.rawText || "", chunkSize, chunkOverlap);
+      if (isSummary) {
+        await summarizeExtractedDocument(document, extraction.rawText || "");
+        await storage.updateProcessingJob(job.id, {
+          status: "succeeded",
+          finishedAt: new Date(),
+          lastError: null,
+        });
+        console.log(`[worker] Summarized document ${job.documentId}.`);
+        summary.processed += 1;
+        summary.succeeded += 1;
+        summary.details.push({ jobId: job.id, documentId: job.documentId, status: "succeeded" });
+        continue;
+      }
+
+      // Spreadsheet rows are chunked whole, each chunk under its sheet's header.
+      const rawText = extraction.rawText || "";
+      const chunks: Array<SpreadsheetChunk | TextChunk> = spreadsheetKind(document.fileType, document.originalName)
+        ? chunkSpreadsheetText(rawText, chunkSize)
+        : chunkText(rawText, chunkSize, chunkOverlap);
+      const endpoint = await storage.getOrganizationAiEndpoint(document.organizationId);
 
       await storage.deleteChunksForDocument(job.documentId);
 
@@ -125,10 +134,12 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
         let embedding: number[] | null = null;
 
         try {
-          const result = await generateEmbedding(chunk.content);
+          const result = await generateEmbedding(chunk.content, endpoint);
           embedding = result.embedding;
-          embeddingModel = result.model;
-          embeddedTokens += chunk.tokenCount;
+          if (embedding) {
+            embeddingModel = result.model;
+            embeddedTokens += chunk.tokenCount;
+          }
         } catch (embeddingError) {
           console.error(
             `[worker] Embedding failed for document ${job.documentId}, chunk ${i}:`,
@@ -141,7 +152,11 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
           chunkIndex: i,
           content: chunk.content,
           tokenCount: chunk.tokenCount,
-          sectionLabel: chunk.sectionLabel ?? null,
+          sectionLabel: chunk.sectionLabel,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+          pageStart: "pageStart" in chunk ? chunk.pageStart : null,
+          pageEnd: "pageEnd" in chunk ? chunk.pageEnd : null,
           embedding,
         });
       }
@@ -166,7 +181,7 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
             userId: document.userId,
             projectId: null,
             type: "embedding",
-            provider: "openai",
+            provider: endpoint?.embeddingModel ? "openai-compatible" : providerForModel(embeddingModel),
             model: embeddingModel,
             tokensIn: embeddedTokens,
             tokensOut: 0,
@@ -203,7 +218,7 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
         lastError: error instanceof Error ? error.message : String(error),
       });
       await storage.updateDocument(job.documentId, {
-        embeddingStatus: "failed",
+        ...(isSummary ? {} : { embeddingStatus: "failed" }),
         processingError: error instanceof Error ? error.message : String(error),
       });
       summary.processed += 1;
@@ -214,3 +229,76 @@ export async function processDocumentJobs(options: ProcessOptions = {}): Promise
 
   return summary;
 }
+
+/**
+ * Jobs left `running` by a worker that was cut off are queued again, or
+ * failed once they have used up their attempts, so they are not stuck.
+ */
+async function recoverStaleJobs(jobTypes: DocumentJobType[], documentId?: string): Promise<void> {
+  const staleBefore = Date.now() - STALE_JOB_MS;
+  for (const jobType of jobTypes) {
+    const running = await storage.getProcessingJobs({ jobType, status: "running", documentId, limit: 100 });
+    for (const job of running) {
+      if (job.startedAt && new Date(job.startedAt).getTime() > staleBefore) continue;
+      const exhausted = (job.attempts ?? 0) >= MAX_JOB_ATTEMPTS;
+      console.warn(`[worker] ${jobType} job ${job.id} stopped running; ${exhausted ? "failing" : "requeueing"} it.`);
+      await storage.updateProcessingJob(job.id, {
+        status: exhausted ? "failed" : "queued",
+        finishedAt: exhausted ? new Date() : null,
+        lastError: "The worker stopped before the job finished",
+      });
+      if (exhausted && jobType === "embedding") {
+        await storage.updateDocument(job.documentId, {
+          embeddingStatus: "failed",
+          processingError: "The worker stopped before the job finished",
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Summarizes a document with its uploader's model preference. Each model call
+ * is billed as it completes, so calls made before a failure are still recorded.
+ */
+async function summarizeExtractedDocument(document: Document, rawText: string): Promise<void> {
+  const [settings, endpoint] = await Promise.all([
+    storage.getUserSettings(document.userId).catch(() => undefined),
+    storage.getOrganizationAiEndpoint(document.organizationId),
+  ]);
+  const preference: ModelPreference = {
+    model: settings?.aiModel,
+    fallbackModel: settings?.fallbackModel,
+    endpoint,
+  };
+
+  const { summary, text } = await aiService.summarizeDocument(
+    rawText,
+    document.originalName,
+    preference,
+    async (usage) => {
+      try {
+        await billingService.recordUsage({
+          organizationId: document.organizationId,
+          userId: document.userId,
+          projectId: document.projectId ?? null,
+          type: "summarization",
+          provider: usage.provider,
+          model: usage.model,
+          tokensIn: usage.tokensIn,
+          tokensOut: usage.tokensOut,
+          costCents: calculateCostCents(usage.model, usage.tokensIn, usage.tokensOut),
+          metadata: { documentId: document.id },
+        });
+      } catch (usageError) {
+        console.warn(`[worker] Failed to record summarization usage for ${document.id}:`, usageError);
+      }
+    }
+  );
+
+  await storage.updateDocument(document.id, {
+    summary: text,
+    structuredSummary: summary,
+    summaryExtractedAt: new Date(),
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared catalog of the language and embedding models Granted can route to.
+ *
+ * The client uses it to populate the model pickers in Settings; the server uses
+ * it to pick a provider for `user_settings.aiModel` / `fallbackModel`. Billing
+ * keeps the per-token prices (see MODEL_TOKEN_PRICING_USD) and is tested
+ * against this list so a model cannot be offered without a price.
+ */
+
+/**
+ * Providers chosen by model id. An organization may instead point every call
+ * at its own OpenAI-compatible server ("openai-compatible"), whose model names
+ * are whatever that server exposes and so never appear in this catalog.
+ */
+export type CatalogProviderName = "openai" | "anthropic" | "local";
+export type AIProviderName = CatalogProviderName | "openai-compatible";
+
+export interface AIModelOption {
+  id: string;
+  label: string;
+  provider: CatalogProviderName;
+}
+
+/** Deterministic, offline model used for development and tests. */
+export const LOCAL_CHAT_MODEL = "local-deterministic";
+export const LOCAL_EMBEDDING_MODEL = "local-embedding";
+
+export const DEFAULT_CHAT_MODEL = "gpt-4o";
+export const DEFAULT_FALLBACK_MODEL = "gpt-3.5-turbo";
+
+export const CHAT_MODELS: AIModelOption[] = [
+  { id: "gpt-4o", label: "GPT-4o", provider: "openai" },
+  { id: "gpt-4o-mini", label: "GPT-4o mini", provider: "openai" },
+  { id: "gpt-4.1", label: "GPT-4.1", provider: "openai" },
+  { id: "gpt-4.1-mini", label: "GPT-4.1 mini", provider: "openai" },
+  { id: "gpt-4", label: "GPT-4", provider: "openai" },
+  { id: "gpt-3.5-turbo", label: "GPT-3.5 Turbo", provider: "openai" },
+  { id: "claude-3-7-sonnet-20250219", label: "Claude 3.7 Sonnet", provider: "anthropic" },
+  { id: "claude-3-5-sonnet-20241022", label: "Claude 3.5 Sonnet", provider: "anthropic" },
+  { id: "claude-3-5-haiku-20241022", label: "Claude 3.5 Haiku", provider: "anthropic" },
+  { id: LOCAL_CHAT_MODEL, label: "Local (offline, deterministic)", provider: "local" },
+];
+
+export const EMBEDDING_MODELS: AIModelOption[] = [
+  { id: "text-embedding-3-small", label: "OpenAI text-embedding-3-small", provider: "openai" },
+  { id: "text-embedding-3-large", label: "OpenAI text-embedding-3-large", provider: "openai" },
+  { id: LOCAL_EMBEDDING_MODEL, label: "Local (offline, deterministic)", provider: "local" },
+];
+
+/**
+ * Resolve which provider serves a model id. Unknown ids are routed by prefix so
+ * a newer model from a known vendor (e.g. set via GRANTED_DEFAULT_MODEL) still
+ * works; anything unrecognized is treated as OpenAI, matching legacy behavior.
+ */
+export function providerForModel(modelId: string): CatalogProviderName {
+  const known = [...CHAT_MODELS, ...EMBEDDING_MODELS].find((m) => m.id === modelId);
+  if (known) return known.provider;
+  if (modelId.startsWith("claude-")) return "anthropic";
+  if (modelId.startsWith("local-")) return "local";
+  return "openai";
+}
@@ -0,0 +1,54 @@
+/**
+ * Organization answer library: answers saved for reuse in later applications,
+ * and the matches offered for a new question.
+ */
+
+import type { CitationPages } from "./citation-source.js";
+
+/** A source the saved answer cites; the Nth citation is the answer's [#N] marker. */
+export interface LibraryCitation extends CitationPages {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  quote: string;
+}
+
+export interface LibraryAnswer {
+  id: string;
+  organizationId: string;
+  title: string;
+  question: string;
+  answer: string;
+  citations: LibraryCitation[];
+  topics: string[];
+  sourceProjectId: string | null;
+  sourceQuestionId: string | null;
+  createdBy: string;
+  createdAt: string | Date | null;
+  updatedAt: string | Date | null;
+}
+
+/**
+ * How a library answer matched: its question or its answer was close to the
+ * new question in embedding space, or (without embeddings) they share terms.
+ */
+export type LibraryMatchBasis = "question" | "answer" | "keyword";
+
+export interface LibraryMatch {
+  entry: LibraryAnswer;
+  /** 0-1 */
+  similarity: number;
+  matchedOn: LibraryMatchBasis;
+}
+
+/** Topic tags as stored: trimmed, lower-cased, de-duplicated. */
+export function normalizeTopics(topics: unknown): string[] {
+  if (!Array.isArray(topics)) return [];
+  const seen = new Set<string>();
+  for (const topic of topics) {
+    if (typeof topic !== "string") continue;
+    const tag = topic.trim().toLowerCase().replace(/\s+/g, " ");
+    if (tag) seen.add(tag.slice(0, 40));
+  }
+  return Array.from(seen);
+}
@@ -0,0 +1,42 @@
+// @vitest-environment node
+
+import { describe, expect, it } from "vitest";
+import { formatAnswerLength, measureAnswer, parseAnswerLimit } from "./answer-limits";
+
+describe("measureAnswer", () => {
+  it("counts words, characters, and characters without spaces", () => {
+    const text = "  We served 1,240 families. [#1]\n\nDemand keeps rising.  ";
+    expect(measureAnswer(text, "words")).toBe(8);
+    expect(measureAnswer(text, "characters")).toBe(52);
+    expect(measureAnswer(text, "characters_no_spaces")).toBe(44);
+    expect(formatAnswerLength(text, 2000, "characters")).toBe("52/2,000 characters");
+  });
+});
+
+describe("parseAnswerLimit", () => {
+  it("detects word and character limits stated with the question", () => {
+    expect(parseAnswerLimit("Describe your program's reach. (2,000 characters max)")).toEqual({
+      question: "Describe your program's reach.",
+      wordLimit: 2000,
+      limitType: "characters",
+    });
+    expect(parseAnswerLimit("What is your budget? [1500 characters, not including spaces]")).toEqual({
+      question: "What is your budget?",
+      wordLimit: 1500,
+      limitType: "characters_no_spaces",
+    });
+    expect(parseAnswerLimit("Who do you serve? Limit: 500 words")).toEqual({
+      question: "Who do you serve? Limit: 500 words",
+      wordLimit: 500,
+      limitType: "words",
+    });
+  });
+
+  it("ignores counts that are not limits", () => {
+    expect(parseAnswerLimit("Describe your program in 3 words?")).toEqual({
+      question: "Describe your program in 3 words?",
+      wordLimit: null,
+      limitType: "words",
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Answer length limits shared by the client and server.
+ *
+ * `questions.word_limit` holds the numeric cap; `questions.limit_type` says
+ * what it counts. Funder portals usually count characters, so every check
+ * (editing, generation, metrics, exports) measures through `measureAnswer`
+ * rather than counting words itself. Answers are measured as stored,
+ * citation markers included, which is also what the exports contain.
+ */
+
+export const ANSWER_LIMIT_TYPES = ["words", "characters", "characters_no_spaces"] as const;
+export type AnswerLimitType = (typeof ANSWER_LIMIT_TYPES)[number];
+
+export function isAnswerLimitType(value: unknown): value is AnswerLimitType {
+  return typeof value === "string" && (ANSWER_LIMIT_TYPES as readonly string[]).includes(value);
+}
+
+/** Unknown or missing values are treated as the historical word limit. */
+export function normalizeLimitType(value: unknown): AnswerLimitType {
+  return isAnswerLimitType(value) ? value : "words";
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+export function measureAnswer(text: string | null | undefined, limitType: AnswerLimitType): number {
+  const trimmed = (text ?? "").trim();
+  if (limitType === "words") return countWords(trimmed);
+  if (limitType === "characters_no_spaces") return trimmed.replace(/\s/g, "").length;
+  return trimmed.length;
+}
+
+/** "words", "characters", "characters (no spaces)" */
+export function limitUnitLabel(limitType: AnswerLimitType): string {
+  if (limitType === "words") return "words";
+  return limitType === "characters" ? "characters" : "characters (no spaces)";
+}
+
+/** "120/500 words", "1,850/2,000 characters", or "120 words" without a limit. */
+export function formatAnswerLength(
+  text: string | null | undefined,
+  limit: number | null | undefined,
+  limitType: AnswerLimitType,
+): string {
+  const count = measureAnswer(text, limitType).toLocaleString("en-US");
+  const unit = limitUnitLabel(limitType);
+  return limit ? `${count}/${limit.toLocaleString("en-US")} ${unit}` : `${count} ${unit}`;
+}
+
+/**
+ * Rough word equivalent of a limit, for sizing model output. English prose
+ * averages about six characters per word with its trailing space.
+ */
+export function limitInWords(limit: number, limitType: AnswerLimitType): number {
+  if (limitType === "words") return limit;
+  return Math.max(1, Math.round(limit / (limitType === "characters" ? 6 : 5)));
+}
+
+const LIMIT_NUMBER_UNIT = /(\d{1,3}(?:,\d{3})+|\d+)\s*-?\s*(words?|characters?|chars?)\b/i;
+const LIMIT_CUE = /\b(max(?:imum)?|limit(?:ed)?|up to|no more than|not (?:to )?exceed|or (?:fewer|less))\b/i;
+const LIMIT_NOTE = /[([][^()[\]]*\d[^()[\]]*\b(?:words?|characters?|chars?)\b[^()[\]]*[)\]]/i;
+
+/**
+ * Detect an answer limit stated in a question, e.g. "(2,000 characters max)",
+ * "Limit: 500 words" or "[1500 characters without spaces]". A bare count only
+ * counts as a limit inside brackets or next to a cue like "max" or "up to".
+ * `question` comes back with a bracketed limit note removed.
+ */
+export function parseAnswerLimit(
+  text: string,
+): { question: string; wordLimit: number | null; limitType: AnswerLimitType } {
+  const note = text.match(LIMIT_NOTE)?.[0];
+  const clause = note ?? text;
+  const match = clause.match(LIMIT_NUMBER_UNIT);
+  if (!match || (!note && !LIMIT_CUE.test(text))) {
+    return { question: text.trim(), wordLimit: null, limitType: "words" };
+  }
+
+  const wordLimit = parseInt(match[1].replace(/,/g, ""), 10);
+  const limitType: AnswerLimitType = /^word/i.test(match[2])
+    ? "words"
+    : /\b(without|excluding|not including|no) spaces\b/i.test(clause)
+      ? "characters_no_spaces"
+      : "characters";
+  const question = note
+    ? text.replace(note, "").replace(/\s+([?.:])/g, "$1").replace(/\s{2,}/g, " ").trim()
+    : text.trim();
+  return { question, wordLimit: wordLimit > 0 ? wordLimit : null, limitType };
+}
@@ -0,0 +1,21 @@
+// @vitest-environment node
+
+import { describe, expect, it } from "vitest";
+import { citationPages, documentTitle, formatCitationSource } from "./citation-source";
+
+describe("formatCitationSource", () => {
+  it("reads the file name as a title and adds the page range when known", () => {
+    expect(formatCitationSource("Annual_Report_2024.pdf", { pageStart: 14, pageEnd: 14 })).toBe("Annual Report 2024, p. 14");
+    expect(formatCitationSource("Annual_Report_2024.pdf", { pageStart: 14, pageEnd: 15 })).toBe("Annual Report 2024, pp. 14–15");
+    expect(formatCitationSource("Board Minutes.docx", { pageStart: null, pageEnd: null })).toBe("Board Minutes");
+    expect(documentTitle(".pdf")).toBe(".pdf");
+  });
+});
+
+describe("citationPages", () => {
+  it("keeps pages only when the start page is known", () => {
+    expect(citationPages({ pageStart: 3, pageEnd: null })).toEqual({ pageStart: 3, pageEnd: 3 });
+    expect(citationPages({ pageStart: null, pageEnd: null })).toEqual({});
+    expect(citationPages(undefined)).toEqual({});
+  });
+});
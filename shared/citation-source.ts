@@ -0,0 +1,38 @@
+/**
+ * How a citation names its source: "Annual Report 2024, p. 14". Pages are
+ * known for chunks of PDF uploads (`doc_chunks.page_start`/`page_end`) and
+ * travel with each citation in `draft_citations.chunk_refs`.
+ */
+
+export interface CitationPages {
+  pageStart?: number | null;
+  pageEnd?: number | null;
+}
+
+/** The pages of `source` when known, to spread into a chunk ref; {} otherwise. */
+export function citationPages(source: CitationPages | null | undefined): CitationPages {
+  return source?.pageStart ? { pageStart: source.pageStart, pageEnd: source.pageEnd ?? source.pageStart } : {};
+}
+
+/** "p. 14", "pp. 14–15", or "" when the page is not known. */
+export function formatPageRange({ pageStart, pageEnd }: CitationPages): string {
+  if (!pageStart) return "";
+  return pageEnd && pageEnd > pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`;
+}
+
+/** A file name as a title: "Annual_Report_2024.pdf" reads "Annual Report 2024". */
+export function documentTitle(name: string): string {
+  const title = name
+    .replace(/\.[a-z0-9]{1,5}$/i, "")
+    .replace(/_+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return title || name;
+}
+
+/** "Annual Report 2024, p. 14", or the title alone when the page is not known. */
+export function formatCitationSource(documentName: string, pages: CitationPages = {}): string {
+  const pageRange = formatPageRange(pages);
+  const title = documentTitle(documentName);
+  return pageRange ? `${title}, ${pageRange}` : title;
+}
@@ -0,0 +1,39 @@
+/**
+ * Cross-answer consistency report: facts (counts, dollar amounts, dates and
+ * names) that different answers of one application state differently.
+ */
+
+export type ConsistencyFactKind = "count" | "amount" | "date" | "name";
+
+export interface ConsistencySource {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  quote: string;
+}
+
+export interface ConsistencyStatement {
+  questionId: string;
+  /** 1-based position of the question in the project, as the drafts list numbers it */
+  questionNumber: number;
+  sentence: string;
+  /** The value as the answer wrote it, e.g. "1,240 families" or "July 1, 2025" */
+  value: string;
+  /** Chunks the sentence's [#N] markers cite */
+  sources: ConsistencySource[];
+}
+
+export interface ConsistencyFlag {
+  /** Stable per fact, e.g. "count:families:reported:2025" */
+  id: string;
+  kind: ConsistencyFactKind;
+  label: string;
+  message: string;
+  statements: ConsistencyStatement[];
+}
+
+export interface ConsistencyReport {
+  projectId: string;
+  checkedAnswers: number;
+  flags: ConsistencyFlag[];
+}
@@ -0,0 +1,52 @@
+/**
+ * A structured summary of an uploaded document, built section by section so
+ * a long report is read end to end rather than from its first pages. Stored
+ * on the document; the text form (`formatDocumentSummary`) is what prompts
+ * and the organization profile read.
+ */
+
+export interface SummaryProgram {
+  name: string;
+  description: string;
+}
+
+export interface SummaryNumber {
+  /** As written: "1,240", "$2.3 million", "87%" */
+  value: string;
+  /** What it counts: "families served in 2024" */
+  label: string;
+  /** The sentence it is stated in, verbatim from the document */
+  quote: string;
+  /** Heading of the part of the document it comes from, when there is one */
+  section: string | null;
+}
+
+export interface SummaryDate {
+  /** As written: "June 30, 2025", "2019", "FY24" */
+  date: string;
+  label: string;
+}
+
+export interface DocumentSummary {
+  overview: string;
+  programs: SummaryProgram[];
+  keyNumbers: SummaryNumber[];
+  dates: SummaryDate[];
+  /** How many sections were read; 1 when the document fit in a single pass */
+  sectionCount: number;
+}
+
+/** Plain-text form for prompts and the document list. */
+export function formatDocumentSummary(summary: DocumentSummary): string {
+  const parts = [summary.overview.trim()];
+  if (summary.programs.length) {
+    parts.push(`Programs: ${summary.programs.map((program) => program.name).join("; ")}.`);
+  }
+  if (summary.keyNumbers.length) {
+    parts.push(`Key numbers: ${summary.keyNumbers.map((number) => `${number.value} ${number.label}`).join("; ")}.`);
+  }
+  if (summary.dates.length) {
+    parts.push(`Dates: ${summary.dates.map((date) => `${date.date} (${date.label})`).join("; ")}.`);
+  }
+  return parts.filter(Boolean).join("\n");
+}
@@ -0,0 +1,72 @@
+/**
+ * Rubric review payloads shared by the API and the client. A review scores
+ * one answer (one response version) against the funder's evaluation
+ * criteria; the application review rolls the latest answer reviews up.
+ */
+
+import type { EvaluationCriterion } from "./rfp-extraction.js";
+
+export type ReviewRubricSource = "request" | "funder";
+
+export interface CriterionScore {
+  criterion: string;
+  /** As written in the rubric, e.g. "30 points" or "20%" */
+  weight: string | null;
+  score: number; // 0-100
+  reasoning: string;
+}
+
+export interface WeakSentence {
+  sentence: string;
+  reason: string;
+}
+
+export interface DraftReview {
+  id: string;
+  projectId: string;
+  questionId: string;
+  responseVersionId: string;
+  /** The reviewed version's number, for "v2 scored 64, v3 scored 78" */
+  version: number;
+  rubric: EvaluationCriterion[];
+  rubricSource: ReviewRubricSource;
+  criteria: CriterionScore[];
+  overallScore: number; // 0-100, weighted by the rubric
+  weakestSentences: WeakSentence[];
+  suggestions: string[];
+  /** "heuristic" when no model was configured or the model's answer was unusable */
+  method: "model" | "heuristic";
+  createdAt: string;
+}
+
+export interface ApplicationReview {
+  projectId: string;
+  rubric: EvaluationCriterion[];
+  rubricSource: ReviewRubricSource;
+  /** Per criterion, the best score any answer earned and which question earned it */
+  criteria: Array<CriterionScore & { questionId: string | null }>;
+  overallScore: number;
+  answers: DraftReview[];
+}
+
+/**
+ * Numeric weight of a criterion: "30 points" → 30, "20%" → 20. Criteria
+ * without a stated weight count as the average of the stated ones.
+ */
+export function criterionWeights(rubric: EvaluationCriterion[]): number[] {
+  const stated = rubric.map((criterion) => {
+    const match = criterion.weight?.match(/\d+(?:\.\d+)?/);
+    const value = match ? parseFloat(match[0]) : NaN;
+    return value > 0 ? value : null;
+  });
+  const known = stated.filter((value): value is number => value !== null);
+  const fallback = known.length ? known.reduce((sum, value) => sum + value, 0) / known.length : 1;
+  return stated.map((value) => value ?? fallback);
+}
+
+export function weightedScore(rubric: EvaluationCriterion[], scores: number[]): number {
+  if (!rubric.length) return 0;
+  const weights = criterionWeights(rubric);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return Math.round(weights.reduce((sum, weight, i) => sum + weight * (scores[i] ?? 0), 0) / total);
+}
@@ -0,0 +1,32 @@
+/**
+ * Evidence Map payload. The server builds it from persisted per-sentence claim
+ * verdicts so every viewer and export sees the same map.
+ */
+
+export type ClaimVerdict = "supported" | "partially" | "unsupported" | "uncited";
+
+export interface EvidenceMapData {
+  questionId?: string;
+  sectionName: string;
+  evidenceStrength: number; // 0-1 scale
+  sourceCount: number;
+  assumptionCount: number;
+  qualityIssues: Array<{
+    type: "missing_citation" | "weak_source" | "assumption" | "inconsistency";
+    message: string;
+    severity: "low" | "medium" | "high";
+  }>;
+  recommendations: string[];
+  paragraphs: Array<{
+    id: string;
+    text: string;
+    citationCount: number;
+    assumptionCount: number;
+    evidenceScore: number;
+  }>;
+}
+
+export interface ProjectEvidenceMap {
+  sections: EvidenceMapData[];
+  overallGroundingQuality: number; // 0-1 scale
+}
@@ -0,0 +1,37 @@
+/**
+ * Funder profile shapes shared by the API and the client. The `funders`
+ * table stores these in jsonb columns.
+ */
+
+import { formatCurrencyCompact } from "./currency.js";
+import type { EvaluationCriterion } from "./rfp-extraction.js";
+
+export type { EvaluationCriterion };
+
+export interface FunderContact {
+  name: string;
+  /** e.g. "Program Officer" */
+  role: string | null;
+  email: string | null;
+}
+
+/** "$25K–$100K", "Up to $50K", or null when neither bound is known. Amounts in cents. */
+export function formatAwardRange(minCents: number | null, maxCents: number | null): string | null {
+  const format = (cents: number) => formatCurrencyCompact(cents / 100);
+  if (minCents != null && maxCents != null) {
+    return minCents === maxCents ? format(minCents) : `${format(minCents)}–${format(maxCents)}`;
+  }
+  if (maxCents != null) return `Up to ${format(maxCents)}`;
+  if (minCents != null) return `From ${format(minCents)}`;
+  return null;
+}
+
+/** "Community need (30 points)", the one-line form writers type criteria in. */
+export function formatCriterion(criterion: EvaluationCriterion): string {
+  return criterion.weight ? `${criterion.text} (${criterion.weight})` : criterion.text;
+}
+
+export function parseCriterion(line: string): EvaluationCriterion {
+  const match = line.match(/^(.*?)\s*\(([^()]+)\)$/);
+  return match ? { text: match[1], weight: match[2] } : { text: line, weight: null };
+}
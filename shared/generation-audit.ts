@@ -0,0 +1,74 @@
+/**
+ * What went into a generated answer version: the model and settings, the
+ * chunks the model was shown, token counts and latency. Recorded once per
+ * response version a model wrote, so a reviewer can see why an answer says
+ * what it says and a past generation can be re-run on the same inputs.
+ */
+
+/**
+ * generate: a full draft; passage: one span rewritten; adapt: an earlier
+ * answer rewritten for this question; fit: the answer condensed or expanded
+ * into a length range
+ */
+export type GenerationOperation = "generate" | "passage" | "adapt" | "fit";
+
+export interface AuditChunk {
+  /** doc_chunks id, or a synthetic id for fact-sheet entries; null when the chunk was loaded from a citation row */
+  chunkId: string | null;
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  /** Retrieval score, 0-1; null for chunks pinned without a search */
+  similarity: number | null;
+}
+
+/** The writer's tuning at generation time. */
+export interface AuditSettings {
+  tone: string;
+  emphasisAreas: string[];
+  lengthPreference: string;
+  creativity: number;
+  contextUsage: number;
+  audience: string;
+  answerStructure: string;
+  claimConfidence: string;
+  aiModel: string | null;
+  fallbackModel: string | null;
+}
+
+/** A past generation re-run on its recorded inputs. Nothing is saved to the answer. */
+export interface GenerationRerun {
+  text: string;
+  assumptions: string[];
+  provider: string;
+  model: string;
+  temperature: number | null;
+  tokensIn: number;
+  tokensOut: number;
+  latencyMs: number | null;
+  original: {
+    versionId: string;
+    version: number;
+    text: string;
+    model: string;
+    temperature: number | null;
+    tokensIn: number;
+    tokensOut: number;
+    latencyMs: number | null;
+  };
+}
+
+/** "gpt-4o · temp 0.3 · 1,204 → 310 tokens · 2.4s" */
+export function describeGenerationRun(run: {
+  model: string;
+  temperature: number | null;
+  tokensIn: number;
+  tokensOut: number;
+  latencyMs: number | null;
+}): string {
+  const parts = [run.model];
+  if (run.temperature !== null) parts.push(`temp ${Number(run.temperature.toFixed(2))}`);
+  parts.push(`${run.tokensIn.toLocaleString("en-US")} → ${run.tokensOut.toLocaleString("en-US")} tokens`);
+  if (run.latencyMs !== null) parts.push(`${(run.latencyMs / 1000).toFixed(1)}s`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,60 @@
+/**
+ * A dry run of answer generation: what retrieval would hand the model, how
+ * many tokens the prompt and answer would take, what that costs per model,
+ * and whether the organization's plan allowance covers it. Nothing is
+ * generated or billed.
+ */
+
+export interface PreviewChunk {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  /** Retrieval score, 0-1 */
+  similarity: number | null;
+  source: "semantic" | "keyword" | "fact" | "library";
+  /** The start of the chunk's text */
+  excerpt: string;
+}
+
+export interface QuestionGenerationPreview {
+  questionId: string;
+  question: string;
+  chunks: PreviewChunk[];
+  /** Estimated from the prompt that would be sent */
+  tokensIn: number;
+  /** The output ceiling the model would be given */
+  tokensOut: number;
+}
+
+export interface ModelCostEstimate {
+  model: string;
+  label: string;
+  /** Null when the model has no price */
+  costCents: number | null;
+}
+
+export interface GenerationPreview {
+  questions: QuestionGenerationPreview[];
+  tokensIn: number;
+  tokensOut: number;
+  /** The model the run would use first; the endpoint's model when the organization has one */
+  selectedModel: string;
+  /** Cost of the whole run on each model, an upper bound since output is counted at its ceiling */
+  models: ModelCostEstimate[];
+  allowance: {
+    plan: string;
+    used: number;
+    limit: number;
+    remaining: number;
+    /** Tokens the run is checked against the plan for, estimated as the generate routes do */
+    required: number;
+    covered: boolean;
+  };
+}
+
+/** "$0.12", or "<$0.01" for a cost that rounds to nothing */
+export function formatCostCents(cents: number | null): string {
+  if (cents === null) return "—";
+  if (cents > 0 && cents < 1) return "<$0.01";
+  return `$${(cents / 100).toFixed(2)}`;
+}
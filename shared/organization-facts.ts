@@ -0,0 +1,70 @@
+/**
+ * Organization facts shared by the client and server.
+ *
+ * Each fact is stored as one chunk of a per-organization "Organization facts"
+ * document so it can be cited like an uploaded source. That document is
+ * bookkeeping, not an upload: document lists and quotas skip it.
+ *
+ * Facts with a `factKey` make up the organization's fact sheet: typed,
+ * reviewed figures (budget, staff, people served...) that every generation
+ * prompt receives. Facts without one are free-form answers to questions.
+ */
+
+/** `documents.category` of the backing document. */
+export const ORGANIZATION_FACTS_CATEGORY = "organization-facts";
+
+export function isOrganizationFactsDocument(document: { category?: string | null }): boolean {
+  return document.category === ORGANIZATION_FACTS_CATEGORY;
+}
+
+export const ORGANIZATION_FACT_TYPES = [
+  { key: "annual_budget", label: "Annual budget", periodLabel: "budget", kind: "currency", periodic: true },
+  { key: "staff_count", label: "Staff", periodLabel: "staff", kind: "number", periodic: true },
+  { key: "volunteer_count", label: "Volunteers", periodLabel: "volunteers", kind: "number", periodic: true },
+  { key: "people_served", label: "People served", periodLabel: "people served", kind: "number", periodic: true },
+  {
+    key: "populations_served",
+    label: "Populations served",
+    periodLabel: "populations served",
+    kind: "text",
+    periodic: false,
+  },
+  { key: "service_area", label: "Service area", periodLabel: "service area", kind: "text", periodic: false },
+  { key: "board_size", label: "Board size", periodLabel: "board size", kind: "number", periodic: false },
+] as const;
+
+export type OrganizationFactType = (typeof ORGANIZATION_FACT_TYPES)[number];
+export type OrganizationFactKey = OrganizationFactType["key"];
+
+export function getOrganizationFactType(key: string | null | undefined): OrganizationFactType | undefined {
+  return ORGANIZATION_FACT_TYPES.find((type) => type.key === key);
+}
+
+/** "FY24 budget" for a periodic fact, "Board size" otherwise. */
+export function organizationFactLabel(key: OrganizationFactKey, period?: string | null): string {
+  const type = getOrganizationFactType(key)!;
+  const trimmed = period?.trim();
+  return type.periodic && trimmed ? `${trimmed} ${type.periodLabel}` : type.label;
+}
+
+/** The chunk text a fact is retrieved and cited as. */
+export function factChunkContent(fact: { label: string; value: string; asOf?: Date | string | null }): string {
+  const asOf = fact.asOf ? new Date(fact.asOf) : null;
+  const dated = asOf && !Number.isNaN(asOf.getTime()) ? `\nAs of ${asOf.toISOString().slice(0, 10)}.` : "";
+  return `Fact: ${fact.label}\n${fact.value}${dated}`;
+}
+
+/**
+ * Profile suggestions for fact sheet entries use `fact:<key>` or
+ * `fact:<key>:<period>` as their field.
+ */
+export function factSuggestionField(key: OrganizationFactKey, period?: string | null): string {
+  return period ? `fact:${key}:${period}` : `fact:${key}`;
+}
+
+export function parseFactSuggestionField(field: string): { key: OrganizationFactKey; period: string | null } | null {
+  const match = /^fact:([a-z_]+)(?::(.+))?$/.exec(field);
+  const type = match ? getOrganizationFactType(match[1]) : undefined;
+  if (!type) return null;
+  return { key: type.key, period: type.periodic ? (match![2] ?? null) : null };
+}
@@ -0,0 +1,33 @@
+/**
+ * Structured RFP extraction payload returned by `/api/extract-questions`.
+ * Writers review the questions, then bulk-create the ones they keep.
+ */
+
+import type { AnswerLimitType } from "./answer-limits.js";
+
+export interface ExtractedQuestion {
+  question: string;
+  /** Heading the prompt sits under in the RFP, when there is one */
+  section: string | null;
+  /** Answer limit, counted in `limitType` units */
+  wordLimit: number | null;
+  limitType: AnswerLimitType;
+  required: boolean;
+  /** 0-based position in the document */
+  order: number;
+}
+
+export interface EvaluationCriterion {
+  text: string;
+  /** Weight as the RFP states it, e.g. "25 points" or "30%" */
+  weight: string | null;
+}
+
+export interface RfpExtraction {
+  questions: ExtractedQuestion[];
+  attachments: string[];
+  eligibility: string[];
+  evaluationCriteria: EvaluationCriterion[];
+  /** True when no model was available and placeholder questions were returned */
+  demo: boolean;
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, vector, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, boolean, jsonb, vector, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ANSWER_LIMIT_TYPES } from "./answer-limits.js";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -25,9 +26,15 @@ export const users = pgTable("users", {
 export const organizations = pgTable("organizations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
+  legalName: text("legal_name"),
+  dba: text("dba"), // "doing business as" name
   organizationType: text("organization_type"),
   ein: text("ein"),
+  uei: text("uei"), // SAM.gov Unique Entity ID
+  duns: text("duns"),
   foundedYear: integer("founded_year"),
+  fiscalYearEnd: text("fiscal_year_end"), // e.g. "June 30"
+  address: text("address"),
   primaryContact: text("primary_contact"),
   contactEmail: text("contact_email"),
   mission: text("mission"),
@@ -72,6 +79,7 @@ export const projects = pgTable("projects", {
   organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
   title: text("title").notNull(),
   funder: text("funder").notNull(),
+  funderId: varchar("funder_id").references((): AnyPgColumn => funders.id, { onDelete: "set null" }), // profile that shapes generation
   amount: text("amount"),
   deadline: timestamp("deadline"),
   status: text("status").notNull().default("draft"), // draft, submitted, awarded, declined
@@ -84,6 +92,26 @@ export const projects = pgTable("projects", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Funders an organization applies to. A project linked to one has its
+// priorities, terminology and evaluation criteria in every prompt.
+export const funders = pgTable("funders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  mission: text("mission"),
+  priorities: jsonb("priorities").notNull().default([]), // string[]
+  terminology: jsonb("terminology").notNull().default([]), // string[], the funder's own words ("participants", "BIPOC-led")
+  evaluationCriteria: jsonb("evaluation_criteria").notNull().default([]), // EvaluationCriterion[]
+  awardMin: integer("award_min"), // cents
+  awardMax: integer("award_max"), // cents
+  contacts: jsonb("contacts").notNull().default([]), // FunderContact[]
+  notes: text("notes"), // past interactions: calls, feedback, prior awards
+  sourceDocumentId: varchar("source_document_id").references((): AnyPgColumn => documents.id, { onDelete: "set null" }), // RFP or guidelines it was built from
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -95,6 +123,7 @@ export const documents = pgTable("documents", {
   fileSize: integer("file_size").notNull(),
   processed: boolean("processed").default(false),
   summary: text("summary"),
+  structuredSummary: jsonb("structured_summary"), // DocumentSummary; `summary` holds its text form
   category: text("category"),
   storageBucket: text("storage_bucket").default("documents"),
   storagePath: text("storage_path"),
@@ -126,6 +155,12 @@ export const docChunks = pgTable("doc_chunks", {
   content: text("content").notNull(),
   tokenCount: integer("token_count"),
   sectionLabel: text("section_label"),
+  // Where the chunk sits in document_extractions.raw_text
+  startOffset: integer("start_offset"),
+  endOffset: integer("end_offset"),
+  // Pages of a PDF the chunk spans, 1-based
+  pageStart: integer("page_start"),
+  pageEnd: integer("page_end"),
   embedding: vector("embedding", { dimensions: 1536 }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -165,6 +200,10 @@ export const assumptionLabels = pgTable("assumption_labels", {
   resolved: boolean("resolved").default(false),
   resolvedBy: varchar("resolved_by"),
   resolvedAt: timestamp("resolved_at"),
+  // The writer's answer, kept as an organization fact; a resolved label with
+  // a fact is a closed gap, one without was only dismissed.
+  answer: text("answer"),
+  factId: varchar("fact_id").references(() => organizationFacts.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -210,6 +249,18 @@ export const organizationProfileSuggestions = pgTable("organization_profile_sugg
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Self-hosted, OpenAI-compatible model server (vLLM, Ollama, ...) used for an
+// organization's chat and embedding calls instead of the hosted providers.
+export const organizationAiEndpoints = pgTable("organization_ai_endpoints", {
+  organizationId: varchar("organization_id").primaryKey().references(() => organizations.id, { onDelete: "cascade" }),
+  baseUrl: text("base_url").notNull(),
+  apiKey: text("api_key"),
+  chatModel: text("chat_model").notNull(),
+  embeddingModel: text("embedding_model"), // null = local hashed embeddings; documents never leave the server
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const grantQuestions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id).notNull(),
@@ -217,8 +268,10 @@ export const grantQuestions = pgTable("questions", {
   response: text("response"),
   responseStatus: text("response_status").default("pending"), // pending, generating, complete, failed, timeout, needs_context
   errorMessage: text("error_message"),
-  wordLimit: integer("word_limit"),
+  wordLimit: integer("word_limit"), // the answer limit, counted in limitType units
+  limitType: text("limit_type").notNull().default("words"), // words, characters, characters_no_spaces
   priority: text("priority").default("medium"), // high, medium, low
+  gapCheckedHash: text("gap_checked_hash"), // question text hash at its last retrieval gap check
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -236,6 +289,174 @@ export const responseVersions = pgTable("response_versions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// "Draft all unanswered" runs: one batch per request, one item per question.
+export const generationBatches = pgTable("generation_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
+  userId: varchar("user_id").notNull(),
+  status: text("status").notNull().default("running"), // running, completed, cancelled
+  concurrency: integer("concurrency").notNull(),
+  estimatedTokens: integer("estimated_tokens").notNull().default(0),
+  settings: jsonb("settings").default({}), // tone/emphasis overrides applied to every item
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  // One running batch per project. Starting a batch relies on this index +
+  // onConflictDoNothing instead of check-then-insert.
+  uniqueIndex("generation_batches_one_running").on(table.projectId).where(sql`${table.status} = 'running'`),
+]);
+
+export const generationBatchItems = pgTable("generation_batch_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").references(() => generationBatches.id, { onDelete: "cascade" }).notNull(),
+  questionId: varchar("question_id").references(() => grantQuestions.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  status: text("status").notNull().default("queued"), // queued, running, done, failed, cancelled
+  responseStatus: text("response_status"), // the question's status once the item finishes
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// One row per answer sentence, checked against the chunk(s) its [#N] markers
+// cite. `responseHash` ties the rows to the exact text they were computed for.
+export const claimVerifications = pgTable("claim_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").references(() => grantQuestions.id, { onDelete: "cascade" }).notNull(),
+  responseHash: text("response_hash").notNull(),
+  position: integer("position").notNull(),
+  paragraph: integer("paragraph").notNull(),
+  sentence: text("sentence").notNull(),
+  markers: jsonb("markers").notNull().default([]), // 1-based [#N] markers in the sentence
+  sourceDocumentIds: jsonb("source_document_ids").notNull().default([]),
+  verdict: text("verdict").notNull(), // supported, partially, unsupported, uncited
+  score: integer("score").notNull().default(0), // 0-100 share of the sentence's terms found in its sources
+  missingTerms: jsonb("missing_terms").notNull().default([]), // numbers and names absent from the sources
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Rubric reviews of an answer, one per review run. Each is tied to the
+// response version it scored so revisions can be compared.
+export const draftReviews = pgTable("draft_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  questionId: varchar("question_id").references(() => grantQuestions.id, { onDelete: "cascade" }).notNull(),
+  responseVersionId: varchar("response_version_id").references(() => responseVersions.id, { onDelete: "cascade" }).notNull(),
+  rubric: jsonb("rubric").notNull().default([]), // EvaluationCriterion[] the answer was scored against
+  rubricSource: text("rubric_source").notNull(), // request, funder
+  criteria: jsonb("criteria").notNull().default([]), // CriterionScore[], in rubric order
+  overallScore: integer("overall_score").notNull(), // 0-100, weighted by the rubric
+  weakestSentences: jsonb("weakest_sentences").notNull().default([]), // WeakSentence[]
+  suggestions: jsonb("suggestions").notNull().default([]), // string[]
+  method: text("method").notNull(), // model, heuristic
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What went into each response version a model wrote: settings, the chunks
+// shown, usage and latency. `request` is the prompt input as sent (minus the
+// organization's endpoint credentials) so the generation can be re-run.
+export const generationAudits = pgTable("generation_audits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  questionId: varchar("question_id").references(() => grantQuestions.id, { onDelete: "cascade" }).notNull(),
+  responseVersionId: varchar("response_version_id").references(() => responseVersions.id, { onDelete: "cascade" }).notNull(),
+  operation: text("operation").notNull(), // generate, passage, adapt
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  temperature: real("temperature"),
+  settings: jsonb("settings").notNull().default({}), // AuditSettings
+  chunks: jsonb("chunks").notNull().default([]), // AuditChunk[], in prompt order
+  tokensIn: integer("tokens_in").notNull().default(0),
+  tokensOut: integer("tokens_out").notNull().default(0),
+  latencyMs: integer("latency_ms"),
+  assumptions: jsonb("assumptions").notNull().default([]), // string[], as the model returned them
+  request: jsonb("request").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Embeddings of question text, for matching questions against saved answers.
+// `contentHash` is the hashed question text, so an edited question is re-embedded.
+export const questionEmbeddings = pgTable("question_embeddings", {
+  questionId: varchar("question_id").primaryKey().references(() => grantQuestions.id, { onDelete: "cascade" }),
+  contentHash: text("content_hash").notNull(),
+  embedding: vector("embedding", { dimensions: 1536 }).notNull(),
+  embeddingModel: text("embedding_model").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Answers saved for reuse across the organization's applications. Citations
+// are copied from the source answer in marker order (the Nth entry is [#N]),
+// so the entry stays citable after the source question is edited or deleted.
+export const answerLibrary = pgTable("answer_library", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  citations: jsonb("citations").notNull().default([]), // LibraryCitation[]
+  topics: jsonb("topics").notNull().default([]), // string[], lower-cased
+  sourceProjectId: varchar("source_project_id").references(() => projects.id, { onDelete: "set null" }),
+  sourceQuestionId: varchar("source_question_id").references(() => grantQuestions.id, { onDelete: "set null" }),
+  questionEmbedding: vector("question_embedding", { dimensions: 1536 }),
+  answerEmbedding: vector("answer_embedding", { dimensions: 1536 }),
+  embeddingModel: text("embedding_model"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Verified answers about the organization. Each fact is also a chunk of the
+// organization's facts document (`documentId`, `chunkIndex`) so retrieval can
+// return it and answers can cite it like any uploaded source. Editing a fact
+// appends a new chunk, so citations of the old value keep their quote.
+export const organizationFacts = pgTable("organization_facts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "set null" }), // null = applies to every project
+  factKey: text("fact_key"), // fact sheet type (annual_budget, staff_count...); null = free-form
+  period: text("period"), // e.g. FY24 or 2024, for facts reported per year
+  label: text("label").notNull(),
+  value: text("value").notNull(),
+  source: text("source").notNull().default("manual"), // manual, clarification, assumption, document
+  sourceDocumentId: varchar("source_document_id").references(() => documents.id, { onDelete: "set null" }),
+  asOf: timestamp("as_of"),
+  verifiedBy: varchar("verified_by"),
+  verifiedAt: timestamp("verified_at"),
+  documentId: varchar("document_id").references(() => documents.id, { onDelete: "cascade" }).notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Questions put to the writer where a project lacks context: one per
+// unresolved assumption label or per application question retrieval found
+// nothing for. Answers become organization facts.
+export const clarificationQuestions = pgTable("clarification_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  questionId: varchar("question_id").references(() => grantQuestions.id, { onDelete: "cascade" }),
+  assumptionLabelId: varchar("assumption_label_id").references(() => assumptionLabels.id, { onDelete: "set null" }),
+  origin: text("origin").notNull(), // assumption, retrieval_gap
+  category: text("category").notNull(), // budget, timeline, outcomes, methodology, team, sustainability, evidence, specificity
+  priority: text("priority").notNull(), // critical, high, medium, low
+  questionText: text("question_text").notNull(),
+  contextExplanation: text("context_explanation").notNull(),
+  exampleAnswer: text("example_answer"),
+  followUp: text("follow_up"), // guidance added when the writer asks for help
+  status: text("status").notNull().default("open"), // open, answered, skipped
+  answer: text("answer"),
+  factId: varchar("fact_id").references(() => organizationFacts.id, { onDelete: "set null" }),
+  answeredBy: varchar("answered_by"),
+  answeredAt: timestamp("answered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const grantMetrics = pgTable("grant_metrics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
@@ -299,9 +520,12 @@ export const ProjectInsertSchema = createInsertSchema(projects);
 export const DocumentInsertSchema = createInsertSchema(documents);
 export const DocumentExtractionInsertSchema = createInsertSchema(documentExtractions);
 export const DocumentProcessingJobInsertSchema = createInsertSchema(documentProcessingJobs);
-export const insertGrantQuestionSchema = createInsertSchema(grantQuestions).pick({
+export const insertGrantQuestionSchema = createInsertSchema(grantQuestions, {
+  limitType: () => z.enum(ANSWER_LIMIT_TYPES),
+}).pick({
   question: true,
   wordLimit: true,
+  limitType: true,
   priority: true,
   errorMessage: true,
 });
@@ -330,15 +554,31 @@ export const insertUserSettingsSchema = createInsertSchema(userSettings).pick({
 
 export const insertOrganizationSchema = createInsertSchema(organizations).pick({
   name: true,
+  legalName: true,
+  dba: true,
   organizationType: true,
   ein: true,
+  uei: true,
+  duns: true,
   foundedYear: true,
+  fiscalYearEnd: true,
+  address: true,
   primaryContact: true,
   contactEmail: true,
   mission: true,
   focusAreas: true,
 });
 
+export const insertOrganizationAiEndpointSchema = createInsertSchema(organizationAiEndpoints, {
+  baseUrl: (schema) => schema.url(),
+  chatModel: (schema) => schema.min(1),
+}).pick({
+  baseUrl: true,
+  apiKey: true,
+  chatModel: true,
+  embeddingModel: true,
+});
+
 export const insertProjectSchema = createInsertSchema(projects).pick({
   title: true,
   funder: true,
@@ -349,6 +589,7 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   amountAwarded: true,
   awardedAt: true,
   reportingDueAt: true,
+  funderId: true,
 });
 
 export const insertGrantMetricSchema = createInsertSchema(grantMetrics).pick({
@@ -407,6 +648,32 @@ export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type OrganizationProfileSuggestion = typeof organizationProfileSuggestions.$inferSelect;
+export type OrganizationAiEndpoint = typeof organizationAiEndpoints.$inferSelect;
+export type GenerationBatch = typeof generationBatches.$inferSelect;
+export type InsertGenerationBatch = Pick<
+  typeof generationBatches.$inferInsert,
+  "projectId" | "organizationId" | "userId" | "concurrency" | "estimatedTokens" | "settings"
+>;
+export type GenerationBatchItem = typeof generationBatchItems.$inferSelect;
+export type ClaimVerification = typeof claimVerifications.$inferSelect;
+export type InsertClaimVerification = Omit<typeof claimVerifications.$inferInsert, "id" | "createdAt">;
+export type DraftReviewRow = typeof draftReviews.$inferSelect;
+export type InsertDraftReview = Omit<typeof draftReviews.$inferInsert, "id" | "createdAt">;
+export type GenerationAudit = typeof generationAudits.$inferSelect;
+export type InsertGenerationAudit = Omit<typeof generationAudits.$inferInsert, "id" | "createdAt">;
+export type QuestionEmbedding = typeof questionEmbeddings.$inferSelect;
+export type AnswerLibraryEntry = typeof answerLibrary.$inferSelect;
+export type InsertAnswerLibraryEntry = Omit<typeof answerLibrary.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type Funder = typeof funders.$inferSelect;
+export type InsertFunder = Omit<typeof funders.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type OrganizationFact = typeof organizationFacts.$inferSelect;
+export type InsertOrganizationFact = Omit<typeof organizationFacts.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type ClarificationQuestion = typeof clarificationQuestions.$inferSelect;
+export type InsertClarificationQuestion = Omit<
+  typeof clarificationQuestions.$inferInsert,
+  "id" | "status" | "answer" | "factId" | "answeredBy" | "answeredAt" | "followUp" | "createdAt" | "updatedAt"
+>;
+export type InsertOrganizationAiEndpoint = z.infer<typeof insertOrganizationAiEndpointSchema>;
 export type GrantMetric = typeof grantMetrics.$inferSelect;
 export type InsertGrantMetric = z.infer<typeof insertGrantMetricSchema>;
 export type GrantMetricEvent = typeof grantMetricEvents.$inferSelect;
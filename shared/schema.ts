@@ -55,6 +55,7 @@ const _insertDocumentSchema = createInsertSchema(documents).pick({
   fileSize: true,
   category: true,
   summary: true,
+  structuredSummary: true,
   processed: true,
   embeddingStatus: true,
   chunkCount: true,
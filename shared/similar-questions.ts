@@ -0,0 +1,24 @@
+/**
+ * Answered questions from the organization's other applications that are
+ * close to a newly added question, offered as a starting point.
+ */
+
+export interface SimilarAnswer {
+  questionId: string;
+  question: string;
+  answer: string;
+  projectId: string;
+  projectTitle: string;
+  funder: string;
+  /** The source application was awarded */
+  awarded: boolean;
+  /** 0-1 */
+  similarity: number;
+  /** "embedding" when compared by vector, "keyword" on shared terms without an embedding model */
+  matchedOn: "embedding" | "keyword";
+}
+
+/** "You answered a similar question for <Funder> in <Project> (awarded)" */
+export function describeSimilarAnswer(match: Pick<SimilarAnswer, "funder" | "projectTitle" | "awarded">): string {
+  return `You answered a similar question for ${match.funder} in ${match.projectTitle}${match.awarded ? " (awarded)" : ""}`;
+}
@@ -42,9 +42,12 @@ export const GRANT_EXPORT_FIXTURE: ExportData = {
       question: "Outline your program budget and fiscal oversight.",
       wordLimit: 300,
       priority: "high",
-      response: "Annual budget is $1.2M with 72% allocated to direct program services.",
+      response: "Annual budget is $1.2M with 72% allocated to direct program services. [#1]",
       responseStatus: "edited",
       createdAt: new Date("2026-01-15"),
+      citations: [
+        { documentName: "Annual_Report_2024.pdf", documentId: "doc-1", chunkIndex: 3, pageStart: 14, pageEnd: 14 },
+      ],
     },
     {
       id: "q3",